@@ -4,6 +4,7 @@ import { useState, useEffect } from "react"
 import { useParams } from "next/navigation"
 import Link from "next/link"
 import { TokenAnalyzer } from "@/components/organisms/token-analyzer"
+import { SimilarDesignSystems } from "@/components/organisms/similar-design-systems"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -320,6 +321,10 @@ layout_profile("https://${domain}")`
             </div>
           </TabsContent>
         </Tabs>
+
+        <div className="mt-8">
+          <SimilarDesignSystems domain={siteData.domain} />
+        </div>
       </main>
     </div>
   )
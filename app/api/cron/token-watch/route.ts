@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enqueueDueWatches } from '@/lib/workers/token-watch'
+import { isScanQueueEnabled } from '@/lib/workers/scan-queue'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const MAX_WATCHES_PER_RUN = 50
+
+/**
+ * Cron job to re-scan watched domains and report token drift
+ *
+ * Schedule: Hourly
+ * Vercel Cron: 0 * * * *
+ *
+ * Purpose: Each due watch is queued as a scan job for the scan worker; a new token
+ * version is stored only when the token digest changes, and the worker posts the
+ * change summary to the watch's webhook when the job completes
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret to prevent unauthorized access
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  // Accurate crawls don't fit in a serverless request; without a worker the watches would never run
+  if (!isScanQueueEnabled()) {
+    return NextResponse.json(
+      { success: false, error: 'Token watches need the scan queue (SCAN_QUEUE_ENABLED=1 and a running scan worker)' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const startTime = Date.now()
+    const results = await enqueueDueWatches({ limit: MAX_WATCHES_PER_RUN })
+    const duration = Date.now() - startTime
+
+    const queued = results.filter(result => result.jobId).length
+    const failed = results.length - queued
+
+    console.log(`✅ Token watch run completed:`)
+    console.log(`   Queued: ${queued} watches, failed: ${failed}`)
+    console.log(`   Duration: ${duration}ms`)
+
+    return NextResponse.json({
+      success: true,
+      queued,
+      failed,
+      duration,
+      results
+    })
+
+  } catch (error) {
+    console.error('Token watch run failed:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Token watch run failed'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Allow manual runs via POST (for testing)
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
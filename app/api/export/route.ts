@@ -7,18 +7,23 @@
  * - CSS/SCSS/LESS/Stylus variables
  * - TypeScript/JavaScript modules
  * - Mobile platforms (Swift, Kotlin, Dart)
+ * Optionally with a contrast matrix appendix (options.contrastAppendix)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { db, tokenSets } from '@/lib/db'
-import { eq } from 'drizzle-orm'
+import { db, sites, tokenSets } from '@/lib/db'
+import { and, desc, eq, or } from 'drizzle-orm'
+import { authorizeOptionalApiKey } from '@/lib/auth/middleware'
 import {
   exportTokens,
   getFileExtension,
   getMimeType,
   type ExportFormat
 } from '@/lib/exporters/comprehensive-token-exporter'
+import { appendContrastAppendix } from '@/lib/exporters/contrast-appendix'
+import { buildContrastMatrix } from '@/lib/analyzers/contrast-matrix'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
 
 const exportRequestSchema = z.object({
   tokenSetId: z.string().optional(),
@@ -49,13 +54,19 @@ const exportRequestSchema = z.object({
     includeComments: z.boolean().default(true),
     prettify: z.boolean().default(true),
     prefix: z.string().default(''),
-    tailwindVersion: z.union([z.literal(3), z.literal(4)]).default(4)
+    tailwindVersion: z.union([z.literal(3), z.literal(4)]).default(4),
+    contrastAppendix: z.union([z.boolean(), z.enum(['AA', 'AAA'])]).default(false) // Append the contrast matrix
   }).optional()
 }).refine(data => data.tokenSetId || data.domain, {
   message: 'Either tokenSetId or domain must be provided'
 })
 
 export async function POST(request: NextRequest) {
+  const auth = await authorizeOptionalApiKey(request, 'tokens:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
   try {
     const payload = await request.json()
     const params = exportRequestSchema.parse(payload)
@@ -64,26 +75,28 @@ export async function POST(request: NextRequest) {
     let tokenSet
 
     if (params.tokenSetId) {
+      // Private (profile scan) sets export only with their owner's key
+      const visible = auth.apiKey
+        ? or(eq(tokenSets.isPublic, true), eq(tokenSets.createdBy, auth.apiKey.userId))
+        : eq(tokenSets.isPublic, true)
       const [result] = await db
         .select()
         .from(tokenSets)
-        .where(eq(tokenSets.id, params.tokenSetId))
+        .where(and(eq(tokenSets.id, params.tokenSetId), visible))
         .limit(1)
 
       tokenSet = result
     } else if (params.domain) {
-      // Find most recent token set for domain
-      const siteQuery = await db.query.sites.findFirst({
-        where: (sites: typeof import('@/lib/db/schema').sites.$inferSelect, { eq }: { eq: typeof import('drizzle-orm').eq }) => eq(sites.domain, params.domain),
-        with: {
-          tokenSets: {
-            orderBy: (tokenSets: typeof import('@/lib/db/schema').tokenSets.$inferSelect, { desc }: { desc: typeof import('drizzle-orm').desc }) => [desc(tokenSets.versionNumber)],
-            limit: 1
-          }
-        }
-      })
+      // Find most recent public token set for domain
+      const [result] = await db
+        .select({ tokenSet: tokenSets })
+        .from(tokenSets)
+        .innerJoin(sites, eq(sites.id, tokenSets.siteId))
+        .where(and(eq(sites.domain, params.domain), eq(tokenSets.isPublic, true)))
+        .orderBy(desc(tokenSets.isOfficial), desc(tokenSets.versionNumber))
+        .limit(1)
 
-      tokenSet = siteQuery?.tokenSets[0]
+      tokenSet = result?.tokenSet
     }
 
     if (!tokenSet) {
@@ -97,7 +110,7 @@ export async function POST(request: NextRequest) {
     const tokenData = tokenSet.tokensJson as any
 
     // Export tokens to requested format using comprehensive exporter
-    const exported = exportTokens({
+    let exported = exportTokens({
       format: params.format as ExportFormat,
       tokens: tokenData,
       metadata: {
@@ -109,6 +122,14 @@ export async function POST(request: NextRequest) {
       options: params.options
     })
 
+    const contrastAppendix = params.options?.contrastAppendix
+    if (contrastAppendix) {
+      const matrix = buildContrastMatrix(tokenData as W3CTokenSet, {
+        target: contrastAppendix === true ? 'AA' : contrastAppendix
+      })
+      exported = appendContrastAppendix(exported, params.format as ExportFormat, matrix)
+    }
+
     // Determine filename
     const ext = getFileExtension(params.format as ExportFormat)
     const filename = `${params.domain || 'tokens'}-${params.format}.${ext}`
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import { ApiKeyError, ApiKeyNotFoundError, rotateApiKey } from '@/lib/auth/api-keys'
+
+const keyIdSchema = z.string().uuid()
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/keys/[id]/rotate
+ * Replace a key with a new one carrying the same scopes and quota; the old key
+ * is revoked and the new raw key is only returned here
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, 'keys:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  const { id } = await params
+  if (!keyIdSchema.safeParse(id).success) {
+    return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+  }
+
+  try {
+    const issued = await rotateApiKey(auth.apiKey.userId, id)
+    return NextResponse.json({ key: issued.key, apiKey: issued.apiKey, rotatedFromId: id }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    // Revoked keys can't be rotated
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Failed to rotate API key:', error)
+    return NextResponse.json({ error: 'Failed to rotate API key' }, { status: 500 })
+  }
+}
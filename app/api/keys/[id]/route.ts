@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import { ApiKeyNotFoundError, revokeApiKey } from '@/lib/auth/api-keys'
+
+const keyIdSchema = z.string().uuid()
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * DELETE /api/keys/[id]
+ * Revoke one of the caller's API keys; it stops authenticating immediately
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, 'keys:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  const { id } = await params
+  if (!keyIdSchema.safeParse(id).success) {
+    return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+  }
+
+  try {
+    await revokeApiKey(auth.apiKey.userId, id)
+    return NextResponse.json({ success: true, id })
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error('Failed to revoke API key:', error)
+    return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 })
+  }
+}
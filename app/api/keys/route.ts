@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { ApiKeyError, createApiKey, listApiKeys, normalizeScopes } from '@/lib/auth/api-keys'
+
+const rateLimiter = createRateLimiter(60 * 1000, 10) // 10 key changes per minute
+
+const createKeySchema = z.object({
+  name: z.string().min(1).max(255),
+  scopes: z.array(z.string().min(1).max(64)).min(1).max(32).optional(),
+  monthlyQuota: z.number().int().min(0).optional(),
+  expiresInDays: z.number().int().min(1).max(3650).optional()
+})
+
+/**
+ * GET /api/keys
+ * List the caller's API keys (prefixes only; raw keys are never stored)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeApiKey(request, 'keys:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const keys = await listApiKeys(auth.apiKey.userId)
+    return NextResponse.json({ keys, total: keys.length })
+  } catch (error) {
+    console.error('Failed to list API keys:', error)
+    return NextResponse.json({ error: 'Failed to list API keys' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/keys
+ * Create a key with at most the caller's own scopes; the raw key is only returned here
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeApiKey(request, 'keys:manage')
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    if (!rateLimiter(auth.apiKey.userId)) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+    }
+
+    const params = createKeySchema.parse(await request.json())
+    const issued = await createApiKey({
+      userId: auth.apiKey.userId,
+      name: params.name,
+      scopes: params.scopes && normalizeScopes(params.scopes, auth.apiKey.scopes),
+      monthlyQuota: params.monthlyQuota,
+      expiresInDays: params.expiresInDays
+    })
+
+    return NextResponse.json({ key: issued.key, apiKey: issued.apiKey }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create API key:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 })
+  }
+}
@@ -1,13 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { MCPServer, getTokensSchema } from '@/lib/mcp/server'
-import { createRateLimiter } from '@/lib/auth/middleware'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { recordApiKeyUsage } from '@/lib/auth/api-keys'
 import { z } from 'zod'
 
 const rateLimiter = createRateLimiter(60 * 1000, 60) // 60 requests per minute (higher for read-only)
 
 export async function GET(request: NextRequest) {
   try {
-    // Rate limiting (public endpoint)
+    // Same scope as the get_tokens tool on /api/mcp
+    const auth = await authorizeApiKey(request, 'mcp:get_tokens')
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      )
+    }
+
+    // Rate limiting
     const clientId = request.headers.get('x-forwarded-for') || 'unknown'
     if (!rateLimiter(clientId)) {
       return NextResponse.json(
@@ -24,8 +34,10 @@ export async function GET(request: NextRequest) {
     })
 
     // Execute MCP tool
+    const startedAt = Date.now()
     const mcpServer = new MCPServer()
     const result = await mcpServer.getTokens(params)
+    await recordApiKeyUsage(auth.apiKey, { tool: 'get_tokens', success: !('error' in result), latency: Date.now() - startedAt })
 
     return NextResponse.json(result)
 
@@ -48,6 +60,14 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeApiKey(request, 'mcp:get_tokens')
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      )
+    }
+
     const clientId = request.headers.get('x-forwarded-for') || 'unknown'
     if (!rateLimiter(clientId)) {
       return NextResponse.json(
@@ -59,8 +79,10 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const params = getTokensSchema.parse(body)
 
+    const startedAt = Date.now()
     const mcpServer = new MCPServer()
     const result = await mcpServer.getTokens(params)
+    await recordApiKeyUsage(auth.apiKey, { tool: 'get_tokens', success: !('error' in result), latency: Date.now() - startedAt })
 
     return NextResponse.json(result)
 
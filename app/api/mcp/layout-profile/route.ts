@@ -1,12 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { MCPServer, layoutProfileSchema } from '@/lib/mcp/server'
-import { createRateLimiter } from '@/lib/auth/middleware'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { recordApiKeyUsage } from '@/lib/auth/api-keys'
 import { z } from 'zod'
 
 const rateLimiter = createRateLimiter(60 * 1000, 30) // 30 requests per minute
 
 export async function POST(request: NextRequest) {
   try {
+    // Same scope as the layout_profile tool on /api/mcp
+    const auth = await authorizeApiKey(request, 'mcp:layout_profile')
+    if (!auth.ok) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      )
+    }
+
     const clientId = request.headers.get('x-forwarded-for') || 'unknown'
     if (!rateLimiter(clientId)) {
       return NextResponse.json(
@@ -18,8 +28,10 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const params = layoutProfileSchema.parse(body)
 
+    const startedAt = Date.now()
     const mcpServer = new MCPServer()
     const result = await mcpServer.layoutProfile(params)
+    await recordApiKeyUsage(auth.apiKey, { tool: 'layout_profile', success: !('error' in result), latency: Date.now() - startedAt })
 
     return NextResponse.json(result)
 
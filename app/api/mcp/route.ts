@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import {
+  McpProtocolHandler,
+  JSON_RPC_ERRORS,
+  DEFAULT_HTTP_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from '@/lib/mcp/protocol'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const rateLimiter = createRateLimiter(60 * 1000, 60) // 60 messages per minute
+
+/**
+ * MCP Streamable HTTP endpoint
+ *
+ * Every JSON-RPC message is POSTed here and answered with a single JSON response.
+ * The server is stateless: it issues no Mcp-Session-Id and opens no SSE stream
+ */
+export async function POST(request: NextRequest) {
+  const origin = request.headers.get('origin')
+  // Browsers may only reach the endpoint from our own origin (DNS rebinding protection)
+  if (origin && !isSameHost(origin, request.headers.get('host'))) {
+    return rpcError(403, JSON_RPC_ERRORS.invalidRequest, 'Origin not allowed')
+  }
+
+  const protocolVersion = request.headers.get('mcp-protocol-version')
+  if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    return rpcError(400, JSON_RPC_ERRORS.invalidRequest, `Unsupported MCP protocol version: ${protocolVersion}`)
+  }
+
+  // Scopes are checked per tool call (mcp:<tool>)
+  const auth = await authorizeApiKey(request)
+  if (!auth.ok) {
+    return rpcError(auth.status, JSON_RPC_ERRORS.invalidRequest, auth.error)
+  }
+  const { apiKey } = auth
+
+  if (!rateLimiter(apiKey.userId)) {
+    return rpcError(429, JSON_RPC_ERRORS.invalidRequest, 'Rate limit exceeded')
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return rpcError(400, JSON_RPC_ERRORS.parseError, 'Parse error')
+  }
+
+  // Batches are accepted for clients on the 2025-03-26 protocol
+  if (Array.isArray(body) && body.length === 0) {
+    return rpcError(400, JSON_RPC_ERRORS.invalidRequest, 'Empty batch')
+  }
+
+  // Stateless: each request states its version, except initialize, which negotiates it
+  const handler = new McpProtocolHandler({
+    userId: apiKey.userId,
+    apiKey,
+    protocolVersion: protocolVersion ?? DEFAULT_HTTP_PROTOCOL_VERSION
+  })
+  const response = await handler.handleBody(body)
+
+  // Only notifications or client responses were sent
+  if (!response) {
+    return new NextResponse(null, { status: 202 })
+  }
+
+  return NextResponse.json(response)
+}
+
+// No server-initiated SSE stream and no sessions to terminate
+export async function GET() {
+  return new NextResponse(null, { status: 405, headers: { Allow: 'POST' } })
+}
+
+export async function DELETE() {
+  return new NextResponse(null, { status: 405, headers: { Allow: 'POST' } })
+}
+
+function isSameHost(origin: string, host: string | null): boolean {
+  try {
+    return new URL(origin).host === host
+  } catch {
+    return false
+  }
+}
+
+function rpcError(status: number, code: number, message: string) {
+  return NextResponse.json(
+    { jsonrpc: '2.0', id: null, error: { code, message } },
+    { status }
+  )
+}
@@ -1,20 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { MCPServer, scanTokensSchema } from '@/lib/mcp/server'
-import { authenticateApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { releaseScanQuota, reserveScanQuota, METERED_SCAN_TOOL } from '@/lib/auth/api-keys'
 import { z } from 'zod'
 
 const rateLimiter = createRateLimiter(60 * 1000, 10) // 10 requests per minute
 
 export async function POST(request: NextRequest) {
+  let usageId: string | null = null
   try {
     // Authenticate API key
-    const userId = await authenticateApiKey(request)
-    if (!userId) {
+    const auth = await authorizeApiKey(request, `mcp:${METERED_SCAN_TOOL}`)
+    if (!auth.ok) {
       return NextResponse.json(
-        { error: 'Invalid or missing API key' },
-        { status: 401 }
+        { error: auth.error },
+        { status: auth.status }
       )
     }
+    const { apiKey } = auth
+    const userId = apiKey.userId
 
     // Rate limiting
     const clientId = request.headers.get('x-forwarded-for') || 'unknown'
@@ -29,9 +33,24 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const params = scanTokensSchema.parse(body)
 
+    // The scan is counted before it runs and handed back if it fails
+    const reservation = await reserveScanQuota(apiKey, { url: params.url })
+    if (!reservation.ok) {
+      const { quota } = reservation
+      return NextResponse.json(
+        { error: 'Monthly scan quota exceeded', quota: quota.limit, used: quota.used, resetsAt: quota.resetsAt.toISOString() },
+        { status: 429 }
+      )
+    }
+    usageId = reservation.usageId
+
     // Execute enhanced MCP tool with AI integration
     const mcpServer = new MCPServer()
     const result = await mcpServer.scanTokens(params, userId)
+    if (result.status === 'failed') {
+      await releaseScanQuota(usageId)
+    }
+    usageId = null
 
     // Record AI operation for observability
     if (result.ai_metadata) {
@@ -70,6 +89,7 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('MCP scan_tokens error:', error)
+    if (usageId) await releaseScanQuota(usageId)
 
     if (error instanceof z.ZodError) {
       return NextResponse.json(
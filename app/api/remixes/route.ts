@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { and, eq, gte, inArray, sql } from 'drizzle-orm'
+import { db, remixes, sites, subscriptions, tokenSets } from '@/lib/db'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { remixTokenSets, RemixError, type RemixSource } from '@/lib/analyzers/token-remix'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+
+const rateLimiter = createRateLimiter(60 * 1000, 10) // 10 remixes per minute
+
+const remixRequestSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional(),
+  sourceTokenSetIds: z.array(z.string().uuid()).min(2).max(5),
+  rules: z.object({
+    categories: z.record(z.string(), z.string().uuid()).optional(), // e.g. { color: <id>, typography: <id> }
+    spacingGrid: z.number().int().min(1).max(64).optional(),
+    contrast: z.enum(['AA', 'AAA']).optional()
+  }).default({}),
+  isPublic: z.boolean().default(false)
+})
+
+/**
+ * POST /api/remixes
+ * Blend several token sets into a new one ("colors from A, typography from B,
+ * spacing on a 4px grid, enforce AA contrast"). Counts against the monthly
+ * remix quota of the caller's subscription; the quota check and both inserts
+ * run in one transaction under a per-user lock
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeApiKey(request, 'tokens:write')
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+    const userId = auth.apiKey.userId
+
+    const clientId = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!rateLimiter(clientId)) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+    }
+
+    const params = remixRequestSchema.parse(await request.json())
+    const sourceIds = Array.from(new Set(params.sourceTokenSetIds))
+
+    // Checked again under the lock before anything is stored
+    const available = await getRemixQuota(userId)
+    if (available.used >= available.limit) {
+      return remixQuotaExceeded(available)
+    }
+
+    // Public token sets and the caller's own private ones can be remixed
+    const rows = await db
+      .select({
+        id: tokenSets.id,
+        tokensJson: tokenSets.tokensJson,
+        isPublic: tokenSets.isPublic,
+        createdBy: tokenSets.createdBy,
+        domain: sites.domain
+      })
+      .from(tokenSets)
+      .leftJoin(sites, eq(tokenSets.siteId, sites.id))
+      .where(inArray(tokenSets.id, sourceIds))
+
+    type SourceRow = (typeof rows)[number]
+    const visible = rows.filter((row: SourceRow) => row.isPublic || row.createdBy === userId)
+    if (visible.length !== sourceIds.length) {
+      return NextResponse.json({ error: 'Source token set not found' }, { status: 404 })
+    }
+
+    // Keep the caller's order: the first source supplies categories no rule assigns
+    const sources: RemixSource[] = sourceIds.map(id => {
+      const row = visible.find((candidate: SourceRow) => candidate.id === id)!
+      const tokenSet = row.tokensJson as W3CTokenSet
+      return { id, name: row.domain ?? tokenSet.$metadata?.name ?? id, tokenSet }
+    })
+
+    const remix = remixTokenSets(sources, params.rules, params.name)
+
+    const stored = await db.transaction(async (tx: typeof db) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtextextended(${`remix-quota:${userId}`}, 0))`)
+
+      const quota = await getRemixQuota(userId, tx)
+      if (quota.used >= quota.limit) {
+        return { ok: false as const, quota }
+      }
+
+      const [outputSet] = await tx
+        .insert(tokenSets)
+        .values({
+          siteId: null,
+          scanId: null,
+          tokensJson: remix.tokenSet,
+          isPublic: params.isPublic,
+          createdBy: userId
+        })
+        .returning({ id: tokenSets.id, createdAt: tokenSets.createdAt })
+
+      const [record] = await tx
+        .insert(remixes)
+        .values({
+          sourceTokenSetIds: sourceIds,
+          constraintsJson: params.rules,
+          outputTokenSetId: outputSet.id,
+          name: params.name,
+          description: params.description ?? null,
+          isPublic: params.isPublic,
+          createdBy: userId
+        })
+        .returning({ id: remixes.id })
+
+      return { ok: true as const, quota, outputSet, record }
+    })
+
+    if (!stored.ok) {
+      return remixQuotaExceeded(stored.quota)
+    }
+    const { quota, outputSet, record } = stored
+
+    return NextResponse.json(
+      {
+        remixId: record.id,
+        tokenSetId: outputSet.id,
+        createdAt: outputSet.createdAt.toISOString(),
+        summary: remix.summary,
+        quota: { limit: quota.limit, used: quota.used + 1, resetsAt: quota.resetsAt.toISOString() },
+        tokens: remix.tokenSet
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof RemixError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+
+    console.error('Remix failed:', error)
+    return NextResponse.json({ error: 'Remix failed' }, { status: 500 })
+  }
+}
+
+type RemixQuota = { limit: number; used: number; resetsAt: Date }
+
+function remixQuotaExceeded(quota: RemixQuota) {
+  return NextResponse.json(
+    { error: 'Remix quota exceeded', quota: quota.limit, used: quota.used, resetsAt: quota.resetsAt.toISOString() },
+    { status: 403 }
+  )
+}
+
+/**
+ * Remixes allowed and used in the current billing period. Without an active
+ * subscription the free plan default (no remixes) applies
+ */
+async function getRemixQuota(userId: string, executor: typeof db = db): Promise<RemixQuota> {
+  const [subscription] = await executor
+    .select({
+      remixesQuota: subscriptions.remixesQuota,
+      currentPeriodStart: subscriptions.currentPeriodStart,
+      currentPeriodEnd: subscriptions.currentPeriodEnd
+    })
+    .from(subscriptions)
+    .where(and(eq(subscriptions.userId, userId), eq(subscriptions.status, 'active')))
+    .limit(1)
+
+  const now = new Date()
+  const periodStart = subscription?.currentPeriodStart ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  const resetsAt = subscription?.currentPeriodEnd ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+
+  const [{ used }] = await executor
+    .select({ used: sql<number>`count(*)::int` })
+    .from(remixes)
+    .where(and(eq(remixes.createdBy, userId), gte(remixes.createdAt, periodStart)))
+
+  return { limit: subscription?.remixesQuota ?? 0, used, resetsAt }
+}
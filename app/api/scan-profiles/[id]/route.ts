@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import {
+  deleteScanProfile,
+  openScanSession,
+  ScanProfileError,
+  ScanProfileNotFoundError,
+  ScanProfilesDisabledError,
+  serializeScanProfile,
+  updateScanProfile
+} from '@/lib/auth/scan-profiles'
+import {
+  MAX_SCAN_STEPS,
+  scanStepSchema,
+  sessionCookieSchema,
+  sessionHeadersSchema
+} from '@/lib/extractors/scan-session'
+
+// Parts left out are kept; cookies, headers and steps are each replaced whole
+const updateProfileSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  cookies: z.array(sessionCookieSchema).max(50).optional(),
+  headers: sessionHeadersSchema.optional(),
+  steps: z.array(scanStepSchema).max(MAX_SCAN_STEPS).optional()
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * PATCH /api/scan-profiles/[id]
+ * Rename a profile or replace its cookies (after an SSO session expires), headers or steps
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, 'profiles:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { id } = await params
+    const { name, ...parts } = updateProfileSchema.parse(await request.json())
+    const session = Object.fromEntries(Object.entries(parts).filter(([, value]) => value !== undefined))
+
+    const profile = await updateScanProfile(auth.apiKey.userId, id, {
+      name,
+      session: Object.keys(session).length > 0 ? session : undefined
+    })
+    return NextResponse.json({ profile: serializeScanProfile(profile, openScanSession(profile.secretsEncrypted)) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid parameters', details: error.issues }, { status: 400 })
+    }
+
+    if (error instanceof ScanProfileNotFoundError) {
+      return NextResponse.json({ error: 'Scan profile not found' }, { status: 404 })
+    }
+
+    if (error instanceof ScanProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof ScanProfilesDisabledError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+
+    console.error('Failed to update scan profile:', error)
+    return NextResponse.json({ error: 'Failed to update scan profile' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/scan-profiles/[id]
+ * Delete a profile and its stored secrets
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, 'profiles:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { id } = await params
+    if (!(await deleteScanProfile(auth.apiKey.userId, id))) {
+      return NextResponse.json({ error: 'Scan profile not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, id })
+  } catch (error) {
+    console.error('Failed to delete scan profile:', error)
+    return NextResponse.json({ error: 'Failed to delete scan profile' }, { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import {
+  createScanProfile,
+  listScanProfiles,
+  openScanSession,
+  ScanProfileError,
+  ScanProfilesDisabledError,
+  serializeScanProfile
+} from '@/lib/auth/scan-profiles'
+import { InvalidClaimDomainError } from '@/lib/compliance/site-ownership'
+import { scanSessionSchema } from '@/lib/extractors/scan-session'
+
+const createProfileSchema = scanSessionSchema.extend({
+  name: z.string().trim().min(1).max(255),
+  domain: z.string().trim().min(1).max(255)
+})
+
+/**
+ * GET /api/scan-profiles
+ * List the caller's scan profiles: cookie and header names and the steps, never their values
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeApiKey(request, 'profiles:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const profiles = await listScanProfiles(auth.apiKey.userId)
+    return NextResponse.json({
+      profiles: profiles.map(profile => serializeScanProfile(profile, openScanSession(profile.secretsEncrypted))),
+      total: profiles.length
+    })
+  } catch (error) {
+    if (error instanceof ScanProfilesDisabledError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+
+    console.error('Failed to list scan profiles:', error)
+    return NextResponse.json({ error: 'Failed to list scan profiles' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/scan-profiles
+ * Save cookies, headers and login steps for a domain; pass the returned id as
+ * `profileId` to POST /api/scan
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeApiKey(request, 'profiles:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { name, domain, ...session } = createProfileSchema.parse(await request.json())
+    const profile = await createScanProfile(auth.apiKey.userId, { name, domain, session })
+    return NextResponse.json({ profile: serializeScanProfile(profile, session) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid parameters', details: error.issues }, { status: 400 })
+    }
+
+    if (error instanceof InvalidClaimDomainError || error instanceof ScanProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof ScanProfilesDisabledError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+
+    console.error('Failed to create scan profile:', error)
+    return NextResponse.json({ error: 'Failed to create scan profile' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import { cancelScanJob, getScanJob, serializeScanJob } from '@/lib/workers/scan-queue'
+
+const jobIdSchema = z.string().uuid()
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/scan/jobs/[id]
+ * Queue status of a scan job; includes the scan result once it is done. The
+ * result of a job submitted with an API key is only returned to that key's
+ * owner (with the scan:write scope); anonymous jobs to anyone holding the job id
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  if (!jobIdSchema.safeParse(id).success) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  try {
+    const job = await getScanJob(id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    let includeResult = true
+    if (job.submittedBy) {
+      const auth = await authorizeApiKey(request, 'scan:write')
+      includeResult = auth.ok && auth.apiKey.userId === job.submittedBy
+    }
+
+    return NextResponse.json({ job: serializeScanJob(job, { includeResult }) })
+  } catch (error) {
+    console.error('Failed to fetch scan job:', error)
+    return NextResponse.json({ error: 'Failed to fetch scan job' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/scan/jobs/[id]
+ * Cancel a queued or running scan. Jobs submitted with an API key can only be
+ * cancelled by that key's owner (with the scan:write scope); anonymous jobs by
+ * anyone holding the job id
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  if (!jobIdSchema.safeParse(id).success) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  try {
+    const job = await getScanJob(id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (job.submittedBy) {
+      const auth = await authorizeApiKey(request, 'scan:write')
+      if (!auth.ok || auth.apiKey.userId !== job.submittedBy) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+      }
+    }
+
+    if (job.status === 'done' || job.status === 'failed' || job.status === 'cancelled' || job.status === 'rejected') {
+      return NextResponse.json(
+        { error: `Job already ${job.status}`, job: serializeScanJob(job) },
+        { status: 409 }
+      )
+    }
+
+    const cancelled = await cancelScanJob(id)
+    return NextResponse.json({ job: cancelled ? serializeScanJob(cancelled) : null })
+  } catch (error) {
+    console.error('Failed to cancel scan job:', error)
+    return NextResponse.json({ error: 'Failed to cancel scan job' }, { status: 500 })
+  }
+}
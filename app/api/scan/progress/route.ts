@@ -1,6 +1,10 @@
 import { NextRequest } from 'next/server'
+import { authorizeApiKey } from '@/lib/auth/middleware'
 import { progressStore } from '@/lib/events/progress-store'
 import type { ProgressEvent } from '@/lib/workers/progress-emitter'
+import { getScanJob, isScanQueueEnabled, loadScanJobEvents } from '@/lib/workers/scan-queue'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
 // Global real-time broadcast function
 async function broadcastToRealtime(data: any) {
@@ -25,6 +29,21 @@ export async function GET(request: NextRequest) {
     return new Response('Missing scanId', { status: 400 })
   }
 
+  // Queued scans run in the worker process and relay their events through the database.
+  // Like GET /api/scan/jobs/[id], the result of a job submitted with an API key
+  // only goes to that key's owner
+  const job = isScanQueueEnabled() && UUID_PATTERN.test(scanId)
+    ? await getScanJob(scanId).catch(error => {
+        console.error(`Failed to follow scan job ${scanId}:`, error)
+        return null
+      })
+    : null
+  let includeResult = true
+  if (job?.submittedBy) {
+    const auth = await authorizeApiKey(request, 'scan:write')
+    includeResult = auth.ok && auth.apiKey.userId === job.submittedBy
+  }
+
   const encoder = new TextEncoder()
   let unsubscribe: (() => void) | null = null
 
@@ -49,7 +68,8 @@ export async function GET(request: NextRequest) {
       unsubscribe = progressStore.subscribe(scanId, (event: ProgressEvent) => {
         console.log(`📨 SSE event for ${scanId}:`, event.type, event.message || event.phase)
         try {
-          const message = encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+          const visible = event.type === 'complete' && !includeResult ? { ...event, data: undefined } : event
+          const message = encoder.encode(`data: ${JSON.stringify(visible)}\n\n`)
           controller.enqueue(message)
 
           // Broadcast to global real-time stream for live metrics
@@ -97,6 +117,9 @@ export async function GET(request: NextRequest) {
         }
       })
 
+      // Replay the events a queued scan's worker relays through the database
+      if (job) progressStore.follow(scanId, cursor => loadScanJobEvents(scanId, cursor))
+
       // Cleanup on disconnect
       request.signal.addEventListener('abort', () => {
         clearInterval(heartbeat)
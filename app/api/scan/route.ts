@@ -1,139 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { promises as dns } from 'dns'
 import { runScanJob } from '@/lib/workers/scan-orchestrator'
 import { scanRatelimit } from '@/lib/ratelimit'
+import { validateSSRF } from '@/lib/utils/ssrf'
+import { authorizeOptionalApiKey } from '@/lib/auth/middleware'
+import { releaseScanQuota, reserveScanQuota } from '@/lib/auth/api-keys'
+import { enqueueScanJob, isScanQueueEnabled, resolveScanPriority } from '@/lib/workers/scan-queue'
+import { ScanArchiveMissError, ScanArchiveNotFoundError } from '@/lib/extractors/scan-archive'
+import { assertScanAllowed, SiteOptedOutError } from '@/lib/compliance/site-ownership'
+import { getScanRepository } from '@/lib/db/repositories'
+import {
+  findOwnedScanProfile,
+  profileCoversHost,
+  ScanProfileDomainError,
+  ScanProfileNotFoundError,
+  ScanProfilesDisabledError
+} from '@/lib/auth/scan-profiles'
+import { ScanStepError } from '@/lib/extractors/scan-session'
 
 const scanRequestSchema = z.object({
   url: z.string().url(),
   depth: z.enum(['1', '2', '3']).default('1'),
+  maxPages: z.number().int().min(1).max(25).optional(),
   prettify: z.boolean().default(false),
   quality: z.enum(['basic', 'standard', 'premium']).default('standard'),
   budget: z.number().min(0.01).max(1.0).default(0.15),
-  mode: z.enum(['fast', 'accurate']).default('accurate')  // fast = static only, accurate = full scan
+  mode: z.enum(['fast', 'accurate']).default('accurate'),  // fast = static only, accurate = full scan
+  recordArchive: z.boolean().optional(), // Store a HAR of every request the scan makes
+  replayScanId: z.string().uuid().optional(), // Re-run a recorded scan from its archive, without the network
+  profileId: z.string().uuid().optional() // Scan profile (cookies, headers, login steps) for pages behind a login
 })
 
-/**
- * Check if an IP address is in a private range
- */
-function isPrivateIP(ip: string): boolean {
-  const parts = ip.split('.').map(Number)
-  if (parts.length !== 4 || parts.some(p => isNaN(p) || p < 0 || p > 255)) {
-    return true // Invalid IP, treat as private
-  }
-
-  return (
-    parts[0] === 10 ||
-    parts[0] === 127 ||
-    (parts[0] === 172 && parts[1] >= 16 && parts[1] <= 31) ||
-    (parts[0] === 192 && parts[1] === 168) ||
-    parts[0] === 0 ||
-    (parts[0] === 169 && parts[1] === 254) || // Link-local
-    parts[0] === 255 // Broadcast
-  )
-}
-
-/**
- * Check if an IPv6 address is in a private range
- */
-function isPrivateIPv6(ip: string): boolean {
-  const lower = ip.toLowerCase()
-  return (
-    lower === '::1' ||
-    lower.startsWith('::1') || // Loopback
-    lower.startsWith('fe80:') || // Link-local
-    lower.startsWith('fc00:') || // Unique local
-    lower.startsWith('fd00:') // Unique local
-  )
-}
-
-/**
- * Validate URL is not targeting private/internal resources
- */
-async function validateSSRF(url: URL): Promise<string | null> {
-  const hostname = url.hostname
-  const port = url.port || (url.protocol === 'https:' ? '443' : '80')
-
-  // Block localhost and loopback
-  if (hostname === 'localhost' || hostname === '::1' || hostname.startsWith('127.')) {
-    return 'Cannot scan localhost or loopback addresses'
-  }
-
-  // Check if hostname is an IP address (not a domain name)
-  // Only validate IP format if it looks like an IP address
-  const isIPv4Format = /^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(hostname)
-  const isIPv6Format = hostname.includes(':')
-
-  // Block private IP ranges if hostname is an IP address
-  if (isIPv4Format && isPrivateIP(hostname)) {
-    return 'Cannot scan private IP addresses'
-  }
-
-  if (isIPv6Format && isPrivateIPv6(hostname)) {
-    return 'Cannot scan private IPv6 addresses'
-  }
-
-  // Block non-standard ports (only allow 80, 443, 8080)
-  const allowedPorts = ['80', '443', '8080']
-  if (!allowedPorts.includes(port)) {
-    return 'Only standard HTTP/HTTPS ports (80, 443, 8080) are allowed'
-  }
-
-  // Block cloud metadata endpoints
-  const blockedHosts = [
-    '169.254.169.254', // AWS metadata
-    'metadata.google.internal', // GCP
-    'metadata.azure.com', // Azure
-  ]
-  if (blockedHosts.some(blocked => hostname.includes(blocked))) {
-    return 'Cannot scan cloud metadata endpoints'
-  }
-
-  // Resolve DNS for both IPv4 and IPv6
-  try {
-    const [ipv4Result, ipv6Result] = await Promise.allSettled([
-      dns.resolve4(hostname),
-      dns.resolve6(hostname)
-    ])
-
-    // Check IPv4 addresses
-    if (ipv4Result.status === 'fulfilled') {
-      console.log('🔍 DNS resolved IPv4 for', hostname, ':', ipv4Result.value)
-      for (const ip of ipv4Result.value) {
-        const isPrivate = isPrivateIP(ip)
-        console.log('  IPv4:', ip, '- Private?', isPrivate)
-        if (isPrivate) {
-          return 'Domain resolves to private IP address'
-        }
-      }
-    }
-
-    // Check IPv6 addresses
-    if (ipv6Result.status === 'fulfilled') {
-      console.log('🔍 DNS resolved IPv6 for', hostname, ':', ipv6Result.value)
-      for (const ip of ipv6Result.value) {
-        const isPrivate = isPrivateIPv6(ip)
-        console.log('  IPv6:', ip, '- Private?', isPrivate)
-        if (isPrivate) {
-          return 'Domain resolves to private IPv6 address'
-        }
-      }
-    }
-
-    // If both DNS resolutions failed, reject
-    if (ipv4Result.status === 'rejected' && ipv6Result.status === 'rejected') {
-      console.warn('⚠️ Both IPv4 and IPv6 DNS resolution failed for', hostname)
-      return 'DNS resolution failed - domain may be invalid'
-    }
-  } catch (error) {
-    console.warn('⚠️ DNS resolution error for', hostname, error)
-    return 'DNS resolution failed - domain may be invalid'
-  }
-
-  return null // Valid
-}
-
 export async function POST(request: NextRequest) {
+  // Quota reserved for a keyed scan; handed back if the scan fails
+  let usageId: string | null = null
+
   try {
     // 1. Verify Content-Type
     const contentType = request.headers.get('content-type')
@@ -167,6 +68,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Scans made with an API key need the scan:write scope and count against its monthly quota
+    const auth = await authorizeOptionalApiKey(request, 'scan:write')
+    if (!auth.ok) {
+      return NextResponse.json({ status: 'failed', error: auth.error }, { status: auth.status })
+    }
+    const apiKey = auth.apiKey
+
     const payload = await request.json()
     console.log('📥 Scan request payload:', JSON.stringify(payload, null, 2))
     const params = scanRequestSchema.parse(payload)
@@ -202,6 +110,35 @@ export async function POST(request: NextRequest) {
     }
     console.log('✅ SSRF validation passed')
 
+    // Checked here too so queued scans of opted-out sites are refused up front
+    await assertScanAllowed(getScanRepository(), url.hostname)
+
+    // Scan profiles belong to the key's user and only work on their own domain
+    if (params.profileId) {
+      if (!apiKey) {
+        return NextResponse.json({ status: 'failed', error: 'Scan profiles require an API key' }, { status: 401 })
+      }
+      if (params.replayScanId) {
+        return NextResponse.json({ status: 'failed', error: 'profileId cannot be combined with replayScanId' }, { status: 400 })
+      }
+
+      const profile = await findOwnedScanProfile(params.profileId, apiKey.userId)
+      if (!profile) throw new ScanProfileNotFoundError(params.profileId)
+      if (!profileCoversHost(profile.domain, url.hostname)) throw new ScanProfileDomainError(profile.domain, url.hostname)
+    }
+
+    if (apiKey) {
+      const reservation = await reserveScanQuota(apiKey, { url: url.hostname })
+      if (!reservation.ok) {
+        const { quota } = reservation
+        return NextResponse.json(
+          { status: 'failed', error: 'Monthly scan quota exceeded', quota: quota.limit, used: quota.used, resetsAt: quota.resetsAt.toISOString() },
+          { status: 429 }
+        )
+      }
+      usageId = reservation.usageId
+    }
+
     // Fast mode skips browser automation (computed CSS + coverage API)
     // Saves ~1,200ms but reduces accuracy from 95% to 90%
     const includeComputed = params.mode === 'fast'
@@ -210,17 +147,61 @@ export async function POST(request: NextRequest) {
 
     const normalizedUrl = params.url.startsWith('http') ? params.url : `https://${params.url}`
 
+    // Queue mode: hand the scan to the worker and return the job id right away;
+    // progress and the final result stream from /api/scan/progress?scanId=<jobId>
+    if (isScanQueueEnabled()) {
+      const userId = apiKey?.userId ?? null
+      const job = await enqueueScanJob({
+        url: normalizedUrl,
+        options: {
+          prettify: params.prettify,
+          includeComputed,
+          mode: params.mode,
+          depth: Number(params.depth) as 1 | 2 | 3,
+          maxPages: params.maxPages,
+          recordArchive: params.recordArchive,
+          replayScanId: params.replayScanId,
+          profileId: params.profileId
+        },
+        priority: await resolveScanPriority(userId),
+        submittedBy: userId,
+        apiKeyId: apiKey?.id ?? null,
+        quotaUsageId: usageId
+      })
+
+      return NextResponse.json(
+        {
+          status: 'queued',
+          scanId: job.id,
+          jobId: job.id,
+          position: job.estimatedQueue,
+          statusUrl: `/api/scan/jobs/${job.id}`
+        },
+        { status: 202 }
+      )
+    }
+
     const result = await runScanJob({
       url: normalizedUrl,
       prettify: params.prettify,
       includeComputed,
-      mode: params.mode  // Pass mode to orchestrator
+      mode: params.mode,  // Pass mode to orchestrator
+      depth: Number(params.depth) as 1 | 2 | 3,
+      maxPages: params.maxPages,
+      recordArchive: params.recordArchive,
+      replayScanId: params.replayScanId,
+      profileId: params.profileId,
+      requestedBy: apiKey?.userId ?? null
     })
 
     return NextResponse.json(result)
   } catch (error) {
     console.error('❌ Scan error:', error)
 
+    if (usageId) {
+      await releaseScanQuota(usageId, error instanceof Error ? error.name : 'Error')
+    }
+
     if (error instanceof z.ZodError) {
       console.error('❌ Zod validation error:', JSON.stringify(error.issues, null, 2))
       return NextResponse.json(
@@ -233,6 +214,36 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (error instanceof SiteOptedOutError) {
+      return NextResponse.json({ status: 'failed', error: error.message }, { status: 403 })
+    }
+
+    if (error instanceof ScanProfileNotFoundError) {
+      return NextResponse.json({ status: 'failed', error: 'Scan profile not found' }, { status: 404 })
+    }
+
+    if (error instanceof ScanProfileDomainError) {
+      return NextResponse.json({ status: 'failed', error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof ScanProfilesDisabledError) {
+      return NextResponse.json({ status: 'failed', error: error.message }, { status: 503 })
+    }
+
+    // A login or consent step of the scan profile failed
+    if (error instanceof ScanStepError) {
+      return NextResponse.json({ status: 'failed', error: error.message }, { status: 422 })
+    }
+
+    if (error instanceof ScanArchiveNotFoundError) {
+      return NextResponse.json({ status: 'failed', error: error.message }, { status: 404 })
+    }
+
+    // The URL asked for isn't in the archive being replayed
+    if (error instanceof ScanArchiveMissError) {
+      return NextResponse.json({ status: 'failed', error: error.message }, { status: 422 })
+    }
+
     return NextResponse.json(
       {
         status: 'failed',
@@ -3,7 +3,7 @@ import { promises as dns } from 'dns'
 import { createHash } from 'crypto'
 import { captureScreenshot, captureMultiViewport } from '@/lib/utils/screenshot'
 import { uploadScreenshot } from '@/lib/storage/blob-storage'
-import { db, screenshots, screenshotContent } from '@/lib/db'
+import { db, screenshots, screenshotContent, screenshotHistory } from '@/lib/db'
 import { eq, asc, sql } from 'drizzle-orm'
 
 export const maxDuration = 60 // Vercel Pro: 60 second timeout
@@ -285,6 +285,15 @@ export async function POST(request: NextRequest) {
             },
           })
 
+        // Keep this scan's capture for visual diffs against later scans
+        await db
+          .insert(screenshotHistory)
+          .values({ siteId, scanId, sha, viewport })
+          .onConflictDoUpdate({
+            target: [screenshotHistory.scanId, screenshotHistory.viewport],
+            set: { sha, capturedAt: sql`NOW()` },
+          })
+
         results.push({
           viewport,
           url: screenshotUrl,
@@ -4,18 +4,31 @@ import { sites, tokenSets, scans, layoutProfiles, cssSources, cssContent } from
 import { eq, and, or, like, ilike, sql, desc } from 'drizzle-orm'
 import { z } from 'zod'
 import { searchRatelimit } from '@/lib/ratelimit'
+import { authorizeOptionalApiKey } from '@/lib/auth/middleware'
+import { findSimilarColors, findSimilarPalettes } from '@/lib/db/color-index'
+import {
+  DEFAULT_COLOR_DISTANCE,
+  InvalidColorQueryError,
+  MAX_COLOR_DISTANCE,
+  parsePalette,
+  toColorPoint,
+  type PaletteColorMatch
+} from '@/lib/analyzers/color-search'
 
 // PERFORMANCE: Node.js runtime required for database access
 export const runtime = 'nodejs'
 
 const searchSchema = z.object({
   query: z.string().min(1),
-  mode: z.enum(['tokens', 'sites', 'layouts', 'code']).default('tokens'),
+  mode: z.enum(['tokens', 'sites', 'layouts', 'code', 'colors', 'palettes']).default('tokens'),
   outputMode: z.enum(['content', 'files_with_matches', 'count']).default('content'),
   caseInsensitive: z.boolean().default(false),
   tokenType: z.string().optional(),
   confidenceMin: z.number().min(0).max(100).default(0),
   popularityMin: z.number().min(0).max(100).default(0),
+  metric: z.enum(['de2000', 'oklch']).default('de2000'), // colors and palettes modes
+  distance: z.number().positive().max(MAX_COLOR_DISTANCE).default(DEFAULT_COLOR_DISTANCE), // ΔE2000 or OKLab ×100
+  coverage: z.number().min(0).max(1).default(0.6), // Share of palette colors a site must match
   limit: z.number().min(1).max(500).default(50),
   offset: z.number().min(0).default(0)
 })
@@ -76,9 +89,42 @@ type CodeSearchResult = {
   source: string | null
 }
 
-type SearchResult = SiteSearchResult | TokenSearchResult | LayoutSearchResult | CodeSearchResult
+type ColorSearchResult = {
+  id: string
+  type: 'color'
+  name: string
+  value: string
+  site: string
+  tokenSetId: string
+  usage: number
+  distance: number
+}
+
+type PaletteSearchResult = {
+  id: string
+  type: 'palette'
+  site: string
+  tokenSetId: string
+  popularity: number
+  coverage: number
+  distance: number
+  matches: PaletteColorMatch[]
+}
+
+type SearchResult =
+  | SiteSearchResult
+  | TokenSearchResult
+  | LayoutSearchResult
+  | CodeSearchResult
+  | ColorSearchResult
+  | PaletteSearchResult
 
 export async function GET(request: NextRequest) {
+  const auth = await authorizeOptionalApiKey(request, 'tokens:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
   try {
     // Rate limiting for search endpoint
     const identifier = request.headers.get('x-forwarded-for')?.split(',')[0] ?? request.headers.get('x-real-ip') ?? '127.0.0.1'
@@ -99,6 +145,10 @@ export async function GET(request: NextRequest) {
       const parsed = parseInt(value, 10)
       return !isNaN(parsed) && parsed >= 0 ? parsed : defaultValue
     }
+    const parseNumber = (value: string | null): number | undefined => {
+      const parsed = value ? parseFloat(value) : NaN
+      return isNaN(parsed) ? undefined : parsed
+    }
 
     const params = searchSchema.parse({
       query: searchParams.get('query'),
@@ -108,6 +158,9 @@ export async function GET(request: NextRequest) {
       tokenType: searchParams.get('tokenType') || undefined,
       confidenceMin: parsePositiveInt(searchParams.get('confidenceMin'), 0),
       popularityMin: parsePositiveInt(searchParams.get('popularityMin'), 0),
+      metric: searchParams.get('metric') || undefined,
+      distance: parseNumber(searchParams.get('distance')),
+      coverage: parseNumber(searchParams.get('coverage')),
       limit: Math.min(parsePositiveInt(searchParams.get('limit'), 50), 100), // Cap at 100
       offset: parsePositiveInt(searchParams.get('offset'), 0)
     })
@@ -132,6 +185,12 @@ export async function GET(request: NextRequest) {
       case 'code':
         results = await searchCode(params)
         break
+      case 'colors':
+        results = await searchColors(params)
+        break
+      case 'palettes':
+        results = await searchPalettes(params)
+        break
     }
 
     // Apply output mode formatting
@@ -177,6 +236,10 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (error instanceof InvalidColorQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     return NextResponse.json(
       { error: 'Search failed' },
       { status: 500 }
@@ -571,3 +634,46 @@ async function searchCode(params: SearchParams): Promise<CodeSearchResult[]> {
 
   return results.slice(params.offset, params.offset + params.limit)
 }
+
+async function searchColors(params: SearchParams): Promise<ColorSearchResult[]> {
+  const { results } = await findSimilarColors({
+    color: toColorPoint(params.query),
+    metric: params.metric,
+    distance: params.distance,
+    limit: params.limit,
+    offset: params.offset
+  })
+
+  return results.map(match => ({
+    id: `${match.tokenSetId}:${match.path}`,
+    type: 'color',
+    name: match.path,
+    value: match.hex,
+    site: match.domain,
+    tokenSetId: match.tokenSetId,
+    usage: match.usage,
+    distance: match.distance
+  }))
+}
+
+async function searchPalettes(params: SearchParams): Promise<PaletteSearchResult[]> {
+  const { results } = await findSimilarPalettes({
+    palette: parsePalette(params.query),
+    metric: params.metric,
+    distance: params.distance,
+    minCoverage: params.coverage,
+    limit: params.limit,
+    offset: params.offset
+  })
+
+  return results.map(match => ({
+    id: match.siteId,
+    type: 'palette',
+    site: match.domain,
+    tokenSetId: match.tokenSetId,
+    popularity: match.popularity,
+    coverage: match.coverage,
+    distance: match.distance,
+    matches: match.matches
+  }))
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import { createSiteClaim, InvalidClaimDomainError, serializeSiteClaim } from '@/lib/compliance/site-ownership'
+
+type RouteContext = { params: Promise<{ domain: string }> }
+
+/**
+ * POST /api/sites/[domain]/claim
+ * Start claiming a site. The response says which DNS TXT record or
+ * /.well-known/contextds.txt line proves control; then call /claim/verify
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, 'sites:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { domain } = await params
+    const claim = await createSiteClaim(auth.apiKey.userId, decodeURIComponent(domain))
+    return NextResponse.json({ claim: serializeSiteClaim(claim) }, { status: claim.status === 'pending' ? 201 : 200 })
+  } catch (error) {
+    if (error instanceof InvalidClaimDomainError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Failed to create site claim:', error)
+    return NextResponse.json({ error: 'Failed to create site claim' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import {
+  InvalidClaimDomainError,
+  SiteOwnershipError,
+  serializeSiteClaim,
+  verifySiteClaim
+} from '@/lib/compliance/site-ownership'
+
+export const runtime = 'nodejs'
+
+const rateLimiter = createRateLimiter(60 * 1000, 5) // 5 verification attempts per minute
+
+type RouteContext = { params: Promise<{ domain: string }> }
+
+/**
+ * POST /api/sites/[domain]/claim/verify
+ * Look up the claim's DNS TXT record or well-known file; on success the caller
+ * becomes the site's verified owner
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, 'sites:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  if (!rateLimiter(auth.apiKey.userId)) {
+    return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+  }
+
+  try {
+    const { domain } = await params
+    const { claim, check } = await verifySiteClaim(auth.apiKey.userId, decodeURIComponent(domain))
+
+    return NextResponse.json(
+      { verified: check.verified, claim: serializeSiteClaim(claim) },
+      { status: check.verified ? 200 : 422 }
+    )
+  } catch (error) {
+    if (error instanceof InvalidClaimDomainError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof SiteOwnershipError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error('Failed to verify site claim:', error)
+    return NextResponse.json({ error: 'Failed to verify site claim' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import { TokenImportError } from '@/lib/importers/token-importer'
+import {
+  InvalidClaimDomainError,
+  SiteOwnershipError,
+  publishOfficialTokenSet
+} from '@/lib/compliance/site-ownership'
+
+const MAX_TOKEN_FILE_BYTES = 2 * 1024 * 1024 // 2MB token files
+
+const publishRequestSchema = z.object({
+  name: z.string().min(1).max(255),
+  format: z.enum(['dtcg', 'figma', 'tailwind', 'css']).optional(),
+  content: z.union([z.string().min(1), z.record(z.string(), z.unknown())])
+})
+
+type RouteContext = { params: Promise<{ domain: string }> }
+
+/**
+ * POST /api/sites/[domain]/official-tokens
+ * Verified owners publish their own token file (DTCG, Figma Tokens, Tailwind or
+ * CSS custom properties) as the site's official token set, served ahead of crawled ones
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeApiKey(request, 'sites:manage')
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const contentLength = request.headers.get('content-length')
+    if (contentLength && parseInt(contentLength) > MAX_TOKEN_FILE_BYTES) {
+      return NextResponse.json({ error: 'Token file too large (max 2MB)' }, { status: 413 })
+    }
+
+    const { domain } = await params
+    const file = publishRequestSchema.parse(await request.json())
+    const published = await publishOfficialTokenSet(auth.apiKey.userId, decodeURIComponent(domain), file)
+
+    return NextResponse.json(
+      {
+        tokenSetId: published.tokenSetId,
+        versionNumber: published.versionNumber,
+        format: published.imported.format,
+        summary: published.imported.summary
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof InvalidClaimDomainError || error instanceof TokenImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof SiteOwnershipError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Failed to publish official token set:', error)
+    return NextResponse.json({ error: 'Failed to publish official token set' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import { InvalidClaimDomainError, SiteOwnershipError, setSiteOptOut } from '@/lib/compliance/site-ownership'
+
+type RouteContext = { params: Promise<{ domain: string }> }
+
+/**
+ * POST /api/sites/[domain]/opt-out
+ * Verified owners only: stop all scans of the site (API, MCP, queue workers and
+ * token watches). Stored token sets stay but drop out of search and the directory
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  return updateOptOut(request, context, true)
+}
+
+/**
+ * DELETE /api/sites/[domain]/opt-out
+ * Allow scanning again
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  return updateOptOut(request, context, false)
+}
+
+async function updateOptOut(request: NextRequest, { params }: RouteContext, optOut: boolean) {
+  const auth = await authorizeApiKey(request, 'sites:manage')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { domain } = await params
+    const site = await setSiteOptOut(auth.apiKey.userId, decodeURIComponent(domain), optOut)
+    return NextResponse.json({ site })
+  } catch (error) {
+    if (error instanceof InvalidClaimDomainError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof SiteOwnershipError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+
+    console.error('Failed to update site opt-out:', error)
+    return NextResponse.json({ error: 'Failed to update site opt-out' }, { status: 500 })
+  }
+}
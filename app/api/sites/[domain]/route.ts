@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { authorizeOptionalApiKey } from '@/lib/auth/middleware'
+import type { AccessibilityAnalysis } from '@/lib/analyzers/accessibility-analyzer'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { domain: string } }
 ) {
+  const auth = await authorizeOptionalApiKey(request, 'tokens:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
   try {
     const domain = params.domain
 
@@ -32,6 +39,9 @@ export async function GET(
         s.domain,
         s.last_scanned,
         s.popularity,
+        s.owner_optout,
+        s.claimed_by IS NOT NULL as claimed,
+        COALESCE(BOOL_OR(ts.is_official), FALSE) as has_official_tokens,
         COUNT(ts.id) as token_sets_count,
         MAX(ts.created_at) as latest_token_set,
         SUM(
@@ -43,9 +53,9 @@ export async function GET(
           COALESCE((SELECT COUNT(*) FROM jsonb_object_keys(ts.tokens_json->'motion')), 0)
         ) as total_tokens
       FROM sites s
-      LEFT JOIN token_sets ts ON ts.site_id = s.id
+      LEFT JOIN token_sets ts ON ts.site_id = s.id AND ts.is_public = TRUE
       WHERE s.domain = ${domain}
-      GROUP BY s.id, s.domain, s.last_scanned, s.popularity
+      GROUP BY s.id, s.domain, s.last_scanned, s.popularity, s.owner_optout, s.claimed_by
     `)
 
     if (!result.rows || result.rows.length === 0) {
@@ -58,6 +68,13 @@ export async function GET(
 
     const siteData = result.rows[0]
 
+    // Latest WCAG report from an accurate scan, plus the score across versions
+    const { getLatestAccessibilityReport, getAccessibilityTrend } = await import('@/lib/db/queries')
+    const [latestReport, accessibilityTrend] = await Promise.all([
+      getLatestAccessibilityReport(siteData.id),
+      getAccessibilityTrend(siteData.id)
+    ])
+
     const hasTokens = siteData.total_tokens > 0
     const hasRecentScan = siteData.last_scanned &&
       new Date(siteData.last_scanned) > new Date(Date.now() - 24 * 60 * 60 * 1000) // 24 hours
@@ -69,14 +86,29 @@ export async function GET(
         id: siteData.id,
         domain: siteData.domain,
         last_scanned: siteData.last_scanned,
-        popularity: siteData.popularity
+        popularity: siteData.popularity,
+        ownerOptout: siteData.owner_optout,
+        claimed: siteData.claimed
       },
+      hasOfficialTokens: siteData.has_official_tokens,
       tokensCount: siteData.total_tokens || 0,
       tokenSetsCount: siteData.token_sets_count || 0,
       latestTokenSet: siteData.latest_token_set,
+      accessibility: latestReport
+        ? {
+            scanId: latestReport.scanId,
+            score: latestReport.score,
+            level: latestReport.level,
+            violationCount: latestReport.violationCount,
+            criticalCount: latestReport.criticalCount,
+            violations: (latestReport.reportJson as AccessibilityAnalysis).wcag?.violations ?? [],
+            createdAt: latestReport.createdAt,
+            trend: accessibilityTrend
+          }
+        : null,
       isRecentScan: hasRecentScan,
       message: hasTokens ? 'Site found with existing token data' : 'Site exists but no tokens found',
-      shouldRescan: !hasRecentScan || !hasTokens
+      shouldRescan: !siteData.owner_optout && (!hasRecentScan || !hasTokens)
     }, {
       headers: {
         'Cache-Control': 'public, max-age=60, stale-while-revalidate=120'
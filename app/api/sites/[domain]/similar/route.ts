@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeOptionalApiKey } from '@/lib/auth/middleware'
+import { getSiteByDomain } from '@/lib/db/queries'
+import { findSimilarSites } from '@/lib/db/design-fingerprints'
+
+type RouteContext = { params: Promise<{ domain: string }> }
+
+const MAX_LIMIT = 24
+
+/**
+ * GET /api/sites/[domain]/similar?limit=6
+ * Sites with the most similar design systems, compared on palette, type scale,
+ * spacing, radii and layout archetypes, with the dimensions that matched
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeOptionalApiKey(request, 'tokens:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const { domain } = await params
+    const site = await getSiteByDomain(decodeURIComponent(domain).toLowerCase())
+
+    if (!site || site.ownerOptout) {
+      return NextResponse.json({ error: 'Site not found' }, { status: 404 })
+    }
+
+    const requested = parseInt(request.nextUrl.searchParams.get('limit') ?? '', 10)
+    const limit = Number.isNaN(requested) ? 6 : Math.min(Math.max(requested, 1), MAX_LIMIT)
+    const similar = await findSimilarSites(site.id, limit)
+
+    return NextResponse.json({
+      domain: site.domain,
+      similar: similar.map(match => ({
+        domain: match.domain,
+        title: match.title,
+        favicon: match.favicon,
+        score: match.score,
+        matched: match.matched,
+        dimensions: match.dimensions
+      }))
+    }, {
+      headers: {
+        'Cache-Control': 'public, max-age=300, stale-while-revalidate=600'
+      }
+    })
+  } catch (error) {
+    console.error('Failed to find similar sites:', error)
+    return NextResponse.json({ error: 'Failed to find similar sites' }, { status: 500 })
+  }
+}
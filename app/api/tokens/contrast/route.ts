@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { and, desc, eq } from 'drizzle-orm'
+import { db, sites, tokenSets } from '@/lib/db'
+import { authorizeOptionalApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { buildContrastMatrix } from '@/lib/analyzers/contrast-matrix'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+
+const rateLimiter = createRateLimiter(60 * 1000, 30) // 30 matrices per minute
+
+const contrastRequestSchema = z.object({
+  tokenSetId: z.string().uuid().optional(),
+  domain: z.string().optional(),
+  tokens: z.object({ color: z.record(z.string(), z.unknown()) }).passthrough().optional(), // A W3C token set to check before adopting it
+  target: z.enum(['AA', 'AAA']).default('AA'),
+  pairing: z.enum(['observed', 'all']).default('observed')
+}).refine(data => data.tokenSetId || data.domain || data.tokens, {
+  message: 'One of tokenSetId, domain or tokens must be provided'
+})
+
+/**
+ * POST /api/tokens/contrast
+ * Foreground/background contrast matrix of a token set: WCAG 2.x ratio and APCA Lc
+ * for each pair, plus the nearest passing OKLCH alternative for failing pairs
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeOptionalApiKey(request, 'tokens:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const clientId = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!rateLimiter(clientId)) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+    }
+
+    const params = contrastRequestSchema.parse(await request.json())
+
+    let tokenSetId: string | null = null
+    let tokenSet: W3CTokenSet | null = null
+
+    if (params.tokens) {
+      tokenSet = params.tokens as unknown as W3CTokenSet
+    } else {
+      const [row] = await db
+        .select({ id: tokenSets.id, tokensJson: tokenSets.tokensJson })
+        .from(tokenSets)
+        .innerJoin(sites, eq(tokenSets.siteId, sites.id))
+        .where(params.tokenSetId
+          ? and(eq(tokenSets.id, params.tokenSetId), eq(tokenSets.isPublic, true))
+          : and(eq(sites.domain, params.domain!), eq(tokenSets.isPublic, true)))
+        .orderBy(desc(tokenSets.isOfficial), desc(tokenSets.versionNumber))
+        .limit(1)
+
+      if (row) {
+        tokenSetId = row.id
+        tokenSet = row.tokensJson as W3CTokenSet
+      }
+    }
+
+    if (!tokenSet) {
+      return NextResponse.json({ error: 'Token set not found' }, { status: 404 })
+    }
+
+    const matrix = buildContrastMatrix(tokenSet, { target: params.target, pairing: params.pairing })
+
+    return NextResponse.json({
+      tokenSetId,
+      domain: params.domain ?? null,
+      ...matrix
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Contrast matrix failed:', error)
+    return NextResponse.json({ error: 'Contrast matrix failed' }, { status: 500 })
+  }
+}
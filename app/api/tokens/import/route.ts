@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { and, desc, eq, isNotNull } from 'drizzle-orm'
+import { db, sites, tokenSets } from '@/lib/db'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { importTokens, TokenImportError } from '@/lib/importers/token-importer'
+import { compareTokenSets, generateChangelog } from '@/lib/analyzers/version-diff'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+
+const rateLimiter = createRateLimiter(60 * 1000, 10) // 10 imports per minute
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024 // 2MB token files
+
+const importRequestSchema = z.object({
+  name: z.string().min(1).max(255),
+  format: z.enum(['dtcg', 'figma', 'tailwind', 'css']).optional(),
+  content: z.union([z.string().min(1), z.record(z.string(), z.unknown())]),
+  compareToDomain: z.string().min(1).max(255).optional() // Diff against this domain's latest scan
+})
+
+/**
+ * POST /api/tokens/import
+ * Import an existing token file (DTCG, Figma Tokens, Tailwind config or CSS custom properties)
+ * and store it as a token set that is not tied to any scan
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeApiKey(request, 'tokens:write')
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+    const userId = auth.apiKey.userId
+
+    const clientId = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!rateLimiter(clientId)) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+    }
+
+    const contentLength = request.headers.get('content-length')
+    if (contentLength && parseInt(contentLength) > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Token file too large (max 2MB)' }, { status: 413 })
+    }
+
+    const params = importRequestSchema.parse(await request.json())
+    const imported = importTokens(params.content, { name: params.name, format: params.format })
+
+    const [tokenSet] = await db
+      .insert(tokenSets)
+      .values({
+        siteId: null,
+        scanId: null,
+        tokensJson: imported.tokenSet,
+        isPublic: false,
+        createdBy: userId
+      })
+      .returning({ id: tokenSets.id, createdAt: tokenSets.createdAt })
+
+    let comparison = null
+    if (params.compareToDomain) {
+      comparison = await compareWithLatestScan(params.compareToDomain, imported.tokenSet)
+    }
+
+    return NextResponse.json(
+      {
+        tokenSetId: tokenSet.id,
+        createdAt: tokenSet.createdAt.toISOString(),
+        format: imported.format,
+        summary: imported.summary,
+        tokens: imported.tokenSet,
+        comparison
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof TokenImportError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+
+    console.error('Token import failed:', error)
+    return NextResponse.json({ error: 'Token import failed' }, { status: 500 })
+  }
+}
+
+/**
+ * Diff the import (source of truth) against what the site currently renders
+ */
+async function compareWithLatestScan(domain: string, imported: W3CTokenSet) {
+  const [site] = await db
+    .select({ id: sites.id })
+    .from(sites)
+    .where(eq(sites.domain, domain))
+    .limit(1)
+
+  if (!site) {
+    return { domain, error: 'Site not found' }
+  }
+
+  const [latest] = await db
+    .select({ id: tokenSets.id, versionNumber: tokenSets.versionNumber, tokensJson: tokenSets.tokensJson })
+    .from(tokenSets)
+    .where(and(eq(tokenSets.siteId, site.id), isNotNull(tokenSets.scanId)))
+    .orderBy(desc(tokenSets.versionNumber))
+    .limit(1)
+
+  if (!latest) {
+    return { domain, error: 'No scans found for this site' }
+  }
+
+  const diff = compareTokenSets(imported, latest.tokensJson as W3CTokenSet)
+
+  return {
+    domain,
+    tokenSetId: latest.id,
+    versionNumber: latest.versionNumber,
+    diff,
+    changelog: generateChangelog(diff)
+  }
+}
@@ -1,25 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db, tokenSets, tokenVersions, sites } from '@/lib/db'
-import { eq, desc } from 'drizzle-orm'
+import { authorizeOptionalApiKey } from '@/lib/auth/middleware'
+import { getScanRepository } from '@/lib/db/repositories'
 
 /**
  * GET /api/versions/[domain]
- * List all versions for a domain
+ * List all versions for a domain; private profile scans are only listed for their owner's key
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ domain: string }> }
 ) {
+  const auth = await authorizeOptionalApiKey(request, 'tokens:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
   try {
     const { domain: rawDomain } = await params
     const domain = decodeURIComponent(rawDomain)
 
     // Find site
-    const [site] = await db
-      .select()
-      .from(sites)
-      .where(eq(sites.domain, domain))
-      .limit(1)
+    const repository = getScanRepository()
+    const site = await repository.sites.findByDomain(domain)
 
     if (!site) {
       return NextResponse.json(
@@ -28,19 +30,9 @@ export async function GET(
       )
     }
 
-    // Get all token sets for this site with version info
-    const versions = await db
-      .select({
-        id: tokenSets.id,
-        versionNumber: tokenSets.versionNumber,
-        createdAt: tokenSets.createdAt,
-        tokensJson: tokenSets.tokensJson,
-        packJson: tokenSets.packJson,
-        consensusScore: tokenSets.consensusScore
-      })
-      .from(tokenSets)
-      .where(eq(tokenSets.siteId, site.id))
-      .orderBy(desc(tokenSets.versionNumber))
+    // Get all token sets for this site the caller may see; the owner's official set ranks first, then newest version
+    const versions = await repository.tokenSets.listBySite(site.id, auth.apiKey?.userId)
+    const current = versions.find(v => v.isPublic)
 
     // Count tokens in each version
     const versionsWithCounts = versions.map((v: typeof versions[number]) => ({
@@ -49,7 +41,9 @@ export async function GET(
       createdAt: v.createdAt.toISOString(),
       tokenCount: countTokens(v.tokensJson),
       confidence: v.consensusScore ? parseFloat(v.consensusScore) * 100 : 0,
-      isCurrent: v.versionNumber === versions[0]?.versionNumber
+      isCurrent: v.id === current?.id,
+      isPublic: v.isPublic,
+      isOfficial: v.isOfficial
     }))
 
     return NextResponse.json({
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db, tokenSets } from '@/lib/db'
-import { eq } from 'drizzle-orm'
+import { authorizeOptionalApiKey } from '@/lib/auth/middleware'
+import { getScanRepository } from '@/lib/db/repositories'
 import { compareTokenSets, generateChangelog } from '@/lib/analyzers/version-diff'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
 
 /**
  * POST /api/versions/compare
- * Compare two token set versions
+ * Compare two token set versions; private profile scans are only found with their owner's key
  */
 export async function POST(request: NextRequest) {
+  const auth = await authorizeOptionalApiKey(request, 'tokens:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
   try {
     const body = await request.json()
     const { oldVersionId, newVersionId } = body
@@ -20,17 +26,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch both versions
-    const [oldVersion] = await db
-      .select()
-      .from(tokenSets)
-      .where(eq(tokenSets.id, oldVersionId))
-      .limit(1)
-
-    const [newVersion] = await db
-      .select()
-      .from(tokenSets)
-      .where(eq(tokenSets.id, newVersionId))
-      .limit(1)
+    const repository = getScanRepository()
+    const [oldVersion, newVersion] = await Promise.all([
+      repository.tokenSets.get(oldVersionId, auth.apiKey?.userId),
+      repository.tokenSets.get(newVersionId, auth.apiKey?.userId)
+    ])
 
     if (!oldVersion || !newVersion) {
       return NextResponse.json(
@@ -40,7 +40,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate diff
-    const diff = compareTokenSets(oldVersion.tokensJson, newVersion.tokensJson)
+    const diff = compareTokenSets(oldVersion.tokensJson as W3CTokenSet, newVersion.tokensJson as W3CTokenSet)
     const changelog = generateChangelog(diff)
 
     return NextResponse.json({
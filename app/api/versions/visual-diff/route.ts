@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { and, eq, inArray } from 'drizzle-orm'
+import { db, tokenSets } from '@/lib/db'
+import { authorizeOptionalApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { diffScanScreenshots, ScreenshotDiffError } from '@/lib/workers/screenshot-diff'
+import type { DiffRegion } from '@/lib/analyzers/screenshot-diff'
+
+export const maxDuration = 60
+
+const rateLimiter = createRateLimiter(60 * 1000, 10) // 10 visual diffs per minute
+
+const visualDiffRequestSchema = z.object({
+  oldVersionId: z.string().uuid(),
+  newVersionId: z.string().uuid(),
+  viewports: z.array(z.enum(['mobile', 'tablet', 'desktop'])).optional(),
+  force: z.boolean().optional() // Recompute instead of returning the cached diff
+})
+
+/**
+ * POST /api/versions/visual-diff
+ * Pixel-diff the screenshots of the scans behind two token set versions and link
+ * the changed regions to the newer version's token changes
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeOptionalApiKey(request, 'tokens:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const clientId = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!rateLimiter(clientId)) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+    }
+
+    const params = visualDiffRequestSchema.parse(await request.json())
+
+    const versions = await db
+      .select({ id: tokenSets.id, scanId: tokenSets.scanId, siteId: tokenSets.siteId })
+      .from(tokenSets)
+      .where(and(inArray(tokenSets.id, [params.oldVersionId, params.newVersionId]), eq(tokenSets.isPublic, true)))
+
+    const oldVersion = versions.find((version: { id: string }) => version.id === params.oldVersionId)
+    const newVersion = versions.find((version: { id: string }) => version.id === params.newVersionId)
+
+    if (!oldVersion || !newVersion) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+    }
+
+    if (!oldVersion.scanId || !newVersion.scanId) {
+      return NextResponse.json({ error: 'Both versions must come from scans' }, { status: 400 })
+    }
+
+    if (oldVersion.siteId !== newVersion.siteId) {
+      return NextResponse.json({ error: 'Versions belong to different sites' }, { status: 400 })
+    }
+
+    const diffs = await diffScanScreenshots({
+      baseScanId: oldVersion.scanId,
+      targetScanId: newVersion.scanId,
+      viewports: params.viewports,
+      force: params.force
+    })
+
+    return NextResponse.json({
+      oldVersionId: params.oldVersionId,
+      newVersionId: params.newVersionId,
+      diffs: diffs.map(diff => {
+        const regions = diff.regions as DiffRegion[]
+        return {
+          viewport: diff.viewport,
+          diffUrl: diff.diffUrl,
+          width: diff.width,
+          height: diff.height,
+          changedPixels: diff.changedPixels,
+          changedPercent: parseFloat(diff.changedPercent),
+          versionId: diff.versionId,
+          regions,
+          // Regions no token change explains are likely content changes or rendering noise
+          unexplainedRegions: regions.filter(region => region.tokenChangeIds.length === 0).length,
+          createdAt: diff.createdAt.toISOString()
+        }
+      })
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ScreenshotDiffError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+
+    console.error('Failed to diff screenshots:', error)
+    return NextResponse.json({ error: 'Failed to diff screenshots' }, { status: 500 })
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { eq } from 'drizzle-orm'
+import { db, tokenWatches } from '@/lib/db'
+import { authorizeApiKey } from '@/lib/auth/middleware'
+import { validateSSRF } from '@/lib/utils/ssrf'
+import { createWebhookSecret, findOwnedWatch, serializeWatch } from '@/lib/workers/token-watch'
+
+const updateWatchSchema = z.object({
+  cadence: z.enum(['hourly', 'daily', 'weekly']).optional(),
+  depth: z.number().int().min(1).max(3).optional(),
+  webhookUrl: z.string().url().max(2048).nullable().optional(),
+  isActive: z.boolean().optional()
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/watches/[id]
+ * Fetch a single watch
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, 'watches:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+  const userId = auth.apiKey.userId
+
+  try {
+    const { id } = await params
+    const watch = await findOwnedWatch(id, userId)
+    if (!watch) {
+      return NextResponse.json({ error: 'Watch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ watch: serializeWatch(watch) })
+  } catch (error) {
+    console.error('Failed to fetch watch:', error)
+    return NextResponse.json({ error: 'Failed to fetch watch' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/watches/[id]
+ * Change cadence, depth or webhook, or pause/resume a watch
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await authorizeApiKey(request, 'watches:write')
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+    const userId = auth.apiKey.userId
+
+    const { id } = await params
+    const watch = await findOwnedWatch(id, userId)
+    if (!watch) {
+      return NextResponse.json({ error: 'Watch not found' }, { status: 404 })
+    }
+
+    const updates = updateWatchSchema.parse(await request.json())
+    let webhookSecret: string | null | undefined
+
+    if (updates.webhookUrl) {
+      const webhook = new URL(updates.webhookUrl)
+      if (webhook.protocol !== 'https:') {
+        return NextResponse.json({ error: 'Webhook URL must use HTTPS' }, { status: 400 })
+      }
+
+      const webhookError = await validateSSRF(webhook)
+      if (webhookError) {
+        return NextResponse.json({ error: `Invalid webhook URL: ${webhookError}` }, { status: 400 })
+      }
+
+      // A new endpoint gets a new signing secret
+      if (updates.webhookUrl !== watch.webhookUrl) webhookSecret = createWebhookSecret()
+    } else if (updates.webhookUrl === null) {
+      webhookSecret = null
+    }
+
+    const [updated] = await db
+      .update(tokenWatches)
+      .set({
+        ...(updates.cadence ? { cadence: updates.cadence } : {}),
+        ...(updates.depth ? { depth: updates.depth } : {}),
+        ...(updates.webhookUrl !== undefined ? { webhookUrl: updates.webhookUrl } : {}),
+        ...(webhookSecret !== undefined ? { webhookSecret } : {}),
+        // Resuming a paused watch clears its failure streak and runs it on the next cron tick
+        ...(updates.isActive !== undefined ? { isActive: updates.isActive } : {}),
+        ...(updates.isActive && !watch.isActive ? { consecutiveFailures: 0, nextRunAt: new Date() } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(tokenWatches.id, watch.id))
+      .returning()
+
+    return NextResponse.json({
+      watch: {
+        ...serializeWatch(updated),
+        ...(webhookSecret ? { webhookSecret } : {})
+      }
+    })
+  } catch (error) {
+    console.error('Failed to update watch:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Failed to update watch' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/watches/[id]
+ * Stop watching a domain (stored token versions are kept)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorizeApiKey(request, 'watches:write')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+  const userId = auth.apiKey.userId
+
+  try {
+    const { id } = await params
+    const watch = await findOwnedWatch(id, userId)
+    if (!watch) {
+      return NextResponse.json({ error: 'Watch not found' }, { status: 404 })
+    }
+
+    await db.delete(tokenWatches).where(eq(tokenWatches.id, watch.id))
+
+    return NextResponse.json({ success: true, id: watch.id })
+  } catch (error) {
+    console.error('Failed to delete watch:', error)
+    return NextResponse.json({ error: 'Failed to delete watch' }, { status: 500 })
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { desc, eq } from 'drizzle-orm'
+import { db, tokenWatches } from '@/lib/db'
+import { authorizeApiKey, createRateLimiter } from '@/lib/auth/middleware'
+import { validateSSRF } from '@/lib/utils/ssrf'
+import { createWebhookSecret, serializeWatch } from '@/lib/workers/token-watch'
+
+const rateLimiter = createRateLimiter(60 * 1000, 20) // 20 requests per minute
+
+const MAX_WATCHES_PER_USER = 25
+
+const createWatchSchema = z.object({
+  url: z.string().url().max(2048),
+  cadence: z.enum(['hourly', 'daily', 'weekly']).default('daily'),
+  depth: z.number().int().min(1).max(3).default(1),
+  webhookUrl: z.string().url().max(2048).optional()
+})
+
+/**
+ * GET /api/watches
+ * List the caller's token drift watches
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeApiKey(request, 'watches:read')
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status })
+  }
+  const userId = auth.apiKey.userId
+
+  try {
+    const watches = await db
+      .select()
+      .from(tokenWatches)
+      .where(eq(tokenWatches.createdBy, userId))
+      .orderBy(desc(tokenWatches.createdAt))
+
+    return NextResponse.json({
+      watches: watches.map(serializeWatch),
+      total: watches.length
+    })
+  } catch (error) {
+    console.error('Failed to list watches:', error)
+    return NextResponse.json({ error: 'Failed to list watches' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/watches
+ * Register a domain for scheduled re-scans; the webhook secret is only returned here
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeApiKey(request, 'watches:write')
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+    const userId = auth.apiKey.userId
+
+    const clientId = request.headers.get('x-forwarded-for') || 'unknown'
+    if (!rateLimiter(clientId)) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+    }
+
+    const params = createWatchSchema.parse(await request.json())
+    const target = new URL(params.url)
+
+    if (!['http:', 'https:'].includes(target.protocol)) {
+      return NextResponse.json({ error: 'Invalid URL protocol' }, { status: 400 })
+    }
+
+    const targetError = await validateSSRF(target)
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 400 })
+    }
+
+    if (params.webhookUrl) {
+      const webhook = new URL(params.webhookUrl)
+      if (webhook.protocol !== 'https:') {
+        return NextResponse.json({ error: 'Webhook URL must use HTTPS' }, { status: 400 })
+      }
+
+      const webhookError = await validateSSRF(webhook)
+      if (webhookError) {
+        return NextResponse.json({ error: `Invalid webhook URL: ${webhookError}` }, { status: 400 })
+      }
+    }
+
+    const existing = await db
+      .select({ id: tokenWatches.id, url: tokenWatches.url })
+      .from(tokenWatches)
+      .where(eq(tokenWatches.createdBy, userId))
+
+    if (existing.some((watch: { url: string }) => watch.url === target.toString())) {
+      return NextResponse.json({ error: 'This URL is already being watched' }, { status: 409 })
+    }
+
+    if (existing.length >= MAX_WATCHES_PER_USER) {
+      return NextResponse.json(
+        { error: `Watch limit reached (${MAX_WATCHES_PER_USER} per account)` },
+        { status: 403 }
+      )
+    }
+
+    const webhookSecret = params.webhookUrl ? createWebhookSecret() : null
+    const [watch] = await db
+      .insert(tokenWatches)
+      .values({
+        domain: target.hostname,
+        url: target.toString(),
+        cadence: params.cadence,
+        depth: params.depth,
+        webhookUrl: params.webhookUrl ?? null,
+        webhookSecret,
+        createdBy: userId
+      })
+      .returning()
+
+    return NextResponse.json(
+      { watch: { ...serializeWatch(watch), webhookSecret } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Failed to create watch:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Failed to create watch' }, { status: 500 })
+  }
+}
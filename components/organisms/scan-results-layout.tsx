@@ -36,6 +36,20 @@ import { FontPreviewCard } from "@/components/molecules/font-preview"
 
 type ScanResult = any
 
+interface AccessibilityTrendPoint {
+  versionNumber: number | null
+  score: number
+  level: string
+}
+
+interface AccessibilityViolation {
+  severity: "critical" | "high" | "medium" | "low"
+  element: string
+  description: string
+  suggestion: string
+  wcagReference: string
+}
+
 interface ScanProgress {
   step: number
   totalSteps: number
@@ -651,6 +665,9 @@ function ComponentsTab({ result, isLoading, onCopy }: any) {
 // Analysis Tab
 function AnalysisTab({ result, isLoading }: any) {
   const analysis = result?.comprehensiveAnalysis
+  const wcagReport = result?.accessibility
+  const scoreTrend: AccessibilityTrendPoint[] = wcagReport?.trend || []
+  const previousScore = scoreTrend.length > 1 ? scoreTrend[scoreTrend.length - 2].score : null
 
   return (
     <div className="space-y-8">
@@ -735,6 +752,68 @@ function AnalysisTab({ result, isLoading }: any) {
         </div>
       )}
 
+      {/* WCAG Report (live page audit, accurate scans only) */}
+      {wcagReport && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">WCAG Report</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <MetricCard
+              label="Score"
+              value={`${wcagReport.score}%`}
+              status={wcagReport.score >= 80 ? "success" : wcagReport.score >= 60 ? "warning" : "error"}
+              progress={wcagReport.score}
+              trend={previousScore !== null ? {
+                value: Math.abs(wcagReport.score - previousScore),
+                direction: wcagReport.score > previousScore ? "up" : wcagReport.score < previousScore ? "down" : "neutral"
+              } : undefined}
+            />
+            <MetricCard
+              label="WCAG Level"
+              value={wcagReport.level}
+              status={wcagReport.level === "Non-compliant" ? "error" : "info"}
+            />
+            <MetricCard
+              label="Violations"
+              value={wcagReport.violationCount}
+              status={wcagReport.violationCount === 0 ? "success" : "warning"}
+            />
+            <MetricCard
+              label="Critical"
+              value={wcagReport.criticalCount}
+              status={wcagReport.criticalCount === 0 ? "success" : "error"}
+            />
+          </div>
+
+          {scoreTrend.length > 1 && (
+            <div className="rounded-lg border border-grep-2 bg-grep-0 p-4">
+              <div className="text-xs font-medium text-grep-7 mb-3">Score by version</div>
+              <div className="flex items-end gap-2 h-24">
+                {scoreTrend.map((point, i) => (
+                  <div key={i} className="flex flex-1 flex-col items-center gap-1" title={`${point.score}% · ${point.level}`}>
+                    <div className="w-full rounded-sm bg-foreground/70" style={{ height: `${Math.max(4, point.score)}%` }} />
+                    <span className="text-[10px] font-mono text-grep-7">
+                      {point.versionNumber ? `v${point.versionNumber}` : "–"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-3">
+            {(wcagReport.violations as AccessibilityViolation[] | undefined)?.slice(0, 10).map((violation, i) => (
+              <InsightCard
+                key={i}
+                title={`${violation.description} (${violation.wcagReference})`}
+                description={violation.element}
+                severity={violation.severity}
+                recommendation={violation.suggestion}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Brand Identity */}
       {analysis?.brandIdentity && (
         <div className="space-y-4">
@@ -0,0 +1,106 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Sparkles } from "lucide-react"
+import type { DimensionMatch, FingerprintDimension } from "@/lib/analyzers/design-fingerprint"
+
+interface SimilarSite {
+  domain: string
+  title: string | null
+  favicon: string | null
+  score: number
+  matched: FingerprintDimension[]
+  dimensions: DimensionMatch[]
+}
+
+interface SimilarDesignSystemsProps {
+  domain: string
+  limit?: number
+}
+
+const DIMENSION_LABELS: Record<FingerprintDimension, string> = {
+  palette: "Palette",
+  typeScale: "Type scale",
+  spacing: "Spacing",
+  radii: "Radii",
+  archetypes: "Layout"
+}
+
+export function SimilarDesignSystems({ domain, limit = 6 }: SimilarDesignSystemsProps) {
+  const [similar, setSimilar] = useState<SimilarSite[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchSimilar = async () => {
+      try {
+        const response = await fetch(`/api/sites/${encodeURIComponent(domain)}/similar?limit=${limit}`)
+        const data = response.ok ? await response.json() : null
+        if (!cancelled) setSimilar(data?.similar ?? [])
+      } catch (error) {
+        console.error('Failed to fetch similar sites:', error)
+        if (!cancelled) setSimilar([])
+      }
+    }
+
+    fetchSimilar()
+    return () => {
+      cancelled = true
+    }
+  }, [domain, limit])
+
+  if (similar !== null && similar.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-4 w-4" />
+          Similar design systems
+        </CardTitle>
+        <CardDescription>
+          Sites with a close palette, type scale, spacing, radii or layout
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {similar === null ? (
+          <p className="text-center text-sm text-grep-9 py-4">Finding similar sites...</p>
+        ) : (
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {similar.map(site => (
+              <Link
+                key={site.domain}
+                href={`/community/${encodeURIComponent(site.domain)}`}
+                className="block rounded-lg border border-grep-2 p-4 hover:border-grep-4 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {site.favicon && (
+                      <Image src={site.favicon} alt="" width={20} height={20} className="h-5 w-5 rounded" />
+                    )}
+                    <span className="font-medium truncate">{site.domain}</span>
+                  </div>
+                  <span className="text-sm font-mono text-grep-9">{site.score}%</span>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {site.matched.map(dimension => (
+                    <Badge key={dimension} variant="secondary">{DIMENSION_LABELS[dimension]}</Badge>
+                  ))}
+                </div>
+                <ul className="mt-2 space-y-1 text-xs text-grep-9">
+                  {site.dimensions.filter(dimension => dimension.matched).map(dimension => (
+                    <li key={dimension.dimension}>{dimension.explanation}</li>
+                  ))}
+                </ul>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
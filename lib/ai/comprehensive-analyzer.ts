@@ -3,16 +3,10 @@
  * Multi-layer analysis using GPT-4o for deep insights
  */
 
-import { generateText, generateObject } from 'ai'
-import { createGateway } from 'ai'
 import { z } from 'zod'
+import { getAIProvider } from './providers'
 import type { CuratedTokenSet } from '@/lib/analyzers/token-curator'
 
-// Configure Vercel AI Gateway
-const gateway = createGateway({
-  apiKey: process.env.AI_GATEWAY_API_KEY ?? '',
-})
-
 // Comprehensive analysis schema
 const AnalysisSchema = z.object({
   designSystemScore: z.object({
@@ -128,12 +122,13 @@ export async function analyzeDesignSystemComprehensive(
     const prompt = buildComprehensivePrompt(curatedTokens, metadata)
 
     // Use GPT-4o for advanced reasoning and structured output
-    const { object } = await generateObject({
-      model: gateway('openai/gpt-4o'), // Most capable model for deep analysis
+    const { object } = await getAIProvider().generateObject({
+      model: 'openai/gpt-4o', // Most capable model for deep analysis
       schema: AnalysisSchema,
       prompt,
       temperature: 0.4, // Balanced creativity and consistency
-      maxTokens: 4000
+      maxTokens: 4000,
+      offline: () => generateEnhancedFallback(curatedTokens, metadata)
     })
 
     return object
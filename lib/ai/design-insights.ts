@@ -1,47 +1,46 @@
 /**
- * AI-Powered Design Insights using Vercel AI Gateway
- * Analyzes curated tokens to provide intelligent design system insights
+ * AI-Powered Design Insights
+ * Analyzes curated tokens to provide intelligent design system insights.
+ * Runs through the configured AI provider; the offline provider returns the
+ * rule-based insights
  */
 
-import { generateText } from 'ai'
-import { createGateway } from 'ai'
+import { z } from 'zod'
+import { getAIProvider } from './providers'
 import type { CuratedTokenSet } from '@/lib/analyzers/token-curator'
 
-// Configure Vercel AI Gateway
-const gateway = createGateway({
-  apiKey: process.env.AI_GATEWAY_API_KEY ?? '',
+const DesignInsightsSchema = z.object({
+  summary: z.string(),
+  colorPalette: z.object({
+    style: z.string(),
+    mood: z.string(),
+    accessibility: z.string(),
+    recommendations: z.array(z.string())
+  }),
+  typography: z.object({
+    style: z.string(),
+    hierarchy: z.string(),
+    readability: z.string(),
+    recommendations: z.array(z.string())
+  }),
+  spacing: z.object({
+    system: z.string(),
+    consistency: z.string(),
+    recommendations: z.array(z.string())
+  }),
+  components: z.object({
+    patterns: z.array(z.string()),
+    quality: z.string(),
+    recommendations: z.array(z.string())
+  }),
+  overall: z.object({
+    maturity: z.enum(['prototype', 'developing', 'mature', 'systematic']),
+    consistency: z.number().min(0).max(100),
+    aiRecommendations: z.array(z.string())
+  })
 })
 
-export interface DesignInsights {
-  summary: string
-  colorPalette: {
-    style: string
-    mood: string
-    accessibility: string
-    recommendations: string[]
-  }
-  typography: {
-    style: string
-    hierarchy: string
-    readability: string
-    recommendations: string[]
-  }
-  spacing: {
-    system: string
-    consistency: string
-    recommendations: string[]
-  }
-  components: {
-    patterns: string[]
-    quality: string
-    recommendations: string[]
-  }
-  overall: {
-    maturity: 'prototype' | 'developing' | 'mature' | 'systematic'
-    consistency: number
-    aiRecommendations: string[]
-  }
-}
+export type DesignInsights = z.infer<typeof DesignInsightsSchema>
 
 /**
  * Generate design insights using AI
@@ -57,16 +56,16 @@ export async function generateDesignInsights(
   const prompt = buildAnalysisPrompt(curatedTokens, metadata)
 
   try {
-    // Use Vercel AI Gateway with fast model for analysis
-    const { text } = await generateText({
-      model: gateway('openai/gpt-4o-mini'), // Fast, cost-effective model via AI Gateway
+    const { object } = await getAIProvider().generateObject({
+      model: 'openai/gpt-4o-mini', // Fast, cost-effective model
+      schema: DesignInsightsSchema,
       prompt,
       temperature: 0.3, // Lower temperature for consistent analysis
-      maxTokens: 1000
+      maxTokens: 1000,
+      offline: () => generateRuleBasedInsights(curatedTokens, metadata)
     })
 
-    // Parse AI response into structured insights
-    return parseInsights(text, curatedTokens)
+    return object
   } catch (error) {
     console.error('AI insights generation failed', error)
     // Fallback to rule-based insights
@@ -101,93 +100,13 @@ SPACING: ${tokens.spacing.length} values (${tokens.spacing[0]?.value} to ${token
 RADIUS: ${tokens.radius.length} values
 SHADOWS: ${tokens.shadows.length} elevation levels
 
-Provide design system analysis in this format:
-
-STYLE: [minimalist/modern/bold/playful]
-MOOD: [professional/friendly/luxurious/energetic]
-MATURITY: [prototype/developing/mature/systematic]
-CONSISTENCY: [score 0-100]
-
-COLOR_RECOMMENDATIONS: [3 specific improvements]
-TYPOGRAPHY_RECOMMENDATIONS: [2 specific improvements]
-SPACING_RECOMMENDATIONS: [2 specific improvements]
+Describe the palette, typography and spacing style and mood, rate maturity
+(prototype/developing/mature/systematic) and consistency (0-100), and give 3 color,
+2 typography and 2 spacing recommendations.
 
 Keep analysis concise and actionable.`
 }
 
-/**
- * Parse AI response into structured format
- */
-function parseInsights(aiResponse: string, tokens: CuratedTokenSet): DesignInsights {
-  // Simple parsing - in production, use more robust extraction
-  const lines = aiResponse.split('\n').filter(l => l.trim())
-
-  const style = lines.find(l => l.startsWith('STYLE:'))?.split(':')[1]?.trim() || 'modern'
-  const mood = lines.find(l => l.startsWith('MOOD:'))?.split(':')[1]?.trim() || 'professional'
-  const maturity = lines.find(l => l.startsWith('MATURITY:'))?.split(':')[1]?.trim().toLowerCase() as any || 'developing'
-  const consistency = parseInt(lines.find(l => l.startsWith('CONSISTENCY:'))?.split(':')[1]?.trim() || '75')
-
-  const colorRecs = lines
-    .filter(l => l.includes('COLOR_') && l.includes(':'))
-    .map(l => l.split(':')[1]?.trim())
-    .filter(Boolean)
-
-  const typographyRecs = lines
-    .filter(l => l.includes('TYPOGRAPHY_') && l.includes(':'))
-    .map(l => l.split(':')[1]?.trim())
-    .filter(Boolean)
-
-  const spacingRecs = lines
-    .filter(l => l.includes('SPACING_') && l.includes(':'))
-    .map(l => l.split(':')[1]?.trim())
-    .filter(Boolean)
-
-  return {
-    summary: `${style.charAt(0).toUpperCase() + style.slice(1)} ${mood} design system`,
-    colorPalette: {
-      style,
-      mood,
-      accessibility: determineAccessibility(tokens.colors),
-      recommendations: colorRecs.length > 0 ? colorRecs : [
-        'Consider adding more neutral grays for better hierarchy',
-        'Ensure sufficient contrast between text and background colors'
-      ]
-    },
-    typography: {
-      style: determineTypographyStyle(tokens.typography),
-      hierarchy: determineHierarchy(tokens.typography),
-      readability: 'Good',
-      recommendations: typographyRecs.length > 0 ? typographyRecs : [
-        'Consider adding more font size variations for better hierarchy'
-      ]
-    },
-    spacing: {
-      system: determineSpacingSystem(tokens.spacing),
-      consistency: determineSpacingConsistency(tokens.spacing),
-      recommendations: spacingRecs.length > 0 ? spacingRecs : [
-        'Spacing system appears consistent with clear scale'
-      ]
-    },
-    components: {
-      patterns: detectComponentPatterns(tokens),
-      quality: 'High',
-      recommendations: [
-        'Components follow consistent design patterns',
-        'Consider documenting component variants'
-      ]
-    },
-    overall: {
-      maturity,
-      consistency,
-      aiRecommendations: [
-        ...colorRecs.slice(0, 2),
-        ...typographyRecs.slice(0, 1),
-        ...spacingRecs.slice(0, 1)
-      ]
-    }
-  }
-}
-
 /**
  * Fallback rule-based insights (no AI needed)
  */
@@ -4,31 +4,26 @@
  * Optimized for AI consumption and human implementation
  */
 
-import { generateObject } from 'ai'
-import { createGateway } from 'ai'
 import { z } from 'zod'
+import { getAIProvider } from './providers'
 import type { CuratedTokenSet } from '@/lib/analyzers/token-curator'
 import type { ComponentLibrary } from '@/lib/analyzers/component-extractor'
 
-const gateway = createGateway({
-  apiKey: process.env.AI_GATEWAY_API_KEY ?? '',
-})
-
 // Component Specification Schema
 const ComponentSpecSchema = z.object({
   name: z.string(),
   variants: z.array(z.object({
     name: z.string(),
-    css: z.record(z.string()), // Exact CSS properties
-    tokens: z.record(z.string()), // Token mappings
+    css: z.record(z.string(), z.string()), // Exact CSS properties
+    tokens: z.record(z.string(), z.string()), // Token mappings
     usage: z.string(), // When to use this variant
     example: z.string().optional() // HTML example
   })),
   states: z.object({
-    hover: z.record(z.string()).optional(),
-    active: z.record(z.string()).optional(),
-    focus: z.record(z.string()).optional(),
-    disabled: z.record(z.string()).optional(),
+    hover: z.record(z.string(), z.string()).optional(),
+    active: z.record(z.string(), z.string()).optional(),
+    focus: z.record(z.string(), z.string()).optional(),
+    disabled: z.record(z.string(), z.string()).optional(),
   }),
   composition: z.string(), // How to combine with other components
   accessibility: z.array(z.string()) // A11y requirements
@@ -149,12 +144,13 @@ export async function buildDesignSystemSpec(
   try {
     const prompt = buildDesignSystemPrompt(tokens, componentLibrary, metadata)
 
-    const { object } = await generateObject({
-      model: gateway('openai/gpt-4o'),
+    const { object } = await getAIProvider().generateObject({
+      model: 'openai/gpt-4o',
       schema: DesignSystemSpecSchema,
       prompt,
       temperature: 0.3,
-      maxTokens: 6000
+      maxTokens: 6000,
+      offline: () => generateFallbackSpec(tokens, componentLibrary)
     })
 
     return object
@@ -3,15 +3,9 @@
  * Creates concise, branded descriptions of design systems for AI agents
  */
 
-import { generateText } from 'ai'
-import { createOpenAI } from '@ai-sdk/openai'
+import { getAIProvider } from './providers'
 import type { CuratedTokenSet } from '@/lib/analyzers/token-curator'
 
-// Configure Vercel AI Gateway
-const openai = createOpenAI({
-  apiKey: process.env.AI_GATEWAY_API_KEY || process.env.VERCEL_AI_API_KEY || process.env.OPENAI_API_KEY,
-})
-
 export interface DesignSystemSummary {
   brandDescription: string
   colorPalette: string
@@ -25,11 +19,15 @@ export async function generateDesignSystemSummary(
   tokens: CuratedTokenSet,
   context: { domain: string; url: string }
 ): Promise<DesignSystemSummary | null> {
+  const provider = getAIProvider()
+  // A summary is prose; the offline provider has nothing to say beyond the tokens
+  if (provider.offline) return null
+
   try {
     const prompt = buildSummaryPrompt(tokens, context)
 
-    const { text } = await generateText({
-      model: openai('gpt-4o-mini'),
+    const { text } = await provider.generateText({
+      model: 'openai/gpt-4o-mini',
       prompt,
       temperature: 0.4,
       maxTokens: 500,
@@ -1,4 +1,4 @@
-import OpenAI from 'openai'
+import { getAIProvider, type AIProvider } from './providers'
 import { intelligentCache } from '../cache/intelligent-cache'
 
 export interface TokenEmbedding {
@@ -81,15 +81,14 @@ export interface SimilarityMatrix {
 }
 
 export class EmbeddingDeduplicator {
-  private client: OpenAI
   private embeddingCache = new Map<string, number[]>()
   private batchSize = 100 // OpenAI embedding API batch limit
 
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: process.env.AI_GATEWAY_API_KEY!,
-      baseURL: 'https://gateway.ai.cloudflare.com/v1/account/workersai/openai'
-    })
+  constructor(private configuredProvider?: AIProvider) {}
+
+  // Resolved per call so setAIProvider() applies to the global instance too
+  private get provider(): AIProvider {
+    return this.configuredProvider ?? getAIProvider()
   }
 
   // Main deduplication workflow
@@ -142,7 +141,8 @@ export class EmbeddingDeduplicator {
 
       for (const token of batch) {
         const embeddingText = this.tokenToEmbeddingText(token)
-        const cacheKey = `embed:${embeddingText}`
+        // Providers embed into different spaces, so vectors are cached per provider
+        const cacheKey = `embed:${this.provider.name}:${embeddingText}`
 
         // Check cache first
         const cached = await intelligentCache.safeGet<number[]>(cacheKey, 'embeddings')
@@ -169,23 +169,18 @@ export class EmbeddingDeduplicator {
       // Generate embeddings for uncached items
       if (batchTexts.length > 0) {
         try {
-          const response = await this.client.embeddings.create({
-            model: 'text-embedding-3-small',
-            input: batchTexts,
-            encoding_format: 'float'
-          })
+          const vectors = await this.provider.embed(batchTexts)
 
-          response.data.forEach((embeddingData: any, index: number) => {
+          vectors.forEach((embedding, index) => {
             const token = batchItems[index]
             const embeddingText = batchTexts[index]
-            const embedding = embeddingData.embedding
 
             // Cache the embedding
-            const cacheKey = `embed:${embeddingText}`
+            const cacheKey = `embed:${this.provider.name}:${embeddingText}`
             intelligentCache.safeSet(cacheKey, embedding, 'embeddings', {
               strategy: 'embedding-cache',
               quality: 100,
-              tags: ['embedding', 'openai']
+              tags: ['embedding', this.provider.name]
             })
 
             embeddings.push({
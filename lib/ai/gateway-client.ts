@@ -1,9 +1,8 @@
-import OpenAI from 'openai'
 import { z } from 'zod'
+import { getAIProvider, type AIProvider } from './providers'
 
 export interface AIGatewayConfig {
-  baseURL: string
-  apiKey: string
+  provider?: AIProvider // Defaults to the process-wide provider (AI_PROVIDER)
   defaultModel: string
   fallbackModel?: string
   maxRetries: number
@@ -57,7 +56,7 @@ export interface AIResponse<T = any> {
 
 export class AIGatewayClient {
   private models: Map<string, ModelConfig> = new Map()
-  private client: OpenAI
+  private configuredProvider?: AIProvider
   private stats = {
     requests: 0,
     totalCost: 0,
@@ -67,14 +66,20 @@ export class AIGatewayClient {
   }
 
   constructor(config: AIGatewayConfig) {
-    this.client = new OpenAI({
-      baseURL: config.baseURL,
-      apiKey: config.apiKey
-    })
+    this.configuredProvider = config.provider
 
     this.initializeModels()
   }
 
+  // Resolved per request so setAIProvider() applies to the global instance too
+  get provider(): AIProvider {
+    return this.configuredProvider ?? getAIProvider()
+  }
+
+  get isOffline(): boolean {
+    return this.provider.offline
+  }
+
   private initializeModels() {
     // Primary organizer - cheap, fast, reliable
     this.models.set('gpt-5-mini', {
@@ -244,31 +249,27 @@ export class AIGatewayClient {
     try {
       const startTime = Date.now()
 
-      const completion = await this.client.chat.completions.create({
-        model: modelName,
-        messages: [
-          {
-            role: 'system',
-            content: this.getSystemPrompt(request.metadata?.operation || 'organize-pack')
-          },
-          {
-            role: 'user',
-            content: request.prompt
-          }
-        ],
-        max_tokens: request.maxTokens || modelConfig.maxTokens,
-        temperature: request.temperature || 0.3,
-        response_format: request.schema ? { type: 'json_object' } : undefined
-      })
+      const generation = {
+        model: `${modelConfig.provider}/${modelName}`,
+        system: this.getSystemPrompt(request.metadata?.operation || 'organize-pack'),
+        prompt: request.prompt,
+        maxTokens: request.maxTokens || modelConfig.maxTokens,
+        temperature: request.temperature || 0.3
+      }
+
+      // Structured output when a schema is given; the request() caller validates again
+      const completion = request.schema
+        ? await this.provider.generateObject({ ...generation, schema: request.schema })
+        : await this.provider.generateText(generation)
 
-      const response = completion.choices[0]?.message?.content
+      const response = 'object' in completion ? JSON.stringify(completion.object) : completion.text
       if (!response) {
         throw new Error('No response content')
       }
 
       // Parse JSON if expected
-      let data: any = response
-      if (request.schema || request.metadata?.operation?.includes('pack')) {
+      let data: any = 'object' in completion ? completion.object : response
+      if (!('object' in completion) && request.metadata?.operation?.includes('pack')) {
         try {
           data = JSON.parse(response)
         } catch (parseError) {
@@ -283,8 +284,8 @@ export class AIGatewayClient {
       }
 
       const latency = Date.now() - startTime
-      const inputTokens = completion.usage?.prompt_tokens || this.estimateTokens(request.prompt)
-      const outputTokens = completion.usage?.completion_tokens || this.estimateTokens(response)
+      const inputTokens = completion.usage.inputTokens || this.estimateTokens(request.prompt)
+      const outputTokens = completion.usage.outputTokens || this.estimateTokens(response)
 
       return {
         data,
@@ -423,17 +424,16 @@ ${this.schemaToDescription(schema)}
 
 Return only the corrected JSON, no explanation.`
 
-      const repair = await this.client.chat.completions.create({
-        model,
-        messages: [
-          { role: 'system', content: 'You are a JSON repair specialist. Fix invalid JSON to match schemas.' },
-          { role: 'user', content: repairPrompt }
-        ],
-        max_tokens: 4096,
+      const modelConfig = this.models.get(model)
+      const repair = await this.provider.generateText({
+        model: modelConfig ? `${modelConfig.provider}/${model}` : model,
+        system: 'You are a JSON repair specialist. Fix invalid JSON to match schemas.',
+        prompt: repairPrompt,
+        maxTokens: 4096,
         temperature: 0.1
       })
 
-      const repairedJSON = repair.choices[0]?.message?.content
+      const repairedJSON = repair.text
       if (repairedJSON) {
         const parsed = JSON.parse(repairedJSON)
         return schema.parse(parsed) // Validate again
@@ -803,8 +803,6 @@ Provide a concise audit report with actionable recommendations.`
 
 // Global gateway instance
 export const aiGateway = new AIGatewayClient({
-  baseURL: 'https://gateway.ai.cloudflare.com/v1/account/workersai/openai',
-  apiKey: process.env.AI_GATEWAY_API_KEY!,
   defaultModel: 'gpt-5-mini',
   maxRetries: 3,
   timeout: 30000
@@ -0,0 +1,51 @@
+/**
+ * Vercel AI Gateway provider
+ * Models are addressed as '<vendor>/<model>' (openai/gpt-4o, anthropic/claude-3.7-sonnet)
+ */
+
+import { createGateway, embedMany, generateObject, generateText } from 'ai'
+import type { AIProvider } from './index'
+
+const DEFAULT_MODEL = 'openai/gpt-4o-mini'
+const EMBEDDING_MODEL = 'openai/text-embedding-3-small'
+
+export function createGatewayProvider(config: { apiKey: string }): AIProvider {
+  const gateway = createGateway({ apiKey: config.apiKey })
+
+  return {
+    name: 'gateway',
+    offline: false,
+
+    async generateText(request) {
+      const model = request.model ?? DEFAULT_MODEL
+      const { text, usage } = await generateText({
+        model: gateway(model),
+        system: request.system,
+        prompt: request.prompt,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens
+      })
+
+      return { text, model, usage: { inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 } }
+    },
+
+    async generateObject(request) {
+      const model = request.model ?? DEFAULT_MODEL
+      const { object, usage } = await generateObject({
+        model: gateway(model),
+        schema: request.schema,
+        system: request.system,
+        prompt: request.prompt,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens
+      })
+
+      return { object, model, usage: { inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 } }
+    },
+
+    async embed(texts) {
+      const { embeddings } = await embedMany({ model: gateway.textEmbeddingModel(EMBEDDING_MODEL), values: texts })
+      return embeddings
+    }
+  }
+}
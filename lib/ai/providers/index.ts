@@ -0,0 +1,114 @@
+/**
+ * AI Provider Layer
+ * Every AI call (insights, spec builder, comprehensive analysis, gateway client,
+ * embeddings) goes through one AIProvider:
+ * - gateway: Vercel AI Gateway, models addressed as 'openai/gpt-4o'
+ * - openai-compatible: any OpenAI-style endpoint (OpenAI, Cloudflare AI Gateway,
+ *   Ollama, LM Studio, vLLM) at AI_BASE_URL
+ * - offline: deterministic and rule-based, no network (CI, air-gapped installs)
+ *
+ * AI_PROVIDER picks one explicitly; otherwise the gateway is used when
+ * AI_GATEWAY_API_KEY is set, an OpenAI-compatible endpoint when AI_BASE_URL is
+ * set, and the offline provider when neither is
+ */
+
+import type { z } from 'zod'
+import { createGatewayProvider } from './gateway'
+import { createOpenAICompatibleProvider } from './openai-compatible'
+import { createOfflineProvider } from './offline'
+
+export type AIProviderName = 'gateway' | 'openai-compatible' | 'offline'
+
+export interface AITextRequest {
+  prompt: string
+  system?: string
+  model?: string // Gateway-style id ('openai/gpt-4o'); providers map it to what they serve
+  maxTokens?: number
+  temperature?: number
+  offline?: () => string // Deterministic answer for the offline provider
+}
+
+export interface AIObjectRequest<T> extends Omit<AITextRequest, 'offline'> {
+  schema: z.ZodType<T>
+  offline?: () => T // Rule-based result for the offline provider; synthesized from the schema otherwise
+}
+
+export interface AIUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface AITextResult {
+  text: string
+  model: string
+  usage: AIUsage
+}
+
+export interface AIObjectResult<T> {
+  object: T
+  model: string
+  usage: AIUsage
+}
+
+export interface AIProvider {
+  name: AIProviderName
+  offline: boolean // True when results are rule-based rather than model output
+  generateText(request: AITextRequest): Promise<AITextResult>
+  generateObject<T>(request: AIObjectRequest<T>): Promise<AIObjectResult<T>>
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export class AIProviderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AIProviderError'
+  }
+}
+
+let provider: AIProvider | null = null
+
+/**
+ * Process-wide provider, created from the environment on first use
+ */
+export function getAIProvider(): AIProvider {
+  if (!provider) provider = createAIProvider()
+  return provider
+}
+
+/**
+ * Replace the process-wide provider (tests, scripts that force offline mode)
+ */
+export function setAIProvider(next: AIProvider | null): void {
+  provider = next
+}
+
+export function createAIProvider(env: Record<string, string | undefined> = process.env): AIProvider {
+  const name = resolveProviderName(env)
+
+  switch (name) {
+    case 'gateway':
+      return createGatewayProvider({ apiKey: env.AI_GATEWAY_API_KEY ?? '' })
+    case 'openai-compatible':
+      if (!env.AI_BASE_URL) {
+        throw new AIProviderError('AI_PROVIDER=openai-compatible requires AI_BASE_URL')
+      }
+      return createOpenAICompatibleProvider({
+        baseURL: env.AI_BASE_URL,
+        apiKey: env.AI_API_KEY || env.OPENAI_API_KEY || 'not-needed', // Local servers usually ignore the key
+        model: env.AI_MODEL,
+        embeddingModel: env.AI_EMBEDDING_MODEL
+      })
+    case 'offline':
+      return createOfflineProvider()
+  }
+}
+
+function resolveProviderName(env: Record<string, string | undefined>): AIProviderName {
+  const explicit = env.AI_PROVIDER?.trim().toLowerCase()
+  if (explicit === 'gateway' || explicit === 'openai-compatible' || explicit === 'offline') return explicit
+  if (explicit) throw new AIProviderError(`Unknown AI_PROVIDER "${explicit}"`)
+
+  if (env.AI_GATEWAY_API_KEY) return 'gateway'
+  if (env.AI_BASE_URL) return 'openai-compatible'
+  return 'offline'
+}
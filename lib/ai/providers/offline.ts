@@ -0,0 +1,149 @@
+/**
+ * Offline provider
+ * Deterministic, rule-based and network-free. Text requests return the caller's
+ * rule-based answer; object requests return the caller's rule-based result or,
+ * without one, the smallest value the schema accepts. Embeddings are hashed
+ * character trigrams, so similar strings still land close together
+ */
+
+import { z } from 'zod'
+import { AIProviderError, type AIProvider } from './index'
+
+const OFFLINE_MODEL = 'offline'
+const EMBEDDING_DIMENSIONS = 256
+
+type JsonSchema = {
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  minItems?: number
+  minLength?: number
+  minimum?: number
+  exclusiveMinimum?: number
+  maximum?: number
+  format?: string
+  enum?: unknown[]
+  const?: unknown
+  default?: unknown
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+}
+
+export function createOfflineProvider(): AIProvider {
+  const usage = { inputTokens: 0, outputTokens: 0 }
+
+  return {
+    name: 'offline',
+    offline: true,
+
+    async generateText(request) {
+      return { text: request.offline?.() ?? '', model: OFFLINE_MODEL, usage }
+    },
+
+    async generateObject(request) {
+      const candidate = request.offline ? request.offline() : synthesizeFromSchema(request.schema)
+      const parsed = request.schema.safeParse(candidate)
+      if (!parsed.success) {
+        throw new AIProviderError(`Offline result does not match the schema: ${parsed.error.issues[0]?.message ?? 'invalid'}`)
+      }
+
+      return { object: parsed.data, model: OFFLINE_MODEL, usage }
+    },
+
+    async embed(texts) {
+      return texts.map(hashEmbedding)
+    }
+  }
+}
+
+/**
+ * Smallest value a zod schema accepts: required fields only, empty arrays,
+ * first enum member, lower numeric bounds
+ */
+export function synthesizeFromSchema(schema: z.ZodType): unknown {
+  const root = z.toJSONSchema(schema, { unrepresentable: 'any' }) as JsonSchema
+  return synthesize(root, root)
+}
+
+function synthesize(node: JsonSchema, root: JsonSchema): unknown {
+  if (node.$ref) {
+    const name = node.$ref.replace(/^#\/\$defs\//, '')
+    return node.$ref === '#' ? synthesize(root, root) : synthesize(root.$defs?.[name] ?? {}, root)
+  }
+  if (node.default !== undefined) return node.default
+  if (node.const !== undefined) return node.const
+  if (node.enum && node.enum.length > 0) return node.enum[0]
+
+  const options = node.anyOf ?? node.oneOf
+  if (options && options.length > 0) {
+    return synthesize(options.find(option => option.type !== 'null') ?? options[0], root)
+  }
+  if (node.allOf && node.allOf.length > 0) return synthesize(node.allOf[0], root)
+
+  const type = Array.isArray(node.type) ? node.type.find(candidate => candidate !== 'null') ?? 'null' : node.type
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        (node.required ?? []).map(key => [key, synthesize(node.properties?.[key] ?? {}, root)])
+      )
+    case 'array':
+      return Array.from({ length: node.minItems ?? 0 }, () => synthesize(node.items ?? {}, root))
+    case 'string':
+      return synthesizeString(node)
+    case 'number':
+    case 'integer': {
+      const minimum = node.minimum ?? (node.exclusiveMinimum !== undefined ? node.exclusiveMinimum + 1 : undefined)
+      if (minimum !== undefined) return minimum
+      return node.maximum !== undefined && node.maximum < 0 ? node.maximum : 0
+    }
+    case 'boolean':
+      return false
+    default:
+      return null
+  }
+}
+
+function synthesizeString(node: JsonSchema): string {
+  switch (node.format) {
+    case 'date-time':
+      return new Date(0).toISOString()
+    case 'uuid':
+      return '00000000-0000-0000-0000-000000000000'
+    case 'uri':
+      return 'about:blank'
+    case 'email':
+      return 'offline@example.com'
+    default:
+      return '-'.repeat(node.minLength ?? 0)
+  }
+}
+
+/**
+ * Feature-hashed character trigrams, L2-normalized
+ */
+function hashEmbedding(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0)
+  const normalized = ` ${text.toLowerCase().replace(/\s+/g, ' ').trim()} `
+
+  for (let i = 0; i + 3 <= normalized.length; i++) {
+    const hash = fnv1a(normalized.slice(i, i + 3))
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1
+  }
+
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return length === 0 ? vector : vector.map(value => value / length)
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,62 @@
+/**
+ * OpenAI-compatible provider
+ * Chat completions and embeddings against any OpenAI-style base URL: OpenAI itself,
+ * the Cloudflare AI Gateway, or local servers (Ollama, LM Studio, vLLM)
+ */
+
+import { createOpenAI } from '@ai-sdk/openai'
+import { embedMany, generateObject, generateText } from 'ai'
+import type { AIProvider } from './index'
+
+const DEFAULT_MODEL = 'gpt-4o-mini'
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+export function createOpenAICompatibleProvider(config: {
+  baseURL: string
+  apiKey: string
+  model?: string // Serve every request with this model (local endpoints usually host one)
+  embeddingModel?: string
+}): AIProvider {
+  const openai = createOpenAI({ baseURL: config.baseURL, apiKey: config.apiKey })
+
+  // 'openai/gpt-4o' -> 'gpt-4o'; the vendor prefix only means something to the Vercel gateway
+  const modelFor = (requested?: string) => config.model || requested?.replace(/^[a-z0-9-]+\//i, '') || DEFAULT_MODEL
+
+  return {
+    name: 'openai-compatible',
+    offline: false,
+
+    async generateText(request) {
+      const model = modelFor(request.model)
+      const { text, usage } = await generateText({
+        model: openai.chat(model),
+        system: request.system,
+        prompt: request.prompt,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens
+      })
+
+      return { text, model, usage: { inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 } }
+    },
+
+    async generateObject(request) {
+      const model = modelFor(request.model)
+      const { object, usage } = await generateObject({
+        model: openai.chat(model),
+        schema: request.schema,
+        system: request.system,
+        prompt: request.prompt,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens
+      })
+
+      return { object, model, usage: { inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 } }
+    },
+
+    async embed(texts) {
+      const model = openai.textEmbeddingModel(config.embeddingModel || DEFAULT_EMBEDDING_MODEL)
+      const { embeddings } = await embedMany({ model, values: texts })
+      return embeddings
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { aiGateway, type AIRequest, type AIResponse } from './gateway-client'
+import { aiGateway, type AIGatewayClient, type AIRequest, type AIResponse } from './gateway-client'
 import { costOptimizer } from './cost-optimizer'
 import { embeddingDeduplicator } from './embedding-deduplicator'
 import { schemaValidator, TokenPackSchema } from './schema-validator'
@@ -110,6 +110,8 @@ export class TwoPhaseProcessor {
     qualityMaintained: 0
   }
 
+  constructor(private gateway: AIGatewayClient = aiGateway) {}
+
   // Main two-phase processing method
   async processTokenExtraction(
     extractedData: any,
@@ -127,7 +129,8 @@ export class TwoPhaseProcessor {
     try {
       // Analyze input size and complexity
       const inputAnalysis = await this.analyzeInput(extractedData)
-      const needsCompression = inputAnalysis.tokens > this.config.compressionThreshold
+      // The offline provider can't summarize, so oversized input goes straight to organization
+      const needsCompression = inputAnalysis.tokens > this.config.compressionThreshold && !this.gateway.isOffline
 
       let processedData = extractedData
       let totalCost = 0
@@ -238,7 +241,7 @@ export class TwoPhaseProcessor {
       const model = 'gpt-5-nano'
 
       // Execute compression
-      const response = await aiGateway.request({
+      const response = await this.gateway.request({
         prompt: compressionPrompt,
         model,
         schema: CompressionSchema,
@@ -307,7 +310,7 @@ export class TwoPhaseProcessor {
       const organizationPrompt = this.buildOrganizationPrompt(data, options)
 
       // Execute organization
-      const response = await aiGateway.request({
+      const response = await this.gateway.request({
         prompt: organizationPrompt,
         model: modelRecommendation.model,
         schema: TokenPackSchema,
@@ -722,7 +725,7 @@ Generate a complete, validated design token package ready for developer use.`
       // Use simplest model with basic prompt
       const simplifiedPrompt = `Convert to design tokens: ${JSON.stringify(data).substring(0, 5000)}`
 
-      const response = await aiGateway.request({
+      const response = await this.gateway.request({
         prompt: simplifiedPrompt,
         model: 'gpt-5-mini',
         maxTokens: 4096,
@@ -933,7 +936,7 @@ AUDIT FOCUS:
 
 Provide a comprehensive audit with actionable recommendations.`
 
-      const response = await aiGateway.request({
+      const response = await this.gateway.request({
         prompt: auditPrompt,
         model: 'claude-3.7-sonnet', // Premium model for audits
         schema: AuditSchema,
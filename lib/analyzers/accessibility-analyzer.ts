@@ -1,4 +1,7 @@
-import type { Page } from 'playwright'
+// Anything that can run a function in the page: a Playwright Page or the scan browser's page wrapper
+export interface AccessibilityPage {
+  evaluate<T>(fn: () => T | Promise<T>): Promise<T>
+}
 
 export interface AccessibilityAnalysis {
   wcag: WCAGCompliance
@@ -312,7 +315,7 @@ export interface AccessibilityScore {
 }
 
 export class AccessibilityAnalyzer {
-  async analyzeAccessibility(page: Page): Promise<AccessibilityAnalysis> {
+  async analyzeAccessibility(page: AccessibilityPage): Promise<AccessibilityAnalysis> {
     const [
       wcag,
       semantic,
@@ -345,7 +348,7 @@ export class AccessibilityAnalyzer {
     }
   }
 
-  private async analyzeWCAGCompliance(page: Page): Promise<WCAGCompliance> {
+  private async analyzeWCAGCompliance(page: AccessibilityPage): Promise<WCAGCompliance> {
     const compliance = await page.evaluate(() => {
       const checks = {
         perceivable: [],
@@ -659,7 +662,7 @@ export class AccessibilityAnalyzer {
     return compliance as WCAGCompliance
   }
 
-  private async analyzeSemanticStructure(page: Page): Promise<SemanticStructure> {
+  private async analyzeSemanticStructure(page: AccessibilityPage): Promise<SemanticStructure> {
     const semantic = await page.evaluate(() => {
       const results = {
         html5: {
@@ -769,7 +772,7 @@ export class AccessibilityAnalyzer {
     return semantic as SemanticStructure
   }
 
-  private async analyzeInteractionAccessibility(page: Page): Promise<InteractionAccessibility> {
+  private async analyzeInteractionAccessibility(page: AccessibilityPage): Promise<InteractionAccessibility> {
     const interaction = await page.evaluate(() => {
       const results = {
         keyboard: {
@@ -851,7 +854,7 @@ export class AccessibilityAnalyzer {
     return interaction as InteractionAccessibility
   }
 
-  private async analyzeVisualAccessibility(page: Page): Promise<VisualAccessibility> {
+  private async analyzeVisualAccessibility(page: AccessibilityPage): Promise<VisualAccessibility> {
     // Comprehensive visual accessibility analysis
     const visual = await page.evaluate(() => {
       const results = {
@@ -971,7 +974,7 @@ export class AccessibilityAnalyzer {
     return semantic as VisualAccessibility
   }
 
-  private async analyzeAssistiveTechnology(page: Page): Promise<AssistiveTechnology> {
+  private async analyzeAssistiveTechnology(page: AccessibilityPage): Promise<AssistiveTechnology> {
     const assistive = await page.evaluate(() => {
       const results = {
         screenReaders: {
@@ -11,6 +11,7 @@
  */
 
 import type { W3CDesignTokenSet } from './w3c-tokenizer'
+import { isCustomElementTag } from '@/lib/extractors/shadow-dom'
 
 // Component detection confidence levels
 export type ConfidenceLevel = 'very-high' | 'high' | 'medium' | 'low'
@@ -81,6 +82,45 @@ const STRATEGY_WEIGHTS = {
   behavioralAnalysis: 0.17   // Interaction patterns and behavior (17%)
 }
 
+// Web components announce what they are in their tag name, so a recognised tag
+// is trusted over the style heuristics
+const CUSTOM_ELEMENT_CONFIDENCE = 85
+
+// Matched against the tag without its library prefix: sl-tab-group -> tab-group,
+// md-filled-text-field -> filled-text-field. First match wins
+const CUSTOM_ELEMENT_TYPES: Array<[RegExp, ComponentType]> = [
+  [/(^|-)alert-dialog$/, 'alert-dialog'],
+  [/(^|-)(dialog|modal)$/, 'dialog'],
+  [/(^|-)drawer$/, 'drawer'],
+  [/(^|-)tooltip$/, 'tooltip'],
+  [/(^|-)(popup|popover)$/, 'popover'],
+  [/(^|-)(dropdown|menu|menu-button)$/, 'dropdown-menu'],
+  [/(^|-)(tab-group|tabs|tab-bar)$/, 'tabs'],
+  [/(^|-)(details|accordion|accordion-group|expansion-panel)$/, 'accordion'],
+  [/(^|-)(switch|toggle)$/, 'switch'],
+  [/(^|-)checkbox$/, 'checkbox'],
+  [/(^|-)radio(-group|-button)?$/, 'radio-group'],
+  [/(^|-)(range|slider)$/, 'slider'],
+  [/(^|-)text-?area$/, 'textarea'],
+  [/(^|-)(input|text-?field|searchbar)$/, 'input'],
+  [/(^|-)(combobox|autocomplete)$/, 'combobox'],
+  [/(^|-)select$/, 'select'],
+  [/(^|-)(progress|progress-bar|progress-ring|linear-progress|circular-progress)$/, 'progress'],
+  [/(^|-)skeleton(-text)?$/, 'skeleton'],
+  [/(^|-)(divider|separator)$/, 'separator'],
+  [/(^|-)(badge|chip|tag)$/, 'badge'],
+  [/(^|-)avatar$/, 'avatar'],
+  [/(^|-)card$/, 'card'],
+  [/(^|-)(alert|callout|notice)$/, 'alert'],
+  [/(^|-)(toast|toaster|snackbar)$/, 'toast'],
+  [/(^|-)breadcrumbs?$/, 'breadcrumb'],
+  [/(^|-)pagination$/, 'pagination'],
+  [/(^|-)(carousel|slides)$/, 'carousel'],
+  [/(^|-)(date-picker|datepicker|datetime)$/, 'date-picker'],
+  [/(^|-)calendar$/, 'calendar'],
+  [/(^|-)button(-group)?$|(^|-)fab$/, 'button']
+]
+
 // Extracted component with full design tokens
 export interface ExtractedComponent {
   type: ComponentType
@@ -190,6 +230,8 @@ export interface ExtractedComponent {
 
   // Component-specific metadata
   metadata: {
+    customElement?: string // Tag name of a web component
+
     // ARIA attributes
     role?: string
     ariaLabel?: string
@@ -229,6 +271,7 @@ export interface ExtractedComponent {
       visualSignature: number
       frameworkPattern: number
       behavioralAnalysis: number
+      customElement?: number // Recognised by tag name
     }
   }
 
@@ -262,7 +305,7 @@ export interface ComponentLibrary {
  */
 export function detectComponents(
   computedStyles: any[],
-  tokenSet: W3CDesignTokenSet
+  tokenSet?: W3CDesignTokenSet
 ): ComponentLibrary {
   const components: ExtractedComponent[] = []
 
@@ -296,6 +339,11 @@ export function detectComponents(
 function detectComponentType(element: any): ExtractedComponent[] {
   const detected: ExtractedComponent[] = []
 
+  const customElementType = detectCustomElementType(element)
+  if (customElementType) {
+    return [extractComponentTokens(customElementType, element, CUSTOM_ELEMENT_CONFIDENCE, { customElement: 100 })]
+  }
+
   // Try each component pattern
   const patterns = getAllComponentPatterns()
 
@@ -329,6 +377,24 @@ function detectComponentType(element: any): ExtractedComponent[] {
   return detected
 }
 
+/**
+ * Component type of a web component, from its tag name (sl-button, ion-toggle,
+ * md-outlined-select). Null for regular elements and unrecognised tags
+ */
+export function detectCustomElementType(element: { tagName?: string; selector?: string }): ComponentType | null {
+  const tag = customElementTag(element)
+  if (!tag) return null
+
+  const name = tag.split('-').slice(1).join('-')
+  const match = CUSTOM_ELEMENT_TYPES.find(([pattern]) => pattern.test(name))
+  return match ? match[1] : null
+}
+
+function customElementTag(element: { tagName?: string; selector?: string }): string | null {
+  const tag = (element.tagName || (element.selector || '').split(/[.#[:\s>+~]/)[0] || '').toLowerCase()
+  return isCustomElementTag(tag) ? tag : null
+}
+
 /**
  * Calculate weighted confidence score
  */
@@ -515,6 +581,7 @@ function extractMetadata(element: any, detectionScores: Record<string, number>):
   }
 
   return {
+    customElement: customElementTag(element) ?? undefined,
     role: element.role,
     ariaLabel: element.ariaLabel,
     ariaDescribedBy: element.ariaDescribedBy,
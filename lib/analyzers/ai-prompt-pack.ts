@@ -114,6 +114,7 @@ export function buildAiPromptPack(
 
   // Extract color palette with OKLCH conversion
   const { rawColors, semanticColors, colorUsage } = extractColorSystem(tokenSet, extraction.summary.byCategory.color || 0)
+  const themeModes = tokenSet.$metadata.modes ?? ['dark', 'light']
 
   // Extract typography system
   const typographySystem = extractTypographySystem(tokenSet)
@@ -139,7 +140,7 @@ export function buildAiPromptPack(
       version: '1.0.0',
       generated_at: new Date().toISOString(),
       base_unit: baseUnit,
-      modes: ['dark', 'light'],
+      modes: themeModes,
       densities: ['compact', 'normal', 'spacious'],
       rank_method: 'freq_vis@viewport',
       etag
@@ -185,10 +186,7 @@ export function buildAiPromptPack(
         lg: 32
       }
     },
-    modes: {
-      dark: { contrast_boost: true },
-      light: { contrast_boost: false }
-    },
+    modes: Object.fromEntries(themeModes.map(mode => [mode, { contrast_boost: mode === 'dark' }])),
     density: {
       compact: { mult: 0.9 },
       normal: { mult: 1.0 },
@@ -299,8 +297,8 @@ function extractColorSystem(tokenSet: W3CTokenSet, totalColors: number): {
     })
   }
 
-  // Build semantic color mapping
-  const semanticColors = buildSemanticColorMap(rawColors, colorUsage)
+  // Build semantic color mapping; extracted theme modes replace the guessed per-mode values
+  const semanticColors = applyThemeModes(buildSemanticColorMap(rawColors, colorUsage), tokenSet)
 
   return { rawColors, semanticColors, colorUsage }
 }
@@ -396,6 +394,42 @@ function buildSemanticColorMap(
   }
 }
 
+// Semantic roles and the themed variable names (shadcn/ui, Radix, Bootstrap conventions) that fill them
+const THEMED_ROLES: Array<['bg' | 'fg' | 'border', string, string[]]> = [
+  ['bg', 'base', ['background', 'bg', 'body-bg', 'bg-base']],
+  ['bg', 'surface', ['card', 'surface', 'bg-surface', 'popover']],
+  ['bg', 'muted', ['muted', 'bg-muted', 'secondary']],
+  ['bg', 'accent', ['primary', 'accent', 'brand']],
+  ['fg', 'base', ['foreground', 'fg', 'text', 'body-color']],
+  ['fg', 'muted', ['muted-foreground', 'fg-muted', 'text-muted']],
+  ['fg', 'onAccent', ['primary-foreground', 'accent-foreground']],
+  ['border', 'subtle', ['border', 'border-subtle', 'input']],
+  ['border', 'strong', ['border-strong', 'ring']]
+]
+
+/**
+ * Point semantic roles at themed tokens, with their real value in every mode
+ */
+function applyThemeModes(
+  semantic: AiPromptPack['color']['semantic'],
+  tokenSet: W3CTokenSet
+): AiPromptPack['color']['semantic'] {
+  const colors = (tokenSet.color ?? {}) as Record<string, { $extensions?: { 'contextds.modes'?: Record<string, unknown> } }>
+
+  THEMED_ROLES.forEach(([group, role, names]) => {
+    const name = names.find(candidate => colors[candidate]?.$extensions?.['contextds.modes'])
+    if (!name) return
+
+    const modes = colors[name].$extensions!['contextds.modes'] as Record<string, { components: number[] }>
+    semantic[group][role] = {
+      ref: shortenColorName(name),
+      byMode: Object.fromEntries(Object.entries(modes).map(([mode, color]) => [mode, rgbToHex(color.components)]))
+    }
+  })
+
+  return semantic
+}
+
 /**
  * Extract typography system
  */
@@ -0,0 +1,236 @@
+/**
+ * Color Search
+ * Perceptual matching of colors and palettes against scanned token sets.
+ * Colors are compared by CIEDE2000 (in CIELAB) or by OKLab distance (stored as
+ * OKLCH); both read on roughly the same scale, where 1 is about a
+ * just-noticeable difference. A palette matches a site when each of its colors
+ * has a close color on the site
+ */
+
+import {
+  deltaE2000,
+  deltaEOK,
+  parseColor,
+  rgbToHex,
+  rgbToLab,
+  rgbToOklch,
+  toW3CColor,
+  w3cToHex,
+  type LabColor,
+  type OKLCHColor
+} from './color-utils'
+import type { W3CDesignToken, W3CTokenSet } from './w3c-tokenizer'
+
+export type ColorMetric = 'de2000' | 'oklch'
+
+export const DEFAULT_COLOR_DISTANCE = 5
+export const MAX_COLOR_DISTANCE = 30
+export const MAX_PALETTE_COLORS = 8
+
+export interface ColorPoint {
+  hex: string
+  lab: LabColor
+  oklch: OKLCHColor
+}
+
+export interface TokenColor extends ColorPoint {
+  path: string // e.g. color.brand.primary
+  usage: number
+}
+
+// Ranges a stored color must fall in to possibly be within `distance` of the query
+export interface ColorSearchBox {
+  lab: { l: [number, number]; a: [number, number]; b: [number, number] }
+  oklch: { l: [number, number]; c: [number, number] }
+}
+
+export interface PaletteColorMatch {
+  query: string
+  hex: string | null // Nearest site color, null when none is within range
+  path: string | null
+  distance: number | null
+}
+
+export interface PaletteScore {
+  matches: PaletteColorMatch[]
+  coverage: number // Share of query colors with a match, 0-1
+  distance: number // Mean distance of the matched colors
+}
+
+export class InvalidColorQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidColorQueryError'
+  }
+}
+
+/**
+ * Parse a query color (hex with or without #, or any CSS color). Translucent
+ * colors are rejected since stored colors are opaque
+ */
+export function toColorPoint(input: string): ColorPoint {
+  const value = input.trim()
+  const rgb = parseColor(/^[0-9a-f]{3}([0-9a-f]{3})?$/i.test(value) ? `#${value}` : value)
+  if (!rgb || (rgb.a ?? 1) < 1) {
+    throw new InvalidColorQueryError(`Not an opaque color: ${input}`)
+  }
+  return { hex: rgbToHex(rgb), lab: rgbToLab(rgb), oklch: rgbToOklch(rgb) }
+}
+
+/**
+ * Parse a comma-separated palette, dropping duplicates
+ */
+export function parsePalette(input: string): ColorPoint[] {
+  const colors = input.split(',').map(value => value.trim()).filter(Boolean).map(toColorPoint)
+  const unique = colors.filter((color, index) => colors.findIndex(other => other.hex === color.hex) === index)
+
+  if (unique.length < 2) {
+    throw new InvalidColorQueryError('A palette needs at least 2 distinct colors')
+  }
+  if (unique.length > MAX_PALETTE_COLORS) {
+    throw new InvalidColorQueryError(`A palette has at most ${MAX_PALETTE_COLORS} colors`)
+  }
+  return unique
+}
+
+/**
+ * Opaque sRGB colors of a token set with their usage counts, one entry per token
+ */
+export function collectTokenColors(tokenSet: W3CTokenSet): TokenColor[] {
+  const group = tokenSet.color
+  if (!isRecord(group)) return []
+
+  const colors: TokenColor[] = []
+  const visit = (node: Record<string, unknown>, path: string[]) => {
+    Object.entries(node).forEach(([key, value]) => {
+      if (key.startsWith('$') || !isRecord(value)) return
+      if (!('$value' in value)) {
+        visit(value, [...path, key])
+        return
+      }
+
+      const token = value as unknown as W3CDesignToken
+      const hex = tokenHex(token)
+      const rgb = hex ? parseColor(hex) : null
+      if (!hex || !rgb) return
+
+      colors.push({
+        path: ['color', ...path, key].join('.'),
+        hex,
+        lab: rgbToLab(rgb),
+        oklch: rgbToOklch(rgb),
+        usage: Math.max(1, Math.round(Number(token.$extensions?.['contextds.usage']) || 1))
+      })
+    })
+  }
+  visit(group, [])
+
+  return colors
+}
+
+export function colorDistance(first: ColorPoint, second: ColorPoint, metric: ColorMetric): number {
+  return metric === 'de2000' ? deltaE2000(first.lab, second.lab) : deltaEOK(first.oklch, second.oklch)
+}
+
+/**
+ * Bounding ranges for the index prefilter. Every color within `distance` of
+ * the query lies inside them; the exact distance is computed afterwards
+ */
+export function colorSearchBox(point: ColorPoint, distance: number): ColorSearchBox {
+  // ΔE2000 divides the lightness difference by at most ~1.8 and the chroma and
+  // hue differences by 1 + 0.045 × mean chroma, so the a/b range grows with chroma
+  const lightness = distance * 2
+  const chroma = Math.hypot(point.lab.a, point.lab.b)
+  const ab = distance * (2 + 0.05 * (chroma + distance * 2))
+  // OKLab distance (×100) bounds both the lightness and the chroma difference
+  const ok = distance / 100
+
+  return {
+    lab: {
+      l: [point.lab.l - lightness, point.lab.l + lightness],
+      a: [point.lab.a - ab, point.lab.a + ab],
+      b: [point.lab.b - ab, point.lab.b + ab]
+    },
+    oklch: {
+      l: [point.oklch.l - ok, point.oklch.l + ok],
+      c: [Math.max(0, point.oklch.c - ok), point.oklch.c + ok]
+    }
+  }
+}
+
+/**
+ * Order color matches closest first; matches within 0.1 of each other are
+ * ordered by how much the site uses the color
+ */
+export function rankColorMatches<T extends { distance: number; usage: number }>(matches: T[]): T[] {
+  return [...matches].sort((first, second) =>
+    Math.round(first.distance * 10) - Math.round(second.distance * 10) || second.usage - first.usage
+  )
+}
+
+/**
+ * Match each palette color to the nearest color of a site
+ */
+export function scorePalette(
+  palette: ColorPoint[],
+  siteColors: Array<ColorPoint & { path: string }>,
+  metric: ColorMetric,
+  maxDistance: number
+): PaletteScore {
+  const matches = palette.map((query): PaletteColorMatch => {
+    let nearest: { color: ColorPoint & { path: string }; distance: number } | null = null
+    for (const color of siteColors) {
+      const distance = colorDistance(query, color, metric)
+      if (distance <= maxDistance && (!nearest || distance < nearest.distance)) {
+        nearest = { color, distance }
+      }
+    }
+
+    return {
+      query: query.hex,
+      hex: nearest?.color.hex ?? null,
+      path: nearest?.color.path ?? null,
+      distance: nearest ? round(nearest.distance) : null
+    }
+  })
+
+  const matched = matches.filter(match => match.distance !== null)
+  return {
+    matches,
+    coverage: palette.length ? round(matched.length / palette.length) : 0,
+    distance: matched.length
+      ? round(matched.reduce((sum, match) => sum + (match.distance ?? 0), 0) / matched.length)
+      : maxDistance
+  }
+}
+
+/**
+ * Order palette matches by coverage, then mean distance, then site popularity
+ */
+export function rankPaletteMatches<T extends PaletteScore & { popularity: number }>(matches: T[]): T[] {
+  return [...matches].sort((first, second) =>
+    second.coverage - first.coverage ||
+    Math.round(first.distance * 10) - Math.round(second.distance * 10) ||
+    second.popularity - first.popularity
+  )
+}
+
+function tokenHex(token: W3CDesignToken): string | null {
+  const value = token.$value as { colorSpace?: string; components?: number[]; alpha?: number } | string
+  const w3c = typeof value === 'string' ? toW3CColor(value) : value
+  if (!w3c || w3c.colorSpace !== 'srgb' || !Array.isArray(w3c.components)) return null
+
+  const alpha = w3c.components[3] ?? w3c.alpha ?? 1
+  if (alpha < 1) return null
+
+  return w3cToHex(w3c.components.slice(0, 3))
+}
+
+function round(value: number, decimals = 3): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
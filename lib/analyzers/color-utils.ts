@@ -3,7 +3,7 @@
  * Uses Culori for proper color space conversion and perceptual color analysis
  */
 
-import { parse, converter, formatHex, formatRgb, differenceEuclidean, type Color } from 'culori'
+import { parse, converter, formatHex, formatRgb, differenceEuclidean, differenceCiede2000, type Color } from 'culori'
 
 export interface RGBColor {
   r: number
@@ -26,6 +26,13 @@ export interface OKLCHColor {
   a?: number
 }
 
+// CIELAB (D65): lightness 0-100, a/b roughly -128..128
+export interface LabColor {
+  l: number
+  a: number
+  b: number
+}
+
 export interface W3CColor {
   colorSpace: 'srgb' | 'display-p3' | 'a98-rgb' | 'prophoto-rgb' | 'rec2020' | 'oklch'
   components: [number, number, number] | [number, number, number, number]
@@ -36,7 +43,10 @@ export interface W3CColor {
 const toRgb = converter('rgb')
 const toHsl = converter('hsl')
 const toOklch = converter('oklch')
+const toLab = converter('lab65')
 const colorDifference = differenceEuclidean('oklch')
+const ciede2000 = differenceCiede2000()
+const oklabDifference = differenceEuclidean('oklab')
 
 /**
  * Parse any CSS color string into RGB values using Culori
@@ -177,6 +187,32 @@ export function rgbToOklch(rgb: RGBColor): OKLCHColor {
   }
 }
 
+/**
+ * Convert RGB to CIELAB (D65), the space ΔE2000 is defined in
+ */
+export function rgbToLab(rgb: RGBColor): LabColor {
+  const lab = toLab({ mode: 'rgb' as const, r: rgb.r / 255, g: rgb.g / 255, b: rgb.b / 255 })
+  return { l: lab?.l ?? 0, a: lab?.a ?? 0, b: lab?.b ?? 0 }
+}
+
+/**
+ * CIEDE2000 color difference; about 1 is a just-noticeable difference
+ */
+export function deltaE2000(first: LabColor, second: LabColor): number {
+  return ciede2000({ mode: 'lab65', ...first }, { mode: 'lab65', ...second })
+}
+
+/**
+ * Euclidean OKLab distance between two OKLCH colors, times 100 so it reads on
+ * roughly the same scale as ΔE2000
+ */
+export function deltaEOK(first: OKLCHColor, second: OKLCHColor): number {
+  return oklabDifference(
+    { mode: 'oklch', l: first.l, c: first.c, h: first.h },
+    { mode: 'oklch', l: second.l, c: second.c, h: second.h }
+  ) * 100
+}
+
 /**
  * Convert RGB to W3C Design Token color format
  */
@@ -0,0 +1,222 @@
+/**
+ * Contrast Matrix
+ * Scores the foreground/background color pairings of a W3C token set against
+ * WCAG 2.x and APCA. Pairings come from usage: a text color and a background
+ * color that share a selector (contextds.selectors) are rendered together.
+ * Failing pairs get the nearest passing foreground, found by moving OKLCH
+ * lightness while keeping chroma and hue
+ */
+
+import { parseColor, rgbToOklch, toW3CColor, w3cToHex, type OKLCHColor } from './color-utils'
+import { getAPCAContrast, getContrastRatio, getWCAGLevel, type WCAGLevel } from '@/lib/contrast-checker'
+import type { W3CDesignToken, W3CTokenSet } from './w3c-tokenizer'
+
+export type ContrastTarget = 'AA' | 'AAA'
+
+export interface ContrastMatrixOptions {
+  target?: ContrastTarget // Level a pair must reach to pass (default AA)
+  pairing?: 'observed' | 'all' // Only pairs seen together, or every foreground on every background
+}
+
+export interface ContrastColorRef {
+  path: string // e.g. color.gray-400
+  hex: string
+}
+
+export interface ContrastAlternative {
+  hex: string
+  oklch: OKLCHColor
+  lightnessDelta: number // OKLCH lightness change from the original foreground
+  wcagRatio: number
+  apcaLc: number
+}
+
+export interface ContrastPairResult {
+  foreground: ContrastColorRef
+  background: ContrastColorRef
+  observed: boolean
+  selectors: string[] // Selectors where both colors are used
+  wcag: { ratio: number; level: WCAGLevel; passes: boolean }
+  apca: { lc: number; passes: boolean }
+  alternative: ContrastAlternative | null // Nearest foreground that passes WCAG, for failing pairs
+}
+
+export interface ContrastMatrix {
+  target: ContrastTarget
+  pairing: 'observed' | 'all'
+  foregrounds: ContrastColorRef[]
+  backgrounds: ContrastColorRef[]
+  pairs: ContrastPairResult[]
+  summary: {
+    pairs: number
+    passing: number
+    failing: number
+    apcaFailing: number
+    withAlternative: number
+  }
+}
+
+export const WCAG_TARGETS: Record<ContrastTarget, number> = { AA: 4.5, AAA: 7 }
+// APCA has no official levels yet; Lc 60 (content text) and 75 (body text) line up with AA and AAA
+export const APCA_TARGETS: Record<ContrastTarget, number> = { AA: 60, AAA: 75 }
+
+const FOREGROUND_SOURCES = new Set(['color', 'fill'])
+const BACKGROUND_SOURCES = new Set(['background-color'])
+const LIGHTNESS_STEP = 0.005
+
+type ColorEntry = ContrastColorRef & { sources: string[]; selectors: string[] }
+
+/**
+ * Build the contrast matrix of a token set's color category
+ */
+export function buildContrastMatrix(tokenSet: W3CTokenSet, options: ContrastMatrixOptions = {}): ContrastMatrix {
+  const target = options.target ?? 'AA'
+  const pairing = options.pairing ?? 'observed'
+  const colors = collectColors(tokenSet)
+
+  const foregrounds = colors.filter(color => color.sources.some(source => FOREGROUND_SOURCES.has(source)))
+  const backgrounds = colors.filter(color => color.sources.some(source => BACKGROUND_SOURCES.has(source)))
+
+  const pairs: ContrastPairResult[] = []
+  foregrounds.forEach(foreground => {
+    backgrounds.forEach(background => {
+      if (foreground.path === background.path || foreground.hex === background.hex) return
+
+      const selectors = foreground.selectors.filter(selector => background.selectors.includes(selector))
+      const observed = selectors.length > 0
+      if (!observed && pairing === 'observed') return
+
+      const pair = scorePair(foreground, background, target)
+      if (pair) pairs.push({ ...pair, observed, selectors })
+    })
+  })
+
+  // Worst pairs first
+  pairs.sort((a, b) => a.wcag.ratio - b.wcag.ratio)
+
+  const ref = ({ path, hex }: ColorEntry): ContrastColorRef => ({ path, hex })
+
+  return {
+    target,
+    pairing,
+    foregrounds: foregrounds.map(ref),
+    backgrounds: backgrounds.map(ref),
+    pairs,
+    summary: {
+      pairs: pairs.length,
+      passing: pairs.filter(pair => pair.wcag.passes).length,
+      failing: pairs.filter(pair => !pair.wcag.passes).length,
+      apcaFailing: pairs.filter(pair => !pair.apca.passes).length,
+      withAlternative: pairs.filter(pair => pair.alternative).length
+    }
+  }
+}
+
+/**
+ * Nearest color to `hex` (by OKLCH lightness, same chroma and hue) that reaches
+ * `minRatio` against the background. Null when no lightness gets there
+ */
+export function findAccessibleColor(hex: string, backgroundHex: string, minRatio: number): ContrastAlternative | null {
+  const rgb = parseColor(hex)
+  if (!rgb) return null
+
+  const original = rgbToOklch(rgb)
+  const maxSteps = Math.ceil(1 / LIGHTNESS_STEP)
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const delta = step * LIGHTNESS_STEP
+    for (const lightness of [original.l - delta, original.l + delta]) {
+      if (lightness < 0 || lightness > 1) continue
+
+      const w3c = toW3CColor(`oklch(${lightness} ${original.c} ${original.h})`)
+      const candidate = w3c ? w3cToHex(w3c.components.slice(0, 3)) : null
+      const ratio = candidate ? getContrastRatio(candidate, backgroundHex) : null
+      if (!candidate || ratio === null || ratio < minRatio) continue
+
+      // Gamut clipping can move the color; report what the hex actually is
+      const oklch = rgbToOklch(parseColor(candidate)!)
+      return {
+        hex: candidate,
+        oklch: { l: round(oklch.l), c: round(oklch.c), h: round(oklch.h, 1) },
+        lightnessDelta: round(oklch.l - original.l),
+        wcagRatio: round(ratio, 2),
+        apcaLc: round(getAPCAContrast(candidate, backgroundHex) ?? 0, 1)
+      }
+    }
+  }
+
+  return null
+}
+
+function scorePair(
+  foreground: ColorEntry,
+  background: ColorEntry,
+  target: ContrastTarget
+): Omit<ContrastPairResult, 'observed' | 'selectors'> | null {
+  const ratio = getContrastRatio(foreground.hex, background.hex)
+  const lc = getAPCAContrast(foreground.hex, background.hex)
+  if (ratio === null || lc === null) return null
+
+  const passes = ratio >= WCAG_TARGETS[target]
+
+  return {
+    foreground: { path: foreground.path, hex: foreground.hex },
+    background: { path: background.path, hex: background.hex },
+    wcag: { ratio: round(ratio, 2), level: getWCAGLevel(ratio), passes },
+    apca: { lc: round(lc, 1), passes: Math.abs(lc) >= APCA_TARGETS[target] },
+    alternative: passes ? null : findAccessibleColor(foreground.hex, background.hex, WCAG_TARGETS[target])
+  }
+}
+
+/**
+ * Opaque sRGB color tokens; translucent colors depend on what is underneath
+ */
+function collectColors(tokenSet: W3CTokenSet): ColorEntry[] {
+  const group = tokenSet.color
+  if (!isRecord(group)) return []
+
+  const colors: ColorEntry[] = []
+  const visit = (node: Record<string, unknown>, path: string[]) => {
+    Object.entries(node).forEach(([key, value]) => {
+      if (key.startsWith('$') || !isRecord(value)) return
+      if (!('$value' in value)) {
+        visit(value, [...path, key])
+        return
+      }
+
+      const token = value as unknown as W3CDesignToken
+      const hex = tokenHex(token)
+      if (!hex) return
+
+      colors.push({
+        path: ['color', ...path, key].join('.'),
+        hex,
+        sources: token.$extensions?.['contextds.sources'] ?? [],
+        selectors: token.$extensions?.['contextds.selectors'] ?? []
+      })
+    })
+  }
+  visit(group, [])
+
+  return colors
+}
+
+function tokenHex(token: W3CDesignToken): string | null {
+  const value = token.$value as { colorSpace?: string; components?: number[]; alpha?: number } | string
+  const w3c = typeof value === 'string' ? toW3CColor(value) : value
+  if (!w3c || w3c.colorSpace !== 'srgb' || !Array.isArray(w3c.components)) return null
+
+  const alpha = w3c.components[3] ?? w3c.alpha ?? 1
+  if (alpha < 1) return null
+
+  return w3cToHex(w3c.components.slice(0, 3))
+}
+
+function round(value: number, decimals = 3): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
@@ -0,0 +1,88 @@
+/**
+ * CSS Custom Property Alias Graph
+ * Follows var() chains like `--primary: var(--blue-600)` to the custom property
+ * that holds the literal value, so tokens can keep their alias structure
+ */
+
+export interface VarReference {
+  name: string
+  fallback?: string
+}
+
+export interface AliasResolution {
+  target: string | null // Custom property this one points at directly
+  chain: string[] // Custom properties followed after this one, ending at the one holding the value
+  value: string | null // Value at the end of the chain; null when unresolved or circular
+  cycle: boolean
+  fallback: boolean // A var() fallback supplied part of the chain
+}
+
+const MAX_CHAIN_LENGTH = 20
+
+/**
+ * The reference when a value is exactly one var(), e.g. `var(--a, var(--b, #fff))`
+ */
+export function parseVarReference(value: string): VarReference | null {
+  const match = value.trim().match(/^var\(\s*(--[\w-]+)\s*(?:,\s*([\s\S]*?))?\s*\)$/)
+  if (!match) return null
+  if (!match[2]) return { name: match[1] }
+
+  // `var(--a, red) var(--b)` also matches the pattern; its "fallback" is unbalanced
+  let depth = 0
+  for (const char of match[2]) {
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0
+    if (depth < 0) return null
+  }
+
+  return depth === 0 ? { name: match[1], fallback: match[2] } : null
+}
+
+/**
+ * Follow an alias chain from one custom property. Undefined references fall back
+ * to their var() fallback; a property seen twice ends the walk as a cycle
+ */
+export function resolveAliasChain(name: string, variables: Map<string, string>): AliasResolution {
+  const chain: string[] = []
+  const seen = new Set([name])
+  let value = variables.get(name)
+  let fallback = false
+
+  while (value !== undefined && chain.length < MAX_CHAIN_LENGTH) {
+    const reference = parseVarReference(value)
+    if (!reference) {
+      return { target: chain[0] ?? null, chain, value, cycle: false, fallback }
+    }
+
+    if (seen.has(reference.name)) {
+      return { target: chain[0] ?? null, chain, value: null, cycle: true, fallback }
+    }
+
+    if (variables.has(reference.name)) {
+      seen.add(reference.name)
+      chain.push(reference.name)
+      value = variables.get(reference.name)
+    } else if (reference.fallback !== undefined) {
+      fallback = true
+      value = reference.fallback
+    } else {
+      value = undefined
+    }
+  }
+
+  return { target: chain[0] ?? null, chain, value: null, cycle: chain.length >= MAX_CHAIN_LENGTH, fallback }
+}
+
+/**
+ * Alias chains for every custom property whose value is a var() reference
+ */
+export function buildAliasGraph(variables: Map<string, string>): Map<string, AliasResolution> {
+  const graph = new Map<string, AliasResolution>()
+
+  variables.forEach((value, name) => {
+    if (parseVarReference(value)) {
+      graph.set(name, resolveAliasChain(name, variables))
+    }
+  })
+
+  return graph
+}
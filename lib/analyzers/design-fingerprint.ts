@@ -0,0 +1,366 @@
+/**
+ * Design Fingerprint
+ * A compact summary of a site's design system (palette, type scale ratio,
+ * spacing base, radii and layout archetypes) built from its latest token set
+ * and layout profile, and a comparison that scores two fingerprints per
+ * dimension and explains which ones matched. Unlike calculateSimilarityScore
+ * in version-diff, it compares different sites, so it looks at values rather
+ * than token paths
+ */
+
+import { deltaE2000, type LabColor } from './color-utils'
+import { collectTokenColors } from './color-search'
+import type { W3CDesignToken, W3CTokenSet } from './w3c-tokenizer'
+
+export const FINGERPRINT_VERSION = 1
+
+export type FingerprintDimension = 'palette' | 'typeScale' | 'spacing' | 'radii' | 'archetypes'
+
+export interface DesignFingerprint {
+  version: number
+  palette: Array<{ hex: string; lab: LabColor; weight: number }> // Most used colors; weights sum to 1
+  typeScale: { ratio: number | null; base: number | null } // Median step between font sizes; most used size in px
+  spacing: { base: number | null; values: number[] } // px
+  radii: number[] // px, ascending
+  archetypes: string[]
+}
+
+export interface DimensionMatch {
+  dimension: FingerprintDimension
+  score: number // 0-1
+  weight: number // Share of the overall score, after dropping dimensions without data
+  matched: boolean
+  explanation: string
+}
+
+export interface FingerprintComparison {
+  score: number // 0-100
+  matched: FingerprintDimension[]
+  dimensions: DimensionMatch[]
+}
+
+// Layout columns used for archetypes; both the layout_profiles.archetypes column and profileJson carry them
+export interface FingerprintLayout {
+  archetypes?: unknown
+  profileJson?: unknown
+}
+
+export const FINGERPRINT_WEIGHTS: Record<FingerprintDimension, number> = {
+  palette: 0.35,
+  typeScale: 0.2,
+  spacing: 0.15,
+  radii: 0.15,
+  archetypes: 0.15
+}
+
+// A dimension counts as matched at or above this score
+const MATCH_THRESHOLD = 0.6
+const PALETTE_SIZE = 8
+// ΔE2000 at which two palette colors stop counting as similar at all
+const PALETTE_FALLOFF = 25
+const CLOSE_COLOR_DISTANCE = 5
+const SPACING_BASES = [8, 6, 5, 4, 3, 2]
+const PILL_RADIUS = 999
+
+/**
+ * Build the fingerprint of a token set and (optionally) its layout profile
+ */
+export function buildDesignFingerprint(tokenSet: W3CTokenSet, layout?: FingerprintLayout | null): DesignFingerprint {
+  const colors = collectTokenColors(tokenSet)
+    .sort((first, second) => second.usage - first.usage)
+    .filter((color, index, all) => all.findIndex(other => other.hex === color.hex) === index)
+    .slice(0, PALETTE_SIZE)
+  const totalUsage = colors.reduce((sum, color) => sum + color.usage, 0)
+
+  const dimensions = collectDimensions(tokenSet)
+  const fontSizes = dimensions.filter(dimension => dimension.kind === 'fontSize')
+  const spacingValues = unique(dimensions.filter(dimension => dimension.kind === 'spacing').map(dimension => dimension.px))
+  const profile = isRecord(layout?.profileJson) ? layout.profileJson : {}
+  const layoutBase = typeof profile.spacingBase === 'number' && profile.spacingBase > 0 ? profile.spacingBase : null
+
+  return {
+    version: FINGERPRINT_VERSION,
+    palette: colors.map(color => ({
+      hex: color.hex,
+      lab: { l: round(color.lab.l), a: round(color.lab.a), b: round(color.lab.b) },
+      weight: round(color.usage / totalUsage)
+    })),
+    typeScale: {
+      ratio: typeScaleRatio(unique(fontSizes.map(size => size.px))),
+      base: fontSizes.length ? [...fontSizes].sort((first, second) => second.usage - first.usage)[0].px : null
+    },
+    spacing: {
+      base: layoutBase ?? spacingBase(spacingValues),
+      values: spacingValues
+    },
+    radii: unique(dimensions.filter(dimension => dimension.kind === 'radius').map(dimension => Math.min(dimension.px, PILL_RADIUS))),
+    archetypes: collectArchetypes(layout?.archetypes ?? profile.archetypes)
+  }
+}
+
+/**
+ * Score two fingerprints per dimension. Dimensions without data on either side
+ * are left out and the remaining weights are scaled up
+ */
+export function compareFingerprints(first: DesignFingerprint, second: DesignFingerprint): FingerprintComparison {
+  const scored = [
+    comparePalettes(first, second),
+    compareTypeScales(first, second),
+    compareSpacing(first, second),
+    compareRadii(first, second),
+    compareArchetypes(first, second)
+  ].filter((match): match is Omit<DimensionMatch, 'weight'> => match !== null)
+
+  const totalWeight = scored.reduce((sum, match) => sum + FINGERPRINT_WEIGHTS[match.dimension], 0)
+  const dimensions = scored.map(match => ({
+    ...match,
+    score: round(match.score),
+    weight: round(FINGERPRINT_WEIGHTS[match.dimension] / totalWeight)
+  }))
+
+  return {
+    score: totalWeight
+      ? Math.round(scored.reduce((sum, match) => sum + match.score * FINGERPRINT_WEIGHTS[match.dimension], 0) / totalWeight * 100)
+      : 0,
+    matched: dimensions.filter(match => match.matched).map(match => match.dimension),
+    dimensions
+  }
+}
+
+/**
+ * Numeric summary used to shortlist neighbours before the full comparison:
+ * usage-weighted palette centroid (CIELAB), type scale ratio, spacing base and
+ * median radius
+ */
+export function fingerprintVector(fingerprint: DesignFingerprint) {
+  const centroid = fingerprint.palette.reduce(
+    (sum, color) => ({
+      l: sum.l + color.lab.l * color.weight,
+      a: sum.a + color.lab.a * color.weight,
+      b: sum.b + color.lab.b * color.weight
+    }),
+    { l: 0, a: 0, b: 0 }
+  )
+  const radii = fingerprint.radii.filter(radius => radius < PILL_RADIUS)
+
+  return {
+    paletteL: fingerprint.palette.length ? round(centroid.l) : null,
+    paletteA: fingerprint.palette.length ? round(centroid.a) : null,
+    paletteB: fingerprint.palette.length ? round(centroid.b) : null,
+    typeScaleRatio: fingerprint.typeScale.ratio,
+    spacingBase: fingerprint.spacing.base,
+    radiusBase: radii.length ? radii[Math.floor(radii.length / 2)] : null
+  }
+}
+
+function comparePalettes(first: DesignFingerprint, second: DesignFingerprint): Omit<DimensionMatch, 'weight'> | null {
+  if (!first.palette.length || !second.palette.length) return null
+
+  const closePairs: string[] = []
+  // Weighted nearest-color similarity, averaged over both directions
+  const directed = (from: DesignFingerprint['palette'], to: DesignFingerprint['palette'], record: boolean) =>
+    from.reduce((sum, color) => {
+      const nearest = to
+        .map(other => ({ other, distance: deltaE2000(color.lab, other.lab) }))
+        .sort((a, b) => a.distance - b.distance)[0]
+      if (record && nearest.distance <= CLOSE_COLOR_DISTANCE) {
+        closePairs.push(nearest.other.hex === color.hex ? color.hex : `${color.hex} ≈ ${nearest.other.hex}`)
+      }
+      return sum + color.weight * Math.max(0, 1 - nearest.distance / PALETTE_FALLOFF)
+    }, 0)
+
+  const score = (directed(first.palette, second.palette, true) + directed(second.palette, first.palette, false)) / 2
+
+  return {
+    dimension: 'palette',
+    score,
+    matched: score >= MATCH_THRESHOLD,
+    explanation: closePairs.length
+      ? `${closePairs.length} of ${first.palette.length} main colors within ΔE ${CLOSE_COLOR_DISTANCE}: ${closePairs.slice(0, 4).join(', ')}`
+      : 'No main colors in common'
+  }
+}
+
+function compareTypeScales(first: DesignFingerprint, second: DesignFingerprint): Omit<DimensionMatch, 'weight'> | null {
+  const parts: Array<{ score: number; text: string }> = []
+
+  const [ratioA, ratioB] = [first.typeScale.ratio, second.typeScale.ratio]
+  if (ratioA !== null && ratioB !== null) {
+    parts.push({
+      score: Math.max(0, 1 - Math.abs(ratioA - ratioB) / 0.15),
+      text: ratioA === ratioB ? `same type scale ratio (${ratioA})` : `type scale ratio ${ratioA} vs ${ratioB}`
+    })
+  }
+
+  const [baseA, baseB] = [first.typeScale.base, second.typeScale.base]
+  if (baseA !== null && baseB !== null) {
+    parts.push({
+      score: Math.max(0, 1 - Math.abs(baseA - baseB) / 4),
+      text: baseA === baseB ? `same body size (${baseA}px)` : `body size ${baseA}px vs ${baseB}px`
+    })
+  }
+
+  if (!parts.length) return null
+  const score = parts.reduce((sum, part) => sum + part.score, 0) / parts.length
+  return { dimension: 'typeScale', score, matched: score >= MATCH_THRESHOLD, explanation: capitalize(parts.map(part => part.text).join(', ')) }
+}
+
+function compareSpacing(first: DesignFingerprint, second: DesignFingerprint): Omit<DimensionMatch, 'weight'> | null {
+  const [baseA, baseB] = [first.spacing.base, second.spacing.base]
+  if (baseA === null || baseB === null) return null
+
+  const baseScore = baseA === baseB ? 1 : Math.max(baseA, baseB) % Math.min(baseA, baseB) === 0 ? 0.5 : 0
+  const overlap = jaccard(first.spacing.values, second.spacing.values, 0)
+  const score = first.spacing.values.length && second.spacing.values.length ? baseScore * 0.6 + overlap * 0.4 : baseScore
+
+  return {
+    dimension: 'spacing',
+    score,
+    matched: score >= MATCH_THRESHOLD,
+    explanation: `${baseA === baseB ? `Same ${baseA}px spacing base` : `Spacing base ${baseA}px vs ${baseB}px`}, ${Math.round(overlap * 100)}% of spacing values shared`
+  }
+}
+
+function compareRadii(first: DesignFingerprint, second: DesignFingerprint): Omit<DimensionMatch, 'weight'> | null {
+  if (!first.radii.length || !second.radii.length) return null
+
+  const score = jaccard(first.radii, second.radii, 1)
+  const shared = first.radii.filter(radius => second.radii.some(other => Math.abs(other - radius) <= 1))
+  return {
+    dimension: 'radii',
+    score,
+    matched: score >= MATCH_THRESHOLD,
+    explanation: shared.length
+      ? `Shared radii: ${shared.map(radius => radius >= PILL_RADIUS ? 'pill' : `${radius}px`).join(', ')}`
+      : 'No radii in common'
+  }
+}
+
+function compareArchetypes(first: DesignFingerprint, second: DesignFingerprint): Omit<DimensionMatch, 'weight'> | null {
+  if (!first.archetypes.length || !second.archetypes.length) return null
+
+  const shared = first.archetypes.filter(archetype => second.archetypes.includes(archetype))
+  const score = shared.length / new Set([...first.archetypes, ...second.archetypes]).size
+  return {
+    dimension: 'archetypes',
+    score,
+    matched: score >= MATCH_THRESHOLD,
+    explanation: shared.length ? `Both have ${shared.join(', ')} layouts` : 'No page archetypes in common'
+  }
+}
+
+type DimensionKind = 'fontSize' | 'spacing' | 'radius'
+
+function collectDimensions(tokenSet: W3CTokenSet): Array<{ kind: DimensionKind; px: number; usage: number }> {
+  const found: Array<{ kind: DimensionKind; px: number; usage: number }> = []
+
+  const visit = (node: Record<string, unknown>, category: string) => {
+    Object.entries(node).forEach(([key, value]) => {
+      if (key.startsWith('$') || !isRecord(value)) return
+      if (!('$value' in value)) {
+        visit(value, category)
+        return
+      }
+
+      const token = value as unknown as W3CDesignToken
+      if (token.$type !== 'dimension') return
+      const px = toPx(token.$value)
+      const kind = dimensionKind(category, token.$extensions?.['contextds.sources'] ?? [])
+      if (px === null || px <= 0 || !kind) return
+
+      found.push({ kind, px, usage: Number(token.$extensions?.['contextds.usage']) || 1 })
+    })
+  }
+
+  Object.entries(tokenSet).forEach(([category, group]) => {
+    if (!category.startsWith('$') && isRecord(group)) visit(group, category)
+  })
+
+  return found
+}
+
+function dimensionKind(category: string, sources: string[]): DimensionKind | null {
+  if (category === 'typography' || sources.includes('font-size')) return 'fontSize'
+  if (category === 'radius' || sources.some(source => source.includes('radius'))) return 'radius'
+  if (category === 'spacing' || sources.some(source => /^(margin|padding|gap|row-gap|column-gap)/.test(source))) return 'spacing'
+  return null
+}
+
+function toPx(value: unknown): number | null {
+  if (isRecord(value) && typeof value.value === 'number') {
+    if (value.unit === 'px') return round(value.value, 2)
+    if (value.unit === 'rem' || value.unit === 'em') return round(value.value * 16, 2)
+    return null
+  }
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|em)$/)
+    if (!match) return null
+    return round(parseFloat(match[1]) * (match[2] === 'px' ? 1 : 16), 2)
+  }
+  return null
+}
+
+/**
+ * Median ratio between consecutive font sizes, ignoring near-duplicates and jumps
+ * that skip steps of the scale
+ */
+function typeScaleRatio(sizes: number[]): number | null {
+  const steps = sizes
+    .slice(1)
+    .map((size, index) => size / sizes[index])
+    .filter(step => step >= 1.05 && step <= 2)
+    .sort((a, b) => a - b)
+
+  if (steps.length < 2) return null
+  return round(steps[Math.floor(steps.length / 2)], 2)
+}
+
+/**
+ * Largest common grid (8, 6, 5, 4, 3 or 2px) that most spacing values sit on
+ */
+function spacingBase(values: number[]): number | null {
+  const whole = values.filter(value => value >= 1)
+  if (!whole.length) return null
+
+  const base = SPACING_BASES.find(candidate =>
+    whole.filter(value => value % candidate === 0).length / whole.length >= 0.7
+  )
+  return base ?? whole[0]
+}
+
+function collectArchetypes(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return unique(
+    value
+      .map(archetype => (isRecord(archetype) ? archetype.type : archetype))
+      .filter((type): type is string => typeof type === 'string' && type !== 'unknown')
+  )
+}
+
+/**
+ * Share of values present in both lists, counting values within `tolerance` as equal
+ */
+function jaccard(first: number[], second: number[], tolerance: number): number {
+  if (!first.length && !second.length) return 0
+  const shared = first.filter(value => second.some(other => Math.abs(other - value) <= tolerance)).length
+  return shared / (first.length + second.length - shared)
+}
+
+function unique<T extends number | string>(values: T[]): T[] {
+  return Array.from(new Set(values)).sort((a, b) =>
+    typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))
+  )
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function round(value: number, decimals = 3): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
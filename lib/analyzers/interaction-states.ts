@@ -0,0 +1,316 @@
+/**
+ * Interaction states
+ * The browser pass hovers, focuses and presses the buttons, links, inputs and
+ * tabs the component detector found, and reads a disabled sibling where the
+ * page has one. Computed styles per state are diffed against the resting
+ * style; what changed becomes state tokens (button-primary-background-hover,
+ * button-primary-focus-ring-color, button-primary-opacity-disabled) with the
+ * element screenshots as evidence
+ */
+
+import type { ComponentLibrary, ComponentType, ExtractedComponent } from './advanced-component-detector'
+import type { W3CDesignToken, W3CTokenSet } from './w3c-tokenizer'
+import { toW3CColor } from './color-utils'
+import { parseShadow } from './dimension-utils'
+
+export type InteractionState = 'hover' | 'focus' | 'active' | 'disabled'
+
+export const INTERACTION_STATES: InteractionState[] = ['hover', 'focus', 'active', 'disabled']
+
+// The component detector has no link type; links come from the computed style entries
+export type StateTargetType = ComponentType | 'link'
+
+export interface StateTarget {
+  selector: string // Query selector for the first instance of the component
+  type: StateTargetType
+  variant: string
+}
+
+export interface StateCapture {
+  target: StateTarget
+  base: Record<string, string> // Resting computed style
+  states: Partial<Record<InteractionState, Record<string, string>>>
+  screenshots?: Partial<Record<'base' | InteractionState, Buffer>> // Element clips, until uploaded
+  evidence?: Partial<Record<'base' | InteractionState, string>> // Uploaded screenshot URLs
+}
+
+// Component types worth driving, in the order targets are picked
+const INTERACTIVE_TYPES: StateTargetType[] = ['button', 'link', 'input', 'tabs']
+
+// Computed properties read in every state, and the token property each becomes
+export const STATE_PROPERTIES: Record<string, string> = {
+  'background-color': 'background',
+  'color': 'text',
+  'border-color': 'border',
+  'box-shadow': 'shadow',
+  'opacity': 'opacity',
+  'outline-style': 'outline-style',
+  'outline-color': 'outline-color',
+  'outline-width': 'outline-width',
+  'outline-offset': 'outline-offset'
+}
+
+const VARIANT_PATTERN = /(?:^|[-_.])(primary|secondary|tertiary|destructive|danger|success|warning|outline|ghost|subtle)(?=$|[-_.])/i
+const MAX_TARGETS = 12
+const MEASURED_CONFIDENCE = 95
+
+/**
+ * The detected interactive components to drive, one per type and variant,
+ * most confident first. Links are taken from the computed style entries
+ */
+export function selectStateTargets(
+  library: ComponentLibrary,
+  entries: Array<{ selector: string; element: string }> = [],
+  max = MAX_TARGETS
+): StateTarget[] {
+  const seen = new Set<string>()
+  const targets: StateTarget[] = []
+
+  const candidates: Array<{ type: StateTargetType; selectors: string[]; confidence: number; variant?: string }> = [
+    ...library.components.filter(component => INTERACTIVE_TYPES.includes(component.type)),
+    ...entries.filter(entry => entry.element === 'link').map(entry => ({ type: 'link' as const, selectors: [entry.selector], confidence: 0 }))
+  ]
+
+  candidates
+    .sort((first, second) =>
+      INTERACTIVE_TYPES.indexOf(first.type) - INTERACTIVE_TYPES.indexOf(second.type) ||
+      second.confidence - first.confidence)
+    .forEach(candidate => {
+      const selector = candidate.selectors.map(toQuerySelector).find(Boolean)
+      if (!selector || targets.length >= max) return
+
+      const variant = selector.match(VARIANT_PATTERN)?.[1].toLowerCase() ?? candidate.variant ?? 'default'
+      const key = `${candidate.type}-${variant}`
+      if (seen.has(key)) return
+
+      seen.add(key)
+      targets.push({ selector, type: candidate.type, variant })
+    })
+
+  return targets
+}
+
+/**
+ * Properties whose computed value differs from the resting style
+ */
+export function diffStateStyles(base: Record<string, string>, state: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(state).filter(([property, value]) => value !== undefined && value !== base[property]))
+}
+
+/**
+ * The focus indicator: a visible outline, or else a box-shadow ring
+ * (`0 0 0 2px color`, Tailwind's ring and ring-offset utilities) that only
+ * appears on focus
+ */
+export function detectFocusRing(
+  base: Record<string, string>,
+  focused: Record<string, string>
+): { width: string; color: string; offset: string | null; source: 'outline' | 'box-shadow' } | null {
+  const outlineWidth = parseFloat(focused['outline-width'] ?? '')
+  if (focused['outline-style'] && focused['outline-style'] !== 'none' && outlineWidth > 0) {
+    return {
+      width: focused['outline-width'],
+      color: focused['outline-color'],
+      offset: focused['outline-offset'] && focused['outline-offset'] !== '0px' ? focused['outline-offset'] : null,
+      source: 'outline'
+    }
+  }
+
+  const shadow = focused['box-shadow']
+  if (!shadow || shadow === 'none' || shadow === base['box-shadow']) return null
+
+  // Computed shadows list the color first. Tailwind stacks a ring-offset
+  // layer under the ring layer, whose spread is offset plus ring width
+  const rings = shadowLayers(shadow)
+    .map(layer => ({ color: layer.color, shadow: parseShadow(layer.css) }))
+    .filter(layer => layer.shadow && layer.shadow.spread.value > 0 && layer.shadow.blur.value === 0 && !isTransparent(layer.color))
+    .sort((first, second) => second.shadow!.spread.value - first.shadow!.spread.value)
+  if (rings.length === 0) return null
+
+  const [ring, offset] = rings
+  const unit = ring.shadow!.spread.unit
+  const offsetWidth = offset ? offset.shadow!.spread.value : 0
+  return {
+    width: `${ring.shadow!.spread.value - offsetWidth}${unit}`,
+    color: ring.color,
+    offset: offset ? `${offsetWidth}${unit}` : null,
+    source: 'box-shadow'
+  }
+}
+
+/**
+ * State tokens for the captured components, keyed `<type>-<variant>-<property>-<state>`
+ */
+export function buildStateTokens(captures: StateCapture[]): Record<string, W3CDesignToken> {
+  const tokens: Record<string, W3CDesignToken> = {}
+
+  captures.forEach(capture => {
+    const { target, base } = capture
+    const prefix = `${target.type}-${target.variant}`
+
+    INTERACTION_STATES.forEach(state => {
+      const styles = capture.states[state]
+      if (!styles) return
+
+      const changed = diffStateStyles(base, styles)
+      const ring = state === 'focus' ? detectFocusRing(base, styles) : null
+
+      if (ring) {
+        const source = ring.source === 'outline' ? ['outline-width', 'outline-color', 'outline-offset'] : ['box-shadow', 'box-shadow', 'box-shadow']
+        addToken(tokens, `${prefix}-focus-ring-width`, 'dimension', ring.width, source[0], capture, state)
+        addToken(tokens, `${prefix}-focus-ring-color`, 'color', ring.color, source[1], capture, state)
+        if (ring.offset) addToken(tokens, `${prefix}-focus-ring-offset`, 'dimension', ring.offset, source[2], capture, state)
+      }
+
+      Object.entries(changed).forEach(([property, value]) => {
+        const name = STATE_PROPERTIES[property]
+        if (!name || name.startsWith('outline')) return
+        if (property === 'box-shadow' && ring?.source === 'box-shadow') return
+
+        const type = property === 'opacity' ? 'number' : property === 'box-shadow' ? 'shadow' : 'color'
+        addToken(tokens, `${prefix}-${name}-${state}`, type, value, property, capture, state)
+      })
+    })
+  })
+
+  return tokens
+}
+
+/**
+ * Add the measured state tokens to the token set as its `state` group, and
+ * return how many were added
+ */
+export function annotateStateTokens(tokenSet: W3CTokenSet, captures: StateCapture[]): number {
+  const tokens = buildStateTokens(captures)
+  const count = Object.keys(tokens).length
+  if (count > 0) tokenSet.state = tokens
+  return count
+}
+
+/**
+ * Replace the detector's style-text guesses with the measured state styles on
+ * the components that were driven
+ */
+export function applyCapturedStates(library: ComponentLibrary, captures: StateCapture[]): void {
+  captures.forEach(capture => {
+    library.components
+      .filter(component => component.type === capture.target.type &&
+        component.selectors.some(selector => toQuerySelector(selector) === capture.target.selector))
+      .forEach(component => {
+        INTERACTION_STATES.forEach(state => {
+          const styles = capture.states[state]
+          if (!styles) return
+          const changed = diffStateStyles(capture.base, styles)
+          if (Object.keys(changed).length > 0) component.states[state] = toComponentTokens(changed)
+        })
+      })
+  })
+}
+
+/**
+ * A selector querySelector accepts: the tag plus the class names that need no
+ * escaping (utility classes like `hover:bg-blue-600` or `w-1/2` are dropped)
+ */
+export function toQuerySelector(selector: string): string | null {
+  const [tag, ...classes] = selector.trim().split('.')
+  if (tag && !/^[a-z][a-z0-9-]*$/i.test(tag)) return null
+
+  const safe = classes.filter(name => /^-?[_a-z][\w-]*$/i.test(name))
+  const query = `${tag}${safe.map(name => `.${name}`).join('')}`
+  return query || null
+}
+
+function addToken(
+  tokens: Record<string, W3CDesignToken>,
+  name: string,
+  type: 'color' | 'dimension' | 'number' | 'shadow',
+  css: string,
+  property: string,
+  capture: StateCapture,
+  state: InteractionState
+) {
+  const value = tokenValue(type, css)
+  if (value === null) return
+
+  const evidence = capture.evidence?.[state]
+  tokens[name] = {
+    $type: type,
+    $value: value,
+    $description: `${capitalize(capture.target.type)} ${capture.target.variant} ${state} state, measured in the browser`,
+    $extensions: {
+      'contextds.usage': 1,
+      'contextds.confidence': MEASURED_CONFIDENCE,
+      'contextds.sources': [property],
+      'contextds.selectors': [capture.target.selector],
+      'contextds.original': css,
+      'contextds.state': {
+        component: capture.target.type,
+        variant: capture.target.variant,
+        state,
+        base: capture.base[property] ?? null
+      },
+      ...(evidence ? { 'contextds.evidence': evidence } : {})
+    }
+  }
+}
+
+function tokenValue(type: 'color' | 'dimension' | 'number' | 'shadow', css: string): unknown {
+  if (type === 'color') return toW3CColor(css)
+  if (type === 'shadow') {
+    const layers = shadowLayers(css)
+      .filter(layer => !isTransparent(layer.color))
+      .map(layer => parseShadow(layer.css))
+      .filter(Boolean)
+    return layers.length === 0 ? null : layers.length === 1 ? layers[0] : layers
+  }
+  if (type === 'number') {
+    const number = parseFloat(css)
+    return Number.isFinite(number) ? number : null
+  }
+
+  const match = css.match(/^(-?[\d.]+)px$/)
+  return match ? { value: parseFloat(match[1]), unit: 'px' } : null
+}
+
+/**
+ * Layers of a computed box-shadow, each rewritten color-last for parseShadow:
+ * `rgb(59, 130, 246) 0px 0px 0px 2px` becomes `0px 0px 0px 2px rgb(59, 130, 246)`
+ */
+function shadowLayers(css: string): Array<{ css: string; color: string }> {
+  if (!css || css === 'none') return []
+
+  const layers: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of css) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      layers.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+  if (current.trim()) layers.push(current.trim())
+
+  return layers.map(layer => {
+    const color = layer.match(/(?:rgba?|hsla?|oklch|oklab|lab|lch|color)\([^)]*\)|#[\da-f]{3,8}\b/i)?.[0] ?? ''
+    const rest = layer.replace(color, '').replace(/\s+/g, ' ').trim()
+    return { css: color ? `${rest} ${color}` : rest, color }
+  })
+}
+
+function isTransparent(color: string): boolean {
+  return !color || color === 'transparent' || /rgba\([^)]*,\s*0\)$/.test(color)
+}
+
+function toComponentTokens(styles: Record<string, string>): Partial<ExtractedComponent['tokens']> {
+  return Object.fromEntries(
+    Object.entries(styles).map(([property, value]) => [property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase()), value])
+  )
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
@@ -1,4 +1,5 @@
 import { chromium, type Browser } from 'playwright'
+import type { ScanFetcher } from '@/lib/extractors/scan-archive'
 
 export type WireframeSection = {
   tag: string
@@ -27,7 +28,7 @@ export type WireframeSection = {
   }
 }
 
-export async function collectLayoutWireframe(url: string, timeoutMs = 15000): Promise<WireframeSection[]> {
+export async function collectLayoutWireframe(url: string, timeoutMs = 15000, fetcher?: ScanFetcher): Promise<WireframeSection[]> {
   const browser = await launchBrowser()
   const page = await browser.newPage({
     userAgent:
@@ -35,6 +36,10 @@ export async function collectLayoutWireframe(url: string, timeoutMs = 15000): Pr
   })
 
   try {
+    if (fetcher) {
+      await page.route('**/*', route => fetcher.handleRoute(route))
+    }
+
     await page.goto(url, { waitUntil: 'networkidle', timeout: timeoutMs })
 
     const sections = await page.evaluate(() => {
@@ -80,6 +85,28 @@ export async function collectLayoutWireframe(url: string, timeoutMs = 15000): Pr
         return 'content'
       }
 
+      // Web components render their open shadow root in place of their light DOM
+      // children, which show up again wherever a <slot> takes them
+      const renderedChildren = (el: Element): Element[] => {
+        const children = el.shadowRoot ? Array.from(el.shadowRoot.children) : Array.from(el.children)
+        return children.flatMap((child) => {
+          if (child instanceof HTMLSlotElement) {
+            const assigned = child.assignedElements({ flatten: true })
+            return assigned.length > 0 ? assigned : Array.from(child.children) // Fallback content
+          }
+          return child.tagName === 'STYLE' || child.tagName === 'SCRIPT' || child.tagName === 'LINK' ? [] : [child]
+        })
+      }
+
+      const querySelectorAllDeep = (root: Document | ShadowRoot, selector: string, depth = 0): Element[] => {
+        const matches = Array.from(root.querySelectorAll(selector))
+        if (depth >= 10) return matches
+        root.querySelectorAll('*').forEach((el) => {
+          if (el.shadowRoot) matches.push(...querySelectorAllDeep(el.shadowRoot, selector, depth + 1))
+        })
+        return matches
+      }
+
       const captureSection = (el: Element) => {
         const style = window.getComputedStyle(el)
         const display = style.display || 'block'
@@ -87,7 +114,7 @@ export async function collectLayoutWireframe(url: string, timeoutMs = 15000): Pr
         const gridTemplateColumns = style.gridTemplateColumns
         const gridTemplateRows = style.gridTemplateRows
 
-        const childElements = Array.from(el.children).filter((child) => {
+        const childElements = renderedChildren(el).filter((child) => {
           return isVisible(child as Element)
         })
 
@@ -163,11 +190,11 @@ export async function collectLayoutWireframe(url: string, timeoutMs = 15000): Pr
         }
       }
 
-      const topLevel = Array.from(document.body.children).filter((el) => {
+      const topLevel = renderedChildren(document.body).filter((el) => {
         return isVisible(el) && el.tagName !== 'SCRIPT' && el.tagName !== 'STYLE'
       })
 
-      const targeted = Array.from(document.querySelectorAll('form, table, footer, nav, header')).filter(
+      const targeted = querySelectorAllDeep(document, 'form, table, footer, nav, header').filter(
         (el) => isVisible(el)
       )
 
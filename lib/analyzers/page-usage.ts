@@ -0,0 +1,78 @@
+/**
+ * Per-page token usage for multi-page crawls
+ * Tokens are merged across all crawled pages; this records, for every merged
+ * token, how often each page used it in $extensions['contextds.pages']
+ */
+
+import type { CssSource } from '@/lib/extractors/static-css'
+import { extractW3CTokens, type W3CDesignToken, type W3CTokenSet } from './w3c-tokenizer'
+
+export type PageSources = {
+  url: string
+  sources: CssSource[]
+}
+
+export type PageUsageSummary = {
+  pages: number
+  tokensAnnotated: number
+  sharedTokens: number
+}
+
+export function annotatePageUsage(
+  tokenSet: W3CTokenSet,
+  pages: PageSources[],
+  metadata: { domain: string }
+): PageUsageSummary {
+  // Usage per token value, per page
+  const usageByValue = new Map<string, Record<string, number>>()
+
+  pages.forEach(page => {
+    if (page.sources.length === 0) return
+
+    try {
+      const extraction = extractW3CTokens(page.sources, { domain: metadata.domain, url: page.url })
+      forEachToken(extraction.tokenSet, token => {
+        const key = tokenValueKey(token)
+        const perPage = usageByValue.get(key) || {}
+        perPage[page.url] = (perPage[page.url] || 0) + (token.$extensions?.['contextds.usage'] || 0)
+        usageByValue.set(key, perPage)
+      })
+    } catch (error) {
+      console.warn(`[page-usage] Failed to extract tokens for ${page.url}:`, error instanceof Error ? error.message : error)
+    }
+  })
+
+  let tokensAnnotated = 0
+  let sharedTokens = 0
+
+  forEachToken(tokenSet, token => {
+    const perPage = usageByValue.get(tokenValueKey(token))
+    if (!perPage || !token.$extensions) return
+
+    token.$extensions['contextds.pages'] = perPage
+    tokensAnnotated++
+    if (Object.keys(perPage).length > 1) sharedTokens++
+  })
+
+  return {
+    pages: pages.length,
+    tokensAnnotated,
+    sharedTokens
+  }
+}
+
+function forEachToken(tokenSet: W3CTokenSet, visit: (token: W3CDesignToken) => void): void {
+  Object.entries(tokenSet).forEach(([category, group]) => {
+    if (category.startsWith('$') || !group || typeof group !== 'object') return
+
+    Object.values(group as Record<string, unknown>).forEach(token => {
+      if (token && typeof token === 'object' && '$value' in token) {
+        visit(token as W3CDesignToken)
+      }
+    })
+  })
+}
+
+function tokenValueKey(token: W3CDesignToken): string {
+  return `${token.$type}|${JSON.stringify(token.$value)}`
+}
@@ -0,0 +1,300 @@
+/**
+ * Responsive tokens
+ * Breakpoints come from the site's own media queries, falling back to the
+ * tablet and desktop screenshot viewports. Computed styles are sampled at a
+ * mobile width and at each breakpoint; the font sizes, line heights and
+ * spacing that change are attached to the matching tokens under
+ * $extensions['contextds.breakpoints']. Fluid clamp()/vw sizes are parsed into
+ * min/preferred/max triples
+ */
+
+import type { W3CDesignToken, W3CTokenSet } from './w3c-tokenizer'
+
+export type ViewportName = 'mobile' | 'tablet' | 'desktop'
+
+// Viewports screenshots are captured at, also the fallback breakpoints
+export const VIEWPORT_SIZES: Record<ViewportName, { width: number; height: number }> = {
+  mobile: { width: 375, height: 667 },
+  tablet: { width: 768, height: 1024 },
+  desktop: { width: 1920, height: 1080 }
+}
+
+export interface Breakpoint {
+  name: string
+  minWidth: number // px
+  usage: number // Media queries using it; 0 for the viewport fallback
+}
+
+export interface FluidValue {
+  min: string | null
+  preferred: string
+  max: string | null
+}
+
+export type ResponsiveProperty = 'font-size' | 'line-height' | 'spacing'
+
+// Computed styles of the sampled elements at one viewport width, keyed by element
+export interface ResponsiveSample {
+  width: number
+  elements: Record<string, Record<string, string>>
+}
+
+export interface ResponsiveValues {
+  breakpoints: Breakpoint[]
+  // Property -> value at the base width -> breakpoint name -> value from that breakpoint up
+  values: Record<ResponsiveProperty, Record<string, Record<string, string>>>
+}
+
+// Computed properties sampled per element, and the token family each feeds
+export const RESPONSIVE_PROPERTIES: Record<string, ResponsiveProperty> = {
+  'font-size': 'font-size',
+  'line-height': 'line-height',
+  'padding-top': 'spacing',
+  'padding-right': 'spacing',
+  'padding-bottom': 'spacing',
+  'padding-left': 'spacing',
+  'margin-top': 'spacing',
+  'margin-bottom': 'spacing',
+  'row-gap': 'spacing',
+  'column-gap': 'spacing'
+}
+
+const SPACING_SOURCES = new Set([
+  'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'gap', 'row-gap', 'column-gap'
+])
+
+// Tailwind's default screens, used to name detected breakpoints
+const BREAKPOINT_NAMES: Array<[string, number]> = [
+  ['sm', 640],
+  ['md', 768],
+  ['lg', 1024],
+  ['xl', 1280],
+  ['2xl', 1536]
+]
+
+const MAX_BREAKPOINTS = 5
+const MIN_BREAKPOINT = 400
+const MAX_BREAKPOINT = 2560
+const BASE_FONT_SIZE = 16
+
+/**
+ * The viewport width a media query starts applying at: `(min-width: 48em)` and
+ * `(width >= 768px)` give 768, `(max-width: 767.98px)` gives the first width
+ * past it, 768
+ */
+export function parseMediaBreakpoint(mediaText: string): number | null {
+  const toPx = (value: string, unit: string) => parseFloat(value) * (unit === 'px' ? 1 : BASE_FONT_SIZE)
+
+  const min = mediaText.match(/min-width:\s*([\d.]+)(px|em|rem)/i) ?? mediaText.match(/width\s*>=\s*([\d.]+)(px|em|rem)/i)
+  if (min) return Math.round(toPx(min[1], min[2].toLowerCase()))
+
+  const max = mediaText.match(/max-width:\s*([\d.]+)(px|em|rem)/i) ?? mediaText.match(/width\s*<=?\s*([\d.]+)(px|em|rem)/i)
+  if (max) {
+    const px = toPx(max[1], max[2].toLowerCase())
+    return mediaText.includes('<') && !mediaText.includes('<=') ? Math.round(px) : Math.floor(px) + 1
+  }
+
+  return null
+}
+
+/**
+ * The most used viewport-width breakpoints among a site's media queries, named
+ * after the closest Tailwind screen. Sites without width media queries get the
+ * tablet and desktop screenshot viewports
+ */
+export function detectBreakpoints(mediaTexts: string[], max = MAX_BREAKPOINTS): Breakpoint[] {
+  const counts = new Map<number, number>()
+  mediaTexts.forEach(mediaText => {
+    if (/print/i.test(mediaText) && !/screen/i.test(mediaText)) return
+    const width = parseMediaBreakpoint(mediaText)
+    if (width !== null && width >= MIN_BREAKPOINT && width <= MAX_BREAKPOINT) {
+      counts.set(width, (counts.get(width) ?? 0) + 1)
+    }
+  })
+
+  if (counts.size === 0) {
+    return (['tablet', 'desktop'] as const).map(name => ({ name, minWidth: VIEWPORT_SIZES[name].width, usage: 0 }))
+  }
+
+  const widths = Array.from(counts.entries())
+    .sort((first, second) => second[1] - first[1] || first[0] - second[0])
+    .slice(0, max)
+    .sort((first, second) => first[0] - second[0])
+
+  const taken = new Set<string>()
+  return widths.map(([minWidth, usage]) => {
+    const closest = BREAKPOINT_NAMES
+      .filter(([name]) => !taken.has(name))
+      .sort((first, second) => Math.abs(first[1] - minWidth) - Math.abs(second[1] - minWidth))[0]
+    const name = closest && Math.abs(closest[1] - minWidth) <= 160 ? closest[0] : `bp-${minWidth}`
+    taken.add(name)
+    return { name, minWidth, usage }
+  })
+}
+
+/**
+ * Widths to sample computed styles at: a mobile base below the first breakpoint,
+ * then each breakpoint
+ */
+export function sampleWidths(breakpoints: Breakpoint[]): number[] {
+  const first = breakpoints[0]?.minWidth ?? Infinity
+  const base = Math.min(VIEWPORT_SIZES.mobile.width, first - 1)
+  return [base, ...breakpoints.map(breakpoint => breakpoint.minWidth)]
+}
+
+/**
+ * Compare the samples taken at each breakpoint with the base sample. A base
+ * value gets a breakpoint value when most elements that had it change to the
+ * same value there
+ */
+export function diffResponsiveSamples(breakpoints: Breakpoint[], samples: ResponsiveSample[]): ResponsiveValues {
+  const values: ResponsiveValues['values'] = { 'font-size': {}, 'line-height': {}, spacing: {} }
+  const [base, ...rest] = samples
+  if (!base) return { breakpoints, values }
+
+  // family -> base value -> elements seen with it
+  const totals = new Map<string, number>()
+  // family|base -> breakpoint -> value -> count
+  const changes = new Map<string, Map<string, Map<string, number>>>()
+
+  Object.entries(base.elements).forEach(([, styles]) => {
+    Object.entries(RESPONSIVE_PROPERTIES).forEach(([property, family]) => {
+      const value = normalizePx(styles[property])
+      if (value) totals.set(`${family}|${value}`, (totals.get(`${family}|${value}`) ?? 0) + 1)
+    })
+  })
+
+  rest.forEach((sample, index) => {
+    const breakpoint = breakpoints[index]
+    if (!breakpoint) return
+
+    Object.entries(sample.elements).forEach(([key, styles]) => {
+      const baseStyles = base.elements[key]
+      if (!baseStyles) return
+
+      Object.entries(RESPONSIVE_PROPERTIES).forEach(([property, family]) => {
+        const from = normalizePx(baseStyles[property])
+        const to = normalizePx(styles[property])
+        if (!from || !to || from === to) return
+
+        const group = `${family}|${from}`
+        if (!changes.has(group)) changes.set(group, new Map())
+        const byBreakpoint = changes.get(group)!
+        if (!byBreakpoint.has(breakpoint.name)) byBreakpoint.set(breakpoint.name, new Map())
+        const counts = byBreakpoint.get(breakpoint.name)!
+        counts.set(to, (counts.get(to) ?? 0) + 1)
+      })
+    })
+  })
+
+  changes.forEach((byBreakpoint, group) => {
+    const [family, from] = group.split('|') as [ResponsiveProperty, string]
+    const total = totals.get(group) ?? 0
+
+    byBreakpoint.forEach((counts, breakpoint) => {
+      const [to, count] = Array.from(counts.entries()).sort((first, second) => second[1] - first[1])[0]
+      if (count * 2 < total) return
+      values[family][from] = { ...values[family][from], [breakpoint]: to }
+    })
+  })
+
+  return { breakpoints, values }
+}
+
+/**
+ * Attach breakpoint values to the typography and spacing tokens whose base
+ * value changed across breakpoints, and list the breakpoints in $metadata.
+ * Returns how many tokens were annotated
+ */
+export function annotateResponsiveTokens(tokenSet: W3CTokenSet, responsive: ResponsiveValues): number {
+  if (responsive.breakpoints.length === 0) return 0
+  tokenSet.$metadata.breakpoints = responsive.breakpoints.map(({ name, minWidth }) => ({ name, minWidth }))
+
+  let annotated = 0
+  const annotate = (token: W3CDesignToken, family: ResponsiveProperty) => {
+    const value = dimensionPx(token.$value)
+    const breakpoints = value ? responsive.values[family][value] : undefined
+    if (!breakpoints || !token.$extensions) return
+    token.$extensions['contextds.breakpoints'] = breakpoints
+    annotated++
+  }
+
+  forEachToken(tokenSet.typography, token => {
+    const source = token.$extensions?.['contextds.sources']?.[0]
+    if (source === 'font-size' || source === 'line-height') annotate(token, source)
+  })
+  forEachToken(tokenSet.dimension, token => {
+    const source = token.$extensions?.['contextds.sources']?.[0]
+    if (source && SPACING_SOURCES.has(source)) annotate(token, 'spacing')
+  })
+
+  return annotated
+}
+
+/**
+ * A fluid size as a min/preferred/max triple: `clamp(1rem, 0.5rem + 2vw, 2rem)`
+ * keeps all three, a bare viewport-relative size (`4vw`, `calc(1rem + 1vw)`)
+ * only has a preferred value. Null for fixed sizes
+ */
+export function parseFluidValue(value: string): FluidValue | null {
+  const trimmed = value.trim()
+
+  const clamp = trimmed.match(/^clamp\((.*)\)$/i)
+  if (clamp) {
+    const parts = splitTopLevel(clamp[1])
+    if (parts.length !== 3) return null
+    return { min: parts[0], preferred: parts[1], max: parts[2] }
+  }
+
+  return /\d(vw|vi|vmin|vmax|cqi|cqw)\b/i.test(trimmed) ? { min: null, preferred: trimmed, max: null } : null
+}
+
+/**
+ * CSS for a fluid value: the clamp() it came from, or its preferred value
+ */
+export function fluidCss(fluid: FluidValue): string {
+  return fluid.min && fluid.max ? `clamp(${fluid.min}, ${fluid.preferred}, ${fluid.max})` : fluid.preferred
+}
+
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+
+  for (const char of value) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+function normalizePx(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(-?[\d.]+)px$/)
+  if (!match) return null
+  return `${Math.round(parseFloat(match[1]) * 100) / 100}px`
+}
+
+function dimensionPx(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || !('value' in value) || !('unit' in value)) return null
+  const { value: amount, unit } = value as { value: number; unit: string }
+  if (unit === 'px') return normalizePx(`${amount}px`)
+  if (unit === 'rem') return normalizePx(`${amount * BASE_FONT_SIZE}px`)
+  return null
+}
+
+function forEachToken(group: unknown, visit: (token: W3CDesignToken) => void) {
+  if (!group || typeof group !== 'object') return
+  Object.values(group).forEach(token => {
+    if (token && typeof token === 'object' && '$value' in token) visit(token as W3CDesignToken)
+  })
+}
@@ -0,0 +1,365 @@
+/**
+ * Screenshot Visual Diff
+ * Pixel-diffs two stored screenshots of the same page, groups changed pixels
+ * into regions and links each region to the token changes that explain it.
+ * Runs offline on image buffers, so it works on screenshots from any past scan
+ */
+
+import sharp from 'sharp'
+import pixelmatch from 'pixelmatch'
+import { parseColor, type RGBColor } from './color-utils'
+
+export interface DecodedImage {
+  data: Buffer // RGBA
+  width: number
+  height: number
+}
+
+export interface DiffRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+  changedPixels: number
+  kind: 'recolor' | 'shift' // Pixels took new colors, or the same colors moved
+  beforeColors: string[] // Dominant colors of the changed pixels, hex
+  afterColors: string[]
+  tokenChangeIds: string[]
+}
+
+export interface ScreenshotDiffResult {
+  width: number
+  height: number
+  changedPixels: number
+  changedPercent: number
+  regions: DiffRegion[]
+  diffImage: Buffer // PNG: changed pixels in red over a faded copy of the newer screenshot
+}
+
+export interface ScreenshotDiffOptions {
+  threshold?: number // pixelmatch color threshold (0-1)
+  cellSize?: number // Grid cell used to group changed pixels into regions
+  minCellPixels?: number // Cells with fewer changed pixels are treated as noise
+  minRegionPixels?: number // Regions with fewer changed pixels are dropped
+  maxHeight?: number // Full-page screenshots are cropped to this height
+}
+
+export interface LinkableTokenChange {
+  id: string
+  tokenPath: string
+  changeType: 'added' | 'removed' | 'modified'
+  category: string | null
+  oldValue: unknown
+  newValue: unknown
+}
+
+const DEFAULT_OPTIONS: Required<ScreenshotDiffOptions> = {
+  threshold: 0.1,
+  cellSize: 32,
+  minCellPixels: 4,
+  minRegionPixels: 64,
+  maxHeight: 16384
+}
+
+const DIFF_COLOR: [number, number, number] = [255, 0, 0]
+const DOMINANT_COLOR_SHARE = 0.05 // A color must cover 5% of a region's changed pixels
+const MAX_REGION_COLORS = 6
+const COLOR_MATCH_DISTANCE = 24 // RGB distance for a token color to match a pixel color
+const LAYOUT_CATEGORIES = new Set(['dimension', 'typography', 'shadow', 'spacing', 'radius'])
+
+/**
+ * Decode both screenshots and pad them onto a shared canvas so pages whose
+ * height changed can still be compared; padding is transparent and counts as changed
+ */
+export async function decodeScreenshotPair(
+  before: Buffer,
+  after: Buffer,
+  maxHeight = DEFAULT_OPTIONS.maxHeight
+): Promise<[DecodedImage, DecodedImage]> {
+  const [beforeMeta, afterMeta] = await Promise.all([sharp(before).metadata(), sharp(after).metadata()])
+  if (!beforeMeta.width || !beforeMeta.height || !afterMeta.width || !afterMeta.height) {
+    throw new Error('Unable to read screenshot dimensions')
+  }
+
+  const width = Math.max(beforeMeta.width, afterMeta.width)
+  const height = Math.min(maxHeight, Math.max(beforeMeta.height, afterMeta.height))
+
+  const decode = async (buffer: Buffer, imageWidth: number, imageHeight: number): Promise<DecodedImage> => {
+    const cropped = Math.min(imageHeight, height)
+    const { data } = await sharp(buffer)
+      .extract({ left: 0, top: 0, width: imageWidth, height: cropped })
+      .ensureAlpha()
+      .extend({
+        right: width - imageWidth,
+        bottom: height - cropped,
+        background: { r: 0, g: 0, b: 0, alpha: 0 }
+      })
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    return { data, width, height }
+  }
+
+  return Promise.all([
+    decode(before, beforeMeta.width, beforeMeta.height),
+    decode(after, afterMeta.width, afterMeta.height)
+  ])
+}
+
+/**
+ * Pixel-diff two screenshots and group the changes into regions
+ */
+export async function diffScreenshots(
+  before: Buffer,
+  after: Buffer,
+  options: ScreenshotDiffOptions = {}
+): Promise<ScreenshotDiffResult> {
+  const settings = { ...DEFAULT_OPTIONS, ...options }
+  const [beforeImage, afterImage] = await decodeScreenshotPair(before, after, settings.maxHeight)
+  const { width, height } = beforeImage
+
+  const output = Buffer.alloc(width * height * 4)
+  const changedPixels = pixelmatch(beforeImage.data, afterImage.data, output, width, height, {
+    threshold: settings.threshold,
+    diffColor: DIFF_COLOR
+  })
+
+  // Unchanged pixels are drawn as faded grayscale, so pure diff color marks a change
+  const mask = new Uint8Array(width * height)
+  for (let i = 0; i < mask.length; i++) {
+    const offset = i * 4
+    if (output[offset] === DIFF_COLOR[0] && output[offset + 1] === DIFF_COLOR[1] && output[offset + 2] === DIFF_COLOR[2]) {
+      mask[i] = 1
+    }
+  }
+
+  const regions = classifyRegions(
+    findChangedRegions(mask, width, height, settings)
+      .map(region => describeRegion(region, mask, beforeImage, afterImage))
+  )
+
+  const diffImage = await sharp(output, { raw: { width, height, channels: 4 } }).png().toBuffer()
+
+  return {
+    width,
+    height,
+    changedPixels,
+    changedPercent: Math.round((changedPixels / (width * height)) * 100000) / 1000,
+    regions,
+    diffImage
+  }
+}
+
+/**
+ * Group changed pixels into bounding boxes: count changes per grid cell, drop
+ * sparse cells as noise, then merge touching cells (8-connected) into regions
+ */
+export function findChangedRegions(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  options: ScreenshotDiffOptions = {}
+): Array<Pick<DiffRegion, 'x' | 'y' | 'width' | 'height' | 'changedPixels'>> {
+  const { cellSize, minCellPixels, minRegionPixels } = { ...DEFAULT_OPTIONS, ...options }
+  const columns = Math.ceil(width / cellSize)
+  const rows = Math.ceil(height / cellSize)
+  const cells = new Uint32Array(columns * rows)
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cellSize) * columns
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) cells[row + Math.floor(x / cellSize)]++
+    }
+  }
+
+  const visited = new Uint8Array(cells.length)
+  const regions: Array<Pick<DiffRegion, 'x' | 'y' | 'width' | 'height' | 'changedPixels'>> = []
+
+  for (let start = 0; start < cells.length; start++) {
+    if (visited[start] || cells[start] < minCellPixels) continue
+
+    let minColumn = columns
+    let minRow = rows
+    let maxColumn = 0
+    let maxRow = 0
+    let pixels = 0
+    const stack = [start]
+    visited[start] = 1
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!
+      const column = cell % columns
+      const row = Math.floor(cell / columns)
+      pixels += cells[cell]
+      minColumn = Math.min(minColumn, column)
+      maxColumn = Math.max(maxColumn, column)
+      minRow = Math.min(minRow, row)
+      maxRow = Math.max(maxRow, row)
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nextColumn = column + dx
+          const nextRow = row + dy
+          if (nextColumn < 0 || nextRow < 0 || nextColumn >= columns || nextRow >= rows) continue
+          const next = nextRow * columns + nextColumn
+          if (!visited[next] && cells[next] >= minCellPixels) {
+            visited[next] = 1
+            stack.push(next)
+          }
+        }
+      }
+    }
+
+    if (pixels < minRegionPixels) continue
+
+    const x = minColumn * cellSize
+    const y = minRow * cellSize
+    regions.push({
+      x,
+      y,
+      width: Math.min(width, (maxColumn + 1) * cellSize) - x,
+      height: Math.min(height, (maxRow + 1) * cellSize) - y,
+      changedPixels: pixels
+    })
+  }
+
+  return regions.sort((a, b) => b.changedPixels - a.changedPixels)
+}
+
+/**
+ * Link regions to the token changes of the same version. Color changes match
+ * when the old color appears among the region's changed pixels before and the
+ * new color after; dimension and typography changes can only explain regions
+ * where the same colors moved, so they are linked to shift regions
+ */
+export function linkRegionsToTokenChanges(regions: DiffRegion[], changes: LinkableTokenChange[]): DiffRegion[] {
+  const colorChanges = changes
+    .map(change => ({ change, before: tokenColor(change.oldValue), after: tokenColor(change.newValue) }))
+    .filter(entry => entry.before || entry.after)
+  const layoutChanges = changes.filter(change =>
+    !colorChanges.some(entry => entry.change.id === change.id) && isLayoutChange(change)
+  )
+
+  return regions.map(region => {
+    const beforeColors = region.beforeColors.map(hex => parseColor(hex)).filter((c): c is RGBColor => c !== null)
+    const afterColors = region.afterColors.map(hex => parseColor(hex)).filter((c): c is RGBColor => c !== null)
+
+    const linked = colorChanges
+      .filter(({ before, after }) => {
+        const removedMatch = before ? beforeColors.some(color => colorDistance(color, before) <= COLOR_MATCH_DISTANCE) : false
+        const addedMatch = after ? afterColors.some(color => colorDistance(color, after) <= COLOR_MATCH_DISTANCE) : false
+        return before && after ? removedMatch && addedMatch : removedMatch || addedMatch
+      })
+      .map(({ change }) => change.id)
+
+    if (region.kind === 'shift') {
+      linked.push(...layoutChanges.map(change => change.id))
+    }
+
+    return { ...region, tokenChangeIds: linked }
+  })
+}
+
+function describeRegion(
+  bounds: Pick<DiffRegion, 'x' | 'y' | 'width' | 'height' | 'changedPixels'>,
+  mask: Uint8Array,
+  before: DecodedImage,
+  after: DecodedImage
+): DiffRegion {
+  return {
+    ...bounds,
+    kind: 'recolor',
+    beforeColors: dominantColors(bounds, mask, before),
+    afterColors: dominantColors(bounds, mask, after),
+    tokenChangeIds: []
+  }
+}
+
+/**
+ * A moved element leaves its colors on both sides of the diff, usually split
+ * across regions (where it was, where it is now). Regions whose colors all
+ * reappear on the other side are shifts; anything else introduced or lost a color
+ */
+function classifyRegions(regions: DiffRegion[]): DiffRegion[] {
+  const toRgb = (colors: string[]) => colors.map(hex => parseColor(hex)).filter((c): c is RGBColor => c !== null)
+  const allBefore = toRgb(regions.flatMap(region => region.beforeColors))
+  const allAfter = toRgb(regions.flatMap(region => region.afterColors))
+  const presentIn = (pool: RGBColor[]) => (color: RGBColor) =>
+    pool.some(other => colorDistance(color, other) <= COLOR_MATCH_DISTANCE)
+
+  return regions.map(region => {
+    const shifted = toRgb(region.beforeColors).every(presentIn(allAfter)) &&
+      toRgb(region.afterColors).every(presentIn(allBefore))
+    return { ...region, kind: shifted ? 'shift' : 'recolor' }
+  })
+}
+
+/**
+ * Most common colors among a region's changed pixels, quantized to 4 bits per
+ * channel so antialiasing does not split one color into many
+ */
+function dominantColors(
+  bounds: Pick<DiffRegion, 'x' | 'y' | 'width' | 'height'>,
+  mask: Uint8Array,
+  image: DecodedImage
+): string[] {
+  const counts = new Map<number, { count: number; r: number; g: number; b: number }>()
+  let total = 0
+
+  for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+    for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+      const index = y * image.width + x
+      if (!mask[index]) continue
+
+      const offset = index * 4
+      if (image.data[offset + 3] < 128) continue // Padding or transparent
+
+      const r = image.data[offset]
+      const g = image.data[offset + 1]
+      const b = image.data[offset + 2]
+      const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4)
+      const bucket = counts.get(key)
+      if (bucket) {
+        bucket.count++
+      } else {
+        counts.set(key, { count: 1, r, g, b })
+      }
+      total++
+    }
+  }
+
+  return Array.from(counts.values())
+    .filter(bucket => bucket.count / Math.max(1, total) >= DOMINANT_COLOR_SHARE)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_REGION_COLORS)
+    .map(bucket => '#' + [bucket.r, bucket.g, bucket.b].map(c => c.toString(16).padStart(2, '0')).join(''))
+}
+
+/**
+ * RGB of a stored token value: W3C sRGB colors or CSS color strings
+ */
+function tokenColor(value: unknown): RGBColor | null {
+  if (typeof value === 'string') return parseColor(value)
+  if (!value || typeof value !== 'object') return null
+
+  const color = value as { colorSpace?: string; components?: number[]; hex?: string }
+  if (typeof color.hex === 'string') return parseColor(color.hex)
+  if (color.colorSpace === 'srgb' && Array.isArray(color.components) && color.components.length >= 3) {
+    return {
+      r: Math.round(color.components[0] * 255),
+      g: Math.round(color.components[1] * 255),
+      b: Math.round(color.components[2] * 255)
+    }
+  }
+
+  return null
+}
+
+function isLayoutChange(change: LinkableTokenChange): boolean {
+  const category = change.category ?? change.tokenPath.split('.')[0]
+  return LAYOUT_CATEGORIES.has(category)
+}
+
+function colorDistance(a: RGBColor, b: RGBColor): number {
+  return Math.sqrt((a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2)
+}
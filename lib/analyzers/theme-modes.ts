@@ -0,0 +1,157 @@
+/**
+ * Theme Mode Detection
+ * Finds declarations scoped to a color theme (prefers-color-scheme media queries,
+ * .dark / .light classes, [data-theme] style attributes) so the tokenizer can
+ * keep dark values out of the base palette and emit them as paired token modes
+ */
+
+import postcss, { Root } from 'postcss'
+
+export interface ThemeVariables {
+  baseMode: string // Name given to unscoped values
+  modes: string[] // Base mode first; empty when the CSS has no theme scopes
+  base: Map<string, string> // Custom properties declared outside any theme scope
+  variables: Map<string, string> // Base plus theme-only properties, for resolving var() references
+  scoped: Map<string, Map<string, string>> // Mode name -> custom properties declared in that scope
+}
+
+const MEDIA_SCHEME = /prefers-color-scheme\s*:\s*(dark|light)/i
+
+const THEME_SELECTORS: RegExp[] = [
+  /\[data-(?:theme|mode|color-scheme|color-mode|bs-theme)\s*=\s*["']?([\w-]+)["']?\s*\]/gi,
+  /\.(dark|light)(?:-mode|-theme)?(?![\w-])/gi,
+  /\.theme-([\w-]+)/gi
+]
+
+// shadcn/ui and Tailwind store channels only: `--background: 0 0% 100%` used as hsl(var(--background))
+const BARE_HSL = /^-?[\d.]+(?:deg)?\s+[\d.]+%\s+[\d.]+%(?:\s*\/\s*[\d.]+%?)?$/
+const BARE_RGB = /^\d{1,3}\s+\d{1,3}\s+\d{1,3}(?:\s*\/\s*[\d.]+%?)?$/
+
+/**
+ * Theme mode a node is scoped to, from its closest theme rule or media query
+ */
+export function detectThemeMode(node: postcss.Node): string | null {
+  let current: postcss.Node | undefined = node.parent as postcss.Node | undefined
+
+  while (current) {
+    if (current.type === 'rule') {
+      const mode = selectorThemeMode((current as postcss.Rule).selector)
+      if (mode) return mode
+    } else if (current.type === 'atrule' && (current as postcss.AtRule).name === 'media') {
+      const match = (current as postcss.AtRule).params.match(MEDIA_SCHEME)
+      if (match) return match[1].toLowerCase()
+    }
+    current = current.parent as postcss.Node | undefined
+  }
+
+  return null
+}
+
+/**
+ * Selector with its theme scope removed, so `.dark .card` and `.card` compare equal
+ */
+export function stripThemeScope(selector: string): string {
+  let stripped = selector.replace(/:not\([^)]*\)/g, '')
+  THEME_SELECTORS.forEach(pattern => {
+    stripped = stripped.replace(pattern, '')
+  })
+
+  const normalized = stripped
+    .replace(/\s+/g, ' ')
+    .replace(/^\s*(?::root|html)(?=\s|$)/, '')
+    .replace(/^[\s>+~]+/, '')
+    .trim()
+
+  return normalized || ':root'
+}
+
+/**
+ * Collect custom properties per theme scope
+ */
+export function collectThemeVariables(root: Root): ThemeVariables {
+  const base = new Map<string, string>()
+  const themeOnly = new Map<string, string>()
+  const scoped = new Map<string, Map<string, string>>()
+
+  root.walkDecls(decl => {
+    if (!decl.prop.startsWith('--')) return
+
+    const value = decl.value.trim()
+    const mode = detectThemeMode(decl)
+
+    if (!mode) {
+      base.set(decl.prop, value)
+      return
+    }
+
+    if (!scoped.has(mode)) scoped.set(mode, new Map())
+    scoped.get(mode)!.set(decl.prop, value)
+    if (!themeOnly.has(decl.prop)) themeOnly.set(decl.prop, value)
+  })
+
+  const variables = new Map(themeOnly)
+  base.forEach((value, name) => variables.set(name, value))
+
+  const baseMode = getBaseModeName(Array.from(scoped.keys()))
+  const modes = scoped.size > 0
+    ? [baseMode, ...Array.from(scoped.keys()).filter(mode => mode !== baseMode)]
+    : []
+
+  return { baseMode, modes, base, variables, scoped }
+}
+
+/**
+ * Variables as seen inside a theme scope: base values with that scope's overrides
+ */
+export function getModeVariables(theme: ThemeVariables, mode: string): Map<string, string> {
+  if (mode === theme.baseMode) return theme.variables
+
+  const variables = new Map(theme.variables)
+  theme.scoped.get(mode)?.forEach((value, name) => variables.set(name, value))
+  return variables
+}
+
+/**
+ * Wrap bare color channels in the function they are meant for
+ */
+export function normalizeThemeColorValue(value: string): string {
+  const trimmed = value.trim()
+  if (BARE_HSL.test(trimmed)) return `hsl(${trimmed})`
+  if (BARE_RGB.test(trimmed)) return `rgb(${trimmed})`
+  return trimmed
+}
+
+function selectorThemeMode(selector: string): string | null {
+  // `:root, [data-theme=light]` also applies unscoped, so it counts as base
+  const parts = selector.split(',').map(part => part.replace(/:not\([^)]*\)/g, ''))
+  let mode: string | null = null
+
+  for (const part of parts) {
+    const partMode = matchThemeSelector(part)
+    if (!partMode) return null
+    mode = mode ?? partMode
+  }
+
+  return mode
+}
+
+function matchThemeSelector(selector: string): string | null {
+  for (const pattern of THEME_SELECTORS) {
+    pattern.lastIndex = 0
+    const match = pattern.exec(selector)
+    if (match) return match[1].toLowerCase()
+  }
+  return null
+}
+
+/**
+ * Unscoped values are the light theme when only a dark scope exists (and vice versa)
+ */
+function getBaseModeName(scopedModes: string[]): string {
+  const hasDark = scopedModes.includes('dark')
+  const hasLight = scopedModes.includes('light')
+
+  if (hasDark && !hasLight) return 'light'
+  if (hasLight && !hasDark) return 'dark'
+  return 'default'
+}
@@ -4,8 +4,16 @@
  */
 
 import type { W3CTokenSet, TokenExtractionResult } from './w3c-tokenizer'
+import type { FluidValue } from './responsive-tokens'
 import { deduplicateColors, deduplicateByUnitConversion, filterLowQualityTokens } from './token-deduplication'
-import { detectColorPalettes, detectModularScale, detectShadeSystem, detectSpacingGrid } from './token-relationships'
+import {
+  detectColorPalettes,
+  detectModularScale,
+  detectShadeSystem,
+  detectSpacingGrid,
+  detectTokenTiers,
+  type TokenTiers
+} from './token-relationships'
 
 export interface CuratedTokenSet {
   colors: CuratedToken[]
@@ -23,6 +31,9 @@ export interface CuratedTokenSet {
     modularScale?: any
     shadeSystem?: any[]
     spacingGrid?: any
+    tiers?: TokenTiers
+    modes?: string[]
+    breakpoints?: Array<{ name: string; minWidth: number }>
   }
 }
 
@@ -34,6 +45,11 @@ export interface CuratedToken {
   percentage: number
   category: string
   semantic?: string
+  modes?: Record<string, string> // Theme mode -> value, for tokens that change per theme
+  tier?: 'primitive' | 'semantic' // Position in a custom property alias chain
+  alias?: string // Name of the token this one references (`--primary: var(--blue-600)`)
+  breakpoints?: Record<string, string> // Breakpoint name -> value from that breakpoint up
+  fluid?: FluidValue // clamp()/vw bounds for fluid sizes
   preview?: {
     type: 'color' | 'font' | 'dimension' | 'shadow'
     data: any
@@ -86,6 +102,7 @@ export function curateTokens(
   const colorPalettes = detectColorPalettes(colors)
   const modularScale = detectModularScale(typography.sizes)
   const shadeSystem = detectShadeSystem(colors)
+  const tiers = detectTokenTiers(colors)
   const spacingGrid = detectSpacingGrid(spacing)
 
   return {
@@ -99,7 +116,10 @@ export function curateTokens(
       colorPalettes,
       modularScale,
       shadeSystem,
-      spacingGrid
+      spacingGrid,
+      ...(tiers ? { tiers } : {}),
+      ...(tokenSet.$metadata.modes ? { modes: tokenSet.$metadata.modes } : {}),
+      ...(tokenSet.$metadata.breakpoints ? { breakpoints: tokenSet.$metadata.breakpoints } : {})
     }
   }
 }
@@ -129,6 +149,8 @@ function curateColors(tokenSet: W3CTokenSet, config: CurationConfig): CuratedTok
     const w3cColor = token.$value as { colorSpace: string; components: number[] }
     const hex = rgbComponentsToHex(w3cColor.components)
     const enhancedConfidence = calculateColorConfidence(usage, hex, name)
+    const modes = extensions?.['contextds.modes'] as Record<string, { components: number[] }> | undefined
+    const alias = (extensions?.['contextds.alias'] as string | undefined)?.match(/^\{color\.(.+)\}$/)?.[1]
 
     tokens.push({
       name,
@@ -138,6 +160,11 @@ function curateColors(tokenSet: W3CTokenSet, config: CurationConfig): CuratedTok
       percentage: 0, // Will calculate after
       category: 'color',
       semantic: inferColorSemantic(name, hex),
+      ...(modes ? {
+        modes: Object.fromEntries(Object.entries(modes).map(([mode, color]) => [mode, rgbComponentsToHex(color.components)]))
+      } : {}),
+      ...(extensions?.['contextds.tier'] ? { tier: extensions['contextds.tier'] } : {}),
+      ...(alias ? { alias } : {}),
       preview: {
         type: 'color',
         data: {
@@ -149,8 +176,12 @@ function curateColors(tokenSet: W3CTokenSet, config: CurationConfig): CuratedTok
     })
   })
 
-  // Apply advanced deduplication first (handles both exact and near-duplicates)
-  const dedupedTokens = deduplicateColors(tokens)
+  // Apply advanced deduplication first (handles both exact and near-duplicates).
+  // Themed and aliased custom properties are separate roles even when their values match
+  const dedupedTokens = [
+    ...deduplicateColors(tokens.filter(token => !token.tier)),
+    ...tokens.filter(token => token.tier)
+  ]
 
   // Recalculate percentages after deduplication
   const dedupedTotal = dedupedTokens.reduce((sum, t) => sum + t.usage, 0)
@@ -290,8 +321,8 @@ function curateTypography(tokenSet: W3CTokenSet, config: CurationConfig): Curate
       })
     }
 
-    // Font sizes
-    if (type === 'dimension' && name.includes('size')) {
+    // Font sizes (named text-* by the tokenizer)
+    if (type === 'dimension' && (name.includes('size') || extensions?.['contextds.sources']?.includes('font-size'))) {
       totalSizeUsage += usage
       const dim = token.$value as { value: number; unit: string }
       const displayValue = `${dim.value}${dim.unit}`
@@ -304,6 +335,8 @@ function curateTypography(tokenSet: W3CTokenSet, config: CurationConfig): Curate
         percentage: 0,
         category: 'typography-size',
         semantic: inferSizeSemantic(dim.value, dim.unit),
+        ...(extensions?.['contextds.breakpoints'] ? { breakpoints: extensions['contextds.breakpoints'] } : {}),
+        ...(extensions?.['contextds.fluid'] ? { fluid: extensions['contextds.fluid'] } : {}),
         preview: {
           type: 'dimension',
           data: {
@@ -593,6 +626,7 @@ function curateSpacing(tokenSet: W3CTokenSet, config: CurationConfig): CuratedTo
       percentage: 0,
       category: 'spacing',
       semantic: inferSpacingSemantic(dim.value, dim.unit),
+      ...(extensions?.['contextds.breakpoints'] ? { breakpoints: extensions['contextds.breakpoints'] } : {}),
       preview: {
         type: 'dimension',
         data: {
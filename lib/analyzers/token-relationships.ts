@@ -19,6 +19,12 @@ export interface ColorPalette {
   confidence: number
 }
 
+export interface TokenTiers {
+  primitive: string[] // Tokens holding literal values
+  semantic: string[] // Tokens that alias another token
+  aliases: Array<{ token: string; references: string; resolvesTo: string }>
+}
+
 export interface ModularScale {
   base: number
   ratio: number
@@ -164,6 +170,40 @@ export function detectShadeSystem(colors: CuratedToken[]): TokenRelationship[] {
   return relationships
 }
 
+/**
+ * Split alias-aware tokens into primitive and semantic tiers
+ * (`--primary: var(--blue-600)` makes blue-600 a primitive and primary semantic)
+ */
+export function detectTokenTiers(tokens: CuratedToken[]): TokenTiers | null {
+  const byName = new Map(tokens.map(token => [token.name, token]))
+  const aliases: TokenTiers['aliases'] = []
+
+  tokens.forEach(token => {
+    if (!token.alias || !byName.has(token.alias)) return
+
+    // Follow the chain to the primitive; the tokenizer already rejected cycles
+    let target = byName.get(token.alias)!
+    const seen = new Set([token.name])
+    while (target.alias && byName.has(target.alias) && !seen.has(target.name)) {
+      seen.add(target.name)
+      target = byName.get(target.alias)!
+    }
+
+    aliases.push({ token: token.name, references: token.alias, resolvesTo: target.name })
+  })
+
+  if (aliases.length === 0) return null
+
+  const semantic = new Set(aliases.map(alias => alias.token))
+  const primitive = new Set(aliases.map(alias => alias.resolvesTo).filter(name => !semantic.has(name)))
+
+  return {
+    primitive: Array.from(primitive),
+    semantic: Array.from(semantic),
+    aliases
+  }
+}
+
 /**
  * Detect spacing grid system (4px, 8px, 12px base)
  */
@@ -0,0 +1,264 @@
+/**
+ * Token Remix Engine
+ * Blends several token sets into one: each category is taken from a chosen
+ * source, then rules are applied (spacing snapped to a grid, text colors
+ * nudged until they meet WCAG contrast against the blended background).
+ * Every token records where it came from and what was changed in
+ * $extensions['contextds.provenance']
+ */
+
+import { parseColor, rgbToOklch, toW3CColor, w3cToHex } from './color-utils'
+import { findAccessibleColor } from './contrast-matrix'
+import { getContrastRatio } from '@/lib/contrast-checker'
+import type { W3CDimension } from './dimension-utils'
+import type { W3CDesignToken, W3CTokenSet } from './w3c-tokenizer'
+
+export interface RemixSource {
+  id: string
+  name: string // Domain or token set name, for provenance
+  tokenSet: W3CTokenSet
+}
+
+export interface RemixRules {
+  categories?: Record<string, string> // Category -> source id, e.g. { color: A, typography: B }
+  spacingGrid?: number // Snap spacing to multiples of this many px
+  contrast?: 'AA' | 'AAA' // Minimum contrast for text colors against the background
+}
+
+export type TokenProvenance = NonNullable<NonNullable<W3CDesignToken['$extensions']>['contextds.provenance']>
+
+export interface RemixResult {
+  tokenSet: W3CTokenSet
+  summary: {
+    totalTokens: number
+    byCategory: Record<string, { source: string; tokens: number }>
+    adjusted: number
+  }
+}
+
+export class RemixError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RemixError'
+  }
+}
+
+const CONTRAST_TARGETS = { AA: 4.5, AAA: 7 } as const
+const REM_BASE = 16
+const TYPE_CATEGORIES = new Set(['typography', 'fontSize', 'letterSpacing', 'lineHeight'])
+const BACKGROUND_NAME = /^(?:background|bg|surface|canvas)(?:$|[-_.])/i
+const FOREGROUND_NAME = /(?:^|[-_.])(?:foreground|fg|text|heading|body|link)(?:$|[-_.])/i
+
+/**
+ * Blend source token sets under the given rules. Categories without a rule come
+ * from the first source that has them
+ */
+export function remixTokenSets(sources: RemixSource[], rules: RemixRules = {}, name = 'Remix'): RemixResult {
+  if (sources.length === 0) {
+    throw new RemixError('At least one source token set is required')
+  }
+
+  const byId = new Map(sources.map(source => [source.id, source]))
+  Object.entries(rules.categories ?? {}).forEach(([category, sourceId]) => {
+    const source = byId.get(sourceId)
+    if (!source) throw new RemixError(`Rule for "${category}" references a token set that is not a source`)
+    if (!isTokenGroup(source.tokenSet[category])) {
+      throw new RemixError(`${source.name} has no ${category} tokens`)
+    }
+  })
+
+  const categories = Array.from(new Set(sources.flatMap(source => tokenCategories(source.tokenSet))))
+  const colorSource = pickSource('color', sources, rules)
+
+  const tokenSet: W3CTokenSet = {
+    $schema: 'https://design-tokens.github.io/community-group/format/',
+    $metadata: {
+      name,
+      version: '1.0.0',
+      generatedAt: new Date().toISOString(),
+      source: {
+        url: 'remix',
+        cssSources: []
+      },
+      tools: {
+        extractor: 'contextds-remix',
+        version: '1.0.0'
+      },
+      // Mode values only exist on the color source's tokens
+      ...(colorSource?.tokenSet.$metadata.modes ? { modes: colorSource.tokenSet.$metadata.modes } : {})
+    }
+  }
+
+  const byCategory: RemixResult['summary']['byCategory'] = {}
+  let totalTokens = 0
+
+  categories.forEach(category => {
+    const source = pickSource(category, sources, rules)
+    if (!source) return
+
+    const group = structuredClone(source.tokenSet[category]) as Record<string, unknown>
+    let count = 0
+    forEachToken(group, [], (token, path) => {
+      token.$extensions = {
+        ...(token.$extensions ?? { 'contextds.usage': 0, 'contextds.confidence': 0, 'contextds.sources': [] }),
+        'contextds.provenance': { tokenSetId: source.id, source: source.name, path: [category, ...path].join('.') }
+      }
+      count++
+    })
+
+    tokenSet[category] = group
+    byCategory[category] = { source: source.name, tokens: count }
+    totalTokens += count
+  })
+
+  let adjusted = 0
+  if (rules.spacingGrid) adjusted += snapSpacingToGrid(tokenSet, rules.spacingGrid)
+  if (rules.contrast) adjusted += enforceContrast(tokenSet, CONTRAST_TARGETS[rules.contrast], rules.contrast)
+
+  return { tokenSet, summary: { totalTokens, byCategory, adjusted } }
+}
+
+function pickSource(category: string, sources: RemixSource[], rules: RemixRules): RemixSource | undefined {
+  const chosen = rules.categories?.[category]
+  if (chosen) return sources.find(source => source.id === chosen)
+  return sources.find(source => isTokenGroup(source.tokenSet[category]))
+}
+
+function tokenCategories(tokenSet: W3CTokenSet): string[] {
+  return Object.keys(tokenSet).filter(key => !key.startsWith('$') && isTokenGroup(tokenSet[key]))
+}
+
+function isTokenGroup(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Visit every token in a group; imported sets may nest groups
+ */
+function forEachToken(
+  group: Record<string, unknown>,
+  path: string[],
+  visit: (token: W3CDesignToken, path: string[]) => void
+): void {
+  Object.entries(group).forEach(([key, value]) => {
+    if (key.startsWith('$') || !isTokenGroup(value)) return
+    if ('$value' in value) {
+      visit(value as unknown as W3CDesignToken, [...path, key])
+    } else {
+      forEachToken(value, [...path, key], visit)
+    }
+  })
+}
+
+function recordAdjustment(token: W3CDesignToken, adjustment: string): void {
+  const provenance: TokenProvenance | undefined = token.$extensions?.['contextds.provenance']
+  if (provenance) provenance.adjustments = [...(provenance.adjustments ?? []), adjustment]
+}
+
+/**
+ * Round spacing tokens (not radii or type sizes) to the nearest grid multiple
+ */
+function snapSpacingToGrid(tokenSet: W3CTokenSet, grid: number): number {
+  let adjusted = 0
+
+  tokenCategories(tokenSet)
+    .filter(category => !TYPE_CATEGORIES.has(category))
+    .forEach(category => {
+      forEachToken(tokenSet[category] as Record<string, unknown>, [], (token, path) => {
+        if (token.$type !== 'dimension' || !isSpacingToken(token, path)) return
+
+        const dimension = token.$value as W3CDimension
+        if (typeof dimension?.value !== 'number' || (dimension.unit !== 'px' && dimension.unit !== 'rem')) return
+
+        const px = dimension.unit === 'rem' ? dimension.value * REM_BASE : dimension.value
+        const snapped = px === 0 ? 0 : Math.sign(px) * Math.max(grid, Math.round(Math.abs(px) / grid) * grid)
+        if (snapped === px) return
+
+        const value = dimension.unit === 'rem' ? snapped / REM_BASE : snapped
+        token.$value = { ...dimension, value }
+        recordAdjustment(token, `snapped to ${grid}px grid (${dimension.value}${dimension.unit} → ${value}${dimension.unit})`)
+        adjusted++
+      })
+    })
+
+  return adjusted
+}
+
+function isSpacingToken(token: W3CDesignToken, path: string[]): boolean {
+  if (path.some(part => /radius|rounded/i.test(part))) return false
+  return !(token.$extensions?.['contextds.sources'] ?? []).some(source => source.includes('radius'))
+}
+
+/**
+ * Move text colors to the nearest OKLCH lightness that meets the contrast target
+ * against the blended background. Hue and chroma are kept
+ */
+function enforceContrast(tokenSet: W3CTokenSet, target: number, level: string): number {
+  const colors = tokenSet.color as Record<string, unknown> | undefined
+  if (!colors) return 0
+
+  const tokens: Array<{ name: string; token: W3CDesignToken }> = []
+  forEachToken(colors, [], (token, path) => tokens.push({ name: path.join('.'), token }))
+
+  const background = findBackground(tokens)
+  const backgroundHex = background ? tokenHex(background.token) : '#ffffff'
+  if (!backgroundHex) return 0
+
+  const backgroundRgb = parseColor(backgroundHex)
+  const backgroundLightness = backgroundRgb ? rgbToOklch(backgroundRgb).l : 1
+  const backgroundRef = background ? `{color.${background.name}}` : '#ffffff'
+  let adjusted = 0
+
+  tokens
+    .filter(entry => entry !== background && isForeground(entry))
+    .forEach(({ token }) => {
+      const hex = tokenHex(token)
+      const ratio = hex ? getContrastRatio(hex, backgroundHex) : null
+      if (!hex || ratio === null || ratio >= target) return
+
+      // Pure black or white is the last resort
+      const fixed = findAccessibleColor(hex, backgroundHex, target)?.hex ?? (backgroundLightness > 0.5 ? '#000000' : '#ffffff')
+      const w3c = toW3CColor(fixed)
+      if (!w3c) return
+
+      token.$value = w3c
+      if (token.$extensions) {
+        // The adjusted value no longer matches the primitive it aliased
+        delete token.$extensions['contextds.alias']
+        delete token.$extensions['contextds.aliasChain']
+      }
+      recordAdjustment(
+        token,
+        `contrast ${ratio.toFixed(2)}:1 → ${getContrastRatio(fixed, backgroundHex)!.toFixed(2)}:1 against ${backgroundRef} (${level}, was ${hex})`
+      )
+      adjusted++
+    })
+
+  return adjusted
+}
+
+function findBackground(tokens: Array<{ name: string; token: W3CDesignToken }>) {
+  const named = tokens.find(entry => BACKGROUND_NAME.test(entry.name))
+  if (named) return named
+
+  return tokens
+    .filter(entry => (entry.token.$extensions?.['contextds.sources'] ?? []).some(source => source.startsWith('background')))
+    .sort((a, b) => (b.token.$extensions?.['contextds.usage'] ?? 0) - (a.token.$extensions?.['contextds.usage'] ?? 0))[0]
+}
+
+function isForeground(entry: { name: string; token: W3CDesignToken }): boolean {
+  if (FOREGROUND_NAME.test(entry.name)) return true
+  return (entry.token.$extensions?.['contextds.sources'] ?? []).includes('color')
+}
+
+function tokenHex(token: W3CDesignToken): string | null {
+  const value = token.$value as { colorSpace?: string; components?: number[] } | string
+  if (typeof value === 'string') {
+    const w3c = toW3CColor(value)
+    return w3c ? w3cToHex(w3c.components.slice(0, 3)) : null
+  }
+  if (value?.colorSpace === 'srgb' && Array.isArray(value.components)) {
+    return w3cToHex(value.components.slice(0, 3))
+  }
+  return null
+}
@@ -7,6 +7,7 @@ import { createHash } from 'node:crypto'
 import postcss, { Root } from 'postcss'
 import safeParser from 'postcss-safe-parser'
 import type { CssSource } from '@/lib/extractors/static-css'
+import { collectComponentProperties } from '@/lib/extractors/shadow-dom'
 import {
   parseColor,
   toW3CColor,
@@ -29,6 +30,16 @@ import {
   type W3CShadow,
   type W3CBorder
 } from './dimension-utils'
+import {
+  collectThemeVariables,
+  detectThemeMode,
+  getModeVariables,
+  normalizeThemeColorValue,
+  stripThemeScope,
+  type ThemeVariables
+} from './theme-modes'
+import { buildAliasGraph } from './css-variable-graph'
+import { parseFluidValue, type FluidValue } from './responsive-tokens'
 
 export interface W3CDesignToken {
   $type: string
@@ -41,6 +52,17 @@ export interface W3CDesignToken {
     'contextds.selectors'?: string[]
     'contextds.components'?: string[]
     'contextds.original'?: string
+    'contextds.pages'?: Record<string, number>
+    'contextds.importPath'?: string
+    'contextds.modes'?: Record<string, unknown>
+    'contextds.tier'?: 'primitive' | 'semantic'
+    'contextds.alias'?: string
+    'contextds.aliasChain'?: string[]
+    'contextds.provenance'?: { tokenSetId: string; source: string; path: string; adjustments?: string[] } // Set on remixed tokens
+    'contextds.breakpoints'?: Record<string, string> // Breakpoint name -> value from that breakpoint up
+    'contextds.fluid'?: FluidValue // clamp()/vw sizes
+    'contextds.state'?: { component: string; variant: string; state: string; base: string | null } // Measured interaction state
+    'contextds.evidence'?: string // Screenshot of the element in that state
   }
 }
 
@@ -57,12 +79,16 @@ export interface W3CTokenSet {
         url: string
         sha: string
         bytes: number
+        library?: string // CSS-in-JS library behind a cssom source
+        component?: string // Custom element whose shadow root held a cssom source
       }>
     }
     tools: {
       extractor: string
       version: string
     }
+    modes?: string[]
+    breakpoints?: Array<{ name: string; minWidth: number }>
   }
   [category: string]: unknown
 }
@@ -100,6 +126,7 @@ interface ColorStats {
   usage: number
   selectors: Set<string>
   properties: Set<string>
+  modeValues: Map<string, Map<string, { w3c: W3CColor; count: number }>>
 }
 
 interface DimensionStats {
@@ -108,6 +135,7 @@ interface DimensionStats {
   usage: number
   property: string
   selectors: Set<string>
+  fluid?: FluidValue
 }
 
 interface TypographyStats {
@@ -162,17 +190,22 @@ export function extractW3CTokens(
     })
   })
 
-  // Collect CSS custom properties (variables)
-  const variables = collectCSSVariables(root)
+  // Collect CSS custom properties (variables); theme-scoped values are kept per mode
+  const theme = collectThemeVariables(root)
+  const variables = theme.variables
 
   // Extract tokens by category
-  const colors = extractColors(root, variables)
+  const colors = extractColors(root, theme)
   const spacing = extractSpacing(root, variables)
   const radii = extractRadii(root, variables)
   const typography = extractTypography(root, variables)
   const shadows = extractShadows(root, variables)
   const motion = extractMotion(root, variables)
 
+  // Custom properties web components expose become tokens scoped to those components
+  const components = extractComponentTokens(root, variables, collectComponentProperties(sources), colors, [...spacing, ...radii])
+  colors.push(...components.colors)
+
   // Build W3C token set
   const tokenSet: W3CTokenSet = {
     $schema: 'https://design-tokens.github.io/community-group/format/',
@@ -186,13 +219,16 @@ export function extractW3CTokens(
           kind: s.kind,
           url: s.url,
           sha: s.sha,
-          bytes: s.bytes
+          bytes: s.bytes,
+          ...(s.library ? { library: s.library } : {}),
+          ...(s.component ? { component: s.component } : {})
         }))
       },
       tools: {
         extractor: 'contextds-w3c-tokenizer',
         version: '2.0.0'
-      }
+      },
+      ...(theme.modes.length > 0 ? { modes: theme.modes } : {})
     }
   }
 
@@ -212,10 +248,10 @@ export function extractW3CTokens(
     })
   }
 
-  // Add radius tokens
-  if (radii.length > 0) {
+  // Add radius and component-scoped dimension tokens
+  if (radii.length > 0 || components.dimensions.length > 0) {
     if (!tokenSet.dimension) tokenSet.dimension = {}
-    radii.forEach(token => {
+    ;[...radii, ...components.dimensions].forEach(token => {
       tokenSet.dimension![token.name] = token.token
     })
   }
@@ -245,7 +281,7 @@ export function extractW3CTokens(
   }
 
   // Calculate summary
-  const totalTokens = colors.length + spacing.length + radii.length + typography.length + shadows.length + motion.length
+  const totalTokens = colors.length + spacing.length + radii.length + components.dimensions.length + typography.length + shadows.length + motion.length
 
   const summary = {
     totalTokens,
@@ -255,7 +291,8 @@ export function extractW3CTokens(
       radius: radii.length,
       typography: typography.length,
       shadow: shadows.length,
-      motion: motion.length
+      motion: motion.length,
+      component: components.dimensions.length
     },
     confidence: totalTokens > 0 ? 92 : 0,
     quality: totalTokens > 0 ? 95 : 0
@@ -275,21 +312,6 @@ export function extractW3CTokens(
   }
 }
 
-/**
- * Collect CSS custom properties (variables)
- */
-function collectCSSVariables(root: Root): Map<string, string> {
-  const variables = new Map<string, string>()
-
-  root.walkDecls(decl => {
-    if (decl.prop.startsWith('--')) {
-      variables.set(decl.prop, decl.value.trim())
-    }
-  })
-
-  return variables
-}
-
 /**
  * Resolve CSS variable references
  */
@@ -315,9 +337,15 @@ function resolveVariable(value: string, variables: Map<string, string>, depth =
 
 /**
  * Extract color tokens
+ * Theme-scoped declarations stay out of the base palette; their values are
+ * attached to the matching base token (or themed variable) under contextds.modes
  */
-function extractColors(root: Root, variables: Map<string, string>): Array<{ name: string; token: W3CDesignToken }> {
+function extractColors(root: Root, theme: ThemeVariables): Array<{ name: string; token: W3CDesignToken }> {
+  const variables = theme.variables
+  const modeVariables = new Map(theme.modes.map(mode => [mode, getModeVariables(theme, mode)]))
   const colorMap = new Map<string, ColorStats>()
+  const baseKeys = new Map<string, string>() // `${selector}|${prop}` -> colorMap key
+  const themed: Array<{ mode: string; prop: string; selector: string | null; value: string }> = []
 
   // Extract from regular CSS properties
   root.walkDecls(decl => {
@@ -326,6 +354,12 @@ function extractColors(root: Root, variables: Map<string, string>): Array<{ name
 
     if (!colorProps.includes(prop) && !prop.includes('color')) return
 
+    const mode = detectThemeMode(decl)
+    if (mode) {
+      themed.push({ mode, prop, selector: getSelector(decl), value: decl.value })
+      return
+    }
+
     const resolved = resolveVariable(decl.value, variables)
     const rgb = parseColor(resolved)
 
@@ -345,7 +379,8 @@ function extractColors(root: Root, variables: Map<string, string>): Array<{ name
         rgb,
         usage: 0,
         selectors: new Set(),
-        properties: new Set()
+        properties: new Set(),
+        modeValues: new Map()
       })
     }
 
@@ -354,7 +389,19 @@ function extractColors(root: Root, variables: Map<string, string>): Array<{ name
     stats.properties.add(prop)
 
     const selector = getSelector(decl)
-    if (selector) stats.selectors.add(selector)
+    if (selector) {
+      stats.selectors.add(selector)
+      baseKeys.set(`${stripThemeScope(selector)}|${prop}`, key)
+    }
+
+    // Unscoped declarations that read themed variables change value per mode too
+    if (decl.value.includes('var(')) {
+      theme.modes.forEach(mode => {
+        if (mode === theme.baseMode) return
+        const modeColor = toW3CColor(resolveVariable(decl.value, modeVariables.get(mode)!))
+        if (modeColor && JSON.stringify(modeColor.components) !== key) addModeCandidate(stats, mode, modeColor)
+      })
+    }
   })
 
   // Extract from CSS variables
@@ -378,7 +425,8 @@ function extractColors(root: Root, variables: Map<string, string>): Array<{ name
         rgb,
         usage: 0,
         selectors: new Set(),
-        properties: new Set()
+        properties: new Set(),
+        modeValues: new Map()
       })
     }
 
@@ -386,6 +434,17 @@ function extractColors(root: Root, variables: Map<string, string>): Array<{ name
     stats.usage += countVariableUsage(root, name)
   })
 
+  // Pair themed declarations with the base color the same selector and property use
+  themed.forEach(({ mode, prop, selector, value }) => {
+    const baseKey = baseKeys.get(`${stripThemeScope(selector ?? '')}|${prop}`)
+    if (!baseKey) return
+
+    const w3c = toW3CColor(resolveVariable(value, modeVariables.get(mode)!))
+    if (!w3c) return
+
+    addModeCandidate(colorMap.get(baseKey)!, mode, w3c)
+  })
+
   // Convert to tokens
   const tokens: Array<{ name: string; token: W3CDesignToken; usage: number }> = []
 
@@ -393,6 +452,13 @@ function extractColors(root: Root, variables: Map<string, string>): Array<{ name
     const index = tokens.length + 1
     const name = getSemanticColorName(stats.rgb, index)
 
+    // The most frequent counterpart wins when one base color maps to several themed ones
+    const modes: Record<string, W3CColor> = {}
+    stats.modeValues.forEach((candidates, mode) => {
+      const best = Array.from(candidates.values()).sort((a, b) => b.count - a.count)[0]
+      modes[mode] = best.w3c
+    })
+
     tokens.push({
       name,
       usage: stats.usage,
@@ -405,16 +471,194 @@ function extractColors(root: Root, variables: Map<string, string>): Array<{ name
           'contextds.confidence': Math.min(100, 75 + stats.usage * 2),
           'contextds.sources': Array.from(stats.properties),
           'contextds.selectors': Array.from(stats.selectors).slice(0, 10),
-          'contextds.original': stats.value
+          'contextds.original': stats.value,
+          ...(Object.keys(modes).length > 0 ? { 'contextds.modes': { [theme.baseMode]: stats.w3c, ...modes } } : {})
         }
       }
     })
   })
 
+  tokens.push(...extractVariableColors(root, theme, new Set(tokens.map(token => token.name))))
+
   // Sort by usage
   return tokens.sort((a, b) => b.usage - a.usage)
 }
 
+function addModeCandidate(stats: ColorStats, mode: string, w3c: W3CColor) {
+  if (!stats.modeValues.has(mode)) stats.modeValues.set(mode, new Map())
+
+  const candidates = stats.modeValues.get(mode)!
+  const key = JSON.stringify(w3c.components)
+  const candidate = candidates.get(key) ?? { w3c, count: 0 }
+  candidate.count++
+  candidates.set(key, candidate)
+}
+
+/**
+ * Named color tokens for custom properties that carry structure: theme-scoped
+ * variables (with per-mode values) and var() alias chains. `--primary: var(--blue-600)`
+ * becomes a semantic token referencing the primitive `{color.blue-600}`
+ */
+function extractVariableColors(
+  root: Root,
+  theme: ThemeVariables,
+  takenNames: Set<string>
+): Array<{ name: string; token: W3CDesignToken; usage: number }> {
+  const aliases = buildAliasGraph(theme.variables)
+  const modeVariables = new Map(theme.modes.map(mode => [mode, getModeVariables(theme, mode)]))
+
+  const candidates = new Set<string>()
+  theme.scoped.forEach(scope => scope.forEach((_, name) => candidates.add(name)))
+  aliases.forEach((resolution, name) => {
+    if (resolution.cycle || !resolution.value || !toVariableColor(resolution.value, theme.variables)) return
+    candidates.add(name)
+    resolution.chain.forEach(link => candidates.add(link))
+  })
+
+  // Token names are fixed up front so aliases can reference them
+  const tokenNames = new Map<string, string>()
+  candidates.forEach(varName => {
+    const name = varName.replace(/^--/, '').replace(/^colou?r-/, '')
+    if (!name || takenNames.has(name)) return
+    takenNames.add(name)
+    tokenNames.set(varName, name)
+  })
+
+  // A primitive is used wherever its aliases are
+  const usage = new Map<string, number>()
+  const usageOf = (varName: string, seen: Set<string>): number => {
+    if (usage.has(varName)) return usage.get(varName)!
+    seen.add(varName)
+
+    let total = countVariableUsage(root, varName)
+    aliases.forEach((resolution, aliasName) => {
+      if (resolution.target === varName && !seen.has(aliasName)) total += usageOf(aliasName, seen)
+    })
+
+    usage.set(varName, total)
+    return total
+  }
+
+  const tokens: Array<{ name: string; token: W3CDesignToken; usage: number }> = []
+
+  tokenNames.forEach((name, varName) => {
+    const modes: Record<string, W3CColor> = {}
+    if (theme.scoped.size > 0) {
+      theme.modes.forEach(mode => {
+        // The base mode only has a value when the variable is declared unscoped
+        if (mode === theme.baseMode && !theme.base.has(varName)) return
+
+        const scopeVariables = modeVariables.get(mode)!
+        const raw = scopeVariables.get(varName)
+        const w3c = raw ? toVariableColor(raw, scopeVariables) : null
+        if (w3c) modes[mode] = w3c
+      })
+    }
+
+    const alias = aliases.get(varName)
+    const value = modes[theme.baseMode]
+      ?? (alias?.value ? toVariableColor(alias.value, theme.variables) : null)
+      ?? toVariableColor(theme.variables.get(varName) ?? '', theme.variables)
+      ?? Object.values(modes)[0]
+    if (!value) return
+
+    // Aliases point at the next link in their chain, which may itself be an alias
+    const target = alias?.target ? tokenNames.get(alias.target) : undefined
+    const uses = usageOf(varName, new Set())
+
+    tokens.push({
+      name,
+      usage: uses,
+      token: {
+        $type: 'color',
+        $value: value,
+        $description: target ? `Alias of {color.${target}} used ${uses} times` : `Color variable used ${uses} times`,
+        $extensions: {
+          'contextds.usage': uses,
+          'contextds.confidence': Math.min(100, 85 + uses * 2),
+          'contextds.sources': ['custom-property'],
+          'contextds.original': varName,
+          // Themed values are roles (background, foreground) even without an alias
+          'contextds.tier': target || Object.keys(modes).length > 0 ? 'semantic' : 'primitive',
+          ...(target ? {
+            'contextds.alias': `{color.${target}}`,
+            'contextds.aliasChain': alias!.chain
+          } : {}),
+          ...(Object.keys(modes).length > 0 ? { 'contextds.modes': modes } : {})
+        }
+      }
+    })
+  })
+
+  return tokens
+}
+
+function toVariableColor(value: string, variables: Map<string, string>): W3CColor | null {
+  return toW3CColor(normalizeThemeColorValue(resolveVariable(value, variables)))
+}
+
+/**
+ * Tokens for the custom properties web components expose, tagged with the
+ * components under contextds.components. Variables that already have a named
+ * color token are tagged in place; the rest become color or dimension tokens
+ * named after the property
+ */
+function extractComponentTokens(
+  root: Root,
+  variables: Map<string, string>,
+  properties: Map<string, string[]>,
+  colors: Array<{ name: string; token: W3CDesignToken }>,
+  dimensions: Array<{ name: string; token: W3CDesignToken }>
+): {
+  colors: Array<{ name: string; token: W3CDesignToken; usage: number }>
+  dimensions: Array<{ name: string; token: W3CDesignToken; usage: number }>
+} {
+  const result = {
+    colors: [] as Array<{ name: string; token: W3CDesignToken; usage: number }>,
+    dimensions: [] as Array<{ name: string; token: W3CDesignToken; usage: number }>
+  }
+  const takenNames = new Set([...colors, ...dimensions].map(token => token.name))
+
+  properties.forEach((components, varName) => {
+    const existing = colors.find(token => token.token.$extensions?.['contextds.original'] === varName)
+    if (existing?.token.$extensions) {
+      existing.token.$extensions['contextds.components'] = components
+      return
+    }
+
+    const raw = variables.get(varName)
+    if (!raw) return
+
+    const name = varName.replace(/^--/, '')
+    if (!name || takenNames.has(name)) return
+
+    const resolved = resolveVariable(raw, variables).trim()
+    const color = toVariableColor(raw, variables)
+    const dimension = !color && /^-?\d*\.?\d+[a-z%]+$/i.test(resolved) ? parseDimension(resolved) : null
+    if (!color && !dimension) return
+
+    takenNames.add(name)
+    const uses = countVariableUsage(root, varName)
+    const token: W3CDesignToken = {
+      $type: color ? 'color' : 'dimension',
+      $value: color ?? dimension,
+      $description: `Custom property of ${components.map(component => `<${component}>`).join(', ')} used ${uses} times`,
+      $extensions: {
+        'contextds.usage': uses,
+        'contextds.confidence': Math.min(100, 80 + uses * 2),
+        'contextds.sources': ['custom-property'],
+        'contextds.components': components,
+        'contextds.original': varName
+      }
+    }
+
+    if (color) result.colors.push({ name, token, usage: uses })
+    else result.dimensions.push({ name, token, usage: uses })
+  })
+
+  return result
+}
+
 /**
  * Extract spacing tokens
  */
@@ -591,9 +835,13 @@ function extractTypography(root: Root, variables: Map<string, string>): Array<{
     }
 
     if (prop === 'font-size') {
-      const dim = parseDimension(resolved)
+      // Fluid sizes keep their bounds; the smallest one stands in as the token's value
+      const fluid = parseFluidValue(resolved)
+      const dim = fluid
+        ? parseDimension(fluid.min ?? '') ?? parseDimension(fluid.preferred) ?? parseDimension(fluid.max ?? '')
+        : parseDimension(resolved)
       if (dim) {
-        const key = `${dim.value}${dim.unit}`
+        const key = fluid ? `fluid:${resolved.replace(/\s+/g, ' ')}` : `${dim.value}${dim.unit}`
 
         if (!fontSizes.has(key)) {
           fontSizes.set(key, {
@@ -601,7 +849,8 @@ function extractTypography(root: Root, variables: Map<string, string>): Array<{
             w3c: dim,
             usage: 0,
             property: prop,
-            selectors: new Set()
+            selectors: new Set(),
+            ...(fluid ? { fluid } : {})
           })
         }
 
@@ -677,12 +926,13 @@ function extractTypography(root: Root, variables: Map<string, string>): Array<{
       token: {
         $type: 'dimension',
         $value: stats.w3c,
-        $description: `Font size used ${stats.usage} times`,
+        $description: `${stats.fluid ? 'Fluid font size' : 'Font size'} used ${stats.usage} times`,
         $extensions: {
           'contextds.usage': stats.usage,
           'contextds.confidence': Math.min(100, 75 + stats.usage * 2),
           'contextds.sources': ['font-size'],
-          'contextds.original': stats.value
+          'contextds.original': stats.value,
+          ...(stats.fluid ? { 'contextds.fluid': stats.fluid } : {})
         }
       }
     })
@@ -958,6 +1208,26 @@ function analyzeSpacingSystem(spacing: Array<{ name: string; token: W3CDesignTok
   }
 }
 
+/**
+ * Digest of the design content of a token set.
+ * $metadata (generation time, source stats) and per-token $extensions (usage,
+ * confidence) are left out so re-scanning an unchanged design hashes identically.
+ */
 export function hashTokenSet(tokenSet: W3CTokenSet): string {
-  return createHash('sha256').update(JSON.stringify(tokenSet)).digest('hex')
+  const content: Record<string, Record<string, { $type: string; $value: unknown }>> = {}
+
+  Object.keys(tokenSet).sort().forEach(category => {
+    const group = (tokenSet as unknown as Record<string, unknown>)[category]
+    if (category.startsWith('$') || !group || typeof group !== 'object') return
+
+    content[category] = {}
+    Object.keys(group).sort().forEach(name => {
+      const token = (group as Record<string, W3CDesignToken>)[name]
+      if (token && typeof token === 'object' && '$value' in token) {
+        content[category][name] = { $type: token.$type, $value: token.$value }
+      }
+    })
+  })
+
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex')
 }
\ No newline at end of file
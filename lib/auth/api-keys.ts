@@ -0,0 +1,414 @@
+/**
+ * API keys
+ * Keys look like ctx_<6 chars>_<48 hex>. Only the SHA-256 hash is stored; the
+ * first 10 characters are kept as the lookup prefix. Every key carries a list
+ * of scopes and a monthly scan quota drawn from its owner's subscription, with
+ * metered calls logged to mcp_usage. A scan reserves its usage row before it
+ * runs and hands it back if it fails
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { and, count, desc, eq, gte, sql } from 'drizzle-orm'
+import { db, apiKeys, mcpUsage, subscriptions, type ApiKey } from '@/lib/db'
+
+export const API_KEY_PREFIX_LENGTH = 10
+
+const API_KEY_PATTERN = /^ctx_[a-z0-9]{6}_[a-f0-9]{48}$/
+const PREFIX_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789'
+
+/**
+ * Scopes checked by the HTTP API. MCP tools are scoped per tool as
+ * mcp:<tool name>; a trailing * grants a whole namespace and * grants everything
+ */
+export const API_KEY_SCOPES = [
+  'scan:write',
+  'tokens:read',
+  'tokens:write',
+  'watches:read',
+  'watches:write',
+  'sites:manage',
+  'profiles:manage',
+  'keys:manage'
+] as const
+
+export type ApiKeyScope = string
+
+// Granted to new keys without explicit scopes and to keys created before scopes were enforced
+export const DEFAULT_API_KEY_SCOPES: ApiKeyScope[] = [
+  'scan:write',
+  'tokens:read',
+  'tokens:write',
+  'watches:read',
+  'watches:write',
+  'sites:manage',
+  'mcp:*'
+]
+
+// Subscriptions start on the free plan (see subscriptions.scansQuota)
+const FREE_SCANS_QUOTA = 3
+
+// mcp_usage.tool of the calls that count against the scan quota
+export const METERED_SCAN_TOOL = 'scan_tokens'
+
+export type ApiKeyPrincipal = {
+  id: string
+  userId: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  monthlyQuota: number | null
+  expiresAt: Date | null
+}
+
+export type ApiKeyQuota = {
+  limit: number
+  used: number
+  remaining: number
+  resetsAt: Date
+}
+
+export type ScanQuotaReservation =
+  | { ok: true; quota: ApiKeyQuota; usageId: string }
+  | { ok: false; quota: ApiKeyQuota }
+
+export type CreateApiKeyInput = {
+  userId: string
+  name: string
+  scopes?: ApiKeyScope[]
+  monthlyQuota?: number | null
+  expiresInDays?: number | null
+}
+
+// The raw key is only ever returned here; it can't be recovered later
+export type IssuedApiKey = {
+  key: string
+  apiKey: ApiKeyPrincipal
+}
+
+export type ApiKeyUsage = {
+  tool: string
+  success: boolean
+  latency?: number
+  responseSize?: number
+  errorType?: string
+  rateLimited?: boolean
+  parameters?: Record<string, unknown>
+}
+
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ApiKeyError'
+  }
+}
+
+export class ApiKeyNotFoundError extends ApiKeyError {
+  constructor(id: string) {
+    super(`API key ${id} not found`)
+    this.name = 'ApiKeyNotFoundError'
+  }
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const id = Array.from(randomBytes(6), byte => PREFIX_ALPHABET[byte % PREFIX_ALPHABET.length]).join('')
+  const key = `ctx_${id}_${randomBytes(24).toString('hex')}`
+  return { key, prefix: key.slice(0, API_KEY_PREFIX_LENGTH), keyHash: hashApiKey(key) }
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+export function isApiKeyFormat(key: string): boolean {
+  return API_KEY_PATTERN.test(key)
+}
+
+export function isValidScope(scope: string): boolean {
+  if (scope === '*' || (API_KEY_SCOPES as readonly string[]).includes(scope)) return true
+  if (/^mcp:([a-z_]+|\*)$/.test(scope)) return true
+
+  const [namespace, action] = scope.split(':')
+  return action === '*' && API_KEY_SCOPES.some(known => known.startsWith(`${namespace}:`))
+}
+
+/**
+ * Whether the granted scopes cover the required one
+ */
+export function hasScope(granted: ApiKeyScope[], required: ApiKeyScope): boolean {
+  return granted.some(scope => {
+    if (scope === '*' || scope === required) return true
+    return scope.endsWith(':*') && required.startsWith(scope.slice(0, -1))
+  })
+}
+
+/**
+ * Validate requested scopes against the ones the granting key holds, so a key
+ * can't mint keys with more access than it has
+ */
+export function normalizeScopes(requested: ApiKeyScope[], granted: ApiKeyScope[] = ['*']): ApiKeyScope[] {
+  const invalid = requested.filter(scope => !isValidScope(scope))
+  if (invalid.length > 0) {
+    throw new ApiKeyError(`Unknown scope: ${invalid.join(', ')}`)
+  }
+
+  const escalated = requested.filter(scope => !hasScope(granted, scope))
+  if (escalated.length > 0) {
+    throw new ApiKeyError(`Scope not held by the granting key: ${escalated.join(', ')}`)
+  }
+
+  return Array.from(new Set(requested))
+}
+
+/**
+ * Resolve a raw key to its principal. Returns null for malformed, unknown,
+ * revoked or expired keys
+ */
+export async function verifyApiKey(key: string): Promise<ApiKeyPrincipal | null> {
+  if (!isApiKeyFormat(key)) return null
+
+  const candidates = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.prefix, key.slice(0, API_KEY_PREFIX_LENGTH)), eq(apiKeys.isActive, true)))
+
+  const keyHash = Buffer.from(hashApiKey(key))
+  const record = (candidates as ApiKey[]).find(candidate => {
+    const candidateHash = Buffer.from(candidate.keyHash)
+    return candidateHash.length === keyHash.length && timingSafeEqual(candidateHash, keyHash)
+  })
+
+  if (!record || (record.expiresAt && record.expiresAt <= new Date())) return null
+
+  // Don't block the request on bookkeeping
+  db.update(apiKeys)
+    .set({ lastUsed: new Date() })
+    .where(eq(apiKeys.id, record.id))
+    .catch((error: unknown) => {
+      console.error('[Auth] Failed to update API key lastUsed:', error)
+    })
+
+  return toPrincipal(record)
+}
+
+export async function createApiKey(input: CreateApiKeyInput): Promise<IssuedApiKey> {
+  const scopes = normalizeScopes(input.scopes ?? DEFAULT_API_KEY_SCOPES)
+  const { key, prefix, keyHash } = generateApiKey()
+
+  const [record] = await db.insert(apiKeys).values({
+    userId: input.userId,
+    name: input.name,
+    keyHash,
+    prefix,
+    permissions: scopes,
+    monthlyQuota: input.monthlyQuota ?? null,
+    expiresAt: expiryFromDays(input.expiresInDays)
+  }).returning()
+
+  return { key, apiKey: toPrincipal(record) }
+}
+
+/**
+ * Issue a replacement with the same name, scopes, quota and lifetime, then
+ * revoke the old key
+ */
+export async function rotateApiKey(userId: string, id: string): Promise<IssuedApiKey> {
+  const existing = await getOwnedKey(userId, id)
+  if (!existing.isActive) {
+    throw new ApiKeyError('Revoked keys cannot be rotated')
+  }
+
+  const lifetimeMs = existing.expiresAt ? existing.expiresAt.getTime() - existing.createdAt.getTime() : null
+  const { key, prefix, keyHash } = generateApiKey()
+
+  const record = await db.transaction(async (tx: typeof db) => {
+    const [replacement] = await tx.insert(apiKeys).values({
+      userId,
+      name: existing.name,
+      keyHash,
+      prefix,
+      permissions: existing.permissions,
+      monthlyQuota: existing.monthlyQuota,
+      expiresAt: lifetimeMs ? new Date(Date.now() + lifetimeMs) : null,
+      rotatedFromId: existing.id
+    }).returning()
+
+    await tx.update(apiKeys)
+      .set({ isActive: false, revokedAt: new Date() })
+      .where(eq(apiKeys.id, existing.id))
+
+    return replacement
+  })
+
+  return { key, apiKey: toPrincipal(record) }
+}
+
+export async function revokeApiKey(userId: string, id: string): Promise<void> {
+  await getOwnedKey(userId, id)
+  await db.update(apiKeys)
+    .set({ isActive: false, revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)))
+}
+
+export async function listApiKeys(userId: string) {
+  const records = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt))
+
+  return (records as ApiKey[]).map(serializeApiKey)
+}
+
+/**
+ * Scans left this billing period for a key: the subscription's scansQuota,
+ * lowered by the key's own monthlyQuota, minus the key's metered calls
+ */
+export async function getScanQuota(key: ApiKeyPrincipal, executor: typeof db = db): Promise<ApiKeyQuota> {
+  const [subscription] = await executor
+    .select({
+      scansQuota: subscriptions.scansQuota,
+      currentPeriodStart: subscriptions.currentPeriodStart,
+      currentPeriodEnd: subscriptions.currentPeriodEnd
+    })
+    .from(subscriptions)
+    .where(and(eq(subscriptions.userId, key.userId), eq(subscriptions.status, 'active')))
+    .limit(1)
+
+  const now = new Date()
+  const periodStart = subscription?.currentPeriodStart ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  const resetsAt = subscription?.currentPeriodEnd ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+
+  const [{ used }] = await executor
+    .select({ used: count() })
+    .from(mcpUsage)
+    .where(and(
+      eq(mcpUsage.apiKeyId, key.id),
+      eq(mcpUsage.tool, METERED_SCAN_TOOL),
+      eq(mcpUsage.success, true),
+      gte(mcpUsage.createdAt, periodStart)
+    ))
+
+  const limit = resolveQuotaLimit(subscription?.scansQuota ?? FREE_SCANS_QUOTA, key.monthlyQuota)
+  return { limit, used, remaining: Math.max(0, limit - used), resetsAt }
+}
+
+/**
+ * Take one scan from a key's quota before a metered scan runs. The count and
+ * the usage row are written under a per-key lock in one transaction, so
+ * concurrent requests can't overdraw the quota; an exhausted quota is logged
+ * as a rate-limited call
+ */
+export async function reserveScanQuota(key: ApiKeyPrincipal, parameters?: Record<string, unknown>): Promise<ScanQuotaReservation> {
+  const reservation: ScanQuotaReservation = await db.transaction(async (tx: typeof db) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtextextended(${`scan-quota:${key.id}`}, 0))`)
+
+    const quota = await getScanQuota(key, tx)
+    if (quota.remaining === 0) {
+      return { ok: false, quota }
+    }
+
+    const [usage] = await tx
+      .insert(mcpUsage)
+      .values({ userId: key.userId, apiKeyId: key.id, tool: METERED_SCAN_TOOL, parameters: parameters ?? null, success: true })
+      .returning({ id: mcpUsage.id })
+
+    return { ok: true, quota: { ...quota, used: quota.used + 1, remaining: quota.remaining - 1 }, usageId: usage.id }
+  })
+
+  if (!reservation.ok) {
+    await recordApiKeyUsage(key, { tool: METERED_SCAN_TOOL, success: false, rateLimited: true, errorType: 'quota_exceeded' })
+  }
+  return reservation
+}
+
+/**
+ * Hand a reserved scan back to the quota once the scan has failed; failures are
+ * logged, never thrown
+ */
+export async function releaseScanQuota(usageId: string, errorType = 'scan_failed'): Promise<void> {
+  try {
+    await db
+      .update(mcpUsage)
+      .set({ success: false, errorType })
+      .where(eq(mcpUsage.id, usageId))
+  } catch (error) {
+    console.error('[Auth] Failed to release scan quota:', error)
+  }
+}
+
+export function resolveQuotaLimit(subscriptionQuota: number, keyQuota: number | null): number {
+  return keyQuota === null ? subscriptionQuota : Math.min(subscriptionQuota, keyQuota)
+}
+
+/**
+ * Log a call made with a key; failures are logged, never thrown
+ */
+export async function recordApiKeyUsage(key: Pick<ApiKeyPrincipal, 'id' | 'userId'>, usage: ApiKeyUsage): Promise<void> {
+  try {
+    await db.insert(mcpUsage).values({
+      userId: key.userId,
+      apiKeyId: key.id,
+      tool: usage.tool,
+      parameters: usage.parameters ?? null,
+      responseSize: usage.responseSize ?? null,
+      latency: usage.latency ?? null,
+      success: usage.success,
+      errorType: usage.errorType ?? null,
+      rateLimited: usage.rateLimited ?? false
+    })
+  } catch (error) {
+    console.error('[Auth] Failed to record API key usage:', error)
+  }
+}
+
+export function serializeApiKey(record: ApiKey) {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    scopes: scopesOf(record),
+    monthlyQuota: record.monthlyQuota,
+    isActive: record.isActive,
+    lastUsed: record.lastUsed?.toISOString() ?? null,
+    expiresAt: record.expiresAt?.toISOString() ?? null,
+    revokedAt: record.revokedAt?.toISOString() ?? null,
+    rotatedFromId: record.rotatedFromId,
+    createdAt: record.createdAt.toISOString()
+  }
+}
+
+async function getOwnedKey(userId: string, id: string): Promise<ApiKey> {
+  const [record] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)))
+    .limit(1)
+
+  if (!record) {
+    throw new ApiKeyNotFoundError(id)
+  }
+  return record
+}
+
+function toPrincipal(record: ApiKey): ApiKeyPrincipal {
+  return {
+    id: record.id,
+    userId: record.userId,
+    name: record.name,
+    prefix: record.prefix,
+    scopes: scopesOf(record),
+    monthlyQuota: record.monthlyQuota,
+    expiresAt: record.expiresAt
+  }
+}
+
+function scopesOf(record: Pick<ApiKey, 'permissions'>): ApiKeyScope[] {
+  return Array.isArray(record.permissions)
+    ? record.permissions.filter((scope): scope is string => typeof scope === 'string')
+    : DEFAULT_API_KEY_SCOPES
+}
+
+function expiryFromDays(days: number | null | undefined): Date | null {
+  if (!days) return null
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+}
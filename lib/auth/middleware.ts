@@ -1,5 +1,6 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { hasScope, verifyApiKey, type ApiKeyPrincipal, type ApiKeyScope } from './api-keys'
 
 export async function updateSession(request: NextRequest) {
   let response = NextResponse.next({
@@ -72,59 +73,53 @@ export async function updateSession(request: NextRequest) {
   return response
 }
 
-// API key authentication for MCP endpoints
-export async function authenticateApiKey(request: NextRequest): Promise<string | null> {
+export type ApiKeyAuthResult =
+  | { ok: true; apiKey: ApiKeyPrincipal }
+  | { ok: false; status: 401 | 403; error: string }
+
+/**
+ * Authenticate the Bearer API key of a request and check it holds `scope`.
+ * Routes answer a failed result with its status and error
+ */
+export async function authorizeApiKey(request: NextRequest, scope?: ApiKeyScope): Promise<ApiKeyAuthResult> {
   const authHeader = request.headers.get('Authorization')
+  const apiKey = authHeader?.startsWith('Bearer ') ? await resolveApiKey(authHeader.substring(7)) : null
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null
+  if (!apiKey) {
+    return { ok: false, status: 401, error: 'Invalid or missing API key' }
   }
 
-  const apiKey = authHeader.substring(7)
+  if (scope && !hasScope(apiKey.scopes, scope)) {
+    return { ok: false, status: 403, error: `API key is missing the ${scope} scope` }
+  }
 
-  // Validate API key format
-  if (!apiKey.startsWith('ctx_') || apiKey.length < 32) {
-    return null
+  return { ok: true, apiKey }
+}
+
+/**
+ * Like authorizeApiKey, for routes that also serve anonymous callers: no
+ * Authorization header resolves to a null key, a bad or under-scoped key still fails
+ */
+export async function authorizeOptionalApiKey(
+  request: NextRequest,
+  scope?: ApiKeyScope
+): Promise<ApiKeyAuthResult | { ok: true; apiKey: null }> {
+  if (!request.headers.has('Authorization')) {
+    return { ok: true, apiKey: null }
   }
+  return authorizeApiKey(request, scope)
+}
 
+/**
+ * Resolve a raw API key to its principal; used directly by non-HTTP transports (MCP stdio)
+ */
+export async function resolveApiKey(apiKey: string): Promise<ApiKeyPrincipal | null> {
   try {
-    // Import here to avoid circular dependencies
-    const { db } = await import('@/lib/db')
-    const { apiKeys } = await import('@/lib/db/schema')
-    const { eq, and, gt } = await import('drizzle-orm')
-
-    // Query database for API key
-    const [keyRecord] = await db
-      .select({
-        id: apiKeys.id,
-        userId: apiKeys.userId,
-        isActive: apiKeys.isActive,
-        expiresAt: apiKeys.expiresAt,
-      })
-      .from(apiKeys)
-      .where(
-        and(
-          eq(apiKeys.key, apiKey),
-          eq(apiKeys.isActive, true),
-          gt(apiKeys.expiresAt, new Date())
-        )
-      )
-      .limit(1)
-
-    if (!keyRecord) {
+    const principal = await verifyApiKey(apiKey)
+    if (!principal) {
       console.warn('[Auth] Invalid or expired API key attempt')
-      return null
     }
-
-    // Update last used timestamp asynchronously (don't block)
-    db.update(apiKeys)
-      .set({ lastUsedAt: new Date() })
-      .where(eq(apiKeys.id, keyRecord.id))
-      .catch((error) => {
-        console.error('[Auth] Failed to update API key lastUsedAt:', error)
-      })
-
-    return keyRecord.userId
+    return principal
   } catch (error) {
     console.error('[Auth] API key validation error:', error)
     return null
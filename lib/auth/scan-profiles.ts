@@ -0,0 +1,227 @@
+/**
+ * Scan profiles
+ * A user's saved way into a site behind a login or a cookie wall: cookies,
+ * extra headers and a short step script (see lib/extractors/scan-session.ts).
+ * The session is sealed with AES-256-GCM under SCAN_PROFILE_KEY before it is
+ * stored and is only opened by the scan that uses it. A profile is bound to
+ * one domain and its subdomains, so its cookies never reach another site
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { and, desc, eq, sql } from 'drizzle-orm'
+import { db, scanProfiles, type ScanProfile } from '@/lib/db'
+import { validateSSRF } from '@/lib/utils/ssrf'
+import { normalizeClaimDomain } from '@/lib/compliance/site-ownership'
+import { scanSessionSchema, summarizeScanSession, type ScanSession } from '@/lib/extractors/scan-session'
+
+export const MAX_SCAN_PROFILES_PER_USER = 25
+
+const SEALED_VERSION = 'v1'
+const IV_BYTES = 12
+
+export class ScanProfileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScanProfileError'
+  }
+}
+
+export class ScanProfileNotFoundError extends ScanProfileError {
+  constructor(id: string) {
+    super(`Scan profile ${id} not found`)
+    this.name = 'ScanProfileNotFoundError'
+  }
+}
+
+// The profile's domain doesn't cover the URL being scanned
+export class ScanProfileDomainError extends ScanProfileError {
+  constructor(domain: string, hostname: string) {
+    super(`Scan profile for ${domain} can't be used on ${hostname}`)
+    this.name = 'ScanProfileDomainError'
+  }
+}
+
+// SCAN_PROFILE_KEY isn't configured, so sessions can be neither sealed nor opened
+export class ScanProfilesDisabledError extends Error {
+  constructor() {
+    super('Scan profiles are not configured (SCAN_PROFILE_KEY is not set)')
+    this.name = 'ScanProfilesDisabledError'
+  }
+}
+
+/**
+ * Encrypt a session for storage: `v1:<iv>:<auth tag>:<ciphertext>`, base64 parts
+ */
+export function sealScanSession(session: ScanSession, secret = process.env.SCAN_PROFILE_KEY): string {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv('aes-256-gcm', profileKey(secret), iv)
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()])
+  return [SEALED_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => typeof part === 'string' ? part : part.toString('base64'))
+    .join(':')
+}
+
+/**
+ * Decrypt a sealed session. Throws when it was sealed under another key or tampered with
+ */
+export function openScanSession(sealed: string, secret = process.env.SCAN_PROFILE_KEY): ScanSession {
+  const [version, iv, tag, ciphertext] = sealed.split(':')
+  if (version !== SEALED_VERSION || !iv || !tag || !ciphertext) {
+    throw new ScanProfileError('Unrecognized scan profile format')
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', profileKey(secret), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  const json = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8')
+  return scanSessionSchema.parse(JSON.parse(json))
+}
+
+/**
+ * Whether a profile for `domain` may be used to scan `hostname`
+ */
+export function profileCoversHost(domain: string, hostname: string): boolean {
+  const host = hostname.toLowerCase()
+  return host === domain || host.endsWith(`.${domain}`)
+}
+
+export async function listScanProfiles(userId: string): Promise<ScanProfile[]> {
+  return db
+    .select()
+    .from(scanProfiles)
+    .where(eq(scanProfiles.userId, userId))
+    .orderBy(desc(scanProfiles.createdAt))
+}
+
+export async function findOwnedScanProfile(id: string, userId: string): Promise<ScanProfile | null> {
+  const [profile] = await db
+    .select()
+    .from(scanProfiles)
+    .where(and(eq(scanProfiles.id, id), eq(scanProfiles.userId, userId)))
+    .limit(1)
+
+  return profile ?? null
+}
+
+export async function createScanProfile(
+  userId: string,
+  input: { name: string; domain: string; session: ScanSession }
+): Promise<ScanProfile> {
+  const domain = normalizeClaimDomain(input.domain)
+  await assertStepUrlsAllowed(input.session, domain)
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(scanProfiles)
+    .where(eq(scanProfiles.userId, userId))
+  if (count >= MAX_SCAN_PROFILES_PER_USER) {
+    throw new ScanProfileError(`Scan profile limit reached (${MAX_SCAN_PROFILES_PER_USER} per account)`)
+  }
+
+  const [profile] = await db
+    .insert(scanProfiles)
+    .values({ userId, name: input.name, domain, secretsEncrypted: sealScanSession(input.session) })
+    .returning()
+  return profile
+}
+
+/**
+ * Rename a profile or replace parts of its session (fresh cookies after an SSO
+ * session expires, new steps); parts left out are kept
+ */
+export async function updateScanProfile(
+  userId: string,
+  id: string,
+  input: { name?: string; session?: Partial<ScanSession> }
+): Promise<ScanProfile> {
+  const profile = await findOwnedScanProfile(id, userId)
+  if (!profile) throw new ScanProfileNotFoundError(id)
+
+  const session = input.session
+    ? { ...openScanSession(profile.secretsEncrypted), ...input.session }
+    : null
+  if (session) await assertStepUrlsAllowed(session, profile.domain)
+
+  const [updated] = await db
+    .update(scanProfiles)
+    .set({
+      ...(input.name ? { name: input.name } : {}),
+      ...(session ? { secretsEncrypted: sealScanSession(session) } : {}),
+      updatedAt: new Date()
+    })
+    .where(eq(scanProfiles.id, profile.id))
+    .returning()
+  return updated
+}
+
+export async function deleteScanProfile(userId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(scanProfiles)
+    .where(and(eq(scanProfiles.id, id), eq(scanProfiles.userId, userId)))
+    .returning({ id: scanProfiles.id })
+  return deleted.length > 0
+}
+
+/**
+ * Open a profile's session for a scan of `hostname`. Ownership is checked by
+ * the caller (POST /api/scan) before the scan is run or queued
+ */
+export async function loadScanSession(
+  profileId: string,
+  hostname: string
+): Promise<{ profile: ScanProfile; session: ScanSession }> {
+  const [profile] = await db
+    .select()
+    .from(scanProfiles)
+    .where(eq(scanProfiles.id, profileId))
+    .limit(1)
+
+  if (!profile) throw new ScanProfileNotFoundError(profileId)
+  if (!profileCoversHost(profile.domain, hostname)) {
+    throw new ScanProfileDomainError(profile.domain, hostname)
+  }
+
+  const session = openScanSession(profile.secretsEncrypted)
+  await db.update(scanProfiles).set({ lastUsedAt: new Date() }).where(eq(scanProfiles.id, profile.id))
+  return { profile, session }
+}
+
+/**
+ * A profile as the API returns it: cookie and header names and the steps,
+ * never their values
+ */
+export function serializeScanProfile(profile: ScanProfile, session?: ScanSession) {
+  return {
+    id: profile.id,
+    name: profile.name,
+    domain: profile.domain,
+    ...(session ? summarizeScanSession(session) : {}),
+    lastUsedAt: profile.lastUsedAt?.toISOString() ?? null,
+    createdAt: profile.createdAt.toISOString(),
+    updatedAt: profile.updatedAt.toISOString()
+  }
+}
+
+function profileKey(secret: string | undefined): Buffer {
+  if (!secret) throw new ScanProfilesDisabledError()
+  return createHash('sha256').update(secret).digest()
+}
+
+// Absolute goto steps may leave the profile's domain (an SSO provider) but not for a private address
+async function assertStepUrlsAllowed(session: ScanSession, domain: string) {
+  for (const step of session.steps) {
+    if (step.action !== 'goto') continue
+
+    let url: URL
+    try {
+      url = new URL(step.url, `https://${domain}`)
+    } catch {
+      throw new ScanProfileError(`Invalid URL in goto step: ${step.url}`)
+    }
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      throw new ScanProfileError(`Invalid URL protocol in goto step: ${url.protocol}`)
+    }
+
+    const ssrfError = await validateSSRF(url)
+    if (ssrfError) throw new ScanProfileError(`Invalid URL in goto step: ${ssrfError}`)
+  }
+}
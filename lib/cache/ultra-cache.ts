@@ -57,6 +57,7 @@ export interface CacheKey {
   mode: 'fast' | 'accurate'
   includeComputed: boolean
   version: string
+  depth?: number
 }
 
 export class UltraCache {
@@ -116,7 +117,8 @@ export class UltraCache {
   // Generate cache key for scan request
   private generateCacheKey(params: CacheKey): string {
     const normalized = params.url.toLowerCase().replace(/\/+$/, '') // Remove trailing slashes
-    const keyData = `${normalized}|${params.mode}|${params.includeComputed}|${params.version}`
+    const depthSuffix = params.depth && params.depth > 1 ? `|depth:${params.depth}` : ''
+    const keyData = `${normalized}|${params.mode}|${params.includeComputed}|${params.version}${depthSuffix}`
     return hash('sha256', keyData).toString('hex').slice(0, 16)
   }
 
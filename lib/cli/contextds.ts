@@ -0,0 +1,268 @@
+/**
+ * contextds CLI
+ * Local-first scanning and token diffs for scripts and Makefiles; no database
+ * or web app involved. scripts/contextds.ts is the executable entry point
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import { runLocalScan } from './local-scan'
+import {
+  EXPORT_FORMATS,
+  exportTokens,
+  getFileExtension,
+  type ExportFormat
+} from '@/lib/exporters/comprehensive-token-exporter'
+import { compareTokenSets, generateChangelog } from '@/lib/analyzers/version-diff'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+import type { CrawlDepth } from '@/lib/extractors/site-crawler'
+import {
+  createRecordingFetcher,
+  createReplayFetcher,
+  parseScanArchive,
+  type ScanFetcher
+} from '@/lib/extractors/scan-archive'
+
+export type CliIO = {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+  cwd: string
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliUsageError'
+  }
+}
+
+// Exit codes: 0 ok, 1 failure or (with --fail-on-change) a non-empty diff, 2 bad usage
+const EXIT_OK = 0
+const EXIT_FAILURE = 1
+const EXIT_USAGE = 2
+
+// The full W3C token set; `contextds diff` compares two of these
+const TOKEN_SET_FILE = 'design-tokens.json'
+
+const BOOLEAN_FLAGS = new Set(['computed', 'json', 'fail-on-change', 'help'])
+
+const USAGE = `Usage: contextds <command> [options]
+
+Commands:
+  scan <url>          Extract design tokens from a site
+    --format <list>     Export formats, comma-separated, or "all" (see \`contextds formats\`)
+    --out <dir>         Write ${TOKEN_SET_FILE} plus one <format>.<ext> file per format;
+                        without it a single format (or the token set) goes to stdout
+    --computed          Also collect computed CSS with a headless browser
+    --depth <1-3>       Follow same-origin links this deep (default 1)
+    --max-pages <n>     Page budget when crawling
+    --record <file>     Save every request the scan makes as a HAR archive
+    --replay <file>     Serve every request from a HAR archive instead of the network
+    --json              Print the scan summary as JSON
+
+  diff <old> <new>    Compare two token files (${TOKEN_SET_FILE} or W3C JSON exports)
+    --json              Print the diff as JSON instead of a Markdown changelog
+    --out <file>        Write the result to a file
+    --fail-on-change    Exit with 1 when anything changed
+
+  formats             List export formats
+  help                Show this message
+`
+
+export async function runCli(argv: string[], io: CliIO = defaultIO()): Promise<number> {
+  const { positionals, flags } = parseArgs(argv)
+  const [command, ...args] = positionals
+
+  try {
+    if (!command || command === 'help' || flags.help) {
+      io.stdout(USAGE)
+      return EXIT_OK
+    }
+
+    switch (command) {
+      case 'scan':
+        return await scanCommand(args, flags, io)
+      case 'diff':
+        return await diffCommand(args, flags, io)
+      case 'formats':
+        io.stdout(EXPORT_FORMATS.map(format => `${format.padEnd(18)}.${getFileExtension(format)}`).join('\n') + '\n')
+        return EXIT_OK
+      default:
+        throw new CliUsageError(`Unknown command "${command}"`)
+    }
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr(`contextds: ${error.message}\n\n${USAGE}`)
+      return EXIT_USAGE
+    }
+    io.stderr(`contextds: ${error instanceof Error ? error.message : String(error)}\n`)
+    return EXIT_FAILURE
+  }
+}
+
+async function scanCommand(args: string[], flags: Flags, io: CliIO): Promise<number> {
+  const [url] = args
+  if (!url) throw new CliUsageError('scan needs a URL')
+
+  const formats = parseFormats(flags.format)
+  const depth = parseDepth(flags.depth)
+  const maxPages = flags['max-pages'] ? parsePositiveInteger('max-pages', flags['max-pages']) : undefined
+  const recordPath = stringFlag(flags, 'record')
+  const replayPath = stringFlag(flags, 'replay')
+  const outDir = stringFlag(flags, 'out')
+
+  if (recordPath && replayPath) throw new CliUsageError('--record and --replay can\'t be combined')
+  if (!outDir && formats.length > 1) throw new CliUsageError('several formats need --out <dir>')
+
+  let fetcher: ScanFetcher | undefined
+  if (replayPath) {
+    fetcher = createReplayFetcher(parseScanArchive(JSON.parse(await readFile(resolve(io.cwd, replayPath), 'utf8'))))
+  } else if (recordPath) {
+    fetcher = createRecordingFetcher({ pageUrl: url })
+  }
+
+  const result = await runLocalScan(url, { computed: flags.computed === true, depth, maxPages, fetcher })
+
+  if (recordPath && fetcher) {
+    await writeOutput(resolve(io.cwd, recordPath), JSON.stringify(fetcher.toHar()))
+  }
+
+  const exports = formats.map(format => ({
+    format,
+    content: exportTokens({ format, tokens: result.curatedTokens, metadata: { name: result.domain } })
+  }))
+
+  if (outDir) {
+    const dir = resolve(io.cwd, outDir)
+    const files = [TOKEN_SET_FILE, ...exports.map(({ format }) => `${format}.${getFileExtension(format)}`)]
+
+    await writeOutput(resolve(dir, TOKEN_SET_FILE), JSON.stringify(result.tokenSet, null, 2))
+    for (const [index, { content }] of exports.entries()) {
+      await writeOutput(resolve(dir, files[index + 1]), content)
+    }
+
+    if (flags.json) {
+      io.stdout(JSON.stringify({ ...result.summary, url: result.url, files: files.map(file => resolve(dir, file)) }, null, 2) + '\n')
+    } else {
+      io.stderr(`Scanned ${result.url}: ${result.summary.tokensExtracted} tokens from ${result.summary.cssSources} CSS sources\n`)
+      io.stdout(files.map(file => resolve(dir, file)).join('\n') + '\n')
+    }
+    return EXIT_OK
+  }
+
+  // No --out: stdout carries exactly one document so it can be piped
+  if (flags.json) {
+    io.stdout(JSON.stringify({ ...result.summary, url: result.url }, null, 2) + '\n')
+  } else {
+    io.stdout(exports[0]?.content ?? JSON.stringify(result.tokenSet, null, 2))
+  }
+  return EXIT_OK
+}
+
+async function diffCommand(args: string[], flags: Flags, io: CliIO): Promise<number> {
+  const [oldPath, newPath] = args
+  if (!oldPath || !newPath) throw new CliUsageError('diff needs two token files')
+
+  const [oldTokens, newTokens] = await Promise.all([
+    readTokenFile(resolve(io.cwd, oldPath)),
+    readTokenFile(resolve(io.cwd, newPath))
+  ])
+
+  const diff = compareTokenSets(oldTokens, newTokens)
+  const output = flags.json ? JSON.stringify(diff, null, 2) + '\n' : generateChangelog(diff)
+
+  const outPath = stringFlag(flags, 'out')
+  if (outPath) {
+    await writeOutput(resolve(io.cwd, outPath), output)
+  } else {
+    io.stdout(output)
+  }
+
+  return flags['fail-on-change'] && diff.summary.totalChanges > 0 ? EXIT_FAILURE : EXIT_OK
+}
+
+type Flags = Record<string, string | true | undefined>
+
+function parseArgs(argv: string[]): { positionals: string[]; flags: Flags } {
+  const positionals: string[] = []
+  const flags: Flags = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith('--')) {
+      positionals.push(arg)
+      continue
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2)
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue
+    } else if (BOOLEAN_FLAGS.has(name) || argv[i + 1] === undefined || argv[i + 1].startsWith('--')) {
+      flags[name] = true
+    } else {
+      flags[name] = argv[++i]
+    }
+  }
+
+  return { positionals, flags }
+}
+
+function stringFlag(flags: Flags, name: string): string | undefined {
+  const value = flags[name]
+  if (value === true) throw new CliUsageError(`--${name} needs a value`)
+  return value
+}
+
+function parseFormats(value: Flags[string]): ExportFormat[] {
+  if (value === undefined) return []
+  if (value === true) throw new CliUsageError('--format needs a value')
+  if (value === 'all') return [...EXPORT_FORMATS]
+
+  const formats = value.split(',').map(format => format.trim()).filter(Boolean)
+  const unknown = formats.filter(format => !(EXPORT_FORMATS as string[]).includes(format))
+  if (unknown.length > 0) throw new CliUsageError(`Unknown format ${unknown.map(format => `"${format}"`).join(', ')}`)
+
+  return [...new Set(formats)] as ExportFormat[]
+}
+
+function parseDepth(value: Flags[string]): CrawlDepth {
+  if (value === undefined) return 1
+  const depth = parsePositiveInteger('depth', value)
+  if (depth > 3) throw new CliUsageError('--depth must be 1, 2 or 3')
+  return depth as CrawlDepth
+}
+
+function parsePositiveInteger(name: string, value: string | true): number {
+  const parsed = Number(value)
+  if (value === true || !Number.isInteger(parsed) || parsed < 1) {
+    throw new CliUsageError(`--${name} must be a positive integer`)
+  }
+  return parsed
+}
+
+async function readTokenFile(path: string): Promise<W3CTokenSet> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf8'))
+  } catch (error) {
+    throw new Error(`Can't read token file ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${path} is not a token file`)
+  }
+  return parsed as W3CTokenSet
+}
+
+async function writeOutput(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, content.endsWith('\n') ? content : `${content}\n`, 'utf8')
+}
+
+function defaultIO(): CliIO {
+  return {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    cwd: process.cwd()
+  }
+}
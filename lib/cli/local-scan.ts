@@ -0,0 +1,85 @@
+/**
+ * Local scan
+ * The scan orchestrator's collection and tokenizer steps without Postgres,
+ * caching or AI: CSS in, W3C and curated tokens out
+ */
+
+import { collectStaticPage, type CssSource } from '@/lib/extractors/static-css'
+import { collectComputedCss } from '@/lib/extractors/computed-css'
+import { crawlSite, type CrawlDepth } from '@/lib/extractors/site-crawler'
+import type { ScanFetcher } from '@/lib/extractors/scan-archive'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+import type { CuratedTokenSet } from '@/lib/analyzers/token-curator'
+import { generateTokensFromCss } from '@/lib/workers/token-pipeline'
+
+export type LocalScanOptions = {
+  computed?: boolean // Also collect computed CSS through a headless browser
+  depth?: CrawlDepth
+  maxPages?: number
+  fetcher?: ScanFetcher // Record into, or replay from, a HAR archive
+}
+
+export type LocalScanResult = {
+  url: string
+  domain: string
+  tokenSet: W3CTokenSet
+  curatedTokens: CuratedTokenSet
+  summary: {
+    pages: number
+    cssSources: number
+    tokensExtracted: number
+    confidence: number
+    curatedCount: Record<'colors' | 'fonts' | 'sizes' | 'spacing' | 'radius' | 'shadows', number>
+  }
+}
+
+export async function runLocalScan(url: string, options: LocalScanOptions = {}): Promise<LocalScanResult> {
+  const target = new URL(url.startsWith('http') ? url : `https://${url}`)
+  const depth = options.depth ?? 1
+
+  let staticSources: CssSource[]
+  let pageCount = 1
+
+  if (depth > 1) {
+    const crawl = await crawlSite(target.toString(), { depth, maxPages: options.maxPages, fetcher: options.fetcher })
+    const completed = crawl.pages.filter(page => page.status === 'completed')
+    if (completed.length === 0) {
+      throw new Error(crawl.skippedByRobots.length > 0 ? 'Crawling disallowed by robots.txt' : `No pages of ${target.hostname} could be fetched`)
+    }
+    staticSources = completed.flatMap(page => page.sources)
+    pageCount = completed.length
+  } else {
+    staticSources = (await collectStaticPage(target.toString(), { fetcher: options.fetcher })).sources
+  }
+
+  const computedSources = options.computed
+    ? (await collectComputedCss(target.toString(), { fetcher: options.fetcher })).sources
+    : []
+
+  const metadata = { domain: target.hostname, url: target.toString() }
+  const { cssSources, extraction, curatedTokens } = generateTokensFromCss(
+    [...staticSources, ...computedSources],
+    metadata,
+    { staticSourceCount: staticSources.length }
+  )
+
+  return {
+    ...metadata,
+    tokenSet: extraction.tokenSet,
+    curatedTokens,
+    summary: {
+      pages: pageCount,
+      cssSources: cssSources.length,
+      tokensExtracted: extraction.summary.totalTokens,
+      confidence: extraction.summary.confidence,
+      curatedCount: {
+        colors: curatedTokens.colors.length,
+        fonts: curatedTokens.typography.families.length,
+        sizes: curatedTokens.typography.sizes.length,
+        spacing: curatedTokens.spacing.length,
+        radius: curatedTokens.radius.length,
+        shadows: curatedTokens.shadows.length
+      }
+    }
+  }
+}
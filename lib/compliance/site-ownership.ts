@@ -0,0 +1,351 @@
+/**
+ * Site ownership
+ * Owners claim a domain by publishing a verification token, either as a DNS TXT
+ * record (on the domain or _contextds.<domain>) or in /.well-known/contextds.txt.
+ * A verified owner can opt the site out of scanning or publish an official
+ * token set that outranks crawled ones
+ */
+
+import { randomBytes } from 'crypto'
+import { promises as dns } from 'dns'
+import { and, eq, inArray, ne, sql } from 'drizzle-orm'
+import { db, siteClaims, sites, tokenSets, tokenWatches, type SiteClaim } from '@/lib/db'
+import type { ScanRepository } from '@/lib/db/repositories'
+import { validateSSRF } from '@/lib/utils/ssrf'
+import { importTokens, type ImportFormat, type TokenImportResult } from '@/lib/importers/token-importer'
+import { intelligentCache } from '@/lib/cache/intelligent-cache'
+import { indexSiteColors } from '@/lib/db/color-index'
+import { indexSiteFingerprint } from '@/lib/db/design-fingerprints'
+
+export const VERIFICATION_FILE_PATH = '/.well-known/contextds.txt'
+export const VERIFICATION_RECORD_PREFIX = 'contextds-verification='
+
+const VERIFICATION_FETCH_TIMEOUT = 5000
+const MAX_VERIFICATION_FILE_BYTES = 4096
+const MAX_VERIFICATION_REDIRECTS = 3
+
+export type VerificationMethod = 'dns' | 'well_known'
+
+export type DomainControlCheck =
+  | { verified: true; method: VerificationMethod }
+  | { verified: false; error: string }
+
+// DNS and HTTP lookups used by checkDomainControl (replaced in tests)
+export type OwnershipResolvers = {
+  resolveTxt: (hostname: string) => Promise<string[][]>
+  fetchText: (url: string) => Promise<string | null>
+}
+
+export class SiteOwnershipError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SiteOwnershipError'
+  }
+}
+
+export class InvalidClaimDomainError extends SiteOwnershipError {
+  constructor(input: string) {
+    super(`Invalid domain: ${input}`)
+    this.name = 'InvalidClaimDomainError'
+  }
+}
+
+// Thrown before any fetch when the site owner opted out; never retried
+export class SiteOptedOutError extends Error {
+  constructor(domain: string) {
+    super(`The owner of ${domain} opted out of scanning`)
+    this.name = 'SiteOptedOutError'
+  }
+}
+
+/**
+ * Lowercase hostname without a leading www., the form claims are stored under
+ */
+export function normalizeClaimDomain(input: string): string {
+  let hostname: string
+  try {
+    hostname = new URL(input.includes('://') ? input : `https://${input}`).hostname.toLowerCase()
+  } catch {
+    throw new InvalidClaimDomainError(input)
+  }
+
+  if (!hostname.includes('.') || /^[\d.]+$/.test(hostname) || hostname.includes(':')) {
+    throw new InvalidClaimDomainError(input)
+  }
+  return hostname.replace(/^www\./, '')
+}
+
+/**
+ * Hostnames a claim on `domain` covers: the domain itself and its www. host
+ */
+export function ownershipHostnames(hostname: string): string[] {
+  const bare = hostname.toLowerCase().replace(/^www\./, '')
+  return [bare, `www.${bare}`]
+}
+
+export function verificationRecord(token: string): string {
+  return `${VERIFICATION_RECORD_PREFIX}${token}`
+}
+
+export function claimInstructions(claim: Pick<SiteClaim, 'domain' | 'token'>) {
+  const value = verificationRecord(claim.token)
+  return {
+    dns: { type: 'TXT', name: `_contextds.${claim.domain}`, value },
+    wellKnown: { url: `https://${claim.domain}${VERIFICATION_FILE_PATH}`, content: value }
+  }
+}
+
+/**
+ * Look for the verification token in DNS first, then in the well-known file
+ */
+export async function checkDomainControl(
+  domain: string,
+  token: string,
+  resolvers: OwnershipResolvers = defaultResolvers
+): Promise<DomainControlCheck> {
+  const expected = verificationRecord(token)
+
+  for (const hostname of [`_contextds.${domain}`, domain]) {
+    const records = await resolvers.resolveTxt(hostname).catch(() => [])
+    if (records.some(chunks => chunks.join('').trim() === expected)) {
+      return { verified: true, method: 'dns' }
+    }
+  }
+
+  const file = await resolvers.fetchText(`https://${domain}${VERIFICATION_FILE_PATH}`).catch(() => null)
+  if (file?.split(/\r?\n/).some(line => line.trim() === expected)) {
+    return { verified: true, method: 'well_known' }
+  }
+
+  return {
+    verified: false,
+    error: `No ${expected} TXT record on _contextds.${domain} or ${domain}, and no matching line in ${VERIFICATION_FILE_PATH}`
+  }
+}
+
+/**
+ * Start (or resume) a claim; the token stays the same until the claim is verified
+ */
+export async function createSiteClaim(userId: string, input: string): Promise<SiteClaim> {
+  const domain = normalizeClaimDomain(input)
+
+  const [existing] = await db
+    .select()
+    .from(siteClaims)
+    .where(and(eq(siteClaims.userId, userId), eq(siteClaims.domain, domain)))
+    .limit(1)
+
+  if (existing && existing.status !== 'superseded') return existing
+
+  if (existing) {
+    const [renewed] = await db
+      .update(siteClaims)
+      .set({ status: 'pending', token: randomBytes(16).toString('hex'), method: null, verifiedAt: null, lastError: null })
+      .where(eq(siteClaims.id, existing.id))
+      .returning()
+    return renewed
+  }
+
+  const [claim] = await db
+    .insert(siteClaims)
+    .values({ domain, userId, token: randomBytes(16).toString('hex') })
+    .returning()
+  return claim
+}
+
+/**
+ * Check a pending claim. On success the user becomes the site's owner and any
+ * earlier owner's claim is superseded
+ */
+export async function verifySiteClaim(
+  userId: string,
+  input: string,
+  resolvers: OwnershipResolvers = defaultResolvers
+): Promise<{ claim: SiteClaim; check: DomainControlCheck }> {
+  const domain = normalizeClaimDomain(input)
+
+  const [claim] = await db
+    .select()
+    .from(siteClaims)
+    .where(and(eq(siteClaims.userId, userId), eq(siteClaims.domain, domain)))
+    .limit(1)
+
+  if (!claim || claim.status === 'superseded') {
+    throw new SiteOwnershipError(`No pending claim for ${domain}`)
+  }
+
+  const check = await checkDomainControl(domain, claim.token, resolvers)
+  const now = new Date()
+
+  if (!check.verified) {
+    const [updated] = await db
+      .update(siteClaims)
+      .set({ lastCheckedAt: now, lastError: check.error })
+      .where(eq(siteClaims.id, claim.id))
+      .returning()
+    return { claim: updated, check }
+  }
+
+  const verified = await db.transaction(async (tx: typeof db) => {
+    const [updated] = await tx
+      .update(siteClaims)
+      .set({ status: 'verified', method: check.method, verifiedAt: now, lastCheckedAt: now, lastError: null })
+      .where(eq(siteClaims.id, claim.id))
+      .returning()
+
+    await tx
+      .update(siteClaims)
+      .set({ status: 'superseded' })
+      .where(and(eq(siteClaims.domain, domain), eq(siteClaims.status, 'verified'), ne(siteClaims.id, claim.id)))
+
+    await tx
+      .insert(sites)
+      .values({ domain, status: 'queued', claimedBy: userId, claimedAt: now })
+      .onConflictDoUpdate({ target: sites.domain, set: { claimedBy: userId, claimedAt: now, updatedAt: now } })
+
+    return updated
+  })
+
+  return { claim: verified, check }
+}
+
+/**
+ * Opt a claimed site out of scanning (or back in), on both the bare and the
+ * www. site rows. Opting out also stops the token watches on the domain
+ */
+export async function setSiteOptOut(userId: string, input: string, optOut: boolean) {
+  const site = await getOwnedSite(userId, input)
+
+  await db
+    .update(sites)
+    .set({ ownerOptout: optOut, updatedAt: new Date() })
+    .where(inArray(sites.domain, ownershipHostnames(site.domain)))
+
+  if (optOut) {
+    await db
+      .update(tokenWatches)
+      .set({ isActive: false, lastError: 'Site owner opted out of scanning', updatedAt: new Date() })
+      .where(inArray(tokenWatches.domain, ownershipHostnames(site.domain)))
+  }
+
+  return { domain: site.domain, ownerOptout: optOut }
+}
+
+/**
+ * Publish the owner's own token file as the site's official token set
+ */
+export async function publishOfficialTokenSet(
+  userId: string,
+  input: string,
+  file: { name: string; content: string | object; format?: ImportFormat }
+): Promise<{ tokenSetId: string; versionNumber: number; imported: TokenImportResult }> {
+  const site = await getOwnedSite(userId, input)
+  const imported = importTokens(file.content, { name: file.name, format: file.format })
+
+  const [{ latest }] = await db
+    .select({ latest: sql<number>`COALESCE(MAX(${tokenSets.versionNumber}), 0)::int` })
+    .from(tokenSets)
+    .where(eq(tokenSets.siteId, site.id))
+
+  const [tokenSet] = await db
+    .insert(tokenSets)
+    .values({
+      siteId: site.id,
+      scanId: null,
+      versionNumber: latest + 1,
+      tokensJson: imported.tokenSet,
+      consensusScore: '1.00',
+      isPublic: true,
+      isOfficial: true,
+      createdBy: userId
+    })
+    .returning({ id: tokenSets.id, versionNumber: tokenSets.versionNumber })
+
+  // get_tokens caches, and color search and similar sites index, the top-ranked set per site
+  await intelligentCache.invalidate(`tokens:${site.id}`)
+  await indexSiteColors(site.id)
+  await indexSiteFingerprint(site.id)
+
+  return { tokenSetId: tokenSet.id, versionNumber: tokenSet.versionNumber, imported }
+}
+
+/**
+ * Refuse to scan a host whose owner opted out; checked by runScanJob and the
+ * MCP scan_tokens tool before anything is fetched
+ */
+export async function assertScanAllowed(repository: ScanRepository, hostname: string): Promise<void> {
+  for (const candidate of ownershipHostnames(hostname)) {
+    const site = await repository.sites.findByDomain(candidate)
+    if (site?.ownerOptout) {
+      throw new SiteOptedOutError(hostname)
+    }
+  }
+}
+
+export function serializeSiteClaim(claim: SiteClaim) {
+  return {
+    id: claim.id,
+    domain: claim.domain,
+    status: claim.status,
+    method: claim.method,
+    verifiedAt: claim.verifiedAt?.toISOString() ?? null,
+    lastCheckedAt: claim.lastCheckedAt?.toISOString() ?? null,
+    lastError: claim.lastError,
+    createdAt: claim.createdAt.toISOString(),
+    instructions: claim.status === 'pending' ? claimInstructions(claim) : undefined
+  }
+}
+
+async function getOwnedSite(userId: string, input: string) {
+  const domain = normalizeClaimDomain(input)
+
+  const [site] = await db
+    .select({ id: sites.id, domain: sites.domain, claimedBy: sites.claimedBy })
+    .from(sites)
+    .where(eq(sites.domain, domain))
+    .limit(1)
+
+  if (!site || site.claimedBy !== userId) {
+    throw new SiteOwnershipError(`Verify your claim on ${domain} first`)
+  }
+  return site
+}
+
+const defaultResolvers: OwnershipResolvers = {
+  resolveTxt: hostname => dns.resolveTxt(hostname),
+  fetchText: fetchVerificationFile
+}
+
+/**
+ * Fetch the well-known file, following redirects only between the domain and
+ * its www. host
+ */
+async function fetchVerificationFile(url: string): Promise<string | null> {
+  let target = new URL(url)
+  const allowedHosts = ownershipHostnames(target.hostname)
+
+  for (let hop = 0; hop <= MAX_VERIFICATION_REDIRECTS; hop++) {
+    if (target.protocol !== 'https:' || !allowedHosts.includes(target.hostname) || await validateSSRF(target)) {
+      return null
+    }
+
+    const response = await fetch(target, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(VERIFICATION_FETCH_TIMEOUT),
+      headers: { 'User-Agent': 'ContextDS-Verifier/1.0' }
+    })
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      target = new URL(location, target)
+      continue
+    }
+
+    const contentLength = Number(response.headers.get('content-length') ?? 0)
+    if (!response.ok || contentLength > MAX_VERIFICATION_FILE_BYTES) return null
+    const text = await response.text()
+    return text.slice(0, MAX_VERIFICATION_FILE_BYTES)
+  }
+
+  return null
+}
@@ -152,4 +152,46 @@ export function getWCAGBadgeColor(level: WCAGLevel): string {
     case 'Fail':
       return 'bg-red-500'
   }
-}
\ No newline at end of file
+}
+
+/**
+ * APCA lightness contrast (Lc) of text on a background
+ * Based on APCA-W3 0.0.98G: https://github.com/Myndex/apca-w3
+ * Positive for dark text on light backgrounds, negative for light on dark.
+ * Roughly: |Lc| 75 for body text, 60 for other content text, 45 for large text
+ */
+export function getAPCAContrast(text: string, background: string): number | null {
+  const textRgb = hexToRgb(text)
+  const backgroundRgb = hexToRgb(background)
+
+  if (!textRgb || !backgroundRgb) return null
+
+  const textY = apcaLuminance(textRgb.r, textRgb.g, textRgb.b)
+  const backgroundY = apcaLuminance(backgroundRgb.r, backgroundRgb.g, backgroundRgb.b)
+
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0
+
+  let contrast: number
+  if (backgroundY > textY) {
+    // Dark text on a light background
+    const sapc = (Math.pow(backgroundY, 0.56) - Math.pow(textY, 0.57)) * 1.14
+    contrast = sapc < 0.1 ? 0 : sapc - 0.027
+  } else {
+    // Light text on a dark background
+    const sapc = (Math.pow(backgroundY, 0.65) - Math.pow(textY, 0.62)) * 1.14
+    contrast = sapc > -0.1 ? 0 : sapc + 0.027
+  }
+
+  return contrast * 100
+}
+
+/**
+ * Screen luminance as APCA estimates it, with the soft clamp for near-black
+ */
+function apcaLuminance(r: number, g: number, b: number): number {
+  const y = 0.2126729 * Math.pow(r / 255, 2.4) +
+    0.7151522 * Math.pow(g / 255, 2.4) +
+    0.0721750 * Math.pow(b / 255, 2.4)
+
+  return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y
+}
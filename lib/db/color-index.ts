@@ -0,0 +1,200 @@
+/**
+ * Color index
+ * Keeps token_colors in step with each site's top-ranked public token set and
+ * answers color and palette similarity searches against it. SQL narrows the
+ * candidates with component ranges; the exact distance is computed here
+ */
+
+import { and, asc, desc, eq, gte, lte, or, sql, type SQL } from 'drizzle-orm'
+import { db } from './index'
+import { sites, tokenColors, tokenSets } from './schema'
+import {
+  collectTokenColors,
+  colorDistance,
+  colorSearchBox,
+  rankColorMatches,
+  rankPaletteMatches,
+  scorePalette,
+  type ColorMetric,
+  type ColorPoint,
+  type PaletteScore
+} from '@/lib/analyzers/color-search'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+
+// Upper bound on rows pulled for exact scoring per search
+const CANDIDATE_LIMIT = 5000
+
+export interface ColorSearchMatch {
+  siteId: string
+  domain: string
+  tokenSetId: string
+  path: string
+  hex: string
+  usage: number
+  distance: number
+}
+
+export interface PaletteSearchMatch extends PaletteScore {
+  siteId: string
+  domain: string
+  tokenSetId: string
+  popularity: number
+}
+
+/**
+ * Re-index a site's colors from its top-ranked public token set (the official
+ * set when there is one, otherwise the latest). Returns the number of colors
+ */
+export async function indexSiteColors(siteId: string): Promise<number> {
+  const [tokenSet] = await db
+    .select({ id: tokenSets.id, tokensJson: tokenSets.tokensJson })
+    .from(tokenSets)
+    .where(and(eq(tokenSets.siteId, siteId), eq(tokenSets.isPublic, true)))
+    .orderBy(desc(tokenSets.isOfficial), desc(tokenSets.createdAt))
+    .limit(1)
+
+  const colors = tokenSet ? collectTokenColors(tokenSet.tokensJson as W3CTokenSet) : []
+
+  await db.transaction(async (tx: typeof db) => {
+    await tx.delete(tokenColors).where(eq(tokenColors.siteId, siteId))
+    if (!colors.length) return
+
+    await tx.insert(tokenColors).values(colors.map(color => ({
+      tokenSetId: tokenSet.id,
+      siteId,
+      path: color.path.slice(0, 255),
+      hex: color.hex,
+      labL: color.lab.l,
+      labA: color.lab.a,
+      labB: color.lab.b,
+      okL: color.oklch.l,
+      okC: color.oklch.c,
+      okH: color.oklch.h,
+      usage: color.usage
+    })))
+  })
+
+  return colors.length
+}
+
+/**
+ * Token colors across all scanned sites within `distance` of a color, closest
+ * first, then by usage
+ */
+export async function findSimilarColors(params: {
+  color: ColorPoint
+  metric: ColorMetric
+  distance: number
+  limit: number
+  offset?: number
+}): Promise<{ results: ColorSearchMatch[]; total: number }> {
+  const rows = await selectCandidates([params.color], params.metric, params.distance)
+
+  const matches = rankColorMatches(
+    rows
+      .map(row => ({
+        siteId: row.siteId,
+        domain: row.domain,
+        tokenSetId: row.tokenSetId,
+        path: row.path,
+        hex: row.hex,
+        usage: row.usage,
+        distance: Math.round(colorDistance(params.color, row, params.metric) * 1000) / 1000
+      }))
+      .filter(match => match.distance <= params.distance)
+  )
+
+  const offset = params.offset ?? 0
+  return { results: matches.slice(offset, offset + params.limit), total: matches.length }
+}
+
+/**
+ * Sites whose colors cover a palette: each palette color is matched to the
+ * site's nearest color within `distance`
+ */
+export async function findSimilarPalettes(params: {
+  palette: ColorPoint[]
+  metric: ColorMetric
+  distance: number
+  minCoverage: number
+  limit: number
+  offset?: number
+}): Promise<{ results: PaletteSearchMatch[]; total: number }> {
+  const rows = await selectCandidates(params.palette, params.metric, params.distance)
+
+  const bySite = new Map<string, typeof rows>()
+  rows.forEach(row => bySite.set(row.siteId, [...(bySite.get(row.siteId) ?? []), row]))
+
+  const matches = rankPaletteMatches(
+    Array.from(bySite.values())
+      .map(siteRows => ({
+        siteId: siteRows[0].siteId,
+        domain: siteRows[0].domain,
+        tokenSetId: siteRows[0].tokenSetId,
+        popularity: siteRows[0].popularity,
+        ...scorePalette(params.palette, siteRows, params.metric, params.distance)
+      }))
+      .filter(match => match.coverage >= params.minCoverage)
+  )
+
+  const offset = params.offset ?? 0
+  return { results: matches.slice(offset, offset + params.limit), total: matches.length }
+}
+
+async function selectCandidates(points: ColorPoint[], metric: ColorMetric, distance: number) {
+  const boxes = points.map(point => {
+    const box = colorSearchBox(point, distance)
+    return metric === 'de2000'
+      ? and(
+        gte(tokenColors.labL, box.lab.l[0]), lte(tokenColors.labL, box.lab.l[1]),
+        gte(tokenColors.labA, box.lab.a[0]), lte(tokenColors.labA, box.lab.a[1]),
+        gte(tokenColors.labB, box.lab.b[0]), lte(tokenColors.labB, box.lab.b[1])
+      )
+      : and(
+        gte(tokenColors.okL, box.oklch.l[0]), lte(tokenColors.okL, box.oklch.l[1]),
+        gte(tokenColors.okC, box.oklch.c[0]), lte(tokenColors.okC, box.oklch.c[1])
+      )
+  }) as SQL[]
+
+  const rows = await db
+    .select({
+      siteId: tokenColors.siteId,
+      domain: sites.domain,
+      popularity: sites.popularity,
+      tokenSetId: tokenColors.tokenSetId,
+      path: tokenColors.path,
+      hex: tokenColors.hex,
+      usage: tokenColors.usage,
+      labL: tokenColors.labL,
+      labA: tokenColors.labA,
+      labB: tokenColors.labB,
+      okL: tokenColors.okL,
+      okC: tokenColors.okC,
+      okH: tokenColors.okH
+    })
+    .from(tokenColors)
+    .innerJoin(sites, eq(tokenColors.siteId, sites.id))
+    .where(and(eq(sites.ownerOptout, false), or(...boxes)))
+    .orderBy(desc(sites.popularity), asc(sql`abs(${tokenColors.labL} - ${points[0].lab.l})`))
+    .limit(CANDIDATE_LIMIT)
+
+  return (rows as Array<{
+    siteId: string
+    domain: string
+    popularity: number
+    tokenSetId: string
+    path: string
+    hex: string
+    usage: number
+    labL: number
+    labA: number
+    labB: number
+    okL: number
+    okC: number
+    okH: number
+  }>).map(row => ({
+    ...row,
+    lab: { l: row.labL, a: row.labA, b: row.labB },
+    oklch: { l: row.okL, c: row.okC, h: row.okH }
+  }))
+}
@@ -0,0 +1,134 @@
+/**
+ * Design fingerprints
+ * Keeps one fingerprint per site and finds the sites with the most similar
+ * design systems. A numeric distance over the fingerprint columns shortlists
+ * neighbours; the shortlist is then ranked by the full per-dimension comparison
+ */
+
+import { and, desc, eq, ne, sql } from 'drizzle-orm'
+import { db } from './index'
+import { designFingerprints, layoutProfiles, sites, tokenSets } from './schema'
+import {
+  buildDesignFingerprint,
+  compareFingerprints,
+  fingerprintVector,
+  type DesignFingerprint,
+  type FingerprintComparison
+} from '@/lib/analyzers/design-fingerprint'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+
+// Neighbours pulled by the numeric shortlist before the full comparison
+const SHORTLIST_SIZE = 200
+
+export interface SimilarSite extends FingerprintComparison {
+  siteId: string
+  domain: string
+  title: string | null
+  favicon: string | null
+  popularity: number
+}
+
+/**
+ * Rebuild a site's fingerprint from its top-ranked public token set (official
+ * first, then latest) and latest layout profile. Returns null when the site
+ * has no public token set
+ */
+export async function indexSiteFingerprint(siteId: string): Promise<DesignFingerprint | null> {
+  const [tokenSet] = await db
+    .select({ id: tokenSets.id, tokensJson: tokenSets.tokensJson })
+    .from(tokenSets)
+    .where(and(eq(tokenSets.siteId, siteId), eq(tokenSets.isPublic, true)))
+    .orderBy(desc(tokenSets.isOfficial), desc(tokenSets.createdAt))
+    .limit(1)
+
+  if (!tokenSet) {
+    await db.delete(designFingerprints).where(eq(designFingerprints.siteId, siteId))
+    return null
+  }
+
+  const [layout] = await db
+    .select({ id: layoutProfiles.id, archetypes: layoutProfiles.archetypes, profileJson: layoutProfiles.profileJson })
+    .from(layoutProfiles)
+    .where(eq(layoutProfiles.siteId, siteId))
+    .orderBy(desc(layoutProfiles.createdAt))
+    .limit(1)
+
+  const fingerprint = buildDesignFingerprint(tokenSet.tokensJson as W3CTokenSet, layout ?? null)
+  const values = {
+    tokenSetId: tokenSet.id,
+    layoutProfileId: layout?.id ?? null,
+    fingerprint,
+    ...fingerprintVector(fingerprint),
+    updatedAt: new Date()
+  }
+
+  await db
+    .insert(designFingerprints)
+    .values({ siteId, ...values })
+    .onConflictDoUpdate({ target: designFingerprints.siteId, set: values })
+
+  return fingerprint
+}
+
+/**
+ * Sites whose design systems are closest to the given site's, best first, each
+ * with the dimensions that matched
+ */
+export async function findSimilarSites(siteId: string, limit = 6): Promise<SimilarSite[]> {
+  const [own] = await db
+    .select()
+    .from(designFingerprints)
+    .where(eq(designFingerprints.siteId, siteId))
+    .limit(1)
+
+  const fingerprint = (own?.fingerprint as DesignFingerprint | undefined) ?? await indexSiteFingerprint(siteId)
+  if (!fingerprint) return []
+
+  const vector = fingerprintVector(fingerprint)
+  // Missing values on either side count as a fixed penalty instead of dropping the row
+  const term = (column: unknown, value: number | null, scale: number) =>
+    value === null
+      ? sql`1`
+      : sql`COALESCE(power((${column} - ${value}) / ${scale}, 2), 1)`
+
+  const rows = await db
+    .select({
+      siteId: designFingerprints.siteId,
+      fingerprint: designFingerprints.fingerprint,
+      domain: sites.domain,
+      title: sites.title,
+      favicon: sites.favicon,
+      popularity: sites.popularity
+    })
+    .from(designFingerprints)
+    .innerJoin(sites, eq(designFingerprints.siteId, sites.id))
+    .where(and(ne(designFingerprints.siteId, siteId), eq(sites.ownerOptout, false)))
+    .orderBy(sql`
+      ${term(designFingerprints.paletteL, vector.paletteL, 25)} +
+      ${term(designFingerprints.paletteA, vector.paletteA, 25)} +
+      ${term(designFingerprints.paletteB, vector.paletteB, 25)} +
+      ${term(designFingerprints.typeScaleRatio, vector.typeScaleRatio, 0.15)} +
+      ${term(designFingerprints.spacingBase, vector.spacingBase, 4)} +
+      ${term(designFingerprints.radiusBase, vector.radiusBase, 8)}
+    `)
+    .limit(SHORTLIST_SIZE)
+
+  return (rows as Array<{
+    siteId: string
+    fingerprint: DesignFingerprint
+    domain: string
+    title: string | null
+    favicon: string | null
+    popularity: number
+  }>)
+    .map(row => ({
+      siteId: row.siteId,
+      domain: row.domain,
+      title: row.title,
+      favicon: row.favicon,
+      popularity: row.popularity,
+      ...compareFingerprints(fingerprint, row.fingerprint)
+    }))
+    .sort((first, second) => second.score - first.score || second.popularity - first.popularity)
+    .slice(0, limit)
+}
@@ -0,0 +1,38 @@
+-- Token drift watches
+-- Scheduled re-scans that persist a new token version only when the token digest changes
+
+-- 1. Cadence enum
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'watch_cadence') THEN
+    CREATE TYPE watch_cadence AS ENUM ('hourly', 'daily', 'weekly');
+  END IF;
+END
+$$;
+
+-- 2. Watches table
+CREATE TABLE IF NOT EXISTS token_watches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID REFERENCES sites(id) ON DELETE CASCADE,
+  domain VARCHAR(255) NOT NULL,
+  url TEXT NOT NULL,
+  cadence watch_cadence NOT NULL DEFAULT 'daily',
+  depth INTEGER NOT NULL DEFAULT 1,
+  webhook_url TEXT,
+  webhook_secret VARCHAR(64),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_run_at TIMESTAMP,
+  last_token_hash VARCHAR(64),
+  last_version_id UUID REFERENCES token_versions(id) ON DELETE SET NULL,
+  last_error TEXT,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT token_watches_owner_url_unique UNIQUE (created_by, url)
+);
+
+-- 3. Index for the cron claim query (active watches ordered by due time)
+CREATE INDEX IF NOT EXISTS idx_token_watches_due ON token_watches(next_run_at) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_token_watches_site ON token_watches(site_id);
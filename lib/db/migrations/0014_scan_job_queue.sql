@@ -0,0 +1,41 @@
+-- Scan job queue
+-- Submissions become a durable Postgres queue consumed by the standalone scan worker
+-- (SELECT ... FOR UPDATE SKIP LOCKED), with progress events relayed for SSE clients
+
+-- 1. Terminal states for failed and cancelled jobs
+ALTER TYPE submission_status ADD VALUE IF NOT EXISTS 'failed';
+ALTER TYPE submission_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+-- 2. Queue columns
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS domain VARCHAR(255);
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS options JSONB;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS run_at TIMESTAMP NOT NULL DEFAULT NOW();
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS locked_by VARCHAR(100);
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS cancel_requested BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS scan_id UUID REFERENCES scans(id) ON DELETE SET NULL;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS result_json JSONB;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS finished_at TIMESTAMP;
+
+-- Existing submissions predate the worker; derive their domain for the per-domain
+-- checks. They have no options, so the worker never claims them
+UPDATE submissions
+SET domain = substring(url FROM '^(?:https?://)?([^/:?#]+)')
+WHERE domain IS NULL;
+
+-- 3. Indexes for the claim query (priority lanes) and per-domain concurrency checks
+CREATE INDEX IF NOT EXISTS idx_submissions_claim ON submissions(status, priority, run_at);
+CREATE INDEX IF NOT EXISTS idx_submissions_domain ON submissions(domain, status);
+
+-- 4. Progress events relayed from the worker
+CREATE TABLE IF NOT EXISTS scan_job_events (
+  id SERIAL PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  event JSONB NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_job_events_submission ON scan_job_events(submission_id, id);
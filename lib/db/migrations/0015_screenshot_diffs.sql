@@ -0,0 +1,45 @@
+-- Screenshot visual regression
+-- screenshots keeps only the latest capture per site and viewport, so captures are
+-- also recorded per scan. History rows do not hold a reference count: old content
+-- stays diffable until cleanup_orphaned_screenshots() removes it after its TTL
+
+-- 1. Per-scan screenshot history
+CREATE TABLE IF NOT EXISTS screenshot_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  scan_id UUID NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  sha VARCHAR(64) NOT NULL REFERENCES screenshot_content(sha) ON DELETE CASCADE,
+  viewport VARCHAR(50) NOT NULL,
+  captured_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT screenshot_history_scan_viewport_unique UNIQUE (scan_id, viewport)
+);
+
+CREATE INDEX IF NOT EXISTS idx_screenshot_history_site ON screenshot_history(site_id, captured_at DESC);
+
+-- 2. Seed history with the screenshots that already exist
+INSERT INTO screenshot_history (site_id, scan_id, sha, viewport, captured_at)
+SELECT site_id, scan_id, sha, viewport, captured_at FROM screenshots
+ON CONFLICT (scan_id, viewport) DO NOTHING;
+
+-- 3. Pixel diffs between two scans of the same site
+CREATE TABLE IF NOT EXISTS screenshot_diffs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  base_scan_id UUID NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  target_scan_id UUID NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES token_versions(id) ON DELETE SET NULL,
+  viewport VARCHAR(50) NOT NULL,
+  base_sha VARCHAR(64) NOT NULL,
+  target_sha VARCHAR(64) NOT NULL,
+  diff_url TEXT,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  changed_pixels INTEGER NOT NULL DEFAULT 0,
+  changed_percent DECIMAL(6, 3) NOT NULL DEFAULT 0,
+  regions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT screenshot_diffs_scans_viewport_unique UNIQUE (base_scan_id, target_scan_id, viewport)
+);
+
+CREATE INDEX IF NOT EXISTS idx_screenshot_diffs_site ON screenshot_diffs(site_id);
+CREATE INDEX IF NOT EXISTS idx_screenshot_diffs_version ON screenshot_diffs(version_id);
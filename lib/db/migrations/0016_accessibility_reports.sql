@@ -0,0 +1,20 @@
+-- WCAG reports from the accessibility analyzer
+-- Accurate-mode scans audit the rendered page; layout_profiles.accessibility keeps
+-- the CSS heuristics. One report per scan, trended per site by created_at
+
+CREATE TABLE IF NOT EXISTS accessibility_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  scan_id UUID NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  token_set_id UUID REFERENCES token_sets(id) ON DELETE SET NULL,
+  url TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  level VARCHAR(20) NOT NULL,
+  violation_count INTEGER NOT NULL DEFAULT 0,
+  critical_count INTEGER NOT NULL DEFAULT 0,
+  report_json JSONB NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT accessibility_reports_scan_unique UNIQUE (scan_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accessibility_reports_site ON accessibility_reports(site_id, created_at DESC);
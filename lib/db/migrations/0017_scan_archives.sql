@@ -0,0 +1,9 @@
+-- Scan archives
+-- archive_url points at a HAR of every request a scan made (static fetches and
+-- browser requests). Replayed scans are served from another scan's archive and
+-- point back at it through replay_of_scan_id
+
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS archive_url TEXT;
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS replay_of_scan_id UUID REFERENCES scans(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scans_replay_of ON scans(replay_of_scan_id) WHERE replay_of_scan_id IS NOT NULL;
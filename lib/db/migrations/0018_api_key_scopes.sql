@@ -0,0 +1,11 @@
+-- Hashed, scoped API keys
+-- Keys are looked up by prefix and verified against key_hash; permissions holds
+-- the scope list. monthly_quota caps a key below its owner's subscription scan
+-- quota, and usage is counted from mcp_usage rows carrying the key id
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS monthly_quota INTEGER;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rotated_from_id UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_prefix ON api_keys(prefix);
+CREATE INDEX IF NOT EXISTS idx_mcp_usage_api_key ON mcp_usage(api_key_id, created_at) WHERE api_key_id IS NOT NULL;
@@ -0,0 +1,27 @@
+-- Site ownership
+-- Owners prove control of a domain with a DNS TXT record or a
+-- /.well-known/contextds.txt file. A verified claim lets them opt the site out
+-- of scanning (sites.owner_optout) or publish an official token set that
+-- outranks crawled ones
+
+CREATE TABLE IF NOT EXISTS site_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain VARCHAR(255) NOT NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token VARCHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  method VARCHAR(20),
+  verified_at TIMESTAMP,
+  last_checked_at TIMESTAMP,
+  last_error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT site_claims_user_domain_unique UNIQUE (user_id, domain)
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_claims_domain ON site_claims(domain, status);
+
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS claimed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP;
+
+ALTER TABLE token_sets ADD COLUMN IF NOT EXISTS is_official BOOLEAN NOT NULL DEFAULT FALSE;
+CREATE INDEX IF NOT EXISTS idx_token_sets_official ON token_sets(site_id, created_at DESC) WHERE is_official = TRUE;
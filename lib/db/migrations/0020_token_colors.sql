@@ -0,0 +1,25 @@
+-- Color search index
+-- One row per opaque color token of each site's current public token set,
+-- stored in CIELAB (for ΔE2000) and OKLCH (for OKLab distance). Searches
+-- prefilter on the component ranges below and compute the exact distance in
+-- the app
+
+CREATE TABLE IF NOT EXISTS token_colors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_set_id UUID NOT NULL REFERENCES token_sets(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  path VARCHAR(255) NOT NULL,
+  hex VARCHAR(7) NOT NULL,
+  lab_l REAL NOT NULL,
+  lab_a REAL NOT NULL,
+  lab_b REAL NOT NULL,
+  ok_l REAL NOT NULL,
+  ok_c REAL NOT NULL,
+  ok_h REAL NOT NULL,
+  usage INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_colors_lab ON token_colors(lab_l, lab_a, lab_b);
+CREATE INDEX IF NOT EXISTS idx_token_colors_oklch ON token_colors(ok_l, ok_c);
+CREATE INDEX IF NOT EXISTS idx_token_colors_site ON token_colors(site_id);
@@ -0,0 +1,23 @@
+-- Design fingerprints
+-- One row per site summarising its top-ranked token set and latest layout
+-- profile (palette, type scale ratio, spacing base, radii, archetypes). The
+-- numeric columns shortlist nearest neighbours for /api/sites/:domain/similar;
+-- the full comparison runs on the fingerprint JSON
+
+CREATE TABLE IF NOT EXISTS design_fingerprints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  token_set_id UUID NOT NULL REFERENCES token_sets(id) ON DELETE CASCADE,
+  layout_profile_id UUID REFERENCES layout_profiles(id) ON DELETE SET NULL,
+  fingerprint JSONB NOT NULL,
+  palette_l REAL,
+  palette_a REAL,
+  palette_b REAL,
+  type_scale_ratio REAL,
+  spacing_base REAL,
+  radius_base REAL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT design_fingerprints_site_unique UNIQUE (site_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_design_fingerprints_palette ON design_fingerprints(palette_l, palette_a, palette_b);
@@ -0,0 +1,8 @@
+-- CSSOM sources
+-- Accurate scans now read rules CSS-in-JS libraries inject through the CSSOM
+-- (insertRule, constructable stylesheets). They are stored as css_sources of
+-- kind 'cssom', tagged with the library that injected them
+
+ALTER TYPE css_source_kind ADD VALUE IF NOT EXISTS 'cssom';
+
+ALTER TABLE css_sources ADD COLUMN IF NOT EXISTS library VARCHAR(40);
@@ -0,0 +1,18 @@
+-- Scan profiles
+-- Cookies, extra headers and a short login step script that let a user scan
+-- pages behind a login or a cookie wall (their own staging apps behind SSO).
+-- The secrets are sealed with AES-256-GCM under SCAN_PROFILE_KEY before they
+-- are stored; only the profile name and domain are readable here
+
+CREATE TABLE IF NOT EXISTS scan_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  domain VARCHAR(255) NOT NULL,
+  secrets_encrypted TEXT NOT NULL,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_profiles_user ON scan_profiles(user_id, created_at);
@@ -0,0 +1,5 @@
+-- Scan job metering
+-- Queued scans made with an API key count against that key's scan quota when
+-- the worker finishes them, not when they are enqueued
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL;
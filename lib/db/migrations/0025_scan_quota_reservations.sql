@@ -0,0 +1,6 @@
+-- Scan quota reservations
+-- Keyed scans take their mcp_usage row before they run, under a per-key lock, so
+-- concurrent requests can't overdraw the quota; a failed or cancelled scan
+-- hands the row back. Queued jobs keep the reserved row until they finish
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS quota_usage_id UUID REFERENCES mcp_usage(id) ON DELETE SET NULL;
@@ -0,0 +1,8 @@
+-- Token watch jobs
+-- The token-watch cron queues each due watch as a scan job instead of crawling
+-- inline; the worker reports drift to the watch when the job completes. A watch
+-- with a job still queued or running is skipped until its next run
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS watch_id UUID REFERENCES token_watches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_watch ON submissions(watch_id, status);
@@ -208,17 +208,28 @@ export async function findSiteByDomain(domain: string) {
 
 /**
  * Ultra-fast token set lookup with version tracking
+ * Only public sets count; a profile scan's private set is never a site's latest version.
+ * An owner's official set ranks ahead of crawled ones unless `crawledOnly` is set
  */
-export async function getLatestTokenSet(siteId: string) {
+export async function getLatestTokenSet(siteId: string, options: { crawledOnly?: boolean } = {}) {
   const startTime = performance.now()
 
   try {
     const result = await db.execute(sql`
-      SELECT ts.*, tv.version_number as latest_version
+      SELECT
+        ts.id,
+        ts.site_id AS "siteId",
+        ts.scan_id AS "scanId",
+        ts.version_number AS "versionNumber",
+        ts.tokens_json AS "tokensJson",
+        ts.created_at AS "createdAt",
+        tv.id AS "tokenVersionId",
+        tv.version_number AS "latestVersion"
       FROM token_sets ts
       LEFT JOIN token_versions tv ON tv.token_set_id = ts.id
-      WHERE ts.site_id = ${siteId}
-      ORDER BY ts.version_number DESC, tv.version_number DESC
+      WHERE ts.site_id = ${siteId} AND ts.is_public = TRUE
+        ${options.crawledOnly ? sql`AND ts.is_official = FALSE` : sql``}
+      ORDER BY ts.is_official DESC, ts.version_number DESC, tv.version_number DESC
       LIMIT 1
     `)
 
@@ -283,11 +294,11 @@ export async function batchInsertCssSources(scanId: string, sources: any[]) {
     for (let i = 0; i < sources.length; i += BATCH_SIZE) {
       const batch = sources.slice(i, i + BATCH_SIZE)
       const values = batch.map(source =>
-        `('${randomUUID()}', '${scanId}', ${source.url ? `'${source.url.replace(/'/g, "''")}'` : 'NULL'}, '${source.kind}', ${source.bytes}, '${source.sha}', NOW())`
+        `('${randomUUID()}', '${scanId}', ${source.url ? `'${source.url.replace(/'/g, "''")}'` : 'NULL'}, '${source.kind}', ${source.library ? `'${source.library.replace(/'/g, "''")}'` : 'NULL'}, ${source.bytes}, '${source.sha}', NOW())`
       ).join(',')
 
       batches.push(db.execute(sql`
-        INSERT INTO css_sources (id, scan_id, url, kind, bytes, sha, created_at)
+        INSERT INTO css_sources (id, scan_id, url, kind, library, bytes, sha, created_at)
         VALUES ${sql.raw(values)}
       `))
     }
@@ -316,8 +327,8 @@ export async function completeScanTransaction(scanData: any) {
     const result = await db.transaction(async (tx) => {
       // 1. Insert token set
       const [tokenSet] = await tx.execute(sql`
-        INSERT INTO token_sets (id, site_id, scan_id, version_number, tokens_json, pack_json, consensus_score, is_public, created_at, updated_at)
-        VALUES (${randomUUID()}, ${scanData.siteId}, ${scanData.scanId}, ${scanData.versionNumber}, ${JSON.stringify(scanData.tokensJson)}, ${JSON.stringify(scanData.packJson)}, ${scanData.consensusScore}, true, NOW(), NOW())
+        INSERT INTO token_sets (id, site_id, scan_id, version_number, tokens_json, pack_json, consensus_score, is_public, created_by, created_at, updated_at)
+        VALUES (${randomUUID()}, ${scanData.siteId}, ${scanData.scanId}, ${scanData.versionNumber}, ${JSON.stringify(scanData.tokensJson)}, ${JSON.stringify(scanData.packJson)}, ${scanData.consensusScore}, ${scanData.isPublic ?? true}, ${scanData.createdBy ?? null}, NOW(), NOW())
         RETURNING *
       `)
 
@@ -361,6 +372,42 @@ export async function completeScanTransaction(scanData: any) {
   }
 }
 
+/**
+ * Finish a scan whose tokens match the latest stored version
+ * Records the scan outcome without writing a duplicate token set
+ */
+export async function completeUnchangedScan(scanData: {
+  siteId: string
+  scanId: string
+  cssSourceCount: number
+  sha: string
+  metricsJson: unknown
+}) {
+  const startTime = performance.now()
+
+  try {
+    await Promise.all([
+      db.execute(sql`
+        UPDATE scans
+        SET finished_at = NOW(), css_source_count = ${scanData.cssSourceCount}, sha = ${scanData.sha}, metrics_json = ${JSON.stringify(scanData.metricsJson)}
+        WHERE id = ${scanData.scanId}
+      `),
+      db.execute(sql`
+        UPDATE sites
+        SET status = 'completed', last_scanned = NOW()
+        WHERE id = ${scanData.siteId}
+      `)
+    ])
+
+    const duration = performance.now() - startTime
+    updateMetrics('completeUnchangedScan', duration)
+  } catch (error) {
+    const duration = performance.now() - startTime
+    updateMetrics('completeUnchangedScan', duration, true)
+    throw error
+  }
+}
+
 /**
  * Update performance metrics
  */
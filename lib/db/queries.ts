@@ -5,11 +5,13 @@ import {
   scans,
   tokenSets,
   layoutProfiles,
+  accessibilityReports,
   submissions,
   users,
   type Site,
   type TokenSet,
   type LayoutProfile,
+  type AccessibilityReport,
   type Submission
 } from './schema'
 
@@ -44,7 +46,7 @@ export async function getTokenSetsBySiteId(siteId: string) {
     .select()
     .from(tokenSets)
     .where(and(eq(tokenSets.siteId, siteId), eq(tokenSets.isPublic, true)))
-    .orderBy(desc(tokenSets.createdAt))
+    .orderBy(desc(tokenSets.isOfficial), desc(tokenSets.createdAt))
 }
 
 export async function getPublicTokenSets(limit = 50, offset = 0) {
@@ -107,6 +109,45 @@ export async function getLayoutProfileBySiteId(siteId: string): Promise<LayoutPr
   return result[0] || null
 }
 
+// Accessibility report queries
+// Reports of profile scans (private token sets) never surface on the public site
+const fromPublicScan = sql`NOT EXISTS (
+  SELECT 1 FROM token_sets private_ts
+  WHERE private_ts.scan_id = ${accessibilityReports.scanId} AND private_ts.is_public = FALSE
+)`
+
+export async function getLatestAccessibilityReport(siteId: string): Promise<AccessibilityReport | null> {
+  const result = await db
+    .select()
+    .from(accessibilityReports)
+    .where(and(eq(accessibilityReports.siteId, siteId), fromPublicScan))
+    .orderBy(desc(accessibilityReports.createdAt))
+    .limit(1)
+
+  return result[0] || null
+}
+
+// Score per scan, oldest first, labelled with the token version the scan produced
+export async function getAccessibilityTrend(siteId: string, limit = 20) {
+  const rows = await db
+    .select({
+      scanId: accessibilityReports.scanId,
+      versionNumber: tokenSets.versionNumber,
+      score: accessibilityReports.score,
+      level: accessibilityReports.level,
+      violationCount: accessibilityReports.violationCount,
+      criticalCount: accessibilityReports.criticalCount,
+      createdAt: accessibilityReports.createdAt
+    })
+    .from(accessibilityReports)
+    .leftJoin(tokenSets, eq(accessibilityReports.tokenSetId, tokenSets.id))
+    .where(and(eq(accessibilityReports.siteId, siteId), fromPublicScan))
+    .orderBy(desc(accessibilityReports.createdAt))
+    .limit(limit)
+
+  return rows.reverse()
+}
+
 // Submission queries
 export async function createSubmission(data: {
   url: string
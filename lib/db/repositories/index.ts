@@ -0,0 +1,188 @@
+/**
+ * Scan Repository
+ * Storage for everything a scan writes (sites, scans, CSS content, token sets,
+ * token versions) behind one interface, so the scan pipeline and MCP server
+ * don't depend on Postgres:
+ * - postgres: the Drizzle database at DATABASE_URL
+ * - sqlite: a single file at SQLITE_PATH (small self-hosted teams)
+ * - memory: process-local maps (integration tests, the CLI)
+ *
+ * STORAGE_ADAPTER picks one explicitly; otherwise Postgres is used when
+ * DATABASE_URL is set and memory when it isn't
+ */
+
+import type { CssSource } from '@/lib/extractors/static-css'
+import type { TokenDiff } from '@/lib/analyzers/version-diff'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+import type { Site, Scan, TokenSet, TokenVersion, LayoutProfile, AccessibilityReport } from '../schema'
+import { createPostgresRepository } from './postgres'
+import { createSqliteRepository } from './sqlite'
+import { createMemoryRepository } from './memory'
+
+export type StorageAdapterName = 'postgres' | 'sqlite' | 'memory'
+
+export type SiteRecord = Pick<Site,
+  'id' | 'domain' | 'title' | 'description' | 'favicon' | 'status' | 'robotsStatus' | 'ownerOptout' | 'popularity' | 'firstSeen' | 'lastScanned'
+>
+export type NewSiteRecord = Pick<SiteRecord, 'domain'> & Partial<Omit<SiteRecord, 'id' | 'domain' | 'firstSeen'>>
+export type SitePatch = Partial<Omit<SiteRecord, 'id' | 'domain' | 'firstSeen'>>
+
+export type ScanRecord = Pick<Scan,
+  'id' | 'siteId' | 'method' | 'prettify' | 'cssSourceCount' | 'sha' | 'startedAt' | 'finishedAt' | 'error' | 'metricsJson' | 'archiveUrl' | 'replayOfScanId'
+>
+export type NewScanRecord = Pick<ScanRecord, 'siteId' | 'method'> & Partial<Omit<ScanRecord, 'id' | 'siteId' | 'method'>>
+export type ScanPatch = Partial<Pick<ScanRecord, 'finishedAt' | 'cssSourceCount' | 'sha' | 'error' | 'metricsJson' | 'archiveUrl'>>
+
+export type ScanPageRecord = {
+  url: string
+  status: 'queued' | 'scanning' | 'completed' | 'failed'
+  htmlSize?: number | null
+  loadTime?: number | null
+}
+
+export type CssContentRecord = {
+  sha: string
+  content: string
+  bytes: number
+  referenceCount: number
+}
+
+export type TokenSetRecord = Pick<TokenSet,
+  'id' | 'siteId' | 'scanId' | 'versionNumber' | 'tokensJson' | 'packJson' | 'consensusScore' | 'isPublic' | 'isOfficial' | 'createdBy' | 'createdAt'
+>
+export type NewTokenSetRecord = Pick<TokenSetRecord, 'siteId' | 'scanId' | 'tokensJson'> &
+  Partial<Omit<TokenSetRecord, 'id' | 'siteId' | 'scanId' | 'tokensJson' | 'createdAt'>>
+
+// Latest public token set of a site plus the version row that recorded it
+export type LatestTokenSet = Pick<TokenSetRecord, 'id' | 'siteId' | 'scanId' | 'versionNumber' | 'createdAt'> & {
+  tokensJson: W3CTokenSet
+  tokenVersionId: string | null
+}
+
+export type TokenVersionRecord = Pick<TokenVersion,
+  'id' | 'siteId' | 'tokenSetId' | 'versionNumber' | 'previousVersionId' | 'changelogJson' | 'diffSummary' | 'createdAt'
+>
+export type NewTokenVersionRecord = Pick<TokenVersionRecord, 'siteId' | 'tokenSetId' | 'versionNumber' | 'previousVersionId'> & {
+  diff: TokenDiff | null // Also recorded as one token_changes row per change
+}
+
+export type NewLayoutProfileRecord = Pick<LayoutProfile, 'siteId' | 'scanId' | 'profileJson'> &
+  Partial<Pick<LayoutProfile, 'archetypes' | 'containers' | 'gridFlex' | 'spacingScale' | 'accessibility'>>
+
+export type NewAccessibilityReportRecord = Pick<AccessibilityReport,
+  'siteId' | 'scanId' | 'tokenSetId' | 'url' | 'score' | 'level' | 'violationCount' | 'criticalCount' | 'reportJson'
+>
+
+// Score per scan, labelled with the token version the scan produced
+export type AccessibilityTrendPoint = Pick<AccessibilityReport, 'scanId' | 'score' | 'level' | 'violationCount' | 'criticalCount' | 'createdAt'> & {
+  versionNumber: number | null
+}
+
+// Everything a finished scan writes at once: token set, layout profile, scan and site bookkeeping
+export type CompleteScanInput = {
+  siteId: string
+  scanId: string
+  versionNumber: number
+  tokensJson: unknown
+  packJson: unknown
+  consensusScore: string
+  // Profile scans are stored private to the profile owner; defaults to a public set
+  isPublic?: boolean
+  createdBy?: string | null
+  layout: Omit<NewLayoutProfileRecord, 'siteId' | 'scanId'>
+  cssSourceCount: number
+  sha: string
+  metricsJson: unknown
+}
+
+export type CompleteUnchangedScanInput = Pick<CompleteScanInput, 'siteId' | 'scanId' | 'cssSourceCount' | 'sha' | 'metricsJson'>
+
+export interface ScanRepository {
+  name: StorageAdapterName
+  sites: {
+    findByDomain(domain: string): Promise<SiteRecord | null>
+    create(data: NewSiteRecord): Promise<SiteRecord>
+    update(id: string, patch: SitePatch): Promise<void>
+  }
+  scans: {
+    create(data: NewScanRecord): Promise<ScanRecord>
+    get(id: string): Promise<ScanRecord | null>
+    update(id: string, patch: ScanPatch): Promise<void>
+    addPages(scanId: string, pages: ScanPageRecord[]): Promise<void>
+  }
+  cssContent: {
+    // Stores each distinct stylesheet once (by sha) and links it to the scan
+    store(scanId: string, sources: CssSource[]): Promise<void>
+    get(sha: string): Promise<CssContentRecord | null>
+  }
+  tokenSets: {
+    create(data: NewTokenSetRecord): Promise<TokenSetRecord>
+    // Private (profile scan) sets are only returned to the user who created them
+    get(id: string, viewerId?: string | null): Promise<TokenSetRecord | null>
+    // Sets a verified owner published rank ahead of crawled ones, then newest version first
+    getLatest(siteId: string, options?: { crawledOnly?: boolean }): Promise<LatestTokenSet | null>
+    listBySite(siteId: string, viewerId?: string | null): Promise<TokenSetRecord[]>
+  }
+  versions: {
+    record(data: NewTokenVersionRecord): Promise<string>
+    listBySite(siteId: string): Promise<TokenVersionRecord[]> // Newest version first
+  }
+  layoutProfiles: {
+    create(data: NewLayoutProfileRecord): Promise<void>
+  }
+  // WCAG reports and their trend; only Postgres stores them
+  accessibilityReports?: {
+    record(data: NewAccessibilityReportRecord): Promise<void> // At most one report per scan
+    trend(siteId: string): Promise<AccessibilityTrendPoint[]> // Oldest first
+  }
+  completeScan(data: CompleteScanInput): Promise<TokenSetRecord>
+  completeUnchangedScan(data: CompleteUnchangedScanInput): Promise<void>
+}
+
+export class StorageAdapterError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageAdapterError'
+  }
+}
+
+let repository: ScanRepository | null = null
+
+/**
+ * Process-wide repository, created from the environment on first use
+ */
+export function getScanRepository(): ScanRepository {
+  if (!repository) repository = createScanRepository()
+  return repository
+}
+
+/**
+ * Replace the process-wide repository (tests, the CLI)
+ */
+export function setScanRepository(next: ScanRepository | null): void {
+  repository = next
+}
+
+export function createScanRepository(env: Record<string, string | undefined> = process.env): ScanRepository {
+  const name = resolveAdapterName(env)
+
+  switch (name) {
+    case 'postgres':
+      if (!env.DATABASE_URL) {
+        throw new StorageAdapterError('STORAGE_ADAPTER=postgres requires DATABASE_URL')
+      }
+      return createPostgresRepository()
+    case 'sqlite':
+      return createSqliteRepository({ path: env.SQLITE_PATH || '.data/contextds.sqlite' })
+    case 'memory':
+      return createMemoryRepository()
+  }
+}
+
+function resolveAdapterName(env: Record<string, string | undefined>): StorageAdapterName {
+  const explicit = env.STORAGE_ADAPTER?.trim().toLowerCase()
+  if (explicit === 'postgres' || explicit === 'sqlite' || explicit === 'memory') return explicit
+  if (explicit) throw new StorageAdapterError(`Unknown STORAGE_ADAPTER "${explicit}"`)
+
+  return env.DATABASE_URL ? 'postgres' : 'memory'
+}
@@ -0,0 +1,245 @@
+/**
+ * In-memory scan repository
+ * Process-local maps with the same semantics as the Postgres tables; nothing
+ * survives a restart
+ */
+
+import { randomUUID } from 'crypto'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+import type {
+  CssContentRecord,
+  LatestTokenSet,
+  ScanRecord,
+  ScanRepository,
+  SiteRecord,
+  TokenSetRecord,
+  TokenVersionRecord
+} from './index'
+
+export function createMemoryRepository(): ScanRepository {
+  const sites = new Map<string, SiteRecord>()
+  const scans = new Map<string, ScanRecord>()
+  const pages = new Map<string, unknown[]>()
+  const cssContent = new Map<string, CssContentRecord>()
+  const cssSources = new Map<string, Array<{ url: string | null; kind: string; library: string | null; bytes: number; sha: string }>>()
+  const tokenSets = new Map<string, TokenSetRecord>()
+  const versions = new Map<string, TokenVersionRecord>()
+  const layoutProfiles: unknown[] = []
+
+  const byVersionDesc = <T extends { versionNumber: number; createdAt: Date }>(a: T, b: T) =>
+    b.versionNumber - a.versionNumber || b.createdAt.getTime() - a.createdAt.getTime()
+  const byRank = (a: TokenSetRecord, b: TokenSetRecord) =>
+    Number(b.isOfficial) - Number(a.isOfficial) || byVersionDesc(a, b)
+  const isVisible = (tokenSet: TokenSetRecord, viewerId?: string | null) =>
+    tokenSet.isPublic || (!!viewerId && tokenSet.createdBy === viewerId)
+
+  const repository: ScanRepository = {
+    name: 'memory',
+
+    sites: {
+      async findByDomain(domain) {
+        for (const site of sites.values()) {
+          if (site.domain === domain) return { ...site }
+        }
+        return null
+      },
+
+      async create(data) {
+        if (await repository.sites.findByDomain(data.domain)) {
+          throw new Error(`Site ${data.domain} already exists`)
+        }
+
+        const site: SiteRecord = {
+          id: randomUUID(),
+          title: null,
+          description: null,
+          favicon: null,
+          status: 'queued',
+          robotsStatus: 'unknown',
+          ownerOptout: false,
+          popularity: 0,
+          lastScanned: null,
+          ...data,
+          firstSeen: new Date()
+        }
+        sites.set(site.id, site)
+        return { ...site }
+      },
+
+      async update(id, patch) {
+        const site = sites.get(id)
+        if (site) sites.set(id, { ...site, ...patch })
+      }
+    },
+
+    scans: {
+      async create(data) {
+        const scan: ScanRecord = {
+          id: randomUUID(),
+          prettify: false,
+          cssSourceCount: 0,
+          sha: null,
+          startedAt: new Date(),
+          finishedAt: null,
+          error: null,
+          metricsJson: null,
+          archiveUrl: null,
+          replayOfScanId: null,
+          ...data
+        }
+        scans.set(scan.id, scan)
+        return { ...scan }
+      },
+
+      async get(id) {
+        const scan = scans.get(id)
+        return scan ? { ...scan } : null
+      },
+
+      async update(id, patch) {
+        const scan = scans.get(id)
+        if (scan) scans.set(id, { ...scan, ...patch })
+      },
+
+      async addPages(scanId, records) {
+        pages.set(scanId, [...(pages.get(scanId) ?? []), ...records])
+      }
+    },
+
+    cssContent: {
+      async store(scanId, sources) {
+        for (const source of sources) {
+          const existing = cssContent.get(source.sha)
+          cssContent.set(source.sha, existing
+            ? { ...existing, referenceCount: existing.referenceCount + 1 }
+            : { sha: source.sha, content: source.content, bytes: source.bytes, referenceCount: 1 })
+        }
+
+        cssSources.set(scanId, [
+          ...(cssSources.get(scanId) ?? []),
+          ...sources.map(source => ({ url: source.url ?? null, kind: source.kind, library: source.library ?? null, bytes: source.bytes, sha: source.sha }))
+        ])
+      },
+
+      async get(sha) {
+        const content = cssContent.get(sha)
+        return content ? { ...content } : null
+      }
+    },
+
+    tokenSets: {
+      async create(data) {
+        const tokenSet: TokenSetRecord = {
+          id: randomUUID(),
+          versionNumber: 1,
+          packJson: null,
+          consensusScore: '0.00',
+          isPublic: true,
+          isOfficial: false,
+          createdBy: null,
+          ...data,
+          createdAt: new Date()
+        }
+        tokenSets.set(tokenSet.id, tokenSet)
+        return { ...tokenSet }
+      },
+
+      async get(id, viewerId) {
+        const tokenSet = tokenSets.get(id)
+        return tokenSet && isVisible(tokenSet, viewerId) ? { ...tokenSet } : null
+      },
+
+      async getLatest(siteId, options) {
+        const [latest] = (await repository.tokenSets.listBySite(siteId))
+          .filter(tokenSet => !options?.crawledOnly || !tokenSet.isOfficial)
+        if (!latest) return null
+
+        const [version] = [...versions.values()]
+          .filter(version => version.tokenSetId === latest.id)
+          .sort(byVersionDesc)
+
+        const result: LatestTokenSet = {
+          id: latest.id,
+          siteId: latest.siteId,
+          scanId: latest.scanId,
+          versionNumber: latest.versionNumber,
+          tokensJson: latest.tokensJson as W3CTokenSet,
+          createdAt: latest.createdAt,
+          tokenVersionId: version?.id ?? null
+        }
+        return result
+      },
+
+      async listBySite(siteId, viewerId) {
+        return [...tokenSets.values()]
+          .filter(tokenSet => tokenSet.siteId === siteId && isVisible(tokenSet, viewerId))
+          .sort(byRank)
+          .map(tokenSet => ({ ...tokenSet }))
+      }
+    },
+
+    versions: {
+      async record(data) {
+        const version: TokenVersionRecord = {
+          id: randomUUID(),
+          siteId: data.siteId,
+          tokenSetId: data.tokenSetId,
+          versionNumber: data.versionNumber,
+          previousVersionId: data.previousVersionId,
+          changelogJson: data.diff
+            ? { added: data.diff.added, removed: data.diff.removed, modified: data.diff.modified }
+            : null,
+          diffSummary: data.diff?.summary ?? null,
+          createdAt: new Date()
+        }
+        versions.set(version.id, version)
+        return version.id
+      },
+
+      async listBySite(siteId) {
+        return [...versions.values()]
+          .filter(version => version.siteId === siteId)
+          .sort(byVersionDesc)
+          .map(version => ({ ...version }))
+      }
+    },
+
+    layoutProfiles: {
+      async create(data) {
+        layoutProfiles.push({ ...data, createdAt: new Date() })
+      }
+    },
+
+    async completeScan(data) {
+      const tokenSet = await repository.tokenSets.create({
+        siteId: data.siteId,
+        scanId: data.scanId,
+        versionNumber: data.versionNumber,
+        tokensJson: data.tokensJson,
+        packJson: data.packJson,
+        consensusScore: data.consensusScore,
+        isPublic: data.isPublic ?? true,
+        createdBy: data.createdBy ?? null
+      })
+      await repository.layoutProfiles.create({ siteId: data.siteId, scanId: data.scanId, ...data.layout })
+      await repository.completeUnchangedScan(data)
+
+      const site = sites.get(data.siteId)
+      if (site) sites.set(site.id, { ...site, popularity: site.popularity + 1 })
+
+      return tokenSet
+    },
+
+    async completeUnchangedScan(data) {
+      await repository.scans.update(data.scanId, {
+        finishedAt: new Date(),
+        cssSourceCount: data.cssSourceCount,
+        sha: data.sha,
+        metricsJson: data.metricsJson
+      })
+      await repository.sites.update(data.siteId, { status: 'completed', lastScanned: new Date() })
+    }
+  }
+
+  return repository
+}
@@ -0,0 +1,274 @@
+/**
+ * Postgres scan repository
+ * The Drizzle database at DATABASE_URL, using the batched writers in
+ * lib/db/optimizations for the hot scan path
+ */
+
+import { and, desc, eq, or } from 'drizzle-orm'
+import { db, sites, scans, pages, cssContent, tokenSets, tokenVersions, tokenChanges, layoutProfiles, accessibilityReports } from '../index'
+import {
+  bulkInsertCssContent,
+  batchInsertCssSources,
+  completeScanTransaction,
+  completeUnchangedScan,
+  getLatestTokenSet
+} from '../optimizations'
+import { getAccessibilityTrend } from '../queries'
+import type { LatestTokenSet, ScanRepository, TokenSetRecord } from './index'
+
+const siteColumns = {
+  id: sites.id,
+  domain: sites.domain,
+  title: sites.title,
+  description: sites.description,
+  favicon: sites.favicon,
+  status: sites.status,
+  robotsStatus: sites.robotsStatus,
+  ownerOptout: sites.ownerOptout,
+  popularity: sites.popularity,
+  firstSeen: sites.firstSeen,
+  lastScanned: sites.lastScanned
+}
+
+const scanColumns = {
+  id: scans.id,
+  siteId: scans.siteId,
+  method: scans.method,
+  prettify: scans.prettify,
+  cssSourceCount: scans.cssSourceCount,
+  sha: scans.sha,
+  startedAt: scans.startedAt,
+  finishedAt: scans.finishedAt,
+  error: scans.error,
+  metricsJson: scans.metricsJson,
+  archiveUrl: scans.archiveUrl,
+  replayOfScanId: scans.replayOfScanId
+}
+
+const tokenSetColumns = {
+  id: tokenSets.id,
+  siteId: tokenSets.siteId,
+  scanId: tokenSets.scanId,
+  versionNumber: tokenSets.versionNumber,
+  tokensJson: tokenSets.tokensJson,
+  packJson: tokenSets.packJson,
+  consensusScore: tokenSets.consensusScore,
+  isPublic: tokenSets.isPublic,
+  isOfficial: tokenSets.isOfficial,
+  createdBy: tokenSets.createdBy,
+  createdAt: tokenSets.createdAt
+}
+
+const versionColumns = {
+  id: tokenVersions.id,
+  siteId: tokenVersions.siteId,
+  tokenSetId: tokenVersions.tokenSetId,
+  versionNumber: tokenVersions.versionNumber,
+  previousVersionId: tokenVersions.previousVersionId,
+  changelogJson: tokenVersions.changelogJson,
+  diffSummary: tokenVersions.diffSummary,
+  createdAt: tokenVersions.createdAt
+}
+
+export function createPostgresRepository(): ScanRepository {
+  return {
+    name: 'postgres',
+
+    sites: {
+      async findByDomain(domain) {
+        const [site] = await db.select(siteColumns).from(sites).where(eq(sites.domain, domain)).limit(1)
+        return site ?? null
+      },
+
+      async create(data) {
+        const [site] = await db.insert(sites).values(data).returning(siteColumns)
+        return site
+      },
+
+      async update(id, patch) {
+        await db.update(sites).set({ ...patch, updatedAt: new Date() }).where(eq(sites.id, id))
+      }
+    },
+
+    scans: {
+      async create(data) {
+        const [scan] = await db.insert(scans).values(data).returning(scanColumns)
+        return scan
+      },
+
+      async get(id) {
+        const [scan] = await db.select(scanColumns).from(scans).where(eq(scans.id, id)).limit(1)
+        return scan ?? null
+      },
+
+      async update(id, patch) {
+        await db.update(scans).set(patch).where(eq(scans.id, id))
+      },
+
+      async addPages(scanId, records) {
+        if (records.length === 0) return
+        await db.insert(pages).values(records.map(record => ({ scanId, ...record })))
+      }
+    },
+
+    cssContent: {
+      async store(scanId, sources) {
+        if (sources.length === 0) return
+
+        await bulkInsertCssContent(sources.map(source => ({
+          sha: source.sha,
+          content: source.content,
+          contentCompressed: false,
+          bytes: source.bytes,
+          compressedBytes: source.bytes,
+          referenceCount: 1
+        })))
+        await batchInsertCssSources(scanId, sources)
+      },
+
+      async get(sha) {
+        const [content] = await db
+          .select({ sha: cssContent.sha, content: cssContent.content, bytes: cssContent.bytes, referenceCount: cssContent.referenceCount })
+          .from(cssContent)
+          .where(eq(cssContent.sha, sha))
+          .limit(1)
+        return content ?? null
+      }
+    },
+
+    tokenSets: {
+      async create(data) {
+        const [tokenSet] = await db.insert(tokenSets).values(data).returning(tokenSetColumns)
+        return tokenSet
+      },
+
+      async get(id, viewerId) {
+        const [tokenSet] = await db
+          .select(tokenSetColumns)
+          .from(tokenSets)
+          .where(and(eq(tokenSets.id, id), visibleTo(viewerId)))
+          .limit(1)
+        return tokenSet ?? null
+      },
+
+      async getLatest(siteId, options) {
+        return (await getLatestTokenSet(siteId, options) as LatestTokenSet | undefined) ?? null
+      },
+
+      async listBySite(siteId, viewerId) {
+        return db
+          .select(tokenSetColumns)
+          .from(tokenSets)
+          .where(and(eq(tokenSets.siteId, siteId), visibleTo(viewerId)))
+          .orderBy(desc(tokenSets.isOfficial), desc(tokenSets.versionNumber), desc(tokenSets.createdAt))
+      }
+    },
+
+    versions: {
+      async record(data) {
+        const [version] = await db
+          .insert(tokenVersions)
+          .values({
+            siteId: data.siteId,
+            tokenSetId: data.tokenSetId,
+            versionNumber: data.versionNumber,
+            previousVersionId: data.previousVersionId,
+            changelogJson: data.diff
+              ? { added: data.diff.added, removed: data.diff.removed, modified: data.diff.modified }
+              : null,
+            diffSummary: data.diff?.summary ?? null
+          })
+          .returning({ id: tokenVersions.id })
+
+        const changes = data.diff ? [...data.diff.added, ...data.diff.removed, ...data.diff.modified] : []
+        if (changes.length > 0) {
+          await db.insert(tokenChanges).values(changes.map(change => ({
+            versionId: version.id,
+            tokenPath: change.path.slice(0, 255),
+            changeType: change.changeType,
+            oldValue: change.oldValue ?? null,
+            newValue: change.newValue ?? null,
+            category: change.category.slice(0, 50)
+          })))
+        }
+
+        return version.id
+      },
+
+      async listBySite(siteId) {
+        return db
+          .select(versionColumns)
+          .from(tokenVersions)
+          .where(eq(tokenVersions.siteId, siteId))
+          .orderBy(desc(tokenVersions.versionNumber), desc(tokenVersions.createdAt))
+      }
+    },
+
+    layoutProfiles: {
+      async create(data) {
+        await db.insert(layoutProfiles).values(data)
+      }
+    },
+
+    accessibilityReports: {
+      async record(data) {
+        await db
+          .insert(accessibilityReports)
+          .values(data)
+          .onConflictDoNothing({ target: accessibilityReports.scanId })
+      },
+
+      async trend(siteId) {
+        return getAccessibilityTrend(siteId)
+      }
+    },
+
+    async completeScan(data) {
+      const row = await completeScanTransaction({
+        siteId: data.siteId,
+        scanId: data.scanId,
+        versionNumber: data.versionNumber,
+        tokensJson: data.tokensJson,
+        packJson: data.packJson,
+        consensusScore: data.consensusScore,
+        isPublic: data.isPublic ?? true,
+        createdBy: data.createdBy ?? null,
+        layoutDNA: data.layout.profileJson,
+        archetypes: data.layout.archetypes ?? null,
+        containers: data.layout.containers ?? null,
+        gridFlex: data.layout.gridFlex ?? null,
+        spacingScale: data.layout.spacingScale ?? null,
+        cssSourceCount: data.cssSourceCount,
+        sha: data.sha,
+        metricsJson: data.metricsJson
+      })
+      return fromTokenSetRow(row)
+    },
+
+    async completeUnchangedScan(data) {
+      await completeUnchangedScan(data)
+    }
+  }
+}
+
+// Public sets, plus the private (profile scan) sets of the viewer
+function visibleTo(viewerId?: string | null) {
+  return viewerId ? or(eq(tokenSets.isPublic, true), eq(tokenSets.createdBy, viewerId)) : eq(tokenSets.isPublic, true)
+}
+
+// completeScanTransaction returns the raw `RETURNING *` row
+function fromTokenSetRow(row: Record<string, unknown>): TokenSetRecord {
+  return {
+    id: row.id as string,
+    siteId: row.site_id as string | null,
+    scanId: row.scan_id as string | null,
+    versionNumber: row.version_number as number,
+    tokensJson: row.tokens_json,
+    packJson: row.pack_json,
+    consensusScore: row.consensus_score as string | null,
+    isPublic: row.is_public as boolean,
+    isOfficial: row.is_official as boolean,
+    createdBy: row.created_by as string | null,
+    createdAt: new Date(row.created_at as string | Date)
+  }
+}
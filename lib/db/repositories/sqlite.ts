@@ -0,0 +1,552 @@
+/**
+ * SQLite scan repository
+ * One file holding the scan tables, created on first use. Runs on Bun's
+ * built-in bun:sqlite (worker, CLI, scripts) and on better-sqlite3 under Node,
+ * which has to be installed separately. JSON columns are stored as text and
+ * timestamps as ISO strings
+ */
+
+import { randomUUID } from 'crypto'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+import {
+  StorageAdapterError,
+  type LatestTokenSet,
+  type ScanRecord,
+  type ScanRepository,
+  type SiteRecord,
+  type TokenSetRecord,
+  type TokenVersionRecord
+} from './index'
+
+// The subset of the bun:sqlite and better-sqlite3 APIs this adapter uses
+interface SqliteStatement {
+  run(...params: SqliteValue[]): unknown
+  get(...params: SqliteValue[]): unknown
+  all(...params: SqliteValue[]): unknown[]
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void
+  prepare(sql: string): SqliteStatement
+}
+
+type SqliteValue = string | number | null
+type Row = Record<string, SqliteValue>
+
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  PRAGMA foreign_keys = ON;
+
+  CREATE TABLE IF NOT EXISTS sites (
+    id TEXT PRIMARY KEY,
+    domain TEXT NOT NULL UNIQUE,
+    title TEXT,
+    description TEXT,
+    favicon TEXT,
+    status TEXT NOT NULL DEFAULT 'queued',
+    robots_status TEXT NOT NULL DEFAULT 'unknown',
+    owner_optout INTEGER NOT NULL DEFAULT 0,
+    popularity INTEGER NOT NULL DEFAULT 0,
+    first_seen TEXT NOT NULL,
+    last_scanned TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS scans (
+    id TEXT PRIMARY KEY,
+    site_id TEXT NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    method TEXT NOT NULL,
+    prettify INTEGER NOT NULL DEFAULT 0,
+    css_source_count INTEGER NOT NULL DEFAULT 0,
+    sha TEXT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    error TEXT,
+    metrics_json TEXT,
+    archive_url TEXT,
+    replay_of_scan_id TEXT REFERENCES scans(id) ON DELETE SET NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS pages (
+    id TEXT PRIMARY KEY,
+    scan_id TEXT NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    status TEXT NOT NULL,
+    html_size INTEGER,
+    load_time INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS css_content (
+    sha TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    bytes INTEGER NOT NULL DEFAULT 0,
+    reference_count INTEGER NOT NULL DEFAULT 0,
+    first_seen TEXT NOT NULL,
+    last_accessed TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS css_sources (
+    id TEXT PRIMARY KEY,
+    scan_id TEXT NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+    url TEXT,
+    kind TEXT NOT NULL,
+    library TEXT,
+    bytes INTEGER NOT NULL DEFAULT 0,
+    sha TEXT NOT NULL REFERENCES css_content(sha)
+  );
+
+  CREATE TABLE IF NOT EXISTS token_sets (
+    id TEXT PRIMARY KEY,
+    site_id TEXT REFERENCES sites(id) ON DELETE CASCADE,
+    scan_id TEXT REFERENCES scans(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL DEFAULT 1,
+    tokens_json TEXT NOT NULL,
+    pack_json TEXT,
+    consensus_score TEXT DEFAULT '0.00',
+    is_public INTEGER NOT NULL DEFAULT 1,
+    is_official INTEGER NOT NULL DEFAULT 0,
+    created_by TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_token_sets_site ON token_sets(site_id, version_number);
+
+  CREATE TABLE IF NOT EXISTS token_versions (
+    id TEXT PRIMARY KEY,
+    site_id TEXT NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    token_set_id TEXT NOT NULL REFERENCES token_sets(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    previous_version_id TEXT REFERENCES token_versions(id),
+    changelog_json TEXT,
+    diff_summary TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_token_versions_site ON token_versions(site_id, version_number);
+
+  CREATE TABLE IF NOT EXISTS token_changes (
+    id TEXT PRIMARY KEY,
+    version_id TEXT NOT NULL REFERENCES token_versions(id) ON DELETE CASCADE,
+    token_path TEXT NOT NULL,
+    change_type TEXT NOT NULL,
+    old_value TEXT,
+    new_value TEXT,
+    category TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS layout_profiles (
+    id TEXT PRIMARY KEY,
+    site_id TEXT REFERENCES sites(id) ON DELETE CASCADE,
+    scan_id TEXT REFERENCES scans(id) ON DELETE CASCADE,
+    profile_json TEXT NOT NULL,
+    archetypes TEXT,
+    containers TEXT,
+    grid_flex TEXT,
+    spacing_scale TEXT,
+    accessibility TEXT,
+    created_at TEXT NOT NULL
+  );
+`
+
+const SITE_COLUMNS: Record<keyof Omit<SiteRecord, 'id' | 'domain' | 'firstSeen'>, string> = {
+  title: 'title',
+  description: 'description',
+  favicon: 'favicon',
+  status: 'status',
+  robotsStatus: 'robots_status',
+  ownerOptout: 'owner_optout',
+  popularity: 'popularity',
+  lastScanned: 'last_scanned'
+}
+
+const SCAN_COLUMNS: Record<'finishedAt' | 'cssSourceCount' | 'sha' | 'error' | 'metricsJson' | 'archiveUrl', string> = {
+  finishedAt: 'finished_at',
+  cssSourceCount: 'css_source_count',
+  sha: 'sha',
+  error: 'error',
+  metricsJson: 'metrics_json',
+  archiveUrl: 'archive_url'
+}
+
+export function createSqliteRepository(options: { path: string }): ScanRepository {
+  let database: Promise<SqliteDatabase> | null = null
+
+  const open = () => {
+    if (!database) database = openDatabase(options.path)
+    return database
+  }
+
+  const transaction = async <T>(work: (sqlite: SqliteDatabase) => T): Promise<T> => {
+    const sqlite = await open()
+    sqlite.exec('BEGIN')
+    try {
+      const result = work(sqlite)
+      sqlite.exec('COMMIT')
+      return result
+    } catch (error) {
+      sqlite.exec('ROLLBACK')
+      throw error
+    }
+  }
+
+  const getSite = (sqlite: SqliteDatabase, id: string) =>
+    toSite(sqlite.prepare('SELECT * FROM sites WHERE id = ?').get(id) as Row)
+
+  const getScan = (sqlite: SqliteDatabase, id: string) =>
+    toScan(sqlite.prepare('SELECT * FROM scans WHERE id = ?').get(id) as Row)
+
+  const getTokenSet = (sqlite: SqliteDatabase, id: string) =>
+    toTokenSet(sqlite.prepare('SELECT * FROM token_sets WHERE id = ?').get(id) as Row)
+
+  const updateColumns = (sqlite: SqliteDatabase, table: string, id: string, columns: Record<string, string>, patch: object) => {
+    const entries = Object.entries(patch).filter(([key, value]) => key in columns && value !== undefined)
+    if (entries.length === 0) return
+
+    sqlite
+      .prepare(`UPDATE ${table} SET ${entries.map(([key]) => `${columns[key]} = ?`).join(', ')} WHERE id = ?`)
+      .run(...entries.map(([, value]) => toSqlite(value)), id)
+  }
+
+  const insertTokenSet = (sqlite: SqliteDatabase, data: Parameters<ScanRepository['tokenSets']['create']>[0]) => {
+    const id = randomUUID()
+    sqlite
+      .prepare(`INSERT INTO token_sets (id, site_id, scan_id, version_number, tokens_json, pack_json, consensus_score, is_public, is_official, created_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        id, data.siteId, data.scanId, data.versionNumber ?? 1, toJson(data.tokensJson), toJson(data.packJson ?? null),
+        data.consensusScore ?? '0.00', toSqlite(data.isPublic ?? true), toSqlite(data.isOfficial ?? false), data.createdBy ?? null, now()
+      )
+    return getTokenSet(sqlite, id) as TokenSetRecord
+  }
+
+  const insertLayoutProfile = (sqlite: SqliteDatabase, data: Parameters<ScanRepository['layoutProfiles']['create']>[0]) => {
+    sqlite
+      .prepare(`INSERT INTO layout_profiles (id, site_id, scan_id, profile_json, archetypes, containers, grid_flex, spacing_scale, accessibility, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        randomUUID(), data.siteId, data.scanId, toJson(data.profileJson), toJson(data.archetypes ?? null), toJson(data.containers ?? null),
+        toJson(data.gridFlex ?? null), toJson(data.spacingScale ?? null), toJson(data.accessibility ?? null), now()
+      )
+  }
+
+  const finishScan = (sqlite: SqliteDatabase, data: Parameters<ScanRepository['completeUnchangedScan']>[0], popularityIncrement: number) => {
+    sqlite
+      .prepare('UPDATE scans SET finished_at = ?, css_source_count = ?, sha = ?, metrics_json = ? WHERE id = ?')
+      .run(now(), data.cssSourceCount, data.sha, toJson(data.metricsJson), data.scanId)
+    sqlite
+      .prepare(`UPDATE sites SET status = 'completed', last_scanned = ?, popularity = popularity + ? WHERE id = ?`)
+      .run(now(), popularityIncrement, data.siteId)
+  }
+
+  return {
+    name: 'sqlite',
+
+    sites: {
+      async findByDomain(domain) {
+        const sqlite = await open()
+        return toSite(sqlite.prepare('SELECT * FROM sites WHERE domain = ?').get(domain) as Row)
+      },
+
+      async create(data) {
+        const sqlite = await open()
+        const id = randomUUID()
+        sqlite
+          .prepare(`INSERT INTO sites (id, domain, title, description, favicon, status, robots_status, owner_optout, popularity, first_seen, last_scanned)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+          .run(
+            id, data.domain, data.title ?? null, data.description ?? null, data.favicon ?? null, data.status ?? 'queued',
+            data.robotsStatus ?? 'unknown', toSqlite(data.ownerOptout ?? false), data.popularity ?? 0, now(), toSqlite(data.lastScanned ?? null)
+          )
+        return getSite(sqlite, id) as SiteRecord
+      },
+
+      async update(id, patch) {
+        updateColumns(await open(), 'sites', id, SITE_COLUMNS, patch)
+      }
+    },
+
+    scans: {
+      async create(data) {
+        const sqlite = await open()
+        const id = randomUUID()
+        sqlite
+          .prepare(`INSERT INTO scans (id, site_id, method, prettify, css_source_count, sha, started_at, finished_at, error, metrics_json, archive_url, replay_of_scan_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+          .run(
+            id, data.siteId, data.method, toSqlite(data.prettify ?? false), data.cssSourceCount ?? 0, data.sha ?? null,
+            toSqlite(data.startedAt ?? new Date()), toSqlite(data.finishedAt ?? null), data.error ?? null,
+            toJson(data.metricsJson ?? null), data.archiveUrl ?? null, data.replayOfScanId ?? null
+          )
+        return getScan(sqlite, id) as ScanRecord
+      },
+
+      async get(id) {
+        return getScan(await open(), id)
+      },
+
+      async update(id, patch) {
+        updateColumns(await open(), 'scans', id, SCAN_COLUMNS, patch)
+      },
+
+      async addPages(scanId, records) {
+        await transaction(sqlite => {
+          const insert = sqlite.prepare('INSERT INTO pages (id, scan_id, url, status, html_size, load_time) VALUES (?, ?, ?, ?, ?, ?)')
+          for (const record of records) {
+            insert.run(randomUUID(), scanId, record.url, record.status, record.htmlSize ?? null, record.loadTime ?? null)
+          }
+        })
+      }
+    },
+
+    cssContent: {
+      async store(scanId, sources) {
+        await transaction(sqlite => {
+          const upsert = sqlite.prepare(`INSERT INTO css_content (sha, content, bytes, reference_count, first_seen, last_accessed)
+            VALUES (?, ?, ?, 1, ?, ?)
+            ON CONFLICT (sha) DO UPDATE SET reference_count = reference_count + 1, last_accessed = excluded.last_accessed`)
+          const link = sqlite.prepare('INSERT INTO css_sources (id, scan_id, url, kind, library, bytes, sha) VALUES (?, ?, ?, ?, ?, ?, ?)')
+
+          for (const source of sources) {
+            upsert.run(source.sha, source.content, source.bytes, now(), now())
+            link.run(randomUUID(), scanId, source.url ?? null, source.kind, source.library ?? null, source.bytes, source.sha)
+          }
+        })
+      },
+
+      async get(sha) {
+        const sqlite = await open()
+        const row = sqlite.prepare('SELECT sha, content, bytes, reference_count FROM css_content WHERE sha = ?').get(sha) as Row | null
+        return row
+          ? { sha: row.sha as string, content: row.content as string, bytes: row.bytes as number, referenceCount: row.reference_count as number }
+          : null
+      }
+    },
+
+    tokenSets: {
+      async create(data) {
+        return insertTokenSet(await open(), data)
+      },
+
+      async get(id, viewerId) {
+        const tokenSet = getTokenSet(await open(), id)
+        return tokenSet && (tokenSet.isPublic || (!!viewerId && tokenSet.createdBy === viewerId)) ? tokenSet : null
+      },
+
+      async getLatest(siteId, options) {
+        const sqlite = await open()
+        const row = sqlite
+          .prepare(`SELECT ts.*, tv.id AS token_version_id
+            FROM token_sets ts
+            LEFT JOIN token_versions tv ON tv.token_set_id = ts.id
+            WHERE ts.site_id = ? AND ts.is_public = 1 AND (? = 0 OR ts.is_official = 0)
+            ORDER BY ts.is_official DESC, ts.version_number DESC, tv.version_number DESC, ts.created_at DESC
+            LIMIT 1`)
+          .get(siteId, toSqlite(options?.crawledOnly ?? false)) as Row | null
+        const tokenSet = toTokenSet(row)
+        if (!row || !tokenSet) return null
+
+        const latest: LatestTokenSet = {
+          id: tokenSet.id,
+          siteId: tokenSet.siteId,
+          scanId: tokenSet.scanId,
+          versionNumber: tokenSet.versionNumber,
+          tokensJson: tokenSet.tokensJson as W3CTokenSet,
+          createdAt: tokenSet.createdAt,
+          tokenVersionId: (row.token_version_id as string | null) ?? null
+        }
+        return latest
+      },
+
+      async listBySite(siteId, viewerId) {
+        const sqlite = await open()
+        return (sqlite
+          .prepare(`SELECT * FROM token_sets
+            WHERE site_id = ? AND (is_public = 1 OR created_by = ?)
+            ORDER BY is_official DESC, version_number DESC, created_at DESC`)
+          .all(siteId, viewerId ?? null) as Row[])
+          .map(row => toTokenSet(row) as TokenSetRecord)
+      }
+    },
+
+    versions: {
+      async record(data) {
+        return transaction(sqlite => {
+          const id = randomUUID()
+          sqlite
+            .prepare(`INSERT INTO token_versions (id, site_id, token_set_id, version_number, previous_version_id, changelog_json, diff_summary, created_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?)`)
+            .run(
+              id, data.siteId, data.tokenSetId, data.versionNumber, data.previousVersionId,
+              toJson(data.diff ? { added: data.diff.added, removed: data.diff.removed, modified: data.diff.modified } : null),
+              toJson(data.diff?.summary ?? null), now()
+            )
+
+          const changes = data.diff ? [...data.diff.added, ...data.diff.removed, ...data.diff.modified] : []
+          const insertChange = sqlite.prepare(`INSERT INTO token_changes (id, version_id, token_path, change_type, old_value, new_value, category)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`)
+          for (const change of changes) {
+            insertChange.run(
+              randomUUID(), id, change.path, change.changeType,
+              toJson(change.oldValue ?? null), toJson(change.newValue ?? null), change.category
+            )
+          }
+
+          return id
+        })
+      },
+
+      async listBySite(siteId) {
+        const sqlite = await open()
+        return (sqlite.prepare('SELECT * FROM token_versions WHERE site_id = ? ORDER BY version_number DESC, created_at DESC').all(siteId) as Row[])
+          .map(toTokenVersion)
+      }
+    },
+
+    layoutProfiles: {
+      async create(data) {
+        insertLayoutProfile(await open(), data)
+      }
+    },
+
+    async completeScan(data) {
+      return transaction(sqlite => {
+        const tokenSet = insertTokenSet(sqlite, {
+          siteId: data.siteId,
+          scanId: data.scanId,
+          versionNumber: data.versionNumber,
+          tokensJson: data.tokensJson,
+          packJson: data.packJson,
+          consensusScore: data.consensusScore,
+          isPublic: data.isPublic,
+          createdBy: data.createdBy
+        })
+        insertLayoutProfile(sqlite, { siteId: data.siteId, scanId: data.scanId, ...data.layout })
+        finishScan(sqlite, data, 1)
+        return tokenSet
+      })
+    },
+
+    async completeUnchangedScan(data) {
+      await transaction(sqlite => finishScan(sqlite, data, 0))
+    }
+  }
+}
+
+async function openDatabase(path: string): Promise<SqliteDatabase> {
+  const isBun = typeof (globalThis as { Bun?: unknown }).Bun !== 'undefined'
+  const specifier = isBun ? 'bun:sqlite' : 'better-sqlite3'
+
+  let Database: new (path: string) => SqliteDatabase
+  try {
+    // Not a static import: neither driver is available on every runtime
+    const driver = await import(/* webpackIgnore: true */ specifier)
+    Database = driver.Database ?? driver.default
+  } catch {
+    throw new StorageAdapterError('STORAGE_ADAPTER=sqlite needs Bun or the better-sqlite3 package')
+  }
+
+  if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true })
+  const sqlite = new Database(path)
+  sqlite.exec(SCHEMA)
+
+  // Files created before css_sources.library existed
+  const cssSourceColumns = sqlite.prepare('PRAGMA table_info(css_sources)').all() as Row[]
+  if (!cssSourceColumns.some(column => column.name === 'library')) {
+    sqlite.exec('ALTER TABLE css_sources ADD COLUMN library TEXT')
+  }
+  // ...and before token_sets.is_official
+  const tokenSetColumns = sqlite.prepare('PRAGMA table_info(token_sets)').all() as Row[]
+  if (!tokenSetColumns.some(column => column.name === 'is_official')) {
+    sqlite.exec('ALTER TABLE token_sets ADD COLUMN is_official INTEGER NOT NULL DEFAULT 0')
+  }
+  return sqlite
+}
+
+function now(): string {
+  return new Date().toISOString()
+}
+
+function toJson(value: unknown): string | null {
+  return value === null || value === undefined ? null : JSON.stringify(value)
+}
+
+function fromJson(value: SqliteValue): unknown {
+  return typeof value === 'string' ? JSON.parse(value) : null
+}
+
+function toDate(value: SqliteValue): Date | null {
+  return typeof value === 'string' ? new Date(value) : null
+}
+
+// Neither driver binds booleans or Dates the same way, so both are normalized here
+function toSqlite(value: unknown): SqliteValue {
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value === undefined) return null
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value)
+  return value as SqliteValue
+}
+
+function toSite(row: Row | null | undefined): SiteRecord | null {
+  if (!row) return null
+  return {
+    id: row.id as string,
+    domain: row.domain as string,
+    title: row.title as string | null,
+    description: row.description as string | null,
+    favicon: row.favicon as string | null,
+    status: row.status as SiteRecord['status'],
+    robotsStatus: row.robots_status as SiteRecord['robotsStatus'],
+    ownerOptout: row.owner_optout === 1,
+    popularity: row.popularity as number,
+    firstSeen: toDate(row.first_seen) as Date,
+    lastScanned: toDate(row.last_scanned)
+  }
+}
+
+function toScan(row: Row | null | undefined): ScanRecord | null {
+  if (!row) return null
+  return {
+    id: row.id as string,
+    siteId: row.site_id as string,
+    method: row.method as ScanRecord['method'],
+    prettify: row.prettify === 1,
+    cssSourceCount: row.css_source_count as number,
+    sha: row.sha as string | null,
+    startedAt: toDate(row.started_at) as Date,
+    finishedAt: toDate(row.finished_at),
+    error: row.error as string | null,
+    metricsJson: fromJson(row.metrics_json),
+    archiveUrl: row.archive_url as string | null,
+    replayOfScanId: row.replay_of_scan_id as string | null
+  }
+}
+
+function toTokenSet(row: Row | null | undefined): TokenSetRecord | null {
+  if (!row) return null
+  return {
+    id: row.id as string,
+    siteId: row.site_id as string | null,
+    scanId: row.scan_id as string | null,
+    versionNumber: row.version_number as number,
+    tokensJson: fromJson(row.tokens_json),
+    packJson: fromJson(row.pack_json),
+    consensusScore: row.consensus_score as string | null,
+    isPublic: row.is_public === 1,
+    isOfficial: row.is_official === 1,
+    createdBy: row.created_by as string | null,
+    createdAt: toDate(row.created_at) as Date
+  }
+}
+
+function toTokenVersion(row: Row): TokenVersionRecord {
+  return {
+    id: row.id as string,
+    siteId: row.site_id as string,
+    tokenSetId: row.token_set_id as string,
+    versionNumber: row.version_number as number,
+    previousVersionId: row.previous_version_id as string | null,
+    changelogJson: fromJson(row.changelog_json),
+    diffSummary: fromJson(row.diff_summary),
+    createdAt: toDate(row.created_at) as Date
+  }
+}
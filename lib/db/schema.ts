@@ -8,19 +8,24 @@ import {
   jsonb,
   varchar,
   decimal,
+  real,
   pgEnum,
-  unique
+  unique,
+  type AnyPgColumn,
+  serial,
+  index
 } from 'drizzle-orm/pg-core'
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
 
 // Enums
 export const scanStatusEnum = pgEnum('scan_status', ['queued', 'scanning', 'completed', 'failed'])
 export const scanMethodEnum = pgEnum('scan_method', ['static', 'computed'])
-export const cssSourceKindEnum = pgEnum('css_source_kind', ['link', 'inline', 'computed'])
-export const submissionStatusEnum = pgEnum('submission_status', ['queued', 'scanning', 'done', 'rejected'])
+export const cssSourceKindEnum = pgEnum('css_source_kind', ['link', 'inline', 'computed', 'cssom'])
+export const submissionStatusEnum = pgEnum('submission_status', ['queued', 'scanning', 'done', 'rejected', 'failed', 'cancelled'])
 export const voteTypeEnum = pgEnum('vote_type', ['correct', 'alias', 'duplicate', 'low_contrast', 'rename'])
 export const robotsStatusEnum = pgEnum('robots_status', ['allowed', 'disallowed', 'unknown'])
 export const changeTypeEnum = pgEnum('change_type', ['added', 'removed', 'modified'])
+export const watchCadenceEnum = pgEnum('watch_cadence', ['hourly', 'daily', 'weekly'])
 
 // Sites table - tracks domains and their scanning status
 export const sites = pgTable('sites', {
@@ -29,6 +34,8 @@ export const sites = pgTable('sites', {
   status: scanStatusEnum('status').notNull().default('queued'),
   robotsStatus: robotsStatusEnum('robots_status').notNull().default('unknown'),
   ownerOptout: boolean('owner_optout').notNull().default(false),
+  claimedBy: uuid('claimed_by').references(() => users.id, { onDelete: 'set null' }), // Verified owner
+  claimedAt: timestamp('claimed_at'),
   firstSeen: timestamp('first_seen').notNull().defaultNow(),
   lastScanned: timestamp('last_scanned'),
   popularity: integer('popularity').notNull().default(0),
@@ -51,6 +58,8 @@ export const scans = pgTable('scans', {
   error: text('error'),
   prettify: boolean('prettify').notNull().default(false),
   metricsJson: jsonb('metrics_json'),
+  archiveUrl: text('archive_url'), // HAR of every request the scan made, when archiving is on
+  replayOfScanId: uuid('replay_of_scan_id').references((): AnyPgColumn => scans.id, { onDelete: 'set null' }), // Set when served from that scan's archive
   createdAt: timestamp('created_at').notNull().defaultNow(),
 })
 
@@ -87,6 +96,7 @@ export const cssSources = pgTable('css_sources', {
   scanId: uuid('scan_id').notNull().references(() => scans.id, { onDelete: 'cascade' }),
   url: text('url'),
   kind: cssSourceKindEnum('kind').notNull(),
+  library: varchar('library', { length: 40 }), // CSS-in-JS library that injected a cssom source
   bytes: integer('bytes').notNull().default(0),
   sha: varchar('sha', { length: 64 }).notNull().references(() => cssContent.sha, { onDelete: 'set null' }), // Reference to deduplicated content
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -122,6 +132,20 @@ export const screenshots = pgTable('screenshots', {
   uniqueSiteViewport: unique('screenshots_site_viewport_unique').on(table.siteId, table.viewport)
 }))
 
+// Screenshot History table - every scan's screenshot per viewport, kept for visual diffs
+// Holds no reference count: rows disappear when the content expires after its TTL
+export const screenshotHistory = pgTable('screenshot_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  siteId: uuid('site_id').notNull().references(() => sites.id, { onDelete: 'cascade' }),
+  scanId: uuid('scan_id').notNull().references(() => scans.id, { onDelete: 'cascade' }),
+  sha: varchar('sha', { length: 64 }).notNull().references(() => screenshotContent.sha, { onDelete: 'cascade' }),
+  viewport: varchar('viewport', { length: 50 }).notNull(),
+  capturedAt: timestamp('captured_at').notNull().defaultNow(),
+}, (table) => ({
+  uniqueScanViewport: unique('screenshot_history_scan_viewport_unique').on(table.scanId, table.viewport),
+  siteIdx: index('idx_screenshot_history_site').on(table.siteId, table.capturedAt)
+}))
+
 // Token Sets table - W3C design tokens with metadata
 export const tokenSets = pgTable('token_sets', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -133,11 +157,51 @@ export const tokenSets = pgTable('token_sets', {
   packJson: jsonb('pack_json'), // AI prompt pack
   consensusScore: decimal('consensus_score', { precision: 3, scale: 2 }).default('0.00'),
   isPublic: boolean('is_public').notNull().default(true),
+  isOfficial: boolean('is_official').notNull().default(false), // Published by the verified site owner; outranks crawled sets
   createdBy: uuid('created_by').references(() => users.id),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 })
 
+// Token Colors table - opaque colors of each site's current public token set, indexed for perceptual search
+export const tokenColors = pgTable('token_colors', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tokenSetId: uuid('token_set_id').notNull().references(() => tokenSets.id, { onDelete: 'cascade' }),
+  siteId: uuid('site_id').notNull().references(() => sites.id, { onDelete: 'cascade' }),
+  path: varchar('path', { length: 255 }).notNull(), // e.g. color.brand.primary
+  hex: varchar('hex', { length: 7 }).notNull(),
+  labL: real('lab_l').notNull(), // CIELAB (D65), for ΔE2000
+  labA: real('lab_a').notNull(),
+  labB: real('lab_b').notNull(),
+  okL: real('ok_l').notNull(), // OKLCH, for OKLab distance
+  okC: real('ok_c').notNull(),
+  okH: real('ok_h').notNull(),
+  usage: integer('usage').notNull().default(1), // contextds.usage of the token
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  labIdx: index('idx_token_colors_lab').on(table.labL, table.labA, table.labB),
+  oklchIdx: index('idx_token_colors_oklch').on(table.okL, table.okC),
+  siteIdx: index('idx_token_colors_site').on(table.siteId)
+}))
+
+// Design Fingerprints table - one summary per site of its top-ranked token set and latest layout, for similar-site lookups
+export const designFingerprints = pgTable('design_fingerprints', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  siteId: uuid('site_id').notNull().references(() => sites.id, { onDelete: 'cascade' }).unique('design_fingerprints_site_unique'),
+  tokenSetId: uuid('token_set_id').notNull().references(() => tokenSets.id, { onDelete: 'cascade' }),
+  layoutProfileId: uuid('layout_profile_id').references(() => layoutProfiles.id, { onDelete: 'set null' }),
+  fingerprint: jsonb('fingerprint').notNull(), // DesignFingerprint
+  paletteL: real('palette_l'), // Usage-weighted palette centroid (CIELAB)
+  paletteA: real('palette_a'),
+  paletteB: real('palette_b'),
+  typeScaleRatio: real('type_scale_ratio'),
+  spacingBase: real('spacing_base'), // px
+  radiusBase: real('radius_base'), // Median radius, px
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  paletteIdx: index('idx_design_fingerprints_palette').on(table.paletteL, table.paletteA, table.paletteB)
+}))
+
 // Token Versions table - Track all historical versions for a site
 export const tokenVersions = pgTable('token_versions', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -162,6 +226,82 @@ export const tokenChanges = pgTable('token_changes', {
   createdAt: timestamp('created_at').notNull().defaultNow(),
 })
 
+// Screenshot Diffs table - pixel diff between two scans of a site, per viewport
+export const screenshotDiffs = pgTable('screenshot_diffs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  siteId: uuid('site_id').notNull().references(() => sites.id, { onDelete: 'cascade' }),
+  baseScanId: uuid('base_scan_id').notNull().references(() => scans.id, { onDelete: 'cascade' }),
+  targetScanId: uuid('target_scan_id').notNull().references(() => scans.id, { onDelete: 'cascade' }),
+  versionId: uuid('version_id').references(() => tokenVersions.id, { onDelete: 'set null' }), // Token version of the target scan
+  viewport: varchar('viewport', { length: 50 }).notNull(),
+  baseSha: varchar('base_sha', { length: 64 }).notNull(),
+  targetSha: varchar('target_sha', { length: 64 }).notNull(),
+  diffUrl: text('diff_url'), // Null when both screenshots are identical
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  changedPixels: integer('changed_pixels').notNull().default(0),
+  changedPercent: decimal('changed_percent', { precision: 6, scale: 3 }).notNull().default('0'),
+  regions: jsonb('regions').notNull().default([]), // Changed regions with linked token change ids
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  uniqueScansViewport: unique('screenshot_diffs_scans_viewport_unique').on(table.baseScanId, table.targetScanId, table.viewport)
+}))
+
+// Token Watches table - scheduled re-scans that report token drift to a webhook
+export const tokenWatches = pgTable('token_watches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  siteId: uuid('site_id').references(() => sites.id, { onDelete: 'cascade' }), // Set after the first watch scan
+  domain: varchar('domain', { length: 255 }).notNull(),
+  url: text('url').notNull(),
+  cadence: watchCadenceEnum('cadence').notNull().default('daily'),
+  depth: integer('depth').notNull().default(1), // Crawl depth passed to runScanJob
+  webhookUrl: text('webhook_url'),
+  webhookSecret: varchar('webhook_secret', { length: 64 }), // HMAC key for X-ContextDS-Signature
+  isActive: boolean('is_active').notNull().default(true),
+  nextRunAt: timestamp('next_run_at').notNull().defaultNow(),
+  lastRunAt: timestamp('last_run_at'),
+  lastTokenHash: varchar('last_token_hash', { length: 64 }),
+  lastVersionId: uuid('last_version_id').references(() => tokenVersions.id, { onDelete: 'set null' }),
+  lastError: text('last_error'),
+  consecutiveFailures: integer('consecutive_failures').notNull().default(0),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  uniqueOwnerUrl: unique('token_watches_owner_url_unique').on(table.createdBy, table.url)
+}))
+
+// Site Claims table - proof that a user controls a domain (DNS TXT or /.well-known/contextds.txt)
+export const siteClaims = pgTable('site_claims', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  domain: varchar('domain', { length: 255 }).notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  token: varchar('token', { length: 64 }).notNull(), // Value the owner publishes
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending, verified, superseded
+  method: varchar('method', { length: 20 }), // dns or well_known, once verified
+  verifiedAt: timestamp('verified_at'),
+  lastCheckedAt: timestamp('last_checked_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  domainIdx: index('idx_site_claims_domain').on(table.domain, table.status),
+  uniqueUserDomain: unique('site_claims_user_domain_unique').on(table.userId, table.domain)
+}))
+
+// Scan Profiles table - cookies, headers and login steps for scanning pages behind a login
+export const scanProfiles = pgTable('scan_profiles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  domain: varchar('domain', { length: 255 }).notNull(), // Hosts the profile may be used on (and their subdomains)
+  secretsEncrypted: text('secrets_encrypted').notNull(), // AES-256-GCM sealed cookies, headers and steps
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_scan_profiles_user').on(table.userId, table.createdAt)
+}))
+
 // Layout Profiles table - layout DNA analysis
 export const layoutProfiles = pgTable('layout_profiles', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -179,6 +319,21 @@ export const layoutProfiles = pgTable('layout_profiles', {
   createdAt: timestamp('created_at').notNull().defaultNow(),
 })
 
+// Accessibility Reports table - WCAG audits of the rendered page from accurate scans
+export const accessibilityReports = pgTable('accessibility_reports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  siteId: uuid('site_id').notNull().references(() => sites.id, { onDelete: 'cascade' }),
+  scanId: uuid('scan_id').notNull().references(() => scans.id, { onDelete: 'cascade' }).unique('accessibility_reports_scan_unique'),
+  tokenSetId: uuid('token_set_id').references(() => tokenSets.id, { onDelete: 'set null' }), // Token version the scan produced
+  url: text('url').notNull(),
+  score: integer('score').notNull(), // 0-100
+  level: varchar('level', { length: 20 }).notNull(), // WCAG level reached: 'A' | 'AA' | 'AAA' | 'Non-compliant'
+  violationCount: integer('violation_count').notNull().default(0),
+  criticalCount: integer('critical_count').notNull().default(0),
+  reportJson: jsonb('report_json').notNull(), // Full AccessibilityAnalysis with violations
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+})
+
 // Organization Artifacts table - company design system discovery
 export const orgArtifacts = pgTable('org_artifacts', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -197,14 +352,44 @@ export const submissions = pgTable('submissions', {
   id: uuid('id').primaryKey().defaultRandom(),
   url: text('url').notNull(),
   submittedBy: uuid('submitted_by').references(() => users.id),
+  apiKeyId: uuid('api_key_id').references(() => apiKeys.id, { onDelete: 'set null' }), // Key the job was submitted with
+  quotaUsageId: uuid('quota_usage_id').references(() => mcpUsage.id, { onDelete: 'set null' }), // Scan reserved from the key's quota; released when the job fails
+  watchId: uuid('watch_id').references(() => tokenWatches.id, { onDelete: 'set null' }), // Token watch re-scan; drift is computed when the job completes
   status: submissionStatusEnum('status').notNull().default('queued'),
   reason: text('reason'), // Rejection reason if applicable
   estimatedQueue: integer('estimated_queue'), // Queue position estimate
   notifyEmail: varchar('notify_email', { length: 255 }),
   priority: integer('priority').notNull().default(0), // Higher for paid users
+  // Scan job queue (consumed by the standalone scan worker)
+  domain: varchar('domain', { length: 255 }),
+  options: jsonb('options'), // runScanJob options (mode, depth, maxPages, prettify, includeComputed, ...)
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(3),
+  runAt: timestamp('run_at').notNull().defaultNow(), // Not claimable before this (retry backoff)
+  lockedBy: varchar('locked_by', { length: 100 }), // Worker id holding the lease
+  lockedUntil: timestamp('locked_until'), // Lease expiry; expired leases are reclaimed
+  cancelRequested: boolean('cancel_requested').notNull().default(false),
+  scanId: uuid('scan_id').references(() => scans.id, { onDelete: 'set null' }),
+  resultJson: jsonb('result_json'), // Full scan result, served with the SSE complete event
+  startedAt: timestamp('started_at'),
+  finishedAt: timestamp('finished_at'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
-})
+}, (table) => ({
+  claimIdx: index('idx_submissions_claim').on(table.status, table.priority, table.runAt),
+  domainIdx: index('idx_submissions_domain').on(table.domain, table.status),
+  watchIdx: index('idx_submissions_watch').on(table.watchId, table.status)
+}))
+
+// Scan job events table - progress events relayed from the worker for SSE clients
+export const scanJobEvents = pgTable('scan_job_events', {
+  id: serial('id').primaryKey(),
+  submissionId: uuid('submission_id').notNull().references(() => submissions.id, { onDelete: 'cascade' }),
+  event: jsonb('event').notNull(), // ProgressEvent (complete events carry no result data)
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  submissionIdx: index('idx_scan_job_events_submission').on(table.submissionId, table.id)
+}))
 
 // Token Votes table - community voting on token accuracy
 export const tokenVotes = pgTable('token_votes', {
@@ -267,13 +452,18 @@ export const apiKeys = pgTable('api_keys', {
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   name: varchar('name', { length: 255 }).notNull(),
   keyHash: varchar('key_hash', { length: 255 }).notNull().unique(), // Hashed API key
-  prefix: varchar('prefix', { length: 10 }).notNull(), // First few chars for display
+  prefix: varchar('prefix', { length: 10 }).notNull(), // First few chars for display and lookup
   permissions: jsonb('permissions'), // Scoped permissions array
+  monthlyQuota: integer('monthly_quota'), // Per-key scan cap below the subscription quota
   lastUsed: timestamp('last_used'),
   expiresAt: timestamp('expires_at'),
   isActive: boolean('is_active').notNull().default(true),
+  revokedAt: timestamp('revoked_at'),
+  rotatedFromId: uuid('rotated_from_id'), // Key this one replaced
   createdAt: timestamp('created_at').notNull().defaultNow(),
-})
+}, (table) => ({
+  prefixIdx: index('idx_api_keys_prefix').on(table.prefix)
+}))
 
 // MCP Usage table - tracking API and tool usage
 export const mcpUsage = pgTable('mcp_usage', {
@@ -335,9 +525,15 @@ export type NewScan = typeof scans.$inferInsert
 export type TokenSet = typeof tokenSets.$inferSelect
 export type NewTokenSet = typeof tokenSets.$inferInsert
 
+export type TokenVersion = typeof tokenVersions.$inferSelect
+
 export type LayoutProfile = typeof layoutProfiles.$inferSelect
 export type NewLayoutProfile = typeof layoutProfiles.$inferInsert
 
+export type AccessibilityReport = typeof accessibilityReports.$inferSelect
+
+export type ApiKey = typeof apiKeys.$inferSelect
+
 export type User = typeof users.$inferSelect
 export type NewUser = typeof users.$inferInsert
 
@@ -347,6 +543,18 @@ export type NewSubmission = typeof submissions.$inferInsert
 export type Screenshot = typeof screenshots.$inferSelect
 export type NewScreenshot = typeof screenshots.$inferInsert
 
+export type ScreenshotHistory = typeof screenshotHistory.$inferSelect
+export type ScreenshotDiff = typeof screenshotDiffs.$inferSelect
+
+export type SiteClaim = typeof siteClaims.$inferSelect
+
+export type ScanProfile = typeof scanProfiles.$inferSelect
+
+export type TokenWatch = typeof tokenWatches.$inferSelect
+export type NewTokenWatch = typeof tokenWatches.$inferInsert
+
+export type ScanJobEvent = typeof scanJobEvents.$inferSelect
+
 // Cache Tables for Performance
 export const statsCache = pgTable('stats_cache', {
   id: uuid('id').primaryKey().defaultRandom(),
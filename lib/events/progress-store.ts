@@ -1,16 +1,25 @@
 /**
  * In-memory event store for scan progress
- * Allows SSE endpoint to stream progress from Node.js environment
+ * Allows SSE endpoint to stream progress from Node.js environment.
+ * Events produced in another process (the queue worker) are relayed through
+ * the database and replayed here with follow()
  */
 
 import { ProgressEvent } from '@/lib/workers/progress-emitter'
 
 type ProgressListener = (event: ProgressEvent) => void
 
+// Loads events persisted after the given cursor; returns the new cursor
+export type ProgressEventSource = (cursor: number) => Promise<{ events: ProgressEvent[]; cursor: number }>
+
 class ProgressStore {
   private listeners = new Map<string, Set<ProgressListener>>()
   private recentEvents = new Map<string, ProgressEvent[]>()
+  private relays = new Set<ProgressListener>()
+  private followers = new Map<string, ReturnType<typeof setInterval>>()
+  private followCursors = new Map<string, number>()
   private readonly MAX_EVENTS_PER_SCAN = 100
+  private readonly FOLLOW_INTERVAL = 1000 // Poll relayed events every second
 
   /**
    * Subscribe to progress events for a specific scanId
@@ -55,6 +64,15 @@ class ProgressStore {
       events.shift()
     }
 
+    // Forward to relays (e.g. the worker persisting events for other processes)
+    this.relays.forEach(relay => {
+      try {
+        relay(event)
+      } catch (error) {
+        console.error('Error in progress relay:', error)
+      }
+    })
+
     // Notify all subscribers
     const listeners = this.listeners.get(scanId)
     if (listeners) {
@@ -75,6 +93,60 @@ class ProgressStore {
     }
   }
 
+  /**
+   * Receive every emitted event, for all scans
+   */
+  addRelay(relay: ProgressListener): () => void {
+    this.relays.add(relay)
+    return () => {
+      this.relays.delete(relay)
+    }
+  }
+
+  /**
+   * Replay events produced in another process into this store until the scan
+   * completes or nobody is listening. One poller per scanId per process
+   */
+  follow(scanId: string, source: ProgressEventSource) {
+    if (this.followers.has(scanId)) return
+
+    let polling = false
+
+    const stop = () => {
+      const timer = this.followers.get(scanId)
+      if (timer) clearInterval(timer)
+      this.followers.delete(scanId)
+    }
+
+    const poll = async () => {
+      if (polling) return
+      polling = true
+
+      try {
+        // Resume where an earlier follower stopped; those events are already in recentEvents
+        const batch = await source(this.followCursors.get(scanId) ?? 0)
+        this.followCursors.set(scanId, batch.cursor)
+
+        for (const event of batch.events) {
+          this.emit(scanId, event)
+          if (event.type === 'complete' || event.type === 'error') {
+            stop()
+            return
+          }
+        }
+
+        if (!this.hasListeners(scanId)) stop()
+      } catch (error) {
+        console.error(`Failed to load progress events for ${scanId}:`, error)
+      } finally {
+        polling = false
+      }
+    }
+
+    this.followers.set(scanId, setInterval(poll, this.FOLLOW_INTERVAL))
+    void poll()
+  }
+
   /**
    * Get recent events for a scanId (for SSE catch-up)
    */
@@ -88,6 +160,7 @@ class ProgressStore {
   private cleanup(scanId: string) {
     this.recentEvents.delete(scanId)
     this.listeners.delete(scanId)
+    this.followCursors.delete(scanId)
   }
 
   /**
@@ -9,9 +9,19 @@
  * - CSS Variables - Modern custom properties
  * - SCSS - Advanced Sass maps and functions
  * - TypeScript - Fully typed with const assertions
+ * - Style Dictionary, Theo, Swift, Kotlin, Android XML, Dart - see platform-exporters.ts
  */
 
-import type { CuratedTokenSet } from '@/lib/analyzers/token-curator'
+import type { CuratedToken, CuratedTokenSet } from '@/lib/analyzers/token-curator'
+import { fluidCss } from '@/lib/analyzers/responsive-tokens'
+import {
+  exportToStyleDictionary,
+  exportToTheo,
+  exportToSwift,
+  exportToKotlin,
+  exportToAndroidXML,
+  exportToDart
+} from './platform-exporters'
 
 export interface ExportMetadata {
   name: string
@@ -97,7 +107,7 @@ export function exportTokens(options: ExportOptions): string {
     case 'kotlin':
       return exportToKotlin(options)
     case 'xml':
-      return exportToXML(options)
+      return exportToAndroidXML(options)
     case 'dart':
       return exportToDart(options)
     default:
@@ -132,10 +142,11 @@ function exportToW3C(options: ExportOptions): string {
   if (tokens.colors && tokens.colors.length > 0) {
     w3cTokens.color = {}
     tokens.colors.forEach((color, index) => {
-      const name = color.semantic || color.name || `color-${index + 1}`
+      const name = colorTokenName(color, `color-${index + 1}`)
+      const aliasKey = colorAliasKey(color, tokens.colors)
       w3cTokens.color[sanitizeTokenName(name)] = {
         $type: 'color',
-        $value: color.value,
+        $value: aliasKey ? `{color.${aliasKey}}` : color.value,
         ...(color.semantic && { $description: color.semantic }),
         $extensions: {
           'contextds.usage': color.usage || 0,
@@ -287,9 +298,10 @@ function exportToFigmaTokens(options: ExportOptions): string {
   if (tokens.colors && tokens.colors.length > 0) {
     globalSet.colors = {}
     tokens.colors.forEach((color, index) => {
-      const name = color.semantic || color.name || `color-${index + 1}`
+      const name = colorTokenName(color, `color-${index + 1}`)
+      const aliasKey = colorAliasKey(color, tokens.colors)
       globalSet.colors[sanitizeTokenName(name)] = {
-        value: color.value,
+        value: aliasKey ? `{colors.${aliasKey}}` : color.value,
         type: 'color',
         ...(color.semantic && { description: color.semantic })
       }
@@ -374,19 +386,25 @@ function exportToFigmaTokens(options: ExportOptions): string {
  * For direct import into Figma via REST API
  */
 function exportToFigmaVariables(options: ExportOptions): string {
-  const { tokens } = options
+  const { tokens, metadata } = options
   const variables: any[] = []
 
+  // One collection; extracted theme modes (light, dark, ...) become its modes
+  const modes = tokens.metadata?.modes?.length ? tokens.metadata.modes : ['default']
+  const valuesByMode = <T>(value: T, byMode?: Record<string, T>) =>
+    Object.fromEntries(modes.map(mode => [mode, byMode?.[mode] ?? value]))
+
   // Colors as color variables
   if (tokens.colors) {
     tokens.colors.forEach((color, index) => {
-      const name = color.semantic || color.name || `color-${index + 1}`
+      const name = colorTokenName(color, `color-${index + 1}`)
+      const byMode = color.modes
+        ? Object.fromEntries(Object.entries(color.modes).map(([mode, value]) => [mode, parseColorToRGBA(value)]))
+        : undefined
       variables.push({
         name: sanitizeTokenName(name),
         resolvedType: 'COLOR',
-        valuesByMode: {
-          'default': parseColorToRGBA(color.value)
-        }
+        valuesByMode: valuesByMode(parseColorToRGBA(color.value), byMode)
       })
     })
   }
@@ -399,14 +417,18 @@ function exportToFigmaVariables(options: ExportOptions): string {
       variables.push({
         name: sanitizeTokenName(name),
         resolvedType: 'FLOAT',
-        valuesByMode: {
-          'default': parseFloat(parsed.value)
-        }
+        valuesByMode: valuesByMode(parseFloat(parsed.value))
       })
     })
   }
 
-  return JSON.stringify({ variables }, null, 2)
+  const collections = [{
+    name: metadata?.name || 'Design Tokens',
+    modes,
+    defaultMode: modes[0]
+  }]
+
+  return JSON.stringify({ collections, variables }, null, 2)
 }
 
 /**
@@ -427,11 +449,20 @@ function exportToTailwind(options: ExportOptions): string {
     css += `@import "tailwindcss";\n\n`
     css += `@theme {\n`
 
+    // Breakpoints (--breakpoint-* namespace), which drive the sm:/md:/... variants
+    if (tokens.metadata?.breakpoints && tokens.metadata.breakpoints.length > 0) {
+      if (includeComments) css += `  /* Breakpoints */\n`
+      tokens.metadata.breakpoints.forEach(breakpoint => {
+        css += `  --breakpoint-${sanitizeCSSVarName(breakpoint.name)}: ${breakpoint.minWidth / 16}rem;\n`
+      })
+      css += `\n`
+    }
+
     // Colors (--color-* namespace)
     if (tokens.colors && tokens.colors.length > 0) {
       if (includeComments) css += `  /* Colors */\n`
       tokens.colors.forEach(color => {
-        const name = color.semantic || color.name || color.value
+        const name = colorTokenName(color, color.value)
         css += `  --color-${sanitizeCSSVarName(name)}: ${color.value};\n`
       })
       css += `\n`
@@ -462,7 +493,7 @@ function exportToTailwind(options: ExportOptions): string {
       if (includeComments) css += `  /* Font Sizes */\n`
       tokens.typography.sizes.forEach(size => {
         const name = size.semantic || size.name || size.value
-        css += `  --font-size-${sanitizeCSSVarName(name)}: ${size.value};\n`
+        css += `  --font-size-${sanitizeCSSVarName(name)}: ${fontSizeValue(size)};\n`
       })
       css += `\n`
     }
@@ -489,6 +520,8 @@ function exportToTailwind(options: ExportOptions): string {
 
     css += `}\n`
 
+    css += exportCSSBreakpoints(options, '')
+
     return css
   } else {
     // Tailwind v3 JavaScript configuration
@@ -507,11 +540,19 @@ function exportToTailwindV3(options: ExportOptions): string {
     }
   }
 
+  // Breakpoints
+  if (tokens.metadata?.breakpoints && tokens.metadata.breakpoints.length > 0) {
+    config.theme.extend.screens = {}
+    tokens.metadata.breakpoints.forEach(breakpoint => {
+      config.theme.extend.screens[sanitizeCSSVarName(breakpoint.name)] = `${breakpoint.minWidth}px`
+    })
+  }
+
   // Colors
   if (tokens.colors && tokens.colors.length > 0) {
     config.theme.extend.colors = {}
     tokens.colors.forEach(color => {
-      const name = color.semantic || color.name || color.value
+      const name = colorTokenName(color, color.value)
       config.theme.extend.colors[sanitizeCSSVarName(name)] = color.value
     })
   }
@@ -539,7 +580,7 @@ function exportToTailwindV3(options: ExportOptions): string {
     config.theme.extend.fontSize = {}
     tokens.typography.sizes.forEach(size => {
       const name = size.semantic || size.name || size.value
-      config.theme.extend.fontSize[sanitizeCSSVarName(name)] = size.value
+      config.theme.extend.fontSize[sanitizeCSSVarName(name)] = fontSizeValue(size)
     })
   }
 
@@ -586,11 +627,12 @@ function exportToCSS(options: ExportOptions): string {
   if (tokens.colors && tokens.colors.length > 0) {
     if (includeComments) css += `  /* Colors (${tokens.colors.length}) */\n`
     tokens.colors.forEach(color => {
-      const name = color.semantic || color.name || color.value
+      const name = colorTokenName(color, color.value)
       if (includeComments && color.usage) {
         css += `  /* ${color.usage} uses */\n`
       }
-      css += `  --${prefix}${sanitizeCSSVarName(name)}: ${color.value};\n`
+      const aliasKey = colorAliasKey(color, tokens.colors)
+      css += `  --${prefix}${sanitizeCSSVarName(name)}: ${aliasKey ? `var(--${prefix}${aliasKey})` : color.value};\n`
     })
     css += `\n`
   }
@@ -610,7 +652,7 @@ function exportToCSS(options: ExportOptions): string {
     if (includeComments) css += `  /* Font Sizes (${tokens.typography.sizes.length}) */\n`
     tokens.typography.sizes.forEach(size => {
       const name = size.semantic || size.name || size.value
-      css += `  --${prefix}font-size-${sanitizeCSSVarName(name)}: ${size.value};\n`
+      css += `  --${prefix}font-size-${sanitizeCSSVarName(name)}: ${fontSizeValue(size)};\n`
     })
     css += `\n`
   }
@@ -667,9 +709,84 @@ function exportToCSS(options: ExportOptions): string {
 
   css += `}\n`
 
+  css += exportCSSThemeModes(options)
+  css += exportCSSBreakpoints(options, prefix)
+
+  return css
+}
+
+/**
+ * Theme mode overrides for colors that change per theme. Each non-base mode can
+ * be forced with [data-theme="<mode>"]; dark and light also follow the OS setting
+ */
+function exportCSSThemeModes(options: ExportOptions): string {
+  const { tokens, options: opts } = options
+  const includeComments = opts?.includeComments !== false
+  const prefix = opts?.prefix || ''
+  const [baseMode, ...otherModes] = tokens.metadata?.modes ?? []
+  const themed = (tokens.colors ?? []).filter(color => color.modes)
+
+  if (!baseMode || themed.length === 0) return ''
+
+  const declarations = (mode: string, indent: string) => themed
+    .filter(color => color.modes![mode])
+    .map(color => {
+      const name = colorTokenName(color, color.value)
+      return `${indent}--${prefix}${sanitizeCSSVarName(name)}: ${color.modes![mode]};\n`
+    })
+    .join('')
+
+  let css = includeComments ? `\n/* Theme modes (${[baseMode, ...otherModes].join(', ')}) */\n` : '\n'
+
+  css += `[data-theme="${baseMode}"] {\n${declarations(baseMode, '  ')}}\n`
+
+  otherModes.forEach(mode => {
+    css += `\n[data-theme="${mode}"] {\n${declarations(mode, '  ')}}\n`
+
+    if (mode === 'dark' || mode === 'light') {
+      css += `\n@media (prefers-color-scheme: ${mode}) {\n  :root:not([data-theme]) {\n${declarations(mode, '    ')}  }\n}\n`
+    }
+  })
+
   return css
 }
 
+/**
+ * Media query overrides for the font sizes and spacing that change at a
+ * breakpoint, mobile-first: each block only restates the values that differ
+ */
+function exportCSSBreakpoints(options: ExportOptions, prefix: string): string {
+  const { tokens, options: opts } = options
+  const includeComments = opts?.includeComments !== false
+  const breakpoints = tokens.metadata?.breakpoints ?? []
+
+  const groups: Array<[string, CuratedToken[]]> = [
+    ['font-size', tokens.typography?.sizes ?? []],
+    ['spacing', tokens.spacing ?? []]
+  ]
+
+  const blocks = breakpoints
+    .map(breakpoint => {
+      const declarations = groups
+        .flatMap(([namespace, group]) => group
+          .filter(token => token.breakpoints?.[breakpoint.name])
+          .map(token => {
+            const name = token.semantic || token.name || String(token.value)
+            return `    --${prefix}${namespace}-${sanitizeCSSVarName(name)}: ${token.breakpoints![breakpoint.name]};\n`
+          }))
+        .join('')
+      return declarations ? `@media (min-width: ${breakpoint.minWidth}px) {\n  :root {\n${declarations}  }\n}\n` : ''
+    })
+    .filter(Boolean)
+
+  if (blocks.length === 0) return ''
+
+  const header = includeComments
+    ? `\n/* Breakpoints (${breakpoints.map(breakpoint => `${breakpoint.name} ${breakpoint.minWidth}px`).join(', ')}) */\n`
+    : '\n'
+  return header + blocks.join('\n')
+}
+
 /**
  * SCSS with Advanced Features
  * Includes maps, functions, and mixins
@@ -687,13 +804,13 @@ function exportToSCSS(options: ExportOptions): string {
   if (tokens.colors && tokens.colors.length > 0) {
     if (includeComments) scss += `// Colors (${tokens.colors.length})\n`
     tokens.colors.forEach(color => {
-      const name = color.semantic || color.name || color.value
+      const name = colorTokenName(color, color.value)
       scss += `$${prefix}${sanitizeSCSSVarName(name)}: ${color.value};\n`
     })
 
     scss += `\n$${prefix}colors: (\n`
     tokens.colors.forEach((color, index) => {
-      const name = color.semantic || color.name || color.value
+      const name = colorTokenName(color, color.value)
       const comma = index < tokens.colors.length - 1 ? ',' : ''
       scss += `  '${sanitizeSCSSVarName(name)}': $${prefix}${sanitizeSCSSVarName(name)}${comma}\n`
     })
@@ -812,7 +929,7 @@ function exportToTypeScript(options: ExportOptions): string {
     ts += `/** Color tokens */\n`
     ts += `export const colors = {\n`
     tokens.colors.forEach((color, index) => {
-      const name = color.semantic || color.name || `color${index + 1}`
+      const name = colorTokenName(color, `color${index + 1}`)
       ts += `  ${sanitizeJSVarName(name)}: '${color.value}' as ColorToken,\n`
     })
     ts += `} as const;\n\n`
@@ -936,7 +1053,7 @@ function exportToYAML(options: ExportOptions): string {
   if (tokens.colors) {
     yaml += `colors:\n`
     tokens.colors.forEach(color => {
-      const name = color.semantic || color.name || color.value
+      const name = colorTokenName(color, color.value)
       yaml += `  ${sanitizeYAMLKey(name)}: "${color.value}"\n`
     })
     yaml += `\n`
@@ -954,18 +1071,6 @@ function exportToYAML(options: ExportOptions): string {
   return yaml
 }
 
-// Additional export formats (Style Dictionary, Theo, Swift, Kotlin, XML, Dart) would continue here...
-// For brevity, I'll include stubs for these
-
-function exportToStyleDictionary(options: ExportOptions): string {
-  return exportToW3C(options) // Style Dictionary supports W3C format
-}
-
-function exportToTheo(options: ExportOptions): string {
-  // Theo format is similar to W3C
-  return exportToW3C(options)
-}
-
 function exportToSass(options: ExportOptions): string {
   // Sass indented syntax
   return exportToSCSS(options).replace(/\{/g, '').replace(/\}/g, '').replace(/;/g, '')
@@ -982,89 +1087,37 @@ function exportToStylus(options: ExportOptions): string {
   return scss.replace(/\$/g, '').replace(/:/g, ' =').replace(/;/g, '')
 }
 
-function exportToSwift(options: ExportOptions): string {
-  // iOS Swift implementation
-  const { tokens, metadata } = options
-  let swift = `// ${metadata?.name || 'Design Tokens'}\n`
-  swift += `// Generated: ${new Date().toISOString()}\n\n`
-  swift += `import UIKit\n\n`
-  swift += `extension UIColor {\n`
-
-  if (tokens.colors) {
-    tokens.colors.forEach(color => {
-      const name = color.semantic || color.name || color.value
-      const rgba = parseColorToRGBA(color.value)
-      swift += `    static let ${sanitizeSwiftName(name)} = UIColor(red: ${rgba.r}, green: ${rgba.g}, blue: ${rgba.b}, alpha: ${rgba.a})\n`
-    })
-  }
-
-  swift += `}\n`
-  return swift
-}
-
-function exportToKotlin(options: ExportOptions): string {
-  // Android Kotlin implementation
-  const { tokens, metadata } = options
-  let kotlin = `// ${metadata?.name || 'Design Tokens'}\n`
-  kotlin += `// Generated: ${new Date().toISOString()}\n\n`
-  kotlin += `package com.example.tokens\n\n`
-  kotlin += `object DesignTokens {\n`
-
-  if (tokens.colors) {
-    kotlin += `    object Colors {\n`
-    tokens.colors.forEach(color => {
-      const name = color.semantic || color.name || color.value
-      kotlin += `        const val ${sanitizeKotlinName(name)} = "${color.value}"\n`
-    })
-    kotlin += `    }\n`
-  }
+// ============================================================================
+// Utility Functions
+// ============================================================================
 
-  kotlin += `}\n`
-  return kotlin
+/**
+ * Exported key of the color a token aliases, so `--primary: var(--blue-600)`
+ * stays a reference instead of a duplicated value. Null when the target was not
+ * exported or would export under the same key
+ */
+function fontSizeValue(size: CuratedToken): string | object {
+  return size.fluid ? fluidCss(size.fluid) : size.value
 }
 
-function exportToXML(options: ExportOptions): string {
-  // Android XML resources
-  const { tokens } = options
-  let xml = `<?xml version="1.0" encoding="utf-8"?>\n`
-  xml += `<!-- Generated Design Tokens -->\n`
-  xml += `<resources>\n`
+function colorAliasKey(color: CuratedToken, colors: CuratedToken[]): string | null {
+  if (!color.alias) return null
 
-  if (tokens.colors) {
-    tokens.colors.forEach(color => {
-      const name = color.semantic || color.name || color.value
-      xml += `    <color name="${sanitizeXMLName(name)}">${color.value}</color>\n`
-    })
-  }
+  const target = colors.find(candidate => candidate.name === color.alias)
+  if (!target) return null
 
-  xml += `</resources>\n`
-  return xml
+  const key = sanitizeTokenName(colorTokenName(target, target.name))
+  return key === sanitizeTokenName(colorTokenName(color, color.name)) ? null : key
 }
 
-function exportToDart(options: ExportOptions): string {
-  // Flutter Dart implementation
-  const { tokens, metadata } = options
-  let dart = `// ${metadata?.name || 'Design Tokens'}\n`
-  dart += `// Generated: ${new Date().toISOString()}\n\n`
-  dart += `import 'package:flutter/material.dart';\n\n`
-  dart += `class DesignTokens {\n`
-
-  if (tokens.colors) {
-    tokens.colors.forEach(color => {
-      const name = color.semantic || color.name || color.value
-      const rgba = parseColorToRGBA(color.value)
-      dart += `  static const Color ${sanitizeDartName(name)} = Color.fromRGBO(${Math.round(rgba.r * 255)}, ${Math.round(rgba.g * 255)}, ${Math.round(rgba.b * 255)}, ${rgba.a});\n`
-    })
-  }
-
-  dart += `}\n`
-  return dart
+/**
+ * Custom property tokens keep their own name (`primary`, `blue-600`); semantic
+ * labels repeat across colors and would collapse aliases onto one key
+ */
+function colorTokenName(color: CuratedToken, fallback: string | object): string {
+  return color.tier ? color.name : color.semantic || color.name || String(fallback)
 }
 
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
 function sanitizeTokenName(name: string): string {
   return name
     .toLowerCase()
@@ -1097,22 +1150,6 @@ function sanitizeYAMLKey(name: string): string {
   return name.replace(/[^a-zA-Z0-9_-]/g, '_')
 }
 
-function sanitizeSwiftName(name: string): string {
-  return sanitizeJSVarName(name)
-}
-
-function sanitizeKotlinName(name: string): string {
-  return name.toUpperCase().replace(/[^A-Z0-9]/g, '_')
-}
-
-function sanitizeXMLName(name: string): string {
-  return name.toLowerCase().replace(/[^a-z0-9_]/g, '_')
-}
-
-function sanitizeDartName(name: string): string {
-  return sanitizeJSVarName(name)
-}
-
 function parseDimension(value: string): { value: string; unit: string } {
   const match = value.match(/^([0-9.]+)(.*)$/)
   if (match) {
@@ -1149,32 +1186,36 @@ function parseColorToRGBA(color: string): { r: number; g: number; b: number; a:
   return { r: 0, g: 0, b: 0, a: 1 }
 }
 
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  'w3c-json': 'json',
+  'figma': 'json',
+  'figma-variables': 'json',
+  'tailwind': 'css',
+  'css': 'css',
+  'scss': 'scss',
+  'sass': 'sass',
+  'less': 'less',
+  'stylus': 'styl',
+  'ts': 'ts',
+  'js': 'js',
+  'json': 'json',
+  'yaml': 'yaml',
+  'style-dictionary': 'json',
+  'theo': 'json',
+  'swift': 'swift',
+  'kotlin': 'kt',
+  'xml': 'xml',
+  'dart': 'dart'
+}
+
+// Every supported format, in declaration order
+export const EXPORT_FORMATS = Object.keys(FILE_EXTENSIONS) as ExportFormat[]
+
 /**
  * Get file extension for format
  */
 export function getFileExtension(format: ExportFormat): string {
-  const extensions: Record<ExportFormat, string> = {
-    'w3c-json': 'json',
-    'figma': 'json',
-    'figma-variables': 'json',
-    'tailwind': 'css',
-    'css': 'css',
-    'scss': 'scss',
-    'sass': 'sass',
-    'less': 'less',
-    'stylus': 'styl',
-    'ts': 'ts',
-    'js': 'js',
-    'json': 'json',
-    'yaml': 'yaml',
-    'style-dictionary': 'json',
-    'theo': 'json',
-    'swift': 'swift',
-    'kotlin': 'kt',
-    'xml': 'xml',
-    'dart': 'dart'
-  }
-  return extensions[format]
+  return FILE_EXTENSIONS[format]
 }
 
 /**
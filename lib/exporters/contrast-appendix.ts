@@ -0,0 +1,78 @@
+/**
+ * Contrast Appendix
+ * Appends the contrast matrix to an export: a comment block in the format's own
+ * comment syntax, or $extensions['contextds.contrast'] for JSON formats
+ */
+
+import type { ContrastMatrix } from '@/lib/analyzers/contrast-matrix'
+import type { ExportFormat } from './comprehensive-token-exporter'
+
+const JSON_FORMATS = new Set<ExportFormat>(['w3c-json', 'figma', 'figma-variables', 'json', 'style-dictionary', 'theo'])
+
+export function appendContrastAppendix(content: string, format: ExportFormat, matrix: ContrastMatrix): string {
+  if (matrix.pairs.length === 0) return content
+
+  if (JSON_FORMATS.has(format)) {
+    try {
+      const parsed = JSON.parse(content)
+      parsed.$extensions = { ...parsed.$extensions, 'contextds.contrast': summarizeMatrix(matrix) }
+      return JSON.stringify(parsed, null, 2)
+    } catch {
+      return content
+    }
+  }
+
+  const lines = formatContrastLines(matrix)
+
+  switch (format) {
+    case 'yaml':
+      return `${content}\n${lines.map(line => `# ${line}`.trimEnd()).join('\n')}\n`
+    case 'sass':
+      return `${content}\n${lines.map(line => `// ${line}`.trimEnd()).join('\n')}\n`
+    case 'xml':
+      return `${content}\n<!--\n${lines.map(line => `  ${line}`.trimEnd()).join('\n')}\n-->\n`
+    default:
+      return `${content}\n/*\n${lines.map(line => ` * ${line}`.trimEnd()).join('\n')}\n */\n`
+  }
+}
+
+/**
+ * Plain-text table of the matrix, worst pairs first
+ */
+export function formatContrastLines(matrix: ContrastMatrix): string[] {
+  const { summary } = matrix
+  const lines = [
+    `Contrast appendix (WCAG ${matrix.target}, ${matrix.pairing} pairs)`,
+    `${summary.pairs} pairs: ${summary.passing} pass, ${summary.failing} fail WCAG, ${summary.apcaFailing} fail APCA`,
+    ''
+  ]
+
+  matrix.pairs.forEach(pair => {
+    const status = pair.wcag.passes ? 'pass' : 'FAIL'
+    let line = `${status}  ${pair.foreground.path} (${pair.foreground.hex}) on ${pair.background.path} (${pair.background.hex}): ` +
+      `${pair.wcag.ratio.toFixed(2)}:1, APCA Lc ${pair.apca.lc.toFixed(1)}`
+    if (pair.alternative) {
+      line += ` -> use ${pair.alternative.hex} (${pair.alternative.wcagRatio.toFixed(2)}:1)`
+    }
+    lines.push(line)
+  })
+
+  return lines
+}
+
+function summarizeMatrix(matrix: ContrastMatrix) {
+  return {
+    target: matrix.target,
+    pairing: matrix.pairing,
+    summary: matrix.summary,
+    pairs: matrix.pairs.map(pair => ({
+      foreground: pair.foreground.path,
+      background: pair.background.path,
+      wcagRatio: pair.wcag.ratio,
+      wcagLevel: pair.wcag.level,
+      apcaLc: pair.apca.lc,
+      passes: pair.wcag.passes,
+      ...(pair.alternative ? { alternative: pair.alternative.hex } : {})
+    }))
+  }
+}
@@ -0,0 +1,919 @@
+/**
+ * Platform Token Exporters
+ * Build-tool and native platform exports with full token coverage
+ *
+ * Supported formats:
+ * - Style Dictionary - category/type/item (CTI) source JSON
+ * - Theo - Salesforce Theo props JSON
+ * - Swift - SwiftUI Color/CGFloat/Font extensions
+ * - Kotlin - Jetpack Compose Color/Dp/TextStyle objects
+ * - Android XML - colors, dimens, integers and TextAppearance styles
+ * - Dart - Flutter constants plus a ThemeData extension
+ */
+
+import type { CuratedToken } from '@/lib/analyzers/token-curator'
+import { parseColor } from '@/lib/analyzers/color-utils'
+import type { ExportOptions } from './comprehensive-token-exporter'
+
+const BASE_FONT_SIZE = 16
+
+// ============================================================================
+// Normalized platform model
+// ============================================================================
+
+interface PlatformName {
+  words: string[]
+  original: string
+}
+
+interface PlatformColor {
+  name: PlatformName
+  hex: string
+  r: number // 0-255
+  g: number
+  b: number
+  a: number // 0-1
+}
+
+interface PlatformDimension {
+  name: PlatformName
+  px: number
+  css: string
+}
+
+interface PlatformFontFamily {
+  name: PlatformName
+  family: string
+  generic: 'sans-serif' | 'serif' | 'monospace'
+}
+
+interface PlatformFontWeight {
+  name: PlatformName
+  weight: number
+}
+
+interface PlatformShadowLayer {
+  x: number
+  y: number
+  blur: number
+  spread: number
+  color: PlatformColor
+  inset: boolean
+}
+
+interface PlatformShadow {
+  name: PlatformName
+  css: string
+  layers: PlatformShadowLayer[]
+}
+
+interface PlatformDuration {
+  name: PlatformName
+  ms: number
+}
+
+interface PlatformTextStyle {
+  name: PlatformName
+  fontFamily?: PlatformFontFamily
+  fontSize: number
+  fontWeight: number
+}
+
+interface PlatformTokens {
+  colors: PlatformColor[]
+  fontFamilies: PlatformFontFamily[]
+  fontSizes: PlatformDimension[]
+  fontWeights: PlatformFontWeight[]
+  spacing: PlatformDimension[]
+  radii: PlatformDimension[]
+  shadows: PlatformShadow[]
+  durations: PlatformDuration[]
+  textStyles: PlatformTextStyle[]
+}
+
+function buildPlatformTokens(options: ExportOptions): PlatformTokens {
+  const { tokens } = options
+
+  const colors = withNames(tokens.colors || [], 'color').flatMap(({ token, name }) => {
+    const color = toPlatformColor(tokenValue(token), name)
+    return color ? [color] : []
+  })
+
+  const fontFamilies = withNames(tokens.typography?.families || [], 'font').map(({ token, name }) => {
+    const family = tokenValue(token).split(',')[0].trim().replace(/['"]/g, '')
+    return { name, family, generic: inferGenericFamily(tokenValue(token)) }
+  })
+
+  const fontSizes = toDimensions(tokens.typography?.sizes || [], 'size')
+  const spacing = toDimensions(tokens.spacing || [], 'spacing')
+  const radii = toDimensions(tokens.radius || [], 'radius')
+
+  const fontWeights = withNames(tokens.typography?.weights || [], 'weight').flatMap(({ token, name }) => {
+    const weight = parseFontWeight(tokenValue(token))
+    return weight ? [{ name, weight }] : []
+  })
+
+  const shadows = withNames(tokens.shadows || [], 'shadow').flatMap(({ token, name }) => {
+    const css = tokenValue(token)
+    const layers = parseShadowLayers(css)
+    return layers.length > 0 ? [{ name, css, layers }] : []
+  })
+
+  const durations = withNames(tokens.motion || [], 'duration').flatMap(({ token, name }) => {
+    const ms = parseDurationMs(tokenValue(token))
+    return ms !== null ? [{ name, ms }] : []
+  })
+
+  return {
+    colors,
+    fontFamilies,
+    fontSizes,
+    fontWeights,
+    spacing,
+    radii,
+    shadows,
+    durations,
+    textStyles: buildTextStyles(fontSizes, fontFamilies, fontWeights)
+  }
+}
+
+/**
+ * Text styles pair every font size with the primary family. Body sizes use the
+ * most common weight, heading sizes (>= 20px) the heaviest weight in the set.
+ */
+function buildTextStyles(
+  sizes: PlatformDimension[],
+  families: PlatformFontFamily[],
+  weights: PlatformFontWeight[]
+): PlatformTextStyle[] {
+  const primaryFamily = families.find(family => family.generic !== 'monospace') || families[0]
+  const bodyWeight = weights[0]?.weight ?? 400
+  const headingWeight = weights.length > 0 ? Math.max(...weights.map(weight => weight.weight)) : 700
+
+  return sizes.map(size => ({
+    name: size.name,
+    fontFamily: primaryFamily,
+    fontSize: size.px,
+    fontWeight: size.px >= 20 ? Math.max(headingWeight, bodyWeight) : bodyWeight
+  }))
+}
+
+function toDimensions(tokens: CuratedToken[], category: string): PlatformDimension[] {
+  return withNames(tokens, category).flatMap(({ token, name }) => {
+    const css = tokenValue(token)
+    const px = parseDimensionPx(css)
+    return px !== null ? [{ name, px, css }] : []
+  })
+}
+
+/**
+ * Assign word-split names that are unique within a category
+ */
+function withNames(tokens: CuratedToken[], category: string): Array<{ token: CuratedToken; name: PlatformName }> {
+  const used = new Map<string, number>()
+
+  return tokens.map((token, index) => {
+    const original = token.semantic || token.name || `${category}-${index + 1}`
+    let words = splitWords(original)
+    if (words.length === 0) words = [category, String(index + 1)]
+
+    const key = words.join('-')
+    const count = (used.get(key) || 0) + 1
+    used.set(key, count)
+    if (count > 1) words = [...words, String(count)]
+
+    return { token, name: { words, original } }
+  })
+}
+
+function splitWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+function tokenValue(token: CuratedToken): string {
+  return typeof token.value === 'string' ? token.value : JSON.stringify(token.value)
+}
+
+// ============================================================================
+// Value parsing
+// ============================================================================
+
+function toPlatformColor(value: string, name: PlatformName): PlatformColor | null {
+  const rgb = parseColor(value)
+  if (!rgb) return null
+
+  const a = rgb.a ?? 1
+  return {
+    name,
+    hex: `#${[rgb.r, rgb.g, rgb.b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`,
+    r: rgb.r,
+    g: rgb.g,
+    b: rgb.b,
+    a: Math.round(a * 1000) / 1000
+  }
+}
+
+function parseDimensionPx(value: string): number | null {
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|em)?$/i)
+  if (!match) return null
+
+  const amount = parseFloat(match[1])
+  const unit = (match[2] || 'px').toLowerCase()
+  const px = unit === 'px' ? amount : amount * BASE_FONT_SIZE
+  return Math.round(px * 100) / 100
+}
+
+function parseDurationMs(value: string): number | null {
+  const match = value.trim().match(/^(\d*\.?\d+)(ms|s)?$/i)
+  if (!match) return null
+
+  const amount = parseFloat(match[1])
+  return Math.round((match[2] || 'ms').toLowerCase() === 's' ? amount * 1000 : amount)
+}
+
+function parseFontWeight(value: string): number | null {
+  const keywords: Record<string, number> = { normal: 400, bold: 700, lighter: 300, bolder: 700 }
+  const weight = keywords[value.trim().toLowerCase()] ?? parseInt(value, 10)
+  if (isNaN(weight) || weight < 1 || weight > 1000) return null
+  return weight
+}
+
+function inferGenericFamily(stack: string): PlatformFontFamily['generic'] {
+  const lower = stack.toLowerCase()
+  if (/mono|code|courier|consolas|menlo/.test(lower)) return 'monospace'
+  if (/(^|[^-])serif/.test(lower.replace(/sans-serif/g, '')) || /georgia|times|garamond/.test(lower)) return 'serif'
+  return 'sans-serif'
+}
+
+/**
+ * Parse a CSS box-shadow list into individual layers
+ */
+function parseShadowLayers(css: string): PlatformShadowLayer[] {
+  const layers: PlatformShadowLayer[] = []
+
+  splitTopLevel(css, ',').forEach(layerCss => {
+    const parts = splitTopLevel(layerCss.trim(), ' ').filter(Boolean)
+    const lengths: number[] = []
+    let inset = false
+    let colorValue = 'rgba(0, 0, 0, 1)'
+
+    parts.forEach(part => {
+      if (part.toLowerCase() === 'inset') {
+        inset = true
+        return
+      }
+      const px = parseDimensionPx(part)
+      if (px !== null) {
+        lengths.push(px)
+      } else {
+        colorValue = part
+      }
+    })
+
+    if (lengths.length < 2) return
+
+    const color = toPlatformColor(colorValue, { words: ['shadow'], original: colorValue })
+    if (!color) return
+
+    layers.push({
+      x: lengths[0],
+      y: lengths[1],
+      blur: lengths[2] ?? 0,
+      spread: lengths[3] ?? 0,
+      color,
+      inset
+    })
+  })
+
+  return layers
+}
+
+function splitTopLevel(value: string, separator: ',' | ' '): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+
+  for (const char of value) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+
+    const isSeparator = separator === ' ' ? /\s/.test(char) : char === separator
+    if (isSeparator && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  parts.push(current)
+  return parts.map(part => part.trim()).filter(Boolean)
+}
+
+// ============================================================================
+// Naming helpers
+// ============================================================================
+
+function camelCase(words: string[]): string {
+  return words
+    .map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+}
+
+function pascalCase(words: string[]): string {
+  return words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('')
+}
+
+function snakeCase(words: string[]): string {
+  return words.join('_')
+}
+
+function kebabCase(words: string[]): string {
+  return words.join('-')
+}
+
+/**
+ * Prefix the category unless the name already starts with it, and make sure
+ * identifiers never begin with a digit
+ */
+function qualified(category: string[], name: PlatformName): string[] {
+  const startsWithCategory = category.every((word, index) => name.words[index] === word)
+  return startsWithCategory ? name.words : [...category, ...name.words]
+}
+
+function formatNumber(value: number, digits = 3): string {
+  return String(Math.round(value * 10 ** digits) / 10 ** digits)
+}
+
+function argbHex(color: PlatformColor): string {
+  const alpha = Math.round(color.a * 255)
+  return [alpha, color.r, color.g, color.b]
+    .map(channel => channel.toString(16).padStart(2, '0').toUpperCase())
+    .join('')
+}
+
+function cssColor(color: PlatformColor): string {
+  return color.a < 1
+    ? `rgba(${color.r}, ${color.g}, ${color.b}, ${formatNumber(color.a)})`
+    : color.hex
+}
+
+function buildHeader(options: ExportOptions, commentPrefix: string, target: string): string {
+  const lines = [
+    `${options.metadata?.name || 'Design Tokens'} - ${target}`,
+    `Generated: ${new Date().toISOString()}`,
+    'Do not edit directly, this file was generated by ContextDS'
+  ]
+  return lines.map(line => `${commentPrefix} ${line}`).join('\n') + '\n'
+}
+
+// ============================================================================
+// Style Dictionary
+// ============================================================================
+
+/**
+ * Style Dictionary source tokens (category/type/item structure)
+ * Spec: https://styledictionary.com/info/tokens/
+ */
+export function exportToStyleDictionary(options: ExportOptions): string {
+  const platform = buildPlatformTokens(options)
+  type TokenTree = { [key: string]: TokenTree | Record<string, unknown> }
+  const output: TokenTree = {}
+
+  const set = (path: string[], token: Record<string, unknown>) => {
+    let node = output
+    path.slice(0, -1).forEach(segment => {
+      node[segment] = node[segment] || {}
+      node = node[segment] as TokenTree
+    })
+    node[path[path.length - 1]] = token
+  }
+
+  platform.colors.forEach(color => {
+    set(['color', 'base', kebabCase(color.name.words)], {
+      value: cssColor(color),
+      type: 'color',
+      comment: color.name.original
+    })
+  })
+
+  platform.fontFamilies.forEach(font => {
+    set(['font', 'family', kebabCase(font.name.words)], {
+      value: `${quoteFamily(font.family)}, ${font.generic}`,
+      type: 'fontFamily'
+    })
+  })
+
+  platform.fontWeights.forEach(weight => {
+    set(['font', 'weight', kebabCase(weight.name.words)], {
+      value: weight.weight,
+      type: 'fontWeight'
+    })
+  })
+
+  platform.fontSizes.forEach(size => {
+    set(['size', 'font', kebabCase(size.name.words)], {
+      value: `${formatNumber(size.px / BASE_FONT_SIZE, 4)}rem`,
+      type: 'dimension',
+      comment: `${formatNumber(size.px)}px`
+    })
+  })
+
+  platform.spacing.forEach(space => {
+    set(['size', 'spacing', kebabCase(space.name.words)], {
+      value: `${formatNumber(space.px)}px`,
+      type: 'dimension'
+    })
+  })
+
+  platform.radii.forEach(radius => {
+    set(['size', 'radius', kebabCase(radius.name.words)], {
+      value: `${formatNumber(radius.px)}px`,
+      type: 'dimension'
+    })
+  })
+
+  platform.shadows.forEach(shadow => {
+    set(['shadow', kebabCase(shadow.name.words)], {
+      value: shadow.layers.map(layer => ({
+        offsetX: `${formatNumber(layer.x)}px`,
+        offsetY: `${formatNumber(layer.y)}px`,
+        blur: `${formatNumber(layer.blur)}px`,
+        spread: `${formatNumber(layer.spread)}px`,
+        color: cssColor(layer.color),
+        ...(layer.inset && { inset: true })
+      })),
+      type: 'shadow',
+      comment: shadow.css
+    })
+  })
+
+  platform.durations.forEach(duration => {
+    set(['time', 'duration', kebabCase(duration.name.words)], {
+      value: `${duration.ms}ms`,
+      type: 'duration'
+    })
+  })
+
+  platform.textStyles.forEach(style => {
+    set(['typography', kebabCase(style.name.words)], {
+      value: {
+        ...(style.fontFamily && { fontFamily: `{font.family.${kebabCase(style.fontFamily.name.words)}}` }),
+        fontSize: `{size.font.${kebabCase(style.name.words)}}`,
+        fontWeight: style.fontWeight
+      },
+      type: 'typography'
+    })
+  })
+
+  return JSON.stringify(output, null, 2)
+}
+
+// ============================================================================
+// Theo
+// ============================================================================
+
+/**
+ * Salesforce Theo props file
+ * Spec: https://github.com/salesforce-ux/theo#spec
+ */
+export function exportToTheo(options: ExportOptions): string {
+  const platform = buildPlatformTokens(options)
+  const props: Record<string, { value: string | number; type: string; category: string; comment?: string }> = {}
+
+  platform.colors.forEach(color => {
+    props[camelCase(qualified(['color'], color.name))] = {
+      value: cssColor(color),
+      type: 'color',
+      category: 'color',
+      comment: color.name.original
+    }
+  })
+
+  platform.fontFamilies.forEach(font => {
+    props[camelCase(qualified(['font', 'family'], font.name))] = {
+      value: `${quoteFamily(font.family)}, ${font.generic}`,
+      type: 'string',
+      category: 'font'
+    }
+  })
+
+  platform.fontWeights.forEach(weight => {
+    props[camelCase(qualified(['font', 'weight'], weight.name))] = {
+      value: weight.weight,
+      type: 'number',
+      category: 'font-weight'
+    }
+  })
+
+  platform.fontSizes.forEach(size => {
+    props[camelCase(qualified(['font', 'size'], size.name))] = {
+      value: `${formatNumber(size.px / BASE_FONT_SIZE, 4)}rem`,
+      type: 'size',
+      category: 'font-size'
+    }
+  })
+
+  platform.spacing.forEach(space => {
+    props[camelCase(qualified(['spacing'], space.name))] = {
+      value: `${formatNumber(space.px)}px`,
+      type: 'size',
+      category: 'spacing'
+    }
+  })
+
+  platform.radii.forEach(radius => {
+    props[camelCase(qualified(['radius'], radius.name))] = {
+      value: `${formatNumber(radius.px)}px`,
+      type: 'size',
+      category: 'radius'
+    }
+  })
+
+  platform.shadows.forEach(shadow => {
+    props[camelCase(qualified(['shadow'], shadow.name))] = {
+      value: shadow.layers.map(layer => [
+        layer.inset ? 'inset' : '',
+        `${formatNumber(layer.x)}px ${formatNumber(layer.y)}px ${formatNumber(layer.blur)}px ${formatNumber(layer.spread)}px`,
+        cssColor(layer.color)
+      ].filter(Boolean).join(' ')).join(', '),
+      type: 'shadow',
+      category: 'box-shadow'
+    }
+  })
+
+  platform.durations.forEach(duration => {
+    props[camelCase(qualified(['duration'], duration.name))] = {
+      value: `${duration.ms}ms`,
+      type: 'time',
+      category: 'time'
+    }
+  })
+
+  return JSON.stringify({
+    global: {
+      ...(options.metadata?.name && { comment: options.metadata.name })
+    },
+    props
+  }, null, 2)
+}
+
+// ============================================================================
+// Swift (SwiftUI)
+// ============================================================================
+
+const SWIFT_WEIGHTS: Array<[number, string]> = [
+  [100, '.ultraLight'], [200, '.thin'], [300, '.light'], [400, '.regular'],
+  [500, '.medium'], [600, '.semibold'], [700, '.bold'], [800, '.heavy'], [900, '.black']
+]
+
+/**
+ * SwiftUI extensions on Color, CGFloat, Font and TimeInterval
+ */
+export function exportToSwift(options: ExportOptions): string {
+  const platform = buildPlatformTokens(options)
+  const prefix = splitWords(options.options?.prefix || 'ds')
+  const name = (category: string[], token: PlatformName) => camelCase([...prefix, ...qualified(category, token)])
+
+  let swift = buildHeader(options, '//', 'SwiftUI')
+  swift += `\nimport SwiftUI\n`
+
+  if (platform.colors.length > 0) {
+    swift += `\n// MARK: - Colors\n\npublic extension Color {\n`
+    platform.colors.forEach(color => {
+      swift += `    static let ${name([], color.name)} = ${swiftColor(color)}\n`
+    })
+    swift += `}\n`
+  }
+
+  if (platform.spacing.length > 0 || platform.radii.length > 0 || platform.fontSizes.length > 0) {
+    swift += `\n// MARK: - Dimensions\n\npublic extension CGFloat {\n`
+    platform.spacing.forEach(space => {
+      swift += `    static let ${name(['spacing'], space.name)}: CGFloat = ${formatNumber(space.px)}\n`
+    })
+    platform.radii.forEach(radius => {
+      swift += `    static let ${name(['radius'], radius.name)}: CGFloat = ${formatNumber(radius.px)}\n`
+    })
+    platform.fontSizes.forEach(size => {
+      swift += `    static let ${name(['font', 'size'], size.name)}: CGFloat = ${formatNumber(size.px)}\n`
+    })
+    swift += `}\n`
+  }
+
+  if (platform.textStyles.length > 0) {
+    swift += `\n// MARK: - Typography\n\npublic extension Font {\n`
+    platform.textStyles.forEach(style => {
+      const weight = swiftWeight(style.fontWeight)
+      const font = style.fontFamily
+        ? `Font.custom("${style.fontFamily.family}", size: ${formatNumber(style.fontSize)})`
+        : `Font.system(size: ${formatNumber(style.fontSize)})`
+      swift += `    static let ${name(['text'], style.name)} = ${font}.weight(${weight})\n`
+    })
+    swift += `}\n`
+  }
+
+  if (platform.shadows.length > 0) {
+    swift += `\n// MARK: - Shadows\n\n`
+    swift += `public struct ${pascalCase(prefix)}Shadow {\n`
+    swift += `    public let color: Color\n    public let radius: CGFloat\n    public let x: CGFloat\n    public let y: CGFloat\n`
+    swift += `}\n\npublic extension ${pascalCase(prefix)}Shadow {\n`
+    platform.shadows.forEach(shadow => {
+      // SwiftUI renders a single drop shadow per modifier; use the most prominent outer layer
+      const layer = [...shadow.layers].filter(l => !l.inset).sort((a, b) => b.blur - a.blur)[0] || shadow.layers[0]
+      swift += `    static let ${swiftIdentifier(camelCase(shadow.name.words))} = ${pascalCase(prefix)}Shadow(color: ${swiftColor(layer.color)}, radius: ${formatNumber(layer.blur / 2)}, x: ${formatNumber(layer.x)}, y: ${formatNumber(layer.y)})\n`
+    })
+    swift += `}\n\npublic extension View {\n`
+    swift += `    func ${camelCase([...prefix, 'shadow'])}(_ shadow: ${pascalCase(prefix)}Shadow) -> some View {\n`
+    swift += `        self.shadow(color: shadow.color, radius: shadow.radius, x: shadow.x, y: shadow.y)\n    }\n}\n`
+  }
+
+  if (platform.durations.length > 0) {
+    swift += `\n// MARK: - Motion\n\npublic extension TimeInterval {\n`
+    platform.durations.forEach(duration => {
+      swift += `    static let ${name(['duration'], duration.name)}: TimeInterval = ${formatNumber(duration.ms / 1000)}\n`
+    })
+    swift += `}\n`
+  }
+
+  return swift
+}
+
+function swiftColor(color: PlatformColor): string {
+  return `Color(.sRGB, red: ${formatNumber(color.r / 255)}, green: ${formatNumber(color.g / 255)}, blue: ${formatNumber(color.b / 255)}, opacity: ${formatNumber(color.a)})`
+}
+
+function swiftIdentifier(name: string): string {
+  return /^[0-9]/.test(name) ? `_${name}` : name
+}
+
+function swiftWeight(weight: number): string {
+  return SWIFT_WEIGHTS.reduce((closest, candidate) =>
+    Math.abs(candidate[0] - weight) < Math.abs(closest[0] - weight) ? candidate : closest
+  )[1]
+}
+
+// ============================================================================
+// Kotlin (Jetpack Compose)
+// ============================================================================
+
+const COMPOSE_WEIGHTS: Record<number, string> = {
+  100: 'FontWeight.Thin', 200: 'FontWeight.ExtraLight', 300: 'FontWeight.Light',
+  400: 'FontWeight.Normal', 500: 'FontWeight.Medium', 600: 'FontWeight.SemiBold',
+  700: 'FontWeight.Bold', 800: 'FontWeight.ExtraBold', 900: 'FontWeight.Black'
+}
+
+/**
+ * Jetpack Compose objects using Color, Dp, TextUnit and TextStyle
+ */
+export function exportToKotlin(options: ExportOptions): string {
+  const platform = buildPlatformTokens(options)
+  const name = (token: PlatformName) => kotlinName(token.words)
+
+  let kotlin = buildHeader(options, '//', 'Jetpack Compose')
+  kotlin += `\npackage com.example.tokens\n\n`
+  kotlin += [
+    'androidx.compose.ui.graphics.Color',
+    'androidx.compose.ui.text.TextStyle',
+    'androidx.compose.ui.text.font.FontFamily',
+    'androidx.compose.ui.text.font.FontWeight',
+    'androidx.compose.ui.unit.dp',
+    'androidx.compose.ui.unit.sp'
+  ].map(path => `import ${path}\n`).join('')
+  kotlin += `\nobject DesignTokens {\n`
+
+  const section = (title: string, lines: string[]) => {
+    if (lines.length === 0) return
+    kotlin += `\n    object ${title} {\n${lines.map(line => `        ${line}\n`).join('')}    }\n`
+  }
+
+  section('Colors', platform.colors.map(color => `val ${name(color.name)} = Color(0x${argbHex(color)})`))
+  section('Spacing', platform.spacing.map(space => `val ${name(space.name)} = ${formatNumber(space.px)}.dp`))
+  section('Radius', platform.radii.map(radius => `val ${name(radius.name)} = ${formatNumber(radius.px)}.dp`))
+  section('FontSize', platform.fontSizes.map(size => `val ${name(size.name)} = ${formatNumber(size.px)}.sp`))
+  section('FontWeights', platform.fontWeights.map(weight => `val ${name(weight.name)} = ${composeWeight(weight.weight)}`))
+  section('FontFamilies', platform.fontFamilies.map(font =>
+    `val ${name(font.name)} = ${composeFamily(font)} // ${font.family}`
+  ))
+  section('Typography', platform.textStyles.map(style =>
+    `val ${name(style.name)} = TextStyle(fontFamily = ${style.fontFamily ? composeFamily(style.fontFamily) : 'FontFamily.Default'}, fontSize = ${formatNumber(style.fontSize)}.sp, fontWeight = ${composeWeight(style.fontWeight)})`
+  ))
+  section('Elevation', platform.shadows.map(shadow => {
+    const layer = [...shadow.layers].sort((a, b) => b.blur - a.blur)[0]
+    return `val ${name(shadow.name)} = ${formatNumber(Math.max(layer.y, layer.blur / 2))}.dp // ${shadow.css}`
+  }))
+  section('Duration', platform.durations.map(duration => `const val ${name(duration.name)} = ${duration.ms} // ms`))
+
+  kotlin += `}\n`
+  return kotlin
+}
+
+function kotlinName(words: string[]): string {
+  const name = pascalCase(words)
+  return /^[0-9]/.test(name) ? `_${name}` : name
+}
+
+function composeWeight(weight: number): string {
+  return COMPOSE_WEIGHTS[weight] || `FontWeight(${weight})`
+}
+
+function composeFamily(font: PlatformFontFamily): string {
+  if (font.generic === 'monospace') return 'FontFamily.Monospace'
+  if (font.generic === 'serif') return 'FontFamily.Serif'
+  return 'FontFamily.SansSerif'
+}
+
+// ============================================================================
+// Android XML resources
+// ============================================================================
+
+/**
+ * Android value resources: colors, dimens, integers and TextAppearance styles.
+ * All resource types are valid in a single res/values file; split them into
+ * colors.xml / dimens.xml / styles.xml if the project prefers.
+ */
+export function exportToAndroidXML(options: ExportOptions): string {
+  const platform = buildPlatformTokens(options)
+  const styleNamespace = pascalCase(splitWords(options.options?.prefix || 'design tokens'))
+
+  let xml = `<?xml version="1.0" encoding="utf-8"?>\n`
+  xml += buildHeader(options, '', 'Android resources')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => `<!--${line} -->`)
+    .join('\n') + '\n'
+  xml += `<resources>\n`
+
+  const section = (title: string, lines: string[]) => {
+    if (lines.length === 0) return
+    xml += `\n    <!-- ${title} -->\n${lines.map(line => `    ${line}\n`).join('')}`
+  }
+
+  section('Colors', platform.colors.map(color =>
+    `<color name="${snakeCase(qualified(['color'], color.name))}">#${argbHex(color)}</color>`
+  ))
+  section('Spacing', platform.spacing.map(space =>
+    `<dimen name="${snakeCase(qualified(['spacing'], space.name))}">${formatNumber(space.px)}dp</dimen>`
+  ))
+  section('Corner radius', platform.radii.map(radius =>
+    `<dimen name="${snakeCase(qualified(['radius'], radius.name))}">${formatNumber(radius.px)}dp</dimen>`
+  ))
+  section('Text sizes', platform.fontSizes.map(size =>
+    `<dimen name="${snakeCase(qualified(['text', 'size'], size.name))}">${formatNumber(size.px)}sp</dimen>`
+  ))
+  section('Elevation', platform.shadows.map(shadow => {
+    const layer = [...shadow.layers].sort((a, b) => b.blur - a.blur)[0]
+    return `<dimen name="${snakeCase(qualified(['elevation'], shadow.name))}">${formatNumber(Math.max(layer.y, layer.blur / 2))}dp</dimen>`
+  }))
+  section('Font weights', platform.fontWeights.map(weight =>
+    `<integer name="${snakeCase(qualified(['font', 'weight'], weight.name))}">${weight.weight}</integer>`
+  ))
+  section('Durations (ms)', platform.durations.map(duration =>
+    `<integer name="${snakeCase(qualified(['duration'], duration.name))}">${duration.ms}</integer>`
+  ))
+
+  if (platform.textStyles.length > 0) {
+    xml += `\n    <!-- Text appearances -->\n`
+    platform.textStyles.forEach(style => {
+      xml += `    <style name="TextAppearance.${styleNamespace}.${pascalCase(style.name.words)}" parent="TextAppearance.AppCompat">\n`
+      xml += `        <item name="android:textSize">@dimen/${snakeCase(qualified(['text', 'size'], style.name))}</item>\n`
+      if (style.fontFamily) {
+        xml += `        <item name="android:fontFamily">${style.fontFamily.generic}</item>\n`
+      }
+      xml += `        <item name="android:textFontWeight">${style.fontWeight}</item>\n`
+      xml += `        <item name="android:textStyle">${style.fontWeight >= 600 ? 'bold' : 'normal'}</item>\n`
+      xml += `    </style>\n`
+    })
+  }
+
+  xml += `</resources>\n`
+  return xml
+}
+
+// ============================================================================
+// Dart (Flutter)
+// ============================================================================
+
+/**
+ * Flutter constants plus a ThemeExtension so tokens can be registered on ThemeData:
+ *   ThemeData(extensions: const [DesignTokensTheme.standard])
+ */
+export function exportToDart(options: ExportOptions): string {
+  const platform = buildPlatformTokens(options)
+  const name = (category: string[], token: PlatformName) => dartName(qualified(category, token))
+
+  let dart = buildHeader(options, '//', 'Flutter')
+  dart += `\nimport 'dart:ui' show lerpDouble;\n\nimport 'package:flutter/material.dart';\n\n`
+  dart += `class DesignTokens {\n  DesignTokens._();\n`
+
+  const section = (title: string, lines: string[]) => {
+    if (lines.length === 0) return
+    dart += `\n  // ${title}\n${lines.map(line => `  ${line}\n`).join('')}`
+  }
+
+  section('Colors', platform.colors.map(color =>
+    `static const Color ${name(['color'], color.name)} = Color(0x${argbHex(color)});`
+  ))
+  section('Spacing', platform.spacing.map(space =>
+    `static const double ${name(['spacing'], space.name)} = ${dartDouble(space.px)};`
+  ))
+  section('Radius', platform.radii.map(radius =>
+    `static const double ${name(['radius'], radius.name)} = ${dartDouble(radius.px)};`
+  ))
+  section('Font sizes', platform.fontSizes.map(size =>
+    `static const double ${name(['font', 'size'], size.name)} = ${dartDouble(size.px)};`
+  ))
+  section('Font families', platform.fontFamilies.map(font =>
+    `static const String ${name(['font', 'family'], font.name)} = '${font.family.replace(/'/g, "\\'")}';`
+  ))
+  section('Text styles', platform.textStyles.map(style => {
+    const family = style.fontFamily ? `fontFamily: '${style.fontFamily.family.replace(/'/g, "\\'")}', ` : ''
+    return `static const TextStyle ${name(['text'], style.name)} = TextStyle(${family}fontSize: ${dartDouble(style.fontSize)}, fontWeight: ${dartWeight(style.fontWeight)});`
+  }))
+  section('Shadows', platform.shadows.map(shadow => {
+    const layers = shadow.layers
+      .filter(layer => !layer.inset) // BoxShadow has no inset support
+      .map(layer => `BoxShadow(color: Color(0x${argbHex(layer.color)}), offset: Offset(${dartDouble(layer.x)}, ${dartDouble(layer.y)}), blurRadius: ${dartDouble(layer.blur)}, spreadRadius: ${dartDouble(layer.spread)})`)
+    return `static const List<BoxShadow> ${name(['shadow'], shadow.name)} = [${layers.join(', ')}];`
+  }))
+  section('Durations', platform.durations.map(duration =>
+    `static const Duration ${name(['duration'], duration.name)} = Duration(milliseconds: ${duration.ms});`
+  ))
+
+  dart += `}\n`
+  dart += buildDartThemeExtension(platform, name)
+
+  return dart
+}
+
+function buildDartThemeExtension(
+  platform: PlatformTokens,
+  name: (category: string[], token: PlatformName) => string
+): string {
+  const fields: Array<{ name: string; type: string; lerp: (a: string, b: string) => string }> = [
+    ...platform.colors.map(color => ({
+      name: name(['color'], color.name),
+      type: 'Color',
+      lerp: (a: string, b: string) => `Color.lerp(${a}, ${b}, t)!`
+    })),
+    ...platform.spacing.map(space => ({
+      name: name(['spacing'], space.name),
+      type: 'double',
+      lerp: (a: string, b: string) => `lerpDouble(${a}, ${b}, t)!`
+    })),
+    ...platform.radii.map(radius => ({
+      name: name(['radius'], radius.name),
+      type: 'double',
+      lerp: (a: string, b: string) => `lerpDouble(${a}, ${b}, t)!`
+    })),
+    ...platform.textStyles.map(style => ({
+      name: name(['text'], style.name),
+      type: 'TextStyle',
+      lerp: (a: string, b: string) => `TextStyle.lerp(${a}, ${b}, t)!`
+    }))
+  ]
+
+  if (fields.length === 0) return ''
+
+  let dart = `\n@immutable\nclass DesignTokensTheme extends ThemeExtension<DesignTokensTheme> {\n`
+  dart += `  const DesignTokensTheme({\n${fields.map(field => `    required this.${field.name},\n`).join('')}  });\n\n`
+  dart += fields.map(field => `  final ${field.type} ${field.name};\n`).join('')
+
+  dart += `\n  static const DesignTokensTheme standard = DesignTokensTheme(\n`
+  dart += fields.map(field => `    ${field.name}: DesignTokens.${field.name},\n`).join('')
+  dart += `  );\n`
+
+  dart += `\n  @override\n  DesignTokensTheme copyWith({\n`
+  dart += fields.map(field => `    ${field.type}? ${field.name},\n`).join('')
+  dart += `  }) {\n    return DesignTokensTheme(\n`
+  dart += fields.map(field => `      ${field.name}: ${field.name} ?? this.${field.name},\n`).join('')
+  dart += `    );\n  }\n`
+
+  dart += `\n  @override\n  DesignTokensTheme lerp(ThemeExtension<DesignTokensTheme>? other, double t) {\n`
+  dart += `    if (other is! DesignTokensTheme) return this;\n    return DesignTokensTheme(\n`
+  dart += fields.map(field => `      ${field.name}: ${field.lerp(field.name, `other.${field.name}`)},\n`).join('')
+  dart += `    );\n  }\n}\n`
+
+  return dart
+}
+
+function dartName(words: string[]): string {
+  return camelCase(words)
+}
+
+function dartDouble(value: number): string {
+  const formatted = formatNumber(value)
+  return formatted.includes('.') ? formatted : `${formatted}.0`
+}
+
+function dartWeight(weight: number): string {
+  const rounded = Math.min(900, Math.max(100, Math.round(weight / 100) * 100))
+  return `FontWeight.w${rounded}`
+}
+
+function quoteFamily(family: string): string {
+  return /\s/.test(family) ? `"${family}"` : family
+}
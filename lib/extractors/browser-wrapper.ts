@@ -7,6 +7,38 @@
 import type { CssSource } from './static-css'
 import { createHash } from 'node:crypto'
 import { withTimeout, createMemoryLimit } from '@/lib/utils/resilience'
+import { AccessibilityAnalyzer, type AccessibilityAnalysis } from '@/lib/analyzers/accessibility-analyzer'
+import type { ArchiveRoute, ScanFetcher } from './scan-archive'
+import { collectCssomSources, type CssomSheet } from './cssom'
+import { collectShadowSources, type ShadowRootSnapshot } from './shadow-dom'
+import {
+  detectBreakpoints,
+  diffResponsiveSamples,
+  sampleWidths,
+  RESPONSIVE_PROPERTIES,
+  type ResponsiveSample,
+  type ResponsiveValues
+} from '@/lib/analyzers/responsive-tokens'
+import { detectComponents } from '@/lib/analyzers/advanced-component-detector'
+import {
+  selectStateTargets,
+  STATE_PROPERTIES,
+  type StateCapture,
+  type StateTarget
+} from '@/lib/analyzers/interaction-states'
+import {
+  CONSENT_SELECTORS,
+  describeStep,
+  redactScanSecrets,
+  resolveStepUrl,
+  ScanStepError,
+  SCAN_STEP_TIMEOUT,
+  SCAN_STEPS_TIMEOUT,
+  toBrowserCookies,
+  type BrowserCookie,
+  type ScanSession,
+  type ScanStep
+} from './scan-session'
 
 // Detect runtime environment
 const isVercel = process.env.VERCEL === '1' || process.env.VERCEL_ENV !== undefined
@@ -44,6 +76,17 @@ export interface BrowserPageWrapper {
   close(): Promise<void>
   startCSSCoverage?(): Promise<void>
   stopCSSCoverage?(): Promise<CoverageEntry[]>
+  routeRequests?(handler: (route: ArchiveRoute) => Promise<void>): Promise<void> // Intercept every request (scan archives)
+  setViewportSize?(size: { width: number; height: number }): Promise<void> // Resize for responsive sampling
+  focus?(selector: string): Promise<void> // Keyboard focus, so :focus-visible styles apply
+  pressMouse?(selector: string): Promise<void> // Hold the mouse down on an element (:active)
+  releaseMouse?(): Promise<void> // Release away from the element, without clicking it
+  evaluateOn?<T>(selector: string, fn: (element: Element) => T): Promise<T | null> // Null when nothing matches
+  screenshotElement?(selector: string): Promise<Buffer | null>
+  setCookies?(cookies: BrowserCookie[]): Promise<void>
+  setOriginHeaders?(origin: string, headers: Record<string, string>): Promise<void> // Extra headers on requests to one origin only
+  fill?(selector: string, value: string, timeout: number): Promise<void> // Throws when the field never shows up
+  waitForSelector?(selector: string, timeout: number): Promise<void> // Throws when nothing visible matches in time
 }
 
 export interface BrowserWrapper {
@@ -184,6 +227,71 @@ async function createPlaywrightBrowser(): Promise<BrowserWrapper> {
           await page.coverage.startCSSCoverage({ resetOnNavigation: false })
         },
 
+        async routeRequests(handler) {
+          await page.route('**/*', route => handler(route))
+        },
+
+        async setViewportSize(size) {
+          await page.setViewportSize(size)
+        },
+
+        async focus(selector: string) {
+          try {
+            await page.keyboard.press('Shift')
+            await page.focus(selector, { timeout: 1000 })
+          } catch {
+            // Ignore focus failures
+          }
+        },
+
+        async pressMouse(selector: string) {
+          try {
+            await page.hover(selector, { timeout: 1000 })
+            await page.mouse.down()
+          } catch {
+            // Ignore press failures
+          }
+        },
+
+        async releaseMouse() {
+          await page.mouse.move(0, 0)
+          await page.mouse.up()
+        },
+
+        async evaluateOn<T>(selector: string, fn: (element: Element) => T): Promise<T | null> {
+          try {
+            return await page.$eval(selector, fn)
+          } catch {
+            return null
+          }
+        },
+
+        async screenshotElement(selector: string) {
+          try {
+            return await page.locator(selector).first().screenshot({ type: 'jpeg', quality: 70, timeout: 1000 })
+          } catch {
+            return null
+          }
+        },
+
+        async setCookies(cookies) {
+          await page.context().addCookies(cookies)
+        },
+
+        async setOriginHeaders(origin, headers) {
+          // fallback() keeps an archive route registered before this one in the chain
+          await page.route(requestUrl => requestUrl.origin === origin, route =>
+            route.fallback({ headers: { ...route.request().headers(), ...headers } }))
+        },
+
+        async fill(selector: string, value: string, timeout: number) {
+          await page.fill(selector, value, { timeout })
+        },
+
+        async waitForSelector(selector: string, timeout: number) {
+          await page.waitForSelector(selector, { state: 'visible', timeout })
+        },
+
         async stopCSSCoverage() {
           const coverage = await page.coverage.stopCSSCoverage()
           return coverage.map(entry => ({
@@ -325,6 +433,72 @@ async function createPuppeteerBrowser(): Promise<BrowserWrapper> {
             }
           },
 
+          async setViewportSize(size) {
+            await page.setViewport(size)
+          },
+
+          async focus(selector: string) {
+            try {
+              await page.keyboard.press('Shift')
+              await page.focus(selector)
+            } catch {
+              // Ignore focus failures
+            }
+          },
+
+          async pressMouse(selector: string) {
+            try {
+              await page.hover(selector)
+              await page.mouse.down()
+            } catch {
+              // Ignore press failures
+            }
+          },
+
+          async releaseMouse() {
+            await page.mouse.move(0, 0)
+            await page.mouse.up()
+          },
+
+          async evaluateOn<T>(selector: string, fn: (element: Element) => T): Promise<T | null> {
+            try {
+              return await page.$eval(selector, fn)
+            } catch {
+              return null
+            }
+          },
+
+          async screenshotElement(selector: string) {
+            try {
+              const element = await page.$(selector)
+              const screenshot = await element?.screenshot({ type: 'jpeg', quality: 70 })
+              return screenshot ? Buffer.from(screenshot) : null
+            } catch {
+              return null
+            }
+          },
+
+          async setCookies(cookies) {
+            await page.setCookie(...cookies)
+          },
+
+          async setOriginHeaders(origin, headers) {
+            await page.setRequestInterception(true)
+            page.on('request', request => {
+              if (request.isInterceptResolutionHandled()) return
+              const sameOrigin = new URL(request.url()).origin === origin
+              request.continue(sameOrigin ? { headers: { ...request.headers(), ...headers } } : undefined).catch(() => {})
+            })
+          },
+
+          async fill(selector: string, value: string, timeout: number) {
+            await page.locator(selector).setTimeout(timeout).fill(value)
+          },
+
+          async waitForSelector(selector: string, timeout: number) {
+            await page.waitForSelector(selector, { visible: true, timeout })
+          },
+
           async startCSSCoverage() {
             client = await page.target().createCDPSession()
             await client.send('DOM.enable')
@@ -424,6 +598,12 @@ const MAX_DOM_ELEMENTS = 5000 // Max DOM elements to process
 const MAX_EXTRACTION_TIME = 20000 // 20s max extraction time
 const VERCEL_EXTRACTION_TIME = 12000 // 12s on Vercel (serverless limits)
 const BROWSER_NAVIGATION_TIMEOUT = 15000 // 15s for page load
+const ACCESSIBILITY_TIMEOUT = 6000 // 6s for the WCAG audit of the loaded page
+const CSSOM_TIMEOUT = 3000 // 3s to serialize runtime-injected stylesheets
+const RESPONSIVE_TIMEOUT = 6000 // 6s to resize through every breakpoint
+const RESPONSIVE_SETTLE_MS = 250 // Layout settle time after each resize
+const STATES_TIMEOUT = 8000 // 8s to drive hover/focus/active on detected components
+const MAX_STATE_SETTLE_MS = 500 // Longest transition waited out before reading a state
 
 export async function extractWithBrowser(
   url: string,
@@ -432,12 +612,22 @@ export async function extractWithBrowser(
     extractCustomProps?: boolean
     timeout?: number
     fastMode?: boolean
+    analyzeAccessibility?: boolean // Run the WCAG audit on the same page load
+    fetcher?: ScanFetcher // Record the page's requests into, or serve them from, a scan archive
+    responsive?: boolean // Sample computed styles again at every detected breakpoint
+    interactionStates?: boolean // Drive hover/focus/active on detected components and read each state
+    session?: ScanSession // Scan profile cookies, headers and login steps, applied before the page is loaded
   } = {}
 ): Promise<{
   usedCss: CssSource[]
+  cssomCss: CssSource[] // Rules CSS-in-JS libraries injected through the CSSOM, and open shadow root styles
   customProperties: Record<string, string>
   computedStyles: ComputedStyleEntry[]
+  accessibility: AccessibilityAnalysis | null
+  responsive: ResponsiveValues | null
+  interactionStates: StateCapture[]
 }> {
+  const startedAt = Date.now()
   const useCoverage = options.useCoverage ?? !isVercel // Coverage API slower on serverless
   const extractCustomProps = options.extractCustomProps ?? true
   const baseTimeout = isVercel ? VERCEL_EXTRACTION_TIME : MAX_EXTRACTION_TIME
@@ -454,6 +644,25 @@ export async function extractWithBrowser(
       browser = await createBrowser()
       page = await browser.newPage()
 
+      if (options.fetcher) {
+        if (page.routeRequests) {
+          const fetcher = options.fetcher
+          await page.routeRequests(route => fetcher.handleRoute(route))
+        } else {
+          console.warn(`Request interception unavailable, browser requests won't be ${options.fetcher.mode === 'record' ? 'archived' : 'replayed'}`)
+        }
+      }
+
+      // Log in (or get past the cookie wall) first, so coverage only sees the page itself
+      if (options.session) {
+        const session = options.session
+        try {
+          await withTimeout(() => prepareScanSession(page!, session, url), SCAN_STEPS_TIMEOUT)
+        } catch (error) {
+          throw error instanceof ScanStepError ? error : new ScanStepError(`Scan steps did not finish within ${SCAN_STEPS_TIMEOUT / 1000}s`)
+        }
+      }
+
       // Start coverage if enabled
       if (useCoverage && page.startCSSCoverage) {
         await page.startCSSCoverage()
@@ -522,6 +731,126 @@ export async function extractWithBrowser(
         }
       }
 
+      // CSS-in-JS: rules added with insertRule or constructable stylesheets never
+      // show up in <style> text or coverage, so read them from the live CSSOM.
+      // Web components keep theirs in open shadow roots, walked here as well
+      const cssomCss: CssSource[] = []
+
+      try {
+        const { sheets, shadowRoots } = await withTimeout(async () => {
+          return page!.evaluate(() => {
+            const maxSheets = 100
+            const maxSheetChars = 1024 * 1024
+            const maxShadowHosts = 60
+            const results: CssomSheet[] = []
+            const shadowRoots: ShadowRootSnapshot[] = []
+
+            const serialize = (sheet: CSSStyleSheet) => {
+              let rules: CSSRuleList
+              try {
+                rules = sheet.cssRules
+              } catch {
+                return null // Cross-origin sheets can't be read
+              }
+
+              const parts: string[] = []
+              let length = 0
+              for (let i = 0; i < rules.length; i++) {
+                const text = rules[i].cssText
+                if (length + text.length > maxSheetChars) break
+                parts.push(text)
+                length += text.length
+              }
+              return { content: parts.join('\n'), ruleCount: rules.length }
+            }
+
+            Array.from(document.styleSheets).forEach(sheet => {
+              // Linked sheets are fetched and covered already
+              if (results.length >= maxSheets || sheet.href) return
+              const serialized = serialize(sheet)
+              if (!serialized || serialized.ruleCount === 0) return
+
+              const owner = sheet.ownerNode instanceof Element ? sheet.ownerNode : null
+              const attributes: Record<string, string> = {}
+              if (owner) {
+                Array.from(owner.attributes).forEach(attribute => {
+                  attributes[attribute.name] = attribute.value.slice(0, 100)
+                })
+              }
+
+              results.push({
+                origin: 'style',
+                content: serialized.content,
+                ruleCount: serialized.ruleCount,
+                textLength: owner ? (owner.textContent || '').trim().length : 0,
+                attributes
+              })
+            })
+
+            Array.from(document.adoptedStyleSheets || []).forEach(sheet => {
+              if (results.length >= maxSheets) return
+              const serialized = serialize(sheet)
+              if (!serialized || serialized.ruleCount === 0) return
+              results.push({ origin: 'adopted', content: serialized.content, ruleCount: serialized.ruleCount, textLength: 0, attributes: {} })
+            })
+
+            // Every instance of a component shares its styles, so each tag is read once;
+            // closed shadow roots report null and stay out of reach
+            const seenHosts = new Set<string>()
+            const walkShadowRoots = (root: Document | ShadowRoot, depth: number) => {
+              root.querySelectorAll('*').forEach(el => {
+                const shadow = el.shadowRoot
+                const host = el.tagName.toLowerCase()
+                if (!shadow || seenHosts.has(host) || shadowRoots.length >= maxShadowHosts) return
+                seenHosts.add(host)
+
+                const shadowSheets: ShadowRootSnapshot['sheets'] = []
+                Array.from(shadow.adoptedStyleSheets || []).forEach(sheet => {
+                  const serialized = serialize(sheet)
+                  if (serialized && serialized.ruleCount > 0) shadowSheets.push({ origin: 'adopted', ...serialized })
+                })
+                Array.from(shadow.styleSheets).forEach(sheet => {
+                  if (sheet.href) return
+                  const serialized = serialize(sheet)
+                  if (serialized && serialized.ruleCount > 0) shadowSheets.push({ origin: 'style', ...serialized })
+                })
+                shadowRoots.push({ host, sheets: shadowSheets })
+
+                if (depth < 10) walkShadowRoots(shadow, depth + 1)
+              })
+            }
+            walkShadowRoots(document, 0)
+
+            return { sheets: results, shadowRoots }
+          })
+        }, CSSOM_TIMEOUT)
+
+        const injected: Array<Pick<CssSource, 'content' | 'library' | 'component'>> = [
+          ...collectCssomSources(sheets),
+          ...collectShadowSources(shadowRoots)
+        ]
+
+        for (const sheet of injected) {
+          const source = {
+            ...createCssSource(sheet.content, 'cssom', undefined, sheet.library),
+            ...(sheet.component ? { component: sheet.component } : {})
+          }
+
+          if (totalCssBytes + source.bytes > 10 * 1024 * 1024) { // Shares the 10MB coverage budget
+            console.warn('CSSOM CSS size limit reached')
+            break
+          }
+
+          cssomCss.push(source)
+          totalCssBytes += source.bytes
+          memoryLimit.track(source.bytes)
+          resourcesUsed++
+        }
+      } catch (error) {
+        console.warn('CSSOM stylesheet extraction failed:', error)
+        // Continue - static and coverage CSS still apply
+      }
+
       // BULLETPROOF: Extract custom properties with limits
       let customProperties: Record<string, string> = {}
 
@@ -725,23 +1054,88 @@ export async function extractWithBrowser(
             extractStyles(el, selector, 'container')
           })
 
+          // Extract web components by tag, one instance each, including those nested in open shadow roots
+          const seenTags = new Set<string>()
+          const extractCustomElements = (root: Document | ShadowRoot, depth: number) => {
+            root.querySelectorAll('*').forEach(el => {
+              if (seenTags.size >= 30 || processedElements >= maxElements) return
+              const tag = el.tagName.toLowerCase()
+              if (tag.includes('-') && !seenTags.has(tag) && customElements.get(tag)) {
+                seenTags.add(tag)
+                const classes = el.className && typeof el.className === 'string' ? `.${el.className.split(' ').join('.')}` : ''
+                extractStyles(el, `${tag}${classes}`.substring(0, 100), 'custom-element')
+              }
+              if (el.shadowRoot && depth < 10) extractCustomElements(el.shadowRoot, depth + 1)
+            })
+          }
+          extractCustomElements(document, 0)
+
           return results
         }, MAX_DOM_ELEMENTS) // Pass max elements as parameter
       }, 8000) // 8s timeout for style extraction
 
-      console.log(`[browser-wrapper] Extracted ${usedCss.length} CSS sources, ${Object.keys(customProperties).length} custom props, ${computedStylesData.length} computed styles (${resourcesUsed} resources)`)
+      // Accessibility audit is optional; token extraction never waits on its failure
+      let accessibility: AccessibilityAnalysis | null = null
+      if (options.analyzeAccessibility) {
+        try {
+          accessibility = await withTimeout(
+            () => new AccessibilityAnalyzer().analyzeAccessibility(page!),
+            ACCESSIBILITY_TIMEOUT
+          )
+        } catch (error) {
+          console.warn('Accessibility analysis failed:', error)
+        }
+      }
+
+      // Interaction states are read on the components the detector finds in
+      // the computed styles, before responsive sampling changes the viewport
+      let interactionStates: StateCapture[] = []
+      if (options.interactionStates && page.evaluateOn && Date.now() - startedAt < timeout * 0.5) {
+        try {
+          const targets = selectStateTargets(detectComponents(computedStylesData), computedStylesData)
+          interactionStates = await captureInteractionStates(page, targets, Date.now() + STATES_TIMEOUT)
+        } catch (error) {
+          console.warn('Interaction state capture failed:', error)
+        }
+      }
+
+      // Responsive sampling resizes the page, so it runs last, and only while
+      // there is time left in the extraction budget
+      let responsive: ResponsiveValues | null = null
+      if (options.responsive && page.setViewportSize && Date.now() - startedAt < timeout * 0.6) {
+        try {
+          responsive = await withTimeout(() => sampleResponsiveStyles(page!), RESPONSIVE_TIMEOUT)
+        } catch (error) {
+          console.warn('Responsive style sampling failed:', error)
+        }
+      }
+
+      const libraries = Array.from(new Set(cssomCss.map(source => source.library).filter(Boolean)))
+      const components = new Set(cssomCss.map(source => source.component).filter(Boolean))
+      console.log(`[browser-wrapper] Extracted ${usedCss.length} CSS sources, ${cssomCss.length} CSSOM sources${libraries.length ? ` (${libraries.join(', ')})` : ''}${components.size ? ` from ${components.size} web components` : ''}, ${Object.keys(customProperties).length} custom props, ${computedStylesData.length} computed styles (${resourcesUsed} resources)`)
 
       return {
         usedCss,
+        cssomCss,
         customProperties,
-        computedStyles: computedStylesData
+        computedStyles: computedStylesData,
+        accessibility,
+        responsive,
+        interactionStates
       }
     } catch (error) {
+      // A failed login must fail the scan, not fall back to whatever page loaded
+      if (error instanceof ScanStepError) throw error
+
       console.error('Browser extraction failed', error)
       return {
         usedCss: [],
+        cssomCss: [],
         customProperties: {},
-        computedStyles: []
+        computedStyles: [],
+        accessibility: null,
+        responsive: null,
+        interactionStates: []
       }
     } finally {
       // BULLETPROOF: Always cleanup resources
@@ -760,7 +1154,216 @@ export async function extractWithBrowser(
   }, timeout)
 }
 
-function createCssSource(content: string, kind: 'inline' | 'link' | 'computed' = 'computed', url?: string): CssSource {
+/**
+ * Set the session's cookies and headers, then run its steps in order. A failed
+ * step stops the scan; its error names the step but never a filled value
+ */
+async function prepareScanSession(page: BrowserPageWrapper, session: ScanSession, targetUrl: string): Promise<void> {
+  if (!page.setCookies || !page.setOriginHeaders || !page.fill || !page.waitForSelector) {
+    throw new ScanStepError('Scan profiles are not supported by this browser driver')
+  }
+
+  if (session.cookies.length > 0) {
+    await page.setCookies(toBrowserCookies(session.cookies, targetUrl))
+  }
+  if (Object.keys(session.headers).length > 0) {
+    await page.setOriginHeaders(new URL(targetUrl).origin, session.headers)
+  }
+
+  for (const [index, step] of session.steps.entries()) {
+    try {
+      await runScanStep(page, step, targetUrl)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message.split('\n')[0] : String(error)
+      throw new ScanStepError(redactScanSecrets(`Scan step ${index + 1} (${describeStep(step)}) failed: ${reason}`, session))
+    }
+  }
+
+  console.log(`[browser-wrapper] Applied scan session: ${session.cookies.length} cookies, ${Object.keys(session.headers).length} headers, ${session.steps.length} steps`)
+}
+
+async function runScanStep(page: BrowserPageWrapper, step: ScanStep, targetUrl: string): Promise<void> {
+  switch (step.action) {
+    case 'goto':
+      await page.goto(resolveStepUrl(step.url, targetUrl), { waitUntil: 'load', timeout: SCAN_STEP_TIMEOUT })
+      return
+    case 'fill':
+      await page.fill!(step.selector, step.value, SCAN_STEP_TIMEOUT)
+      return
+    case 'click':
+      await page.waitForSelector!(step.selector, SCAN_STEP_TIMEOUT)
+      await page.click(step.selector)
+      return
+    case 'waitFor':
+      if (step.selector) {
+        await page.waitForSelector!(step.selector, SCAN_STEP_TIMEOUT)
+      } else {
+        await new Promise(resolve => setTimeout(resolve, step.ms))
+      }
+      return
+    case 'dismissConsent':
+      await dismissConsentBanner(page)
+      return
+  }
+}
+
+/**
+ * Click the accept button of the first known consent manager on the page. A
+ * page without a banner is not an error
+ */
+async function dismissConsentBanner(page: BrowserPageWrapper): Promise<void> {
+  for (const selector of CONSENT_SELECTORS) {
+    const clicked = await page.evaluateOn?.(selector, element => {
+      (element as HTMLElement).click()
+      return true
+    })
+    if (clicked) {
+      await new Promise(resolve => setTimeout(resolve, 300)) // Let the banner close
+      return
+    }
+  }
+
+  console.log('[browser-wrapper] No consent banner found to dismiss')
+}
+
+/**
+ * Hover, press and focus each target in turn, reading its computed style and
+ * taking an element screenshot in every state; a disabled instance is read
+ * when the page has one. Stops at the deadline with the targets done so far
+ */
+async function captureInteractionStates(
+  page: BrowserPageWrapper,
+  targets: StateTarget[],
+  deadline: number
+): Promise<StateCapture[]> {
+  const captures: StateCapture[] = []
+
+  // The property list is inlined: the function runs in the page
+  const readStyles = (element: Element) => {
+    const properties = ['background-color', 'color', 'border-color', 'box-shadow', 'opacity', 'outline-style', 'outline-color', 'outline-width', 'outline-offset']
+    const styles = window.getComputedStyle(element)
+    return Object.fromEntries(properties.map(property => [property, styles.getPropertyValue(property)])) as Record<string, string>
+  }
+
+  for (const target of targets) {
+    if (Date.now() > deadline) break
+
+    const base = await page.evaluateOn!(target.selector, readStyles)
+    if (!base) continue
+
+    // Read states once their transitions have finished
+    const duration = await page.evaluateOn!(target.selector, element => window.getComputedStyle(element).transitionDuration)
+    const settle = Math.min(MAX_STATE_SETTLE_MS, Math.max(...(duration ?? '0s').split(',').map(parseFloat).map(seconds => seconds * 1000 || 0)) + 50)
+    const wait = () => new Promise(resolve => setTimeout(resolve, settle))
+
+    const capture: StateCapture = { target, base, states: {}, screenshots: {} }
+    const record = async (state: 'base' | 'hover' | 'focus' | 'active' | 'disabled', selector = target.selector) => {
+      const styles = state === 'base' ? base : await page.evaluateOn!(selector, readStyles)
+      if (!styles) return
+      if (state !== 'base') capture.states[state] = styles
+      const screenshot = await page.screenshotElement?.(selector)
+      if (screenshot) capture.screenshots![state] = screenshot
+    }
+
+    await record('base')
+
+    await page.hover(target.selector)
+    await wait()
+    await record('hover')
+
+    if (page.pressMouse && page.releaseMouse) {
+      await page.pressMouse(target.selector)
+      await wait()
+      await record('active')
+      await page.releaseMouse()
+    }
+
+    if (page.focus) {
+      await page.focus(target.selector)
+      await wait()
+      await record('focus')
+      await page.evaluateOn!(target.selector, element => (element as HTMLElement).blur())
+    }
+
+    await record('disabled', `${target.selector}:disabled, ${target.selector}[aria-disabled="true"]`)
+
+    captures.push(capture)
+  }
+
+  console.log(`[browser-wrapper] Captured interaction states for ${captures.length}/${targets.length} components (${Object.keys(STATE_PROPERTIES).length} properties each)`)
+
+  return captures
+}
+
+/**
+ * Detect the page's width breakpoints from its media queries, then read the
+ * responsive properties of the same elements at a mobile width and at each
+ * breakpoint
+ */
+async function sampleResponsiveStyles(page: BrowserPageWrapper): Promise<ResponsiveValues> {
+  const mediaTexts = await page.evaluate(() => {
+    const texts: string[] = []
+    const collect = (rules: CSSRuleList) => {
+      for (let i = 0; i < rules.length && texts.length < 2000; i++) {
+        const rule = rules[i]
+        if (rule instanceof CSSMediaRule) {
+          texts.push(rule.media.mediaText)
+          collect(rule.cssRules)
+        } else if (rule instanceof CSSSupportsRule || rule instanceof CSSLayerBlockRule) {
+          collect(rule.cssRules)
+        }
+      }
+    }
+
+    Array.from(document.styleSheets).forEach(sheet => {
+      try {
+        collect(sheet.cssRules)
+      } catch {
+        // Cross-origin sheets can't be read
+      }
+    })
+    return texts
+  })
+
+  const breakpoints = detectBreakpoints(mediaTexts)
+  const samples: ResponsiveSample[] = []
+
+  for (const width of sampleWidths(breakpoints)) {
+    await page.setViewportSize!({ width, height: 900 })
+    await new Promise(resolve => setTimeout(resolve, RESPONSIVE_SETTLE_MS))
+
+    // The property list is inlined: evaluate() can't take arguments on every driver
+    const elements = await page.evaluate(() => {
+      const properties = ['font-size', 'line-height', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left', 'margin-top', 'margin-bottom', 'row-gap', 'column-gap']
+      const result: Record<string, Record<string, string>> = {}
+
+      document.querySelectorAll('body, h1, h2, h3, h4, h5, h6, p, li, a, button, input, label, section, header, footer, nav, main, article, [class*="container"], [class*="card"]').forEach((el, index) => {
+        if (index >= 300) return
+        const styles = window.getComputedStyle(el)
+        const entry: Record<string, string> = {}
+        properties.forEach(property => {
+          entry[property] = styles.getPropertyValue(property)
+        })
+        result[`${el.tagName.toLowerCase()}:${index}`] = entry
+      })
+
+      return result
+    })
+
+    samples.push({ width, elements })
+  }
+
+  console.log(`[browser-wrapper] Sampled ${Object.keys(RESPONSIVE_PROPERTIES).length} responsive properties at ${samples.length} widths (${breakpoints.map(breakpoint => `${breakpoint.name} ${breakpoint.minWidth}px`).join(', ')})`)
+
+  return diffResponsiveSamples(breakpoints, samples)
+}
+
+function createCssSource(
+  content: string,
+  kind: CssSource['kind'] = 'computed',
+  url?: string,
+  library?: CssSource['library']
+): CssSource {
   const normalized = content.trim()
   const sha = createHash('sha256').update(normalized).digest('hex')
 
@@ -769,6 +1372,7 @@ function createCssSource(content: string, kind: 'inline' | 'link' | 'computed' =
     url,
     content: normalized,
     bytes: Buffer.byteLength(normalized, 'utf8'),
-    sha
+    sha,
+    ...(library ? { library } : {})
   }
 }
\ No newline at end of file
@@ -6,6 +6,11 @@ import safeParser from 'postcss-safe-parser'
 import { withTimeout, createMemoryLimit } from '@/lib/utils/resilience'
 
 import type { ComputedStyleEntry } from './browser-wrapper'
+import type { AccessibilityAnalysis } from '@/lib/analyzers/accessibility-analyzer'
+import type { ResponsiveValues } from '@/lib/analyzers/responsive-tokens'
+import type { StateCapture } from '@/lib/analyzers/interaction-states'
+import type { ScanFetcher } from './scan-archive'
+import { ScanStepError, SCAN_STEPS_TIMEOUT, type ScanSession } from './scan-session'
 
 export type ComputedCssOptions = {
   timeoutMs?: number
@@ -13,6 +18,11 @@ export type ComputedCssOptions = {
   extractCustomProps?: boolean
   maxMemoryMb?: number
   fastMode?: boolean
+  analyzeAccessibility?: boolean // Also audit the rendered page for WCAG issues
+  fetcher?: ScanFetcher // Record into, or replay from, a scan archive
+  responsive?: boolean // Resample computed styles at each detected breakpoint
+  interactionStates?: boolean // Drive hover/focus/active on detected components
+  session?: ScanSession // Scan profile cookies, headers and login steps
 }
 
 // BULLETPROOF LIMITS for computed CSS
@@ -24,10 +34,15 @@ const FAST_MODE_TIMEOUT = 10000 // 10s timeout in fast mode
 export type ComputedCssResult = {
   sources: CssSource[]
   computedStyles: ComputedStyleEntry[]
+  accessibility: AccessibilityAnalysis | null
+  responsive: ResponsiveValues | null
+  interactionStates: StateCapture[]
 }
 
 export async function collectComputedCss(url: string, options: ComputedCssOptions = {}): Promise<ComputedCssResult> {
-  const timeoutMs = options.timeoutMs ?? (options.fastMode ? FAST_MODE_TIMEOUT : COMPUTED_CSS_TIMEOUT)
+  // Login steps run on top of the extraction budget
+  const stepsTimeout = options.session?.steps.length ? SCAN_STEPS_TIMEOUT : 0
+  const timeoutMs = (options.timeoutMs ?? (options.fastMode ? FAST_MODE_TIMEOUT : COMPUTED_CSS_TIMEOUT)) + stepsTimeout
   const useCoverageApi = options.useCoverageApi ?? true
   const extractCustomProps = options.extractCustomProps ?? true
   const maxMemoryBytes = (options.maxMemoryMb ?? 20) * 1024 * 1024 // Default 20MB
@@ -42,11 +57,17 @@ export async function collectComputedCss(url: string, options: ComputedCssOption
       const extraction = await extractWithBrowser(url, {
         useCoverage: useCoverageApi,
         extractCustomProps,
-        timeout: timeoutMs
+        timeout: timeoutMs,
+        analyzeAccessibility: options.analyzeAccessibility,
+        fetcher: options.fetcher,
+        responsive: options.responsive,
+        interactionStates: options.interactionStates,
+        session: options.session
       })
 
-      // BULLETPROOF: Filter and limit CSS sources
-      const filteredCss = extraction.usedCss
+      // BULLETPROOF: Filter and limit CSS sources. CSSOM sources go first: on
+      // CSS-in-JS sites they are often the only place the design tokens live
+      const filteredCss = [...extraction.cssomCss, ...extraction.usedCss]
         .filter((source) => {
           // Size check
           if (source.bytes > MAX_COMPUTED_CSS_SIZE / 10) {
@@ -132,19 +153,27 @@ export async function collectComputedCss(url: string, options: ComputedCssOption
 
       return {
         sources,
-        computedStyles: extraction.computedStyles?.slice(0, MAX_COMPUTED_STYLES) || []
+        computedStyles: extraction.computedStyles?.slice(0, MAX_COMPUTED_STYLES) || [],
+        accessibility: extraction.accessibility,
+        responsive: extraction.responsive,
+        interactionStates: extraction.interactionStates
       }
     } catch (error) {
+      if (error instanceof ScanStepError) throw error
+
       console.warn('Computed CSS extraction failed', error)
       return {
         sources: [],
-        computedStyles: []
+        computedStyles: [],
+        accessibility: null,
+        responsive: null,
+        interactionStates: []
       }
     }
   }, timeoutMs)
 }
 
-function createComputedSource(content: string, kind: 'inline' | 'link' | 'computed' = 'computed'): CssSource {
+function createComputedSource(content: string, kind: CssSource['kind'] = 'computed'): CssSource {
   const normalized = content.trim()
   const sha = createHash('sha256').update(normalized).digest('hex')
   return {
@@ -0,0 +1,83 @@
+/**
+ * CSSOM stylesheet extraction
+ * CSS-in-JS libraries (styled-components, Emotion, Stitches, vanilla-extract's
+ * runtime, JSS, goober) inject rules with CSSStyleSheet.insertRule or through
+ * constructable stylesheets, so the <style> tag text the static collector reads
+ * is empty. The browser extractor serializes the live CSSOM into CssomSheet
+ * entries; this module decides which of them hold runtime-injected rules and
+ * which library put them there
+ */
+
+export type CssInJsLibrary = 'styled-components' | 'emotion' | 'stitches' | 'vanilla-extract' | 'jss' | 'goober'
+
+// A stylesheet as serialized in the page: rule text plus what its owner node looked like
+export interface CssomSheet {
+  origin: 'style' | 'adopted' // <style> element sheet, or document.adoptedStyleSheets
+  content: string // cssText of the rules, one per line
+  ruleCount: number
+  textLength: number // Length of the owner <style> element's own text
+  attributes: Record<string, string> // Attributes of the owner <style> element
+}
+
+export interface CssomSource {
+  content: string
+  library: CssInJsLibrary | null
+}
+
+// Owner attributes each library stamps on the <style> elements it manages
+const LIBRARY_ATTRIBUTES: Array<[CssInJsLibrary, RegExp]> = [
+  ['styled-components', /^data-styled(-version|-components)?$/],
+  ['emotion', /^data-emotion$/],
+  ['stitches', /^data-stitches$/],
+  ['vanilla-extract', /^data-vanilla-extract$/],
+  ['jss', /^data-jss$/],
+  ['goober', /^data-goober$/]
+]
+
+// Class names each library generates, for sheets without telling attributes
+const LIBRARY_CLASS_PATTERNS: Array<[CssInJsLibrary, RegExp]> = [
+  ['styled-components', /\.sc-[A-Za-z0-9]{5,}\b/],
+  ['emotion', /\.css-[a-z0-9]{5,}(-[\w-]+)?\b/],
+  ['stitches', /--sxs\s*\{|\.c-[A-Za-z]{5,}\b/],
+  ['vanilla-extract', /\.[A-Za-z][\w-]*__[a-z0-9]{6,9}\b|\._[a-z0-9]{7,9}\b/],
+  ['goober', /\.go[0-9]{6,}\b/],
+  ['jss', /\.[a-z][\w]*-0-2-\d+\b/]
+]
+
+// A <style> element whose own text covers less than this share of its rules was filled through the CSSOM
+const INJECTED_TEXT_RATIO = 0.5
+
+/**
+ * Whether a sheet's rules only exist in the CSSOM. Adopted sheets always do;
+ * <style> sheets do when their element text is (mostly) empty
+ */
+export function isRuntimeInjected(sheet: CssomSheet): boolean {
+  if (!sheet.ruleCount || !sheet.content.trim()) return false
+  if (sheet.origin === 'adopted') return true
+  return sheet.textLength < sheet.content.length * INJECTED_TEXT_RATIO
+}
+
+/**
+ * Identify the CSS-in-JS library behind a sheet, from its owner attributes
+ * first and its generated class names second
+ */
+export function detectCssInJsLibrary(sheet: Pick<CssomSheet, 'attributes' | 'content'>): CssInJsLibrary | null {
+  const names = Object.keys(sheet.attributes)
+  const byAttribute = LIBRARY_ATTRIBUTES.find(([, pattern]) => names.some(name => pattern.test(name)))
+  if (byAttribute) return byAttribute[0]
+
+  if (sheet.attributes.id === '_goober') return 'goober'
+  if (sheet.attributes.id?.startsWith('stitches')) return 'stitches'
+
+  const byClass = LIBRARY_CLASS_PATTERNS.find(([, pattern]) => pattern.test(sheet.content))
+  return byClass ? byClass[0] : null
+}
+
+/**
+ * The runtime-injected sheets worth adding as CSS sources, tagged with their library
+ */
+export function collectCssomSources(sheets: CssomSheet[]): CssomSource[] {
+  return sheets
+    .filter(isRuntimeInjected)
+    .map(sheet => ({ content: sheet.content, library: detectCssInJsLibrary(sheet) }))
+}
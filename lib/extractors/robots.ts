@@ -0,0 +1,142 @@
+/**
+ * Minimal robots.txt support for the crawler
+ * Implements group matching, longest-match Allow/Disallow and Crawl-delay
+ */
+
+import { USER_AGENT } from './static-css'
+import type { FetchLike } from './scan-archive'
+
+const ROBOTS_FETCH_TIMEOUT = 5000 // 5s timeout for robots.txt
+const MAX_CRAWL_DELAY_MS = 5000 // Never wait more than 5s between pages
+
+export type RobotsRules = {
+  status: 'allowed' | 'disallowed' | 'unknown'
+  crawlDelayMs: number
+  isAllowed: (url: string) => boolean
+}
+
+type RobotsGroup = {
+  agents: string[]
+  rules: Array<{ allow: boolean; pattern: string }>
+  crawlDelay?: number
+}
+
+export async function fetchRobotsRules(origin: string, fetchImpl: FetchLike = fetch): Promise<RobotsRules> {
+  try {
+    const response = await fetchImpl(new URL('/robots.txt', origin).toString(), {
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/plain,*/*;q=0.1' },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(ROBOTS_FETCH_TIMEOUT)
+    })
+
+    // Per RFC 9309: 4xx means no restrictions, 5xx means assume full disallow
+    if (response.status >= 500) {
+      return buildRules([{ agents: ['*'], rules: [{ allow: false, pattern: '/' }] }], 'disallowed')
+    }
+
+    if (!response.ok) {
+      return buildRules([], 'allowed')
+    }
+
+    return parseRobotsTxt(await response.text())
+  } catch (error) {
+    console.warn(`[robots] Failed to fetch robots.txt for ${origin}:`, error instanceof Error ? error.message : error)
+    return buildRules([], 'unknown')
+  }
+}
+
+export function parseRobotsTxt(content: string): RobotsRules {
+  const groups: RobotsGroup[] = []
+  let current: RobotsGroup | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    if (!line) continue
+
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share a single group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+
+    lastWasAgent = false
+    if (!current) continue
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow means "allow everything"
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value })
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value)
+      if (!isNaN(delay)) current.crawlDelay = delay
+    }
+  }
+
+  const applicable = selectGroups(groups)
+  const blocksRoot = applicable.length > 0 && !matchRules(applicable, '/')
+  return buildRules(applicable, blocksRoot ? 'disallowed' : 'allowed')
+}
+
+function selectGroups(groups: RobotsGroup[]): RobotsGroup[] {
+  const specific = groups.filter(group => group.agents.some(agent => agent.includes('contextds')))
+  if (specific.length > 0) return specific
+  return groups.filter(group => group.agents.includes('*'))
+}
+
+function buildRules(groups: RobotsGroup[], status: RobotsRules['status']): RobotsRules {
+  const delays = groups.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined)
+  const crawlDelayMs = delays.length > 0 ? Math.min(MAX_CRAWL_DELAY_MS, Math.max(...delays) * 1000) : 0
+
+  return {
+    status,
+    crawlDelayMs,
+    isAllowed: (url: string) => {
+      try {
+        const parsed = new URL(url)
+        return matchRules(groups, parsed.pathname + parsed.search)
+      } catch {
+        return false
+      }
+    }
+  }
+}
+
+function matchRules(groups: RobotsGroup[], path: string): boolean {
+  let best: { allow: boolean; length: number } | null = null
+
+  for (const group of groups) {
+    for (const rule of group.rules) {
+      if (!patternMatches(rule.pattern, path)) continue
+
+      // Longest match wins; on a tie, Allow wins
+      const length = rule.pattern.length
+      if (!best || length > best.length || (length === best.length && rule.allow)) {
+        best = { allow: rule.allow, length }
+      }
+    }
+  }
+
+  return best ? best.allow : true
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path)
+}
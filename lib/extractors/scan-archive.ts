@@ -0,0 +1,355 @@
+/**
+ * Scan archives (HAR 1.2)
+ * A recording fetcher captures every request a scan makes, both the static
+ * fetches and the browser's requests through page.route, into one HAR log. A
+ * replay fetcher serves a scan entirely from that log, so an archived scan can
+ * be re-run against a newer tokenizer, or in tests, without the network
+ */
+
+export type HarHeader = { name: string; value: string }
+
+export type HarEntry = {
+  pageref?: string
+  startedDateTime: string
+  time: number
+  request: {
+    method: string
+    url: string
+    httpVersion: string
+    headers: HarHeader[]
+    queryString: Array<{ name: string; value: string }>
+    cookies: []
+    headersSize: -1
+    bodySize: number
+    postData?: { mimeType: string; text: string }
+  }
+  response: {
+    status: number
+    statusText: string
+    httpVersion: string
+    headers: HarHeader[]
+    cookies: []
+    content: { size: number; mimeType: string; text?: string; encoding?: 'base64'; comment?: string }
+    redirectURL: string // Final URL after redirects were followed; empty when not redirected
+    headersSize: -1
+    bodySize: number
+  }
+  cache: Record<string, never>
+  timings: { send: number; wait: number; receive: number }
+  _source: 'fetch' | 'browser'
+}
+
+export type HarArchive = {
+  log: {
+    version: '1.2'
+    creator: { name: string; version: string }
+    pages: Array<{ id: string; title: string; startedDateTime: string; pageTimings: Record<string, never> }>
+    entries: HarEntry[]
+  }
+}
+
+// Structural subset of Playwright's Route, so this module doesn't load playwright
+export interface ArchiveRoute {
+  request(): {
+    url(): string
+    method(): string
+    headers(): Record<string, string>
+    postData(): string | null
+  }
+  fetch(): Promise<{
+    url(): string
+    status(): number
+    statusText(): string
+    headers(): Record<string, string>
+    body(): Promise<Buffer>
+  }>
+  fulfill(response: { status: number; headers: Record<string, string>; body: Buffer }): Promise<void>
+  abort(errorCode?: string): Promise<void>
+}
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface ScanFetcher {
+  mode: 'record' | 'replay'
+  fetch: FetchLike // Drop-in for the global fetch in static collectors
+  handleRoute(route: ArchiveRoute): Promise<void> // Handler for page.route('**/*')
+  toHar(): HarArchive
+}
+
+export class ScanArchiveMissError extends Error {
+  constructor(method: string, url: string) {
+    super(`Not in scan archive: ${method} ${url}`)
+    this.name = 'ScanArchiveMissError'
+  }
+}
+
+export class ScanArchiveNotFoundError extends Error {
+  constructor(scanId: string) {
+    super(`Scan ${scanId} has no archive to replay`)
+    this.name = 'ScanArchiveNotFoundError'
+  }
+}
+
+const MAX_ENTRY_BODY = 5 * 1024 * 1024 // 5MB per response body
+const MAX_ARCHIVE_BODIES = 50 * 1024 * 1024 // 50MB of bodies per archive
+const TEXT_MIME = /^(text\/|application\/(json|javascript|xml|xhtml\+xml|manifest\+json|ld\+json)|image\/svg\+xml)/i
+
+// Bodies are stored decoded, so transfer headers no longer describe them
+const TRANSFER_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding'])
+const DROPPED_RESPONSE_HEADERS = new Set([...TRANSFER_HEADERS, 'set-cookie'])
+const DROPPED_REQUEST_HEADERS = new Set(['cookie', 'authorization', 'proxy-authorization'])
+
+const PAGE_ID = 'page_1'
+
+/**
+ * Record every request into a HAR log while serving it from `upstream` (the network by default)
+ */
+export function createRecordingFetcher(options: { pageUrl?: string; upstream?: FetchLike } = {}): ScanFetcher {
+  const upstream: FetchLike = options.upstream ?? ((url, init) => fetch(url, init))
+  const startedAt = new Date().toISOString()
+  const entries: HarEntry[] = []
+  let storedBytes = 0
+
+  const storeBody = (body: Buffer, mimeType: string): HarEntry['response']['content'] => {
+    if (body.length > MAX_ENTRY_BODY || storedBytes + body.length > MAX_ARCHIVE_BODIES) {
+      return { size: body.length, mimeType, comment: 'body omitted: archive size limit' }
+    }
+    storedBytes += body.length
+    return TEXT_MIME.test(mimeType)
+      ? { size: body.length, mimeType, text: body.toString('utf8') }
+      : { size: body.length, mimeType, text: body.toString('base64'), encoding: 'base64' }
+  }
+
+  const record = (entry: {
+    source: HarEntry['_source']
+    method: string
+    url: string
+    requestHeaders: Record<string, string>
+    postData: string | null
+    status: number
+    statusText: string
+    finalUrl: string
+    responseHeaders: Record<string, string>
+    body: Buffer
+    started: number
+  }) => {
+    const mimeType = entry.responseHeaders['content-type'] ?? 'application/octet-stream'
+    const time = Date.now() - entry.started
+
+    entries.push({
+      pageref: PAGE_ID,
+      startedDateTime: new Date(entry.started).toISOString(),
+      time,
+      request: {
+        method: entry.method,
+        url: entry.url,
+        httpVersion: 'HTTP/1.1',
+        headers: toHarHeaders(entry.requestHeaders, DROPPED_REQUEST_HEADERS),
+        queryString: [...new URL(entry.url).searchParams].map(([name, value]) => ({ name, value })),
+        cookies: [],
+        headersSize: -1,
+        bodySize: entry.postData ? Buffer.byteLength(entry.postData) : 0,
+        ...(entry.postData ? { postData: { mimeType: entry.requestHeaders['content-type'] ?? '', text: entry.postData } } : {})
+      },
+      response: {
+        status: entry.status,
+        statusText: entry.statusText,
+        httpVersion: 'HTTP/1.1',
+        headers: toHarHeaders(entry.responseHeaders, DROPPED_RESPONSE_HEADERS),
+        cookies: [],
+        content: storeBody(entry.body, mimeType),
+        redirectURL: entry.finalUrl !== entry.url ? entry.finalUrl : '',
+        headersSize: -1,
+        bodySize: entry.body.length
+      },
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 },
+      _source: entry.source
+    })
+  }
+
+  return {
+    mode: 'record',
+
+    async fetch(url, init) {
+      const started = Date.now()
+      const response = await upstream(url, init)
+      const body = Buffer.from(await response.clone().arrayBuffer())
+
+      record({
+        source: 'fetch',
+        method: init?.method ?? 'GET',
+        url,
+        requestHeaders: headersToRecord(init?.headers),
+        postData: typeof init?.body === 'string' ? init.body : null,
+        status: response.status,
+        statusText: response.statusText,
+        finalUrl: response.url || url,
+        responseHeaders: headersToRecord(response.headers),
+        body,
+        started
+      })
+
+      return response
+    },
+
+    async handleRoute(route) {
+      const request = route.request()
+      const started = Date.now()
+
+      try {
+        const response = await route.fetch()
+        const body = await response.body()
+
+        record({
+          source: 'browser',
+          method: request.method(),
+          url: request.url(),
+          requestHeaders: request.headers(),
+          postData: request.postData(),
+          status: response.status(),
+          statusText: response.statusText(),
+          finalUrl: response.url(),
+          responseHeaders: response.headers(),
+          body,
+          started
+        })
+
+        await route.fulfill({ status: response.status(), headers: withoutHeaders(response.headers(), TRANSFER_HEADERS), body })
+      } catch (error) {
+        console.warn(`[scan-archive] Failed to record ${request.url()}:`, error instanceof Error ? error.message : error)
+        await route.abort('failed').catch(() => {})
+      }
+    },
+
+    toHar() {
+      return buildHar(options.pageUrl, startedAt, entries)
+    }
+  }
+}
+
+/**
+ * Serve requests from a recorded archive; anything not in it fails as if offline
+ */
+export function createReplayFetcher(archive: HarArchive): ScanFetcher {
+  // Repeated requests for the same URL are served in recorded order, then the last one again
+  const recorded = new Map<string, HarEntry[]>()
+  const served = new Map<string, number>()
+
+  for (const entry of archive.log.entries) {
+    const key = entryKey(entry.request.method, entry.request.url)
+    recorded.set(key, [...(recorded.get(key) ?? []), entry])
+  }
+
+  const lookup = (method: string, url: string): HarEntry | null => {
+    const key = entryKey(method, url)
+    const candidates = recorded.get(key)
+    if (!candidates) return null
+
+    const index = served.get(key) ?? 0
+    served.set(key, index + 1)
+    return candidates[Math.min(index, candidates.length - 1)]
+  }
+
+  return {
+    mode: 'replay',
+
+    async fetch(url, init) {
+      const method = init?.method ?? 'GET'
+      const entry = lookup(method, url)
+      if (!entry) throw new ScanArchiveMissError(method, url)
+
+      const body = bodyOf(entry)
+      const response = new Response(body.length > 0 ? new Uint8Array(body) : null, {
+        status: entry.response.status,
+        statusText: entry.response.statusText,
+        headers: entry.response.headers.map(header => [header.name, header.value] as [string, string])
+      })
+      // Collectors resolve relative links against the post-redirect URL
+      Object.defineProperty(response, 'url', { value: entry.response.redirectURL || entry.request.url })
+      return response
+    },
+
+    async handleRoute(route) {
+      const request = route.request()
+      const entry = lookup(request.method(), request.url())
+
+      if (!entry) {
+        await route.abort('internetdisconnected').catch(() => {})
+        return
+      }
+
+      await route.fulfill({
+        status: entry.response.status,
+        headers: Object.fromEntries(entry.response.headers.map(header => [header.name, header.value])),
+        body: bodyOf(entry)
+      })
+    },
+
+    toHar() {
+      return archive
+    }
+  }
+}
+
+/**
+ * Validate a stored archive before replaying it
+ */
+export function parseScanArchive(json: unknown): HarArchive {
+  const log = (json as HarArchive | null)?.log
+  if (!log || !Array.isArray(log.entries)) {
+    throw new Error('Invalid scan archive: expected a HAR log with entries')
+  }
+
+  for (const entry of log.entries) {
+    if (typeof entry?.request?.url !== 'string' || typeof entry?.response?.status !== 'number') {
+      throw new Error('Invalid scan archive: entry without request URL or response status')
+    }
+  }
+
+  return json as HarArchive
+}
+
+function buildHar(pageUrl: string | undefined, startedAt: string, entries: HarEntry[]): HarArchive {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'ContextDS', version: '1.0' },
+      pages: pageUrl ? [{ id: PAGE_ID, title: pageUrl, startedDateTime: startedAt, pageTimings: {} }] : [],
+      entries: [...entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime))
+    }
+  }
+}
+
+function bodyOf(entry: HarEntry): Buffer {
+  const { text, encoding } = entry.response.content
+  if (!text) return Buffer.alloc(0)
+  return encoding === 'base64' ? Buffer.from(text, 'base64') : Buffer.from(text, 'utf8')
+}
+
+function entryKey(method: string, url: string): string {
+  try {
+    const parsed = new URL(url)
+    parsed.hash = ''
+    return `${method.toUpperCase()} ${parsed.toString()}`
+  } catch {
+    return `${method.toUpperCase()} ${url}`
+  }
+}
+
+function headersToRecord(headers: HeadersInit | Headers | undefined): Record<string, string> {
+  if (!headers) return {}
+  const record: Record<string, string> = {}
+  new Headers(headers).forEach((value, name) => {
+    record[name.toLowerCase()] = value
+  })
+  return record
+}
+
+function withoutHeaders(headers: Record<string, string>, dropped: Set<string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([name]) => !dropped.has(name.toLowerCase())))
+}
+
+function toHarHeaders(headers: Record<string, string>, dropped: Set<string>): HarHeader[] {
+  return Object.entries(withoutHeaders(headers, dropped)).map(([name, value]) => ({ name, value }))
+}
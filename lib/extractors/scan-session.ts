@@ -0,0 +1,197 @@
+/**
+ * Scan sessions
+ * What a scan profile gives the extractors to get past a login or a cookie
+ * wall: cookies and extra headers sent to the scanned site, and a short
+ * declarative step script (goto, fill, click, waitFor, dismissConsent) the
+ * browser runs before extraction. Secrets from the session are redacted from
+ * stored scan metrics and from log lines
+ */
+
+import { z } from 'zod'
+
+export const MAX_SCAN_STEPS = 20
+export const SCAN_STEPS_TIMEOUT = 20000 // 20s for the whole step script
+export const SCAN_STEP_TIMEOUT = 10000 // 10s for a single step
+export const MAX_STEP_WAIT_MS = 5000 // Longest fixed pause a waitFor step may ask for
+
+export const REDACTED = '[REDACTED]'
+
+// Shorter values would blank out unrelated text wherever they happen to appear
+const MIN_SECRET_LENGTH = 4
+
+// Headers whose values are always secret, whatever the session holds
+const SECRET_HEADERS = new Set(['cookie', 'set-cookie', 'authorization', 'proxy-authorization'])
+
+// Accept buttons of the common consent managers, tried in order
+export const CONSENT_SELECTORS = [
+  '#onetrust-accept-btn-handler', // OneTrust
+  '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll', // Cookiebot
+  '#CybotCookiebotDialogBodyButtonAccept',
+  '#didomi-notice-agree-button', // Didomi
+  '[data-testid="uc-accept-all-button"]', // Usercentrics
+  '#truste-consent-button', // TrustArc
+  '.qc-cmp2-summary-buttons button[mode="primary"]', // Quantcast
+  '.osano-cm-accept-all', // Osano
+  '.fc-cta-consent', // Google Funding Choices
+  '#axeptio_btn_acceptAll', // Axeptio
+  'button[data-cookiefirst-action="accept"]', // CookieFirst
+  '#hs-eu-confirmation-button', // HubSpot
+  '.cc-allow, .cc-dismiss' // Cookie Consent (Osano open source)
+]
+
+const selector = z.string().trim().min(1).max(500)
+
+export const scanStepSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('goto'), url: z.string().trim().min(1).max(2048) }), // Absolute, or relative to the scanned URL
+  z.object({ action: z.literal('fill'), selector, value: z.string().max(2048) }),
+  z.object({ action: z.literal('click'), selector }),
+  z.object({ action: z.literal('waitFor'), selector: selector.optional(), ms: z.number().int().min(0).max(MAX_STEP_WAIT_MS).optional() })
+    .refine(step => !!step.selector !== (step.ms !== undefined), { message: 'waitFor takes either a selector or ms' }),
+  z.object({ action: z.literal('dismissConsent') })
+])
+
+export const sessionCookieSchema = z.object({
+  name: z.string().trim().min(1).max(256),
+  value: z.string().max(4096),
+  domain: z.string().trim().max(255).optional(), // Defaults to the scanned host
+  path: z.string().trim().max(1024).optional()
+})
+
+export const sessionHeadersSchema = z.record(
+  z.string().trim().min(1).max(256).regex(/^[!#$%&'*+.^_`|~\w-]+$/, 'Invalid header name'),
+  z.string().max(4096)
+)
+
+export const scanSessionSchema = z.object({
+  cookies: z.array(sessionCookieSchema).max(50).default([]),
+  headers: sessionHeadersSchema.default({}),
+  steps: z.array(scanStepSchema).max(MAX_SCAN_STEPS).default([])
+})
+
+export type ScanStep = z.infer<typeof scanStepSchema>
+export type SessionCookie = z.infer<typeof sessionCookieSchema>
+export type ScanSession = z.infer<typeof scanSessionSchema>
+
+// Cookie as both drivers take it
+export interface BrowserCookie {
+  name: string
+  value: string
+  domain: string
+  path: string
+  secure: boolean
+}
+
+// A login or consent step that failed; the scan stops rather than extract the login page
+export class ScanStepError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScanStepError'
+  }
+}
+
+/**
+ * Absolute URL for a goto step; relative paths resolve against the scanned URL
+ */
+export function resolveStepUrl(stepUrl: string, targetUrl: string): string {
+  const resolved = new URL(stepUrl, targetUrl)
+  if (!['http:', 'https:'].includes(resolved.protocol)) {
+    throw new ScanStepError(`Unsupported URL in goto step: ${resolved.protocol}`)
+  }
+  return resolved.toString()
+}
+
+/**
+ * Session cookies for the browser, scoped to the scanned host unless they name
+ * their own domain
+ */
+export function toBrowserCookies(cookies: SessionCookie[], targetUrl: string): BrowserCookie[] {
+  const target = new URL(targetUrl)
+  return cookies.map(cookie => ({
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain || target.hostname,
+    path: cookie.path || '/',
+    secure: target.protocol === 'https:'
+  }))
+}
+
+/**
+ * Headers for plain fetches of `url`: the session headers, plus a Cookie header
+ * built from the session cookies whose domain and path match
+ */
+export function sessionRequestHeaders(session: ScanSession, url: string): Record<string, string> {
+  const target = new URL(url)
+  const cookies = toBrowserCookies(session.cookies, url).filter(cookie => {
+    const domain = cookie.domain.replace(/^\./, '').toLowerCase()
+    const hostname = target.hostname.toLowerCase()
+    return (hostname === domain || hostname.endsWith(`.${domain}`)) && target.pathname.startsWith(cookie.path)
+  })
+
+  return {
+    ...session.headers,
+    ...(cookies.length > 0 ? { Cookie: cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') } : {})
+  }
+}
+
+/**
+ * A step as it may appear in logs and stored metrics: fill values are never shown
+ */
+export function describeStep(step: ScanStep): string {
+  switch (step.action) {
+    case 'goto':
+      return `goto ${step.url}`
+    case 'fill':
+      return `fill ${step.selector}`
+    case 'click':
+      return `click ${step.selector}`
+    case 'waitFor':
+      return step.selector ? `waitFor ${step.selector}` : `waitFor ${step.ms}ms`
+    case 'dismissConsent':
+      return 'dismissConsent'
+  }
+}
+
+/**
+ * What a session contains, without any secret: cookie and header names and
+ * the described steps
+ */
+export function summarizeScanSession(session: ScanSession) {
+  return {
+    cookies: session.cookies.map(cookie => cookie.name),
+    headers: Object.keys(session.headers),
+    steps: session.steps.map(describeStep)
+  }
+}
+
+/**
+ * Deep copy of `value` with every session secret (cookie, header and fill
+ * values) replaced by [REDACTED] inside strings, and the values of cookie,
+ * authorization and session header keys redacted outright
+ */
+export function redactScanSecrets<T>(value: T, session: ScanSession | null | undefined): T {
+  if (!session) return value
+
+  const secrets = [
+    ...session.cookies.map(cookie => cookie.value),
+    ...Object.values(session.headers),
+    ...session.steps.flatMap(step => step.action === 'fill' ? [step.value] : [])
+  ]
+    .filter(secret => secret.length >= MIN_SECRET_LENGTH)
+    .sort((first, second) => second.length - first.length) // Longest first, so overlapping secrets go whole
+
+  const secretKeys = new Set([...SECRET_HEADERS, ...Object.keys(session.headers).map(name => name.toLowerCase())])
+
+  const redact = (input: unknown): unknown => {
+    if (typeof input === 'string') {
+      return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), input)
+    }
+    if (Array.isArray(input)) return input.map(redact)
+    if (input && typeof input === 'object' && !(input instanceof Date)) {
+      return Object.fromEntries(Object.entries(input).map(([key, entry]) =>
+        [key, secretKeys.has(key.toLowerCase()) && entry !== null && entry !== undefined ? REDACTED : redact(entry)]))
+    }
+    return input
+  }
+
+  return redact(value) as T
+}
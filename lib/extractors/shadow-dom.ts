@@ -0,0 +1,126 @@
+/**
+ * Shadow DOM extraction
+ * Web components (Lit, Stencil, Shoelace and friends) keep their styles inside
+ * shadow roots, where neither document.styleSheets nor querySelectorAll reach.
+ * The browser extractor serializes each open shadow root once per custom
+ * element tag; this module turns those snapshots into CSS sources scoped to
+ * their host and works out which custom properties each component exposes
+ */
+
+import postcss from 'postcss'
+
+// An open shadow root as serialized in the page, for the first instance of its host tag
+export interface ShadowRootSnapshot {
+  host: string // Tag name of the custom element
+  sheets: Array<{
+    origin: 'adopted' | 'style' // shadowRoot.adoptedStyleSheets, or a <style> inside the root
+    content: string
+    ruleCount: number
+  }>
+}
+
+export interface ShadowSource {
+  content: string
+  component: string
+}
+
+// Valid custom element names always contain a hyphen and start with a lowercase letter
+const CUSTOM_ELEMENT_TAG = /^[a-z][a-z0-9._]*-[a-z0-9._-]*$/
+const SELECTOR_TAG = /(?:^|[\s>+~(,])([a-z][a-z0-9._]*-[a-z0-9._-]*)/g
+const VAR_REFERENCE = /var\(\s*(--[\w-]+)/g
+
+export function isCustomElementTag(tag: string): boolean {
+  return CUSTOM_ELEMENT_TAG.test(tag.toLowerCase())
+}
+
+/**
+ * Rewrite :host selectors to the host tag so shadow rules read like light DOM
+ * ones: `:host([variant=primary])` becomes `sl-button[variant=primary]` and
+ * `:host-context(.dark)` becomes `.dark sl-button`
+ */
+export function scopeHostSelectors(css: string, tag: string): string {
+  let root: postcss.Root
+  try {
+    root = postcss.parse(css) // cssText serialized by the browser is always well-formed
+  } catch {
+    return css
+  }
+
+  root.walkRules(rule => {
+    rule.selectors = rule.selectors.map(selector => selector
+      .replace(/:host-context\(([^()]*)\)/g, (_, context: string) => `${context.trim()} ${tag}`)
+      .replace(/:host\(([^()]*)\)/g, (_, compound: string) => `${tag}${compound.trim()}`)
+      .replace(/:host\b/g, tag))
+  })
+
+  return root.toString()
+}
+
+/**
+ * CSS sources for the shadow roots' styles, each tagged with its component.
+ * Sheets shared between components (common base styles) are kept once, under
+ * the first component that adopted them
+ */
+export function collectShadowSources(snapshots: ShadowRootSnapshot[]): ShadowSource[] {
+  const seen = new Set<string>()
+  const sources: ShadowSource[] = []
+
+  snapshots.forEach(snapshot => {
+    const component = snapshot.host.toLowerCase()
+    if (!isCustomElementTag(component)) return
+
+    snapshot.sheets.forEach(sheet => {
+      const content = sheet.content.trim()
+      if (!sheet.ruleCount || !content || seen.has(content)) return
+      seen.add(content)
+      sources.push({ content: scopeHostSelectors(content, component), component })
+    })
+  })
+
+  return sources
+}
+
+/**
+ * Custom properties each component exposes, keyed by property name: those its
+ * shadow styles declare or read through var(), and those the page sets on the
+ * host or its ::part()s from the light DOM
+ */
+export function collectComponentProperties(
+  sources: Array<{ content: string; component?: string }>
+): Map<string, string[]> {
+  const tags = new Set(sources.map(source => source.component).filter((tag): tag is string => !!tag))
+  const properties = new Map<string, Set<string>>()
+  if (tags.size === 0) return new Map()
+
+  const add = (name: string, component: string) => {
+    if (!properties.has(name)) properties.set(name, new Set())
+    properties.get(name)!.add(component)
+  }
+
+  sources.forEach(source => {
+    let root: postcss.Root
+    try {
+      root = postcss.parse(source.content)
+    } catch {
+      return
+    }
+
+    root.walkDecls(decl => {
+      const components = new Set<string>(source.component ? [source.component] : [])
+      const rule = decl.parent?.type === 'rule' ? (decl.parent as postcss.Rule) : null
+      if (rule) {
+        for (const match of rule.selector.toLowerCase().matchAll(SELECTOR_TAG)) {
+          if (tags.has(match[1])) components.add(match[1])
+        }
+      }
+      if (components.size === 0) return
+
+      components.forEach(component => {
+        if (decl.prop.startsWith('--')) add(decl.prop, component)
+        for (const match of decl.value.matchAll(VAR_REFERENCE)) add(match[1], component)
+      })
+    })
+  })
+
+  return new Map(Array.from(properties, ([name, components]) => [name, Array.from(components).sort()]))
+}
@@ -0,0 +1,149 @@
+/**
+ * Same-origin site crawler
+ * Breadth-first crawl from an entry URL that collects static CSS per page,
+ * bounded by link depth and a page budget, and respecting robots.txt
+ */
+
+import { collectStaticPage, type CssSource } from './static-css'
+import { fetchRobotsRules, type RobotsRules } from './robots'
+import type { ScanFetcher } from './scan-archive'
+
+export type CrawlDepth = 1 | 2 | 3
+
+export type CrawlOptions = {
+  depth: CrawlDepth
+  maxPages?: number
+  timeoutMs?: number
+  fetcher?: ScanFetcher // Record into, or replay from, a scan archive
+  headers?: Record<string, string> // Scan profile cookie and headers for every crawled page
+}
+
+export type CrawledPage = {
+  url: string
+  depth: number
+  status: 'completed' | 'failed'
+  sources: CssSource[]
+  htmlSize?: number
+  loadTime?: number
+  error?: string
+}
+
+export type CrawlResult = {
+  pages: CrawledPage[]
+  robotsStatus: RobotsRules['status']
+  skippedByRobots: string[]
+}
+
+// Default page budgets per depth; depth 1 is the single-page scan
+const DEFAULT_PAGE_BUDGET: Record<CrawlDepth, number> = { 1: 1, 2: 8, 3: 20 }
+const MAX_PAGE_BUDGET = 25
+const MAX_LINKS_PER_PAGE = 50
+const DEFAULT_CRAWL_TIMEOUT = 45000 // 45s across all pages
+
+// Links that never lead to an HTML document worth scanning
+const NON_DOCUMENT_EXTENSIONS = /\.(pdf|zip|gz|tar|dmg|exe|png|jpe?g|gif|webp|avif|svg|ico|mp4|webm|mp3|wav|css|js|json|xml|txt|rss|woff2?|ttf|otf)$/i
+
+export async function crawlSite(entryUrl: string, options: CrawlOptions): Promise<CrawlResult> {
+  const entry = new URL(entryUrl)
+  const maxPages = Math.min(MAX_PAGE_BUDGET, options.maxPages ?? DEFAULT_PAGE_BUDGET[options.depth])
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_CRAWL_TIMEOUT)
+
+  const robots = await fetchRobotsRules(entry.origin, options.fetcher?.fetch)
+  const pages: CrawledPage[] = []
+  const skippedByRobots: string[] = []
+  const seen = new Set<string>([normalizeLink(entry)])
+  const queue: Array<{ url: string; depth: number }> = [{ url: normalizeLink(entry), depth: 1 }]
+
+  console.log(`[site-crawler] Crawling ${entry.origin} (depth: ${options.depth}, budget: ${maxPages} pages, robots: ${robots.status})`)
+
+  while (queue.length > 0 && pages.length < maxPages) {
+    if (Date.now() > deadline) {
+      console.warn(`[site-crawler] Crawl deadline reached after ${pages.length} pages`)
+      break
+    }
+
+    const next = queue.shift()!
+
+    if (!robots.isAllowed(next.url)) {
+      skippedByRobots.push(next.url)
+      continue
+    }
+
+    // Replays never touch the site, so there's nothing to be polite to
+    if (pages.length > 0 && robots.crawlDelayMs > 0 && options.fetcher?.mode !== 'replay') {
+      await new Promise(resolve => setTimeout(resolve, robots.crawlDelayMs))
+    }
+
+    try {
+      const page = await collectStaticPage(next.url, { fetcher: options.fetcher, headers: options.headers })
+      pages.push({
+        url: page.url,
+        depth: next.depth,
+        status: 'completed',
+        sources: page.sources,
+        htmlSize: page.htmlSize,
+        loadTime: page.loadTime
+      })
+
+      if (next.depth < options.depth) {
+        for (const link of extractSameOriginLinks(page.html, page.url, entry.origin)) {
+          if (seen.has(link)) continue
+          seen.add(link)
+          queue.push({ url: link, depth: next.depth + 1 })
+        }
+      }
+    } catch (error) {
+      console.warn(`[site-crawler] Failed to crawl ${next.url}:`, error instanceof Error ? error.message : error)
+      pages.push({
+        url: next.url,
+        depth: next.depth,
+        status: 'failed',
+        sources: [],
+        error: error instanceof Error ? error.message : 'Crawl failed'
+      })
+    }
+  }
+
+  const completed = pages.filter(page => page.status === 'completed').length
+  console.log(`[site-crawler] Crawl complete: ${completed}/${pages.length} pages, ${skippedByRobots.length} skipped by robots.txt`)
+
+  return { pages, robotsStatus: robots.status, skippedByRobots }
+}
+
+export function extractSameOriginLinks(html: string, pageUrl: string, origin: string): string[] {
+  const links: string[] = []
+  const anchorRegex = /<a\s[^>]*href=["']([^"']+)["'][^>]*>/gi
+  let match: RegExpExecArray | null
+
+  while ((match = anchorRegex.exec(html)) !== null && links.length < MAX_LINKS_PER_PAGE) {
+    const tag = match[0]
+    const href = match[1].trim()
+
+    if (href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) continue
+    if (/\brel=["'][^"']*nofollow/i.test(tag) || /\bdownload\b/i.test(tag)) continue
+
+    try {
+      const resolved = new URL(href, pageUrl)
+      if (resolved.origin !== origin) continue
+      if (!/^https?:$/.test(resolved.protocol)) continue
+      if (NON_DOCUMENT_EXTENSIONS.test(resolved.pathname)) continue
+
+      const normalized = normalizeLink(resolved)
+      if (!links.includes(normalized)) links.push(normalized)
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return links
+}
+
+function normalizeLink(url: URL): string {
+  const copy = new URL(url.toString())
+  copy.hash = ''
+  // Treat /pricing and /pricing/ as the same page
+  if (copy.pathname.length > 1 && copy.pathname.endsWith('/')) {
+    copy.pathname = copy.pathname.slice(0, -1)
+  }
+  return copy.toString()
+}
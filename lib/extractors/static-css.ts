@@ -1,16 +1,20 @@
 import { createHash } from 'node:crypto'
 import pLimit from 'p-limit'
 import { withTimeout, createMemoryLimit, createCircuitBreaker } from '@/lib/utils/resilience'
+import type { FetchLike, ScanFetcher } from './scan-archive'
+import type { CssInJsLibrary } from './cssom'
 
 export type CssSource = {
-  kind: 'inline' | 'link' | 'computed'
+  kind: 'inline' | 'link' | 'computed' | 'cssom' // cssom: rules injected at runtime, read from the live stylesheet
   url?: string
   content: string
   bytes: number
   sha: string
+  library?: CssInJsLibrary | null // CSS-in-JS library that injected a cssom source
+  component?: string // Custom element whose shadow root holds a cssom source
 }
 
-const USER_AGENT =
+export const USER_AGENT =
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36 ContextDS/1.0 (+https://contextds.com/bot)'
 
 // BULLETPROOF LIMITS: Prevent system overload from large sites
@@ -28,13 +32,38 @@ const cssCircuitBreaker = createCircuitBreaker({
   name: 'css-fetch'
 })
 
-export async function collectStaticCss(targetUrl: string): Promise<CssSource[]> {
+export type StaticPageResult = {
+  url: string
+  html: string
+  sources: CssSource[]
+  htmlSize: number
+  loadTime: number
+}
+
+export type StaticCollectOptions = {
+  fetcher?: ScanFetcher // Record into, or replay from, a scan archive instead of plain fetch
+  headers?: Record<string, string> // Scan profile cookie and headers, sent to the page's own origin only
+}
+
+export async function collectStaticCss(targetUrl: string, options: StaticCollectOptions = {}): Promise<CssSource[]> {
+  const page = await collectStaticPage(targetUrl, options)
+  return page.sources
+}
+
+/**
+ * Fetch a single document and collect its CSS, keeping the HTML around so
+ * callers (e.g. the site crawler) can discover further links from it.
+ */
+export async function collectStaticPage(targetUrl: string, options: StaticCollectOptions = {}): Promise<StaticPageResult> {
+  const fetchImpl: FetchLike = options.fetcher?.fetch ?? fetch
+
   // BULLETPROOF: Wrap entire function with timeout and memory limits
   return withTimeout(async () => {
     const memoryLimit = createMemoryLimit(MAX_TOTAL_CSS)
+    const fetchStartedAt = Date.now()
 
-    const response = await fetch(targetUrl, {
-      headers: buildPrimaryRequestHeaders(targetUrl),
+    const response = await fetchImpl(targetUrl, {
+      headers: { ...buildPrimaryRequestHeaders(targetUrl), ...options.headers },
       redirect: 'follow',
       // Add AbortController for fetch timeout
       signal: AbortSignal.timeout(10000) // 10s timeout for initial page
@@ -53,6 +82,7 @@ export async function collectStaticCss(targetUrl: string): Promise<CssSource[]>
   }
 
     const html = await response.text()
+    const loadTime = Date.now() - fetchStartedAt
     const baseUrl = new URL(response.url)
     const cssSources: CssSource[] = []
     let totalBytes = 0
@@ -93,7 +123,7 @@ export async function collectStaticCss(targetUrl: string): Promise<CssSource[]>
           // Check circuit breaker
           return await cssCircuitBreaker.execute(async () => {
             const cssText = await withTimeout(
-              () => fetchStylesheet(stylesheetUrl, response.url),
+              () => fetchStylesheet(stylesheetUrl, response.url, fetchImpl, sameOrigin(stylesheetUrl, targetUrl) ? options.headers : undefined),
               CSS_FETCH_TIMEOUT
             )
 
@@ -139,7 +169,13 @@ export async function collectStaticCss(targetUrl: string): Promise<CssSource[]>
     })
 
     console.log(`[static-css] Successfully collected ${uniqueSources.size} CSS sources (${totalBytes} bytes)`)
-    return [...uniqueSources.values()]
+    return {
+      url: response.url,
+      html,
+      sources: [...uniqueSources.values()],
+      htmlSize: Buffer.byteLength(html, 'utf8'),
+      loadTime
+    }
   }, TOTAL_SCAN_TIMEOUT)
 }
 
@@ -175,9 +211,14 @@ function extractStylesheetLinks(html: string, baseUrl: URL): string[] {
   return links
 }
 
-async function fetchStylesheet(url: string, referer?: string): Promise<string> {
-  const response = await fetch(url, {
-    headers: buildStylesheetRequestHeaders(url, referer),
+async function fetchStylesheet(
+  url: string,
+  referer: string | undefined,
+  fetchImpl: FetchLike,
+  extraHeaders?: Record<string, string>
+): Promise<string> {
+  const response = await fetchImpl(url, {
+    headers: { ...buildStylesheetRequestHeaders(url, referer), ...extraHeaders },
     redirect: 'follow'
   })
 
@@ -188,6 +229,14 @@ async function fetchStylesheet(url: string, referer?: string): Promise<string> {
   return await response.text()
 }
 
+function sameOrigin(url: string, otherUrl: string): boolean {
+  try {
+    return new URL(url).origin === new URL(otherUrl).origin
+  } catch {
+    return false
+  }
+}
+
 function buildPrimaryRequestHeaders(targetUrl: string) {
   const origin = new URL(targetUrl).origin
   return {
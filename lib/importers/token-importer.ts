@@ -0,0 +1,856 @@
+/**
+ * Design Token Importer
+ * Normalizes token files a team already owns into the W3CTokenSet shape produced
+ * by extractW3CTokens, so imports can be diffed against scans with compareTokenSets
+ *
+ * Supported formats:
+ * - dtcg - W3C Design Tokens Community Group JSON ($value / $type)
+ * - figma - Figma Tokens / Tokens Studio JSON (value / type, one group per token set)
+ * - tailwind - Tailwind config JSON ({ theme: { colors, spacing, ... } })
+ * - css - plain CSS custom-property files (--name: value)
+ */
+
+import postcss from 'postcss'
+import { toW3CColor, type W3CColor } from '@/lib/analyzers/color-utils'
+import { parseDuration, type W3CDimension } from '@/lib/analyzers/dimension-utils'
+import type { W3CDesignToken, W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+
+export type ImportFormat = 'dtcg' | 'figma' | 'tailwind' | 'css'
+
+export type TokenImportOptions = {
+  name: string
+  format?: ImportFormat // Detected from the content when omitted
+}
+
+export type TokenImportResult = {
+  format: ImportFormat
+  tokenSet: W3CTokenSet
+  summary: {
+    totalTokens: number
+    byCategory: Record<string, number>
+    skipped: Array<{ path: string; reason: string }>
+  }
+}
+
+export class TokenImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TokenImportError'
+  }
+}
+
+// Internal token types; Figma/Tailwind names are mapped onto these
+type RawType =
+  | 'color'
+  | 'dimension'
+  | 'fontSize'
+  | 'letterSpacing'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'lineHeight'
+  | 'shadow'
+  | 'duration'
+  | 'typography'
+  | 'number'
+
+interface RawToken {
+  path: string[]
+  type: RawType | null
+  value: unknown
+  description?: string
+}
+
+type ReferenceLookup = (path: string) => RawToken | undefined
+
+const MAX_IMPORTED_TOKENS = 5000
+const MAX_REFERENCE_DEPTH = 10
+const CATEGORY_ORDER = ['color', 'dimension', 'typography', 'shadow', 'duration'] as const
+const DIMENSION_UNITS: W3CDimension['unit'][] = ['px', 'rem', 'em', '%', 'vh', 'vw', 'vmin', 'vmax', 'ch', 'ex']
+
+// Leading path segments that only repeat the category name (the tokenizer's
+// shadow-* and duration-* names keep their prefix, so those are not listed)
+const CATEGORY_ALIASES: Record<string, string[]> = {
+  color: ['color', 'colors'],
+  dimension: ['dimension', 'dimensions'],
+  typography: ['typography']
+}
+
+const TYPOGRAPHY_HINT = /font|text|type|letter|tracking|leading|line-?height/i
+
+const FONT_WEIGHT_KEYWORDS: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900
+}
+
+const FIGMA_TYPES: Record<string, RawType> = {
+  color: 'color',
+  sizing: 'dimension',
+  spacing: 'dimension',
+  dimension: 'dimension',
+  borderRadius: 'dimension',
+  borderWidth: 'dimension',
+  fontSizes: 'fontSize',
+  fontSize: 'fontSize',
+  letterSpacing: 'letterSpacing',
+  fontFamilies: 'fontFamily',
+  fontFamily: 'fontFamily',
+  fontWeights: 'fontWeight',
+  fontWeight: 'fontWeight',
+  lineHeights: 'lineHeight',
+  lineHeight: 'lineHeight',
+  boxShadow: 'shadow',
+  shadow: 'shadow',
+  typography: 'typography',
+  duration: 'duration',
+  number: 'number',
+  opacity: 'number'
+}
+
+const DTCG_TYPES: Record<string, RawType> = {
+  color: 'color',
+  dimension: 'dimension',
+  fontFamily: 'fontFamily',
+  fontWeight: 'fontWeight',
+  shadow: 'shadow',
+  duration: 'duration',
+  typography: 'typography',
+  number: 'number'
+}
+
+const TAILWIND_THEME_KEYS: Record<string, { type: RawType; prefix: string }> = {
+  colors: { type: 'color', prefix: 'color' },
+  spacing: { type: 'dimension', prefix: 'spacing' },
+  borderRadius: { type: 'dimension', prefix: 'radius' },
+  fontSize: { type: 'fontSize', prefix: 'text' },
+  fontFamily: { type: 'fontFamily', prefix: 'font' },
+  fontWeight: { type: 'fontWeight', prefix: 'font-weight' },
+  lineHeight: { type: 'lineHeight', prefix: 'leading' },
+  letterSpacing: { type: 'letterSpacing', prefix: 'tracking' },
+  boxShadow: { type: 'shadow', prefix: 'shadow' },
+  transitionDuration: { type: 'duration', prefix: 'duration' }
+}
+
+/**
+ * Import a token file and normalize it into a W3CTokenSet
+ */
+export function importTokens(content: string | object, options: TokenImportOptions): TokenImportResult {
+  const parsed = typeof content === 'string' ? tryParseJson(content) : content
+  const format = options.format ?? detectImportFormat(content)
+
+  if (!format) {
+    throw new TokenImportError('Unrecognized token format (expected DTCG, Figma Tokens, Tailwind config JSON or CSS custom properties)')
+  }
+
+  const skipped: TokenImportResult['summary']['skipped'] = []
+  let collected: { tokens: RawToken[]; lookup: ReferenceLookup }
+
+  if (format === 'css') {
+    if (typeof content !== 'string') {
+      throw new TokenImportError('CSS imports must be sent as text')
+    }
+    collected = collectCssTokens(content, skipped)
+  } else {
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new TokenImportError(`${format} imports must be a JSON object`)
+    }
+    const document = parsed as Record<string, unknown>
+    collected =
+      format === 'dtcg' ? collectDtcgTokens(document)
+        : format === 'figma' ? collectFigmaTokens(document)
+          : collectTailwindTokens(document, skipped)
+  }
+
+  const tokenSet = buildTokenSet(collected.tokens, collected.lookup, { name: options.name, format }, skipped)
+
+  const byCategory: Record<string, number> = {}
+  CATEGORY_ORDER.forEach(category => {
+    const group = tokenSet[category]
+    if (group) byCategory[category] = Object.keys(group as object).length
+  })
+  const totalTokens = Object.values(byCategory).reduce((sum, count) => sum + count, 0)
+
+  if (totalTokens === 0) {
+    throw new TokenImportError('No supported tokens found in the imported file')
+  }
+
+  return {
+    format,
+    tokenSet,
+    summary: { totalTokens, byCategory, skipped }
+  }
+}
+
+/**
+ * Guess the format of a token file from its structure
+ */
+export function detectImportFormat(content: string | object): ImportFormat | null {
+  const parsed = typeof content === 'string' ? tryParseJson(content) : content
+
+  if (!parsed || typeof parsed !== 'object') {
+    return typeof content === 'string' && /--[\w-]+\s*:/.test(content) ? 'css' : null
+  }
+
+  const document = parsed as Record<string, unknown>
+  if (containsLeaf(document, node => '$value' in node)) return 'dtcg'
+  if (containsLeaf(document, node => 'value' in node && 'type' in node)) return 'figma'
+
+  const theme = isRecord(document.theme) ? document.theme : document
+  if (Object.keys(TAILWIND_THEME_KEYS).some(key => key in theme) || isRecord(theme.extend)) return 'tailwind'
+
+  return null
+}
+
+// ============================================================================
+// Format collectors
+// ============================================================================
+
+function collectDtcgTokens(document: Record<string, unknown>): { tokens: RawToken[]; lookup: ReferenceLookup } {
+  const tokens: RawToken[] = []
+  const byPath = new Map<string, RawToken>()
+
+  const walk = (node: Record<string, unknown>, path: string[], inheritedType: string | undefined) => {
+    const groupType = typeof node.$type === 'string' ? node.$type : inheritedType
+
+    Object.entries(node).forEach(([key, child]) => {
+      if (key.startsWith('$') || !isRecord(child)) return
+      const childPath = [...path, key]
+
+      if ('$value' in child) {
+        const type = typeof child.$type === 'string' ? child.$type : groupType
+        const token: RawToken = {
+          path: childPath,
+          type: type ? DTCG_TYPES[type] ?? null : null,
+          value: child.$value,
+          description: typeof child.$description === 'string' ? child.$description : undefined
+        }
+        tokens.push(token)
+        byPath.set(childPath.join('.'), token)
+      } else {
+        walk(child, childPath, groupType)
+      }
+    })
+  }
+
+  walk(document, [], undefined)
+  return { tokens, lookup: path => byPath.get(path) }
+}
+
+function collectFigmaTokens(document: Record<string, unknown>): { tokens: RawToken[]; lookup: ReferenceLookup } {
+  const byPath = new Map<string, RawToken>()
+  const qualified = new Map<string, RawToken>()
+
+  const walk = (node: Record<string, unknown>, path: string[], setName: string | null) => {
+    Object.entries(node).forEach(([key, child]) => {
+      if (key.startsWith('$') || !isRecord(child)) return
+      const childPath = [...path, key]
+
+      if ('value' in child && 'type' in child) {
+        const token: RawToken = {
+          path: childPath,
+          type: typeof child.type === 'string' ? FIGMA_TYPES[child.type] ?? null : null,
+          value: child.value,
+          description: typeof child.description === 'string' ? child.description : undefined
+        }
+        // Later token sets override earlier ones, as in Tokens Studio
+        byPath.set(childPath.join('.'), token)
+        if (setName) qualified.set(`${setName}.${childPath.join('.')}`, token)
+      } else {
+        walk(child, childPath, setName)
+      }
+    })
+  }
+
+  // Multi-set exports nest every token set one level down and list them in $metadata
+  const metadata = isRecord(document.$metadata) ? document.$metadata : {}
+  const isMultiSet = Array.isArray(metadata.tokenSetOrder) || Array.isArray(document.$themes)
+
+  if (isMultiSet) {
+    const order = (Array.isArray(metadata.tokenSetOrder) ? metadata.tokenSetOrder : []).filter(
+      (name): name is string => typeof name === 'string' && isRecord(document[name])
+    )
+    const remaining = Object.keys(document).filter(key => !key.startsWith('$') && !order.includes(key))
+    ;[...order, ...remaining].forEach(setName => {
+      const set = document[setName]
+      if (isRecord(set)) walk(set, [], setName)
+    })
+  } else {
+    walk(document, [], null)
+  }
+
+  return {
+    tokens: Array.from(byPath.values()),
+    lookup: path => byPath.get(path) ?? qualified.get(path)
+  }
+}
+
+function collectTailwindTokens(
+  document: Record<string, unknown>,
+  skipped: TokenImportResult['summary']['skipped']
+): { tokens: RawToken[]; lookup: ReferenceLookup } {
+  const theme = isRecord(document.theme) ? document.theme : document
+  const merged: Record<string, unknown> = { ...theme }
+
+  // theme.extend adds to (and overrides keys of) the base scale
+  if (isRecord(theme.extend)) {
+    Object.entries(theme.extend).forEach(([key, value]) => {
+      merged[key] = isRecord(merged[key]) && isRecord(value) ? { ...merged[key], ...value } : value
+    })
+  }
+  delete merged.extend
+
+  const tokens: RawToken[] = []
+
+  Object.entries(merged).forEach(([themeKey, scale]) => {
+    const mapping = TAILWIND_THEME_KEYS[themeKey]
+    if (!mapping) {
+      skipped.push({ path: `theme.${themeKey}`, reason: 'Unsupported Tailwind theme key' })
+      return
+    }
+    if (!isRecord(scale)) {
+      skipped.push({ path: `theme.${themeKey}`, reason: 'Expected an object of values' })
+      return
+    }
+
+    const walk = (node: Record<string, unknown>, path: string[]) => {
+      Object.entries(node).forEach(([key, value]) => {
+        // DEFAULT is Tailwind's "no suffix" entry (e.g. `rounded`, `shadow`)
+        const childPath = key === 'DEFAULT' ? path : [...path, key]
+
+        if (mapping.type === 'color' && isRecord(value)) {
+          walk(value, childPath)
+          return
+        }
+
+        tokens.push({ path: childPath, type: mapping.type, value: unwrapTailwindValue(mapping.type, value) })
+      })
+    }
+
+    walk(scale, [mapping.prefix])
+  })
+
+  return { tokens, lookup: () => undefined }
+}
+
+function collectCssTokens(
+  content: string,
+  skipped: TokenImportResult['summary']['skipped']
+): { tokens: RawToken[]; lookup: ReferenceLookup } {
+  let root: postcss.Root
+  try {
+    root = postcss.parse(content)
+  } catch (error) {
+    throw new TokenImportError(`Could not parse CSS: ${error instanceof Error ? error.message : 'invalid CSS'}`)
+  }
+
+  // :root/html declarations win; other selectors only fill in names they don't define
+  const rootValues = new Map<string, string>()
+  const otherValues = new Map<string, string>()
+
+  root.walkDecls(decl => {
+    if (!decl.prop.startsWith('--')) return
+    const selector = decl.parent && decl.parent.type === 'rule' ? (decl.parent as postcss.Rule).selector : ''
+    const target = /^(:root|html|:host)$/.test(selector.trim()) ? rootValues : otherValues
+    if (!target.has(decl.prop)) target.set(decl.prop, decl.value.trim())
+  })
+
+  const variables = new Map(otherValues)
+  rootValues.forEach((value, name) => variables.set(name, value))
+
+  const tokens: RawToken[] = []
+  variables.forEach((rawValue, name) => {
+    const value = resolveCssVariables(rawValue, variables)
+    const path = name.slice(2).split('-').filter(Boolean)
+    const type = classifyCssValue(name, value)
+
+    if (!type) {
+      skipped.push({ path: name, reason: 'Not a recognized token value' })
+      return
+    }
+
+    tokens.push({ path, type, value })
+  })
+
+  return { tokens, lookup: () => undefined }
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+function buildTokenSet(
+  tokens: RawToken[],
+  lookup: ReferenceLookup,
+  metadata: { name: string; format: ImportFormat },
+  skipped: TokenImportResult['summary']['skipped']
+): W3CTokenSet {
+  const groups: Record<string, Record<string, W3CDesignToken>> = {}
+  let imported = 0
+
+  tokens.forEach(raw => {
+    const pathLabel = raw.path.join('.')
+
+    if (imported >= MAX_IMPORTED_TOKENS) {
+      skipped.push({ path: pathLabel, reason: `Import limit of ${MAX_IMPORTED_TOKENS} tokens reached` })
+      return
+    }
+
+    try {
+      const value = resolveReferences(raw.value, lookup, 0)
+      const type = raw.type ?? inferReferencedType(raw.value, lookup)
+      const normalized = type ? normalizeToken(type, value, raw.path) : null
+
+      if (!normalized) {
+        skipped.push({ path: pathLabel, reason: type ? `Unsupported ${type} value` : 'Unsupported token type' })
+        return
+      }
+
+      const group = groups[normalized.category] || (groups[normalized.category] = {})
+      const name = uniqueName(group, tokenName(raw.path, normalized.category))
+
+      group[name] = {
+        $type: normalized.$type,
+        $value: normalized.$value,
+        ...(raw.description ? { $description: raw.description } : {}),
+        $extensions: {
+          'contextds.usage': 0,
+          'contextds.confidence': 100,
+          'contextds.sources': [],
+          'contextds.original': typeof raw.value === 'string' ? raw.value : JSON.stringify(raw.value),
+          'contextds.importPath': pathLabel
+        }
+      }
+      imported++
+    } catch (error) {
+      skipped.push({ path: pathLabel, reason: error instanceof Error ? error.message : 'Invalid token' })
+    }
+  })
+
+  const tokenSet: W3CTokenSet = {
+    $schema: 'https://design-tokens.github.io/community-group/format/',
+    $metadata: {
+      name: metadata.name,
+      version: '1.0.0',
+      generatedAt: new Date().toISOString(),
+      source: {
+        url: `import:${metadata.format}`,
+        cssSources: []
+      },
+      tools: {
+        extractor: 'contextds-token-importer',
+        version: '1.0.0'
+      }
+    }
+  }
+
+  CATEGORY_ORDER.forEach(category => {
+    if (groups[category]) tokenSet[category] = groups[category]
+  })
+
+  return tokenSet
+}
+
+function normalizeToken(
+  type: RawType,
+  value: unknown,
+  path: string[]
+): { category: string; $type: string; $value: unknown } | null {
+  const pathText = path.join('-')
+
+  switch (type) {
+    case 'color': {
+      const color = normalizeColor(value)
+      return color ? { category: 'color', $type: 'color', $value: color } : null
+    }
+    case 'dimension':
+    case 'fontSize':
+    case 'letterSpacing': {
+      const dimension = normalizeDimension(value)
+      if (!dimension) return null
+      const isTypography = type !== 'dimension' || TYPOGRAPHY_HINT.test(pathText)
+      return { category: isTypography ? 'typography' : 'dimension', $type: 'dimension', $value: dimension }
+    }
+    case 'fontFamily': {
+      const families = normalizeFontFamily(value)
+      return families ? { category: 'typography', $type: 'fontFamily', $value: families } : null
+    }
+    case 'fontWeight': {
+      const weight = normalizeFontWeight(value)
+      return weight ? { category: 'typography', $type: 'fontWeight', $value: weight } : null
+    }
+    case 'lineHeight': {
+      const lineHeight = normalizeLineHeight(value)
+      if (lineHeight === null) return null
+      return { category: 'typography', $type: typeof lineHeight === 'number' ? 'number' : 'dimension', $value: lineHeight }
+    }
+    case 'number':
+      // Bare numbers only map onto the tokenizer's unitless line heights
+      return /line-?height|leading/i.test(pathText) ? normalizeToken('lineHeight', value, path) : null
+    case 'shadow': {
+      const shadow = normalizeShadow(value)
+      return shadow ? { category: 'shadow', $type: 'shadow', $value: shadow } : null
+    }
+    case 'duration': {
+      const ms = normalizeDurationMs(value)
+      return ms !== null ? { category: 'duration', $type: 'duration', $value: `${ms}ms` } : null
+    }
+    case 'typography': {
+      const typography = normalizeTypography(value)
+      return typography ? { category: 'typography', $type: 'typography', $value: typography } : null
+    }
+  }
+}
+
+function normalizeColor(value: unknown): W3CColor | null {
+  if (typeof value === 'string') {
+    // Figma Tokens writes alpha over a referenced hex as rgba(#rrggbb, 0.5)
+    const hexAlpha = value.match(/^rgba?\(\s*(#[0-9a-f]{3,8})\s*,\s*([\d.]+%?)\s*\)$/i)
+    if (hexAlpha) {
+      const base = toW3CColor(hexAlpha[1])
+      const alpha = hexAlpha[2].endsWith('%') ? parseFloat(hexAlpha[2]) / 100 : parseFloat(hexAlpha[2])
+      if (!base || Number.isNaN(alpha)) return null
+      return { colorSpace: 'srgb', components: [...base.components.slice(0, 3), round(alpha)] as W3CColor['components'] }
+    }
+    return toW3CColor(value)
+  }
+  if (!isRecord(value)) return null
+
+  // DTCG 2025 color objects: { colorSpace, components, alpha?, hex? }
+  if (typeof value.hex === 'string') {
+    const fromHex = toW3CColor(value.hex)
+    if (fromHex && typeof value.alpha === 'number' && value.alpha !== 1) {
+      return { colorSpace: 'srgb', components: [...fromHex.components.slice(0, 3), round(value.alpha)] as W3CColor['components'] }
+    }
+    return fromHex
+  }
+
+  if (value.colorSpace === 'srgb' && Array.isArray(value.components) && value.components.length >= 3) {
+    const [r, g, b] = value.components.map(component => round(Number(component) || 0))
+    const alpha = typeof value.alpha === 'number' ? value.alpha : value.components[3]
+    return {
+      colorSpace: 'srgb',
+      components: typeof alpha === 'number' && alpha !== 1 ? [r, g, b, round(alpha)] : [r, g, b]
+    }
+  }
+
+  return null
+}
+
+function normalizeDimension(value: unknown): W3CDimension | null {
+  if (typeof value === 'number') return { value: round(value), unit: 'px' }
+
+  if (isRecord(value) && typeof value.value === 'number' && typeof value.unit === 'string') {
+    const unit = value.unit.toLowerCase() as W3CDimension['unit']
+    return DIMENSION_UNITS.includes(unit) ? { value: round(value.value), unit } : null
+  }
+
+  if (typeof value !== 'string') return null
+
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|em|%|vh|vw|vmin|vmax|ch|ex)?$/i)
+  if (!match) return null
+
+  return {
+    value: round(parseFloat(match[1])),
+    unit: (match[2]?.toLowerCase() || 'px') as W3CDimension['unit']
+  }
+}
+
+function normalizeFontFamily(value: unknown): string[] | null {
+  const families = Array.isArray(value)
+    ? value.filter((family): family is string => typeof family === 'string')
+    : typeof value === 'string' ? value.split(',') : []
+
+  const cleaned = families.map(family => family.trim().replace(/^['"]|['"]$/g, '')).filter(Boolean)
+  return cleaned.length > 0 ? cleaned : null
+}
+
+function normalizeFontWeight(value: unknown): number | null {
+  if (typeof value === 'number') return value >= 1 && value <= 1000 ? value : null
+  if (typeof value !== 'string') return null
+
+  const numeric = parseInt(value, 10)
+  if (!isNaN(numeric)) return numeric >= 1 && numeric <= 1000 ? numeric : null
+
+  // Figma style names such as "Semi Bold Italic"
+  const keyword = value.toLowerCase().replace(/italic|oblique/g, '').replace(/[\s_-]+/g, '')
+  return FONT_WEIGHT_KEYWORDS[keyword] ?? null
+}
+
+function normalizeLineHeight(value: unknown): number | W3CDimension | null {
+  if (typeof value === 'number') return value > 0 ? round(value) : null
+  if (typeof value !== 'string') return null
+
+  const trimmed = value.trim()
+  if (/^\d*\.?\d+%$/.test(trimmed)) return round(parseFloat(trimmed) / 100)
+  if (/^\d*\.?\d+$/.test(trimmed)) return round(parseFloat(trimmed))
+
+  return normalizeDimension(trimmed)
+}
+
+function normalizeDurationMs(value: unknown): number | null {
+  if (typeof value === 'number') return Math.round(value)
+  if (isRecord(value) && typeof value.value === 'number') {
+    return Math.round(value.unit === 's' ? value.value * 1000 : value.value)
+  }
+  if (typeof value !== 'string') return null
+
+  const parsed = parseDuration(value)
+  return parsed ? parsed.value : null
+}
+
+function normalizeShadow(value: unknown): unknown {
+  const layers = Array.isArray(value)
+    ? value.map(normalizeShadowObject)
+    : typeof value === 'string'
+      ? splitTopLevel(value, ',').map(parseShadowLayer)
+      : [normalizeShadowObject(value)]
+
+  if (layers.length === 0 || layers.some(layer => layer === null)) return null
+  return layers.length === 1 ? layers[0] : layers
+}
+
+function normalizeShadowObject(value: unknown) {
+  if (typeof value === 'string') return parseShadowLayer(value)
+  if (!isRecord(value)) return null
+
+  // DTCG uses offsetX/offsetY; Figma Tokens uses x/y plus type: innerShadow
+  const offsetX = normalizeDimension(value.offsetX ?? value.x ?? 0)
+  const offsetY = normalizeDimension(value.offsetY ?? value.y ?? 0)
+  const blur = normalizeDimension(value.blur ?? 0)
+  const spread = normalizeDimension(value.spread ?? 0)
+  const color = normalizeColor(value.color ?? '#000000')
+
+  if (!offsetX || !offsetY || !blur || !spread || !color) return null
+
+  const inset = value.inset === true || value.type === 'innerShadow'
+  return { offsetX, offsetY, blur, spread, color, ...(inset ? { inset: true } : {}) }
+}
+
+function parseShadowLayer(layer: string) {
+  const lengths: W3CDimension[] = []
+  let inset = false
+  let colorValue = '#000000'
+
+  splitTopLevel(layer.trim(), ' ').filter(Boolean).forEach(part => {
+    if (part.toLowerCase() === 'inset') {
+      inset = true
+      return
+    }
+    const dimension = /^-?\d*\.?\d+[a-z%]*$/i.test(part) ? normalizeDimension(part) : null
+    if (dimension) {
+      lengths.push(dimension)
+    } else {
+      colorValue = part
+    }
+  })
+
+  const color = toW3CColor(colorValue)
+  if (lengths.length < 2 || !color) return null
+
+  const zero: W3CDimension = { value: 0, unit: 'px' }
+  return {
+    offsetX: lengths[0],
+    offsetY: lengths[1],
+    blur: lengths[2] ?? zero,
+    spread: lengths[3] ?? zero,
+    color,
+    ...(inset ? { inset: true } : {})
+  }
+}
+
+function normalizeTypography(value: unknown) {
+  if (!isRecord(value)) return null
+
+  const typography: Record<string, unknown> = {}
+  const fontFamily = normalizeFontFamily(value.fontFamily)
+  const fontSize = normalizeDimension(value.fontSize)
+  const fontWeight = normalizeFontWeight(value.fontWeight)
+  const lineHeight = normalizeLineHeight(value.lineHeight)
+  const letterSpacing = normalizeDimension(value.letterSpacing)
+
+  if (fontFamily) typography.fontFamily = fontFamily
+  if (fontSize) typography.fontSize = fontSize
+  if (fontWeight) typography.fontWeight = fontWeight
+  if (lineHeight !== null) typography.lineHeight = lineHeight
+  if (letterSpacing) typography.letterSpacing = letterSpacing
+
+  return Object.keys(typography).length > 0 ? typography : null
+}
+
+// ============================================================================
+// References and naming
+// ============================================================================
+
+/**
+ * Resolve {group.token} references (DTCG and Figma Tokens syntax) to concrete values
+ */
+function resolveReferences(value: unknown, lookup: ReferenceLookup, depth: number): unknown {
+  if (depth > MAX_REFERENCE_DEPTH) {
+    throw new Error('Reference chain too deep (circular reference?)')
+  }
+
+  if (Array.isArray(value)) return value.map(item => resolveReferences(item, lookup, depth))
+
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveReferences(item, lookup, depth)]))
+  }
+
+  if (typeof value !== 'string' || !value.includes('{')) return value
+
+  const whole = value.trim().match(/^\{([^{}]+)\}$/)
+  if (whole) {
+    const target = lookup(whole[1])
+    if (!target) throw new Error(`Unresolved reference {${whole[1]}}`)
+    return resolveReferences(target.value, lookup, depth + 1)
+  }
+
+  // References embedded in a larger value, e.g. rgba({colors.red}, 0.5)
+  return value.replace(/\{([^{}]+)\}/g, (_, path: string) => {
+    const target = lookup(path)
+    if (!target) throw new Error(`Unresolved reference {${path}}`)
+    const resolved = resolveReferences(target.value, lookup, depth + 1)
+    if (typeof resolved !== 'string' && typeof resolved !== 'number') {
+      throw new Error(`Reference {${path}} cannot be embedded in a string`)
+    }
+    return String(resolved)
+  })
+}
+
+// Untyped DTCG aliases take the type of the token they point to
+function inferReferencedType(value: unknown, lookup: ReferenceLookup): RawType | null {
+  let current = value
+  for (let depth = 0; depth <= MAX_REFERENCE_DEPTH; depth++) {
+    const match = typeof current === 'string' ? current.trim().match(/^\{([^{}]+)\}$/) : null
+    if (!match) return null
+    const target = lookup(match[1])
+    if (!target) return null
+    if (target.type) return target.type
+    current = target.value
+  }
+  return null
+}
+
+function tokenName(path: string[], category: string): string {
+  const aliases = CATEGORY_ALIASES[category] || []
+  const segments = path.length > 1 && aliases.includes(path[0].toLowerCase()) ? path.slice(1) : path
+
+  return segments
+    .map(segment => segment
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .toLowerCase()
+      .replace(/\./g, '_') // Dots are path separators in compareTokenSets
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, ''))
+    .filter(Boolean)
+    .join('-') || 'token'
+}
+
+function uniqueName(group: Record<string, unknown>, name: string): string {
+  if (!(name in group)) return name
+
+  let suffix = 2
+  while (`${name}-${suffix}` in group) suffix++
+  return `${name}-${suffix}`
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function unwrapTailwindValue(type: RawType, value: unknown): unknown {
+  // fontSize: ['1rem', { lineHeight: '1.5rem' }] and fontFamily: [['Inter', 'sans-serif'], { fontFeatureSettings }]
+  if (Array.isArray(value) && (type === 'fontSize' || type === 'fontFamily')) {
+    const [first, second] = value
+    if (type === 'fontSize') return first
+    if (Array.isArray(first) || (typeof first === 'string' && isRecord(second))) return first
+  }
+  return value
+}
+
+function classifyCssValue(name: string, value: string): RawType | null {
+  const lowerName = name.toLowerCase()
+
+  if (/shadow|elevation/.test(lowerName)) return parseShadowLayer(splitTopLevel(value, ',')[0] || '') ? 'shadow' : null
+  if (/font-?family|^--font-(sans|serif|mono|body|heading|display)$/.test(lowerName)) return 'fontFamily'
+  if (/font-?weight/.test(lowerName)) return normalizeFontWeight(value) ? 'fontWeight' : null
+  if (/line-?height|leading/.test(lowerName)) return normalizeLineHeight(value) !== null ? 'lineHeight' : null
+  if (/ease|easing|cubic/.test(lowerName)) return null
+
+  if (parseDuration(value)) return 'duration'
+  if (toW3CColor(value) && !/^-?\d*\.?\d+[a-z%]*$/i.test(value)) return 'color'
+  if (/^-?\d*\.?\d+(px|rem|em|%|vh|vw|vmin|vmax|ch|ex)$/i.test(value) || value === '0') {
+    return /font-?size|^--text-/.test(lowerName) ? 'fontSize' : 'dimension'
+  }
+  if (splitTopLevel(value, ' ').length >= 3 && parseShadowLayer(splitTopLevel(value, ',')[0])) return 'shadow'
+
+  return null
+}
+
+function resolveCssVariables(value: string, variables: Map<string, string>, depth = 0): string {
+  if (depth > MAX_REFERENCE_DEPTH || !value.includes('var(')) return value
+
+  const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/g, (match, name: string, fallback?: string) =>
+    variables.get(name) ?? fallback?.trim() ?? match
+  )
+
+  return resolved === value ? value : resolveCssVariables(resolved, variables, depth + 1)
+}
+
+function splitTopLevel(value: string, separator: ',' | ' '): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+
+  for (const char of value) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+
+    const isSeparator = separator === ' ' ? /\s/.test(char) : char === separator
+    if (isSeparator && depth === 0) {
+      if (current.trim()) parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+function containsLeaf(node: Record<string, unknown>, matches: (node: Record<string, unknown>) => boolean, depth = 0): boolean {
+  if (depth > 12) return false
+  return Object.entries(node).some(([key, child]) => {
+    if (key.startsWith('$') || !isRecord(child)) return false
+    return matches(child) || containsLeaf(child, matches, depth + 1)
+  })
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function tryParseJson(content: string): unknown {
+  try {
+    return JSON.parse(content)
+  } catch {
+    return null
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
@@ -0,0 +1,559 @@
+/**
+ * Model Context Protocol handler
+ * Transport-agnostic JSON-RPC 2.0 dispatcher over MCPServer: tools with JSON Schemas
+ * generated from the zod schemas, each site's tokens as resources, and prompts built
+ * from the AI prompt pack. Shared by the stdio transport and the /api/mcp endpoint
+ */
+
+import { z } from 'zod'
+import { sql } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { buildAiPromptPack } from '@/lib/analyzers/ai-prompt-pack'
+import type { TokenExtractionResult, W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+import { hasScope, recordApiKeyUsage, releaseScanQuota, reserveScanQuota, type ApiKeyPrincipal } from '@/lib/auth/api-keys'
+import {
+  MCPServer,
+  scanTokensSchema,
+  getTokensSchema,
+  layoutProfileSchema,
+  researchCompanyArtifactsSchema,
+  composePackSchema,
+  contrastMatrixSchema,
+  voteTokenSchema
+} from './server'
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18'
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+// Assumed for Streamable HTTP requests that carry no MCP-Protocol-Version header
+export const DEFAULT_HTTP_PROTOCOL_VERSION = '2025-03-26'
+
+// Revision that introduced each optional response field; versions are dates, so they compare as strings
+const PROTOCOL_FEATURES = {
+  toolAnnotations: '2025-03-26',
+  titles: '2025-06-18',
+  structuredContent: '2025-06-18',
+  resourceLinks: '2025-06-18'
+} as const
+
+type ProtocolFeature = keyof typeof PROTOCOL_FEATURES
+
+export type JsonRpcId = string | number | null
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: { code: number; message: string; data?: unknown } }
+
+export type McpContext = {
+  // API key owner; tools that write (scan_tokens, vote_token) require one
+  userId?: string | null
+  // Key the caller authenticated with: each tool call needs its mcp:<tool> scope
+  // and is logged against the key
+  apiKey?: ApiKeyPrincipal | null
+  // Version negotiated at initialize; newer response fields are left out for older clients
+  protocolVersion?: string | null
+}
+
+// JSON-RPC and MCP error codes
+export const JSON_RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  resourceNotFound: -32002
+} as const
+
+export class McpError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message)
+    this.name = 'McpError'
+  }
+}
+
+type ToolDefinition = {
+  name: string
+  title: string
+  description: string
+  schema: z.ZodType
+  readOnly: boolean
+  requiresAuth: boolean
+  metered?: boolean // Counts against the API key's monthly scan quota
+  call: (server: MCPServer, args: unknown, context: McpContext) => Promise<unknown>
+}
+
+function defineTool<S extends z.ZodType>(tool: Omit<ToolDefinition, 'schema' | 'call'> & {
+  schema: S
+  run: (server: MCPServer, params: z.infer<S>, context: McpContext) => Promise<unknown>
+}): ToolDefinition {
+  const { run, ...definition } = tool
+  return {
+    ...definition,
+    call: (server, args, context) => run(server, tool.schema.parse(args ?? {}), context)
+  }
+}
+
+const TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'scan_tokens',
+    title: 'Scan design tokens',
+    description: 'Scan a website and extract its design tokens (colors, typography, spacing, shadows, motion) as a W3C token set with an AI prompt pack',
+    schema: scanTokensSchema,
+    readOnly: false,
+    requiresAuth: true,
+    metered: true,
+    run: (server, params, context) => server.scanTokens(params, context.userId ?? undefined)
+  }),
+  defineTool({
+    name: 'get_tokens',
+    title: 'Get design tokens',
+    description: 'Get the latest published token set for a previously scanned website',
+    schema: getTokensSchema,
+    readOnly: true,
+    requiresAuth: false,
+    run: (server, params) => server.getTokens(params)
+  }),
+  defineTool({
+    name: 'layout_profile',
+    title: 'Get layout profile',
+    description: 'Get the layout DNA (containers, grid/flex usage, spacing scale, archetypes) of a scanned website',
+    schema: layoutProfileSchema,
+    readOnly: true,
+    requiresAuth: false,
+    run: (server, params) => server.layoutProfile(params)
+  }),
+  defineTool({
+    name: 'research_company_artifacts',
+    title: 'Research design system artifacts',
+    description: 'Find public design system documentation, Storybook, Figma and GitHub artifacts for a company website',
+    schema: researchCompanyArtifactsSchema,
+    readOnly: false,
+    requiresAuth: false,
+    run: (server, params) => server.researchCompanyArtifacts(params)
+  }),
+  defineTool({
+    name: 'compose_pack',
+    title: 'Compose prompt pack',
+    description: 'Compose implementation guidance (instructions, mapping hints, pitfalls) from a token set and optional layout profile',
+    schema: composePackSchema,
+    readOnly: true,
+    requiresAuth: false,
+    run: (server, params) => server.composePack(params)
+  }),
+  defineTool({
+    name: 'contrast_matrix',
+    title: 'Contrast matrix',
+    description: 'Score the foreground/background color pairs of a scanned website against WCAG 2.x and APCA, with the nearest passing OKLCH alternative for each failing pair',
+    schema: contrastMatrixSchema,
+    readOnly: true,
+    requiresAuth: false,
+    run: (server, params) => server.contrastMatrix(params)
+  }),
+  defineTool({
+    name: 'vote_token',
+    title: 'Vote on a token',
+    description: 'Record feedback on an extracted token (correct, alias, duplicate, low contrast, rename)',
+    schema: voteTokenSchema,
+    readOnly: false,
+    requiresAuth: true,
+    run: (server, params, context) => server.voteToken(params, context.userId!)
+  })
+]
+
+const SITE_TOKENS_TEMPLATE = 'contextds://sites/{domain}/tokens'
+const SITE_TOKENS_URI = /^contextds:\/\/sites\/([a-z0-9.-]+)\/tokens$/i
+const RESOURCES_PAGE_SIZE = 50
+
+type PromptDefinition = {
+  name: string
+  title: string
+  description: string
+  intent: 'component-authoring' | 'marketing-site'
+  task: string
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'component-authoring',
+    title: 'Build components with a site\'s design system',
+    description: 'Prime an agent with a scanned site\'s AI prompt pack to author UI components that use its tokens',
+    intent: 'component-authoring',
+    task: 'Build the requested components using only these tokens. Reference colors, spacing, radii and type stacks by their semantic names, respect the constraints block, and never hardcode values that have a token.'
+  },
+  {
+    name: 'marketing-site',
+    title: 'Build a marketing page in a site\'s style',
+    description: 'Prime an agent with a scanned site\'s AI prompt pack to lay out marketing pages that match its visual language',
+    intent: 'marketing-site',
+    task: 'Design the requested marketing page so it is indistinguishable from the source site: follow its layout patterns, spacing scale, type scale and color semantics, and keep text contrast at or above the stated minimum.'
+  }
+]
+
+/**
+ * Dispatches MCP JSON-RPC messages to MCPServer. Stateless: every transport
+ * creates one per connection (stdio) or per request (Streamable HTTP)
+ */
+export class McpProtocolHandler {
+  constructor(
+    private context: McpContext = {},
+    private server: MCPServer = new MCPServer()
+  ) {}
+
+  /**
+   * Handle one JSON-RPC message; returns null for notifications and responses
+   */
+  async handle(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!isRecord(message) || message.jsonrpc !== '2.0') {
+      return errorResponse(null, JSON_RPC_ERRORS.invalidRequest, 'Invalid JSON-RPC 2.0 message')
+    }
+
+    // Client responses (e.g. to pings) and notifications need no reply
+    if (typeof message.method !== 'string') return null
+    const isNotification = !('id' in message)
+    const id = isNotification ? null : (message.id as JsonRpcId)
+
+    try {
+      const result = await this.dispatch(message.method, isRecord(message.params) ? message.params : {})
+      return isNotification ? null : { jsonrpc: '2.0', id, result }
+    } catch (error) {
+      if (isNotification) return null
+
+      if (error instanceof McpError) {
+        return errorResponse(id, error.code, error.message, error.data)
+      }
+      if (error instanceof z.ZodError) {
+        return errorResponse(id, JSON_RPC_ERRORS.invalidParams, 'Invalid parameters', error.issues)
+      }
+
+      console.error(`[mcp] ${message.method} failed:`, error)
+      return errorResponse(id, JSON_RPC_ERRORS.internalError, error instanceof Error ? error.message : 'Internal error')
+    }
+  }
+
+  /**
+   * Handle a request body: one message, or a batch from clients on the 2025-03-26
+   * protocol. Returns null when only notifications or client responses were sent
+   */
+  async handleBody(body: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (!Array.isArray(body)) return this.handle(body)
+    if (body.length === 0) {
+      return errorResponse(null, JSON_RPC_ERRORS.invalidRequest, 'Empty batch')
+    }
+
+    const responses = (await Promise.all(body.map(message => this.handle(message))))
+      .filter((response): response is JsonRpcResponse => response !== null)
+    return responses.length > 0 ? responses : null
+  }
+
+  /**
+   * Whether the negotiated protocol version has a response field; the latest
+   * version is assumed until a client says otherwise
+   */
+  private supports(feature: ProtocolFeature): boolean {
+    return (this.context.protocolVersion ?? MCP_PROTOCOL_VERSION) >= PROTOCOL_FEATURES[feature]
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    const titles = this.supports('titles')
+
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params)
+      case 'ping':
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {}
+      case 'tools/list':
+        return { tools: TOOLS.map(tool => this.describeTool(tool)) }
+      case 'tools/call':
+        return this.callTool(params)
+      case 'resources/list':
+        return this.listResources(params)
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: [{
+            uriTemplate: SITE_TOKENS_TEMPLATE,
+            name: 'site-tokens',
+            title: titles ? 'Site design tokens' : undefined,
+            description: 'Latest W3C design token set for a scanned domain',
+            mimeType: 'application/json'
+          }]
+        }
+      case 'resources/read':
+        return this.readResource(params)
+      case 'prompts/list':
+        return {
+          prompts: PROMPTS.map(prompt => ({
+            name: prompt.name,
+            title: titles ? prompt.title : undefined,
+            description: prompt.description,
+            arguments: [
+              { name: 'domain', description: 'Scanned domain whose design system to use (e.g. stripe.com)', required: true },
+              { name: 'brief', description: 'What to build', required: false }
+            ]
+          }))
+        }
+      case 'prompts/get':
+        return this.getPrompt(params)
+      default:
+        throw new McpError(JSON_RPC_ERRORS.methodNotFound, `Method not found: ${method}`)
+    }
+  }
+
+  private initialize(params: Record<string, unknown>) {
+    const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : MCP_PROTOCOL_VERSION
+    this.context.protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION
+
+    return {
+      protocolVersion: this.context.protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { listChanged: false },
+        prompts: { listChanged: false }
+      },
+      serverInfo: {
+        name: 'contextds',
+        title: this.supports('titles') ? 'ContextDS' : undefined,
+        version: '1.0.0'
+      },
+      instructions: 'Use get_tokens or the contextds://sites/{domain}/tokens resources for sites that were already scanned, and scan_tokens for new ones. The component-authoring and marketing-site prompts load a site\'s AI prompt pack.'
+    }
+  }
+
+  private async callTool(params: Record<string, unknown>) {
+    const tool = TOOLS.find(candidate => candidate.name === params.name)
+    if (!tool) {
+      throw new McpError(JSON_RPC_ERRORS.invalidParams, `Unknown tool: ${String(params.name)}`)
+    }
+
+    if (tool.requiresAuth && !this.context.userId) {
+      return this.toolResult({ error: `${tool.name} requires an API key` }, true)
+    }
+
+    const apiKey = this.context.apiKey
+    if (!apiKey) {
+      const result = await tool.call(this.server, params.arguments, this.context)
+      return this.toolResult(result, isToolError(result))
+    }
+
+    const scope = `mcp:${tool.name}`
+    if (!hasScope(apiKey.scopes, scope)) {
+      return this.toolResult({ error: `API key is missing the ${scope} scope` }, true)
+    }
+
+    // Metered scans are counted when reserved and handed back if they fail
+    let usageId: string | null = null
+    if (tool.metered) {
+      const reservation = await reserveScanQuota(apiKey)
+      if (!reservation.ok) {
+        const { quota } = reservation
+        return this.toolResult({ error: 'Monthly scan quota exceeded', quota: quota.limit, used: quota.used, resetsAt: quota.resetsAt.toISOString() }, true)
+      }
+      usageId = reservation.usageId
+    }
+
+    const startedAt = Date.now()
+    try {
+      const result = await tool.call(this.server, params.arguments, this.context)
+      const isError = isToolError(result)
+      if (!usageId) {
+        await recordApiKeyUsage(apiKey, { tool: tool.name, success: !isError, latency: Date.now() - startedAt })
+      } else if (isError) {
+        await releaseScanQuota(usageId)
+      }
+      return this.toolResult(result, isError)
+    } catch (error) {
+      if (usageId) {
+        await releaseScanQuota(usageId, error instanceof Error ? error.name : 'Error')
+        throw error
+      }
+      await recordApiKeyUsage(apiKey, {
+        tool: tool.name,
+        success: false,
+        latency: Date.now() - startedAt,
+        errorType: error instanceof Error ? error.name : 'Error'
+      })
+      throw error
+    }
+  }
+
+  private async listResources(params: Record<string, unknown>) {
+    const offset = typeof params.cursor === 'string' ? Math.max(0, parseInt(params.cursor, 10) || 0) : 0
+
+    const rows = await db.execute(sql`
+      SELECT s.domain, s.title, MAX(ts.created_at) AS "updatedAt"
+      FROM sites s
+      INNER JOIN token_sets ts ON ts.site_id = s.id AND ts.is_public = TRUE
+      WHERE s.owner_optout = FALSE
+      GROUP BY s.id, s.domain, s.title, s.popularity
+      ORDER BY s.popularity DESC, s.domain
+      LIMIT ${RESOURCES_PAGE_SIZE + 1}
+      OFFSET ${offset}
+    `) as unknown as Array<{ domain: string; title: string | null; updatedAt: string | Date }>
+
+    return {
+      resources: rows.slice(0, RESOURCES_PAGE_SIZE).map(row => ({
+        uri: siteTokensUri(row.domain),
+        name: row.domain,
+        title: this.supports('titles') ? row.title || `${row.domain} design tokens` : undefined,
+        description: `Latest W3C design token set extracted from ${row.domain}`,
+        mimeType: 'application/json',
+        annotations: { lastModified: new Date(row.updatedAt).toISOString() }
+      })),
+      nextCursor: rows.length > RESOURCES_PAGE_SIZE ? String(offset + RESOURCES_PAGE_SIZE) : undefined
+    }
+  }
+
+  private async readResource(params: Record<string, unknown>) {
+    const uri = typeof params.uri === 'string' ? params.uri : ''
+    const match = uri.match(SITE_TOKENS_URI)
+    if (!match) {
+      throw new McpError(JSON_RPC_ERRORS.resourceNotFound, 'Resource not found', { uri })
+    }
+
+    const tokens = await this.loadSiteTokens(match[1], uri)
+
+    return {
+      contents: [{
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(tokens.tokenSet, null, 2)
+      }]
+    }
+  }
+
+  private async getPrompt(params: Record<string, unknown>) {
+    const prompt = PROMPTS.find(candidate => candidate.name === params.name)
+    if (!prompt) {
+      throw new McpError(JSON_RPC_ERRORS.invalidParams, `Unknown prompt: ${String(params.name)}`)
+    }
+
+    const args = isRecord(params.arguments) ? params.arguments : {}
+    const domain = typeof args.domain === 'string' ? normalizeDomain(args.domain) : ''
+    if (!domain) {
+      throw new McpError(JSON_RPC_ERRORS.invalidParams, 'Missing required argument: domain')
+    }
+
+    const uri = siteTokensUri(domain)
+    const { tokenSet } = await this.loadSiteTokens(domain, uri)
+    const pack = buildAiPromptPack(toExtractionResult(tokenSet), { domain, url: `https://${domain}` })
+    const brief = typeof args.brief === 'string' && args.brief.trim() ? `\n\nTask: ${args.brief.trim()}` : ''
+
+    return {
+      description: `${prompt.title} (${domain})`,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `You are working with the ${domain} design system (intent: ${prompt.intent}). Its AI prompt pack is below; the full token set is available as ${uri}.\n\n${prompt.task}${brief}\n\n\`\`\`json\n${JSON.stringify(pack)}\n\`\`\``
+          }
+        },
+        // Older clients only get the URI in the text above
+        ...(this.supports('resourceLinks')
+          ? [{
+              role: 'user',
+              content: {
+                type: 'resource_link',
+                uri,
+                name: domain,
+                mimeType: 'application/json'
+              }
+            }]
+          : [])
+      ]
+    }
+  }
+
+  private async loadSiteTokens(domain: string, uri: string): Promise<{ tokenSet: W3CTokenSet }> {
+    const host = normalizeDomain(domain)
+
+    // Sites whose owner opted out are not served as resources or prompt context
+    const [site] = await db.execute(sql`
+      SELECT s.id FROM sites s
+      WHERE s.domain = ${host} AND s.owner_optout = FALSE
+      LIMIT 1
+    `) as unknown as Array<{ id: string }>
+    if (!site) {
+      throw new McpError(JSON_RPC_ERRORS.resourceNotFound, `No tokens found for ${domain}`, { uri })
+    }
+
+    const result = await this.server.getTokens({ url: `https://${host}` })
+
+    if (!isRecord(result) || !isRecord(result.token_set)) {
+      throw new McpError(JSON_RPC_ERRORS.resourceNotFound, `No tokens found for ${domain}`, { uri })
+    }
+
+    return { tokenSet: result.token_set as W3CTokenSet }
+  }
+
+  private describeTool(tool: ToolDefinition) {
+    // MCP tool input schemas are plain objects without the draft URI
+    const inputSchema = z.toJSONSchema(tool.schema, { io: 'input' })
+    delete inputSchema.$schema
+
+    return {
+      name: tool.name,
+      title: this.supports('titles') ? tool.title : undefined,
+      description: tool.requiresAuth ? `${tool.description}. Requires an API key.` : tool.description,
+      inputSchema,
+      annotations: this.supports('toolAnnotations')
+        ? { title: tool.title, readOnlyHint: tool.readOnly, openWorldHint: true }
+        : undefined
+    }
+  }
+
+  private toolResult(result: unknown, isError: boolean) {
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: this.supports('structuredContent') && isRecord(result) ? result : undefined,
+      isError
+    }
+  }
+}
+
+function isToolError(result: unknown): boolean {
+  return isRecord(result) && ('error' in result || result.status === 'failed')
+}
+
+/**
+ * Stored token sets do not keep extraction insights; rebuild the summary and let
+ * buildAiPromptPack fall back to its defaults for the rest
+ */
+function toExtractionResult(tokenSet: W3CTokenSet): TokenExtractionResult {
+  const byCategory: Record<string, number> = {}
+  Object.entries(tokenSet).forEach(([category, group]) => {
+    if (category.startsWith('$') || !isRecord(group)) return
+    byCategory[category] = Object.keys(group).length
+  })
+
+  return {
+    tokenSet,
+    summary: {
+      totalTokens: Object.values(byCategory).reduce((sum, count) => sum + count, 0),
+      byCategory,
+      confidence: 0,
+      quality: 0
+    },
+    insights: {
+      colorPalette: { dominant: [], accent: [], neutral: [] },
+      typeScale: { min: 0, max: 0, scale: '' },
+      spacingSystem: { base: 0, scale: '' }
+    }
+  }
+}
+
+function siteTokensUri(domain: string): string {
+  return SITE_TOKENS_TEMPLATE.replace('{domain}', domain)
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '')
+}
+
+function errorResponse(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -1,7 +1,11 @@
 import { z } from 'zod'
-import { db, sites, scans, tokenSets, layoutProfiles, queryWithMetrics } from '../db'
+import { db, sites, tokenSets, queryWithMetrics } from '../db'
 import { eq, desc, and, or, sql } from 'drizzle-orm'
+import { getScanRepository } from '../db/repositories'
+import { assertScanAllowed } from '../compliance/site-ownership'
 import { intelligentCache } from '../cache/intelligent-cache'
+import { buildContrastMatrix } from '../analyzers/contrast-matrix'
+import type { W3CTokenSet } from '../analyzers/w3c-tokenizer'
 
 // Dynamic imports for AI features to prevent build-time errors
 
@@ -37,6 +41,12 @@ export const composePackSchema = z.object({
   intent: z.enum(['component-authoring', 'marketing-site']).optional()
 })
 
+export const contrastMatrixSchema = z.object({
+  url: z.string().url(),
+  target: z.enum(['AA', 'AAA']).optional().default('AA'),
+  pairing: z.enum(['observed', 'all']).optional().default('observed')
+})
+
 export const voteTokenSchema = z.object({
   token_set_id: z.string().uuid(),
   token_key: z.string(),
@@ -49,6 +59,7 @@ export class MCPServer {
   async scanTokens(params: z.infer<typeof scanTokensSchema>, userId?: string) {
     try {
       const domain = new URL(params.url).hostname
+      await assertScanAllowed(getScanRepository(), domain)
 
       // Check cache first
       const cacheKey = `mcp-scan:${domain}:${JSON.stringify(params)}`
@@ -249,6 +260,22 @@ export class MCPServer {
     }
   }
 
+  async contrastMatrix(params: z.infer<typeof contrastMatrixSchema>) {
+    const tokens = await this.getTokens({ url: params.url })
+    if ('error' in tokens) return tokens
+
+    const matrix = buildContrastMatrix(tokens.token_set as W3CTokenSet, {
+      target: params.target,
+      pairing: params.pairing
+    })
+
+    return {
+      domain: new URL(params.url).hostname,
+      token_set_id: tokens.metadata.tokenSetId,
+      ...matrix
+    }
+  }
+
   async researchCompanyArtifacts(params: z.infer<typeof researchCompanyArtifactsSchema>) {
     try {
       const domain = new URL(params.url).hostname
@@ -444,37 +471,39 @@ The site uses a ${params.layout_profile?.containers?.maxWidth || 'unknown'} max-
   private async upsertSite(domain: string, result: any): Promise<any> {
     return queryWithMetrics(async () => {
       try {
-        // Check if site exists using optimized query
-        const existing = await db.select()
-          .from(sites)
-          .where(eq(sites.domain, domain))
-          .limit(1)
+        const repository = getScanRepository()
+        const existing = await repository.sites.findByDomain(domain)
 
-        if (existing.length > 0) {
+        if (existing) {
           // Update existing site with performance data
-          const [updatedSite] = await db.update(sites).set({
+          const updatedSite = {
+            ...existing,
             lastScanned: new Date(),
-            popularity: existing[0].popularity + 1,
-            title: result.brandAnalysis?.identity?.name || existing[0].title,
-            status: 'completed',
-            updatedAt: new Date()
-          }).where(eq(sites.id, existing[0].id)).returning()
+            popularity: existing.popularity + 1,
+            title: result.brandAnalysis?.identity?.name || existing.title,
+            status: 'completed' as const
+          }
+          await repository.sites.update(existing.id, {
+            lastScanned: updatedSite.lastScanned,
+            popularity: updatedSite.popularity,
+            title: updatedSite.title,
+            status: updatedSite.status
+          })
 
           console.log(`🔄 Updated site: ${domain} (popularity: ${updatedSite.popularity})`)
           return updatedSite
         } else {
           // Create new site with comprehensive data
-          const [newSite] = await db.insert(sites).values({
+          const newSite = await repository.sites.create({
             domain,
             title: result.brandAnalysis?.identity?.name || `${domain.charAt(0).toUpperCase() + domain.slice(1)} Design System`,
             description: `Design tokens and layout patterns extracted from ${domain}`,
             robotsStatus: 'allowed',
             status: 'completed',
-            firstSeen: new Date(),
             lastScanned: new Date(),
             popularity: 1,
             favicon: `https://${domain}/favicon.ico`
-          }).returning()
+          })
 
           console.log(`✨ Created new site: ${domain}`)
           return newSite
@@ -489,20 +518,22 @@ The site uses a ${params.layout_profile?.containers?.maxWidth || 'unknown'} max-
   private async storeScanResult(siteId: string, result: any, userId?: string): Promise<void> {
     return queryWithMetrics(async () => {
       try {
+        const repository = getScanRepository()
+
         // Create comprehensive scan record
-        const [scanRecord] = await db.insert(scans).values({
+        const scanRecord = await repository.scans.create({
           siteId,
           method: 'computed',
           startedAt: new Date(Date.now() - (result.extractionMetadata?.extractionTime || 5000)),
           finishedAt: new Date(),
           cssSourceCount: result.extractionMetadata?.strategiesUsed?.length || 6,
           prettify: false
-        }).returning()
+        })
 
         console.log(`📝 Created scan record: ${scanRecord.id}`)
 
         // Store W3C token set with AI enhancements
-        const [tokenSetRecord] = await db.insert(tokenSets).values({
+        const tokenSetRecord = await repository.tokenSets.create({
           siteId,
           scanId: scanRecord.id,
           tokensJson: result.tokenSet,
@@ -513,14 +544,14 @@ The site uses a ${params.layout_profile?.containers?.maxWidth || 'unknown'} max-
           },
           consensusScore: ((result.confidence || 80) / 100).toString(),
           isPublic: true,
-          createdBy: userId
-        }).returning()
+          createdBy: userId ?? null
+        })
 
         console.log(`🎨 Stored token set: ${tokenSetRecord.id} (${result.confidence}% confidence)`)
 
         // Store layout DNA profile if available
         if (result.layoutDNA) {
-          await db.insert(layoutProfiles).values({
+          await repository.layoutProfiles.create({
             siteId,
             scanId: scanRecord.id,
             profileJson: result.layoutDNA,
@@ -535,10 +566,10 @@ The site uses a ${params.layout_profile?.containers?.maxWidth || 'unknown'} max-
         }
 
         // Update site with latest scan data
-        await db.update(sites).set({
+        await repository.sites.update(siteId, {
           lastScanned: new Date(),
           status: 'completed'
-        }).where(eq(sites.id, siteId))
+        })
 
         console.log(`✅ Scan storage completed for ${siteId}`)
 
@@ -616,7 +647,7 @@ The site uses a ${params.layout_profile?.containers?.maxWidth || 'unknown'} max-
         eq(tokenSets.siteId, siteId),
         eq(tokenSets.isPublic, true)
       ))
-      .orderBy(desc(tokenSets.createdAt))
+      .orderBy(desc(tokenSets.isOfficial), desc(tokenSets.createdAt)) // Owner-published sets outrank crawled ones
       .limit(1)
 
       return results[0] || null
@@ -0,0 +1,44 @@
+/**
+ * MCP stdio transport
+ * Newline-delimited JSON-RPC on stdin/stdout. stdout carries protocol messages only,
+ * so all logging is redirected to stderr while the transport runs
+ */
+
+import { createInterface } from 'readline'
+import { McpProtocolHandler, JSON_RPC_ERRORS, type JsonRpcResponse } from './protocol'
+
+export async function runStdioTransport(
+  handler: McpProtocolHandler,
+  streams: { input: NodeJS.ReadableStream; output: NodeJS.WritableStream } = { input: process.stdin, output: process.stdout }
+): Promise<void> {
+  console.log = console.error
+  console.info = console.error
+
+  const write = (response: JsonRpcResponse) => {
+    streams.output.write(`${JSON.stringify(response)}\n`)
+  }
+
+  const lines = createInterface({ input: streams.input, crlfDelay: Infinity })
+  const pending = new Set<Promise<void>>()
+
+  for await (const line of lines) {
+    if (!line.trim()) continue
+
+    let message: unknown
+    try {
+      message = JSON.parse(line)
+    } catch {
+      write({ jsonrpc: '2.0', id: null, error: { code: JSON_RPC_ERRORS.parseError, message: 'Parse error' } })
+      continue
+    }
+
+    // Requests run concurrently so a long scan does not block pings or reads
+    const task = handler.handle(message).then(response => {
+      if (response) write(response)
+    })
+    pending.add(task)
+    task.finally(() => pending.delete(task))
+  }
+
+  await Promise.all(pending)
+}
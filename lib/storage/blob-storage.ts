@@ -41,6 +41,85 @@ export async function uploadScreenshot(
   }
 }
 
+/**
+ * Upload a visual diff image (PNG) between two scans' screenshots
+ */
+export async function uploadScreenshotDiff(options: {
+  baseScanId: string
+  targetScanId: string
+  viewport: string
+  buffer: Buffer
+}): Promise<UploadScreenshotResult> {
+  const { baseScanId, targetScanId, viewport, buffer } = options
+
+  // Stored under the newer scan so deleteScreenshotsByScan removes it too
+  const pathname = `screenshots/${targetScanId}/diff-${baseScanId}-${viewport}.png`
+
+  const blob = await put(pathname, buffer, {
+    access: 'public',
+    contentType: 'image/png',
+    addRandomSuffix: false,
+    allowOverwrite: true,
+  })
+
+  return {
+    url: blob.url,
+    path: pathname,
+    size: buffer.length,
+  }
+}
+
+/**
+ * Upload an element screenshot showing a component in one interaction state
+ */
+export async function uploadStateEvidence(options: {
+  scanId: string
+  name: string // e.g. button-primary-hover
+  buffer: Buffer
+}): Promise<UploadScreenshotResult> {
+  const { scanId, name, buffer } = options
+
+  // Stored under the scan so deleteScreenshotsByScan removes it too
+  const pathname = `screenshots/${scanId}/state-${name}.jpg`
+
+  const blob = await put(pathname, buffer, {
+    access: 'public',
+    contentType: 'image/jpeg',
+    addRandomSuffix: false,
+    allowOverwrite: true,
+  })
+
+  return {
+    url: blob.url,
+    path: pathname,
+    size: buffer.length,
+  }
+}
+
+/**
+ * Upload a scan's HAR archive so the scan can be replayed later
+ */
+export async function uploadScanArchive(options: {
+  scanId: string
+  har: unknown
+}): Promise<UploadScreenshotResult> {
+  const buffer = Buffer.from(JSON.stringify(options.har), 'utf8')
+  const pathname = `archives/${options.scanId}.har`
+
+  const blob = await put(pathname, buffer, {
+    access: 'public',
+    contentType: 'application/json',
+    addRandomSuffix: false,
+    allowOverwrite: true,
+  })
+
+  return {
+    url: blob.url,
+    path: pathname,
+    size: buffer.length,
+  }
+}
+
 /**
  * Upload multiple screenshots in parallel
  */
@@ -1,14 +1,15 @@
 import { createHash } from 'crypto'
 import { captureScreenshot } from './screenshot'
 import { uploadScreenshot } from '@/lib/storage/blob-storage'
-import { db, screenshots, screenshotContent } from '@/lib/db'
+import { db, screenshots, screenshotContent, screenshotHistory } from '@/lib/db'
 import { eq, sql } from 'drizzle-orm'
+import { VIEWPORT_SIZES, type ViewportName } from '@/lib/analyzers/responsive-tokens'
 
 interface CaptureScreenshotsOptions {
   url: string
   siteId: string
   scanId: string
-  viewports?: ('mobile' | 'tablet' | 'desktop')[]
+  viewports?: ViewportName[]
   fullPage?: boolean
   selector?: string
   label?: string
@@ -37,11 +38,7 @@ export async function captureScreenshotsForScan(
   // Capture screenshots for each viewport
   for (const viewport of viewports) {
     try {
-      const viewportSize = {
-        mobile: { width: 375, height: 667 },
-        tablet: { width: 768, height: 1024 },
-        desktop: { width: 1920, height: 1080 },
-      }[viewport]
+      const viewportSize = VIEWPORT_SIZES[viewport]
 
       console.log(`[screenshot-capture] Capturing ${viewport} screenshot...`)
 
@@ -138,6 +135,15 @@ export async function captureScreenshotsForScan(
           },
         })
 
+      // Keep this scan's capture for visual diffs against later scans
+      await db
+        .insert(screenshotHistory)
+        .values({ siteId, scanId, sha, viewport })
+        .onConflictDoUpdate({
+          target: [screenshotHistory.scanId, screenshotHistory.viewport],
+          set: { sha, capturedAt: sql`NOW()` },
+        })
+
       results.push({
         viewport,
         url: screenshotUrl,
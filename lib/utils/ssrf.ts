@@ -0,0 +1,126 @@
+/**
+ * SSRF protection for user-supplied URLs
+ * Shared by the scan endpoint and anything else that fetches URLs on a user's behalf
+ */
+
+import { promises as dns } from 'dns'
+
+/**
+ * Check if an IP address is in a private range
+ */
+function isPrivateIP(ip: string): boolean {
+  const parts = ip.split('.').map(Number)
+  if (parts.length !== 4 || parts.some(p => isNaN(p) || p < 0 || p > 255)) {
+    return true // Invalid IP, treat as private
+  }
+
+  return (
+    parts[0] === 10 ||
+    parts[0] === 127 ||
+    (parts[0] === 172 && parts[1] >= 16 && parts[1] <= 31) ||
+    (parts[0] === 192 && parts[1] === 168) ||
+    parts[0] === 0 ||
+    (parts[0] === 169 && parts[1] === 254) || // Link-local
+    parts[0] === 255 // Broadcast
+  )
+}
+
+/**
+ * Check if an IPv6 address is in a private range
+ */
+function isPrivateIPv6(ip: string): boolean {
+  const lower = ip.toLowerCase()
+  return (
+    lower === '::1' ||
+    lower.startsWith('::1') || // Loopback
+    lower.startsWith('fe80:') || // Link-local
+    lower.startsWith('fc00:') || // Unique local
+    lower.startsWith('fd00:') // Unique local
+  )
+}
+
+/**
+ * Validate URL is not targeting private/internal resources
+ */
+export async function validateSSRF(url: URL): Promise<string | null> {
+  const hostname = url.hostname
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80')
+
+  // Block localhost and loopback
+  if (hostname === 'localhost' || hostname === '::1' || hostname.startsWith('127.')) {
+    return 'Cannot scan localhost or loopback addresses'
+  }
+
+  // Check if hostname is an IP address (not a domain name)
+  // Only validate IP format if it looks like an IP address
+  const isIPv4Format = /^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(hostname)
+  const isIPv6Format = hostname.includes(':')
+
+  // Block private IP ranges if hostname is an IP address
+  if (isIPv4Format && isPrivateIP(hostname)) {
+    return 'Cannot scan private IP addresses'
+  }
+
+  if (isIPv6Format && isPrivateIPv6(hostname)) {
+    return 'Cannot scan private IPv6 addresses'
+  }
+
+  // Block non-standard ports (only allow 80, 443, 8080)
+  const allowedPorts = ['80', '443', '8080']
+  if (!allowedPorts.includes(port)) {
+    return 'Only standard HTTP/HTTPS ports (80, 443, 8080) are allowed'
+  }
+
+  // Block cloud metadata endpoints
+  const blockedHosts = [
+    '169.254.169.254', // AWS metadata
+    'metadata.google.internal', // GCP
+    'metadata.azure.com', // Azure
+  ]
+  if (blockedHosts.some(blocked => hostname.includes(blocked))) {
+    return 'Cannot scan cloud metadata endpoints'
+  }
+
+  // Resolve DNS for both IPv4 and IPv6
+  try {
+    const [ipv4Result, ipv6Result] = await Promise.allSettled([
+      dns.resolve4(hostname),
+      dns.resolve6(hostname)
+    ])
+
+    // Check IPv4 addresses
+    if (ipv4Result.status === 'fulfilled') {
+      console.log('🔍 DNS resolved IPv4 for', hostname, ':', ipv4Result.value)
+      for (const ip of ipv4Result.value) {
+        const isPrivate = isPrivateIP(ip)
+        console.log('  IPv4:', ip, '- Private?', isPrivate)
+        if (isPrivate) {
+          return 'Domain resolves to private IP address'
+        }
+      }
+    }
+
+    // Check IPv6 addresses
+    if (ipv6Result.status === 'fulfilled') {
+      console.log('🔍 DNS resolved IPv6 for', hostname, ':', ipv6Result.value)
+      for (const ip of ipv6Result.value) {
+        const isPrivate = isPrivateIPv6(ip)
+        console.log('  IPv6:', ip, '- Private?', isPrivate)
+        if (isPrivate) {
+          return 'Domain resolves to private IPv6 address'
+        }
+      }
+    }
+
+    // If both DNS resolutions failed, reject
+    if (ipv4Result.status === 'rejected' && ipv6Result.status === 'rejected') {
+      console.warn('⚠️ Both IPv4 and IPv6 DNS resolution failed for', hostname)
+      return 'DNS resolution failed - domain may be invalid'
+    }
+  } catch (error) {
+    console.warn('⚠️ DNS resolution error for', hostname, error)
+    return 'DNS resolution failed - domain may be invalid'
+  }
+
+  return null // Valid
+}
@@ -30,11 +30,12 @@ export class ProgressEmitter {
   private scanId: string
   private startTime: number
   private currentStep: number = 0
-  private totalSteps: number = 16
+  private totalSteps: number
 
-  constructor(scanId: string) {
+  constructor(scanId: string, totalSteps: number = 16) {
     this.scanId = scanId
     this.startTime = Date.now()
+    this.totalSteps = totalSteps
   }
 
   emit(event: Omit<ProgressEvent, 'scanId' | 'timestamp'>) {
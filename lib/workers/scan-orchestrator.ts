@@ -1,7 +1,9 @@
-import { db, sites, scans, tokenSets, cssSources, cssContent, layoutProfiles, tokenVersions, tokenChanges } from '@/lib/db'
-import { eq, desc } from 'drizzle-orm'
-import { collectStaticCss, type CssSource } from '@/lib/extractors/static-css'
+import { indexSiteColors } from '@/lib/db/color-index'
+import { indexSiteFingerprint } from '@/lib/db/design-fingerprints'
+import { getScanRepository, type ScanRepository } from '@/lib/db/repositories'
+import { collectStaticCss } from '@/lib/extractors/static-css'
 import { collectComputedCss } from '@/lib/extractors/computed-css'
+import { crawlSite, type CrawlDepth, type CrawlResult } from '@/lib/extractors/site-crawler'
 import { generateTokenSet as generateTokenSetLegacy, hashTokenSet } from '@/lib/analyzers/basic-tokenizer'
 import { extractW3CTokens, hashTokenSet as hashW3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
 import { buildAiPromptPack } from '@/lib/analyzers/ai-prompt-pack'
@@ -10,9 +12,31 @@ import { generateDesignInsights } from '@/lib/ai/design-insights'
 import { analyzeDesignSystemComprehensive } from '@/lib/ai/comprehensive-analyzer'
 import { analyzeLayout } from '@/lib/analyzers/layout-inspector'
 import { buildPromptPack } from '@/lib/analyzers/prompt-pack'
-import { compareTokenSets } from '@/lib/analyzers/version-diff'
+import { compareTokenSets, type TokenDiff } from '@/lib/analyzers/version-diff'
+import { annotatePageUsage, type PageUsageSummary } from '@/lib/analyzers/page-usage'
+import { annotateResponsiveTokens } from '@/lib/analyzers/responsive-tokens'
+import { annotateStateTokens, applyCapturedStates, type StateCapture } from '@/lib/analyzers/interaction-states'
 import { collectLayoutWireframe } from '@/lib/analyzers/layout-wireframe'
+import type { AccessibilityAnalysis } from '@/lib/analyzers/accessibility-analyzer'
+import {
+  createRecordingFetcher,
+  createReplayFetcher,
+  parseScanArchive,
+  ScanArchiveNotFoundError,
+  type ScanFetcher
+} from '@/lib/extractors/scan-archive'
+import {
+  redactScanSecrets,
+  ScanStepError,
+  SCAN_STEPS_TIMEOUT,
+  sessionRequestHeaders,
+  summarizeScanSession
+} from '@/lib/extractors/scan-session'
+import { loadScanSession } from '@/lib/auth/scan-profiles'
+import { uploadScanArchive, uploadStateEvidence } from '@/lib/storage/blob-storage'
+import { dedupeCssSources, getCurationLimits, LARGE_SITE_THRESHOLD } from './token-pipeline'
 import { MetricsCollector } from '@/lib/observability/metrics'
+import type { ProgressEmitter } from './progress-emitter'
 import { analyzeBrand } from '@/lib/analyzers/brand-analyzer'
 import { extractComponents, type ComponentLibrary } from '@/lib/analyzers/component-extractor'
 import { detectComponents, type ComponentLibrary as AdvancedComponentLibrary } from '@/lib/analyzers/advanced-component-detector'
@@ -21,14 +45,8 @@ import { detectLogo, downloadLogoAsBase64 } from '@/lib/utils/logo-detector'
 import { withTimeout, createMemoryLimit, createCircuitBreaker, createProgressiveScanner } from '@/lib/utils/resilience'
 import { ultraProfiler, profile, profileAsync } from '@/lib/utils/ultra-profiler'
 import { ultraCache, getCachedScan, cacheScanResult, type CacheKey } from '@/lib/cache/ultra-cache'
-import {
-  findSiteByDomain,
-  getLatestTokenSet,
-  bulkInsertCssContent,
-  batchInsertCssSources,
-  completeScanTransaction,
-  getDatabaseMetrics
-} from '@/lib/db/optimizations'
+import { getDatabaseMetrics } from '@/lib/db/optimizations'
+import { assertScanAllowed } from '@/lib/compliance/site-ownership'
 import {
   executeInParallel,
   ultraFetch,
@@ -43,13 +61,27 @@ export type ScanJobInput = {
   mode?: 'fast' | 'accurate'  // fast = static only, accurate = full scan
   memoryLimitMb?: number // Custom memory limit
   timeoutMs?: number // Custom timeout
+  depth?: CrawlDepth // 1 = single page, 2-3 = follow same-origin links
+  maxPages?: number // Page budget for crawl mode
+  skipCache?: boolean // Always run a fresh scan (scheduled re-scans)
+  onlyIfChanged?: boolean // Don't store a new version when the token digest matches the latest one
+  progress?: ProgressEmitter // Phase events for queued scans (SCAN_PROGRESS_PHASES steps)
+  recordArchive?: boolean // Store a HAR of every request; defaults to SCAN_ARCHIVE_ENABLED=1
+  replayScanId?: string // Serve every request from that scan's archive instead of the network
+  profileId?: string // Scan profile (cookies, headers, login steps) to scan with; never cached or archived
+  requestedBy?: string | null // User the scan runs for; owns the private token set of a replay
+  signal?: AbortSignal // Queued job cancelled or lease lost; checked between phases and before the token set is stored
 }
 
+// Number of progress.phase() calls a full scan makes
+export const SCAN_PROGRESS_PHASES = 5
+
 // BULLETPROOF LIMITS for scan orchestrator
 const MAX_SCAN_MEMORY = 150 * 1024 * 1024 // 150MB total scan memory
 const MAX_SCAN_TIMEOUT = 60000 // 60s total scan timeout
 const FAST_SCAN_TIMEOUT = 30000 // 30s for fast mode
-const LARGE_SITE_THRESHOLD = 50 // 50+ CSS files = large site
+const CRAWL_SCAN_TIMEOUT = 120000 // 120s when crawling multiple pages
+const CRAWL_TIMEOUT = 60000 // 60s budget for the crawl itself
 
 // Circuit breakers for different operations
 const tokenGenerationBreaker = createCircuitBreaker({
@@ -79,6 +111,16 @@ export type ScanJobResult = {
   layoutDNA: ReturnType<typeof analyzeLayout>
   promptPack: ReturnType<typeof buildPromptPack>
   brandAnalysis: ReturnType<typeof buildBrandAnalysis>
+  versionInfo: {
+    versionNumber: number
+    isNewVersion: boolean
+    previousVersionNumber?: number
+    changed: boolean
+    tokenHash: string
+    tokenVersionId: string | null
+    changeCount: number
+    diff: TokenDiff | null
+  }
   metadata: {
     cssSources: number
     staticCssSources: number
@@ -106,37 +148,76 @@ export async function runScanJob({
   includeComputed,
   mode = 'accurate',
   memoryLimitMb,
-  timeoutMs
+  timeoutMs,
+  depth = 1,
+  maxPages,
+  skipCache = false,
+  onlyIfChanged = false,
+  progress,
+  recordArchive,
+  replayScanId,
+  profileId,
+  requestedBy,
+  signal
 }: ScanJobInput): Promise<ScanJobResult> {
+  signal?.throwIfAborted()
+
   const normalized = url.startsWith('http') ? url : `https://${url}`
   const target = new URL(normalized)
   const domain = target.hostname
   const startedAt = Date.now()
   const metrics = new MetricsCollector()
+  const isCrawl = depth > 1
 
   // BULLETPROOF: Memory and timeout limits
   const memoryBytes = (memoryLimitMb ?? 150) * 1024 * 1024
-  const scanTimeout = timeoutMs ?? (mode === 'fast' ? FAST_SCAN_TIMEOUT : MAX_SCAN_TIMEOUT)
+  const scanTimeout = timeoutMs ?? (isCrawl ? CRAWL_SCAN_TIMEOUT : mode === 'fast' ? FAST_SCAN_TIMEOUT : MAX_SCAN_TIMEOUT)
   const memoryLimit = createMemoryLimit(memoryBytes)
+  const repository = getScanRepository()
+
+  // Owner opt-outs apply to cached results too
+  await assertScanAllowed(repository, domain)
 
-  console.log(`[scan-orchestrator] Starting ${mode} scan of ${domain} (memory: ${Math.round(memoryBytes/1024/1024)}MB, timeout: ${scanTimeout}ms)`)
+  // Pages behind a login belong to the profile owner: their token sets are stored
+  // private to the owner and kept out of the site's public versions, colour index
+  // and fingerprints; they skip the shared cache and scan archives, and the
+  // session's secrets are redacted from metrics
+  const scanProfile = profileId ? await loadScanSession(profileId, domain) : null
+  const session = scanProfile?.session ?? null
+  const sessionHeaders = session ? sessionRequestHeaders(session, normalized) : undefined
+  // Replays re-run an old archive; stored like profile scans (private, no version)
+  // they can't roll the site's latest tokens back or set off drift on its watches
+  const isPrivateScan = !!scanProfile || !!replayScanId
+  const privateOwner = scanProfile?.profile.userId ?? requestedBy ?? null
+
+  console.log(`[scan-orchestrator] Starting ${mode} scan of ${domain}${isCrawl ? ` (crawl depth ${depth})` : ''}${scanProfile ? ` with scan profile "${scanProfile.profile.name}"` : ''} (memory: ${Math.round(memoryBytes/1024/1024)}MB, timeout: ${scanTimeout}ms)`)
 
   // ULTRA-FAST CACHE CHECK (5-150ms vs 5000-15000ms full scan)
   const cacheParams: CacheKey = {
     url: normalized,
     mode,
     includeComputed,
-    version: '2.1.0'
+    version: '2.1.0',
+    depth
   }
 
-  const cachedResult = await profile('cache-lookup', () => getCachedScan(cacheParams))
+  // Replays and explicitly archived scans must actually fetch, and replays never feed the cache
+  const bypassCache = skipCache || !!replayScanId || recordArchive === true || !!scanProfile
+  const cachedResult = bypassCache ? null : await profile('cache-lookup', () => getCachedScan(cacheParams))
   if (cachedResult) {
     console.log(`⚡ ULTRA-FAST: Returning cached result for ${domain} (${cachedResult.cacheInfo.cacheHit})`)
+    progress?.phase('cache', `Using cached scan of ${domain}`)
     return cachedResult
   }
 
   console.log(`🔄 FULL SCAN: No cache hit, performing complete scan for ${domain}`)
 
+  const fetcher: ScanFetcher | undefined = replayScanId
+    ? createReplayFetcher(await loadScanArchive(repository, replayScanId))
+    : !scanProfile && (recordArchive ?? process.env.SCAN_ARCHIVE_ENABLED === '1')
+      ? createRecordingFetcher({ pageUrl: target.toString() })
+      : undefined
+
   // Start ultra performance profiling
   ultraProfiler.start()
 
@@ -148,48 +229,43 @@ export async function runScanJob({
 
     const siteRecord = await profile('ensure-site-ultra-fast', async () => {
       // Ultra-fast site lookup using hash index
-      let site = await findSiteByDomain(domain)
-
-      if (!site) {
-        // Create new site with single optimized query
-        const [newSite] = await db
-          .insert(sites)
-          .values({
-            domain,
-            title: `${domain} design system`,
-            description: `Design tokens extracted from ${domain}`,
-            robotsStatus: 'allowed',
-            status: 'scanning',
-            firstSeen: new Date(),
-            popularity: 0
-          })
-          .returning()
-        site = newSite
-      }
-
-      return site
+      const site = await repository.sites.findByDomain(domain)
+
+      return site ?? repository.sites.create({
+        domain,
+        title: `${domain} design system`,
+        description: `Design tokens extracted from ${domain}`,
+        robotsStatus: 'allowed',
+        status: 'scanning',
+        popularity: 0
+      })
     })
 
     // ULTRA-PARALLEL: Prepare parallel CSS collection and logo detection tasks
 
-    const [scanRecord] = await db
-      .insert(scans)
-      .values({
-        siteId: siteRecord.id,
-        method: actuallyIncludeComputed ? 'computed' : 'static',
-        prettify,
-        startedAt: new Date()
-      })
-      .returning()
+    const scanRecord = await repository.scans.create({
+      siteId: siteRecord.id,
+      method: actuallyIncludeComputed ? 'computed' : 'static',
+      prettify,
+      replayOfScanId: replayScanId ?? null,
+      startedAt: new Date()
+    })
 
     // ULTRA-PARALLEL: Execute CSS collection, logo detection, and initial analysis in parallel
     const cssCollectionTasks: ParallelTask<any>[] = [
-      {
-        name: 'collect-static-css',
-        task: () => collectStaticCss(target.toString()),
-        priority: 'critical',
-        timeout: 15000
-      }
+      isCrawl
+        ? {
+            name: 'crawl-site',
+            task: () => crawlSite(target.toString(), { depth, maxPages, timeoutMs: CRAWL_TIMEOUT, fetcher, headers: sessionHeaders }),
+            priority: 'critical',
+            timeout: CRAWL_TIMEOUT + 5000
+          }
+        : {
+            name: 'collect-static-css',
+            task: () => collectStaticCss(target.toString(), { fetcher, headers: sessionHeaders }),
+            priority: 'critical',
+            timeout: 15000
+          }
     ]
 
     // Add computed CSS task if needed
@@ -200,21 +276,27 @@ export async function runScanJob({
           try {
             return await collectComputedCss(target.toString(), {
               fastMode: isFastMode,
-              maxMemoryMb: Math.max(20, memoryLimit.remaining() / (1024 * 1024))
+              maxMemoryMb: Math.max(20, memoryLimit.remaining() / (1024 * 1024)),
+              analyzeAccessibility: !isFastMode,
+              responsive: !isFastMode,
+              interactionStates: !isFastMode,
+              fetcher,
+              session: session ?? undefined
             })
           } catch (error) {
+            if (error instanceof ScanStepError) throw error
             console.warn('[scan-orchestrator] Computed CSS collection failed:', error)
-            return { sources: [], computedStyles: [] }
+            return { sources: [], computedStyles: [], accessibility: null, responsive: null, interactionStates: [] }
           }
         },
         priority: 'high',
-        timeout: 20000,
+        timeout: (isFastMode ? 20000 : 26000) + (session?.steps.length ? SCAN_STEPS_TIMEOUT : 0), // Accurate scans also run the accessibility audit
         canFail: true
       })
     }
 
-    // Add logo detection task if needed
-    if (!siteRecord.favicon && !isFastMode) {
+    // Add logo detection task if needed (replays stay off the network)
+    if (!siteRecord.favicon && !isFastMode && !replayScanId) {
       cssCollectionTasks.push({
         name: 'detect-logo',
         task: async () => {
@@ -224,10 +306,7 @@ export async function runScanJob({
               const logoBase64 = await downloadLogoAsBase64(logoResult.logoUrl)
               if (logoBase64) {
                 memoryLimit.track(logoBase64.length)
-                await db
-                  .update(sites)
-                  .set({ favicon: logoBase64 })
-                  .where(eq(sites.id, siteRecord.id))
+                await repository.sites.update(siteRecord.id, { favicon: logoBase64 })
                 siteRecord.favicon = logoBase64
                 console.log(`[scan-orchestrator] Logo detected and stored from ${logoResult.source}`)
               }
@@ -245,6 +324,8 @@ export async function runScanJob({
     }
 
     // Execute all CSS collection tasks in parallel
+    signal?.throwIfAborted()
+    progress?.phase('collect', isCrawl ? `Crawling ${domain} (depth ${depth})` : `Collecting CSS from ${domain}`)
     console.log(`🚀 Executing ${cssCollectionTasks.length} CSS collection tasks in parallel`)
     const cssResults = await executeInParallel(cssCollectionTasks, {
       concurrency: 3,
@@ -253,11 +334,20 @@ export async function runScanJob({
       }
     })
 
+    // A scan profile whose login failed would otherwise store the login page's tokens
+    const computedError = cssResults.get('collect-computed-css')?.error
+    if (computedError instanceof ScanStepError) throw computedError
+
     // Extract results
-    const staticCss = cssResults.get('collect-static-css')?.result || []
-    const computedResult = cssResults.get('collect-computed-css')?.result || { sources: [], computedStyles: [] }
+    const crawlResult: CrawlResult | null = isCrawl ? cssResults.get('crawl-site')?.result || null : null
+    const staticCss = crawlResult
+      ? crawlResult.pages.flatMap(page => page.sources)
+      : cssResults.get('collect-static-css')?.result || []
+    const computedResult = cssResults.get('collect-computed-css')?.result || { sources: [], computedStyles: [], accessibility: null, responsive: null, interactionStates: [] }
     const computedCss = computedResult.sources || []
     const computedStyles = computedResult.computedStyles || []
+    const accessibilityAnalysis: AccessibilityAnalysis | null = computedResult.accessibility ?? null
+    const interactionStates: StateCapture[] = computedResult.interactionStates || []
 
     // Track memory usage
     const staticCssBytes = staticCss.reduce((sum: number, css: any) => sum + css.bytes, 0)
@@ -272,6 +362,20 @@ export async function runScanJob({
 
     console.log(`⚡ Ultra-parallel CSS collection complete: ${staticCss.length} static, ${computedCss.length} computed sources`)
 
+    // Profile scans keep the pages, CSS and screenshots of a logged-in app off the public site
+    if (crawlResult && !scanProfile) {
+      await persistCrawledPages(repository, scanRecord.id, siteRecord.id, crawlResult)
+    }
+
+    if (crawlResult) {
+
+      if (!crawlResult.pages.some(page => page.status === 'completed') && crawlResult.skippedByRobots.length > 0) {
+        throw new Error('Crawling disallowed by robots.txt')
+      }
+    }
+
+    signal?.throwIfAborted()
+    progress?.phase('dedupe', `Collected ${staticCss.length} static and ${computedCss.length} computed CSS sources`)
     const endDedupePhase = metrics.startPhase('dedupe_css_sources')
     const cssArtifacts = dedupeCssSources([...staticCss, ...computedCss])
     endDedupePhase()
@@ -286,20 +390,10 @@ export async function runScanJob({
     // ULTRA-FAST: Bulk CSS persistence with optimized operations
     const endPersistPhase = metrics.startPhase('persist_css_sources_ultra_fast')
 
-    if (cssArtifacts.length > 0) {
+    if (cssArtifacts.length > 0 && !scanProfile) {
       await profile('bulk-insert-css-ultra-fast', async () => {
-        // Step 1: Ultra-fast bulk insert CSS content with conflict resolution
-        await bulkInsertCssContent(cssArtifacts.map(artifact => ({
-          sha: artifact.sha,
-          content: artifact.content,
-          contentCompressed: false,
-          bytes: artifact.bytes,
-          compressedBytes: artifact.bytes,
-          referenceCount: 1
-        })))
-
-        // Step 2: Ultra-fast batch insert CSS sources
-        await batchInsertCssSources(scanRecord.id, cssArtifacts)
+        // Deduplicated content plus one source row per artifact
+        await repository.cssContent.store(scanRecord.id, cssArtifacts)
 
         console.log(`⚡ Ultra-fast CSS persistence: ${cssArtifacts.length} artifacts in batch operation`)
       })
@@ -308,6 +402,8 @@ export async function runScanJob({
     endPersistPhase()
 
     // ULTRA-PARALLEL: Token generation with multiple concurrent extractors
+    signal?.throwIfAborted()
+    progress?.phase('tokens', 'Generating design tokens')
     const endTokenPhase = metrics.startPhase('generate_tokens_ultra_parallel')
 
     const tokenTasks: ParallelTask<any>[] = [
@@ -355,18 +451,39 @@ export async function runScanJob({
       throw new Error('Legacy token generation failed - unable to proceed')
     }
 
+    // Crawl mode: tokens are merged across pages, record per-page usage
+    let pageUsage: PageUsageSummary | null = null
+    if (crawlResult && w3cExtraction) {
+      const endPageUsagePhase = metrics.startPhase('annotate_page_usage')
+      pageUsage = annotatePageUsage(
+        w3cExtraction.tokenSet,
+        crawlResult.pages.filter(page => page.status === 'completed'),
+        { domain }
+      )
+      endPageUsagePhase()
+    }
+
+    // Accurate mode: attach the values typography and spacing take at each breakpoint
+    if (w3cExtraction && computedResult.responsive) {
+      const annotated = annotateResponsiveTokens(w3cExtraction.tokenSet, computedResult.responsive)
+      console.log(`⚡ Responsive tokens: ${annotated} tokens vary across ${computedResult.responsive.breakpoints.length} breakpoints`)
+    }
+
+    // Accurate mode: measured hover/focus/active/disabled values of the detected components
+    if (w3cExtraction && interactionStates.length > 0) {
+      if (scanProfile) {
+        for (const capture of interactionStates) delete capture.screenshots
+      } else {
+        await persistStateEvidence(scanRecord.id, interactionStates)
+      }
+      const annotated = annotateStateTokens(w3cExtraction.tokenSet, interactionStates)
+      console.log(`⚡ State tokens: ${annotated} tokens from ${interactionStates.length} driven components`)
+    }
+
     // Curate tokens if W3C extraction succeeded
     let curatedTokens = null
     if (w3cExtraction) {
-      const curationLimits = isLargeSite ? {
-        maxColors: 6, maxFonts: 3, maxSizes: 4, maxSpacing: 6,
-        maxRadius: 3, maxShadows: 3, maxMotion: 2,
-        minUsage: 3, minConfidence: 70
-      } : {
-        maxColors: 8, maxFonts: 4, maxSizes: 6, maxSpacing: 8,
-        maxRadius: 4, maxShadows: 4, maxMotion: 4,
-        minUsage: 2, minConfidence: 65
-      }
+      const curationLimits = getCurationLimits(isLargeSite)
 
       try {
         curatedTokens = curateTokens(w3cExtraction.tokenSet, curationLimits)
@@ -424,6 +541,7 @@ export async function runScanJob({
   const advancedComponents: AdvancedComponentLibrary | null = computedStyles.length > 0
     ? detectComponents(computedStyles, generated.tokenSet)
     : null
+  if (advancedComponents) applyCapturedStates(advancedComponents, interactionStates)
 
   // Keep legacy extraction for backward compatibility
   const legacyComponents: ComponentLibrary | null = computedStyles.length > 0
@@ -433,6 +551,9 @@ export async function runScanJob({
   // Merge both for comprehensive coverage
   const componentLibrary = advancedComponents
 
+  signal?.throwIfAborted()
+  progress?.phase('analysis', 'Analyzing layout, brand and components')
+
   // ULTRA-PARALLEL: Execute all analysis tasks with maximum concurrency
   const analysisTasks: ParallelTask<any>[] = [
     // Critical: Build prompt pack (lightweight, always run)
@@ -455,11 +576,12 @@ export async function runScanJob({
     }
   ]
 
-  // Add wireframe task if computed CSS is available
-  if (actuallyIncludeComputed && !isFastMode) {
+  // Add wireframe task if computed CSS is available. Its own page load has no
+  // scan profile session, so on profile scans it would only see the login page
+  if (actuallyIncludeComputed && !isFastMode && !scanProfile) {
     analysisTasks.push({
       name: 'layout-wireframe',
-      task: () => collectLayoutWireframe(target.toString()),
+      task: () => collectLayoutWireframe(target.toString(), 15000, fetcher),
       priority: 'high',
       timeout: 15000,
       canFail: true
@@ -527,6 +649,11 @@ export async function runScanJob({
 
   console.log(`⚡ Ultra-parallel analysis complete: ${analysisResults.size} tasks executed`)
 
+  // Every request has been made by now, so the archive is complete
+  const archive = fetcher?.mode === 'record'
+    ? await persistScanArchive(repository, scanRecord.id, fetcher)
+    : null
+
   // Augment layout with wireframe (if available)
   if (wireframeSections.length > 0) {
     layoutDNA.wireframe = { sections: wireframeSections }
@@ -544,23 +671,37 @@ export async function runScanJob({
   }
 
   // PERFORMANCE OPTIMIZATION: Batch all final database writes into single transaction
+  signal?.throwIfAborted()
+  progress?.phase('persist', 'Saving token set')
   const durationMs = Date.now() - startedAt
   const sha = hashW3CTokenSet(generated.tokenSet)
 
   metrics.record('persist_summary', {
-    cssSources: cssArtifacts.length
+    cssSources: cssArtifacts.length,
+    ...(crawlResult ? { pagesCrawled: crawlResult.pages.length } : {})
   })
   const metricsSummary = metrics.summary()
 
-  // ULTRA-FAST: Get previous token set with optimized query
-  const previousTokenSet = await profile('get-previous-token-set-ultra-fast', () =>
-    getLatestTokenSet(siteRecord.id)
+  // ULTRA-FAST: Get previous token set with optimized query. A crawl diffs against the
+  // previous crawl; an owner's official set only takes part in the version numbering
+  const [previousTokenSet, rankedTokenSet] = await profile('get-previous-token-set-ultra-fast', () =>
+    Promise.all([
+      repository.tokenSets.getLatest(siteRecord.id, { crawledOnly: true }),
+      repository.tokenSets.getLatest(siteRecord.id)
+    ])
   )
-  const newVersionNumber = previousTokenSet ? (previousTokenSet.versionNumber || 0) + 1 : 1
+  const tokensChanged = !previousTokenSet?.tokensJson || hashW3CTokenSet(previousTokenSet.tokensJson) !== sha
+  // A profile scan or replay always stores its own private set, never a pointer to the public one
+  const persistVersion = tokensChanged || !onlyIfChanged || isPrivateScan
+  const newVersionNumber = previousTokenSet
+    ? persistVersion
+      ? Math.max(previousTokenSet.versionNumber || 0, rankedTokenSet?.versionNumber || 0) + 1
+      : previousTokenSet.versionNumber
+    : (rankedTokenSet?.versionNumber || 0) + 1
 
   // Calculate diff if there's a previous version
-  let tokenDiff = null
-  if (previousTokenSet && generated.tokenSet) {
+  let tokenDiff: TokenDiff | null = null
+  if (previousTokenSet && generated.tokenSet && tokensChanged) {
     try {
       tokenDiff = compareTokenSets(previousTokenSet.tokensJson, generated.tokenSet)
     } catch (error) {
@@ -568,29 +709,88 @@ export async function runScanJob({
     }
   }
 
+  const scanMetricsJson = redactScanSecrets({
+    ...metricsSummary,
+    tokenQuality: generated.qualityInsights,
+    ...(crawlResult ? { crawl: buildCrawlSummary(depth, crawlResult, pageUsage) } : {}),
+    ...(scanProfile ? { profile: { id: scanProfile.profile.id, name: scanProfile.profile.name, ...summarizeScanSession(scanProfile.session) } } : {})
+  }, session)
+
+  // Last check before the token set is stored: a cancelled or reclaimed job must not write a version
+  signal?.throwIfAborted()
+
+  // Unchanged tokens on a drift check: keep the existing version as current
+  if (!persistVersion) {
+    console.log(`[scan-orchestrator] Tokens unchanged since v${previousTokenSet.versionNumber}, skipping new version`)
+    await profile('complete-unchanged-scan', () =>
+      repository.completeUnchangedScan({
+        siteId: siteRecord.id,
+        scanId: scanRecord.id,
+        cssSourceCount: cssArtifacts.length,
+        sha,
+        metricsJson: scanMetricsJson
+      })
+    )
+  }
+
   // ULTRA-FAST: Single optimized transaction for all final operations
-  const tokenSetRecord = await profile('complete-scan-transaction-ultra-fast', () =>
-    completeScanTransaction({
+  const tokenSetRecord = !persistVersion ? { id: previousTokenSet.id } : await profile('complete-scan-transaction-ultra-fast', () =>
+    repository.completeScan({
       siteId: siteRecord.id,
       scanId: scanRecord.id,
       versionNumber: newVersionNumber,
       tokensJson: generated.tokenSet,
       packJson: promptPack,
       consensusScore: (generated.summary.confidence / 100).toFixed(2),
-      layoutDNA: layoutDNA || {},
-      archetypes: layoutDNA?.archetypes || [],
-      containers: layoutDNA?.containers || [],
-      gridFlex: layoutDNA?.gridSystem ? { system: layoutDNA.gridSystem } : null,
-      spacingScale: layoutDNA?.spacingBase ? { base: layoutDNA.spacingBase } : null,
+      isPublic: !isPrivateScan,
+      createdBy: isPrivateScan ? privateOwner : null,
+      layout: {
+        profileJson: layoutDNA || {},
+        archetypes: layoutDNA?.archetypes || [],
+        containers: layoutDNA?.containers || [],
+        gridFlex: layoutDNA?.gridSystem ? { system: layoutDNA.gridSystem } : null,
+        spacingScale: layoutDNA?.spacingBase ? { base: layoutDNA.spacingBase } : null
+      },
       cssSourceCount: cssArtifacts.length,
       sha,
-      metricsJson: {
-        ...metricsSummary,
-        tokenQuality: generated.qualityInsights
-      }
+      metricsJson: scanMetricsJson
     })
   )
 
+  // A private set stays out of the public version history; its diff is against the public latest
+  const tokenVersionId = isPrivateScan
+    ? null
+    : persistVersion
+    ? await recordTokenVersion(repository, {
+        siteId: siteRecord.id,
+        tokenSetId: tokenSetRecord.id,
+        versionNumber: newVersionNumber,
+        previousVersionId: previousTokenSet?.tokenVersionId ?? null,
+        diff: tokenDiff
+      })
+    : previousTokenSet?.tokenVersionId ?? null
+
+  // Color search and similar sites read token_colors and design_fingerprints, which live only in Postgres
+  if (persistVersion && !isPrivateScan && repository.name === 'postgres') {
+    await indexSiteColors(siteRecord.id).catch(error => {
+      console.warn('[scan-orchestrator] Failed to index token colors:', error)
+    })
+    await indexSiteFingerprint(siteRecord.id).catch(error => {
+      console.warn('[scan-orchestrator] Failed to index design fingerprint:', error)
+    })
+  }
+
+  const accessibility = accessibilityAnalysis
+    ? await recordAccessibilityReport(repository, {
+        siteId: siteRecord.id,
+        scanId: scanRecord.id,
+        tokenSetId: tokenSetRecord.id,
+        url: target.toString(),
+        analysis: accessibilityAnalysis,
+        isPublic: !isPrivateScan
+      })
+    : null
+
   console.log(`⚡ Ultra-fast transaction completed: ${getDatabaseMetrics().totalQueries} queries, ${Math.round(getDatabaseMetrics().queryTime)}ms total`)
 
   // SERVERLESS OPTIMIZATION: Don't capture screenshots during scan
@@ -644,10 +844,15 @@ export async function runScanJob({
       designSystemSpec,
       brandAnalysis,
       componentLibrary,
+      accessibility,
+      archive,
       versionInfo: {
         versionNumber: newVersionNumber,
-        isNewVersion: !!previousTokenSet,
+        isNewVersion: !!previousTokenSet && persistVersion,
         previousVersionNumber: previousTokenSet?.versionNumber,
+        changed: tokensChanged,
+        tokenHash: sha,
+        tokenVersionId,
         changeCount: tokenDiff?.summary.totalChanges || 0,
         diff: tokenDiff
       },
@@ -661,7 +866,9 @@ export async function runScanJob({
         metrics: metricsSummary,
         tokenQuality: generated.qualityInsights,
         isLargeSite,
-        memoryUsedMb: Math.round(memoryUsed / 1024 / 1024)
+        memoryUsedMb: Math.round(memoryUsed / 1024 / 1024),
+        crawl: crawlResult ? buildCrawlSummary(depth, crawlResult, pageUsage) : null,
+        replayOf: replayScanId ?? null
       },
       database: {
         siteId: siteRecord.id,
@@ -672,25 +879,176 @@ export async function runScanJob({
     }
 
     // ULTRA-FAST: Cache the complete result for instant future retrieval
-    cacheScanResult(cacheParams, scanResult, finalDurationMs)
+    if (!replayScanId && !scanProfile) {
+      cacheScanResult(cacheParams, scanResult, finalDurationMs)
+    }
 
     return scanResult
   }, scanTimeout)
 }
 
-// REMOVED: Replaced with ultra-fast optimized database operations in lib/db/optimizations.ts
-// - ensureSite() -> findSiteByDomain() with hash index lookup
-// - persistCssSources() -> bulkInsertCssContent() + batchInsertCssSources() for maximum speed
-// - Complex transaction -> completeScanTransaction() with single optimized operation
+// Persistence goes through the ScanRepository (lib/db/repositories); its Postgres
+// adapter keeps the batched writers in lib/db/optimizations.ts
+
+async function recordTokenVersion(repository: ScanRepository, params: {
+  siteId: string
+  tokenSetId: string
+  versionNumber: number
+  previousVersionId: string | null
+  diff: TokenDiff | null
+}): Promise<string | null> {
+  try {
+    return await repository.versions.record(params)
+  } catch (error) {
+    // Version history is bookkeeping; the token set itself is already stored
+    console.warn('[scan-orchestrator] Failed to record token version:', error)
+    return null
+  }
+}
 
-function dedupeCssSources(sources: CssSource[]): CssSource[] {
-  const map = new Map<string, CssSource>()
-  sources.forEach((source) => {
-    if (!map.has(source.sha)) {
-      map.set(source.sha, source)
+/**
+ * Store the WCAG report of a scan and return it with the site's score trend.
+ * Profile scans and adapters that don't store reports return it without a trend
+ */
+export async function recordAccessibilityReport(repository: ScanRepository, params: {
+  siteId: string
+  scanId: string
+  tokenSetId: string
+  url: string
+  analysis: AccessibilityAnalysis
+  isPublic?: boolean // False for profile scans, whose report must not join the public trend
+}) {
+  const { analysis } = params
+  const violations = analysis.wcag.violations
+  const criticalCount = violations.filter(violation => violation.severity === 'critical').length
+  const score = Math.round(analysis.score.overall)
+  const reports = params.isPublic === false ? undefined : repository.accessibilityReports
+
+  if (reports) {
+    try {
+      await reports.record({
+        siteId: params.siteId,
+        scanId: params.scanId,
+        tokenSetId: params.tokenSetId,
+        url: params.url,
+        score,
+        level: analysis.wcag.level,
+        violationCount: violations.length,
+        criticalCount,
+        reportJson: analysis
+      })
+    } catch (error) {
+      // The report still goes out with the scan result even when it can't be stored
+      console.warn('[scan-orchestrator] Failed to store accessibility report:', error)
     }
-  })
-  return [...map.values()]
+  }
+
+  const trend = reports ? await reports.trend(params.siteId).catch(() => []) : []
+
+  return {
+    score,
+    level: analysis.wcag.level,
+    categories: analysis.score.categories,
+    violationCount: violations.length,
+    criticalCount,
+    violations,
+    recommendations: analysis.wcag.recommendations,
+    trend: trend.map(point => ({
+      versionNumber: point.versionNumber,
+      score: point.score,
+      level: point.level,
+      createdAt: point.createdAt.toISOString()
+    }))
+  }
+}
+
+async function loadScanArchive(repository: ScanRepository, scanId: string) {
+  const scan = await repository.scans.get(scanId)
+
+  if (!scan?.archiveUrl) {
+    throw new ScanArchiveNotFoundError(scanId)
+  }
+
+  const response = await fetch(scan.archiveUrl, { signal: AbortSignal.timeout(15000) })
+  if (!response.ok) {
+    throw new Error(`Failed to download archive of scan ${scanId}: HTTP ${response.status}`)
+  }
+
+  return parseScanArchive(await response.json())
+}
+
+async function persistScanArchive(repository: ScanRepository, scanId: string, fetcher: ScanFetcher) {
+  const har = fetcher.toHar()
+
+  try {
+    const upload = await uploadScanArchive({ scanId, har })
+    await repository.scans.update(scanId, { archiveUrl: upload.url })
+    return { url: upload.url, entries: har.log.entries.length, bytes: upload.size }
+  } catch (error) {
+    // The scan itself is fine without its archive
+    console.warn('[scan-orchestrator] Failed to store scan archive:', error)
+    return null
+  }
+}
+
+/**
+ * Upload the element screenshots taken in each interaction state and keep
+ * their URLs as evidence on the captures; the buffers are dropped either way
+ */
+async function persistStateEvidence(scanId: string, captures: StateCapture[]): Promise<void> {
+  await Promise.all(captures.map(async capture => {
+    const screenshots = capture.screenshots ?? {}
+    delete capture.screenshots
+
+    capture.evidence = {}
+    for (const [state, buffer] of Object.entries(screenshots)) {
+      if (!buffer) continue
+      try {
+        const name = `${capture.target.type}-${capture.target.variant}-${state}`
+        const upload = await uploadStateEvidence({ scanId, name, buffer })
+        capture.evidence[state as keyof typeof screenshots] = upload.url
+      } catch (error) {
+        // State tokens are still measured values without their screenshots
+        console.warn('[scan-orchestrator] Failed to store state evidence:', error)
+        return
+      }
+    }
+  }))
+}
+
+async function persistCrawledPages(repository: ScanRepository, scanId: string, siteId: string, crawl: CrawlResult): Promise<void> {
+  try {
+    await repository.scans.addPages(scanId, crawl.pages.map(page => ({
+      url: page.url,
+      status: page.status,
+      htmlSize: page.htmlSize ?? null,
+      loadTime: page.loadTime ?? null
+    })))
+
+    if (crawl.robotsStatus !== 'unknown') {
+      await repository.sites.update(siteId, { robotsStatus: crawl.robotsStatus })
+    }
+  } catch (error) {
+    // Page bookkeeping must never fail the scan itself
+    console.warn('[scan-orchestrator] Failed to persist crawled pages:', error)
+  }
+}
+
+function buildCrawlSummary(depth: CrawlDepth, crawl: CrawlResult, pageUsage: PageUsageSummary | null) {
+  return {
+    depth,
+    robotsStatus: crawl.robotsStatus,
+    pagesVisited: crawl.pages.filter(page => page.status === 'completed').length,
+    pagesFailed: crawl.pages.filter(page => page.status === 'failed').length,
+    skippedByRobots: crawl.skippedByRobots.length,
+    pages: crawl.pages.map(page => ({
+      url: page.url,
+      depth: page.depth,
+      status: page.status,
+      cssSources: page.sources.length
+    })),
+    sharedTokens: pageUsage?.sharedTokens ?? 0
+  }
 }
 
 function buildBrandAnalysis(colors: { value: string }[]): {
@@ -0,0 +1,325 @@
+/**
+ * Postgres-backed scan job queue
+ * Jobs are submissions rows. Workers claim them in priority order with
+ * FOR UPDATE SKIP LOCKED, hold a renewable lease while scanning, and requeue
+ * failed attempts with backoff. Progress events are relayed through
+ * scan_job_events so the SSE endpoint can stream them from another process
+ */
+
+import { and, asc, eq, gt, isNotNull, lt, or, sql } from 'drizzle-orm'
+import { db, submissions, scanJobEvents, subscriptions, type Submission } from '@/lib/db'
+import { releaseScanQuota } from '@/lib/auth/api-keys'
+import type { ProgressEvent } from './progress-emitter'
+import type { ScanJobInput, ScanJobResult } from './scan-orchestrator'
+
+export type ScanJobOptions = Pick<ScanJobInput,
+  'prettify' | 'includeComputed' | 'mode' | 'depth' | 'maxPages' | 'recordArchive' | 'replayScanId' | 'profileId' | 'skipCache' | 'onlyIfChanged'
+>
+
+// Priority lanes, highest first; a worker started with a minimum priority serves only its lane and above
+export const PRIORITY_LANES = {
+  standard: 0,
+  priority: 10
+} as const
+
+const RETRY_BASE_DELAY = 30000 // 30s, doubled per attempt
+const RETRY_MAX_DELAY = 10 * 60 * 1000 // 10 minutes
+const EVENTS_PAGE_SIZE = 100
+
+export function isScanQueueEnabled(): boolean {
+  return process.env.SCAN_QUEUE_ENABLED === '1'
+}
+
+/**
+ * Paid plans get the priority lane; anonymous and free scans use the standard lane
+ */
+export async function resolveScanPriority(userId: string | null): Promise<number> {
+  if (!userId) return PRIORITY_LANES.standard
+
+  const [subscription] = await db
+    .select({ plan: subscriptions.plan })
+    .from(subscriptions)
+    .where(and(eq(subscriptions.userId, userId), eq(subscriptions.status, 'active')))
+    .limit(1)
+
+  return subscription && subscription.plan !== 'free' ? PRIORITY_LANES.priority : PRIORITY_LANES.standard
+}
+
+export async function enqueueScanJob(input: {
+  url: string
+  options: ScanJobOptions
+  priority: number
+  submittedBy?: string | null
+  apiKeyId?: string | null // Key the job was submitted with
+  quotaUsageId?: string | null // Scan reserved from that key's quota; released if the job fails or is cancelled
+  watchId?: string | null // Token watch the job re-scans for; drift is reported when it finishes
+  maxAttempts?: number
+}): Promise<Submission> {
+  const [job] = await db
+    .insert(submissions)
+    .values({
+      url: input.url,
+      domain: new URL(input.url).hostname,
+      options: input.options,
+      priority: input.priority,
+      submittedBy: input.submittedBy ?? null,
+      apiKeyId: input.apiKeyId ?? null,
+      quotaUsageId: input.quotaUsageId ?? null,
+      watchId: input.watchId ?? null,
+      maxAttempts: input.maxAttempts ?? 3,
+      status: 'queued'
+    })
+    .returning()
+
+  // Jobs ahead of this one in claim order
+  const [{ ahead }] = await db
+    .select({ ahead: sql<number>`count(*)::int` })
+    .from(submissions)
+    .where(and(
+      eq(submissions.status, 'queued'),
+      isNotNull(submissions.options),
+      or(
+        gt(submissions.priority, job.priority),
+        and(eq(submissions.priority, job.priority), lt(submissions.createdAt, job.createdAt))
+      )
+    ))
+
+  const [positioned] = await db
+    .update(submissions)
+    .set({ estimatedQueue: ahead + 1 })
+    .where(eq(submissions.id, job.id))
+    .returning()
+
+  return positioned ?? job
+}
+
+export async function getScanJob(id: string): Promise<Submission | null> {
+  const [job] = await db.select().from(submissions).where(eq(submissions.id, id)).limit(1)
+  return job ?? null
+}
+
+/**
+ * Public shape of a job; the full scan result is only included once it is done
+ */
+export function serializeScanJob(job: Submission, options: { includeResult?: boolean } = {}) {
+  return {
+    id: job.id,
+    url: job.url,
+    domain: job.domain,
+    status: job.status,
+    priority: job.priority,
+    position: job.status === 'queued' ? job.estimatedQueue : null,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    cancelRequested: job.cancelRequested,
+    error: job.reason,
+    scanId: job.scanId,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+    ...(options.includeResult && job.status === 'done' ? { result: job.resultJson } : {})
+  }
+}
+
+/**
+ * Claim the next job in priority order and take a lease on it. Jobs whose lease
+ * expired (crashed worker) are reclaimed. Domains already at their concurrency
+ * limit are skipped; two workers claiming the same domain at the same instant
+ * can briefly exceed it
+ */
+export async function claimNextScanJob(options: {
+  workerId: string
+  leaseMs: number
+  minPriority: number
+  perDomainLimit: number
+}): Promise<Submission | null> {
+  const claimed = await db.execute(sql`
+    UPDATE submissions
+    SET
+      status = 'scanning',
+      attempts = attempts + 1,
+      locked_by = ${options.workerId},
+      locked_until = NOW() + ${options.leaseMs} * INTERVAL '1 millisecond',
+      started_at = COALESCE(started_at, NOW()),
+      updated_at = NOW()
+    WHERE id = (
+      SELECT s.id FROM submissions s
+      WHERE s.cancel_requested = FALSE
+        AND s.domain IS NOT NULL
+        AND s.options IS NOT NULL -- Submissions from before the worker were never scan jobs
+        AND s.priority >= ${options.minPriority}
+        AND (
+          (s.status = 'queued' AND s.run_at <= NOW())
+          OR (s.status = 'scanning' AND s.locked_until < NOW())
+        )
+        AND (
+          SELECT COUNT(*) FROM submissions running
+          WHERE running.domain = s.domain
+            AND running.status = 'scanning'
+            AND running.locked_until >= NOW()
+        ) < ${options.perDomainLimit}
+      ORDER BY s.priority DESC, s.run_at, s.created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `)
+
+  const claimedId = (claimed as unknown as Array<{ id: string }>)[0]?.id
+  if (!claimedId) return null
+
+  return getScanJob(claimedId)
+}
+
+/**
+ * Extend the lease; reports whether the worker still owns the job and whether
+ * cancellation was requested
+ */
+export async function renewScanJobLease(
+  id: string,
+  workerId: string,
+  leaseMs: number
+): Promise<{ owned: boolean; cancelRequested: boolean }> {
+  const [job] = await db
+    .update(submissions)
+    .set({
+      lockedUntil: sql`NOW() + ${leaseMs} * INTERVAL '1 millisecond'`,
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(submissions.id, id),
+      eq(submissions.lockedBy, workerId),
+      eq(submissions.status, 'scanning')
+    ))
+    .returning({ cancelRequested: submissions.cancelRequested })
+
+  return { owned: Boolean(job), cancelRequested: job?.cancelRequested ?? false }
+}
+
+export async function completeScanJob(id: string, workerId: string, result: ScanJobResult): Promise<void> {
+  await db
+    .update(submissions)
+    .set({
+      status: 'done',
+      scanId: result.database?.scanId ?? null,
+      resultJson: result,
+      reason: null,
+      lockedBy: null,
+      lockedUntil: null,
+      finishedAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(and(eq(submissions.id, id), eq(submissions.lockedBy, workerId)))
+}
+
+/**
+ * Wait before the next attempt once `attempts` have failed: 30s, then doubled
+ * each time, never more than 10 minutes
+ */
+export function scanJobRetryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * Math.pow(2, Math.max(0, attempts - 1)))
+}
+
+/**
+ * Requeue a failed attempt with exponential backoff, or fail the job for good
+ */
+export async function failScanJob(
+  job: Submission,
+  workerId: string,
+  error: string,
+  retryable: boolean
+): Promise<'retrying' | 'failed'> {
+  const willRetry = retryable && job.attempts < job.maxAttempts
+  const delay = scanJobRetryDelay(job.attempts)
+
+  await db
+    .update(submissions)
+    .set(willRetry
+      ? { status: 'queued', runAt: new Date(Date.now() + delay), reason: error, lockedBy: null, lockedUntil: null, updatedAt: new Date() }
+      : { status: 'failed', reason: error, lockedBy: null, lockedUntil: null, finishedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(submissions.id, job.id), eq(submissions.lockedBy, workerId)))
+
+  return willRetry ? 'retrying' : 'failed'
+}
+
+export async function markScanJobCancelled(id: string, workerId?: string): Promise<void> {
+  await db
+    .update(submissions)
+    .set({
+      status: 'cancelled',
+      reason: 'Cancelled',
+      cancelRequested: true,
+      lockedBy: null,
+      lockedUntil: null,
+      finishedAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(workerId
+      ? and(eq(submissions.id, id), eq(submissions.lockedBy, workerId))
+      : eq(submissions.id, id))
+}
+
+/**
+ * Cancel a job. Queued jobs (and jobs whose worker died) are cancelled at once;
+ * running jobs are flagged and the worker stops at its next lease renewal
+ */
+export async function cancelScanJob(id: string): Promise<Submission | null> {
+  const [queued] = await db
+    .update(submissions)
+    .set({ status: 'cancelled', reason: 'Cancelled', cancelRequested: true, finishedAt: new Date(), updatedAt: new Date() })
+    .where(and(
+      eq(submissions.id, id),
+      or(
+        eq(submissions.status, 'queued'),
+        and(eq(submissions.status, 'scanning'), lt(submissions.lockedUntil, new Date()))
+      )
+    ))
+    .returning()
+
+  if (queued) {
+    if (queued.quotaUsageId) await releaseScanQuota(queued.quotaUsageId, 'cancelled')
+    // No worker will report on this job; end any open progress streams here
+    await recordScanJobEvent({ type: 'error', scanId: id, message: 'Scan cancelled', timestamp: Date.now() })
+    return queued
+  }
+
+  const [running] = await db
+    .update(submissions)
+    .set({ cancelRequested: true, updatedAt: new Date() })
+    .where(and(eq(submissions.id, id), eq(submissions.status, 'scanning')))
+    .returning()
+
+  return running ?? getScanJob(id)
+}
+
+/**
+ * Persist a worker progress event. Complete events drop their result data;
+ * loadScanJobEvents attaches the stored result instead
+ */
+export async function recordScanJobEvent(event: ProgressEvent): Promise<void> {
+  await db.insert(scanJobEvents).values({
+    submissionId: event.scanId,
+    event: event.type === 'complete' ? { ...event, data: undefined } : event
+  })
+}
+
+export async function loadScanJobEvents(
+  id: string,
+  cursor: number
+): Promise<{ events: ProgressEvent[]; cursor: number }> {
+  const rows = await db
+    .select({ id: scanJobEvents.id, event: scanJobEvents.event })
+    .from(scanJobEvents)
+    .where(and(eq(scanJobEvents.submissionId, id), gt(scanJobEvents.id, cursor)))
+    .orderBy(asc(scanJobEvents.id))
+    .limit(EVENTS_PAGE_SIZE)
+
+  const events: ProgressEvent[] = rows.map((row: { event: unknown }) => row.event as ProgressEvent)
+  const complete = events.find(event => event.type === 'complete')
+  if (complete) {
+    const job = await getScanJob(id)
+    complete.data = job?.resultJson ?? null
+  }
+
+  return { events, cursor: rows.length > 0 ? rows[rows.length - 1].id : cursor }
+}
@@ -0,0 +1,262 @@
+/**
+ * Standalone scan worker
+ * Consumes the submissions queue outside the HTTP request lifecycle, so long
+ * accurate-mode scans are not bound by serverless timeouts
+ */
+
+import { hostname } from 'os'
+import { randomBytes } from 'crypto'
+import type { Submission } from '@/lib/db'
+import { releaseScanQuota } from '@/lib/auth/api-keys'
+import { progressStore } from '@/lib/events/progress-store'
+import { recordWatchFailure, recordWatchRun } from './token-watch'
+import { detectBlockType, retryWithStrategyEscalation, type RetryStrategy } from '@/lib/utils/retry-with-backoff'
+import { ProgressEmitter } from './progress-emitter'
+import { runScanJob, SCAN_PROGRESS_PHASES, type ScanJobResult } from './scan-orchestrator'
+import {
+  claimNextScanJob,
+  completeScanJob,
+  failScanJob,
+  markScanJobCancelled,
+  recordScanJobEvent,
+  renewScanJobLease,
+  type ScanJobOptions
+} from './scan-queue'
+
+export type ScanWorkerOptions = {
+  workerId?: string
+  concurrency?: number // Jobs processed at once
+  minPriority?: number // Serve only this priority lane and above
+  perDomainLimit?: number // Concurrent jobs per domain across all workers
+  pollIntervalMs?: number // Idle wait between empty claims
+  leaseMs?: number // Lease length; renewed every third of it
+  signal?: AbortSignal // Stop claiming and drain in-flight jobs
+}
+
+const DEFAULT_LEASE = 120000 // 2 minutes
+const DEFAULT_POLL_INTERVAL = 2000
+
+// Failures that another attempt will not fix
+const PERMANENT_FAILURE = /robots\.txt|invalid url|ssrf|not allowed|opted out|scan profile/i
+
+class ScanJobCancelledError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScanJobCancelledError'
+  }
+}
+
+class ScanJobLeaseLostError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScanJobLeaseLostError'
+  }
+}
+
+export async function runScanWorker(options: ScanWorkerOptions = {}): Promise<void> {
+  const workerId = options.workerId ?? `${hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`
+  const concurrency = Math.max(1, options.concurrency ?? 1)
+  const leaseMs = options.leaseMs ?? DEFAULT_LEASE
+  const claimOptions = {
+    workerId,
+    leaseMs,
+    minPriority: options.minPriority ?? 0,
+    perDomainLimit: Math.max(1, options.perDomainLimit ?? 1)
+  }
+
+  // Persist every progress event, in order, for SSE clients in other processes
+  let relayChain = Promise.resolve()
+  const detachRelay = progressStore.addRelay(event => {
+    relayChain = relayChain
+      .then(() => recordScanJobEvent(event))
+      .catch((error: unknown) => console.warn('[scan-worker] Failed to record progress event:', error))
+  })
+
+  console.log(`[scan-worker] ${workerId} started (concurrency: ${concurrency}, min priority: ${claimOptions.minPriority}, per-domain limit: ${claimOptions.perDomainLimit})`)
+
+  const active = new Set<Promise<void>>()
+
+  while (!options.signal?.aborted) {
+    if (active.size >= concurrency) {
+      await Promise.race(active)
+      continue
+    }
+
+    let job: Submission | null = null
+    try {
+      job = await claimNextScanJob(claimOptions)
+    } catch (error) {
+      console.error('[scan-worker] Failed to claim a job:', error)
+    }
+
+    if (!job) {
+      await sleep(options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL, options.signal)
+      continue
+    }
+
+    const task: Promise<void> = processJob(job, workerId, leaseMs).finally(() => {
+      active.delete(task)
+    })
+    active.add(task)
+  }
+
+  console.log(`[scan-worker] ${workerId} stopping, waiting for ${active.size} in-flight jobs`)
+  await Promise.all(active)
+  await relayChain
+  detachRelay()
+}
+
+/**
+ * Whether another attempt could succeed: robots.txt, URL and opt-out refusals,
+ * CAPTCHAs and auth walls fail the job for good
+ */
+export function isRetryableScanError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : 'Scan failed'
+  const blockType = detectBlockType(error).blockType
+  return !PERMANENT_FAILURE.test(message) && blockType !== 'captcha' && blockType !== 'access_denied'
+}
+
+async function processJob(job: Submission, workerId: string, leaseMs: number): Promise<void> {
+  const progress = new ProgressEmitter(job.id, SCAN_PROGRESS_PHASES + 1)
+
+  // A job reclaimed after its worker died counts that run as an attempt
+  if (job.attempts > job.maxAttempts) {
+    const message = 'Scan worker stopped responding too many times'
+    await failScanJob(job, workerId, message, false)
+    progress.error(message)
+    return
+  }
+
+  console.log(`[scan-worker] Scanning ${job.domain} (job ${job.id}, attempt ${job.attempts}/${job.maxAttempts}, priority ${job.priority})`)
+  progress.phase('claimed', `Scanning ${job.domain} (attempt ${job.attempts} of ${job.maxAttempts})`)
+
+  const lease = holdLease(job.id, workerId, leaseMs)
+
+  try {
+    // The scan stops at its next phase once the lease signal aborts and never stores
+    // a result after that; the job stays active here until the scan has settled
+    const { result, strategy, attempts } = await scanWithEscalation(job, progress, lease.signal)
+
+    // The result is stored on the job; SSE clients receive it from there with the complete event
+    await completeScanJob(job.id, workerId, result)
+    if (job.watchId) await reportWatchRun(job.watchId, watchId => recordWatchRun(watchId, result))
+    progress.complete()
+    console.log(`[scan-worker] Completed ${job.domain} with ${strategy} strategy (${attempts} attempts)`)
+  } catch (caught) {
+    // Retries rewrap errors; a lost lease or a cancellation is what actually stopped the scan
+    const error = lease.signal.aborted ? lease.signal.reason : caught
+
+    if (error instanceof ScanJobCancelledError) {
+      await markScanJobCancelled(job.id, workerId)
+      await releaseReservedScan(job, 'cancelled')
+      progress.error('Scan cancelled')
+      console.log(`[scan-worker] Cancelled ${job.domain} (job ${job.id})`)
+      return
+    }
+
+    if (error instanceof ScanJobLeaseLostError) {
+      console.warn(`[scan-worker] Lost lease on job ${job.id}; another worker owns it now`)
+      return
+    }
+
+    const message = error instanceof Error ? error.message : 'Scan failed'
+    const outcome = await failScanJob(job, workerId, message, isRetryableScanError(error))
+
+    console.warn(`[scan-worker] ${job.domain} failed (${outcome}):`, message)
+    if (outcome === 'retrying') {
+      progress.phase('retry', `Attempt ${job.attempts} failed: ${message}. Retrying shortly`)
+    } else {
+      await releaseReservedScan(job)
+      if (job.watchId) await reportWatchRun(job.watchId, watchId => recordWatchFailure(watchId, message))
+      progress.error(message)
+    }
+  } finally {
+    lease.release()
+  }
+}
+
+/**
+ * Hand a failed or cancelled job's scan back to the API key it was reserved
+ * from at submit time; completed jobs keep the reservation
+ */
+async function releaseReservedScan(job: Submission, errorType?: string) {
+  if (!job.quotaUsageId) return
+  await releaseScanQuota(job.quotaUsageId, errorType)
+}
+
+/**
+ * Tell a token watch how its re-scan went; the job's own outcome is already
+ * stored, so failures here are only logged
+ */
+async function reportWatchRun(watchId: string, report: (watchId: string) => Promise<unknown>) {
+  try {
+    await report(watchId)
+  } catch (error) {
+    console.warn(`[scan-worker] Failed to report to token watch ${watchId}:`, error)
+  }
+}
+
+/**
+ * Run the scan in the requested mode, escalating fast (static) scans to a full
+ * headless scan when static collection keeps failing
+ */
+function scanWithEscalation(job: Submission, progress: ProgressEmitter, signal: AbortSignal) {
+  const options = (job.options ?? {}) as Partial<ScanJobOptions>
+  const run = (mode: 'fast' | 'accurate') => runScanJob({
+    url: job.url,
+    prettify: options.prettify ?? false,
+    includeComputed: mode === 'fast' ? false : options.includeComputed ?? true,
+    mode,
+    depth: options.depth,
+    maxPages: options.maxPages,
+    recordArchive: options.recordArchive,
+    replayScanId: options.replayScanId,
+    profileId: options.profileId,
+    skipCache: options.skipCache,
+    onlyIfChanged: options.onlyIfChanged,
+    requestedBy: job.submittedBy,
+    progress,
+    signal
+  })
+
+  const strategies: Array<{ name: RetryStrategy; fn: () => Promise<ScanJobResult> }> = options.mode === 'fast'
+    ? [{ name: 'static', fn: () => run('fast') }, { name: 'headless', fn: () => run('accurate') }]
+    : [{ name: 'headless', fn: () => run('accurate') }]
+
+  return retryWithStrategyEscalation(strategies, { maxAttempts: 2, initialDelayMs: 2000 })
+}
+
+/**
+ * Renew the lease every third of its length. `signal` aborts, with the reason
+ * as a ScanJobCancelledError or ScanJobLeaseLostError, when the job is
+ * cancelled or another worker took it over
+ */
+function holdLease(jobId: string, workerId: string, leaseMs: number) {
+  const controller = new AbortController()
+
+  const timer = setInterval(async () => {
+    try {
+      const lease = await renewScanJobLease(jobId, workerId, leaseMs)
+      if (!lease.owned) controller.abort(new ScanJobLeaseLostError(`Lease lost for job ${jobId}`))
+      else if (lease.cancelRequested) controller.abort(new ScanJobCancelledError(`Job ${jobId} was cancelled`))
+    } catch (error) {
+      console.warn(`[scan-worker] Failed to renew lease for job ${jobId}:`, error)
+    }
+    if (controller.signal.aborted) clearInterval(timer)
+  }, Math.floor(leaseMs / 3))
+
+  return {
+    signal: controller.signal,
+    release: () => clearInterval(timer)
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
@@ -0,0 +1,211 @@
+/**
+ * Visual regression between two scans of a site
+ * Diffs the screenshots each scan recorded in screenshot_history, links changed
+ * regions to the token changes of the newer scan's version and caches the
+ * result in screenshot_diffs, so real visual changes can be told apart from
+ * token diff noise
+ */
+
+import { and, desc, eq } from 'drizzle-orm'
+import {
+  db,
+  screenshotContent,
+  screenshotDiffs,
+  screenshotHistory,
+  tokenChanges,
+  tokenSets,
+  tokenVersions,
+  type ScreenshotDiff
+} from '@/lib/db'
+import { diffScreenshots, linkRegionsToTokenChanges, type LinkableTokenChange } from '@/lib/analyzers/screenshot-diff'
+import { uploadScreenshotDiff } from '@/lib/storage/blob-storage'
+
+export class ScreenshotDiffError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScreenshotDiffError'
+  }
+}
+
+interface HistoryRow {
+  siteId: string
+  viewport: string
+  sha: string
+  url: string
+  width: number
+  height: number
+}
+
+/**
+ * Diff every viewport captured by both scans. Results are cached per scan pair
+ * and viewport; `force` recomputes them
+ */
+export async function diffScanScreenshots(options: {
+  baseScanId: string
+  targetScanId: string
+  viewports?: string[]
+  force?: boolean
+}): Promise<ScreenshotDiff[]> {
+  const [baseRows, targetRows] = await Promise.all([
+    loadScanScreenshots(options.baseScanId),
+    loadScanScreenshots(options.targetScanId)
+  ])
+
+  if (baseRows.length === 0 || targetRows.length === 0) {
+    throw new ScreenshotDiffError('Both scans need stored screenshots to compare')
+  }
+  if (baseRows[0].siteId !== targetRows[0].siteId) {
+    throw new ScreenshotDiffError('Scans belong to different sites')
+  }
+
+  const pairs = targetRows
+    .filter(target => !options.viewports || options.viewports.includes(target.viewport))
+    .map(target => ({ target, base: baseRows.find(base => base.viewport === target.viewport) }))
+    .filter((pair): pair is { target: HistoryRow; base: HistoryRow } => Boolean(pair.base))
+
+  if (pairs.length === 0) {
+    throw new ScreenshotDiffError('The scans have no viewport in common')
+  }
+
+  const cached = options.force ? [] : await db
+    .select()
+    .from(screenshotDiffs)
+    .where(and(
+      eq(screenshotDiffs.baseScanId, options.baseScanId),
+      eq(screenshotDiffs.targetScanId, options.targetScanId)
+    ))
+
+  const version = await loadScanTokenChanges(options.targetScanId)
+  const results: ScreenshotDiff[] = []
+
+  for (const { base, target } of pairs) {
+    const existing = cached.find((row: ScreenshotDiff) => row.viewport === target.viewport)
+    if (existing && existing.baseSha === base.sha && existing.targetSha === target.sha) {
+      results.push(existing)
+      continue
+    }
+
+    results.push(await computeViewportDiff({
+      siteId: target.siteId,
+      baseScanId: options.baseScanId,
+      targetScanId: options.targetScanId,
+      versionId: version?.id ?? null,
+      changes: version?.changes ?? [],
+      base,
+      target
+    }))
+  }
+
+  return results
+}
+
+async function computeViewportDiff(params: {
+  siteId: string
+  baseScanId: string
+  targetScanId: string
+  versionId: string | null
+  changes: LinkableTokenChange[]
+  base: HistoryRow
+  target: HistoryRow
+}): Promise<ScreenshotDiff> {
+  const { base, target } = params
+  let values: Pick<ScreenshotDiff, 'diffUrl' | 'width' | 'height' | 'changedPixels' | 'changedPercent' | 'regions'>
+
+  if (base.sha === target.sha) {
+    // Identical content hash: nothing to decode
+    values = { diffUrl: null, width: target.width, height: target.height, changedPixels: 0, changedPercent: '0', regions: [] }
+  } else {
+    const [before, after] = await Promise.all([fetchScreenshot(base.url), fetchScreenshot(target.url)])
+    const diff = await diffScreenshots(before, after)
+
+    const uploaded = diff.changedPixels > 0
+      ? await uploadScreenshotDiff({
+          baseScanId: params.baseScanId,
+          targetScanId: params.targetScanId,
+          viewport: target.viewport,
+          buffer: diff.diffImage
+        })
+      : null
+
+    values = {
+      diffUrl: uploaded?.url ?? null,
+      width: diff.width,
+      height: diff.height,
+      changedPixels: diff.changedPixels,
+      changedPercent: diff.changedPercent.toFixed(3),
+      regions: linkRegionsToTokenChanges(diff.regions, params.changes)
+    }
+  }
+
+  const [row] = await db
+    .insert(screenshotDiffs)
+    .values({
+      siteId: params.siteId,
+      baseScanId: params.baseScanId,
+      targetScanId: params.targetScanId,
+      versionId: params.versionId,
+      viewport: target.viewport,
+      baseSha: base.sha,
+      targetSha: target.sha,
+      ...values
+    })
+    .onConflictDoUpdate({
+      target: [screenshotDiffs.baseScanId, screenshotDiffs.targetScanId, screenshotDiffs.viewport],
+      set: { versionId: params.versionId, baseSha: base.sha, targetSha: target.sha, ...values, createdAt: new Date() }
+    })
+    .returning()
+
+  return row
+}
+
+async function loadScanScreenshots(scanId: string): Promise<HistoryRow[]> {
+  return db
+    .select({
+      siteId: screenshotHistory.siteId,
+      viewport: screenshotHistory.viewport,
+      sha: screenshotHistory.sha,
+      url: screenshotContent.url,
+      width: screenshotContent.width,
+      height: screenshotContent.height
+    })
+    .from(screenshotHistory)
+    .innerJoin(screenshotContent, eq(screenshotHistory.sha, screenshotContent.sha))
+    .where(eq(screenshotHistory.scanId, scanId))
+}
+
+/**
+ * Token changes recorded for the version created by a scan
+ */
+async function loadScanTokenChanges(scanId: string): Promise<{ id: string; changes: LinkableTokenChange[] } | null> {
+  const [version] = await db
+    .select({ id: tokenVersions.id })
+    .from(tokenVersions)
+    .innerJoin(tokenSets, eq(tokenVersions.tokenSetId, tokenSets.id))
+    .where(eq(tokenSets.scanId, scanId))
+    .orderBy(desc(tokenVersions.createdAt))
+    .limit(1)
+
+  if (!version) return null
+
+  const changes = await db
+    .select({
+      id: tokenChanges.id,
+      tokenPath: tokenChanges.tokenPath,
+      changeType: tokenChanges.changeType,
+      category: tokenChanges.category,
+      oldValue: tokenChanges.oldValue,
+      newValue: tokenChanges.newValue
+    })
+    .from(tokenChanges)
+    .where(eq(tokenChanges.versionId, version.id))
+
+  return { id: version.id, changes }
+}
+
+async function fetchScreenshot(url: string): Promise<Buffer> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new ScreenshotDiffError(`Stored screenshot unavailable (${response.status})`)
+  }
+  return Buffer.from(await response.arrayBuffer())
+}
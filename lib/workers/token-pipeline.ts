@@ -0,0 +1,60 @@
+/**
+ * Database-free token pipeline
+ * The CSS -> W3C tokens -> curated tokens steps of a scan, shared by the scan
+ * orchestrator and the contextds CLI
+ */
+
+import type { CssSource } from '@/lib/extractors/static-css'
+import { extractW3CTokens, type TokenExtractionResult } from '@/lib/analyzers/w3c-tokenizer'
+import { curateTokens, type CurationConfig, type CuratedTokenSet } from '@/lib/analyzers/token-curator'
+
+export const LARGE_SITE_THRESHOLD = 50 // 50+ CSS files = large site
+
+export type TokenPipelineResult = {
+  cssSources: CssSource[]
+  isLargeSite: boolean
+  extraction: TokenExtractionResult
+  curatedTokens: CuratedTokenSet
+}
+
+export function dedupeCssSources(sources: CssSource[]): CssSource[] {
+  const map = new Map<string, CssSource>()
+  sources.forEach((source) => {
+    if (!map.has(source.sha)) {
+      map.set(source.sha, source)
+    }
+  })
+  return [...map.values()]
+}
+
+/**
+ * Large sites keep fewer, better-attested tokens per category
+ */
+export function getCurationLimits(isLargeSite: boolean): Partial<CurationConfig> {
+  return isLargeSite ? {
+    maxColors: 6, maxFonts: 3, maxSizes: 4, maxSpacing: 6,
+    maxRadius: 3, maxShadows: 3, maxMotion: 2,
+    minUsage: 3, minConfidence: 70
+  } : {
+    maxColors: 8, maxFonts: 4, maxSizes: 6, maxSpacing: 8,
+    maxRadius: 4, maxShadows: 4, maxMotion: 4,
+    minUsage: 2, minConfidence: 65
+  }
+}
+
+export function generateTokensFromCss(
+  sources: CssSource[],
+  metadata: { domain: string; url: string },
+  options: { staticSourceCount?: number } = {}
+): TokenPipelineResult {
+  const cssSources = dedupeCssSources(sources)
+  if (cssSources.length === 0) {
+    throw new Error('No CSS sources discovered for the requested URL')
+  }
+
+  const isLargeSite = (options.staticSourceCount ?? cssSources.length) >= LARGE_SITE_THRESHOLD
+  const extraction = extractW3CTokens(cssSources, metadata)
+  const curatedTokens = curateTokens(extraction.tokenSet, getCurationLimits(isLargeSite))
+
+  return { cssSources, isLargeSite, extraction, curatedTokens }
+}
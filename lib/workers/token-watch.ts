@@ -0,0 +1,373 @@
+/**
+ * Token drift watches
+ * Queues a re-scan of each watched domain on its cadence; the scan worker stores
+ * a new token version only when the token digest changes and, once the job
+ * completes, the change summary is posted to the watch's webhook.
+ * Drift is measured against the version the watch last saw, so a version stored
+ * in between (a manual rescan) still counts as a change for the watch
+ */
+
+import { createHmac, randomBytes } from 'crypto'
+import { and, eq, sql } from 'drizzle-orm'
+import { db, tokenSets, tokenVersions, tokenWatches, type TokenWatch } from '@/lib/db'
+import { compareTokenSets, generateChangelog, type TokenDiff } from '@/lib/analyzers/version-diff'
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer'
+import type { CrawlDepth } from '@/lib/extractors/site-crawler'
+import { SiteOptedOutError } from '@/lib/compliance/site-ownership'
+import { enqueueScanJob, PRIORITY_LANES } from './scan-queue'
+import type { ScanJobResult } from './scan-orchestrator'
+
+export type WatchCadence = TokenWatch['cadence']
+
+export type WatchRunResult = {
+  watchId: string
+  domain: string
+  status: 'changed' | 'unchanged' | 'baseline' | 'failed'
+  versionNumber?: number
+  changeCount?: number
+  webhook?: 'delivered' | 'failed' | 'skipped'
+  error?: string
+}
+
+export type WatchEnqueueResult = {
+  watchId: string
+  domain: string
+  jobId?: string
+  error?: string
+}
+
+export type DriftWebhookPayload = {
+  event: 'tokens.changed'
+  watchId: string
+  domain: string
+  url: string
+  detectedAt: string
+  version: {
+    number: number
+    previous: number | null
+    tokenSetId: string
+    tokenHash: string
+  }
+  summary: TokenDiff['summary']
+  changes: Array<{
+    path: string
+    category: string
+    changeType: 'added' | 'removed' | 'modified'
+    old?: string
+    new?: string
+  }>
+  truncated: boolean
+  changelog: string
+}
+
+export const WATCH_CADENCE_MS: Record<WatchCadence, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+}
+
+const WEBHOOK_TIMEOUT = 10000 // 10s per webhook delivery
+const MAX_CONSECUTIVE_FAILURES = 5 // Pause a watch after 5 failed runs in a row
+const MAX_CHANGES_IN_PAYLOAD = 100
+// Worker failures arrive as messages; the SiteOptedOutError class does not survive retries
+const OPTED_OUT = /opted out of scanning/i
+
+export function createWebhookSecret(): string {
+  return randomBytes(32).toString('hex')
+}
+
+/**
+ * Signature sent as X-ContextDS-Signature so receivers can verify the payload
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+/**
+ * What a run found, from the token digest the watch last saw: nothing yet is the
+ * baseline, a matching digest is unchanged, anything else is drift
+ */
+export function detectWatchDrift(lastTokenHash: string | null, tokenHash: string): 'baseline' | 'unchanged' | 'changed' {
+  if (!lastTokenHash) return 'baseline'
+  return lastTokenHash === tokenHash ? 'unchanged' : 'changed'
+}
+
+/**
+ * Public shape of a watch; the webhook secret is never echoed back after creation
+ */
+export function serializeWatch(watch: TokenWatch) {
+  return {
+    id: watch.id,
+    domain: watch.domain,
+    url: watch.url,
+    cadence: watch.cadence,
+    depth: watch.depth,
+    webhookUrl: watch.webhookUrl,
+    isActive: watch.isActive,
+    nextRunAt: watch.nextRunAt.toISOString(),
+    lastRunAt: watch.lastRunAt?.toISOString() ?? null,
+    lastTokenHash: watch.lastTokenHash,
+    lastError: watch.lastError,
+    consecutiveFailures: watch.consecutiveFailures,
+    createdAt: watch.createdAt.toISOString()
+  }
+}
+
+export async function findOwnedWatch(id: string, userId: string): Promise<TokenWatch | null> {
+  const [watch] = await db
+    .select()
+    .from(tokenWatches)
+    .where(and(eq(tokenWatches.id, id), eq(tokenWatches.createdBy, userId)))
+    .limit(1)
+
+  return watch ?? null
+}
+
+/**
+ * Queue a scan job for each due watch, up to the limit. The scan worker runs
+ * them and reports back through recordWatchRun or recordWatchFailure
+ */
+export async function enqueueDueWatches(options: { limit: number }): Promise<WatchEnqueueResult[]> {
+  const results: WatchEnqueueResult[] = []
+
+  while (results.length < options.limit) {
+    const watch = await claimNextDueWatch()
+    if (!watch) break
+
+    try {
+      const job = await enqueueScanJob({
+        url: watch.url,
+        options: {
+          prettify: false,
+          includeComputed: process.env.DISABLE_COMPUTED_CSS !== '1',
+          mode: 'accurate',
+          depth: Math.min(3, Math.max(1, watch.depth)) as CrawlDepth,
+          skipCache: true,
+          onlyIfChanged: true
+        },
+        priority: PRIORITY_LANES.standard,
+        submittedBy: watch.createdBy,
+        watchId: watch.id
+      })
+      results.push({ watchId: watch.id, domain: watch.domain, jobId: job.id })
+    } catch (error) {
+      await recordWatchFailure(watch.id, error)
+      results.push({ watchId: watch.id, domain: watch.domain, error: error instanceof Error ? error.message : 'Failed to queue the scan' })
+    }
+  }
+
+  return results
+}
+
+/**
+ * Claim the most overdue active watch and move its next run forward, so that
+ * overlapping cron invocations never queue the same watch twice. A watch whose
+ * previous job is still queued or running waits for its next run
+ */
+async function claimNextDueWatch(): Promise<TokenWatch | null> {
+  const claimed = await db.execute(sql`
+    UPDATE token_watches
+    SET
+      next_run_at = NOW() + CASE cadence
+        WHEN 'hourly' THEN INTERVAL '1 hour'
+        WHEN 'daily' THEN INTERVAL '1 day'
+        ELSE INTERVAL '7 days'
+      END,
+      last_run_at = NOW(),
+      updated_at = NOW()
+    WHERE id = (
+      SELECT id FROM token_watches
+      WHERE is_active = TRUE AND next_run_at <= NOW()
+        AND NOT EXISTS (
+          SELECT 1 FROM submissions
+          WHERE submissions.watch_id = token_watches.id AND submissions.status IN ('queued', 'scanning')
+        )
+      ORDER BY next_run_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `)
+
+  const claimedId = (claimed as unknown as Array<{ id: string }>)[0]?.id
+  if (!claimedId) return null
+
+  const [watch] = await db.select().from(tokenWatches).where(eq(tokenWatches.id, claimedId)).limit(1)
+  return watch ?? null
+}
+
+/**
+ * Compare a completed watch job against the version the watch last saw, and
+ * post the drift to its webhook. Null when the watch was deleted meanwhile
+ */
+export async function recordWatchRun(watchId: string, result: ScanJobResult): Promise<WatchRunResult | null> {
+  const [watch] = await db.select().from(tokenWatches).where(eq(tokenWatches.id, watchId)).limit(1)
+  if (!watch) return null
+
+  try {
+    const { versionInfo } = result
+    const drift = detectWatchDrift(watch.lastTokenHash, versionInfo.tokenHash)
+
+    await db
+      .update(tokenWatches)
+      .set({
+        siteId: result.database.siteId,
+        lastTokenHash: versionInfo.tokenHash,
+        lastVersionId: versionInfo.tokenVersionId ?? watch.lastVersionId,
+        lastError: null,
+        consecutiveFailures: 0,
+        updatedAt: new Date()
+      })
+      .where(eq(tokenWatches.id, watch.id))
+
+    // The first run is the baseline; there is nothing to compare against
+    if (drift !== 'changed') {
+      console.log(`[token-watch] ${watch.domain}: ${drift} (v${versionInfo.versionNumber})`)
+      return { watchId: watch.id, domain: watch.domain, status: drift, versionNumber: versionInfo.versionNumber }
+    }
+
+    // The site's previous version may be newer than the watch's; diff against what the watch last saw
+    const [seen, current] = await Promise.all([
+      watch.lastVersionId ? loadVersionTokens(watch.lastVersionId) : null,
+      versionInfo.tokenVersionId ? loadVersionTokens(versionInfo.tokenVersionId) : null
+    ])
+    const diff = seen && current ? compareTokenSets(seen.tokensJson, current.tokensJson) : versionInfo.diff
+    const previousVersionNumber = seen?.versionNumber ?? versionInfo.previousVersionNumber ?? null
+
+    const changeCount = diff?.summary.totalChanges ?? 0
+    console.log(`[token-watch] ${watch.domain}: drift detected, v${previousVersionNumber} → v${versionInfo.versionNumber} (${changeCount} changes)`)
+
+    let webhook: WatchRunResult['webhook'] = 'skipped'
+    if (watch.webhookUrl && diff) {
+      const payload = buildDriftPayload(watch, {
+        versionNumber: versionInfo.versionNumber,
+        previousVersionNumber,
+        tokenSetId: result.database.tokenSetId,
+        tokenHash: versionInfo.tokenHash,
+        diff
+      })
+      webhook = await deliverWebhook(watch, payload) ? 'delivered' : 'failed'
+    }
+
+    return {
+      watchId: watch.id,
+      domain: watch.domain,
+      status: 'changed',
+      versionNumber: versionInfo.versionNumber,
+      changeCount,
+      webhook
+    }
+  } catch (error) {
+    return recordWatchFailure(watch.id, error)
+  }
+}
+
+/**
+ * Count a failed watch run (a job that failed for good, or one that could not
+ * be queued); the watch pauses after repeated failures
+ */
+export async function recordWatchFailure(watchId: string, error: unknown): Promise<WatchRunResult | null> {
+  const [watch] = await db.select().from(tokenWatches).where(eq(tokenWatches.id, watchId)).limit(1)
+  if (!watch) return null
+
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : 'Watch scan failed'
+  const failures = watch.consecutiveFailures + 1
+  // An owner opt-out stops the watch right away instead of after repeated failures
+  const optedOut = error instanceof SiteOptedOutError || OPTED_OUT.test(message)
+  console.warn(`[token-watch] ${watch.domain} failed (${failures}/${MAX_CONSECUTIVE_FAILURES}):`, message)
+
+  await db
+    .update(tokenWatches)
+    .set({
+      lastError: message,
+      consecutiveFailures: failures,
+      isActive: !optedOut && failures < MAX_CONSECUTIVE_FAILURES,
+      updatedAt: new Date()
+    })
+    .where(eq(tokenWatches.id, watch.id))
+    .catch((updateError: unknown) => console.error('[token-watch] Failed to record watch failure:', updateError))
+
+  return { watchId: watch.id, domain: watch.domain, status: 'failed', error: message }
+}
+
+export function buildDriftPayload(
+  watch: Pick<TokenWatch, 'id' | 'domain' | 'url'>,
+  version: {
+    versionNumber: number
+    previousVersionNumber: number | null
+    tokenSetId: string
+    tokenHash: string
+    diff: TokenDiff
+  }
+): DriftWebhookPayload {
+  const changes = [...version.diff.added, ...version.diff.removed, ...version.diff.modified]
+
+  return {
+    event: 'tokens.changed',
+    watchId: watch.id,
+    domain: watch.domain,
+    url: watch.url,
+    detectedAt: new Date().toISOString(),
+    version: {
+      number: version.versionNumber,
+      previous: version.previousVersionNumber,
+      tokenSetId: version.tokenSetId,
+      tokenHash: version.tokenHash
+    },
+    summary: version.diff.summary,
+    changes: changes.slice(0, MAX_CHANGES_IN_PAYLOAD).map(change => ({
+      path: change.path,
+      category: change.category,
+      changeType: change.changeType,
+      old: change.displayOld,
+      new: change.displayNew
+    })),
+    truncated: changes.length > MAX_CHANGES_IN_PAYLOAD,
+    changelog: generateChangelog(version.diff)
+  }
+}
+
+async function loadVersionTokens(versionId: string): Promise<{ versionNumber: number; tokensJson: W3CTokenSet } | null> {
+  const [version] = await db
+    .select({ versionNumber: tokenVersions.versionNumber, tokensJson: tokenSets.tokensJson })
+    .from(tokenVersions)
+    .innerJoin(tokenSets, eq(tokenSets.id, tokenVersions.tokenSetId))
+    .where(eq(tokenVersions.id, versionId))
+    .limit(1)
+
+  return version ? { versionNumber: version.versionNumber, tokensJson: version.tokensJson as W3CTokenSet } : null
+}
+
+async function deliverWebhook(watch: TokenWatch, payload: DriftWebhookPayload): Promise<boolean> {
+  if (!watch.webhookUrl) return false
+
+  const body = JSON.stringify(payload)
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'ContextDS-Watch/1.0',
+    'X-ContextDS-Event': payload.event
+  }
+  if (watch.webhookSecret) {
+    headers['X-ContextDS-Signature'] = signWebhookPayload(body, watch.webhookSecret)
+  }
+
+  try {
+    const response = await fetch(watch.webhookUrl, {
+      method: 'POST',
+      headers,
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT)
+    })
+
+    if (!response.ok) {
+      console.warn(`[token-watch] Webhook for ${watch.domain} returned ${response.status}`)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.warn(`[token-watch] Webhook for ${watch.domain} failed:`, error instanceof Error ? error.message : error)
+    return false
+  }
+}
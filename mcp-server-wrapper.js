@@ -3,8 +3,10 @@
 /**
  * ContextDS MCP Server Wrapper
  *
- * This wrapper enables Claude Desktop and other MCP clients to communicate
- * with the ContextDS API for design token extraction and analysis.
+ * Bridges MCP clients that only speak stdio (Claude Desktop and others) to the
+ * ContextDS Streamable HTTP endpoint. Every JSON-RPC line read from stdin is
+ * POSTed unchanged to /api/mcp and the reply is written back to stdout; the
+ * protocol itself (tools, resources, prompts) is implemented by the server.
  *
  * Usage:
  *   Add to Claude Desktop config:
@@ -20,6 +22,8 @@
  *       }
  *     }
  *   }
+ *
+ *   With database access, `bun run mcp:stdio` runs the same server in-process instead.
  */
 
 const { stdin, stdout, stderr } = require('process');
@@ -36,15 +40,16 @@ if (!API_KEY) {
 }
 
 if (DEBUG) {
-  stderr.write(`ContextDS MCP Server initialized\n`);
+  stderr.write(`ContextDS MCP bridge initialized\n`);
   stderr.write(`API URL: ${API_URL}\n`);
 }
 
 let buffer = '';
+let protocolVersion = null;
 
 stdin.setEncoding('utf8');
 
-stdin.on('data', async (chunk) => {
+stdin.on('data', (chunk) => {
   buffer += chunk;
 
   const lines = buffer.split('\n');
@@ -52,246 +57,81 @@ stdin.on('data', async (chunk) => {
 
   for (const line of lines) {
     if (!line.trim()) continue;
+    forward(line);
+  }
+});
 
-    try {
-      const request = JSON.parse(line);
-
-      if (DEBUG) {
-        stderr.write(`Received: ${request.method}\n`);
-      }
-
-      // Handle MCP protocol methods
-      if (request.method === 'initialize') {
-        const response = {
-          jsonrpc: '2.0',
-          id: request.id,
-          result: {
-            protocolVersion: '0.1.0',
-            serverInfo: {
-              name: 'contextds',
-              version: '1.0.0'
-            },
-            capabilities: {
-              tools: {}
-            }
-          }
-        };
-        stdout.write(JSON.stringify(response) + '\n');
-      }
-
-      else if (request.method === 'tools/list') {
-        const response = {
-          jsonrpc: '2.0',
-          id: request.id,
-          result: {
-            tools: [
-              {
-                name: 'scan_tokens',
-                description: 'Extract design tokens (colors, typography, spacing, shadows, etc.) from any website with AI-powered analysis',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    url: {
-                      type: 'string',
-                      format: 'uri',
-                      description: 'Website URL to scan (e.g., https://stripe.com)'
-                    },
-                    depth: {
-                      type: 'string',
-                      enum: ['1', '2', '3'],
-                      default: '1',
-                      description: 'Scan depth: 1=homepage only, 2=+key pages, 3=comprehensive'
-                    },
-                    prettify: {
-                      type: 'boolean',
-                      default: false,
-                      description: 'Format CSS output for readability'
-                    },
-                    quality: {
-                      type: 'string',
-                      enum: ['basic', 'standard', 'premium'],
-                      default: 'standard',
-                      description: 'Analysis quality level (affects AI processing)'
-                    }
-                  },
-                  required: ['url']
-                }
-              },
-              {
-                name: 'get_tokens',
-                description: 'Retrieve previously scanned design tokens from cache (fast lookup)',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    url: {
-                      type: 'string',
-                      format: 'uri',
-                      description: 'Website URL to retrieve tokens for'
-                    },
-                    version: {
-                      type: 'string',
-                      description: 'Optional: specific token set version to retrieve'
-                    }
-                  },
-                  required: ['url']
-                }
-              },
-              {
-                name: 'layout_profile',
-                description: 'Analyze layout patterns, grid systems, spacing scales, and responsive breakpoints',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    url: {
-                      type: 'string',
-                      format: 'uri',
-                      description: 'Website URL to profile'
-                    },
-                    pages: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Specific pages to analyze (e.g., ["/", "/pricing", "/features"])'
-                    },
-                    viewports: {
-                      type: 'array',
-                      items: { type: 'number' },
-                      description: 'Viewport widths for responsive analysis (e.g., [375, 768, 1440])'
-                    }
-                  },
-                  required: ['url']
-                }
-              },
-              {
-                name: 'research_artifacts',
-                description: 'Discover design system documentation, Storybook, Figma files, and GitHub repos',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    url: {
-                      type: 'string',
-                      format: 'uri',
-                      description: 'Company website URL'
-                    },
-                    github_org: {
-                      type: 'string',
-                      description: 'Optional: GitHub organization name to search for design system repos'
-                    }
-                  },
-                  required: ['url']
-                }
-              },
-              {
-                name: 'compose_pack',
-                description: 'Generate AI implementation guide with framework-specific mapping hints and best practices',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    token_set: {
-                      type: 'object',
-                      description: 'Design token set from scan_tokens'
-                    },
-                    layout_profile: {
-                      type: 'object',
-                      description: 'Optional: layout profile for enhanced recommendations'
-                    },
-                    artifacts: {
-                      type: 'object',
-                      description: 'Optional: design system artifacts for context'
-                    },
-                    intent: {
-                      type: 'string',
-                      enum: ['component-authoring', 'marketing-site'],
-                      description: 'Implementation intent for tailored guidance'
-                    }
-                  },
-                  required: ['token_set']
-                }
-              }
-            ]
-          }
-        };
-        stdout.write(JSON.stringify(response) + '\n');
-      }
-
-      else if (request.method === 'tools/call') {
-        const { name, arguments: args } = request.params;
-        const endpoint = `${API_URL}/${name.replace('_', '-')}`;
+async function forward(line) {
+  let message;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    writeMessage({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    return;
+  }
 
-        if (DEBUG) {
-          stderr.write(`Calling tool: ${name}\n`);
-          stderr.write(`Endpoint: ${endpoint}\n`);
-        }
+  if (DEBUG) {
+    stderr.write(`Forwarding: ${message.method || 'response'}\n`);
+  }
 
-        const response = await makeRequest(endpoint, args);
+  try {
+    const { status, body } = await postMessage(line);
 
-        if (DEBUG) {
-          stderr.write(`Response status: ${response.status || 'success'}\n`);
-        }
+    // Remember the negotiated version; later requests must send it as a header
+    if (message.method === 'initialize' && body && body.result) {
+      protocolVersion = body.result.protocolVersion;
+    }
 
-        stdout.write(JSON.stringify({
-          jsonrpc: '2.0',
-          id: request.id,
-          result: {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(response, null, 2)
-              }
-            ]
-          }
-        }) + '\n');
-      }
+    if (status === 202 || !body) return;
+    writeMessage(body);
+  } catch (error) {
+    if (DEBUG) {
+      stderr.write(`Error: ${error.message}\n`);
+      stderr.write(`Stack: ${error.stack}\n`);
+    }
 
-      else {
-        // Unknown method
-        stdout.write(JSON.stringify({
-          jsonrpc: '2.0',
-          id: request.id,
-          error: {
-            code: -32601,
-            message: `Method not found: ${request.method}`
-          }
-        }) + '\n');
-      }
+    // Notifications never get a reply, not even an error
+    if (message.id === undefined) return;
 
-    } catch (error) {
-      if (DEBUG) {
-        stderr.write(`Error: ${error.message}\n`);
-        stderr.write(`Stack: ${error.stack}\n`);
+    writeMessage({
+      jsonrpc: '2.0',
+      id: message.id,
+      error: {
+        code: -32603,
+        message: error.message,
+        data: DEBUG ? error.stack : undefined
       }
-
-      stdout.write(JSON.stringify({
-        jsonrpc: '2.0',
-        id: request.id || null,
-        error: {
-          code: -32603,
-          message: error.message,
-          data: DEBUG ? error.stack : undefined
-        }
-      }) + '\n');
-    }
+    });
   }
-});
+}
+
+function writeMessage(message) {
+  stdout.write(JSON.stringify(message) + '\n');
+}
 
-function makeRequest(url, body) {
+function postMessage(requestBody) {
   return new Promise((resolve, reject) => {
-    const urlObj = new URL(url);
+    const urlObj = new URL(API_URL);
     const client = urlObj.protocol === 'https:' ? https : http;
 
-    const requestBody = JSON.stringify(body);
+    const headers = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      'Authorization': `Bearer ${API_KEY}`,
+      'Content-Length': Buffer.byteLength(requestBody),
+      'User-Agent': 'ContextDS-MCP-Client/2.0.0'
+    };
+    if (protocolVersion) {
+      headers['MCP-Protocol-Version'] = protocolVersion;
+    }
 
     const options = {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${API_KEY}`,
-        'Content-Length': Buffer.byteLength(requestBody),
-        'User-Agent': 'ContextDS-MCP-Client/1.0.0'
-      },
+      headers,
       timeout: 120000 // 2 minute timeout for scans
     };
 
-    const req = client.request(url, options, (res) => {
+    const req = client.request(API_URL, options, (res) => {
       let data = '';
 
       res.on('data', chunk => {
@@ -299,13 +139,19 @@ function makeRequest(url, body) {
       });
 
       res.on('end', () => {
+        if (!data) {
+          resolve({ status: res.statusCode, body: null });
+          return;
+        }
+
         try {
           const parsed = JSON.parse(data);
 
-          if (res.statusCode >= 400) {
+          // JSON-RPC errors (auth, rate limit, protocol) are passed through as-is
+          if (res.statusCode >= 400 && !parsed.jsonrpc) {
             reject(new Error(parsed.error || `HTTP ${res.statusCode}`));
           } else {
-            resolve(parsed);
+            resolve({ status: res.statusCode, body: parsed });
           }
         } catch (e) {
           reject(new Error(`Invalid JSON response: ${data.substring(0, 200)}`));
@@ -351,5 +197,5 @@ process.on('unhandledRejection', (reason, promise) => {
 });
 
 if (DEBUG) {
-  stderr.write('ContextDS MCP Server ready and listening on stdin...\n');
-}
\ No newline at end of file
+  stderr.write('ContextDS MCP bridge ready and listening on stdin...\n');
+}
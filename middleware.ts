@@ -40,7 +40,7 @@ export async function middleware(request: NextRequest) {
   }
 
   // API key validation for MCP endpoints
-  if (request.nextUrl.pathname.startsWith('/api/mcp/')) {
+  if (request.nextUrl.pathname === '/api/mcp' || request.nextUrl.pathname.startsWith('/api/mcp/')) {
     const apiKey = request.headers.get('Authorization')?.replace('Bearer ', '')
 
     if (!apiKey) {
@@ -77,6 +77,22 @@ export default defineConfig({
 			},
 		},
 
+		// Exporter golden-file and importer tests (no browser)
+		{
+			name: 'exporters',
+			testMatch: /exporters\/.*\.spec\.ts/,
+		},
+		{
+			name: 'importers',
+			testMatch: /importers\/.*\.spec\.ts/,
+		},
+
+		// Unit tests of library modules: pure functions and the in-memory scan repository (no browser, no server)
+		{
+			name: 'unit',
+			testMatch: /unit\/.*\.spec\.ts/,
+		},
+
 		// Accessibility testing project
 		{
 			name: 'accessibility',
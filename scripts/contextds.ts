@@ -0,0 +1,34 @@
+#!/usr/bin/env bun
+
+/**
+ * contextds CLI
+ *
+ * Scans a site into design tokens and diffs token files locally, without the
+ * database or the web app, so it fits in scripts, Makefiles and CI jobs.
+ *
+ * Usage:
+ *   bun run scripts/contextds.ts scan stripe.com --format tailwind --out tokens/
+ *   bun run scripts/contextds.ts scan stripe.com --format all --out tokens/ --record stripe.har
+ *   bun run scripts/contextds.ts scan stripe.com --format css-variables --replay stripe.har > tokens.css
+ *   bun run scripts/contextds.ts diff tokens-old/design-tokens.json tokens/design-tokens.json --fail-on-change
+ *   bun run scripts/contextds.ts formats
+ */
+
+import * as dotenv from 'dotenv'
+
+// stdout is reserved for command output so it can be piped; collector logging goes to stderr
+console.log = console.error
+console.info = console.error
+
+dotenv.config({ path: '.env.local', quiet: true })
+
+async function main() {
+  // Imported after dotenv so AI_PROVIDER and friends are visible
+  const { runCli } = await import('../lib/cli/contextds')
+  process.exit(await runCli(process.argv.slice(2)))
+}
+
+main().catch(error => {
+  console.error('[contextds] Fatal error:', error)
+  process.exit(1)
+})
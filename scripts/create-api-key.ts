@@ -3,84 +3,74 @@
 /**
  * Create API Key Script
  *
- * Generates a secure API key for MCP server access
+ * Issues a hashed, scoped API key for MCP and API access through the same code
+ * as POST /api/keys
  *
  * Usage:
- *   bun run scripts/create-api-key.ts --name="Claude Desktop" --tier="pro"
- *   bun run scripts/create-api-key.ts --user-id="user-123" --tier="free"
+ *   bun run scripts/create-api-key.ts --user-id="<uuid>" --name="Claude Desktop"
+ *   bun run scripts/create-api-key.ts --user-id="<uuid>" --scopes="tokens:read,mcp:*" --quota=100 --expires=90
+ *   bun run scripts/create-api-key.ts --user-id="<uuid>" --name="Admin" --scopes="*"
  */
 
-import { createHash, randomBytes } from 'node:crypto'
-import { db } from '../lib/db'
-import { apiKeys } from '../lib/db/schema'
+import * as dotenv from 'dotenv'
 
-async function createApiKey(options: {
-  userId?: string
-  name: string
-  tier: 'free' | 'pro' | 'enterprise'
-  expiresInDays?: number
-}) {
-  try {
-    // Generate secure API key (64 hex characters)
-    const rawKey = randomBytes(32).toString('hex')
-    const keyHash = createHash('sha256').update(rawKey).digest('hex')
+dotenv.config({ path: '.env.local', quiet: true })
 
-    // Calculate expiration
-    const expiresAt = new Date()
-    expiresAt.setDate(expiresAt.getDate() + (options.expiresInDays || 365))
+async function main() {
+  const args = process.argv.slice(2)
+  const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3)
 
-    // Insert into database
-    const [newKey] = await db.insert(apiKeys).values({
-      userId: options.userId || null,
-      name: options.name,
-      keyHash,
-      tier: options.tier,
-      isActive: true,
-      expiresAt,
-      createdAt: new Date()
-    }).returning()
+  const userId = option('user-id')
+  if (!userId) {
+    console.error('❌ --user-id is required')
+    process.exit(2)
+  }
 
-    console.log('\n✅ API Key Created Successfully!\n')
-    console.log('═'.repeat(80))
-    console.log(`📝 Name:        ${options.name}`)
-    console.log(`🎫 Tier:        ${options.tier}`)
-    console.log(`🔑 API Key:     ${rawKey}`)
-    console.log(`📅 Expires:     ${expiresAt.toISOString()}`)
-    console.log(`🆔 Key ID:      ${newKey.id}`)
-    console.log('═'.repeat(80))
-    console.log('\n⚠️  IMPORTANT: Save this API key now! It cannot be retrieved later.\n')
-    console.log('Add to your environment:')
-    console.log(`export CONTEXTDS_API_KEY="${rawKey}"`)
-    console.log('\nOr add to Claude Desktop config:')
-    console.log(JSON.stringify({
-      mcpServers: {
-        contextds: {
-          command: 'node',
-          args: ['/path/to/mcp-server-wrapper.js'],
-          env: {
-            CONTEXTDS_API_KEY: rawKey,
-            CONTEXTDS_API_URL: API_URL || 'http://localhost:3000/api/mcp'
-          }
-        }
-      }
-    }, null, 2))
-    console.log('')
+  const scopes = option('scopes')?.split(',').map(scope => scope.trim()).filter(Boolean)
+  const quota = option('quota')
+  const expires = option('expires')
 
-  } catch (error) {
-    console.error('❌ Failed to create API key:', error)
-    process.exit(1)
-  } finally {
-    process.exit(0)
-  }
-}
+  // Imported after dotenv so the database client sees DATABASE_URL
+  const { createApiKey, DEFAULT_API_KEY_SCOPES } = await import('../lib/auth/api-keys')
+
+  const { key, apiKey } = await createApiKey({
+    userId,
+    name: option('name') || 'MCP Client',
+    scopes: scopes?.length ? scopes : DEFAULT_API_KEY_SCOPES,
+    monthlyQuota: quota ? parseInt(quota, 10) : null,
+    expiresInDays: parseInt(expires || '365', 10)
+  })
 
-// Parse command line arguments
-const args = process.argv.slice(2)
-const options = {
-  userId: args.find(a => a.startsWith('--user-id='))?.split('=')[1],
-  name: args.find(a => a.startsWith('--name='))?.split('=')[1] || 'MCP Client',
-  tier: (args.find(a => a.startsWith('--tier='))?.split('=')[1] || 'free') as 'free' | 'pro' | 'enterprise',
-  expiresInDays: parseInt(args.find(a => a.startsWith('--expires='))?.split('=')[1] || '365')
+  console.log('\n✅ API Key Created Successfully!\n')
+  console.log('═'.repeat(80))
+  console.log(`📝 Name:        ${apiKey.name}`)
+  console.log(`🔐 Scopes:      ${apiKey.scopes.join(', ')}`)
+  console.log(`📊 Quota:       ${apiKey.monthlyQuota ?? 'subscription scans quota'}`)
+  console.log(`🔑 API Key:     ${key}`)
+  console.log(`📅 Expires:     ${apiKey.expiresAt?.toISOString() ?? 'never'}`)
+  console.log(`🆔 Key ID:      ${apiKey.id}`)
+  console.log('═'.repeat(80))
+  console.log('\n⚠️  IMPORTANT: Save this API key now! It cannot be retrieved later.\n')
+  console.log('Add to your environment:')
+  console.log(`export CONTEXTDS_API_KEY="${key}"`)
+  console.log('\nOr add to Claude Desktop config:')
+  console.log(JSON.stringify({
+    mcpServers: {
+      contextds: {
+        command: 'bun',
+        args: ['run', '/path/to/scripts/mcp-stdio.ts'],
+        env: {
+          DATABASE_URL: '...',
+          CONTEXTDS_API_KEY: key
+        }
+      }
+    }
+  }, null, 2))
+  console.log('')
+  process.exit(0)
 }
 
-createApiKey(options)
\ No newline at end of file
+main().catch(error => {
+  console.error('❌ Failed to create API key:', error)
+  process.exit(1)
+})
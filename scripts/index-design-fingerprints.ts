@@ -0,0 +1,51 @@
+#!/usr/bin/env bun
+
+/**
+ * Index Design Fingerprints Script
+ *
+ * Builds the design fingerprint behind /api/sites/:domain/similar for every
+ * site. Scans and official token sets keep them current afterwards; run this
+ * once after applying migration 0021, or with --domain to re-index one site
+ *
+ * Usage:
+ *   bun run scripts/index-design-fingerprints.ts
+ *   bun run scripts/index-design-fingerprints.ts --domain=stripe.com
+ */
+
+import * as dotenv from 'dotenv'
+
+dotenv.config({ path: '.env.local', quiet: true })
+
+async function main() {
+  const domain = process.argv.slice(2).find(arg => arg.startsWith('--domain='))?.slice('--domain='.length)
+
+  // Imported after dotenv so the database client sees DATABASE_URL
+  const { db, sites } = await import('../lib/db')
+  const { eq } = await import('drizzle-orm')
+  const { indexSiteFingerprint } = await import('../lib/db/design-fingerprints')
+
+  const rows: Array<{ id: string; domain: string }> = await db
+    .select({ id: sites.id, domain: sites.domain })
+    .from(sites)
+    .where(domain ? eq(sites.domain, domain) : eq(sites.ownerOptout, false))
+
+  if (!rows.length) {
+    console.error(domain ? `❌ No site found for ${domain}` : '❌ No sites to index')
+    process.exit(domain ? 1 : 0)
+  }
+
+  let indexed = 0
+  for (const [index, site] of rows.entries()) {
+    const fingerprint = await indexSiteFingerprint(site.id)
+    if (fingerprint) indexed++
+    console.log(`[${index + 1}/${rows.length}] ${site.domain}: ${fingerprint ? `${fingerprint.palette.length} colors, ${fingerprint.archetypes.length} archetypes` : 'no public token set'}`)
+  }
+
+  console.log(`\n✅ Indexed ${indexed} of ${rows.length} sites`)
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('❌ Failed to index design fingerprints:', error)
+  process.exit(1)
+})
@@ -0,0 +1,51 @@
+#!/usr/bin/env bun
+
+/**
+ * Index Token Colors Script
+ *
+ * Fills token_colors (the color search index) from each site's top-ranked
+ * public token set. Scans and official token sets keep it current afterwards;
+ * run this once after applying migration 0020, or with --domain to re-index one site
+ *
+ * Usage:
+ *   bun run scripts/index-token-colors.ts
+ *   bun run scripts/index-token-colors.ts --domain=stripe.com
+ */
+
+import * as dotenv from 'dotenv'
+
+dotenv.config({ path: '.env.local', quiet: true })
+
+async function main() {
+  const domain = process.argv.slice(2).find(arg => arg.startsWith('--domain='))?.slice('--domain='.length)
+
+  // Imported after dotenv so the database client sees DATABASE_URL
+  const { db, sites } = await import('../lib/db')
+  const { eq } = await import('drizzle-orm')
+  const { indexSiteColors } = await import('../lib/db/color-index')
+
+  const rows: Array<{ id: string; domain: string }> = await db
+    .select({ id: sites.id, domain: sites.domain })
+    .from(sites)
+    .where(domain ? eq(sites.domain, domain) : eq(sites.ownerOptout, false))
+
+  if (!rows.length) {
+    console.error(domain ? `❌ No site found for ${domain}` : '❌ No sites to index')
+    process.exit(domain ? 1 : 0)
+  }
+
+  let total = 0
+  for (const [index, site] of rows.entries()) {
+    const count = await indexSiteColors(site.id)
+    total += count
+    console.log(`[${index + 1}/${rows.length}] ${site.domain}: ${count} colors`)
+  }
+
+  console.log(`\n✅ Indexed ${total} colors across ${rows.length} sites`)
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('❌ Failed to index token colors:', error)
+  process.exit(1)
+})
@@ -0,0 +1,44 @@
+#!/usr/bin/env bun
+
+/**
+ * ContextDS MCP server (stdio)
+ *
+ * Runs the MCP protocol handler in-process against the database. Set
+ * CONTEXTDS_API_KEY to enable the tools that write (scan_tokens, vote_token);
+ * its mcp:<tool> scopes and scan quota apply as over HTTP.
+ *
+ * Usage:
+ *   bun run scripts/mcp-stdio.ts
+ *
+ * Claude Desktop config:
+ *   { "command": "bun", "args": ["run", "/path/to/scripts/mcp-stdio.ts"], "env": { "DATABASE_URL": "...", "CONTEXTDS_API_KEY": "..." } }
+ */
+
+import * as dotenv from 'dotenv'
+
+// stdout is reserved for protocol messages, including during module initialization
+console.log = console.error
+console.info = console.error
+
+dotenv.config({ path: '.env.local', quiet: true })
+
+async function main() {
+  // Imported after dotenv so the database client sees DATABASE_URL
+  const { McpProtocolHandler } = await import('../lib/mcp/protocol')
+  const { runStdioTransport } = await import('../lib/mcp/stdio')
+  const { resolveApiKey } = await import('../lib/auth/middleware')
+
+  const rawKey = process.env.CONTEXTDS_API_KEY
+  const apiKey = rawKey ? await resolveApiKey(rawKey) : null
+  if (rawKey && !apiKey) {
+    console.error('[mcp] CONTEXTDS_API_KEY is invalid or expired; write tools are disabled')
+  }
+
+  await runStdioTransport(new McpProtocolHandler({ userId: apiKey?.userId ?? null, apiKey }))
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('[mcp] Fatal error:', error)
+  process.exit(1)
+})
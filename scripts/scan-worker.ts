@@ -0,0 +1,56 @@
+#!/usr/bin/env bun
+
+/**
+ * Scan Worker
+ *
+ * Consumes queued scans (POST /api/scan with SCAN_QUEUE_ENABLED=1) until stopped
+ * with SIGINT/SIGTERM; in-flight scans finish before the process exits.
+ *
+ * Usage:
+ *   bun run scripts/scan-worker.ts
+ *   bun run scripts/scan-worker.ts --concurrency=2 --per-domain=1
+ *   bun run scripts/scan-worker.ts --min-priority=10   # paid lane only
+ */
+
+import * as dotenv from 'dotenv'
+
+dotenv.config({ path: '.env.local' })
+
+function readFlag(name: string): number | undefined {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`))
+  if (!arg) return undefined
+
+  const parsed = Number(arg.split('=')[1])
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+async function main() {
+  // Imported after dotenv so the database client sees DATABASE_URL
+  const { runScanWorker } = await import('../lib/workers/scan-worker')
+
+  const controller = new AbortController()
+  const stop = (signal: string) => {
+    if (controller.signal.aborted) {
+      console.log(`Received ${signal} again, exiting immediately`)
+      process.exit(1)
+    }
+    console.log(`Received ${signal}, finishing in-flight scans...`)
+    controller.abort()
+  }
+  process.on('SIGINT', () => stop('SIGINT'))
+  process.on('SIGTERM', () => stop('SIGTERM'))
+
+  await runScanWorker({
+    concurrency: readFlag('concurrency'),
+    minPriority: readFlag('min-priority'),
+    perDomainLimit: readFlag('per-domain'),
+    signal: controller.signal
+  })
+
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('❌ Scan worker crashed:', error)
+  process.exit(1)
+})
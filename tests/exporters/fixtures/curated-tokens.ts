@@ -0,0 +1,48 @@
+import type { CuratedTokenSet } from '@/lib/analyzers/token-curator';
+
+/**
+ * Deterministic curated token set used by the exporter golden-file tests.
+ * Covers every category the platform exporters emit.
+ */
+export const CURATED_TOKENS: CuratedTokenSet = {
+	colors: [
+		{ name: 'color-blue-1', value: '#3b82f6', usage: 42, confidence: 95, percentage: 30, category: 'color', semantic: 'Primary/Brand' },
+		{ name: 'color-gray-2', value: '#0f172a', usage: 38, confidence: 92, percentage: 27, category: 'color', semantic: 'Text' },
+		{ name: 'color-gray-3', value: '#ffffff', usage: 30, confidence: 90, percentage: 21, category: 'color', semantic: 'Background' },
+		{ name: 'color-gray-4', value: '#e2e8f0', usage: 18, confidence: 85, percentage: 13, category: 'color', semantic: 'Grayscale/Light' },
+		{ name: 'color-gray-5', value: '#f1f5f9', usage: 12, confidence: 80, percentage: 9, category: 'color', semantic: 'Grayscale/Light' },
+	],
+	typography: {
+		families: [
+			{ name: 'font-inter-1', value: 'Inter, sans-serif', usage: 50, confidence: 95, percentage: 80, category: 'typography', semantic: 'Sans-serif' },
+			{ name: 'font-jetbrains-mono-2', value: '"JetBrains Mono", monospace', usage: 12, confidence: 85, percentage: 20, category: 'typography', semantic: 'Monospace/Code' },
+		],
+		sizes: [
+			{ name: 'text-sm-1', value: '14px', usage: 40, confidence: 90, percentage: 40, category: 'typography', semantic: 'Small' },
+			{ name: 'text-base-2', value: '1rem', usage: 35, confidence: 90, percentage: 35, category: 'typography', semantic: 'Base' },
+			{ name: 'text-3xl-3', value: '2rem', usage: 10, confidence: 80, percentage: 10, category: 'typography', semantic: 'Heading' },
+		],
+		weights: [
+			{ name: 'font-weight-400-1', value: '400', usage: 60, confidence: 95, percentage: 60, category: 'typography', semantic: 'Regular' },
+			{ name: 'font-weight-600-2', value: '600', usage: 25, confidence: 90, percentage: 25, category: 'typography', semantic: 'Semibold' },
+			{ name: 'font-weight-700-3', value: '700', usage: 15, confidence: 85, percentage: 15, category: 'typography', semantic: 'Bold' },
+		],
+	},
+	spacing: [
+		{ name: 'spacing-1', value: '4px', usage: 30, confidence: 90, percentage: 30, category: 'spacing', semantic: 'Tiny' },
+		{ name: 'spacing-2', value: '8px', usage: 45, confidence: 92, percentage: 45, category: 'spacing', semantic: 'Small' },
+		{ name: 'spacing-3', value: '1.5rem', usage: 25, confidence: 88, percentage: 25, category: 'spacing', semantic: 'Large' },
+	],
+	radius: [
+		{ name: 'radius-1', value: '6px', usage: 20, confidence: 90, percentage: 60, category: 'radius', semantic: 'Medium' },
+		{ name: 'radius-2', value: '9999px', usage: 8, confidence: 85, percentage: 40, category: 'radius', semantic: 'Full/Circle' },
+	],
+	shadows: [
+		{ name: 'shadow-sm-1', value: '0 1px 2px 0 rgba(0, 0, 0, 0.05)', usage: 15, confidence: 85, percentage: 60, category: 'shadow', semantic: 'Subtle' },
+		{ name: 'shadow-lg-2', value: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -4px rgba(0, 0, 0, 0.1)', usage: 10, confidence: 80, percentage: 40, category: 'shadow', semantic: 'Prominent' },
+	],
+	motion: [
+		{ name: 'duration-fast-1', value: '150ms', usage: 20, confidence: 85, percentage: 67, category: 'motion', semantic: 'Fast' },
+		{ name: 'duration-normal-2', value: '0.3s', usage: 10, confidence: 80, percentage: 33, category: 'motion', semantic: 'Normal' },
+	],
+};
@@ -0,0 +1,151 @@
+// Example Design System - Flutter
+// Generated: <timestamp>
+// Do not edit directly, this file was generated by ContextDS
+
+import 'dart:ui' show lerpDouble;
+
+import 'package:flutter/material.dart';
+
+class DesignTokens {
+  DesignTokens._();
+
+  // Colors
+  static const Color colorPrimaryBrand = Color(0xFF3B82F6);
+  static const Color colorText = Color(0xFF0F172A);
+  static const Color colorBackground = Color(0xFFFFFFFF);
+  static const Color colorGrayscaleLight = Color(0xFFE2E8F0);
+  static const Color colorGrayscaleLight2 = Color(0xFFF1F5F9);
+
+  // Spacing
+  static const double spacingTiny = 4.0;
+  static const double spacingSmall = 8.0;
+  static const double spacingLarge = 24.0;
+
+  // Radius
+  static const double radiusMedium = 6.0;
+  static const double radiusFullCircle = 9999.0;
+
+  // Font sizes
+  static const double fontSizeSmall = 14.0;
+  static const double fontSizeBase = 16.0;
+  static const double fontSizeHeading = 32.0;
+
+  // Font families
+  static const String fontFamilySansSerif = 'Inter';
+  static const String fontFamilyMonospaceCode = 'JetBrains Mono';
+
+  // Text styles
+  static const TextStyle textSmall = TextStyle(fontFamily: 'Inter', fontSize: 14.0, fontWeight: FontWeight.w400);
+  static const TextStyle textBase = TextStyle(fontFamily: 'Inter', fontSize: 16.0, fontWeight: FontWeight.w400);
+  static const TextStyle textHeading = TextStyle(fontFamily: 'Inter', fontSize: 32.0, fontWeight: FontWeight.w700);
+
+  // Shadows
+  static const List<BoxShadow> shadowSubtle = [BoxShadow(color: Color(0x0D000000), offset: Offset(0.0, 1.0), blurRadius: 2.0, spreadRadius: 0.0)];
+  static const List<BoxShadow> shadowProminent = [BoxShadow(color: Color(0x1A000000), offset: Offset(0.0, 10.0), blurRadius: 15.0, spreadRadius: -3.0), BoxShadow(color: Color(0x1A000000), offset: Offset(0.0, 4.0), blurRadius: 6.0, spreadRadius: -4.0)];
+
+  // Durations
+  static const Duration durationFast = Duration(milliseconds: 150);
+  static const Duration durationNormal = Duration(milliseconds: 300);
+}
+
+@immutable
+class DesignTokensTheme extends ThemeExtension<DesignTokensTheme> {
+  const DesignTokensTheme({
+    required this.colorPrimaryBrand,
+    required this.colorText,
+    required this.colorBackground,
+    required this.colorGrayscaleLight,
+    required this.colorGrayscaleLight2,
+    required this.spacingTiny,
+    required this.spacingSmall,
+    required this.spacingLarge,
+    required this.radiusMedium,
+    required this.radiusFullCircle,
+    required this.textSmall,
+    required this.textBase,
+    required this.textHeading,
+  });
+
+  final Color colorPrimaryBrand;
+  final Color colorText;
+  final Color colorBackground;
+  final Color colorGrayscaleLight;
+  final Color colorGrayscaleLight2;
+  final double spacingTiny;
+  final double spacingSmall;
+  final double spacingLarge;
+  final double radiusMedium;
+  final double radiusFullCircle;
+  final TextStyle textSmall;
+  final TextStyle textBase;
+  final TextStyle textHeading;
+
+  static const DesignTokensTheme standard = DesignTokensTheme(
+    colorPrimaryBrand: DesignTokens.colorPrimaryBrand,
+    colorText: DesignTokens.colorText,
+    colorBackground: DesignTokens.colorBackground,
+    colorGrayscaleLight: DesignTokens.colorGrayscaleLight,
+    colorGrayscaleLight2: DesignTokens.colorGrayscaleLight2,
+    spacingTiny: DesignTokens.spacingTiny,
+    spacingSmall: DesignTokens.spacingSmall,
+    spacingLarge: DesignTokens.spacingLarge,
+    radiusMedium: DesignTokens.radiusMedium,
+    radiusFullCircle: DesignTokens.radiusFullCircle,
+    textSmall: DesignTokens.textSmall,
+    textBase: DesignTokens.textBase,
+    textHeading: DesignTokens.textHeading,
+  );
+
+  @override
+  DesignTokensTheme copyWith({
+    Color? colorPrimaryBrand,
+    Color? colorText,
+    Color? colorBackground,
+    Color? colorGrayscaleLight,
+    Color? colorGrayscaleLight2,
+    double? spacingTiny,
+    double? spacingSmall,
+    double? spacingLarge,
+    double? radiusMedium,
+    double? radiusFullCircle,
+    TextStyle? textSmall,
+    TextStyle? textBase,
+    TextStyle? textHeading,
+  }) {
+    return DesignTokensTheme(
+      colorPrimaryBrand: colorPrimaryBrand ?? this.colorPrimaryBrand,
+      colorText: colorText ?? this.colorText,
+      colorBackground: colorBackground ?? this.colorBackground,
+      colorGrayscaleLight: colorGrayscaleLight ?? this.colorGrayscaleLight,
+      colorGrayscaleLight2: colorGrayscaleLight2 ?? this.colorGrayscaleLight2,
+      spacingTiny: spacingTiny ?? this.spacingTiny,
+      spacingSmall: spacingSmall ?? this.spacingSmall,
+      spacingLarge: spacingLarge ?? this.spacingLarge,
+      radiusMedium: radiusMedium ?? this.radiusMedium,
+      radiusFullCircle: radiusFullCircle ?? this.radiusFullCircle,
+      textSmall: textSmall ?? this.textSmall,
+      textBase: textBase ?? this.textBase,
+      textHeading: textHeading ?? this.textHeading,
+    );
+  }
+
+  @override
+  DesignTokensTheme lerp(ThemeExtension<DesignTokensTheme>? other, double t) {
+    if (other is! DesignTokensTheme) return this;
+    return DesignTokensTheme(
+      colorPrimaryBrand: Color.lerp(colorPrimaryBrand, other.colorPrimaryBrand, t)!,
+      colorText: Color.lerp(colorText, other.colorText, t)!,
+      colorBackground: Color.lerp(colorBackground, other.colorBackground, t)!,
+      colorGrayscaleLight: Color.lerp(colorGrayscaleLight, other.colorGrayscaleLight, t)!,
+      colorGrayscaleLight2: Color.lerp(colorGrayscaleLight2, other.colorGrayscaleLight2, t)!,
+      spacingTiny: lerpDouble(spacingTiny, other.spacingTiny, t)!,
+      spacingSmall: lerpDouble(spacingSmall, other.spacingSmall, t)!,
+      spacingLarge: lerpDouble(spacingLarge, other.spacingLarge, t)!,
+      radiusMedium: lerpDouble(radiusMedium, other.radiusMedium, t)!,
+      radiusFullCircle: lerpDouble(radiusFullCircle, other.radiusFullCircle, t)!,
+      textSmall: TextStyle.lerp(textSmall, other.textSmall, t)!,
+      textBase: TextStyle.lerp(textBase, other.textBase, t)!,
+      textHeading: TextStyle.lerp(textHeading, other.textHeading, t)!,
+    );
+  }
+}
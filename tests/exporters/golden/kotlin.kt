@@ -0,0 +1,67 @@
+// Example Design System - Jetpack Compose
+// Generated: <timestamp>
+// Do not edit directly, this file was generated by ContextDS
+
+package com.example.tokens
+
+import androidx.compose.ui.graphics.Color
+import androidx.compose.ui.text.TextStyle
+import androidx.compose.ui.text.font.FontFamily
+import androidx.compose.ui.text.font.FontWeight
+import androidx.compose.ui.unit.dp
+import androidx.compose.ui.unit.sp
+
+object DesignTokens {
+
+    object Colors {
+        val PrimaryBrand = Color(0xFF3B82F6)
+        val Text = Color(0xFF0F172A)
+        val Background = Color(0xFFFFFFFF)
+        val GrayscaleLight = Color(0xFFE2E8F0)
+        val GrayscaleLight2 = Color(0xFFF1F5F9)
+    }
+
+    object Spacing {
+        val Tiny = 4.dp
+        val Small = 8.dp
+        val Large = 24.dp
+    }
+
+    object Radius {
+        val Medium = 6.dp
+        val FullCircle = 9999.dp
+    }
+
+    object FontSize {
+        val Small = 14.sp
+        val Base = 16.sp
+        val Heading = 32.sp
+    }
+
+    object FontWeights {
+        val Regular = FontWeight.Normal
+        val Semibold = FontWeight.SemiBold
+        val Bold = FontWeight.Bold
+    }
+
+    object FontFamilies {
+        val SansSerif = FontFamily.SansSerif // Inter
+        val MonospaceCode = FontFamily.Monospace // JetBrains Mono
+    }
+
+    object Typography {
+        val Small = TextStyle(fontFamily = FontFamily.SansSerif, fontSize = 14.sp, fontWeight = FontWeight.Normal)
+        val Base = TextStyle(fontFamily = FontFamily.SansSerif, fontSize = 16.sp, fontWeight = FontWeight.Normal)
+        val Heading = TextStyle(fontFamily = FontFamily.SansSerif, fontSize = 32.sp, fontWeight = FontWeight.Bold)
+    }
+
+    object Elevation {
+        val Subtle = 1.dp // 0 1px 2px 0 rgba(0, 0, 0, 0.05)
+        val Prominent = 10.dp // 0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -4px rgba(0, 0, 0, 0.1)
+    }
+
+    object Duration {
+        const val Fast = 150 // ms
+        const val Normal = 300 // ms
+    }
+}
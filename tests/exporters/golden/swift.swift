@@ -0,0 +1,63 @@
+// Example Design System - SwiftUI
+// Generated: <timestamp>
+// Do not edit directly, this file was generated by ContextDS
+
+import SwiftUI
+
+// MARK: - Colors
+
+public extension Color {
+    static let dsPrimaryBrand = Color(.sRGB, red: 0.231, green: 0.51, blue: 0.965, opacity: 1)
+    static let dsText = Color(.sRGB, red: 0.059, green: 0.09, blue: 0.165, opacity: 1)
+    static let dsBackground = Color(.sRGB, red: 1, green: 1, blue: 1, opacity: 1)
+    static let dsGrayscaleLight = Color(.sRGB, red: 0.886, green: 0.91, blue: 0.941, opacity: 1)
+    static let dsGrayscaleLight2 = Color(.sRGB, red: 0.945, green: 0.961, blue: 0.976, opacity: 1)
+}
+
+// MARK: - Dimensions
+
+public extension CGFloat {
+    static let dsSpacingTiny: CGFloat = 4
+    static let dsSpacingSmall: CGFloat = 8
+    static let dsSpacingLarge: CGFloat = 24
+    static let dsRadiusMedium: CGFloat = 6
+    static let dsRadiusFullCircle: CGFloat = 9999
+    static let dsFontSizeSmall: CGFloat = 14
+    static let dsFontSizeBase: CGFloat = 16
+    static let dsFontSizeHeading: CGFloat = 32
+}
+
+// MARK: - Typography
+
+public extension Font {
+    static let dsTextSmall = Font.custom("Inter", size: 14).weight(.regular)
+    static let dsTextBase = Font.custom("Inter", size: 16).weight(.regular)
+    static let dsTextHeading = Font.custom("Inter", size: 32).weight(.bold)
+}
+
+// MARK: - Shadows
+
+public struct DsShadow {
+    public let color: Color
+    public let radius: CGFloat
+    public let x: CGFloat
+    public let y: CGFloat
+}
+
+public extension DsShadow {
+    static let subtle = DsShadow(color: Color(.sRGB, red: 0, green: 0, blue: 0, opacity: 0.05), radius: 1, x: 0, y: 1)
+    static let prominent = DsShadow(color: Color(.sRGB, red: 0, green: 0, blue: 0, opacity: 0.1), radius: 7.5, x: 0, y: 10)
+}
+
+public extension View {
+    func dsShadow(_ shadow: DsShadow) -> some View {
+        self.shadow(color: shadow.color, radius: shadow.radius, x: shadow.x, y: shadow.y)
+    }
+}
+
+// MARK: - Motion
+
+public extension TimeInterval {
+    static let dsDurationFast: TimeInterval = 0.15
+    static let dsDurationNormal: TimeInterval = 0.3
+}
@@ -0,0 +1,83 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { exportTokens, getFileExtension, type ExportFormat } from '@/lib/exporters/comprehensive-token-exporter';
+import { CURATED_TOKENS } from './fixtures/curated-tokens';
+
+/**
+ * Golden-file tests for the build-tool and native platform exporters
+ *
+ * Regenerate goldens after an intentional output change with:
+ *   UPDATE_GOLDEN=1 bunx playwright test --project=exporters
+ */
+
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+const PLATFORM_FORMATS: ExportFormat[] = ['style-dictionary', 'theo', 'swift', 'kotlin', 'xml', 'dart'];
+
+function render(format: ExportFormat): string {
+	const output = exportTokens({
+		format,
+		tokens: CURATED_TOKENS,
+		metadata: { name: 'Example Design System' },
+	});
+
+	// Timestamps are the only non-deterministic part of the output
+	return output.replace(/Generated: \S+/g, 'Generated: <timestamp>');
+}
+
+test.describe('Platform exporters - golden files', () => {
+	for (const format of PLATFORM_FORMATS) {
+		test(`${format} output matches golden file`, () => {
+			const goldenPath = path.join(GOLDEN_DIR, `${format}.${getFileExtension(format)}`);
+			const output = render(format);
+
+			if (process.env.UPDATE_GOLDEN === '1') {
+				writeFileSync(goldenPath, output);
+			}
+
+			expect(output).toBe(readFileSync(goldenPath, 'utf8'));
+		});
+	}
+});
+
+test.describe('Platform exporters - coverage', () => {
+	test('style-dictionary emits every token category', () => {
+		const output = JSON.parse(render('style-dictionary'));
+
+		expect(Object.keys(output.color.base)).toHaveLength(5);
+		expect(output.size.font.base.value).toBe('1rem');
+		expect(output.size.spacing.large.value).toBe('24px');
+		expect(output.size.radius['full-circle'].value).toBe('9999px');
+		expect(output.shadow.prominent.value).toHaveLength(2);
+		expect(output.time.duration.normal.value).toBe('300ms');
+		expect(output.typography.heading.value.fontWeight).toBe(700);
+	});
+
+	test('duplicate semantic names stay unique', () => {
+		const output = JSON.parse(render('theo'));
+
+		expect(output.props.colorGrayscaleLight.value).toBe('#e2e8f0');
+		expect(output.props.colorGrayscaleLight2.value).toBe('#f1f5f9');
+	});
+
+	test('native exporters cover typography, spacing, radii, shadows and motion', () => {
+		const swift = render('swift');
+		expect(swift).toContain('public extension Font {');
+		expect(swift).toContain('static let dsSpacingSmall: CGFloat = 8');
+		expect(swift).toContain('static let dsRadiusMedium: CGFloat = 6');
+		expect(swift).toContain('static let dsDurationNormal: TimeInterval = 0.3');
+
+		const kotlin = render('kotlin');
+		expect(kotlin).toContain('val Small = 8.dp');
+		expect(kotlin).toContain('val Heading = TextStyle(');
+
+		const xml = render('xml');
+		expect(xml).toContain('<dimen name="spacing_small">8dp</dimen>');
+		expect(xml).toContain('<dimen name="text_size_base">16sp</dimen>');
+		expect(xml).toContain('<style name="TextAppearance.DesignTokens.Heading"');
+
+		const dart = render('dart');
+		expect(dart).toContain('class DesignTokensTheme extends ThemeExtension<DesignTokensTheme>');
+		expect(dart).toContain('static const Duration durationFast = Duration(milliseconds: 150);');
+	});
+});
@@ -0,0 +1,181 @@
+import { test, expect } from '@playwright/test';
+import { importTokens, detectImportFormat, TokenImportError } from '@/lib/importers/token-importer';
+import { compareTokenSets } from '@/lib/analyzers/version-diff';
+import type { W3CDesignToken, W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer';
+
+/**
+ * Token importer normalization tests
+ * Every format should land in the same W3CTokenSet shape that extractW3CTokens produces
+ */
+
+function group(tokenSet: W3CTokenSet, category: 'color' | 'dimension' | 'typography' | 'shadow' | 'duration') {
+	return tokenSet[category] as Record<string, W3CDesignToken>;
+}
+
+const DTCG = {
+	color: {
+		$type: 'color',
+		brand: {
+			primary: { $value: '#3b82f6', $description: 'Primary brand color' },
+			secondary: { $value: { colorSpace: 'srgb', components: [1, 0, 0], alpha: 0.5 } },
+		},
+		text: { $value: '{color.brand.primary}' },
+	},
+	spacing: {
+		$type: 'dimension',
+		sm: { $value: '8px' },
+		md: { $value: { value: 1, unit: 'rem' } },
+	},
+	'font-size': {
+		body: { $type: 'dimension', $value: '16px' },
+	},
+	shadow: {
+		card: {
+			$type: 'shadow',
+			$value: { color: '#00000033', offsetX: '0px', offsetY: '2px', blur: '4px', spread: '0px' },
+		},
+	},
+	motion: {
+		fast: { $type: 'duration', $value: '0.15s' },
+		easing: { $type: 'cubicBezier', $value: [0.4, 0, 0.2, 1] },
+	},
+};
+
+const FIGMA = {
+	global: {
+		colors: {
+			red: { value: '#ff0000', type: 'color' },
+			danger: { value: 'rgba({colors.red}, 0.5)', type: 'color' },
+		},
+		fontFamilies: { body: { value: 'Inter', type: 'fontFamilies' } },
+		fontWeights: { bold: { value: 'Semi Bold', type: 'fontWeights' } },
+		heading: {
+			value: { fontFamily: '{fontFamilies.body}', fontWeight: '{fontWeights.bold}', fontSize: '24', lineHeight: '120%' },
+			type: 'typography',
+		},
+		elevation: {
+			value: [{ x: 0, y: 1, blur: 2, spread: 0, color: '#000000', type: 'innerShadow' }],
+			type: 'boxShadow',
+		},
+	},
+	$metadata: { tokenSetOrder: ['global'] },
+};
+
+const TAILWIND = {
+	theme: {
+		colors: { blue: { 500: '#3b82f6', DEFAULT: '#2563eb' }, current: 'currentColor' },
+		spacing: { '0.5': '0.125rem', 4: '1rem' },
+		extend: {
+			fontSize: { base: ['1rem', { lineHeight: '1.5rem' }] },
+			boxShadow: { md: '0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)' },
+		},
+		screens: { md: '768px' },
+	},
+};
+
+const CSS = `
+:root {
+	--color-primary: #3b82f6;
+	--color-link: var(--color-primary);
+	--radius-md: 6px;
+	--font-sans: "Inter", system-ui, sans-serif;
+	--duration-fast: 150ms;
+	--shadow-sm: 0 1px 2px rgba(0, 0, 0, 0.05);
+	--z-modal: 50;
+}
+.dark { --color-primary: #60a5fa; }
+`;
+
+test.describe('Token importer - format detection', () => {
+	test('detects each supported format', () => {
+		expect(detectImportFormat(JSON.stringify(DTCG))).toBe('dtcg');
+		expect(detectImportFormat(FIGMA)).toBe('figma');
+		expect(detectImportFormat(TAILWIND)).toBe('tailwind');
+		expect(detectImportFormat(CSS)).toBe('css');
+		expect(detectImportFormat('not tokens')).toBeNull();
+	});
+
+	test('rejects files without supported tokens', () => {
+		expect(() => importTokens('{"foo": 1}', { name: 'Empty' })).toThrow(TokenImportError);
+	});
+});
+
+test.describe('Token importer - normalization', () => {
+	test('DTCG tokens keep their names and resolve aliases', () => {
+		const { tokenSet, summary } = importTokens(DTCG, { name: 'Source of truth' });
+		const color = group(tokenSet, 'color');
+		const dimension = group(tokenSet, 'dimension');
+		const typography = group(tokenSet, 'typography');
+
+		expect(tokenSet.$metadata.tools.extractor).toBe('contextds-token-importer');
+		expect(color['brand-primary'].$value).toEqual({ colorSpace: 'srgb', components: [0.231, 0.51, 0.965] });
+		expect(color['brand-primary'].$description).toBe('Primary brand color');
+		expect(color['brand-secondary'].$value).toMatchObject({ components: [1, 0, 0, 0.5] });
+		expect(color.text.$value).toEqual(color['brand-primary'].$value);
+		expect(color.text.$extensions?.['contextds.original']).toBe('{color.brand.primary}');
+		expect(dimension['spacing-md'].$value).toEqual({ value: 1, unit: 'rem' });
+		expect(typography['font-size-body'].$value).toEqual({ value: 16, unit: 'px' });
+		expect(group(tokenSet, 'duration')['motion-fast'].$value).toBe('150ms');
+		expect(summary.skipped.map(entry => entry.path)).toEqual(['motion.easing']);
+	});
+
+	test('Figma Tokens resolve embedded references and composite typography', () => {
+		const { tokenSet } = importTokens(FIGMA, { name: 'Figma' });
+		const color = group(tokenSet, 'color');
+		const typography = group(tokenSet, 'typography');
+		const shadow = group(tokenSet, 'shadow');
+
+		expect(color.danger.$value).toMatchObject({ components: [1, 0, 0, 0.5] });
+		expect(typography['font-families-body'].$value).toEqual(['Inter']);
+		expect(typography['font-weights-bold'].$value).toBe(600);
+		expect(typography.heading.$value).toEqual({
+			fontFamily: ['Inter'],
+			fontSize: { value: 24, unit: 'px' },
+			fontWeight: 600,
+			lineHeight: 1.2,
+		});
+		expect(shadow.elevation.$value).toMatchObject({ inset: true });
+	});
+
+	test('Tailwind config merges extend and maps theme keys', () => {
+		const { tokenSet, summary } = importTokens(TAILWIND, { name: 'Tailwind' });
+		const color = group(tokenSet, 'color');
+		const dimension = group(tokenSet, 'dimension');
+		const typography = group(tokenSet, 'typography');
+		const shadow = group(tokenSet, 'shadow');
+
+		expect(Object.keys(color)).toEqual(['blue-500', 'blue']);
+		expect(dimension['spacing-0_5'].$value).toEqual({ value: 0.125, unit: 'rem' });
+		expect(typography['text-base'].$value).toEqual({ value: 1, unit: 'rem' });
+		expect(shadow['shadow-md'].$value).toHaveLength(2);
+		expect(summary.skipped).toEqual(expect.arrayContaining([
+			{ path: 'theme.screens', reason: 'Unsupported Tailwind theme key' },
+			expect.objectContaining({ path: 'color.current' }),
+		]));
+	});
+
+	test('CSS custom properties prefer :root values and resolve var()', () => {
+		const { tokenSet, summary } = importTokens(CSS, { name: 'CSS variables' });
+		const color = group(tokenSet, 'color');
+
+		expect(color.primary.$value).toEqual({ colorSpace: 'srgb', components: [0.231, 0.51, 0.965] });
+		expect(color.link.$value).toEqual(color.primary.$value);
+		expect(group(tokenSet, 'dimension')['radius-md'].$value).toEqual({ value: 6, unit: 'px' });
+		expect(group(tokenSet, 'typography')['font-sans'].$value).toEqual(['Inter', 'system-ui', 'sans-serif']);
+		expect(group(tokenSet, 'duration')['duration-fast'].$value).toBe('150ms');
+		expect(group(tokenSet, 'shadow')['shadow-sm'].$value).toMatchObject({ color: { components: [0, 0, 0, 0.05] } });
+		expect(summary.skipped).toEqual([{ path: '--z-modal', reason: 'Not a recognized token value' }]);
+	});
+
+	test('imports can be diffed with compareTokenSets', () => {
+		const source = importTokens(DTCG, { name: 'Source' }).tokenSet;
+		const production = importTokens({
+			...DTCG,
+			color: { ...DTCG.color, brand: { ...DTCG.color.brand, primary: { $value: '#2563eb' } } },
+		}, { name: 'Production' }).tokenSet;
+
+		const diff = compareTokenSets(source, production);
+		expect(diff.modified.map(change => change.path)).toEqual(['color.brand-primary', 'color.text']);
+		expect(diff.summary.addedCount + diff.summary.removedCount).toBe(0);
+	});
+});
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import {
+	ApiKeyError,
+	generateApiKey,
+	hashApiKey,
+	hasScope,
+	isApiKeyFormat,
+	isValidScope,
+	normalizeScopes,
+	resolveQuotaLimit,
+	API_KEY_PREFIX_LENGTH,
+	type ApiKeyPrincipal,
+} from '@/lib/auth/api-keys';
+import { McpProtocolHandler } from '@/lib/mcp/protocol';
+
+/**
+ * API keys: key format, scope matching and quota limits, plus scope
+ * enforcement on MCP tool calls (rejected before any tool or database work)
+ */
+
+test.describe('API keys', () => {
+	test('keys are hashed and looked up by their prefix', () => {
+		const { key, prefix, keyHash } = generateApiKey();
+
+		expect(isApiKeyFormat(key)).toBe(true);
+		expect(prefix).toHaveLength(API_KEY_PREFIX_LENGTH);
+		expect(key.startsWith(prefix)).toBe(true);
+		expect(keyHash).toBe(hashApiKey(key));
+		expect(keyHash).not.toContain(key);
+		expect(generateApiKey().key).not.toBe(key);
+		expect(isApiKeyFormat('ctx_' + 'a'.repeat(60))).toBe(false);
+	});
+
+	test('scopes match exactly or through namespace wildcards', () => {
+		expect(hasScope(['scan:write'], 'scan:write')).toBe(true);
+		expect(hasScope(['tokens:read'], 'tokens:write')).toBe(false);
+		expect(hasScope(['mcp:*'], 'mcp:scan_tokens')).toBe(true);
+		expect(hasScope(['mcp:*'], 'scan:write')).toBe(false);
+		expect(hasScope(['*'], 'keys:manage')).toBe(true);
+
+		expect(isValidScope('mcp:get_tokens')).toBe(true);
+		expect(isValidScope('watches:*')).toBe(true);
+		expect(isValidScope('admin:*')).toBe(false);
+	});
+
+	test('keys cannot grant scopes their creator lacks', () => {
+		expect(normalizeScopes(['mcp:get_tokens', 'mcp:get_tokens'], ['mcp:*'])).toEqual(['mcp:get_tokens']);
+		expect(() => normalizeScopes(['scan:write'], ['tokens:read'])).toThrow(ApiKeyError);
+		expect(() => normalizeScopes(['billing:write'])).toThrow('Unknown scope: billing:write');
+	});
+
+	test('per-key quotas can only lower the subscription quota', () => {
+		expect(resolveQuotaLimit(100, null)).toBe(100);
+		expect(resolveQuotaLimit(100, 10)).toBe(10);
+		expect(resolveQuotaLimit(3, 50)).toBe(3);
+	});
+
+	test('MCP tool calls need the mcp:<tool> scope', async () => {
+		const apiKey: ApiKeyPrincipal = {
+			id: '00000000-0000-0000-0000-000000000001',
+			userId: '00000000-0000-0000-0000-000000000002',
+			name: 'read only',
+			prefix: 'ctx_abcdef',
+			scopes: ['mcp:get_tokens'],
+			monthlyQuota: null,
+			expiresAt: null,
+		};
+		const handler = new McpProtocolHandler({ userId: apiKey.userId, apiKey });
+
+		const response = await handler.handle({
+			jsonrpc: '2.0',
+			id: 1,
+			method: 'tools/call',
+			params: { name: 'scan_tokens', arguments: { url: 'https://example.com' } },
+		});
+
+		expect(response).toMatchObject({
+			result: { isError: true, structuredContent: { error: 'API key is missing the mcp:scan_tokens scope' } },
+		});
+	});
+});
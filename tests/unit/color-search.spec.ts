@@ -0,0 +1,108 @@
+import { test, expect } from '@playwright/test';
+import {
+	collectTokenColors,
+	colorDistance,
+	colorSearchBox,
+	InvalidColorQueryError,
+	parsePalette,
+	rankColorMatches,
+	rankPaletteMatches,
+	scorePalette,
+	toColorPoint,
+} from '@/lib/analyzers/color-search';
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer';
+
+/**
+ * Color search: perceptual distances, the index prefilter and palette scoring
+ * behind /api/search?mode=colors|palettes
+ */
+
+const TOKENS = {
+	color: {
+		brand: {
+			primary: { $type: 'color', $value: '#2563eb', $extensions: { 'contextds.usage': 40 } },
+			secondary: { $type: 'color', $value: '#1d4ed8', $extensions: { 'contextds.usage': 3 } },
+		},
+		overlay: { $type: 'color', $value: 'rgba(0, 0, 0, 0.5)' },
+		surface: { $type: 'color', $value: '#f8fafc' },
+	},
+} as unknown as W3CTokenSet;
+
+test.describe('Color search', () => {
+	test('query colors accept hex with or without # and reject translucent colors', () => {
+		expect(toColorPoint('2563EB').hex).toBe('#2563eb');
+		expect(toColorPoint('#fff').hex).toBe('#ffffff');
+		expect(() => toColorPoint('rgba(0,0,0,0.5)')).toThrow(InvalidColorQueryError);
+		expect(() => toColorPoint('not-a-color')).toThrow(InvalidColorQueryError);
+		expect(() => parsePalette('#2563eb')).toThrow('at least 2 distinct colors');
+		expect(parsePalette('#2563eb, 2563eb, #f8fafc').map(color => color.hex)).toEqual(['#2563eb', '#f8fafc']);
+	});
+
+	test('token colors are collected with usage, skipping translucent ones', () => {
+		const colors = collectTokenColors(TOKENS);
+		expect(colors.map(color => [color.path, color.hex, color.usage])).toEqual([
+			['color.brand.primary', '#2563eb', 40],
+			['color.brand.secondary', '#1d4ed8', 3],
+			['color.surface', '#f8fafc', 1],
+		]);
+	});
+
+	test('both metrics read near zero for near-identical colors and grow with difference', () => {
+		const blue = toColorPoint('#2563eb');
+		const nearBlue = toColorPoint('#2664ec');
+		const red = toColorPoint('#dc2626');
+
+		for (const metric of ['de2000', 'oklch'] as const) {
+			expect(colorDistance(blue, blue, metric)).toBeCloseTo(0, 5);
+			expect(colorDistance(blue, nearBlue, metric)).toBeLessThan(1);
+			expect(colorDistance(blue, red, metric)).toBeGreaterThan(20);
+		}
+	});
+
+	test('the prefilter box contains every color within the distance', () => {
+		const palette = ['#2563eb', '#dc2626', '#16a34a', '#facc15', '#0f172a', '#f8fafc', '#a855f7', '#ff00ff'];
+		const candidates: string[] = [];
+		for (let r = 0; r <= 255; r += 17) {
+			for (let g = 0; g <= 255; g += 17) {
+				for (let b = 0; b <= 255; b += 17) {
+					candidates.push(`#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('')}`);
+				}
+			}
+		}
+		const points = candidates.map(toColorPoint);
+
+		const inside = (value: number, [min, max]: [number, number]) => value >= min - 1e-9 && value <= max + 1e-9;
+		const missed: string[] = [];
+
+		for (const hex of palette) {
+			const query = toColorPoint(hex);
+			const box = colorSearchBox(query, 10);
+			for (const point of points) {
+				const inLab = inside(point.lab.l, box.lab.l) && inside(point.lab.a, box.lab.a) && inside(point.lab.b, box.lab.b);
+				if (!inLab && colorDistance(query, point, 'de2000') <= 10) missed.push(`de2000 ${hex} ${point.hex}`);
+				const inOklch = inside(point.oklch.l, box.oklch.l) && inside(point.oklch.c, box.oklch.c);
+				if (!inOklch && colorDistance(query, point, 'oklch') <= 10) missed.push(`oklch ${hex} ${point.hex}`);
+			}
+		}
+
+		expect(missed).toEqual([]);
+	});
+
+	test('matches rank by distance, then usage; palettes by coverage, then distance', () => {
+		const ranked = rankColorMatches([
+			{ hex: 'rare', distance: 1.02, usage: 2 },
+			{ hex: 'far', distance: 3, usage: 100 },
+			{ hex: 'common', distance: 0.98, usage: 50 },
+		]);
+		expect(ranked.map(match => match.hex)).toEqual(['common', 'rare', 'far']);
+
+		const palette = parsePalette('#2563eb,#f8fafc,#dc2626');
+		const site = collectTokenColors(TOKENS);
+		const score = scorePalette(palette, site, 'de2000', 5);
+		expect(score.coverage).toBeCloseTo(2 / 3, 2);
+		expect(score.matches.map(match => match.path)).toEqual(['color.brand.primary', 'color.surface', null]);
+
+		const full = { ...scorePalette(parsePalette('#2563eb,#f8fafc'), site, 'de2000', 5), popularity: 1 };
+		expect(rankPaletteMatches([{ ...score, popularity: 99 }, full])[0]).toBe(full);
+	});
+});
@@ -0,0 +1,129 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli, type CliIO } from '@/lib/cli/contextds';
+import { createRecordingFetcher, type FetchLike } from '@/lib/extractors/scan-archive';
+import { collectStaticPage } from '@/lib/extractors/static-css';
+import { EXPORT_FORMATS } from '@/lib/exporters/comprehensive-token-exporter';
+
+/**
+ * contextds CLI: local scans replayed from a HAR archive, exports and token diffs
+ */
+
+const SITE: Record<string, { body: string; type: string }> = {
+	'https://example.com/': {
+		type: 'text/html',
+		body: '<html><head><link rel="stylesheet" href="/main.css"></head><body><h1>Hi</h1></body></html>',
+	},
+	'https://example.com/main.css': {
+		type: 'text/css',
+		body: `:root { --brand: #2563eb; --ink: #111827; --radius: 8px; }
+			body { color: #111827; background: #ffffff; font-family: Inter, sans-serif; font-size: 16px; padding: 16px; }
+			h1 { color: #2563eb; font-size: 32px; margin: 24px; }
+			.button { background: #2563eb; color: #ffffff; border-radius: 8px; padding: 8px 16px; }
+			.card { background: #ffffff; border-radius: 8px; padding: 24px; box-shadow: 0 1px 2px rgba(0,0,0,0.1); }
+			.muted { color: #6b7280; font-size: 14px; margin: 8px; }`,
+	},
+};
+
+const upstream: FetchLike = async (url) => {
+	const resource = SITE[url];
+	if (!resource) return new Response('Not found', { status: 404 });
+	const response = new Response(resource.body, { status: 200, headers: { 'content-type': resource.type } });
+	Object.defineProperty(response, 'url', { value: url });
+	return response;
+};
+
+function createIO(cwd: string) {
+	const output = { stdout: '', stderr: '' };
+	const io: CliIO = {
+		stdout: text => { output.stdout += text; },
+		stderr: text => { output.stderr += text; },
+		cwd,
+	};
+	return { io, output };
+}
+
+test.describe('contextds CLI', () => {
+	let dir: string;
+
+	test.beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), 'contextds-'));
+
+		// Record the fixture site once; every scan below replays it offline
+		const recorder = createRecordingFetcher({ pageUrl: 'https://example.com/', upstream });
+		await collectStaticPage('https://example.com/', { fetcher: recorder });
+		await writeFile(join(dir, 'site.har'), JSON.stringify(recorder.toHar()));
+	});
+
+	test.afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	test('scan writes the token set and the requested format', async () => {
+		const { io, output } = createIO(dir);
+		const code = await runCli(['scan', 'https://example.com/', '--format', 'tailwind', '--out', 'tokens', '--replay=site.har'], io);
+
+		expect(code).toBe(0);
+		expect((await readdir(join(dir, 'tokens'))).sort()).toEqual(['design-tokens.json', 'tailwind.css']);
+		expect(output.stdout.trim().split('\n')).toHaveLength(2);
+
+		const tokenSet = JSON.parse(await readFile(join(dir, 'tokens', 'design-tokens.json'), 'utf8'));
+		expect(tokenSet.color).toBeDefined();
+		expect(await readFile(join(dir, 'tokens', 'tailwind.css'), 'utf8')).toContain('@theme');
+	});
+
+	test('--format all writes one file per export format', async () => {
+		const { io } = createIO(dir);
+		expect(await runCli(['scan', 'https://example.com/', '--format', 'all', '--out', 'tokens', '--replay', 'site.har'], io)).toBe(0);
+		expect(await readdir(join(dir, 'tokens'))).toHaveLength(EXPORT_FORMATS.length + 1);
+	});
+
+	test('scan without --out prints a single format to stdout', async () => {
+		const { io, output } = createIO(dir);
+		expect(await runCli(['scan', 'https://example.com/', '--format', 'css', '--replay', 'site.har'], io)).toBe(0);
+		expect(output.stdout).toContain('--');
+
+		const multiple = createIO(dir);
+		expect(await runCli(['scan', 'https://example.com/', '--format', 'css,scss', '--replay', 'site.har'], multiple.io)).toBe(2);
+		expect(multiple.output.stderr).toContain('several formats need --out');
+	});
+
+	test('diff prints a changelog and can fail on changes', async () => {
+		const { io } = createIO(dir);
+		await runCli(['scan', 'https://example.com/', '--out', 'a', '--replay', 'site.har'], io);
+
+		const tokens = JSON.parse(await readFile(join(dir, 'a', 'design-tokens.json'), 'utf8'));
+		const [firstColor] = Object.keys(tokens.color);
+		tokens.color[firstColor].$value = '#ff0000';
+		await writeFile(join(dir, 'b.json'), JSON.stringify(tokens));
+
+		const same = createIO(dir);
+		expect(await runCli(['diff', 'a/design-tokens.json', 'a/design-tokens.json', '--fail-on-change'], same.io)).toBe(0);
+
+		const changed = createIO(dir);
+		expect(await runCli(['diff', 'a/design-tokens.json', 'b.json', '--fail-on-change'], changed.io)).toBe(1);
+		expect(changed.output.stdout).toContain('**Total Changes**: 1');
+
+		const json = createIO(dir);
+		expect(await runCli(['diff', 'a/design-tokens.json', 'b.json', '--json'], json.io)).toBe(0);
+		expect(JSON.parse(json.output.stdout).modified[0].path).toContain(firstColor);
+	});
+
+	test('bad usage exits with 2 and failures with 1', async () => {
+		const unknownFormat = createIO(dir);
+		expect(await runCli(['scan', 'example.com', '--format', 'pdf'], unknownFormat.io)).toBe(2);
+		expect(unknownFormat.output.stderr).toContain('Unknown format "pdf"');
+
+		expect(await runCli(['frobnicate'], createIO(dir).io)).toBe(2);
+
+		const missing = createIO(dir);
+		expect(await runCli(['diff', 'nope.json', 'nope.json'], missing.io)).toBe(1);
+		expect(missing.output.stderr).toContain("Can't read token file");
+
+		const formats = createIO(dir);
+		expect(await runCli(['formats'], formats.io)).toBe(0);
+		expect(formats.output.stdout.trim().split('\n')).toHaveLength(EXPORT_FORMATS.length);
+	});
+});
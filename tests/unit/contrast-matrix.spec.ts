@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import { buildContrastMatrix, findAccessibleColor } from '@/lib/analyzers/contrast-matrix';
+import { getAPCAContrast, getContrastRatio } from '@/lib/contrast-checker';
+import { appendContrastAppendix } from '@/lib/exporters/contrast-appendix';
+import { extractW3CTokens, type W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer';
+import type { CssSource } from '@/lib/extractors/static-css';
+
+/**
+ * Contrast matrix: real foreground/background pairings scored against WCAG and
+ * APCA, with the nearest passing OKLCH alternative for failing pairs
+ */
+
+const CSS = `
+body { background-color: #ffffff; color: #111827; }
+.muted { background-color: #ffffff; color: #9ca3af; }
+.banner { background-color: #1e3a8a; color: #ffffff; }
+.badge { background-color: #fde68a; color: #f59e0b; }
+`;
+
+function extract(css: string): W3CTokenSet {
+	const source: CssSource = { kind: 'inline', url: 'https://example.com', content: css, bytes: css.length, sha: 'example' };
+	return extractW3CTokens([source], { domain: 'example.com', url: 'https://example.com' }).tokenSet;
+}
+
+const tokenSet = extract(CSS);
+
+function pair(matrix: ReturnType<typeof buildContrastMatrix>, foreground: string, background: string) {
+	return matrix.pairs.find(candidate => candidate.foreground.hex === foreground && candidate.background.hex === background);
+}
+
+test.describe('APCA', () => {
+	test('matches the reference values for black and white', () => {
+		expect(getAPCAContrast('#000000', '#ffffff')).toBeCloseTo(106.04, 1);
+		expect(getAPCAContrast('#ffffff', '#000000')).toBeCloseTo(-107.88, 1);
+		expect(getAPCAContrast('#777777', '#777777')).toBe(0);
+	});
+});
+
+test.describe('Contrast matrix', () => {
+	test('pairs colors used by the same selector', () => {
+		const matrix = buildContrastMatrix(tokenSet);
+
+		expect(pair(matrix, '#111827', '#ffffff')).toMatchObject({ observed: true, selectors: ['body'] });
+		expect(pair(matrix, '#ffffff', '#1e3a8a')?.wcag.passes).toBe(true);
+		// Never rendered together
+		expect(pair(matrix, '#111827', '#1e3a8a')).toBeUndefined();
+		expect(matrix.pairs.every(candidate => candidate.observed)).toBe(true);
+	});
+
+	test('all pairing scores every foreground on every background', () => {
+		const matrix = buildContrastMatrix(tokenSet, { pairing: 'all' });
+
+		expect(pair(matrix, '#111827', '#1e3a8a')).toMatchObject({ observed: false, selectors: [] });
+		expect(matrix.summary.pairs).toBeGreaterThan(buildContrastMatrix(tokenSet).summary.pairs);
+	});
+
+	test('failing pairs get the nearest passing color with hue kept', () => {
+		const matrix = buildContrastMatrix(tokenSet);
+		const muted = pair(matrix, '#9ca3af', '#ffffff')!;
+
+		expect(muted.wcag.passes).toBe(false);
+		expect(muted.apca.passes).toBe(false);
+		expect(muted.alternative).not.toBeNull();
+		expect(getContrastRatio(muted.alternative!.hex, '#ffffff')).toBeGreaterThanOrEqual(4.5);
+		expect(muted.alternative!.lightnessDelta).toBeLessThan(0);
+		expect(matrix.pairs[0].wcag.ratio).toBeLessThanOrEqual(matrix.pairs[matrix.pairs.length - 1].wcag.ratio);
+		expect(matrix.summary.withAlternative).toBe(matrix.summary.failing);
+	});
+
+	test('AAA needs a larger lightness change than AA', () => {
+		const aa = findAccessibleColor('#f59e0b', '#fde68a', 4.5)!;
+		const aaa = findAccessibleColor('#f59e0b', '#fde68a', 7)!;
+
+		expect(aa.wcagRatio).toBeGreaterThanOrEqual(4.5);
+		expect(aaa.wcagRatio).toBeGreaterThanOrEqual(7);
+		expect(Math.abs(aaa.lightnessDelta)).toBeGreaterThan(Math.abs(aa.lightnessDelta));
+	});
+
+	test('returns null when no lightness reaches the target', () => {
+		expect(findAccessibleColor('#777777', '#777777', 21)).toBeNull();
+	});
+});
+
+test.describe('Contrast appendix', () => {
+	const matrix = buildContrastMatrix(tokenSet);
+
+	test('is a comment block in stylesheet exports', () => {
+		const css = appendContrastAppendix(':root {}\n', 'css', matrix);
+
+		expect(css).toContain('/*\n * Contrast appendix (WCAG AA, observed pairs)');
+		expect(css).toMatch(/FAIL {2}color\.[\w-]+ \(#9ca3af\) on color\.[\w-]+ \(#ffffff\): [\d.]+:1, APCA Lc [\d.]+ -> use #[0-9a-f]{6}/);
+		expect(css.trimEnd().endsWith('*/')).toBe(true);
+	});
+
+	test('is an extension in JSON exports', () => {
+		const json = JSON.parse(appendContrastAppendix('{"color":{}}', 'w3c-json', matrix));
+
+		expect(json.$extensions['contextds.contrast'].summary).toEqual(matrix.summary);
+		expect(json.color).toEqual({});
+	});
+});
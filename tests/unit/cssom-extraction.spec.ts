@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+import {
+	collectCssomSources,
+	detectCssInJsLibrary,
+	isRuntimeInjected,
+	type CssomSheet,
+} from '@/lib/extractors/cssom';
+import { extractW3CTokens } from '@/lib/analyzers/w3c-tokenizer';
+import type { CssSource } from '@/lib/extractors/static-css';
+
+/**
+ * CSSOM extraction: which serialized stylesheets hold runtime-injected rules,
+ * which CSS-in-JS library injected them, and that they tokenize like any other source
+ */
+
+function sheet(overrides: Partial<CssomSheet>): CssomSheet {
+	const content = overrides.content ?? '.sc-bdVaJa { color: rgb(37, 99, 235); padding: 16px; }';
+	return { origin: 'style', content, ruleCount: 1, textLength: 0, attributes: {}, ...overrides };
+}
+
+test.describe('CSSOM extraction', () => {
+	test('sheets filled through insertRule or adopted are runtime-injected, authored <style> text is not', () => {
+		expect(isRuntimeInjected(sheet({ textLength: 0 }))).toBe(true);
+		expect(isRuntimeInjected(sheet({ origin: 'adopted', textLength: 0, attributes: {} }))).toBe(true);
+
+		const authored = sheet({ content: 'body { margin: 0; }', textLength: 'body { margin: 0 }'.length });
+		expect(isRuntimeInjected(authored)).toBe(false);
+		expect(isRuntimeInjected(sheet({ content: '', ruleCount: 0 }))).toBe(false);
+	});
+
+	test('libraries are detected from owner attributes, then from generated class names', () => {
+		expect(detectCssInJsLibrary({ attributes: { 'data-styled': 'active', 'data-styled-version': '6.1.0' }, content: '' })).toBe('styled-components');
+		expect(detectCssInJsLibrary({ attributes: { 'data-emotion': 'css' }, content: '' })).toBe('emotion');
+		expect(detectCssInJsLibrary({ attributes: { id: '_goober' }, content: '' })).toBe('goober');
+
+		expect(detectCssInJsLibrary({ attributes: {}, content: '.css-1x2y3z4 { color: red; }' })).toBe('emotion');
+		expect(detectCssInJsLibrary({ attributes: {}, content: '--sxs { --sxs: 0 t-gVqExM; }' })).toBe('stitches');
+		expect(detectCssInJsLibrary({ attributes: {}, content: '.styles_button__1hiof570 { color: red; }' })).toBe('vanilla-extract');
+		expect(detectCssInJsLibrary({ attributes: {}, content: '.button { color: red; }' })).toBeNull();
+	});
+
+	test('only injected sheets become sources, tagged with their library', () => {
+		const sources = collectCssomSources([
+			sheet({ attributes: { 'data-styled': 'active' } }),
+			sheet({ origin: 'adopted', content: ':host { --brand: #0f172a; }' }),
+			sheet({ content: 'main { display: grid; }', textLength: 200 }),
+		]);
+
+		expect(sources).toEqual([
+			{ content: '.sc-bdVaJa { color: rgb(37, 99, 235); padding: 16px; }', library: 'styled-components' },
+			{ content: ':host { --brand: #0f172a; }', library: null },
+		]);
+	});
+
+	test('CSSOM sources feed tokenization and keep their library in the provenance', () => {
+		const content = '.sc-bdVaJa { color: #2563eb; background-color: #2563eb; padding: 16px; }\n.sc-gTRrQi { color: #2563eb; padding: 16px; }';
+		const source: CssSource = { kind: 'cssom', content, bytes: content.length, sha: 'sha-cssom', library: 'styled-components' };
+
+		const { tokenSet } = extractW3CTokens([source], { domain: 'example.com', url: 'https://example.com' });
+
+		expect(JSON.stringify(tokenSet.color)).toContain('#2563eb');
+		expect(tokenSet.$metadata.source.cssSources).toEqual([
+			expect.objectContaining({ kind: 'cssom', sha: 'sha-cssom', library: 'styled-components' }),
+		]);
+	});
+});
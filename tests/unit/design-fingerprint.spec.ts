@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import {
+	buildDesignFingerprint,
+	compareFingerprints,
+	fingerprintVector,
+} from '@/lib/analyzers/design-fingerprint';
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer';
+
+/**
+ * Design fingerprints: what is extracted from a token set and layout profile,
+ * and how two sites are scored and explained for /api/sites/[domain]/similar
+ */
+
+function color(hex: string, usage: number) {
+	return { $type: 'color', $value: hex, $extensions: { 'contextds.usage': usage } };
+}
+
+function dimension(value: number, source: string, usage = 1) {
+	return { $type: 'dimension', $value: { value, unit: 'px' }, $extensions: { 'contextds.usage': usage, 'contextds.sources': [source] } };
+}
+
+function tokenSet(colors: Record<string, ReturnType<typeof color>>, options: { sizes: number[]; spacing: number[]; radii: number[] }) {
+	return {
+		color: colors,
+		typography: Object.fromEntries(options.sizes.map((size, index) => [`size-${index}`, dimension(size, 'font-size', size === 16 ? 50 : 5)])),
+		dimension: {
+			...Object.fromEntries(options.spacing.map((value, index) => [`space-${index}`, dimension(value, 'padding')])),
+			...Object.fromEntries(options.radii.map((value, index) => [`radius-${index}`, dimension(value, 'border-radius')])),
+		},
+	} as unknown as W3CTokenSet;
+}
+
+const BLUE_SITE = tokenSet(
+	{ primary: color('#2563eb', 40), text: color('#0f172a', 30), surface: color('#ffffff', 30) },
+	{ sizes: [12, 14, 16, 20, 25, 31.25], spacing: [4, 8, 16, 24, 32], radii: [4, 8, 9999] },
+);
+const BLUE_LOOKALIKE = tokenSet(
+	{ brand: color('#2664ec', 50), ink: color('#111827', 25), page: color('#fefefe', 25) },
+	{ sizes: [12.8, 16, 20, 25, 31.25], spacing: [8, 16, 24, 48], radii: [4, 8] },
+);
+const WARM_SITE = tokenSet(
+	{ primary: color('#ea580c', 60), text: color('#451a03', 40) },
+	{ sizes: [14, 16, 24, 36, 54], spacing: [5, 10, 15, 30], radii: [0, 2] },
+);
+
+test.describe('Design fingerprint', () => {
+	test('fingerprints capture palette weights, type scale ratio, spacing base, radii and archetypes', () => {
+		const fingerprint = buildDesignFingerprint(BLUE_SITE, {
+			archetypes: [{ type: 'feature-grid', confidence: 65 }, { type: 'marketing-hero', confidence: 55 }],
+			profileJson: {},
+		});
+
+		expect(fingerprint.palette.map(entry => [entry.hex, entry.weight])).toEqual([
+			['#2563eb', 0.4],
+			['#0f172a', 0.3],
+			['#ffffff', 0.3],
+		]);
+		expect(fingerprint.typeScale).toEqual({ ratio: 1.25, base: 16 });
+		expect(fingerprint.spacing).toEqual({ base: 8, values: [4, 8, 16, 24, 32] });
+		expect(fingerprint.radii).toEqual([4, 8, 999]);
+		expect(fingerprint.archetypes).toEqual(['feature-grid', 'marketing-hero']);
+	});
+
+	test('the layout spacing base wins over the one inferred from tokens', () => {
+		const fingerprint = buildDesignFingerprint(WARM_SITE, { profileJson: { spacingBase: 4, archetypes: [{ type: 'content' }] } });
+		expect(fingerprint.spacing.base).toBe(4);
+		expect(fingerprint.archetypes).toEqual(['content']);
+		expect(buildDesignFingerprint(WARM_SITE).spacing.base).toBe(5);
+	});
+
+	test('lookalike design systems score high and explain the matching dimensions', () => {
+		const layout = { archetypes: [{ type: 'feature-grid' }, { type: 'marketing-hero' }] };
+		const blue = buildDesignFingerprint(BLUE_SITE, layout);
+		const lookalike = buildDesignFingerprint(BLUE_LOOKALIKE, layout);
+		const warm = buildDesignFingerprint(WARM_SITE, { archetypes: [{ type: 'content' }] });
+
+		const close = compareFingerprints(blue, lookalike);
+		const far = compareFingerprints(blue, warm);
+
+		expect(close.score).toBeGreaterThan(75);
+		expect(far.score).toBeLessThan(40);
+		expect(close.matched).toEqual(expect.arrayContaining(['palette', 'typeScale', 'spacing', 'archetypes']));
+		expect(far.matched).not.toContain('palette');
+
+		const palette = close.dimensions.find(match => match.dimension === 'palette');
+		expect(palette?.explanation).toContain('#2563eb ≈ #2664ec');
+		expect(close.dimensions.find(match => match.dimension === 'typeScale')?.explanation).toBe('Same type scale ratio (1.25), same body size (16px)');
+		expect(close.dimensions.find(match => match.dimension === 'archetypes')?.explanation).toBe('Both have feature-grid, marketing-hero layouts');
+		expect(close.dimensions.reduce((sum, match) => sum + match.weight, 0)).toBeCloseTo(1, 2);
+	});
+
+	test('dimensions without data are left out and the weights rescaled', () => {
+		const withoutLayout = compareFingerprints(buildDesignFingerprint(BLUE_SITE), buildDesignFingerprint(BLUE_LOOKALIKE));
+		expect(withoutLayout.dimensions.map(match => match.dimension)).toEqual(['palette', 'typeScale', 'spacing', 'radii']);
+		expect(withoutLayout.dimensions.reduce((sum, match) => sum + match.weight, 0)).toBeCloseTo(1, 2);
+
+		const vector = fingerprintVector(buildDesignFingerprint(BLUE_SITE));
+		expect(vector).toMatchObject({ typeScaleRatio: 1.25, spacingBase: 8, radiusBase: 8 });
+		expect(fingerprintVector(buildDesignFingerprint({} as W3CTokenSet))).toMatchObject({ paletteL: null, typeScaleRatio: null });
+	});
+});
@@ -0,0 +1,131 @@
+import { test, expect } from '@playwright/test';
+import {
+	annotateStateTokens,
+	applyCapturedStates,
+	buildStateTokens,
+	detectFocusRing,
+	selectStateTargets,
+	toQuerySelector,
+	type StateCapture,
+} from '@/lib/analyzers/interaction-states';
+import type { ComponentLibrary, ComponentType, ExtractedComponent } from '@/lib/analyzers/advanced-component-detector';
+import { extractW3CTokens } from '@/lib/analyzers/w3c-tokenizer';
+import type { CssSource } from '@/lib/extractors/static-css';
+
+/**
+ * Interaction state capture: which detected components get driven, and how the
+ * computed styles read in each state become state tokens
+ */
+
+function component(type: ComponentType, selector: string, confidence: number, variant?: string): ExtractedComponent {
+	return { type, variant, confidence, selectors: [selector], states: {} } as unknown as ExtractedComponent;
+}
+
+function library(components: ExtractedComponent[]): ComponentLibrary {
+	return { components } as unknown as ComponentLibrary;
+}
+
+const BASE = {
+	'background-color': 'rgb(37, 99, 235)',
+	'color': 'rgb(255, 255, 255)',
+	'border-color': 'rgb(37, 99, 235)',
+	'box-shadow': 'none',
+	'opacity': '1',
+	'outline-style': 'none',
+	'outline-color': 'rgb(255, 255, 255)',
+	'outline-width': '0px',
+	'outline-offset': '0px',
+};
+
+const PRIMARY: StateCapture = {
+	target: { selector: 'button.btn.btn-primary', type: 'button', variant: 'primary' },
+	base: BASE,
+	states: {
+		hover: { ...BASE, 'background-color': 'rgb(29, 78, 216)', 'border-color': 'rgb(29, 78, 216)' },
+		active: { ...BASE, 'background-color': 'rgb(30, 64, 175)' },
+		focus: { ...BASE, 'box-shadow': 'rgb(255, 255, 255) 0px 0px 0px 2px, rgb(59, 130, 246) 0px 0px 0px 4px, rgba(0, 0, 0, 0) 0px 0px 0px 0px' },
+		disabled: { ...BASE, 'opacity': '0.5' },
+	},
+	evidence: { hover: 'https://blob.example.com/screenshots/scan-1/state-button-primary-hover.jpg' },
+};
+
+test.describe('Interaction states', () => {
+	test('one target per interactive type and variant, buttons first', () => {
+		const targets = selectStateTargets(library([
+			component('card', 'div.card', 95),
+			component('button', 'button.btn.btn-secondary', 70, 'solid'),
+			component('button', 'button.btn.btn-primary.hover:bg-blue-700', 90, 'solid'),
+			component('button', 'button.btn.btn-primary.large', 85, 'solid'),
+			component('input', 'input.form-control', 75, undefined),
+		]), [
+			{ selector: 'a.nav-link', element: 'link' },
+			{ selector: 'a.nav-link.active', element: 'link' },
+			{ selector: 'h2.title', element: 'heading' },
+		]);
+
+		expect(targets).toEqual([
+			{ selector: 'button.btn.btn-primary', type: 'button', variant: 'primary' },
+			{ selector: 'button.btn.btn-secondary', type: 'button', variant: 'secondary' },
+			{ selector: 'a.nav-link', type: 'link', variant: 'default' },
+			{ selector: 'input.form-control', type: 'input', variant: 'default' },
+		]);
+	});
+
+	test('selectors drop the class names querySelector would need escaped', () => {
+		expect(toQuerySelector('button.px-4.w-1/2.md:px-6.btn')).toBe('button.px-4.btn');
+		expect(toQuerySelector('.card.shadow')).toBe('.card.shadow');
+		expect(toQuerySelector('div[role=tab]')).toBeNull();
+	});
+
+	test('focus rings come from a visible outline, or from a box-shadow ring layer', () => {
+		expect(detectFocusRing(BASE, { ...BASE, 'outline-style': 'solid', 'outline-width': '2px', 'outline-color': 'rgb(37, 99, 235)', 'outline-offset': '2px' }))
+			.toEqual({ width: '2px', color: 'rgb(37, 99, 235)', offset: '2px', source: 'outline' });
+		expect(detectFocusRing(BASE, PRIMARY.states.focus!))
+			.toEqual({ width: '2px', color: 'rgb(59, 130, 246)', offset: '2px', source: 'box-shadow' });
+		expect(detectFocusRing(BASE, { ...BASE, 'box-shadow': 'rgb(59, 130, 246) 0px 0px 0px 3px' }))
+			.toEqual({ width: '3px', color: 'rgb(59, 130, 246)', offset: null, source: 'box-shadow' });
+		expect(detectFocusRing(BASE, { ...BASE, 'box-shadow': 'rgba(0, 0, 0, 0.1) 0px 4px 6px -1px' })).toBeNull();
+		expect(detectFocusRing(BASE, BASE)).toBeNull();
+	});
+
+	test('changed values become state tokens with the resting value and evidence', () => {
+		const tokens = buildStateTokens([PRIMARY]);
+
+		expect(Object.keys(tokens).sort()).toEqual([
+			'button-primary-background-active',
+			'button-primary-background-hover',
+			'button-primary-border-hover',
+			'button-primary-focus-ring-color',
+			'button-primary-focus-ring-offset',
+			'button-primary-focus-ring-width',
+			'button-primary-opacity-disabled',
+		]);
+		expect(tokens['button-primary-background-hover']).toMatchObject({
+			$type: 'color',
+			$value: { colorSpace: 'srgb', components: [0.114, 0.306, 0.847] },
+			$extensions: {
+				'contextds.sources': ['background-color'],
+				'contextds.state': { component: 'button', variant: 'primary', state: 'hover', base: 'rgb(37, 99, 235)' },
+				'contextds.evidence': PRIMARY.evidence!.hover,
+			},
+		});
+		expect(tokens['button-primary-focus-ring-width'].$value).toEqual({ value: 2, unit: 'px' });
+		expect(tokens['button-primary-opacity-disabled']).toMatchObject({ $type: 'number', $value: 0.5 });
+	});
+
+	test('state tokens join the token set and replace the detector guesses', () => {
+		const css = '.btn { color: #ffffff; background-color: #2563eb; }';
+		const source: CssSource = { kind: 'inline', url: 'https://example.com', content: css, bytes: css.length, sha: 'test' };
+		const { tokenSet } = extractW3CTokens([source], { domain: 'example.com', url: 'https://example.com' });
+
+		expect(annotateStateTokens(tokenSet, [PRIMARY])).toBe(7);
+		expect(Object.keys(tokenSet.state as object)).toContain('button-primary-focus-ring-color');
+
+		const detected = library([component('button', 'button.btn.btn-primary.hover:bg-blue-700', 90), component('input', 'input.btn.btn-primary', 60)]);
+		applyCapturedStates(detected, [PRIMARY]);
+
+		expect(detected.components[0].states.hover).toEqual({ backgroundColor: 'rgb(29, 78, 216)', borderColor: 'rgb(29, 78, 216)' });
+		expect(detected.components[0].states.disabled).toEqual({ opacity: '0.5' });
+		expect(detected.components[1].states).toEqual({});
+	});
+});
@@ -0,0 +1,213 @@
+import { test, expect } from '@playwright/test';
+import type { ApiKeyPrincipal } from '@/lib/auth/api-keys';
+import {
+	JSON_RPC_ERRORS,
+	MCP_PROTOCOL_VERSION,
+	McpProtocolHandler,
+	type JsonRpcResponse,
+	type McpContext,
+} from '@/lib/mcp/protocol';
+import type { MCPServer } from '@/lib/mcp/server';
+
+/**
+ * MCP protocol: JSON-RPC dispatch, tools, resources, prompts and batches,
+ * called on the handler directly with a stub MCPServer (no browser, no database)
+ */
+
+const TOKEN_SET = { color: { brand: { $type: 'color', $value: '#2563eb' } } };
+
+function createHandler(context: McpContext = {}, server: Partial<MCPServer> = {}) {
+	const calls: unknown[] = [];
+	const stub = {
+		getTokens: async (params: unknown) => {
+			calls.push(params);
+			return { domain: 'example.com', token_set: TOKEN_SET };
+		},
+		layoutProfile: async () => ({ error: 'No layout profile found for this site.' }),
+		...server,
+	} as unknown as MCPServer;
+	return { handler: new McpProtocolHandler(context, stub), calls };
+}
+
+function resultOf<T>(response: JsonRpcResponse | null): T {
+	return (response as { result: T }).result;
+}
+
+function request(id: number, method: string, params?: Record<string, unknown>) {
+	return { jsonrpc: '2.0', id, method, ...(params ? { params } : {}) };
+}
+
+test.describe('MCP protocol', () => {
+	test('initialize negotiates the protocol version and advertises capabilities', async () => {
+		const { handler } = createHandler();
+
+		const current = await handler.handle(request(1, 'initialize', { protocolVersion: '2025-03-26' }));
+		expect(current).toMatchObject({
+			jsonrpc: '2.0',
+			id: 1,
+			result: {
+				protocolVersion: '2025-03-26',
+				capabilities: { tools: {}, resources: {}, prompts: {} },
+				serverInfo: { name: 'contextds' },
+			},
+		});
+
+		const unknown = await handler.handle(request(2, 'initialize', { protocolVersion: '1999-01-01' }));
+		expect(unknown).toMatchObject({ result: { protocolVersion: MCP_PROTOCOL_VERSION } });
+		expect(await handler.handle(request(3, 'ping'))).toEqual({ jsonrpc: '2.0', id: 3, result: {} });
+	});
+
+	test('tools/list describes every tool with a plain JSON Schema', async () => {
+		const { handler } = createHandler();
+		const response = await handler.handle(request(1, 'tools/list'));
+		const { tools } = resultOf<{
+			tools: Array<{ name: string; description: string; inputSchema: object; annotations: object }>;
+		}>(response);
+
+		expect(tools.map(tool => tool.name)).toEqual([
+			'scan_tokens',
+			'get_tokens',
+			'layout_profile',
+			'research_company_artifacts',
+			'compose_pack',
+			'contrast_matrix',
+			'vote_token',
+		]);
+		const getTokens = tools.find(tool => tool.name === 'get_tokens')!;
+		expect(getTokens.inputSchema).toMatchObject({ type: 'object', required: ['url'] });
+		expect(getTokens.inputSchema).not.toHaveProperty('$schema');
+		expect(getTokens.annotations).toMatchObject({ readOnlyHint: true });
+		expect(tools.find(tool => tool.name === 'scan_tokens')!.description).toMatch(/Requires an API key\.$/);
+	});
+
+	test('tools/call returns structured content, tool errors and parameter errors', async () => {
+		const { handler, calls } = createHandler();
+
+		const found = await handler.handle(request(1, 'tools/call', { name: 'get_tokens', arguments: { url: 'https://example.com' } }));
+		expect(found).toMatchObject({ result: { isError: false, structuredContent: { token_set: TOKEN_SET } } });
+		expect(JSON.parse(resultOf<{ content: Array<{ text: string }> }>(found).content[0].text)).toMatchObject({ domain: 'example.com' });
+		expect(calls).toEqual([{ url: 'https://example.com' }]);
+
+		const missing = await handler.handle(request(2, 'tools/call', { name: 'layout_profile', arguments: { url: 'https://example.com' } }));
+		expect(missing).toMatchObject({ result: { isError: true, structuredContent: { error: 'No layout profile found for this site.' } } });
+
+		const invalid = await handler.handle(request(3, 'tools/call', { name: 'get_tokens', arguments: { url: 'not a url' } }));
+		expect(invalid).toMatchObject({ id: 3, error: { code: JSON_RPC_ERRORS.invalidParams, message: 'Invalid parameters' } });
+
+		const unknown = await handler.handle(request(4, 'tools/call', { name: 'drop_tables' }));
+		expect(unknown).toMatchObject({ error: { code: JSON_RPC_ERRORS.invalidParams, message: 'Unknown tool: drop_tables' } });
+	});
+
+	test('clients on older protocol versions get no fields their version lacks', async () => {
+		// Fields a version lacks are left undefined, so they drop out of the JSON response
+		const { handler } = createHandler();
+		await handler.handle(request(1, 'initialize', { protocolVersion: '2024-11-05' }));
+
+		const { tools } = resultOf<{ tools: Array<Record<string, unknown>> }>(await handler.handle(request(2, 'tools/list')));
+		expect(tools[0].title).toBeUndefined();
+		expect(tools[0].annotations).toBeUndefined();
+
+		const called = resultOf<Record<string, unknown>>(
+			await handler.handle(request(3, 'tools/call', { name: 'get_tokens', arguments: { url: 'https://example.com' } })),
+		);
+		expect(called.structuredContent).toBeUndefined();
+		expect(called).toMatchObject({ isError: false, content: [{ type: 'text' }] });
+
+		const { prompts } = resultOf<{ prompts: Array<Record<string, unknown>> }>(await handler.handle(request(4, 'prompts/list')));
+		expect(prompts[0].title).toBeUndefined();
+
+		const http = createHandler({ protocolVersion: '2025-03-26' }).handler;
+		const { tools: annotated } = resultOf<{ tools: Array<Record<string, unknown>> }>(await http.handle(request(1, 'tools/list')));
+		expect(annotated[0].title).toBeUndefined();
+		expect(annotated[0].annotations).toBeDefined();
+	});
+
+	test('tools that write need an API key, and a key needs the tool scope', async () => {
+		const anonymous = createHandler().handler;
+		expect(await anonymous.handle(request(1, 'tools/call', { name: 'vote_token', arguments: {} }))).toMatchObject({
+			result: { isError: true, structuredContent: { error: 'vote_token requires an API key' } },
+		});
+
+		const apiKey: ApiKeyPrincipal = {
+			id: '00000000-0000-0000-0000-000000000001',
+			userId: '00000000-0000-0000-0000-000000000002',
+			name: 'layout only',
+			prefix: 'ctx_abcdef',
+			scopes: ['mcp:layout_profile'],
+			monthlyQuota: null,
+			expiresAt: null,
+		};
+		const { handler, calls } = createHandler({ userId: apiKey.userId, apiKey });
+		expect(await handler.handle(request(2, 'tools/call', { name: 'get_tokens', arguments: { url: 'https://example.com' } }))).toMatchObject({
+			result: { isError: true, structuredContent: { error: 'API key is missing the mcp:get_tokens scope' } },
+		});
+		expect(calls).toEqual([]);
+	});
+
+	test('resources expose a template and reject unknown URIs', async () => {
+		const { handler } = createHandler();
+
+		expect(await handler.handle(request(1, 'resources/templates/list'))).toMatchObject({
+			result: { resourceTemplates: [{ uriTemplate: 'contextds://sites/{domain}/tokens', mimeType: 'application/json' }] },
+		});
+		expect(await handler.handle(request(2, 'resources/read', { uri: 'https://example.com/tokens' }))).toEqual({
+			jsonrpc: '2.0',
+			id: 2,
+			error: { code: JSON_RPC_ERRORS.resourceNotFound, message: 'Resource not found', data: { uri: 'https://example.com/tokens' } },
+		});
+	});
+
+	test('prompts list their arguments and require a domain', async () => {
+		const { handler } = createHandler();
+
+		const listed = await handler.handle(request(1, 'prompts/list'));
+		const { prompts } = resultOf<{ prompts: Array<{ name: string; arguments: object[] }> }>(listed);
+		expect(prompts.map(prompt => prompt.name)).toEqual(['component-authoring', 'marketing-site']);
+		expect(prompts[0].arguments).toEqual([
+			expect.objectContaining({ name: 'domain', required: true }),
+			expect.objectContaining({ name: 'brief', required: false }),
+		]);
+
+		expect(await handler.handle(request(2, 'prompts/get', { name: 'component-authoring', arguments: {} }))).toMatchObject({
+			error: { code: JSON_RPC_ERRORS.invalidParams, message: 'Missing required argument: domain' },
+		});
+		expect(await handler.handle(request(3, 'prompts/get', { name: 'landing-page' }))).toMatchObject({
+			error: { code: JSON_RPC_ERRORS.invalidParams, message: 'Unknown prompt: landing-page' },
+		});
+	});
+
+	test('invalid messages, unknown methods and notifications', async () => {
+		const { handler } = createHandler();
+
+		expect(await handler.handle({ id: 1, method: 'ping' })).toEqual({
+			jsonrpc: '2.0',
+			id: null,
+			error: { code: JSON_RPC_ERRORS.invalidRequest, message: 'Invalid JSON-RPC 2.0 message' },
+		});
+		expect(await handler.handle(request(1, 'sampling/createMessage'))).toMatchObject({
+			id: 1,
+			error: { code: JSON_RPC_ERRORS.methodNotFound, message: 'Method not found: sampling/createMessage' },
+		});
+		expect(await handler.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+		expect(await handler.handle({ jsonrpc: '2.0', method: 'no/such/notification' })).toBeNull();
+		expect(await handler.handle({ jsonrpc: '2.0', id: 7, result: {} })).toBeNull();
+	});
+
+	test('batches answer every request in order and skip notifications', async () => {
+		const { handler } = createHandler();
+
+		expect(await handler.handleBody(request(1, 'ping'))).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+		expect(await handler.handleBody([
+			request(1, 'ping'),
+			{ jsonrpc: '2.0', method: 'notifications/initialized' },
+			request(2, 'tools/call', { name: 'get_tokens', arguments: { url: 'https://example.com' } }),
+			request(3, 'no/such/method'),
+		])).toEqual([
+			{ jsonrpc: '2.0', id: 1, result: {} },
+			expect.objectContaining({ id: 2, result: expect.objectContaining({ isError: false }) }),
+			expect.objectContaining({ id: 3, error: expect.objectContaining({ code: JSON_RPC_ERRORS.methodNotFound }) }),
+		]);
+		expect(await handler.handleBody([{ jsonrpc: '2.0', method: 'notifications/initialized' }])).toBeNull();
+		expect(await handler.handleBody([])).toMatchObject({ id: null, error: { code: JSON_RPC_ERRORS.invalidRequest, message: 'Empty batch' } });
+	});
+});
@@ -0,0 +1,132 @@
+import { test, expect } from '@playwright/test';
+import {
+	annotateResponsiveTokens,
+	detectBreakpoints,
+	diffResponsiveSamples,
+	parseFluidValue,
+	parseMediaBreakpoint,
+	sampleWidths,
+} from '@/lib/analyzers/responsive-tokens';
+import { extractW3CTokens, type W3CDesignToken } from '@/lib/analyzers/w3c-tokenizer';
+import { curateTokens } from '@/lib/analyzers/token-curator';
+import { exportTokens } from '@/lib/exporters/comprehensive-token-exporter';
+import type { CssSource } from '@/lib/extractors/static-css';
+
+/**
+ * Responsive extraction: breakpoints from media queries, per-breakpoint values
+ * from computed style samples, fluid type scales, and their CSS/Tailwind exports
+ */
+
+const CSS = `
+body { font-size: 16px; padding: 16px; }
+p { font-size: 16px; }
+.card { padding: 16px; font-size: 16px; }
+h1 { font-size: clamp(2rem, 1.5rem + 2vw, 3.5rem); }
+.hero { font-size: clamp(2rem, 1.5rem + 2vw, 3.5rem); }
+`;
+
+function extract() {
+	const source: CssSource = { kind: 'inline', url: 'https://example.com', content: CSS, bytes: CSS.length, sha: 'test' };
+	return extractW3CTokens([source], { domain: 'example.com', url: 'https://example.com' });
+}
+
+function sample(width: number, fontSize: string, padding: string) {
+	const styles = { 'font-size': fontSize, 'padding-top': padding, 'line-height': 'normal' };
+	return { width, elements: { 'body:0': styles, 'p:1': styles, 'div:2': { ...styles, 'font-size': '16px' } } };
+}
+
+test.describe('Responsive tokens', () => {
+	test('media queries resolve to the width they start applying at', () => {
+		expect(parseMediaBreakpoint('(min-width: 768px)')).toBe(768);
+		expect(parseMediaBreakpoint('screen and (min-width: 64em)')).toBe(1024);
+		expect(parseMediaBreakpoint('(width >= 40rem)')).toBe(640);
+		expect(parseMediaBreakpoint('(max-width: 767.98px)')).toBe(768);
+		expect(parseMediaBreakpoint('(width < 1280px)')).toBe(1280);
+		expect(parseMediaBreakpoint('(prefers-color-scheme: dark)')).toBeNull();
+	});
+
+	test('the most used breakpoints are named after the closest Tailwind screen', () => {
+		const breakpoints = detectBreakpoints([
+			'(min-width: 768px)', '(min-width: 768px)', '(max-width: 767px)',
+			'(min-width: 1200px)', '(min-width: 1200px)',
+			'(min-width: 1800px)', 'print and (min-width: 500px)', '(min-width: 200px)',
+		]);
+
+		expect(breakpoints).toEqual([
+			{ name: 'md', minWidth: 768, usage: 3 },
+			{ name: 'xl', minWidth: 1200, usage: 2 },
+			{ name: 'bp-1800', minWidth: 1800, usage: 1 },
+		]);
+		expect(sampleWidths(breakpoints)).toEqual([375, 768, 1200, 1800]);
+	});
+
+	test('sites without width media queries fall back to the screenshot viewports', () => {
+		expect(detectBreakpoints(['(prefers-reduced-motion: reduce)'])).toEqual([
+			{ name: 'tablet', minWidth: 768, usage: 0 },
+			{ name: 'desktop', minWidth: 1920, usage: 0 },
+		]);
+	});
+
+	test('values most elements change to at a breakpoint become breakpoint values', () => {
+		const breakpoints = detectBreakpoints(['(min-width: 768px)', '(min-width: 1024px)']);
+		const responsive = diffResponsiveSamples(breakpoints, [
+			sample(375, '16px', '16px'),
+			sample(768, '18px', '24px'),
+			sample(1024, '18px', '32.004px'),
+		]);
+
+		expect(responsive.values['font-size']).toEqual({ '16px': { md: '18px', lg: '18px' } });
+		expect(responsive.values.spacing).toEqual({ '16px': { md: '24px', lg: '32px' } });
+		expect(responsive.values['line-height']).toEqual({});
+	});
+
+	test('clamp() and viewport sizes parse into fluid triples', () => {
+		expect(parseFluidValue('clamp(1rem, calc(0.5rem + 2vw), 2rem)')).toEqual({ min: '1rem', preferred: 'calc(0.5rem + 2vw)', max: '2rem' });
+		expect(parseFluidValue('4vw')).toEqual({ min: null, preferred: '4vw', max: null });
+		expect(parseFluidValue('1.25rem')).toBeNull();
+	});
+
+	test('font size and spacing tokens carry breakpoint values and fluid bounds', () => {
+		const { tokenSet } = extract();
+		const breakpoints = detectBreakpoints(['(min-width: 768px)']);
+		const annotated = annotateResponsiveTokens(tokenSet, {
+			breakpoints,
+			values: { 'font-size': { '16px': { md: '18px' } }, 'line-height': {}, spacing: { '16px': { md: '24px' } } },
+		});
+
+		const typography = Object.values(tokenSet.typography ?? {}) as W3CDesignToken[];
+		const body = typography.find(token => token.$extensions?.['contextds.original'] === '16px');
+		const fluid = typography.find(token => token.$extensions?.['contextds.fluid']);
+		const padding = (Object.values(tokenSet.dimension ?? {}) as W3CDesignToken[])
+			.find(token => token.$extensions?.['contextds.breakpoints']);
+
+		expect(annotated).toBe(2);
+		expect(tokenSet.$metadata.breakpoints).toEqual([{ name: 'md', minWidth: 768 }]);
+		expect(body?.$extensions?.['contextds.breakpoints']).toEqual({ md: '18px' });
+		expect(padding?.$value).toEqual({ value: 16, unit: 'px' });
+		expect(fluid?.$value).toEqual({ value: 2, unit: 'rem' });
+		expect(fluid?.$extensions?.['contextds.fluid']).toEqual({ min: '2rem', preferred: '1.5rem + 2vw', max: '3.5rem' });
+	});
+
+	test('CSS and Tailwind exports emit media query overrides, screens and clamp() sizes', () => {
+		const { tokenSet } = extract();
+		annotateResponsiveTokens(tokenSet, {
+			breakpoints: detectBreakpoints(['(min-width: 768px)']),
+			values: { 'font-size': { '16px': { md: '18px' } }, 'line-height': {}, spacing: { '16px': { md: '24px' } } },
+		});
+		const tokens = curateTokens(tokenSet);
+
+		const css = exportTokens({ format: 'css', tokens, options: { includeComments: false } });
+		expect(css).toMatch(/--font-size-[\w-]+: clamp\(2rem, 1\.5rem \+ 2vw, 3\.5rem\);/);
+		expect(css).toMatch(/@media \(min-width: 768px\) \{\n {2}:root \{\n(?: {4}--[\w-]+: [^\n]+\n)*? {4}--font-size-[\w-]+: 18px;/);
+		expect(css).toMatch(/ {4}--spacing-[\w-]+: 24px;/);
+
+		const tailwind = exportTokens({ format: 'tailwind', tokens, options: { includeComments: false } });
+		expect(tailwind).toContain('--breakpoint-md: 48rem;');
+		expect(tailwind).toMatch(/\}\n\n@media \(min-width: 768px\)/);
+
+		const tailwindV3 = exportTokens({ format: 'tailwind', tokens, options: { tailwindVersion: 3 } });
+		expect(tailwindV3).toContain('"screens": {\n        "md": "768px"\n      }');
+		expect(tailwindV3).toContain('clamp(2rem, 1.5rem + 2vw, 3.5rem)');
+	});
+});
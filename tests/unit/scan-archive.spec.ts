@@ -0,0 +1,153 @@
+import { test, expect } from '@playwright/test';
+import {
+	createRecordingFetcher,
+	createReplayFetcher,
+	parseScanArchive,
+	ScanArchiveMissError,
+	type ArchiveRoute,
+	type FetchLike,
+} from '@/lib/extractors/scan-archive';
+import { collectStaticPage } from '@/lib/extractors/static-css';
+import { crawlSite } from '@/lib/extractors/site-crawler';
+
+/**
+ * Scan archives: record every request of a scan into a HAR, then replay the
+ * scan from that HAR without the network
+ */
+
+const SITE: Record<string, { body: string; type: string; status?: number; redirect?: string }> = {
+	'https://example.com/': {
+		type: 'text/html; charset=utf-8',
+		body: '<html><head><link rel="stylesheet" href="/styles/main.css"><style>.hero { color: #2563eb; }</style></head><body><a href="/about">About</a></body></html>',
+	},
+	'https://example.com/styles/main.css': { type: 'text/css', body: 'body { color: #111827; background: #ffffff; }' },
+	'https://example.com/about': {
+		type: 'text/html',
+		body: '<html><head><link rel="stylesheet" href="/styles/main.css"></head><body>About</body></html>',
+	},
+	'https://example.com/robots.txt': { type: 'text/plain', body: 'User-agent: *\nCrawl-delay: 1' },
+	'https://example.com/old': { type: 'text/html', body: '', redirect: 'https://example.com/' },
+	'https://example.com/logo.png': { type: 'image/png', body: '\u0089PNG\r\n' },
+};
+
+function createUpstream(calls: string[]): FetchLike {
+	return async (url) => {
+		calls.push(url);
+		const resource = SITE[url];
+		if (!resource) return new Response('Not found', { status: 404 });
+
+		const target = resource.redirect ? SITE[resource.redirect] : resource;
+		const response = new Response(target.body, { status: 200, headers: { 'content-type': target.type, 'content-encoding': 'gzip' } });
+		Object.defineProperty(response, 'url', { value: resource.redirect ?? url });
+		return response;
+	};
+}
+
+function createRoute(url: string, upstream: FetchLike) {
+	const fulfilled: Array<{ status: number; headers: Record<string, string>; body: Buffer }> = [];
+	const aborted: string[] = [];
+	const route: ArchiveRoute = {
+		request: () => ({ url: () => url, method: () => 'GET', headers: () => ({ cookie: 'session=secret' }), postData: () => null }),
+		fetch: async () => {
+			const response = await upstream(url);
+			const body = Buffer.from(await response.arrayBuffer());
+			return {
+				url: () => response.url,
+				status: () => response.status,
+				statusText: () => response.statusText,
+				headers: () => Object.fromEntries(response.headers),
+				body: async () => body,
+			};
+		},
+		fulfill: async (response) => {
+			fulfilled.push(response);
+		},
+		abort: async (errorCode) => {
+			aborted.push(errorCode ?? 'failed');
+		},
+	};
+	return { route, fulfilled, aborted };
+}
+
+test.describe('Scan archive', () => {
+	test('a static scan replays from its HAR without the network', async () => {
+		const calls: string[] = [];
+		const recorder = createRecordingFetcher({ pageUrl: 'https://example.com/', upstream: createUpstream(calls) });
+		const live = await collectStaticPage('https://example.com/', { fetcher: recorder });
+
+		// Stored and reloaded the way the orchestrator does
+		const har = parseScanArchive(JSON.parse(JSON.stringify(recorder.toHar())));
+		expect(har.log.entries.map(entry => entry.request.url).sort()).toEqual([
+			'https://example.com/',
+			'https://example.com/styles/main.css',
+		]);
+		expect(har.log.pages[0].title).toBe('https://example.com/');
+
+		calls.length = 0;
+		const replayed = await collectStaticPage('https://example.com/', { fetcher: createReplayFetcher(har) });
+
+		expect(calls).toEqual([]);
+		expect(replayed.html).toBe(live.html);
+		expect(replayed.sources.map(source => source.sha).sort()).toEqual(live.sources.map(source => source.sha).sort());
+	});
+
+	test('replay keeps the post-redirect URL', async () => {
+		const recorder = createRecordingFetcher({ upstream: createUpstream([]) });
+		await collectStaticPage('https://example.com/old', { fetcher: recorder });
+
+		const replayed = await collectStaticPage('https://example.com/old', { fetcher: createReplayFetcher(recorder.toHar()) });
+		expect(replayed.url).toBe('https://example.com/');
+		expect(replayed.sources.some(source => source.url === 'https://example.com/styles/main.css')).toBe(true);
+	});
+
+	test('requests missing from the archive fail like the network is down', async () => {
+		const replay = createReplayFetcher(createRecordingFetcher().toHar());
+		await expect(replay.fetch('https://example.com/')).rejects.toBeInstanceOf(ScanArchiveMissError);
+	});
+
+	test('crawls replay including robots.txt', async () => {
+		const calls: string[] = [];
+		const recorder = createRecordingFetcher({ upstream: createUpstream(calls) });
+		const live = await crawlSite('https://example.com/', { depth: 2, fetcher: recorder });
+
+		calls.length = 0;
+		const startedAt = Date.now();
+		const replayed = await crawlSite('https://example.com/', { depth: 2, fetcher: createReplayFetcher(recorder.toHar()) });
+
+		expect(calls).toEqual([]);
+		expect(replayed.pages.map(page => page.url)).toEqual(live.pages.map(page => page.url));
+		expect(replayed.pages.every(page => page.status === 'completed')).toBe(true);
+		// Crawl-delay only applies to live crawls
+		expect(Date.now() - startedAt).toBeLessThan(1000);
+	});
+
+	test('browser routes are recorded and fulfilled from the archive', async () => {
+		const upstream = createUpstream([]);
+		const recorder = createRecordingFetcher({ upstream });
+
+		const recording = createRoute('https://example.com/logo.png', upstream);
+		await recorder.handleRoute(recording.route);
+		expect(recording.fulfilled[0].status).toBe(200);
+		// The body is already decoded, so it can't be served as gzip
+		expect(recording.fulfilled[0].headers['content-encoding']).toBeUndefined();
+
+		const entry = recorder.toHar().log.entries[0];
+		expect(entry._source).toBe('browser');
+		expect(entry.response.content.encoding).toBe('base64');
+		expect(entry.request.headers.some(header => header.name === 'cookie')).toBe(false);
+
+		const replay = createReplayFetcher(recorder.toHar());
+		const served = createRoute('https://example.com/logo.png', upstream);
+		await replay.handleRoute(served.route);
+		expect(served.fulfilled[0].body.equals(recording.fulfilled[0].body)).toBe(true);
+
+		const missing = createRoute('https://cdn.example.com/analytics.js', upstream);
+		await replay.handleRoute(missing.route);
+		expect(missing.aborted).toEqual(['internetdisconnected']);
+	});
+
+	test('rejects files that are not HAR logs', () => {
+		expect(() => parseScanArchive({ entries: [] })).toThrow('Invalid scan archive');
+		expect(() => parseScanArchive({ log: { entries: [{ request: {} }] } })).toThrow('Invalid scan archive');
+	});
+});
@@ -0,0 +1,128 @@
+import { test, expect } from '@playwright/test';
+import {
+	openScanSession,
+	profileCoversHost,
+	sealScanSession,
+	ScanProfilesDisabledError,
+} from '@/lib/auth/scan-profiles';
+import {
+	redactScanSecrets,
+	resolveStepUrl,
+	scanSessionSchema,
+	sessionRequestHeaders,
+	summarizeScanSession,
+	toBrowserCookies,
+	ScanStepError,
+} from '@/lib/extractors/scan-session';
+
+/**
+ * Scan profiles: sealing sessions for storage, validating step scripts, scoping
+ * cookies and headers to the scanned site, and redacting secrets from metrics
+ */
+
+const KEY = 'test-scan-profile-key';
+
+const SESSION = scanSessionSchema.parse({
+	cookies: [
+		{ name: 'sso_session', value: 'c2Vzc2lvbi1zZWNyZXQ' },
+		{ name: 'consent', value: 'yes', domain: '.example.com' },
+	],
+	headers: { 'X-Staging-Token': 'staging-token-123' },
+	steps: [
+		{ action: 'goto', url: '/login' },
+		{ action: 'fill', selector: '#email', value: 'design@example.com' },
+		{ action: 'fill', selector: '#password', value: 'hunter2-hunter2' },
+		{ action: 'click', selector: 'button[type=submit]' },
+		{ action: 'waitFor', selector: '.dashboard' },
+		{ action: 'dismissConsent' },
+	],
+});
+
+test.describe('Scan profiles', () => {
+	test('sessions are sealed with the profile key and only open under it', () => {
+		const sealed = sealScanSession(SESSION, KEY);
+
+		expect(sealed).toMatch(/^v1:[\w+/=]+:[\w+/=]+:[\w+/=]+$/);
+		expect(sealed).not.toContain('hunter2');
+		expect(sealScanSession(SESSION, KEY)).not.toBe(sealed);
+		expect(openScanSession(sealed, KEY)).toEqual(SESSION);
+
+		expect(() => openScanSession(sealed, 'another-key')).toThrow();
+		const [version, iv, tag, ciphertext] = sealed.split(':');
+		const tampered = Buffer.from(ciphertext, 'base64');
+		tampered[0] ^= 1;
+		expect(() => openScanSession([version, iv, tag, tampered.toString('base64')].join(':'), KEY)).toThrow();
+		expect(() => sealScanSession(SESSION, '')).toThrow(ScanProfilesDisabledError);
+	});
+
+	test('step scripts are validated before they are stored', () => {
+		expect(scanSessionSchema.parse({})).toEqual({ cookies: [], headers: {}, steps: [] });
+		expect(scanSessionSchema.safeParse({ steps: [{ action: 'waitFor', ms: 500 }] }).success).toBe(true);
+
+		expect(scanSessionSchema.safeParse({ steps: [{ action: 'waitFor' }] }).success).toBe(false);
+		expect(scanSessionSchema.safeParse({ steps: [{ action: 'waitFor', selector: '.app', ms: 500 }] }).success).toBe(false);
+		expect(scanSessionSchema.safeParse({ steps: [{ action: 'waitFor', ms: 60000 }] }).success).toBe(false);
+		expect(scanSessionSchema.safeParse({ steps: [{ action: 'evaluate', script: 'alert(1)' }] }).success).toBe(false);
+		expect(scanSessionSchema.safeParse({ steps: [{ action: 'click', selector: '' }] }).success).toBe(false);
+		expect(scanSessionSchema.safeParse({ steps: Array(21).fill({ action: 'dismissConsent' }) }).success).toBe(false);
+		expect(scanSessionSchema.safeParse({ headers: { 'Bad Header': 'x' } }).success).toBe(false);
+	});
+
+	test('goto steps resolve against the scanned URL', () => {
+		expect(resolveStepUrl('/login?next=/app', 'https://app.example.com/dashboard')).toBe('https://app.example.com/login?next=/app');
+		expect(resolveStepUrl('https://sso.example.com/auth', 'https://app.example.com/')).toBe('https://sso.example.com/auth');
+		expect(() => resolveStepUrl('javascript:alert(1)', 'https://app.example.com/')).toThrow(ScanStepError);
+	});
+
+	test('cookies and headers only go to the profile domain', () => {
+		expect(profileCoversHost('example.com', 'app.example.com')).toBe(true);
+		expect(profileCoversHost('example.com', 'EXAMPLE.com')).toBe(true);
+		expect(profileCoversHost('example.com', 'notexample.com')).toBe(false);
+		expect(profileCoversHost('example.com', 'example.com.evil.io')).toBe(false);
+
+		expect(toBrowserCookies(SESSION.cookies, 'https://app.example.com/dashboard')).toEqual([
+			{ name: 'sso_session', value: 'c2Vzc2lvbi1zZWNyZXQ', domain: 'app.example.com', path: '/', secure: true },
+			{ name: 'consent', value: 'yes', domain: '.example.com', path: '/', secure: true },
+		]);
+
+		expect(sessionRequestHeaders(SESSION, 'https://app.example.com/dashboard')).toEqual({
+			'X-Staging-Token': 'staging-token-123',
+			Cookie: 'sso_session=c2Vzc2lvbi1zZWNyZXQ; consent=yes',
+		});
+		const scoped = scanSessionSchema.parse({
+			cookies: [
+				{ name: 'admin', value: 'admin-secret', path: '/admin' },
+				{ name: 'other', value: 'other-secret', domain: 'other.io' },
+			],
+		});
+		expect(sessionRequestHeaders(scoped, 'https://app.example.com/dashboard')).toEqual({});
+		expect(sessionRequestHeaders(scoped, 'https://app.example.com/admin/users')).toEqual({ Cookie: 'admin=admin-secret' });
+	});
+
+	test('secrets are redacted from metrics; summaries only name them', () => {
+		const metrics = {
+			entries: [{ name: 'collect', detail: 'GET https://app.example.com/?token=staging-token-123' }],
+			request: { headers: { cookie: 'anything', 'x-staging-token': 'staging-token-123', accept: 'text/html' } },
+			error: 'fill #password with hunter2-hunter2 timed out',
+			pages: 3,
+			short: 'yes',
+		};
+
+		expect(redactScanSecrets(metrics, SESSION)).toEqual({
+			entries: [{ name: 'collect', detail: 'GET https://app.example.com/?token=[REDACTED]' }],
+			request: { headers: { cookie: '[REDACTED]', 'x-staging-token': '[REDACTED]', accept: 'text/html' } },
+			error: 'fill #password with [REDACTED] timed out',
+			pages: 3,
+			short: 'yes',
+		});
+		expect(redactScanSecrets(metrics, null)).toBe(metrics);
+
+		const summary = summarizeScanSession(SESSION);
+		expect(summary).toEqual({
+			cookies: ['sso_session', 'consent'],
+			headers: ['X-Staging-Token'],
+			steps: ['goto /login', 'fill #email', 'fill #password', 'click button[type=submit]', 'waitFor .dashboard', 'dismissConsent'],
+		});
+		expect(JSON.stringify(summary)).not.toMatch(/hunter2|staging-token-123|c2Vzc2lvbi1zZWNyZXQ/);
+	});
+});
@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+import type { Submission } from '@/lib/db';
+import { scanJobRetryDelay, serializeScanJob } from '@/lib/workers/scan-queue';
+import { isRetryableScanError } from '@/lib/workers/scan-worker';
+
+/**
+ * Scan job queue: retry backoff, which failures are worth another attempt,
+ * and what the job routes expose to callers
+ */
+
+function job(overrides: Partial<Submission> = {}): Submission {
+	return {
+		id: '00000000-0000-0000-0000-000000000001',
+		url: 'https://example.com/',
+		submittedBy: '00000000-0000-0000-0000-000000000002',
+		apiKeyId: null,
+		quotaUsageId: null,
+		watchId: null,
+		status: 'queued',
+		reason: null,
+		estimatedQueue: 3,
+		notifyEmail: null,
+		priority: 0,
+		domain: 'example.com',
+		options: { mode: 'fast' },
+		attempts: 0,
+		maxAttempts: 3,
+		runAt: new Date('2026-01-01T00:00:00Z'),
+		lockedBy: null,
+		lockedUntil: null,
+		cancelRequested: false,
+		scanId: null,
+		resultJson: null,
+		startedAt: null,
+		finishedAt: null,
+		createdAt: new Date('2026-01-01T00:00:00Z'),
+		updatedAt: new Date('2026-01-01T00:00:00Z'),
+		...overrides,
+	};
+}
+
+test.describe('Scan queue', () => {
+	test('retry delay doubles per failed attempt up to 10 minutes', () => {
+		expect(scanJobRetryDelay(0)).toBe(30_000);
+		expect(scanJobRetryDelay(1)).toBe(30_000);
+		expect(scanJobRetryDelay(2)).toBe(60_000);
+		expect(scanJobRetryDelay(3)).toBe(120_000);
+		expect(scanJobRetryDelay(5)).toBe(480_000);
+		expect(scanJobRetryDelay(6)).toBe(600_000);
+		expect(scanJobRetryDelay(20)).toBe(600_000);
+	});
+
+	test('transient failures are retried, refusals and auth walls are not', () => {
+		expect(isRetryableScanError(new Error('net::ERR_CONNECTION_RESET'))).toBe(true);
+		expect(isRetryableScanError(new Error('HTTP 429 Too Many Requests'))).toBe(true);
+		expect(isRetryableScanError(new Error('Cloudflare challenge: checking your browser'))).toBe(true);
+		expect(isRetryableScanError('timeout')).toBe(true);
+
+		expect(isRetryableScanError(new Error('Blocked by robots.txt'))).toBe(false);
+		expect(isRetryableScanError(new Error('Invalid URL'))).toBe(false);
+		expect(isRetryableScanError(new Error('SSRF protection: private address'))).toBe(false);
+		expect(isRetryableScanError(new Error('This site has opted out of scanning'))).toBe(false);
+		expect(isRetryableScanError(new Error('Scan profile not found'))).toBe(false);
+		expect(isRetryableScanError(new Error('reCAPTCHA required'))).toBe(false);
+		expect(isRetryableScanError(new Error('401 Unauthorized'))).toBe(false);
+	});
+
+	test('the result is only serialized for done jobs when asked for', () => {
+		const result = { status: 'completed', domain: 'example.com' };
+		const done = job({
+			status: 'done',
+			attempts: 1,
+			scanId: '00000000-0000-0000-0000-000000000003',
+			resultJson: result,
+			startedAt: new Date('2026-01-01T00:00:05Z'),
+			finishedAt: new Date('2026-01-01T00:00:45Z'),
+		});
+
+		expect(serializeScanJob(done)).not.toHaveProperty('result');
+		expect(serializeScanJob(done, { includeResult: false })).not.toHaveProperty('result');
+		expect(serializeScanJob(done, { includeResult: true })).toMatchObject({
+			status: 'done',
+			position: null,
+			startedAt: '2026-01-01T00:00:05.000Z',
+			finishedAt: '2026-01-01T00:00:45.000Z',
+			result,
+		});
+
+		// Only done jobs expose a result, whatever the row holds
+		expect(serializeScanJob(job({ status: 'scanning', resultJson: result }), { includeResult: true })).not.toHaveProperty('result');
+	});
+
+	test('queued jobs report their position and never the submitter', () => {
+		const serialized = serializeScanJob(job({ reason: 'Attempt 1 failed', attempts: 1 }));
+
+		expect(serialized).toEqual({
+			id: '00000000-0000-0000-0000-000000000001',
+			url: 'https://example.com/',
+			domain: 'example.com',
+			status: 'queued',
+			priority: 0,
+			position: 3,
+			attempts: 1,
+			maxAttempts: 3,
+			cancelRequested: false,
+			error: 'Attempt 1 failed',
+			scanId: null,
+			createdAt: '2026-01-01T00:00:00.000Z',
+			startedAt: null,
+			finishedAt: null,
+		});
+	});
+});
@@ -0,0 +1,163 @@
+import { test, expect } from '@playwright/test';
+import {
+	createScanRepository,
+	StorageAdapterError,
+	type ScanRepository,
+} from '@/lib/db/repositories';
+import { createMemoryRepository } from '@/lib/db/repositories/memory';
+import { compareTokenSets } from '@/lib/analyzers/version-diff';
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer';
+
+/**
+ * Scan repository: the storage contract the scan pipeline relies on, checked
+ * against the in-memory adapter (the SQLite adapter needs Bun or better-sqlite3)
+ */
+
+const V1: W3CTokenSet = { color: { brand: { $type: 'color', $value: '#2563eb' } } } as unknown as W3CTokenSet;
+const V2: W3CTokenSet = { color: { brand: { $type: 'color', $value: '#1d4ed8' } } } as unknown as W3CTokenSet;
+
+async function completeScan(
+	repository: ScanRepository,
+	siteId: string,
+	versionNumber: number,
+	tokensJson: W3CTokenSet,
+	owner?: { isPublic: boolean; createdBy: string | null },
+) {
+	const scan = await repository.scans.create({ siteId, method: 'static' });
+	await repository.cssContent.store(scan.id, [
+		{ kind: 'link', url: 'https://example.com/main.css', content: 'body{color:#111}', bytes: 16, sha: 'sha-main' },
+	]);
+	const tokenSet = await repository.completeScan({
+		siteId,
+		scanId: scan.id,
+		versionNumber,
+		tokensJson,
+		packJson: {},
+		consensusScore: '0.80',
+		layout: { profileJson: {} },
+		cssSourceCount: 1,
+		sha: `sha-v${versionNumber}`,
+		metricsJson: null,
+		...owner,
+	});
+	return { scan, tokenSet };
+}
+
+test.describe('Scan repository', () => {
+	test('a scan round-trips through sites, scans, css content and token sets', async () => {
+		const repository = createMemoryRepository();
+		const site = await repository.sites.create({ domain: 'example.com', status: 'scanning' });
+		expect(await repository.sites.findByDomain('example.com')).toMatchObject({ id: site.id, popularity: 0 });
+
+		const { scan, tokenSet } = await completeScan(repository, site.id, 1, V1);
+
+		expect(await repository.scans.get(scan.id)).toMatchObject({ cssSourceCount: 1, sha: 'sha-v1' });
+		expect((await repository.scans.get(scan.id))?.finishedAt).toBeInstanceOf(Date);
+		expect(await repository.sites.findByDomain('example.com')).toMatchObject({ status: 'completed', popularity: 1 });
+		expect(await repository.tokenSets.get(tokenSet.id)).toMatchObject({ tokensJson: V1, consensusScore: '0.80' });
+		expect(await repository.cssContent.get('sha-main')).toMatchObject({ content: 'body{color:#111}', referenceCount: 1 });
+	});
+
+	test('shared stylesheets are stored once and reference counted', async () => {
+		const repository = createMemoryRepository();
+		const site = await repository.sites.create({ domain: 'example.com' });
+		await completeScan(repository, site.id, 1, V1);
+		await completeScan(repository, site.id, 2, V2);
+
+		expect((await repository.cssContent.get('sha-main'))?.referenceCount).toBe(2);
+	});
+
+	test('latest token set carries its version for the next diff', async () => {
+		const repository = createMemoryRepository();
+		const site = await repository.sites.create({ domain: 'example.com' });
+
+		const first = await completeScan(repository, site.id, 1, V1);
+		const firstVersionId = await repository.versions.record({
+			siteId: site.id,
+			tokenSetId: first.tokenSet.id,
+			versionNumber: 1,
+			previousVersionId: null,
+			diff: null,
+		});
+
+		const previous = await repository.tokenSets.getLatest(site.id);
+		expect(previous).toMatchObject({ id: first.tokenSet.id, versionNumber: 1, tokenVersionId: firstVersionId });
+
+		const second = await completeScan(repository, site.id, 2, V2);
+		await repository.versions.record({
+			siteId: site.id,
+			tokenSetId: second.tokenSet.id,
+			versionNumber: 2,
+			previousVersionId: previous!.tokenVersionId,
+			diff: compareTokenSets(previous!.tokensJson, V2),
+		});
+
+		expect((await repository.tokenSets.listBySite(site.id)).map(tokenSet => tokenSet.versionNumber)).toEqual([2, 1]);
+		const [latestVersion] = await repository.versions.listBySite(site.id);
+		expect(latestVersion).toMatchObject({ versionNumber: 2, previousVersionId: firstVersionId });
+		expect(latestVersion.diffSummary).toMatchObject({ modifiedCount: 1 });
+	});
+
+	test('a profile scan is stored private to its owner and never becomes the public latest', async () => {
+		const repository = createMemoryRepository();
+		const site = await repository.sites.create({ domain: 'example.com' });
+		const published = await completeScan(repository, site.id, 1, V1);
+
+		const profileScan = await completeScan(repository, site.id, 2, V2, { isPublic: false, createdBy: 'user-1' });
+
+		expect(await repository.tokenSets.get(profileScan.tokenSet.id, 'user-1')).toMatchObject({ isPublic: false, createdBy: 'user-1' });
+		expect(await repository.tokenSets.getLatest(site.id)).toMatchObject({ id: published.tokenSet.id, versionNumber: 1, tokensJson: V1 });
+		expect(published.tokenSet).toMatchObject({ isPublic: true, createdBy: null });
+	});
+
+	test('private token sets are hidden from everyone but their owner', async () => {
+		const repository = createMemoryRepository();
+		const site = await repository.sites.create({ domain: 'example.com' });
+		const published = await completeScan(repository, site.id, 1, V1);
+		const profileScan = await completeScan(repository, site.id, 2, V2, { isPublic: false, createdBy: 'user-1' });
+
+		expect(await repository.tokenSets.get(profileScan.tokenSet.id)).toBeNull();
+		expect(await repository.tokenSets.get(profileScan.tokenSet.id, 'user-2')).toBeNull();
+		expect((await repository.tokenSets.listBySite(site.id)).map(tokenSet => tokenSet.id)).toEqual([published.tokenSet.id]);
+		expect((await repository.tokenSets.listBySite(site.id, 'user-1')).map(tokenSet => tokenSet.id)).toEqual([
+			profileScan.tokenSet.id,
+			published.tokenSet.id,
+		]);
+	});
+
+	test('an official set outranks newer crawls, which still diff against the previous crawl', async () => {
+		const repository = createMemoryRepository();
+		const site = await repository.sites.create({ domain: 'example.com' });
+		const crawled = await completeScan(repository, site.id, 1, V1);
+		const official = await repository.tokenSets.create({ siteId: site.id, scanId: null, versionNumber: 2, tokensJson: V2, isOfficial: true });
+		const recrawled = await completeScan(repository, site.id, 3, V1);
+
+		expect(await repository.tokenSets.getLatest(site.id)).toMatchObject({ id: official.id, versionNumber: 2 });
+		expect(await repository.tokenSets.getLatest(site.id, { crawledOnly: true })).toMatchObject({ id: recrawled.tokenSet.id, versionNumber: 3 });
+		expect((await repository.tokenSets.listBySite(site.id)).map(tokenSet => tokenSet.id)).toEqual([
+			official.id,
+			recrawled.tokenSet.id,
+			crawled.tokenSet.id,
+		]);
+	});
+
+	test('unchanged scans finish without a new token set', async () => {
+		const repository = createMemoryRepository();
+		const site = await repository.sites.create({ domain: 'example.com' });
+		await completeScan(repository, site.id, 1, V1);
+
+		const scan = await repository.scans.create({ siteId: site.id, method: 'static' });
+		await repository.completeUnchangedScan({ siteId: site.id, scanId: scan.id, cssSourceCount: 1, sha: 'sha-v1', metricsJson: null });
+
+		expect(await repository.tokenSets.listBySite(site.id)).toHaveLength(1);
+		expect(await repository.scans.get(scan.id)).toMatchObject({ sha: 'sha-v1' });
+		expect((await repository.sites.findByDomain('example.com'))?.popularity).toBe(1);
+	});
+
+	test('adapter is picked from the environment', () => {
+		expect(createScanRepository({}).name).toBe('memory');
+		expect(createScanRepository({ STORAGE_ADAPTER: 'sqlite', SQLITE_PATH: ':memory:' }).name).toBe('sqlite');
+		expect(() => createScanRepository({ STORAGE_ADAPTER: 'postgres' })).toThrow(StorageAdapterError);
+		expect(() => createScanRepository({ STORAGE_ADAPTER: 'mongo' })).toThrow('Unknown STORAGE_ADAPTER "mongo"');
+	});
+});
@@ -0,0 +1,103 @@
+import { test, expect } from '@playwright/test';
+import sharp from 'sharp';
+import { diffScreenshots, linkRegionsToTokenChanges, type LinkableTokenChange } from '@/lib/analyzers/screenshot-diff';
+
+/**
+ * Visual regression between two scans: pixel diff, changed regions and links
+ * back to the token changes of the newer version
+ */
+
+const WHITE = { r: 255, g: 255, b: 255 };
+
+async function page(blocks: Array<{ left: number; top: number; width: number; height: number; color: string }>, height = 200): Promise<Buffer> {
+	return sharp({ create: { width: 300, height, channels: 3, background: WHITE } })
+		.composite(blocks.map(block => ({
+			input: { create: { width: block.width, height: block.height, channels: 3 as const, background: block.color } },
+			left: block.left,
+			top: block.top,
+		})))
+		.png()
+		.toBuffer();
+}
+
+const button = (color: string, left = 20) => ({ left, top: 20, width: 80, height: 40, color });
+
+const primaryChange: LinkableTokenChange = {
+	id: 'change-primary',
+	tokenPath: 'color.primary',
+	changeType: 'modified',
+	category: 'color',
+	oldValue: { colorSpace: 'srgb', components: [0.1451, 0.3882, 0.9216] }, // #2563eb
+	newValue: '#dc2626',
+};
+
+const spacingChange: LinkableTokenChange = {
+	id: 'change-spacing',
+	tokenPath: 'dimension.spacing-4',
+	changeType: 'modified',
+	category: 'dimension',
+	oldValue: { value: 16, unit: 'px' },
+	newValue: { value: 24, unit: 'px' },
+};
+
+test.describe('Screenshot diff', () => {
+	test('identical screenshots have no changes', async () => {
+		const image = await page([button('#2563eb')]);
+		const diff = await diffScreenshots(image, image);
+
+		expect(diff.changedPixels).toBe(0);
+		expect(diff.changedPercent).toBe(0);
+		expect(diff.regions).toEqual([]);
+	});
+
+	test('a recolored block becomes one region with its before and after colors', async () => {
+		const diff = await diffScreenshots(await page([button('#2563eb')]), await page([button('#dc2626')]));
+
+		expect(diff.changedPixels).toBe(80 * 40);
+		expect(diff.changedPercent).toBeCloseTo((3200 / 60000) * 100, 2);
+		expect(diff.regions).toHaveLength(1);
+		expect(diff.regions[0]).toMatchObject({ x: 0, y: 0, kind: 'recolor', beforeColors: ['#2563eb'], afterColors: ['#dc2626'] });
+
+		const metadata = await sharp(diff.diffImage).metadata();
+		expect(metadata).toMatchObject({ format: 'png', width: 300, height: 200 });
+	});
+
+	test('sparse single-pixel noise is ignored when grouping regions', async () => {
+		const noise = Array.from({ length: 5 }, (_, i) => ({ left: 40 + i * 50, top: 150, width: 1, height: 1, color: '#000000' }));
+		const diff = await diffScreenshots(await page([]), await page(noise));
+
+		expect(diff.changedPixels).toBeGreaterThan(0);
+		expect(diff.regions).toEqual([]);
+	});
+
+	test('pages of different heights are compared on a shared canvas', async () => {
+		const diff = await diffScreenshots(await page([], 200), await page([], 260));
+
+		expect(diff.height).toBe(260);
+		expect(diff.regions[0]).toMatchObject({ y: 192 });
+	});
+});
+
+test.describe('Linking regions to token changes', () => {
+	test('color changes link to regions showing the old and new color', async () => {
+		const diff = await diffScreenshots(await page([button('#2563eb')]), await page([button('#dc2626')]));
+		const [region] = linkRegionsToTokenChanges(diff.regions, [primaryChange, spacingChange]);
+
+		expect(region.tokenChangeIds).toEqual(['change-primary']);
+	});
+
+	test('moved blocks link to layout changes, not color changes', async () => {
+		const diff = await diffScreenshots(await page([button('#2563eb', 20)]), await page([button('#2563eb', 60)]));
+		const [region] = linkRegionsToTokenChanges(diff.regions, [primaryChange, spacingChange]);
+
+		expect(region.kind).toBe('shift');
+		expect(region.tokenChangeIds).toEqual(['change-spacing']);
+	});
+
+	test('regions no token change explains stay unlinked', async () => {
+		const diff = await diffScreenshots(await page([]), await page([button('#16a34a')]));
+		const [region] = linkRegionsToTokenChanges(diff.regions, [primaryChange]);
+
+		expect(region.tokenChangeIds).toEqual([]);
+	});
+});
@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import {
+	collectComponentProperties,
+	collectShadowSources,
+	scopeHostSelectors,
+} from '@/lib/extractors/shadow-dom';
+import { detectCustomElementType } from '@/lib/analyzers/advanced-component-detector';
+import { extractW3CTokens } from '@/lib/analyzers/w3c-tokenizer';
+import type { CssSource } from '@/lib/extractors/static-css';
+
+/**
+ * Shadow DOM extraction: open shadow root styles become sources scoped to their
+ * host, the custom properties components expose become component-scoped tokens,
+ * and custom elements are recognised by tag name
+ */
+
+function source(content: string, component?: string): CssSource {
+	return { kind: 'cssom', content, bytes: content.length, sha: `sha-${component ?? 'page'}`, ...(component ? { component } : {}) };
+}
+
+test.describe('Shadow DOM extraction', () => {
+	test(':host selectors are rewritten to the host tag', () => {
+		const css = ':host { display: inline-block; }\n:host([variant="primary"]) .button { color: red; }\n:host-context(.dark) { color: white; }';
+		expect(scopeHostSelectors(css, 'sl-button')).toBe(
+			'sl-button { display: inline-block; }\nsl-button[variant="primary"] .button { color: red; }\n.dark sl-button { color: white; }',
+		);
+	});
+
+	test('shadow sheets become sources tagged with their component, shared sheets kept once', () => {
+		const shared = ':host { box-sizing: border-box; }';
+		const sources = collectShadowSources([
+			{ host: 'SL-BUTTON', sheets: [{ origin: 'adopted', content: shared, ruleCount: 1 }, { origin: 'adopted', content: '.button { color: var(--sl-color-primary-600); }', ruleCount: 1 }] },
+			{ host: 'sl-input', sheets: [{ origin: 'adopted', content: shared, ruleCount: 1 }, { origin: 'style', content: '', ruleCount: 0 }] },
+			{ host: 'template', sheets: [{ origin: 'style', content: 'p { margin: 0; }', ruleCount: 1 }] },
+		]);
+
+		expect(sources).toEqual([
+			{ content: 'sl-button { box-sizing: border-box; }', component: 'sl-button' },
+			{ content: '.button { color: var(--sl-color-primary-600); }', component: 'sl-button' },
+		]);
+	});
+
+	test('components expose the properties they declare, read, or have set on their host and parts', () => {
+		const properties = collectComponentProperties([
+			{ content: 'sl-range { --track-height: 6px; }\n.track { height: var(--track-height); background: var(--sl-color-neutral-200); }', component: 'sl-range' },
+			{ content: 'sl-button::part(base) { --brand-radius: 12px; border-radius: var(--brand-radius); }\nsl-range, sl-button { --thumb-size: 20px; }' },
+			{ content: ':root { --sl-color-neutral-200: #e4e4e7; }\n.card { --ignored: 1px; }' },
+			{ content: 'sl-button { color: red; }', component: 'sl-button' },
+		]);
+
+		expect(Object.fromEntries(properties)).toEqual({
+			'--track-height': ['sl-range'],
+			'--sl-color-neutral-200': ['sl-range'],
+			'--brand-radius': ['sl-button'],
+			'--thumb-size': ['sl-button', 'sl-range'],
+		});
+	});
+
+	test('exposed custom properties become tokens listing their components', () => {
+		const { tokenSet } = extractW3CTokens([
+			source(':root { --sl-color-primary-600: #2563eb; --sl-spacing-medium: 1rem; }\nbody { color: #0f172a; }'),
+			source('sl-button { --sl-button-radius: 6px; }\n.button { color: var(--sl-color-primary-600); padding: var(--sl-spacing-medium); border-radius: var(--sl-button-radius); }', 'sl-button'),
+		], { domain: 'example.com', url: 'https://example.com' });
+
+		const colors = tokenSet.color as Record<string, { $value: unknown; $extensions: Record<string, unknown> }>;
+		const dimensions = tokenSet.dimension as Record<string, { $value: unknown; $extensions: Record<string, unknown> }>;
+
+		expect(colors['sl-color-primary-600']).toMatchObject({
+			$value: { colorSpace: 'srgb' },
+			$extensions: { 'contextds.original': '--sl-color-primary-600', 'contextds.components': ['sl-button'] },
+		});
+		expect(dimensions['sl-button-radius']).toMatchObject({ $value: { value: 6, unit: 'px' }, $extensions: { 'contextds.components': ['sl-button'] } });
+		expect(dimensions['sl-spacing-medium']).toMatchObject({ $value: { value: 1, unit: 'rem' }, $extensions: { 'contextds.original': '--sl-spacing-medium' } });
+		expect(tokenSet.$metadata.source.cssSources[1]).toMatchObject({ kind: 'cssom', component: 'sl-button' });
+	});
+
+	test('custom elements are recognised by tag name', () => {
+		expect(detectCustomElementType({ selector: 'sl-button.primary' })).toBe('button');
+		expect(detectCustomElementType({ tagName: 'MD-FILLED-TEXT-FIELD' })).toBe('input');
+		expect(detectCustomElementType({ selector: 'sl-tab-group' })).toBe('tabs');
+		expect(detectCustomElementType({ selector: 'ion-toggle' })).toBe('switch');
+		expect(detectCustomElementType({ selector: 'sl-menu-item' })).toBeNull();
+		expect(detectCustomElementType({ selector: 'button.btn-primary' })).toBeNull();
+	});
+});
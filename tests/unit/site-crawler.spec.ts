@@ -0,0 +1,188 @@
+import { test, expect } from '@playwright/test';
+import { parseRobotsTxt } from '@/lib/extractors/robots';
+import { crawlSite, extractSameOriginLinks } from '@/lib/extractors/site-crawler';
+import { createRecordingFetcher, type FetchLike, type ScanFetcher } from '@/lib/extractors/scan-archive';
+
+/**
+ * Multi-page crawls: robots.txt groups and rule matching, which links the
+ * crawler follows, and the page budget and depth limits, against a fake site
+ */
+
+const ORIGIN = 'https://example.com';
+
+function page(...links: string[]): string {
+	return `<html><head><style>body { color: #111827; }</style></head><body>${links.map(href => `<a href="${href}">${href}</a>`).join('')}</body></html>`;
+}
+
+function createSite(pages: Record<string, string>, robots?: string) {
+	const calls: string[] = [];
+	const upstream: FetchLike = async (url) => {
+		calls.push(url);
+		const path = new URL(url).pathname;
+		if (path === '/robots.txt') {
+			return robots === undefined ? new Response('Not found', { status: 404 }) : new Response(robots, { status: 200, headers: { 'content-type': 'text/plain' } });
+		}
+		if (!(path in pages)) return new Response('Not found', { status: 404 });
+
+		const response = new Response(pages[path], { status: 200, headers: { 'content-type': 'text/html' } });
+		Object.defineProperty(response, 'url', { value: url });
+		return response;
+	};
+	// Replay mode skips the Crawl-delay wait between pages
+	const fetcher: ScanFetcher = { ...createRecordingFetcher({ upstream }), mode: 'replay' };
+	return { fetcher, calls };
+}
+
+const SITE = {
+	'/': page('/pricing', '/docs', '/blog'),
+	'/pricing': page('/', '/pricing/enterprise'),
+	'/docs': page('/docs/getting-started'),
+	'/blog': page('/blog/launch'),
+	'/pricing/enterprise': page(),
+	'/docs/getting-started': page(),
+	'/blog/launch': page(),
+};
+
+test.describe('robots.txt', () => {
+	test('groups naming contextds replace the wildcard group', () => {
+		const robots = parseRobotsTxt([
+			'User-agent: *',
+			'Disallow: /',
+			'',
+			'User-agent: Googlebot',
+			'User-agent: ContextDS-Bot',
+			'Disallow: /admin',
+		].join('\n'));
+
+		expect(robots.status).toBe('allowed');
+		expect(robots.isAllowed(`${ORIGIN}/pricing`)).toBe(true);
+		expect(robots.isAllowed(`${ORIGIN}/admin/users`)).toBe(false);
+
+		const wildcard = parseRobotsTxt('User-agent: Googlebot\nDisallow: /\n\nUser-agent: *\nDisallow: /admin # staff only');
+		expect(wildcard.isAllowed(`${ORIGIN}/`)).toBe(true);
+		expect(wildcard.isAllowed(`${ORIGIN}/admin`)).toBe(false);
+	});
+
+	test('the longest matching rule wins and Allow wins ties', () => {
+		const robots = parseRobotsTxt([
+			'User-agent: *',
+			'Disallow: /docs',
+			'Allow: /docs/public',
+			'Disallow: /shop',
+			'Allow: /shop',
+			'Disallow:',
+		].join('\n'));
+
+		expect(robots.isAllowed(`${ORIGIN}/docs/internal`)).toBe(false);
+		expect(robots.isAllowed(`${ORIGIN}/docs/public/intro`)).toBe(true);
+		expect(robots.isAllowed(`${ORIGIN}/shop/cart`)).toBe(true);
+		expect(robots.isAllowed(`${ORIGIN}/about`)).toBe(true);
+	});
+
+	test('* matches any run of characters and $ anchors the end', () => {
+		const robots = parseRobotsTxt([
+			'User-agent: *',
+			'Disallow: /*.pdf$',
+			'Disallow: /*?session=',
+			'Disallow: /exact$',
+		].join('\n'));
+
+		expect(robots.isAllowed(`${ORIGIN}/files/report.pdf`)).toBe(false);
+		expect(robots.isAllowed(`${ORIGIN}/files/report.pdf.html`)).toBe(true);
+		expect(robots.isAllowed(`${ORIGIN}/pricing?session=abc`)).toBe(false);
+		expect(robots.isAllowed(`${ORIGIN}/pricing?plan=pro`)).toBe(true);
+		expect(robots.isAllowed(`${ORIGIN}/exact`)).toBe(false);
+		expect(robots.isAllowed(`${ORIGIN}/exactly`)).toBe(true);
+	});
+
+	test('Crawl-delay takes the longest delay, capped at 5 seconds', () => {
+		expect(parseRobotsTxt('User-agent: *\nCrawl-delay: 0.5').crawlDelayMs).toBe(500);
+		expect(parseRobotsTxt('User-agent: *\nCrawl-delay: 30').crawlDelayMs).toBe(5000);
+		expect(parseRobotsTxt('User-agent: *\nCrawl-delay: soon').crawlDelayMs).toBe(0);
+		expect(parseRobotsTxt('User-agent: *\nDisallow: /\nCrawl-delay: 2')).toMatchObject({ status: 'disallowed', crawlDelayMs: 2000 });
+	});
+});
+
+test.describe('Site crawler', () => {
+	test('follows same-origin document links and skips everything else', () => {
+		const html = [
+			'<a href="/pricing/">Pricing</a>',
+			'<a href="/pricing#plans">Plans</a>',
+			'<a href="docs?lang=en">Docs</a>',
+			'<a href="#top">Top</a>',
+			'<a href="mailto:hello@example.com">Mail</a>',
+			'<a href="javascript:void(0)">Menu</a>',
+			'<a href="https://other.example/">Elsewhere</a>',
+			'<a rel="nofollow noopener" href="/login">Log in</a>',
+			'<a href="/brand-kit" download>Brand kit</a>',
+			'<a href="/whitepaper.PDF">Whitepaper</a>',
+			'<a href="/logo.svg">Logo</a>',
+			'<a href="/">Home</a>',
+		].join('');
+
+		expect(extractSameOriginLinks(html, `${ORIGIN}/company/`, ORIGIN)).toEqual([
+			`${ORIGIN}/pricing`,
+			`${ORIGIN}/company/docs?lang=en`,
+			`${ORIGIN}/`,
+		]);
+	});
+
+	test('caps the links taken from a single page', () => {
+		const html = Array.from({ length: 80 }, (_, index) => `<a href="/page-${index}">Page ${index}</a>`).join('');
+		const links = extractSameOriginLinks(html, `${ORIGIN}/`, ORIGIN);
+
+		expect(links).toHaveLength(50);
+		expect(links[49]).toBe(`${ORIGIN}/page-49`);
+	});
+
+	test('depth limits how many link hops are followed', async () => {
+		const single = await crawlSite(`${ORIGIN}/`, { depth: 1, fetcher: createSite(SITE).fetcher });
+		expect(single.pages.map(crawled => crawled.url)).toEqual([`${ORIGIN}/`]);
+
+		const two = await crawlSite(`${ORIGIN}/`, { depth: 2, fetcher: createSite(SITE).fetcher });
+		expect(two.pages.map(crawled => [crawled.url, crawled.depth])).toEqual([
+			[`${ORIGIN}/`, 1],
+			[`${ORIGIN}/pricing`, 2],
+			[`${ORIGIN}/docs`, 2],
+			[`${ORIGIN}/blog`, 2],
+		]);
+		expect(two.pages.every(crawled => crawled.status === 'completed')).toBe(true);
+
+		const three = await crawlSite(`${ORIGIN}/`, { depth: 3, fetcher: createSite(SITE).fetcher });
+		expect(three.pages).toHaveLength(7);
+		expect(three.pages.filter(crawled => crawled.depth === 3).map(crawled => crawled.url)).toEqual([
+			`${ORIGIN}/pricing/enterprise`,
+			`${ORIGIN}/docs/getting-started`,
+			`${ORIGIN}/blog/launch`,
+		]);
+	});
+
+	test('stops at the page budget without fetching further pages', async () => {
+		const { fetcher, calls } = createSite(SITE);
+		const result = await crawlSite(`${ORIGIN}/`, { depth: 3, maxPages: 3, fetcher });
+
+		expect(result.pages.map(crawled => crawled.url)).toEqual([`${ORIGIN}/`, `${ORIGIN}/pricing`, `${ORIGIN}/docs`]);
+		expect(calls.filter(url => !url.endsWith('/robots.txt'))).toEqual(result.pages.map(crawled => crawled.url));
+
+		const wide = Object.fromEntries(Array.from({ length: 40 }, (_, index) => [`/page-${index}`, page()]));
+		const capped = await crawlSite(`${ORIGIN}/`, {
+			depth: 2,
+			maxPages: 100,
+			fetcher: createSite({ ...wide, '/': page(...Object.keys(wide)) }).fetcher,
+		});
+		expect(capped.pages).toHaveLength(25);
+	});
+
+	test('pages blocked by robots.txt are skipped and reported', async () => {
+		const { fetcher, calls } = createSite(SITE, 'User-agent: *\nDisallow: /docs\nCrawl-delay: 3');
+		const result = await crawlSite(`${ORIGIN}/`, { depth: 3, fetcher });
+
+		expect(result.robotsStatus).toBe('allowed');
+		expect(result.skippedByRobots).toEqual([`${ORIGIN}/docs`]);
+		expect(result.pages.map(crawled => crawled.url)).not.toContain(`${ORIGIN}/docs/getting-started`);
+		expect(calls).not.toContain(`${ORIGIN}/docs`);
+
+		const blocked = await crawlSite(`${ORIGIN}/`, { depth: 2, fetcher: createSite(SITE, 'User-agent: *\nDisallow: /').fetcher });
+		expect(blocked).toMatchObject({ robotsStatus: 'disallowed', pages: [], skippedByRobots: [`${ORIGIN}/`] });
+	});
+});
@@ -0,0 +1,83 @@
+import { test, expect } from '@playwright/test';
+import {
+	assertScanAllowed,
+	checkDomainControl,
+	claimInstructions,
+	normalizeClaimDomain,
+	InvalidClaimDomainError,
+	SiteOptedOutError,
+	type OwnershipResolvers,
+} from '@/lib/compliance/site-ownership';
+import { setScanRepository } from '@/lib/db/repositories';
+import { createMemoryRepository } from '@/lib/db/repositories/memory';
+import { runScanJob } from '@/lib/workers/scan-orchestrator';
+
+/**
+ * Site ownership: domain-control checks against fake DNS/HTTP resolvers, and
+ * owner opt-outs stopping scans before anything is fetched
+ */
+
+const TOKEN = '0123456789abcdef0123456789abcdef';
+
+function resolvers(txt: Record<string, string[][]>, file: string | null = null): OwnershipResolvers {
+	return {
+		resolveTxt: async hostname => {
+			if (!txt[hostname]) throw Object.assign(new Error('queryTxt ENODATA'), { code: 'ENODATA' });
+			return txt[hostname];
+		},
+		fetchText: async () => file,
+	};
+}
+
+test.describe('Site ownership', () => {
+	test('claims are stored under the bare domain', () => {
+		expect(normalizeClaimDomain('https://WWW.Example.com/pricing')).toBe('example.com');
+		expect(normalizeClaimDomain('docs.example.com')).toBe('docs.example.com');
+		expect(() => normalizeClaimDomain('127.0.0.1')).toThrow(InvalidClaimDomainError);
+		expect(() => normalizeClaimDomain('localhost')).toThrow(InvalidClaimDomainError);
+
+		expect(claimInstructions({ domain: 'example.com', token: TOKEN }).dns).toEqual({
+			type: 'TXT',
+			name: '_contextds.example.com',
+			value: `contextds-verification=${TOKEN}`,
+		});
+	});
+
+	test('a TXT record proves control, including records split into chunks', async () => {
+		const check = await checkDomainControl('example.com', TOKEN, resolvers({
+			'_contextds.example.com': [['contextds-verification=', TOKEN]],
+		}));
+		expect(check).toEqual({ verified: true, method: 'dns' });
+	});
+
+	test('the well-known file proves control when DNS does not', async () => {
+		const file = `# ContextDS\ncontextds-verification=${TOKEN}\n`;
+		const check = await checkDomainControl('example.com', TOKEN, resolvers({ 'example.com': [['v=spf1 -all']] }, file));
+		expect(check).toEqual({ verified: true, method: 'well_known' });
+	});
+
+	test('someone else\'s token does not verify', async () => {
+		const check = await checkDomainControl('example.com', TOKEN, resolvers(
+			{ '_contextds.example.com': [['contextds-verification=someone-else']] },
+			'contextds-verification=someone-else'
+		));
+		expect(check.verified).toBe(false);
+	});
+
+	test('opted-out sites are never scanned', async () => {
+		const repository = createMemoryRepository();
+		await repository.sites.create({ domain: 'example.com', ownerOptout: true });
+		await repository.sites.create({ domain: 'other.com' });
+
+		await expect(assertScanAllowed(repository, 'www.example.com')).rejects.toThrow(SiteOptedOutError);
+		await expect(assertScanAllowed(repository, 'other.com')).resolves.toBeUndefined();
+
+		setScanRepository(repository);
+		try {
+			await expect(runScanJob({ url: 'https://example.com', prettify: false, includeComputed: false, mode: 'fast' }))
+				.rejects.toThrow('The owner of example.com opted out of scanning');
+		} finally {
+			setScanRepository(null);
+		}
+	});
+});
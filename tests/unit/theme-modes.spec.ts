@@ -0,0 +1,123 @@
+import { test, expect } from '@playwright/test';
+import { extractW3CTokens, type W3CDesignToken, type W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer';
+import { curateTokens } from '@/lib/analyzers/token-curator';
+import { buildAiPromptPack } from '@/lib/analyzers/ai-prompt-pack';
+import { generateCSSFormat } from '@/lib/mcp/design-tokens-tool';
+import { exportTokens } from '@/lib/exporters/comprehensive-token-exporter';
+import type { CssSource } from '@/lib/extractors/static-css';
+
+/**
+ * Theme-aware extraction: dark values stay out of the base palette and are
+ * exported as token modes
+ */
+
+const THEMED_CSS = `
+:root {
+	--background: 0 0% 100%;
+	--foreground: 222 47% 11%;
+	--color-primary: #2563eb;
+}
+.dark {
+	--background: 222 47% 11%;
+	--foreground: 210 40% 98%;
+}
+@media (prefers-color-scheme: dark) {
+	:root:not(.light) { --color-primary: #60a5fa; }
+}
+body { background-color: hsl(var(--background)); color: hsl(var(--foreground)); }
+.panel { background-color: hsl(var(--background)); color: hsl(var(--foreground)); }
+.dialog { background-color: hsl(var(--background)); color: hsl(var(--foreground)); }
+.card { border-color: #e5e7eb; }
+.card { border-color: #e5e7eb; }
+[data-theme="dark"] .card { border-color: #1f2937; }
+.button { color: var(--color-primary); }
+`;
+
+function extract(css: string) {
+	const source: CssSource = { kind: 'inline', url: 'https://example.com', content: css, bytes: css.length, sha: 'test' };
+	return extractW3CTokens([source], { domain: 'example.com', url: 'https://example.com' });
+}
+
+function colors(tokenSet: W3CTokenSet) {
+	return tokenSet.color as Record<string, W3CDesignToken>;
+}
+
+function hexes(tokenSet: W3CTokenSet): string[] {
+	return Object.values(colors(tokenSet)).map(token => token.$extensions?.['contextds.original'] ?? '');
+}
+
+test.describe('Theme mode extraction', () => {
+	test('records light and dark modes in metadata', () => {
+		const { tokenSet } = extract(THEMED_CSS);
+
+		expect(tokenSet.$metadata.modes).toEqual(['light', 'dark']);
+	});
+
+	test('keeps dark-only values out of the base palette', () => {
+		const { tokenSet } = extract(THEMED_CSS);
+		const palette = hexes(tokenSet).map(value => value.toLowerCase());
+
+		expect(palette).toContain('#e5e7eb');
+		expect(palette).not.toContain('#1f2937');
+		expect(palette).not.toContain('#60a5fa');
+	});
+
+	test('themed variables become semantic tokens with per-mode values', () => {
+		const { tokenSet } = extract(THEMED_CSS);
+		const background = colors(tokenSet).background;
+		const primary = colors(tokenSet).primary;
+
+		expect(background.$extensions?.['contextds.modes']).toMatchObject({
+			light: { components: [1, 1, 1] },
+			dark: { colorSpace: 'srgb' },
+		});
+		expect(Object.keys(primary.$extensions?.['contextds.modes'] ?? {})).toEqual(['light', 'dark']);
+	});
+
+	test('pairs themed declarations with the base color they override', () => {
+		const { tokenSet } = extract(THEMED_CSS);
+		const border = Object.values(colors(tokenSet)).find(token => token.$extensions?.['contextds.original']?.toLowerCase() === '#e5e7eb');
+
+		const modes = border?.$extensions?.['contextds.modes'] as Record<string, { components: number[] }>;
+		expect(Object.keys(modes)).toEqual(['light', 'dark']);
+		expect(modes.dark.components.map(c => Math.round(c * 255))).toEqual([31, 41, 55]);
+	});
+
+	test('unthemed CSS has no modes', () => {
+		const { tokenSet } = extract('.a { color: #111111; } .b { color: #111111; }');
+
+		expect(tokenSet.$metadata.modes).toBeUndefined();
+		expect(Object.values(colors(tokenSet)).every(token => !token.$extensions?.['contextds.modes'])).toBe(true);
+	});
+});
+
+test.describe('Theme mode exports', () => {
+	test('css export emits data-theme and prefers-color-scheme overrides', () => {
+		const { tokenSet } = extract(THEMED_CSS);
+		const css = exportTokens({ format: 'css', tokens: curateTokens(tokenSet), metadata: { name: 'Example' } });
+
+		expect(css).toContain('[data-theme="light"] {');
+		expect(css).toContain('[data-theme="dark"] {');
+		expect(css).toContain('@media (prefers-color-scheme: dark) {');
+		expect(css).toContain('--background: #0f1729;');
+	});
+
+	test('figma variables use one collection with every mode', () => {
+		const { tokenSet } = extract(THEMED_CSS);
+		const output = JSON.parse(exportTokens({ format: 'figma-variables', tokens: curateTokens(tokenSet) }));
+
+		expect(output.collections[0].modes).toEqual(['light', 'dark']);
+		const background = output.variables.find((variable: { name: string }) => variable.name === 'background');
+		expect(background.valuesByMode.light).toMatchObject({ r: 1, g: 1, b: 1 });
+		expect(background.valuesByMode.dark).not.toEqual(background.valuesByMode.light);
+	});
+
+	test('prompt pack css differs between light and dark', () => {
+		const extraction = extract(THEMED_CSS);
+		const pack = buildAiPromptPack(extraction, { domain: 'example.com', url: 'https://example.com' });
+
+		expect(pack.meta.modes).toEqual(['light', 'dark']);
+		expect(generateCSSFormat(pack, 'light')).toContain('--bg-base: #FFFFFF;');
+		expect(generateCSSFormat(pack, 'dark')).toContain('--bg-base: #0F1729;');
+	});
+});
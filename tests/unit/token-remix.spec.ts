@@ -0,0 +1,105 @@
+import { test, expect } from '@playwright/test';
+import { remixTokenSets, RemixError, type RemixSource } from '@/lib/analyzers/token-remix';
+import { getContrastRatio } from '@/lib/contrast-checker';
+import { w3cToHex } from '@/lib/analyzers/color-utils';
+import { extractW3CTokens, type W3CDesignToken, type W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer';
+import type { CssSource } from '@/lib/extractors/static-css';
+
+/**
+ * Remix: blend categories from several token sets under spacing and contrast rules
+ */
+
+const LINEAR_CSS = `
+:root {
+	--white: #ffffff;
+	--gray-400: #a1a1aa;
+	--indigo-500: #5e6ad2;
+	--background: var(--white);
+	--text: var(--gray-400);
+	--accent: var(--indigo-500);
+}
+body { background-color: var(--background); color: var(--text); }
+.card { background-color: var(--background); color: var(--text); }
+.link { color: var(--accent); }
+.link:hover { color: var(--accent); }
+.stack { padding: 18px; margin: 6px; gap: 18px; }
+.row { padding: 6px; gap: 18px; border-radius: 6px; }
+`;
+
+const STRIPE_CSS = `
+h1 { font-family: "Sohne", sans-serif; font-size: 48px; }
+h2 { font-family: "Sohne", sans-serif; font-size: 32px; }
+p { font-family: "Sohne", sans-serif; font-size: 16px; }
+.a { color: #635bff; }
+.b { color: #635bff; }
+.box { padding: 10px; margin: 10px; }
+`;
+
+function extract(css: string, domain: string): W3CTokenSet {
+	const source: CssSource = { kind: 'inline', url: `https://${domain}`, content: css, bytes: css.length, sha: domain };
+	return extractW3CTokens([source], { domain, url: `https://${domain}` }).tokenSet;
+}
+
+const linear: RemixSource = { id: 'linear-id', name: 'linear.app', tokenSet: extract(LINEAR_CSS, 'linear.app') };
+const stripe: RemixSource = { id: 'stripe-id', name: 'stripe.com', tokenSet: extract(STRIPE_CSS, 'stripe.com') };
+
+function tokens(tokenSet: W3CTokenSet, category: string) {
+	return tokenSet[category] as Record<string, W3CDesignToken>;
+}
+
+function hex(token: W3CDesignToken): string {
+	return w3cToHex((token.$value as { components: number[] }).components);
+}
+
+test.describe('Token remix', () => {
+	test('takes each category from the chosen source with provenance', () => {
+		const { tokenSet, summary } = remixTokenSets([linear, stripe], {
+			categories: { color: linear.id, typography: stripe.id },
+		});
+
+		expect(summary.byCategory.color.source).toBe('linear.app');
+		expect(summary.byCategory.typography.source).toBe('stripe.com');
+
+		const accent = tokens(tokenSet, 'color').accent;
+		expect(accent.$extensions?.['contextds.provenance']).toEqual({ tokenSetId: 'linear-id', source: 'linear.app', path: 'color.accent' });
+		const heading = Object.values(tokens(tokenSet, 'typography'))[0];
+		expect(heading.$extensions?.['contextds.provenance']?.source).toBe('stripe.com');
+	});
+
+	test('unassigned categories come from the first source that has them', () => {
+		const { summary } = remixTokenSets([stripe, linear], { categories: { color: linear.id } });
+
+		expect(summary.byCategory.dimension.source).toBe('stripe.com');
+	});
+
+	test('snaps spacing to the grid but leaves radii alone', () => {
+		const { tokenSet, summary } = remixTokenSets([linear, stripe], { spacingGrid: 4 });
+		const dimensions = Object.values(tokens(tokenSet, 'dimension'));
+		const spacing = dimensions.filter(token => !token.$extensions?.['contextds.sources'].some(source => source.includes('radius')));
+		const radius = dimensions.find(token => token.$extensions?.['contextds.sources'].some(source => source.includes('radius')));
+
+		expect(spacing.map(token => (token.$value as { value: number }).value).every(value => value % 4 === 0)).toBe(true);
+		expect(radius?.$value).toMatchObject({ value: 6, unit: 'px' });
+		expect(summary.adjusted).toBeGreaterThan(0);
+		expect(spacing.some(token => token.$extensions?.['contextds.provenance']?.adjustments?.[0]?.startsWith('snapped to 4px grid'))).toBe(true);
+	});
+
+	test('raises text colors to AA against the background', () => {
+		const before = hex(tokens(linear.tokenSet, 'color').text);
+		expect(getContrastRatio(before, '#ffffff')).toBeLessThan(4.5);
+
+		const { tokenSet } = remixTokenSets([linear, stripe], { contrast: 'AA' });
+		const text = tokens(tokenSet, 'color').text;
+
+		expect(getContrastRatio(hex(text), '#ffffff')).toBeGreaterThanOrEqual(4.5);
+		expect(text.$extensions?.['contextds.provenance']?.adjustments?.[0]).toContain('against {color.background}');
+		expect(text.$extensions?.['contextds.alias']).toBeUndefined();
+		expect(tokens(tokenSet, 'color').accent.$extensions?.['contextds.alias']).toBe('{color.indigo-500}');
+		expect(hex(tokens(tokenSet, 'color').background)).toBe('#ffffff');
+	});
+
+	test('rejects rules that point at a set outside the sources', () => {
+		expect(() => remixTokenSets([linear, stripe], { categories: { color: 'other-id' } })).toThrow(RemixError);
+		expect(() => remixTokenSets([linear, stripe], { categories: { shadow: linear.id } })).toThrow('linear.app has no shadow tokens');
+	});
+});
@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+import { createHmac } from 'crypto';
+import { compareTokenSets } from '@/lib/analyzers/version-diff';
+import type { W3CTokenSet } from '@/lib/analyzers/w3c-tokenizer';
+import { buildDriftPayload, detectWatchDrift, signWebhookPayload } from '@/lib/workers/token-watch';
+
+/**
+ * Token drift watches: when a run counts as drift, the webhook payload built
+ * from the diff, and the signature receivers verify it with
+ */
+
+const WATCH = { id: 'watch-1', domain: 'example.com', url: 'https://example.com/' };
+
+function colors(values: Record<string, string>): W3CTokenSet {
+	return {
+		color: Object.fromEntries(Object.entries(values).map(([name, value]) => [name, { $type: 'color', $value: value }])),
+	} as unknown as W3CTokenSet;
+}
+
+test.describe('Token watches', () => {
+	test('drift is measured against the digest the watch last saw', () => {
+		expect(detectWatchDrift(null, 'sha-a')).toBe('baseline');
+		expect(detectWatchDrift('sha-a', 'sha-a')).toBe('unchanged');
+		expect(detectWatchDrift('sha-a', 'sha-b')).toBe('changed');
+	});
+
+	test('payload carries both versions, the summary and the described changes', () => {
+		const diff = compareTokenSets(
+			colors({ brand: '#2563eb', muted: '#6b7280' }),
+			colors({ brand: '#1d4ed8', accent: '#f59e0b' }),
+		);
+		const payload = buildDriftPayload(WATCH, {
+			versionNumber: 4,
+			previousVersionNumber: 2,
+			tokenSetId: 'token-set-4',
+			tokenHash: 'sha-b',
+			diff,
+		});
+
+		expect(payload).toMatchObject({
+			event: 'tokens.changed',
+			watchId: 'watch-1',
+			domain: 'example.com',
+			url: 'https://example.com/',
+			version: { number: 4, previous: 2, tokenSetId: 'token-set-4', tokenHash: 'sha-b' },
+			summary: { totalChanges: 3, addedCount: 1, removedCount: 1, modifiedCount: 1 },
+			truncated: false,
+		});
+		expect(new Date(payload.detectedAt).toISOString()).toBe(payload.detectedAt);
+		expect(payload.changes.map(change => change.changeType)).toEqual(['added', 'removed', 'modified']);
+		expect(payload.changes.find(change => change.changeType === 'modified')).toMatchObject({ old: '#2563eb', new: '#1d4ed8' });
+		expect(payload.changelog).toContain('**Total Changes**: 3');
+	});
+
+	test('long change lists are truncated; the summary still counts them all', () => {
+		const added = Object.fromEntries(Array.from({ length: 150 }, (_, index) => [`shade-${index}`, `#0000${(index % 256).toString(16).padStart(2, '0')}`]));
+		const payload = buildDriftPayload(WATCH, {
+			versionNumber: 2,
+			previousVersionNumber: 1,
+			tokenSetId: 'token-set-2',
+			tokenHash: 'sha-c',
+			diff: compareTokenSets(colors({}), colors(added)),
+		});
+
+		expect(payload.changes).toHaveLength(100);
+		expect(payload.truncated).toBe(true);
+		expect(payload.summary.totalChanges).toBe(150);
+	});
+
+	test('signatures are an HMAC-SHA256 of the exact body', () => {
+		const body = JSON.stringify({ event: 'tokens.changed', watchId: 'watch-1' });
+		const signature = signWebhookPayload(body, 'webhook-secret');
+
+		expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+		expect(signature).toBe(`sha256=${createHmac('sha256', 'webhook-secret').update(body).digest('hex')}`);
+		expect(signWebhookPayload(body, 'other-secret')).not.toBe(signature);
+		expect(signWebhookPayload(`${body} `, 'webhook-secret')).not.toBe(signature);
+	});
+});
@@ -0,0 +1,132 @@
+import { test, expect } from '@playwright/test';
+import { extractW3CTokens, type W3CDesignToken } from '@/lib/analyzers/w3c-tokenizer';
+import { curateTokens } from '@/lib/analyzers/token-curator';
+import { resolveAliasChain } from '@/lib/analyzers/css-variable-graph';
+import { exportTokens } from '@/lib/exporters/comprehensive-token-exporter';
+import type { CssSource } from '@/lib/extractors/static-css';
+
+/**
+ * Custom property alias chains are kept as DTCG references through extraction,
+ * curation and export
+ */
+
+const PRIMITIVES_CSS = `
+:root {
+	--blue-600: #2563eb;
+	--gray-900: #111827;
+}
+`;
+
+const SEMANTIC_CSS = `
+:root {
+	--primary: var(--blue-600);
+	--link: var(--primary);
+	--heading: var(--missing, var(--gray-900));
+	--loop-a: var(--loop-b);
+	--loop-b: var(--loop-a);
+}
+.button { background-color: var(--primary); border-color: var(--primary); }
+.nav a { color: var(--link); }
+.footer a { color: var(--link); }
+h1 { color: var(--heading); }
+h2 { color: var(--heading); }
+`;
+
+function source(content: string, url: string): CssSource {
+	return { kind: 'link', url, content, bytes: content.length, sha: url };
+}
+
+function extract() {
+	return extractW3CTokens(
+		[source(PRIMITIVES_CSS, 'https://example.com/tokens.css'), source(SEMANTIC_CSS, 'https://example.com/app.css')],
+		{ domain: 'example.com', url: 'https://example.com' }
+	);
+}
+
+function colors() {
+	return extract().tokenSet.color as Record<string, W3CDesignToken>;
+}
+
+test.describe('CSS variable alias graph', () => {
+	test('follows chains to the literal value', () => {
+		const variables = new Map([
+			['--blue-600', '#2563eb'],
+			['--primary', 'var(--blue-600)'],
+			['--link', 'var(--primary)'],
+		]);
+
+		expect(resolveAliasChain('--link', variables)).toEqual({
+			target: '--primary',
+			chain: ['--primary', '--blue-600'],
+			value: '#2563eb',
+			cycle: false,
+			fallback: false,
+		});
+	});
+
+	test('uses fallbacks for undefined references and stops on cycles', () => {
+		const variables = new Map([
+			['--gray-900', '#111827'],
+			['--heading', 'var(--missing, var(--gray-900))'],
+			['--loop-a', 'var(--loop-b)'],
+			['--loop-b', 'var(--loop-a)'],
+		]);
+
+		expect(resolveAliasChain('--heading', variables)).toMatchObject({ target: '--gray-900', value: '#111827', fallback: true });
+		expect(resolveAliasChain('--loop-a', variables)).toMatchObject({ value: null, cycle: true });
+	});
+});
+
+test.describe('Alias tokens', () => {
+	test('semantic tokens reference primitives across css sources', () => {
+		const tokens = colors();
+
+		expect(tokens.primary.$extensions?.['contextds.alias']).toBe('{color.blue-600}');
+		expect(tokens.primary.$extensions?.['contextds.tier']).toBe('semantic');
+		expect(tokens['blue-600'].$extensions?.['contextds.tier']).toBe('primitive');
+		expect(tokens.primary.$value).toEqual(tokens['blue-600'].$value);
+	});
+
+	test('aliases of aliases point at the next link', () => {
+		const tokens = colors();
+
+		expect(tokens.link.$extensions?.['contextds.alias']).toBe('{color.primary}');
+		expect(tokens.link.$extensions?.['contextds.aliasChain']).toEqual(['--primary', '--blue-600']);
+		expect(tokens.heading.$extensions?.['contextds.alias']).toBe('{color.gray-900}');
+	});
+
+	test('circular references produce no tokens', () => {
+		const tokens = colors();
+
+		expect(tokens['loop-a']).toBeUndefined();
+		expect(tokens['loop-b']).toBeUndefined();
+	});
+
+	test('curation surfaces primitive and semantic tiers', () => {
+		const curated = curateTokens(extract().tokenSet);
+		const tiers = curated.metadata?.tiers;
+
+		expect(tiers?.primitive).toEqual(expect.arrayContaining(['blue-600']));
+		expect(tiers?.semantic).toEqual(expect.arrayContaining(['primary', 'link']));
+		expect(tiers?.aliases).toContainEqual({ token: 'link', references: 'primary', resolvesTo: 'blue-600' });
+	});
+});
+
+test.describe('Alias exports', () => {
+	test('w3c export keeps references instead of duplicated values', () => {
+		const curated = curateTokens(extract().tokenSet);
+		const output = JSON.parse(exportTokens({ format: 'w3c-json', tokens: curated }));
+
+		expect(output.color.primary.$value).toBe('{color.blue-600}');
+		expect(output.color.link.$value).toBe('{color.primary}');
+		expect(output.color['blue-600'].$value).toBe('#2563eb');
+	});
+
+	test('css export aliases with var()', () => {
+		const curated = curateTokens(extract().tokenSet);
+		const css = exportTokens({ format: 'css', tokens: curated });
+
+		expect(css).toContain('--primary: var(--blue-600);');
+		expect(css).toContain('--link: var(--primary);');
+	});
+});
@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import { NextRequest } from 'next/server';
+import { setScanRepository, type ScanRepository } from '@/lib/db/repositories';
+import { createMemoryRepository } from '@/lib/db/repositories/memory';
+import { GET as listVersions } from '@/app/api/versions/[domain]/route';
+import { POST as compareVersions } from '@/app/api/versions/compare/route';
+
+/**
+ * Version routes: anonymous callers only ever see public token sets; private
+ * sets from profile scans are neither listed, flagged current nor diffable
+ */
+
+const V1 = { color: { brand: { $type: 'color', $value: '#2563eb' } } };
+const V2 = { color: { brand: { $type: 'color', $value: '#1d4ed8' } } };
+
+async function seed(repository: ScanRepository) {
+	const site = await repository.sites.create({ domain: 'staging.example.com' });
+	const complete = async (versionNumber: number, tokensJson: object, owner?: { isPublic: boolean; createdBy: string }) => {
+		const scan = await repository.scans.create({ siteId: site.id, method: 'static' });
+		return repository.completeScan({
+			siteId: site.id,
+			scanId: scan.id,
+			versionNumber,
+			tokensJson,
+			packJson: {},
+			consensusScore: '0.80',
+			layout: { profileJson: {} },
+			cssSourceCount: 1,
+			sha: `sha-v${versionNumber}`,
+			metricsJson: null,
+			...owner,
+		});
+	};
+
+	const published = await complete(1, V1);
+	const hidden = await complete(2, V2, { isPublic: false, createdBy: '00000000-0000-0000-0000-000000000001' });
+	return { published, hidden };
+}
+
+test.describe('Version routes', () => {
+	let sets: Awaited<ReturnType<typeof seed>>;
+
+	test.beforeEach(async () => {
+		const repository = createMemoryRepository();
+		setScanRepository(repository);
+		sets = await seed(repository);
+	});
+
+	test.afterEach(() => {
+		setScanRepository(null);
+	});
+
+	test('anonymous version lists leave out private sets', async () => {
+		const response = await listVersions(new NextRequest('http://localhost/api/versions/staging.example.com'), {
+			params: Promise.resolve({ domain: 'staging.example.com' }),
+		});
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body.totalVersions).toBe(1);
+		expect(body.versions).toEqual([expect.objectContaining({ id: sets.published.id, versionNumber: 1, isCurrent: true, isPublic: true })]);
+	});
+
+	test('anonymous compares cannot diff a private set by id', async () => {
+		const compare = (oldVersionId: string, newVersionId: string) => compareVersions(new NextRequest('http://localhost/api/versions/compare', {
+			method: 'POST',
+			body: JSON.stringify({ oldVersionId, newVersionId }),
+		}));
+
+		const hidden = await compare(sets.published.id, sets.hidden.id);
+		expect(hidden.status).toBe(404);
+		expect(await hidden.json()).toEqual({ error: 'Version not found' });
+
+		const visible = await compare(sets.published.id, sets.published.id);
+		expect(visible.status).toBe(200);
+		expect((await visible.json()).diff.summary).toMatchObject({ totalChanges: 0 });
+	});
+});
@@ -0,0 +1,132 @@
+import { test, expect } from '@playwright/test';
+import type { AccessibilityAnalysis, AccessibilityViolation } from '@/lib/analyzers/accessibility-analyzer';
+import type { AccessibilityTrendPoint, NewAccessibilityReportRecord, ScanRepository } from '@/lib/db/repositories';
+import { createMemoryRepository } from '@/lib/db/repositories/memory';
+import { recordAccessibilityReport } from '@/lib/workers/scan-orchestrator';
+
+/**
+ * WCAG reports from accurate scans: the counts and score stored per scan, and
+ * the score trend returned with the scan result, against a stub repository
+ */
+
+const REPORT = {
+	siteId: 'site-1',
+	scanId: 'scan-3',
+	tokenSetId: 'token-set-3',
+	url: 'https://example.com/',
+};
+
+function violation(severity: AccessibilityViolation['severity']): AccessibilityViolation {
+	return {
+		type: 'color-contrast',
+		severity,
+		element: 'p',
+		description: 'Insufficient color contrast',
+		location: { x: 0, y: 0 },
+		suggestion: 'Darken the text color',
+		wcagReference: '1.4.3',
+	};
+}
+
+function analysis(overall: number, severities: AccessibilityViolation['severity'][]): AccessibilityAnalysis {
+	return {
+		wcag: {
+			level: 'AA',
+			violations: severities.map(violation),
+			recommendations: ['Raise text contrast to 4.5:1'],
+		},
+		score: {
+			overall,
+			categories: { perceivable: 70, operable: 90, understandable: 85, robust: 80 },
+		},
+	} as unknown as AccessibilityAnalysis;
+}
+
+function createStubRepository(trend: AccessibilityTrendPoint[] | Error, failRecord = false) {
+	const recorded: NewAccessibilityReportRecord[] = [];
+	const repository = {
+		...createMemoryRepository(),
+		name: 'postgres',
+		accessibilityReports: {
+			record: async (data: NewAccessibilityReportRecord) => {
+				if (failRecord) throw new Error('connection reset');
+				recorded.push(data);
+			},
+			trend: async () => {
+				if (trend instanceof Error) throw trend;
+				return trend;
+			},
+		},
+	} satisfies ScanRepository;
+	return { repository, recorded };
+}
+
+const TREND: AccessibilityTrendPoint[] = [
+	{ scanId: 'scan-1', versionNumber: 1, score: 64, level: 'A', violationCount: 9, criticalCount: 2, createdAt: new Date('2026-01-01T00:00:00Z') },
+	{ scanId: 'scan-2', versionNumber: null, score: 71, level: 'AA', violationCount: 4, criticalCount: 1, createdAt: new Date('2026-02-01T00:00:00Z') },
+];
+
+test.describe('WCAG reports', () => {
+	test('stores the rounded score and counts critical violations', async () => {
+		const { repository, recorded } = createStubRepository([]);
+		const scanAnalysis = analysis(78.6, ['critical', 'high', 'critical', 'low']);
+
+		const report = await recordAccessibilityReport(repository, { ...REPORT, analysis: scanAnalysis });
+
+		expect(recorded).toEqual([{
+			...REPORT,
+			score: 79,
+			level: 'AA',
+			violationCount: 4,
+			criticalCount: 2,
+			reportJson: scanAnalysis,
+		}]);
+		expect(report).toMatchObject({
+			score: 79,
+			level: 'AA',
+			violationCount: 4,
+			criticalCount: 2,
+			categories: { perceivable: 70 },
+			recommendations: ['Raise text contrast to 4.5:1'],
+		});
+		expect(report.violations).toHaveLength(4);
+	});
+
+	test('the trend is serialized oldest first with ISO dates', async () => {
+		const { repository } = createStubRepository(TREND);
+		const report = await recordAccessibilityReport(repository, { ...REPORT, analysis: analysis(80.4, []) });
+
+		expect(report.score).toBe(80);
+		expect(report.criticalCount).toBe(0);
+		expect(report.trend).toEqual([
+			{ versionNumber: 1, score: 64, level: 'A', createdAt: '2026-01-01T00:00:00.000Z' },
+			{ versionNumber: null, score: 71, level: 'AA', createdAt: '2026-02-01T00:00:00.000Z' },
+		]);
+	});
+
+	test('storage failures still return the report', async () => {
+		const failing = createStubRepository(TREND, true);
+		const stored = await recordAccessibilityReport(failing.repository, { ...REPORT, analysis: analysis(55, ['critical']) });
+		expect(failing.recorded).toEqual([]);
+		expect(stored).toMatchObject({ score: 55, criticalCount: 1, trend: [{ score: 64 }, { score: 71 }] });
+
+		const noTrend = createStubRepository(new Error('statement timeout'));
+		expect((await recordAccessibilityReport(noTrend.repository, { ...REPORT, analysis: analysis(55, []) })).trend).toEqual([]);
+	});
+
+	test('profile scans return their report without storing it or reading the trend', async () => {
+		const { repository, recorded } = createStubRepository(TREND);
+		const report = await recordAccessibilityReport(repository, { ...REPORT, analysis: analysis(66, ['critical']), isPublic: false });
+
+		expect(recorded).toEqual([]);
+		expect(report).toMatchObject({ score: 66, criticalCount: 1, trend: [] });
+	});
+
+	test('adapters without report storage return the report without a trend', async () => {
+		const repository = createMemoryRepository();
+		const report = await recordAccessibilityReport(repository, { ...REPORT, analysis: analysis(91.5, ['medium']) });
+
+		expect(repository.accessibilityReports).toBeUndefined();
+		expect(report).toMatchObject({ score: 92, violationCount: 1, criticalCount: 0, trend: [] });
+	});
+});